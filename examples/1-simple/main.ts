@@ -61,6 +61,9 @@
  * MCP_TRANSPORT=http deno run --allow-all --unstable-kv main.ts
  * # Then access: http://localhost:3000
  *
+ * # Show the resolved configuration and the source of each value:
+ * deno run --allow-all --unstable-kv main.ts --print-config
+ *
  * NEXT STEPS:
  * ===========
  *
@@ -99,7 +102,7 @@
  */
 
 // Import the bb-mcp-server library - handles ALL infrastructure
-import { AppServer } from '@beyondbetter/bb-mcp-server';
+import { AppServer, getConfigManager } from '@beyondbetter/bb-mcp-server';
 
 /**
  * Simple main function - library handles all complexity
@@ -110,6 +113,13 @@ import { AppServer } from '@beyondbetter/bb-mcp-server';
  * 3. Library handles everything else automatically
  */
 async function main(): Promise<void> {
+  // 🔍 --print-config: show each resolved value and where it came from, then exit
+  if (Deno.args.includes('--print-config')) {
+    const configManager = await getConfigManager();
+    console.log(configManager.formatConfig());
+    Deno.exit(0);
+  }
+
   try {
     // 📝 Create AppServer with minimal configuration
     // Library automatically:
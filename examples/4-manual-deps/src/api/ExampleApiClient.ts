@@ -822,7 +822,7 @@ export class ExampleApiClient extends BaseApiClient {
     attempt = 1,
   ): Promise<Response> {
     try {
-      const response = await fetch(url, options);
+      const response = await this.tracedFetch(url, options);
 
       // Check for successful response
       if (response.ok) {
@@ -0,0 +1,255 @@
+/**
+ * Client Assertion Validator - private_key_jwt Client Authentication (RFC 7523)
+ *
+ * 🔒 SECURITY-CRITICAL: This component authenticates confidential clients that sign
+ * a JWT with a private key instead of sending a shared secret. The public keys are
+ * registered with the client (`jwks` metadata, RFC 7591).
+ *
+ * Security Requirements:
+ * - RFC 7523 section 3 claim validation (iss, sub, aud, exp, jti)
+ * - Only asymmetric algorithms (RS256, ES256) - never 'none' or HMAC
+ * - Short assertion lifetimes
+ * - Replay protection by remembering each jti until the assertion expires
+ */
+
+import type { Logger } from '../../types/library.types.ts';
+import type { KVManager } from '../storage/KVManager.ts';
+import { toError } from '../utils/Error.ts';
+import type { ClientRegistration, JsonWebKeySet } from './OAuthTypes.ts';
+
+/**
+ * Assertion type for JWT client authentication (RFC 7523 section 2.2)
+ */
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+/**
+ * Signing algorithms accepted for client assertions
+ */
+export const CLIENT_ASSERTION_ALGORITHMS = ['RS256', 'ES256'] as const;
+
+type ClientAssertionAlgorithm = typeof CLIENT_ASSERTION_ALGORITHMS[number];
+
+/**
+ * Client assertion validator configuration
+ */
+export interface ClientAssertionValidatorConfig {
+  /** Accepted audience values (the token endpoint URL and the issuer) */
+  audiences: string[];
+  /** Maximum assertion lifetime in milliseconds (default: 5 minutes) */
+  maxLifetimeMs?: number;
+  /** Allowed clock skew in milliseconds (default: 30 seconds) */
+  clockSkewMs?: number;
+}
+
+/**
+ * Dependencies required by ClientAssertionValidator
+ */
+export interface ClientAssertionValidatorDependencies {
+  /** KV storage manager for replay protection */
+  kvManager: KVManager;
+  /** Logger for security event logging */
+  logger?: Logger | undefined;
+}
+
+/**
+ * Client assertion validation result
+ */
+export interface ClientAssertionValidation {
+  /** Whether the assertion is valid for the client */
+  valid: boolean;
+  /** Error message if validation failed */
+  error?: string;
+}
+
+/**
+ * 🔒 SECURITY-CRITICAL: JWT client assertion validator
+ *
+ * Verifies the signature of a client assertion against the client's registered
+ * JWKS and enforces the RFC 7523 claim requirements.
+ */
+export class ClientAssertionValidator {
+  private kvManager: KVManager;
+  private logger: Logger | undefined;
+  private config: Required<ClientAssertionValidatorConfig>;
+
+  private readonly JTI_PREFIX = ['oauth', 'client_assertion_jti'];
+
+  constructor(
+    config: ClientAssertionValidatorConfig,
+    dependencies: ClientAssertionValidatorDependencies,
+  ) {
+    this.kvManager = dependencies.kvManager;
+    this.logger = dependencies.logger;
+    this.config = {
+      audiences: config.audiences,
+      maxLifetimeMs: config.maxLifetimeMs ?? 5 * 60 * 1000,
+      clockSkewMs: config.clockSkewMs ?? 30 * 1000,
+    };
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Validate a client assertion for a registered client
+   */
+  async validateAssertion(
+    assertion: string,
+    client: ClientRegistration,
+  ): Promise<ClientAssertionValidation> {
+    const clientId = client.client_id;
+
+    try {
+      if (!client.jwks?.keys?.length) {
+        return { valid: false, error: 'Client has no registered keys' };
+      }
+
+      const parts = assertion.split('.');
+      if (parts.length !== 3) {
+        return { valid: false, error: 'Malformed client assertion' };
+      }
+      const [encodedHeader, encodedPayload, encodedSignature] = parts as [string, string, string];
+
+      const header = this.decodeJson(encodedHeader);
+      const payload = this.decodeJson(encodedPayload);
+      if (!header || !payload) {
+        return { valid: false, error: 'Malformed client assertion' };
+      }
+
+      const alg = header.alg;
+      if (!this.isSupportedAlgorithm(alg)) {
+        return { valid: false, error: `Unsupported client assertion algorithm: ${String(alg)}` };
+      }
+
+      // 1. Signature
+      const signedData = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+      const signature = this.decodeBase64Url(encodedSignature);
+      const kid = typeof header.kid === 'string' ? header.kid : undefined;
+      if (!await this.verifySignature(client.jwks, alg, kid, signedData, signature)) {
+        this.logger?.warn('ClientAssertionValidator: Invalid assertion signature', {
+          clientId,
+          alg,
+          kid,
+        });
+        return { valid: false, error: 'Invalid client assertion signature' };
+      }
+
+      // 2. Claims (RFC 7523 section 3)
+      if (payload.iss !== clientId || payload.sub !== clientId) {
+        return { valid: false, error: 'Client assertion issuer and subject must be the client ID' };
+      }
+
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (
+        !audiences.some((aud) => typeof aud === 'string' && this.config.audiences.includes(aud))
+      ) {
+        return { valid: false, error: 'Client assertion audience is not this server' };
+      }
+
+      const now = Date.now();
+      if (typeof payload.exp !== 'number') {
+        return { valid: false, error: 'Client assertion has no expiry' };
+      }
+      const expiresAt = payload.exp * 1000;
+      if (expiresAt + this.config.clockSkewMs < now) {
+        return { valid: false, error: 'Client assertion has expired' };
+      }
+      if (expiresAt - now > this.config.maxLifetimeMs + this.config.clockSkewMs) {
+        return { valid: false, error: 'Client assertion lifetime is too long' };
+      }
+      if (typeof payload.nbf === 'number' && payload.nbf * 1000 - this.config.clockSkewMs > now) {
+        return { valid: false, error: 'Client assertion is not yet valid' };
+      }
+
+      // 3. Replay protection
+      if (typeof payload.jti !== 'string' || !payload.jti) {
+        return { valid: false, error: 'Client assertion has no jti' };
+      }
+      const jtiKey = [...this.JTI_PREFIX, clientId, payload.jti];
+      if (await this.kvManager.get(jtiKey)) {
+        this.logger?.warn('ClientAssertionValidator: Client assertion replay detected', {
+          clientId,
+          jti: payload.jti,
+        });
+        return { valid: false, error: 'Client assertion has already been used' };
+      }
+      await this.kvManager.set(jtiKey, now, {
+        expireIn: Math.max(expiresAt - now, 0) + this.config.clockSkewMs,
+      });
+
+      return { valid: true };
+    } catch (error) {
+      this.logger?.error(
+        'ClientAssertionValidator: Failed to validate client assertion:',
+        toError(error),
+        { clientId },
+      );
+      return { valid: false, error: 'Client assertion validation failed' };
+    }
+  }
+
+  /**
+   * Check the signature against every registered key that fits the algorithm
+   */
+  private async verifySignature(
+    jwks: JsonWebKeySet,
+    alg: ClientAssertionAlgorithm,
+    kid: string | undefined,
+    data: Uint8Array<ArrayBuffer>,
+    signature: Uint8Array<ArrayBuffer>,
+  ): Promise<boolean> {
+    const kty = alg === 'RS256' ? 'RSA' : 'EC';
+    const candidates = jwks.keys.filter((key) =>
+      key.kty === kty && (!kid || key.kid === kid) && (!key.alg || key.alg === alg)
+    );
+
+    for (const jwk of candidates) {
+      try {
+        // Import only the public key members - alg/use/key_ops on registered keys are ignored
+        const publicJwk: JsonWebKey = { kty };
+        for (const member of ['n', 'e', 'crv', 'x', 'y'] as const) {
+          if (jwk[member]) publicJwk[member] = jwk[member];
+        }
+        const key = await crypto.subtle.importKey(
+          'jwk',
+          publicJwk,
+          alg === 'RS256'
+            ? { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }
+            : { name: 'ECDSA', namedCurve: 'P-256' },
+          false,
+          ['verify'],
+        );
+        const verifyParams = alg === 'RS256'
+          ? { name: 'RSASSA-PKCS1-v1_5' }
+          : { name: 'ECDSA', hash: 'SHA-256' };
+
+        if (await crypto.subtle.verify(verifyParams, key, signature, data)) {
+          return true;
+        }
+      } catch (error) {
+        this.logger?.debug('ClientAssertionValidator: Skipping unusable client key', {
+          kid: jwk.kid,
+          error: toError(error).message,
+        });
+      }
+    }
+
+    return false;
+  }
+
+  private isSupportedAlgorithm(alg: unknown): alg is ClientAssertionAlgorithm {
+    return CLIENT_ASSERTION_ALGORITHMS.includes(alg as ClientAssertionAlgorithm);
+  }
+
+  private decodeJson(segment: string): Record<string, unknown> | null {
+    try {
+      const value = JSON.parse(new TextDecoder().decode(this.decodeBase64Url(segment)));
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private decodeBase64Url(segment: string): Uint8Array<ArrayBuffer> {
+    const base64 = segment.replace(/-/g, '+').replace(/_/g, '/');
+    const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+    return Uint8Array.from(atob(padded), (char) => char.charCodeAt(0));
+  }
+}
@@ -11,6 +11,8 @@
  * - Redirect URI validation with HTTPS requirements
  * - Client metadata validation and storage
  * - Rate limiting protection for client registration abuse
+ * - Confidential clients (client_credentials grant) authenticate with a hashed
+ *   client secret or a registered JWKS (private_key_jwt)
  */
 
 import type { Logger } from '../../types/library.types.ts';
@@ -22,6 +24,7 @@ import type {
   ClientRegistrationResponse,
   ClientStats,
   ClientValidation,
+  TokenEndpointAuthMethod,
 } from './OAuthTypes.ts';
 
 /**
@@ -40,6 +43,18 @@ export interface ClientRegistryConfig {
   maxClientsPerIP?: number;
 }
 
+/**
+ * Options for a client registration
+ */
+export interface ClientRegistrationOptions {
+  /**
+   * Registration made by the server operator rather than through the public
+   * /register endpoint. Trusted registrations bypass the dynamic registration
+   * switch and may use the client_credentials grant.
+   */
+  trusted?: boolean;
+}
+
 /**
  * Dependencies required by ClientRegistry
  */
@@ -102,6 +117,7 @@ export class ClientRegistry {
   async registerClient(
     request: ClientRegistrationRequest,
     metadata?: { userAgent?: string; ipAddress?: string },
+    options: ClientRegistrationOptions = {},
   ): Promise<ClientRegistrationResponse> {
     const registrationId = Math.random().toString(36).substring(2, 15);
 
@@ -117,12 +133,25 @@ export class ClientRegistry {
 
     try {
       // Check if dynamic registration is enabled
-      if (!this.config.enableDynamicRegistration) {
+      if (!this.config.enableDynamicRegistration && !options.trusted) {
         throw new Error('Dynamic client registration is disabled');
       }
 
+      const grantTypes = request.grant_types || ['authorization_code', 'refresh_token'];
+      // 🔒 SECURITY-CRITICAL: Service clients act without a user, so anonymous
+      // self-registration must not be able to create them
+      if (grantTypes.includes('client_credentials') && !options.trusted) {
+        throw new Error('client_credentials clients cannot be registered dynamically');
+      }
+
+      const authMethod = this.resolveAuthMethod(request, grantTypes);
+      const redirectUris = request.redirect_uris ?? [];
+
       // 🔒 SECURITY-CRITICAL: Validate redirect URIs (exact preservation from OAuthClientService.ts)
-      this.validateRedirectUris(request.redirect_uris);
+      // Machine-to-machine clients never redirect, so they may register without any
+      if (grantTypes.includes('authorization_code') || redirectUris.length > 0) {
+        this.validateRedirectUris(redirectUris);
+      }
 
       // Generate unique client ID
       const clientId = await this.generateUniqueClientId();
@@ -131,9 +160,10 @@ export class ClientRegistry {
       const registration: ClientRegistration = {
         client_id: clientId,
         client_secret_expires_at: 0, // Never expires for PKCE flows
-        redirect_uris: request.redirect_uris,
+        token_endpoint_auth_method: authMethod,
+        redirect_uris: redirectUris,
         response_types: request.response_types || ['code'],
-        grant_types: request.grant_types || ['authorization_code', 'refresh_token'],
+        grant_types: grantTypes,
         created_at: Date.now(),
         updated_at: Date.now(),
         client_id_issued_at: Date.now(),
@@ -163,6 +193,15 @@ export class ClientRegistry {
         registration.policy_uri = request.policy_uri;
       }
 
+      // 🔒 SECURITY-CRITICAL: Confidential client credentials - only the secret hash is stored
+      let clientSecret: string | undefined;
+      if (authMethod === 'client_secret_basic' || authMethod === 'client_secret_post') {
+        clientSecret = this.generateClientSecret();
+        registration.client_secret_hash = await this.hashClientSecret(clientSecret);
+      } else if (authMethod === 'private_key_jwt') {
+        registration.jwks = request.jwks!;
+      }
+
       // Store client registration
       await this.storeClientRegistration(registration);
 
@@ -170,14 +209,18 @@ export class ClientRegistry {
         registrationId,
         clientId,
         clientName: request.client_name,
-        redirectUris: request.redirect_uris.length,
+        redirectUris: redirectUris.length,
+        authMethod,
       });
 
-      // 🔒 SECURITY-CRITICAL: Return RFC 7591 compliant registration response (PKCE-only, no client secret)
+      // 🔒 SECURITY-CRITICAL: Return RFC 7591 compliant registration response
+      // Public clients get no secret (PKCE only); the secret of a confidential client is
+      // returned once here and can't be retrieved later
       const response: ClientRegistrationResponse = {
         client_id: clientId,
-        client_secret_expires_at: 0, // Never expires because there is no secret
-        token_endpoint_auth_method: 'none', // PKCE only, no client authentication
+        ...(clientSecret && { client_secret: clientSecret }),
+        client_secret_expires_at: 0, // Never expires
+        token_endpoint_auth_method: authMethod,
         redirect_uris: registration.redirect_uris,
         response_types: registration.response_types!,
         grant_types: registration.grant_types!,
@@ -507,6 +550,105 @@ export class ClientRegistry {
     }
   }
 
+  /**
+   * 🔒 SECURITY-CRITICAL: Check a client secret against the stored hash
+   *
+   * Registrations created before secrets were hashed may still hold a plaintext
+   * client_secret, which is compared in constant time as well.
+   */
+  async verifyClientSecret(registration: ClientRegistration, secret: string): Promise<boolean> {
+    if (registration.client_secret_hash) {
+      return this.constantTimeEquals(
+        await this.hashClientSecret(secret),
+        registration.client_secret_hash,
+      );
+    }
+    if (registration.client_secret) {
+      return this.constantTimeEquals(secret, registration.client_secret);
+    }
+    return false;
+  }
+
+  /**
+   * Whether a client must authenticate (has a secret or registered keys)
+   */
+  isConfidentialClient(registration: ClientRegistration): boolean {
+    return (registration.token_endpoint_auth_method ?? 'none') !== 'none' ||
+      !!registration.client_secret_hash || !!registration.client_secret;
+  }
+
+  /**
+   * Determine and validate the token endpoint auth method for a registration request
+   */
+  private resolveAuthMethod(
+    request: ClientRegistrationRequest,
+    grantTypes: string[],
+  ): TokenEndpointAuthMethod {
+    const usesClientCredentials = grantTypes.includes('client_credentials');
+    const authMethod = request.token_endpoint_auth_method ??
+      (usesClientCredentials ? 'client_secret_basic' : 'none');
+
+    const supportedMethods: TokenEndpointAuthMethod[] = [
+      'none',
+      'client_secret_basic',
+      'client_secret_post',
+      'private_key_jwt',
+    ];
+    if (!supportedMethods.includes(authMethod)) {
+      throw new Error(`Unsupported token_endpoint_auth_method: ${authMethod}`);
+    }
+    if (usesClientCredentials && authMethod === 'none') {
+      throw new Error(
+        'The client_credentials grant requires an authenticating (confidential) client',
+      );
+    }
+    if (
+      authMethod === 'private_key_jwt' &&
+      (!Array.isArray(request.jwks?.keys) || request.jwks.keys.length === 0)
+    ) {
+      throw new Error('private_key_jwt clients must register a jwks with at least one key');
+    }
+
+    return authMethod;
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Generate a client secret (256 bits, base64url)
+   */
+  private generateClientSecret(): string {
+    const randomBytes = new Uint8Array(32);
+    crypto.getRandomValues(randomBytes);
+    return this.toBase64Url(randomBytes);
+  }
+
+  /**
+   * SHA-256 hash of a client secret (base64url)
+   */
+  private async hashClientSecret(secret: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(secret));
+    return this.toBase64Url(new Uint8Array(digest));
+  }
+
+  private toBase64Url(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes))
+      .replace(/\+/g, '-')
+      .replace(/\//g, '_')
+      .replace(/=/g, '');
+  }
+
+  /**
+   * Compare strings without short-circuiting on the first difference
+   */
+  private constantTimeEquals(provided: string, expected: string): boolean {
+    const a = new TextEncoder().encode(provided);
+    const b = new TextEncoder().encode(expected);
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+    }
+    return diff === 0;
+  }
+
   /**
    * Store client registration in KV
    */
@@ -15,6 +15,7 @@
 
 import type { Logger } from '../../types/library.types.ts';
 import { toError } from '../utils/Error.ts';
+import { CLIENT_ASSERTION_ALGORITHMS } from './ClientAssertionValidator.ts';
 import type { AuthorizationServerMetadata, OAuthProviderConfig } from './OAuthTypes.ts';
 
 /**
@@ -31,6 +32,8 @@ export interface OAuthMetadataConfig {
   registrationEndpoint?: string;
   /** Token revocation endpoint path (optional) */
   revocationEndpoint?: string;
+  /** Token introspection endpoint path (optional) */
+  introspectionEndpoint?: string;
   /** Well-known metadata endpoint path (default: /.well-known/oauth-authorization-server) */
   metadataEndpoint?: string;
   /** Supported grant types */
@@ -127,6 +130,11 @@ export class OAuthMetadata {
         }),
         // Always include revocation endpoint
         revocation_endpoint: this.buildEndpointUrl(this.config.revocationEndpoint!),
+        // Token introspection (RFC 7662)
+        ...(this.config.introspectionEndpoint && {
+          introspection_endpoint: this.buildEndpointUrl(this.config.introspectionEndpoint),
+          introspection_endpoint_auth_methods_supported: this.getTokenEndpointAuthMethods(),
+        }),
 
         // Supported capabilities
         grant_types_supported: [...this.config.supportedGrantTypes],
@@ -135,6 +143,9 @@ export class OAuthMetadata {
 
         // Token endpoint authentication methods
         token_endpoint_auth_methods_supported: this.getTokenEndpointAuthMethods(),
+        token_endpoint_auth_signing_alg_values_supported: [
+          ...CLIENT_ASSERTION_ALGORITHMS,
+        ],
 
         // PKCE support (RFC 7636)
         code_challenge_methods_supported: this.getCodeChallengeMethods(),
@@ -231,6 +242,7 @@ export class OAuthMetadata {
       'none', // PKCE public clients
       'client_secret_basic', // Basic authentication with client credentials
       'client_secret_post', // POST body authentication with client credentials
+      'private_key_jwt', // Signed JWT assertion (RFC 7523) for confidential clients
     ];
 
     this.logger?.debug('OAuthMetadata: Determined token endpoint auth methods', {
@@ -375,6 +387,7 @@ export class OAuthMetadata {
       tokenEndpoint: '/token',
       registrationEndpoint: '/register',
       revocationEndpoint: '/revoke',
+      introspectionEndpoint: '/introspect',
       metadataEndpoint: '/.well-known/oauth-authorization-server',
 
       supportedResponseTypes: providerConfig.authorization.supportedResponseTypes ?? ['code'],
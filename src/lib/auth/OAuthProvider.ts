@@ -10,6 +10,8 @@
  * - RFC 7636 PKCE (Proof Key for Code Exchange) integration
  * - RFC 7591 Dynamic Client Registration support
  * - RFC 8414 Authorization Server Metadata endpoint
+ * - RFC 7009 Token Revocation and RFC 7662 Token Introspection
+ * - Client credentials grant for machine-to-machine access (RFC 6749 section 4.4)
  * - Complete MCP session binding for third-party OAuth integration
  * - Comprehensive security logging and audit trails
  */
@@ -17,9 +19,12 @@
 import type { Logger } from '../../types/library.types.ts';
 import type { KVManager } from '../storage/KVManager.ts';
 import type { CredentialStore } from '../storage/CredentialStore.ts';
+import type { AuditLogger } from '../utils/AuditLogger.ts';
 import { toError } from '../utils/Error.ts';
+import { MCP_METRICS, MetricsRegistry } from '../utils/MetricsRegistry.ts';
 
-import { TokenManager } from './TokenManager.ts';
+import { TokenManager, type TokenRevocationResult } from './TokenManager.ts';
+import { CLIENT_ASSERTION_TYPE, ClientAssertionValidator } from './ClientAssertionValidator.ts';
 import { PKCEHandler } from './PKCEHandler.ts';
 import { ClientRegistry } from './ClientRegistry.ts';
 import { AuthorizationHandler } from './AuthorizationHandler.ts';
@@ -30,8 +35,12 @@ import type {
   AuthorizationServerMetadata,
   AuthorizeRequest,
   AuthorizeResponse,
+  ClientCredentials,
+  ClientRegistration,
   ClientRegistrationRequest,
   ClientRegistrationResponse,
+  ClientStats,
+  ClientValidation,
   MCPAuthContext,
   MCPAuthorizationRequest,
   OAuthProviderConfig,
@@ -39,6 +48,7 @@ import type {
   TokenMapping,
   TokenRequest,
   TokenResponse,
+  TokenSubjectType,
   //TokenValidation,
 } from './OAuthTypes.ts';
 
@@ -52,6 +62,8 @@ export interface OAuthProviderDependencies {
   credentialStore: CredentialStore;
   /** Logger for security event logging */
   logger: Logger;
+  /** Audit logger for token lifecycle events (optional) */
+  auditLogger?: AuditLogger | undefined;
   /** OAuth consumer for third-party authentication (optional) */
   oauthConsumer?: OAuthConsumer | undefined;
   /** Third-party API client for token refresh (optional) */
@@ -115,6 +127,7 @@ export class OAuthProvider {
   private clientRegistry: ClientRegistry;
   private authorizationHandler: AuthorizationHandler;
   private metadataHandler: OAuthMetadata;
+  private clientAssertionValidator: ClientAssertionValidator;
 
   // Short-circuit mechanism to prevent infinite auth loops
   private authAttempts = new Map<string, { count: number; firstAttempt: number }>();
@@ -139,6 +152,7 @@ export class OAuthProvider {
       {
         kvManager: this.kvManager,
         logger: this.logger,
+        auditLogger: dependencies.auditLogger,
       },
     );
 
@@ -176,6 +190,17 @@ export class OAuthProvider {
 
     this.metadataHandler = OAuthMetadata.fromProviderConfig(this.config, this.logger);
 
+    this.clientAssertionValidator = new ClientAssertionValidator(
+      {
+        // Clients may address the token endpoint or the issuer itself (RFC 7523 section 3)
+        audiences: [`${this.config.issuer}/token`, this.config.issuer],
+      },
+      {
+        kvManager: this.kvManager,
+        logger: this.logger,
+      },
+    );
+
     this.logger?.info('OAuthProvider: Initialized OAuth 2.0 Authorization Server', {
       issuer: this.config.issuer,
       features: {
@@ -221,8 +246,8 @@ export class OAuthProvider {
   /**
    * 🔒 SECURITY-CRITICAL: Handle OAuth token request
    *
-   * Processes token requests for both authorization_code and refresh_token grants.
-   * Includes comprehensive validation and security checks.
+   * Processes token requests for authorization_code, refresh_token and client_credentials
+   * grants. Includes comprehensive validation and security checks.
    */
   async handleTokenRequest(request: TokenRequest): Promise<TokenResponse> {
     const tokenId = Math.random().toString(36).substring(2, 15);
@@ -235,13 +260,21 @@ export class OAuthProvider {
     // });
 
     try {
+      let response: TokenResponse;
       if (request.grant_type === 'authorization_code') {
-        return await this.handleAuthorizationCodeGrant(request);
+        response = await this.handleAuthorizationCodeGrant(request);
       } else if (request.grant_type === 'refresh_token') {
-        return await this.handleRefreshTokenGrant(request);
+        response = await this.handleRefreshTokenGrant(request);
+      } else if (request.grant_type === 'client_credentials') {
+        response = await this.handleClientCredentialsGrant(request);
       } else {
         throw new Error(`Unsupported grant type: ${request.grant_type}`);
       }
+
+      MetricsRegistry.getInstance().incrementCounter(MCP_METRICS.tokensIssued, {
+        grant_type: request.grant_type,
+      });
+      return response;
     } catch (error) {
       this.logger?.error(`OAuthProvider: Token request failed [${tokenId}]:`, toError(error));
       throw error;
@@ -295,6 +328,7 @@ export class OAuthProvider {
     clientId?: string;
     userId?: string;
     scope?: string;
+    subjectType?: TokenSubjectType;
     error?: string;
     errorCode?: string;
     actionTaken?: string;
@@ -340,7 +374,8 @@ export class OAuthProvider {
       }
 
       // 2. 🔒 SECURITY-CRITICAL: SESSION BINDING REQUIREMENT - Validate third-party token status
-      if (effectiveAuthService) {
+      // Service tokens (client_credentials) have no user, so there is no session to bind
+      if (effectiveAuthService && tokenValidation.subjectType !== 'service') {
         const isThirdPartyValid = await effectiveAuthService.isUserAuthenticated(
           tokenValidation.userId!,
         );
@@ -593,6 +628,7 @@ export class OAuthProvider {
         clientId?: string;
         userId?: string;
         scope?: string;
+        subjectType?: TokenSubjectType;
         error?: string;
         errorCode?: string;
         actionTaken?: string;
@@ -609,6 +645,9 @@ export class OAuthProvider {
       if (tokenValidation.scopes) {
         result.scope = tokenValidation.scopes.join(' ');
       }
+      if (tokenValidation.subjectType) {
+        result.subjectType = tokenValidation.subjectType;
+      }
 
       return result;
     } catch (error) {
@@ -673,6 +712,7 @@ export class OAuthProvider {
       userId: validation.userId!,
       scope: scopes,
       actionTaken: validation.actionTaken || '',
+      subjectType: validation.subjectType ?? 'user',
     };
   }
 
@@ -693,22 +733,121 @@ export class OAuthProvider {
     return await this.authorizationHandler.getMCPAuthRequest(externalState);
   }
 
+  /**
+   * 🔒 SECURITY-CRITICAL: Register a confidential service client (client_credentials grant)
+   *
+   * For the server operator only - the public /register endpoint rejects these clients.
+   * The returned client_secret is shown once; only its hash is stored. Register a
+   * `jwks` with token_endpoint_auth_method 'private_key_jwt' to use signed assertions instead.
+   */
+  async registerServiceClient(
+    request: Partial<ClientRegistrationRequest>,
+  ): Promise<ClientRegistrationResponse> {
+    return await this.clientRegistry.registerClient(
+      {
+        ...request,
+        redirect_uris: request.redirect_uris ?? [],
+        grant_types: request.grant_types ?? ['client_credentials'],
+        response_types: request.response_types ?? [],
+      },
+      undefined,
+      { trusted: true },
+    );
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Authenticate a client at the token, revocation and introspection endpoints
+   *
+   * Public (PKCE) clients authenticate with their client_id alone. Confidential clients
+   * must present their secret (client_secret_basic / client_secret_post) or a signed
+   * client assertion (private_key_jwt).
+   */
+  async authenticateClient(
+    clientId: string,
+    credentials: ClientCredentials = {},
+  ): Promise<ClientValidation> {
+    const validation = await this.clientRegistry.validateClient(clientId);
+    if (!validation.valid || !validation.client) {
+      return { valid: false, error: validation.error || 'Client not found' };
+    }
+
+    const client = validation.client;
+    if (client.metadata?.revoked === true) {
+      this.logger?.warn('OAuthProvider: Revoked client attempted authentication', { clientId });
+      return { valid: false, error: 'Client has been revoked' };
+    }
+
+    const failure = (error: string): ClientValidation => {
+      this.logger?.warn('OAuthProvider: Client authentication failed', { clientId, error });
+      return { valid: false, error };
+    };
+
+    if (client.token_endpoint_auth_method === 'private_key_jwt') {
+      if (credentials.clientAssertionType !== CLIENT_ASSERTION_TYPE) {
+        return failure('A client assertion of type jwt-bearer is required');
+      }
+      const assertion = await this.clientAssertionValidator.validateAssertion(
+        credentials.clientAssertion ?? '',
+        client,
+      );
+      return assertion.valid ? validation : failure(assertion.error || 'Invalid client assertion');
+    }
+
+    if (credentials.clientAssertion || credentials.clientAssertionType) {
+      return failure('Client is not registered for private_key_jwt authentication');
+    }
+
+    if (this.clientRegistry.isConfidentialClient(client) || credentials.clientSecret) {
+      if (
+        !credentials.clientSecret ||
+        !await this.clientRegistry.verifyClientSecret(client, credentials.clientSecret)
+      ) {
+        return failure('Invalid client credentials');
+      }
+    }
+
+    return validation;
+  }
+
+  /**
+   * Revoke an access or refresh token issued to the client (RFC 7009)
+   * Revoking a refresh token also revokes the access tokens issued from its grant
+   */
+  async revokeToken(
+    token: string,
+    clientId: string,
+    tokenTypeHint?: string,
+  ): Promise<TokenRevocationResult> {
+    return await this.tokenManager.revokeToken(token, clientId, tokenTypeHint);
+  }
+
   /**
    * Introspect token (RFC 7662 style)
+   *
+   * When a requesting client is given, tokens issued to other clients are reported
+   * as inactive so clients can't probe each other's tokens.
    */
-  async introspectToken(token: string): Promise<TokenIntrospection> {
+  async introspectToken(
+    token: string,
+    tokenTypeHint?: string,
+    requestingClientId?: string,
+  ): Promise<TokenIntrospection> {
     try {
-      const validation = await this.tokenManager.validateAccessToken(token);
+      const details = await this.tokenManager.getTokenDetails(token, tokenTypeHint);
 
-      if (!validation.valid) {
+      if (!details || (requestingClientId && details.clientId !== requestingClientId)) {
         return { active: false };
       }
 
       return {
         active: true,
-        ...(validation.clientId && { client_id: validation.clientId }),
-        ...(validation.userId && { user_id: validation.userId }),
-        ...(validation.scopes && { scope: validation.scopes.join(' ') }),
+        client_id: details.clientId,
+        user_id: details.userId,
+        sub: details.userId,
+        scope: details.scope,
+        token_type: details.tokenType,
+        exp: Math.floor(details.expiresAt / 1000),
+        iat: Math.floor(details.createdAt / 1000),
       };
     } catch (error) {
       this.logger?.error('OAuthProvider: Token introspection failed:', toError(error));
@@ -716,6 +855,79 @@ export class OAuthProvider {
     }
   }
 
+  /**
+   * Get client registration statistics for monitoring
+   */
+  async getClientStats(): Promise<ClientStats> {
+    return await this.clientRegistry.getClientStats();
+  }
+
+  /**
+   * Get issued token statistics for monitoring
+   */
+  async getTokenStats(): ReturnType<TokenManager['getTokenStats']> {
+    return await this.tokenManager.getTokenStats();
+  }
+
+  /**
+   * List registered clients (for admin purposes)
+   */
+  async listClients(): Promise<ClientRegistration[]> {
+    return await this.clientRegistry.listClients();
+  }
+
+  /**
+   * Get a registered client (for admin purposes)
+   */
+  async getClient(clientId: string): Promise<ClientRegistration | null> {
+    return await this.clientRegistry.getClient(clientId);
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Revoke a client registration and every token issued to it
+   */
+  async revokeClient(clientId: string): Promise<{ revoked: boolean; revokedTokens: number }> {
+    const revoked = await this.clientRegistry.revokeClient(clientId);
+    if (!revoked) {
+      return { revoked: false, revokedTokens: 0 };
+    }
+
+    const revokedTokens = await this.tokenManager.revokeClientTokens(clientId);
+    return { revoked, revokedTokens };
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Revoke every token issued for a user, across all clients
+   */
+  async revokeUserTokens(userId: string): Promise<number> {
+    return await this.tokenManager.revokeUserTokens(userId);
+  }
+
+  /**
+   * Third-party providers a user has stored credentials for
+   */
+  async getUserCredentialProviders(userId: string): Promise<string[]> {
+    return await this.credentialStore.getUserProviders(userId);
+  }
+
+  /**
+   * Delete a user's stored third-party credentials (all providers, or just one)
+   *
+   * @returns Number of providers whose credentials were deleted
+   */
+  async deleteUserCredentials(userId: string, provider?: string): Promise<number> {
+    if (!provider) {
+      return await this.credentialStore.deleteUserCredentials(userId);
+    }
+
+    const providers = await this.credentialStore.getUserProviders(userId);
+    if (!providers.includes(provider)) {
+      return 0;
+    }
+    await this.credentialStore.deleteCredentials(userId, provider);
+    return 1;
+  }
+
   /**
    * Validate access token (alias for validateMCPAccessToken for compatibility)
    */
@@ -724,6 +936,7 @@ export class OAuthProvider {
     clientId?: string;
     userId?: string;
     scope?: string;
+    subjectType?: TokenSubjectType;
     error?: string;
     errorCode?: string;
     actionTaken?: string;
@@ -899,4 +1112,82 @@ export class OAuthProvider {
       scope: accessToken.scope,
     };
   }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Handle client credentials grant (RFC 6749 section 4.4)
+   *
+   * Only confidential clients registered for the grant may use it. The token is bound
+   * to the client's service identity and limited to the client's registered scopes.
+   */
+  private async handleClientCredentialsGrant(request: TokenRequest): Promise<TokenResponse> {
+    if (!this.config.authorization.supportedGrantTypes.includes('client_credentials')) {
+      throw new Error('Unsupported grant type: client_credentials');
+    }
+
+    const authentication = await this.authenticateClient(request.client_id, {
+      clientSecret: request.client_secret,
+      clientAssertion: request.client_assertion,
+      clientAssertionType: request.client_assertion_type,
+    });
+    if (!authentication.valid || !authentication.client) {
+      throw new Error(`Client authentication failed: ${authentication.error}`);
+    }
+
+    const client = authentication.client;
+    if (!this.clientRegistry.isConfidentialClient(client)) {
+      throw new Error('Client authentication failed: public clients cannot use client_credentials');
+    }
+    if (!client.grant_types?.includes('client_credentials')) {
+      throw new Error(
+        'Unauthorized client: client_credentials grant is not allowed for this client',
+      );
+    }
+
+    const scope = this.resolveServiceScope(request.scope, client);
+    const accessToken = await this.tokenManager.generateServiceAccessToken(
+      client.client_id,
+      scope,
+    );
+
+    this.logger?.info('OAuthProvider: Issued client credentials token', {
+      clientId: client.client_id,
+      scope,
+    });
+
+    return {
+      access_token: accessToken.access_token,
+      token_type: 'Bearer',
+      expires_in: Math.floor((accessToken.expires_at - Date.now()) / 1000),
+      scope: accessToken.scope,
+    };
+  }
+
+  /**
+   * Resolve the scope of a client credentials token
+   *
+   * Requested scopes must be supported by the server and registered for the client.
+   * A client registered without a scope is limited to 'read', so broader access
+   * (write, admin, all) has to be granted explicitly at registration.
+   * Without a request the client's allowed scopes are granted.
+   */
+  private resolveServiceScope(
+    requestedScope: string | undefined,
+    client: ClientRegistration,
+  ): string {
+    const supportedScopes = this.config.authorization.supportedScopes;
+    const allowedScopes = (client.scope ? client.scope.split(' ') : ['read'])
+      .filter((scope) => supportedScopes.includes(scope));
+
+    const requested = requestedScope?.split(' ').filter(Boolean) ?? [];
+    if (requested.length === 0) {
+      return allowedScopes.join(' ');
+    }
+
+    const invalid = requested.filter((scope) => !allowedScopes.includes(scope));
+    if (invalid.length > 0) {
+      throw new Error(`Invalid scope: ${invalid.join(' ')} not allowed for this client`);
+    }
+
+    return requested.join(' ');
+  }
 }
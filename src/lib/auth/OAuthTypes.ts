@@ -109,10 +109,42 @@ export interface ClientRegistrationRequest {
   response_types?: string[];
   /** Supported grant types (defaults to ['authorization_code', 'refresh_token']) */
   grant_types?: string[];
+  /** Token endpoint authentication method (defaults to 'none', or 'client_secret_basic' for client_credentials clients) */
+  token_endpoint_auth_method?: TokenEndpointAuthMethod;
+  /** Public keys for private_key_jwt client authentication (RFC 7591 section 2) */
+  jwks?: JsonWebKeySet;
   /** Additional client metadata */
   [key: string]: unknown;
 }
 
+/**
+ * Client authentication methods at the token endpoint
+ */
+export type TokenEndpointAuthMethod =
+  | 'none'
+  | 'client_secret_basic'
+  | 'client_secret_post'
+  | 'private_key_jwt';
+
+/**
+ * JSON Web Key Set holding a client's public keys
+ */
+export interface JsonWebKeySet {
+  keys: Array<JsonWebKey & { kid?: string; alg?: string }>;
+}
+
+/**
+ * Credentials a client presents to authenticate itself
+ */
+export interface ClientCredentials {
+  /** Client secret (client_secret_basic / client_secret_post) */
+  clientSecret?: string | undefined;
+  /** Signed JWT assertion (private_key_jwt, RFC 7523) */
+  clientAssertion?: string | undefined;
+  /** Assertion type - must be urn:ietf:params:oauth:client-assertion-type:jwt-bearer */
+  clientAssertionType?: string | undefined;
+}
+
 /**
  * OAuth client registration response (RFC 7591)
  */
@@ -124,7 +156,7 @@ export interface ClientRegistrationResponse {
   /** Client secret expiration (0 = never expires, no secret for PKCE-only) */
   client_secret_expires_at: number;
   /** Token endpoint authentication method */
-  token_endpoint_auth_method: 'none' | 'client_secret_basic' | 'client_secret_post';
+  token_endpoint_auth_method: TokenEndpointAuthMethod;
   /** Registered redirect URIs */
   redirect_uris: string[];
   /** Allowed response types */
@@ -161,8 +193,14 @@ export interface ClientRegistration {
   client_id: string;
   /** Optional client secret (not used for PKCE flows) */
   client_secret?: string;
+  /** SHA-256 hash of the client secret for confidential clients (base64url) */
+  client_secret_hash?: string;
   /** Timestamp when client expires (0 = never) */
   client_secret_expires_at: number;
+  /** Token endpoint authentication method (absent = 'none') */
+  token_endpoint_auth_method?: TokenEndpointAuthMethod;
+  /** Public keys for private_key_jwt client authentication */
+  jwks?: JsonWebKeySet;
   /** Client name for display purposes */
   client_name?: string;
   /** Array of valid redirect URIs */
@@ -238,11 +276,17 @@ export interface AuthorizeResponse {
  */
 export interface TokenRequest {
   /** Grant type */
-  grant_type: 'authorization_code' | 'refresh_token';
+  grant_type: 'authorization_code' | 'refresh_token' | 'client_credentials';
   /** Client identifier */
   client_id: string;
   /** Client secret (if required) */
   client_secret?: string;
+  /** Client assertion for private_key_jwt authentication */
+  client_assertion?: string;
+  /** Client assertion type (urn:ietf:params:oauth:client-assertion-type:jwt-bearer) */
+  client_assertion_type?: string;
+  /** Requested scope (for client_credentials grant) */
+  scope?: string;
   /** Authorization code (for authorization_code grant) */
   code?: string;
   /** Refresh token (for refresh_token grant) */
@@ -337,6 +381,8 @@ export interface AuthorizationServerMetadata {
   scopes_supported: string[];
   /** Supported token endpoint authentication methods */
   token_endpoint_auth_methods_supported: string[];
+  /** Supported signing algorithms for private_key_jwt client assertions */
+  token_endpoint_auth_signing_alg_values_supported?: string[];
   /** Supported PKCE code challenge methods */
   code_challenge_methods_supported: string[];
 
@@ -359,12 +405,10 @@ export interface AuthorizationServerMetadata {
   // /** JWKS URI for token validation */
   // jwks_uri?: string;
 
-  // Future Enhancement: Token Introspection Support (RFC 7662)
-  // When implementing token introspection for resource servers, add:
-  // /** Token introspection endpoint URL */
-  // introspection_endpoint?: string;
-  // /** Supported introspection endpoint authentication methods */
-  // introspection_endpoint_auth_methods_supported?: string[];
+  /** Token introspection endpoint URL (RFC 7662) */
+  introspection_endpoint?: string;
+  /** Supported introspection endpoint authentication methods */
+  introspection_endpoint_auth_methods_supported?: string[];
 
   /** MCP-specific extensions */
   mcp_extensions?: {
@@ -636,10 +680,14 @@ export interface TokenIntrospection {
   user_id?: string;
   /** Token scope */
   scope?: string;
-  /** Token expiration timestamp */
+  /** Token expiration (seconds since epoch) */
   exp?: number;
-  /** Token issued at timestamp */
+  /** Token issued at (seconds since epoch) */
   iat?: number;
+  /** Subject of the token (the user ID) */
+  sub?: string;
+  /** Token type: 'access_token' or 'refresh_token' */
+  token_type?: string;
 }
 
 /**
@@ -680,4 +728,13 @@ export interface MCPAuthContext {
   errorCode?: string;
   /** Action taken (e.g., token refresh) */
   actionTaken?: string;
+  /** Whether the token was issued to a user or to a service (client_credentials) */
+  subjectType?: TokenSubjectType;
 }
+
+/**
+ * Who an access token was issued for
+ * - 'user': authorization_code flow, bound to a user ID
+ * - 'service': client_credentials flow, bound to the client's service identity
+ */
+export type TokenSubjectType = 'user' | 'service';
@@ -0,0 +1,110 @@
+/**
+ * Scope Authorizer - OAuth scope checks for tools and workflows
+ *
+ * 🔒 SECURITY-CRITICAL: Compares the scopes a tool or workflow declares as required
+ * with the scopes granted to the access token of the current request.
+ *
+ * Scope rules:
+ * - A caller needs every required scope
+ * - The 'all' scope satisfies any requirement
+ * - Requests without an authentication context (STDIO, authentication disabled) are not checked
+ */
+
+import type { BeyondMcpRequestContext } from '../types/BeyondMcpTypes.ts';
+import { ErrorHandler, MCPError } from '../utils/ErrorHandler.ts';
+
+/**
+ * Scope that grants access to every tool and workflow
+ */
+export const WILDCARD_SCOPE = 'all';
+
+/**
+ * Details of an insufficient_scope rejection
+ */
+export interface InsufficientScopeInfo {
+  /** Rejected target, e.g. 'tool:search' or 'workflow:sync_data' */
+  target: string;
+  /** Scopes the target requires */
+  requiredScopes: string[];
+  /** Scopes granted to the caller */
+  grantedScopes: string[];
+  /** Required scopes the caller does not have */
+  missingScopes: string[];
+}
+
+/**
+ * 🔒 SECURITY-CRITICAL: Scope checks for the current request
+ */
+export class ScopeAuthorizer {
+  /**
+   * Get the required scopes that are not covered by the granted scopes
+   */
+  static getMissingScopes(
+    requiredScopes: string[] | undefined,
+    grantedScopes: string[],
+  ): string[] {
+    if (!requiredScopes?.length || grantedScopes.includes(WILDCARD_SCOPE)) {
+      return [];
+    }
+    return requiredScopes.filter((scope) => !grantedScopes.includes(scope));
+  }
+
+  /**
+   * Check whether the caller may use a target with the given required scopes
+   */
+  static isAuthorized(
+    requiredScopes: string[] | undefined,
+    authContext: Pick<BeyondMcpRequestContext, 'scopes'> | null | undefined,
+  ): boolean {
+    if (!authContext) return true;
+    return ScopeAuthorizer.getMissingScopes(requiredScopes, authContext.scopes).length === 0;
+  }
+
+  /**
+   * Throw an INSUFFICIENT_SCOPE error when the caller lacks a required scope
+   */
+  static enforce(
+    target: string,
+    requiredScopes: string[] | undefined,
+    authContext: Pick<BeyondMcpRequestContext, 'scopes' | 'clientId'> | null | undefined,
+  ): void {
+    if (!authContext) return;
+
+    const missingScopes = ScopeAuthorizer.getMissingScopes(requiredScopes, authContext.scopes);
+    if (missingScopes.length === 0) return;
+
+    const error = ErrorHandler.wrapError(
+      `Insufficient scope for ${target}: requires ${missingScopes.join(' ')}`,
+      'INSUFFICIENT_SCOPE',
+      { target, clientId: authContext.clientId },
+    );
+    error.info.details = {
+      requiredScopes: requiredScopes ?? [],
+      grantedScopes: authContext.scopes,
+      missingScopes,
+    };
+    throw error;
+  }
+
+  /**
+   * Check whether an error is an insufficient_scope rejection created by enforce()
+   */
+  static isInsufficientScopeError(error: unknown): error is MCPError {
+    return error instanceof MCPError && error.info.code === 'INSUFFICIENT_SCOPE';
+  }
+
+  /**
+   * Get scope details from an insufficient_scope rejection
+   */
+  static getInsufficientScopeInfo(error: MCPError): InsufficientScopeInfo {
+    const details = error.info.details || {};
+    const toScopes = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+    return {
+      target: String(error.info.context?.target ?? ''),
+      requiredScopes: toScopes(details.requiredScopes),
+      grantedScopes: toScopes(details.grantedScopes),
+      missingScopes: toScopes(details.missingScopes),
+    };
+  }
+}
@@ -17,6 +17,7 @@ import type { Logger } from '../../types/library.types.ts';
 import type { KVManager } from '../storage/KVManager.ts';
 import type { AuditLogger } from '../utils/AuditLogger.ts';
 import { toError } from '../utils/Error.ts';
+import type { TokenSubjectType } from './OAuthTypes.ts';
 
 /**
  * Token configuration for the TokenManager
@@ -56,6 +57,10 @@ export interface MCPAccessToken {
   expires_at: number;
   /** Optional refresh token */
   refresh_token?: string;
+  /** Authorization grant this token belongs to (shared across refresh rotations) */
+  grant_id?: string;
+  /** Who the token was issued for - 'service' tokens carry the service identity in user_id */
+  subject_type?: TokenSubjectType;
 }
 
 /**
@@ -84,6 +89,8 @@ export interface MCPRefreshToken {
   rotated_to?: MCPAccessToken;
   /** Timestamp at which this refresh token was rotated (superseded). */
   superseded_at?: number;
+  /** Authorization grant this token belongs to (shared across refresh rotations) */
+  grant_id?: string;
 }
 
 /**
@@ -120,6 +127,8 @@ export interface TokenValidation {
   userId?: string;
   /** Token scope array */
   scopes?: string[];
+  /** Whether the token was issued to a user or to a service (client_credentials) */
+  subjectType?: TokenSubjectType;
   /** Error message if validation failed */
   error?: string;
   /** Specific error code for OAuth compliance */
@@ -138,6 +147,42 @@ export interface TokenRefreshResult {
   error?: string;
 }
 
+/**
+ * Stored token details for introspection (RFC 7662)
+ */
+export interface TokenDetails {
+  /** Which kind of token was found */
+  tokenType: 'access_token' | 'refresh_token';
+  /** MCP client ID */
+  clientId: string;
+  /** User ID that links to external tokens */
+  userId: string;
+  /** Token scope */
+  scope: string;
+  /** Token creation timestamp */
+  createdAt: number;
+  /** Token expiration timestamp */
+  expiresAt: number;
+  /** Whether the token was issued to a user or to a service (client_credentials) */
+  subjectType: TokenSubjectType;
+}
+
+/**
+ * Token revocation result (RFC 7009)
+ */
+export interface TokenRevocationResult {
+  /** Whether a token issued to the client was found and revoked */
+  revoked: boolean;
+  /** Which kind of token was revoked */
+  tokenType?: 'access_token' | 'refresh_token';
+  /** User ID the token was issued for */
+  userId?: string;
+  /** Number of tokens removed (includes access tokens of a revoked refresh token's grant) */
+  revokedCount: number;
+  /** Reason the token was not revoked */
+  error?: string;
+}
+
 /**
  * Dependencies required by TokenManager
  */
@@ -173,6 +218,8 @@ export class TokenManager {
   private readonly MCP_ACCESS_TOKENS_PREFIX = ['oauth', 'mcp_access_tokens'];
   private readonly MCP_REFRESH_TOKENS_PREFIX = ['oauth', 'mcp_refresh_tokens'];
   private readonly MCP_AUTH_CODES_PREFIX = ['oauth', 'mcp_auth_codes'];
+  // Tokens issued per authorization grant - lets refresh token revocation cascade
+  private readonly MCP_GRANT_TOKENS_PREFIX = ['oauth', 'mcp_grant_tokens'];
 
   constructor(config: TokenConfig, dependencies: TokenManagerDependencies) {
     this.kvManager = dependencies.kvManager;
@@ -193,6 +240,30 @@ export class TokenManager {
     });
   }
 
+  /**
+   * Service identity used as the token subject for client_credentials tokens
+   */
+  static getServiceSubject(clientId: string): string {
+    return `service:${clientId}`;
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Generate an access token for a service (client_credentials grant)
+   *
+   * The token is bound to the client's service identity instead of a user, and no
+   * refresh token is issued (RFC 6749 section 4.4.3) - services simply request a new token.
+   */
+  async generateServiceAccessToken(clientId: string, scope: string): Promise<MCPAccessToken> {
+    return await this.generateAccessToken(
+      clientId,
+      TokenManager.getServiceSubject(clientId),
+      false,
+      scope,
+      undefined,
+      'service',
+    );
+  }
+
   /**
    * 🔒 SECURITY-CRITICAL: Generate MCP access token with optional refresh token
    *
@@ -201,12 +272,16 @@ export class TokenManager {
    * - Proper expiry timestamp calculation
    * - Refresh token rotation when requested
    * - Secure KV storage with automatic expiry
+   *
+   * Pass the grant ID of a rotated refresh token to keep the new tokens in the same grant.
    */
   async generateAccessToken(
     clientId: string,
     userId: string,
     includeRefreshToken: boolean = true,
     scope: string = 'read write',
+    grantId: string = crypto.randomUUID(),
+    subjectType: TokenSubjectType = 'user',
   ): Promise<MCPAccessToken> {
     const tokenGenId = Math.random().toString(36).substring(2, 15);
 
@@ -230,6 +305,8 @@ export class TokenManager {
         scope: scope,
         created_at: now,
         expires_at: now + this.config.accessTokenExpiryMs,
+        grant_id: grantId,
+        ...(subjectType === 'service' && { subject_type: subjectType }),
       };
 
       // Generate refresh token if requested (preserves exact logic)
@@ -245,6 +322,7 @@ export class TokenManager {
           scope: scope,
           created_at: now,
           expires_at: now + this.config.refreshTokenExpiryMs,
+          grant_id: grantId,
         };
 
         await this.kvManager.set(
@@ -252,6 +330,11 @@ export class TokenManager {
           refreshTokenData,
           { expireIn: this.config.refreshTokenExpiryMs },
         );
+        await this.kvManager.set(
+          [...this.MCP_GRANT_TOKENS_PREFIX, grantId, 'refresh_token', refreshToken],
+          now,
+          { expireIn: this.config.refreshTokenExpiryMs },
+        );
 
         this.logger?.debug(`TokenManager: Generated refresh token [${tokenGenId}]`, {
           tokenGenId,
@@ -268,6 +351,11 @@ export class TokenManager {
         tokenData,
         { expireIn: this.config.accessTokenExpiryMs },
       );
+      await this.kvManager.set(
+        [...this.MCP_GRANT_TOKENS_PREFIX, grantId, 'access_token', accessToken],
+        now,
+        { expireIn: this.config.accessTokenExpiryMs },
+      );
 
       // this.logger?.info(`TokenManager: Generated access token successfully [${tokenGenId}]`, {
       //   tokenGenId,
@@ -465,6 +553,7 @@ export class TokenManager {
         clientId: token.client_id,
         userId: token.user_id,
         scopes,
+        subjectType: token.subject_type ?? 'user',
       };
     } catch (error) {
       this.logger?.error(
@@ -673,6 +762,7 @@ export class TokenManager {
         refreshTokenData.user_id,
         true, // Include new refresh token
         refreshTokenData.scope,
+        refreshTokenData.grant_id, // Stay in the same grant so revocation covers the chain
       );
 
       // 🔒 SECURITY-CRITICAL: Token rotation. Instead of hard-deleting the old refresh token
@@ -733,6 +823,299 @@ export class TokenManager {
     }
   }
 
+  /**
+   * Look up an unexpired access or refresh token (RFC 7662 introspection)
+   *
+   * The token type hint only decides which store is checked first. Refresh tokens
+   * that were already rotated are reported as not found.
+   */
+  async getTokenDetails(
+    token: string,
+    tokenTypeHint?: string,
+  ): Promise<TokenDetails | null> {
+    const order: Array<'access_token' | 'refresh_token'> = tokenTypeHint === 'refresh_token'
+      ? ['refresh_token', 'access_token']
+      : ['access_token', 'refresh_token'];
+    const now = Date.now();
+
+    for (const tokenType of order) {
+      if (tokenType === 'access_token') {
+        const accessToken = await this.kvManager.get<MCPAccessToken>([
+          ...this.MCP_ACCESS_TOKENS_PREFIX,
+          token,
+        ]);
+        if (accessToken && accessToken.expires_at >= now) {
+          return {
+            tokenType,
+            clientId: accessToken.client_id,
+            userId: accessToken.user_id,
+            scope: accessToken.scope,
+            createdAt: accessToken.created_at,
+            expiresAt: accessToken.expires_at,
+            subjectType: accessToken.subject_type ?? 'user',
+          };
+        }
+      } else {
+        const refreshToken = await this.kvManager.get<MCPRefreshToken>([
+          ...this.MCP_REFRESH_TOKENS_PREFIX,
+          token,
+        ]);
+        if (refreshToken && !refreshToken.rotated_to && refreshToken.expires_at >= now) {
+          return {
+            tokenType,
+            clientId: refreshToken.client_id,
+            userId: refreshToken.user_id,
+            scope: refreshToken.scope,
+            createdAt: refreshToken.created_at,
+            expiresAt: refreshToken.expires_at,
+            subjectType: 'user',
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Revoke an access or refresh token (RFC 7009)
+   *
+   * - Only tokens issued to the requesting client are revoked
+   * - Revoking a refresh token also revokes every access and refresh token issued
+   *   from the same authorization grant (including earlier rotations)
+   * - Unknown tokens are not an error: the caller responds 200 either way
+   */
+  async revokeToken(
+    token: string,
+    clientId: string,
+    tokenTypeHint?: string,
+  ): Promise<TokenRevocationResult> {
+    const revocationId = Math.random().toString(36).substring(2, 15);
+
+    try {
+      const accessKey = [...this.MCP_ACCESS_TOKENS_PREFIX, token];
+      const refreshKey = [...this.MCP_REFRESH_TOKENS_PREFIX, token];
+
+      // Honour the hint for lookup order, but fall back to the other token type
+      const checkRefreshFirst = tokenTypeHint === 'refresh_token';
+      let accessToken: MCPAccessToken | null = null;
+      let refreshToken: MCPRefreshToken | null = null;
+      if (checkRefreshFirst) {
+        refreshToken = await this.kvManager.get<MCPRefreshToken>(refreshKey);
+        if (!refreshToken) accessToken = await this.kvManager.get<MCPAccessToken>(accessKey);
+      } else {
+        accessToken = await this.kvManager.get<MCPAccessToken>(accessKey);
+        if (!accessToken) refreshToken = await this.kvManager.get<MCPRefreshToken>(refreshKey);
+      }
+
+      const tokenData = accessToken ?? refreshToken;
+      if (!tokenData) {
+        this.logger?.debug(`TokenManager: Token to revoke not found [${revocationId}]`, {
+          revocationId,
+          tokenPrefix: token.substring(0, 12) + '...',
+        });
+        return { revoked: false, revokedCount: 0, error: 'Token not found' };
+      }
+
+      const tokenType = accessToken ? 'access_token' : 'refresh_token';
+
+      if (tokenData.client_id !== clientId) {
+        this.logger?.warn(
+          `TokenManager: Client attempted to revoke foreign token [${revocationId}]`,
+          {
+            revocationId,
+            clientId,
+            tokenClientId: tokenData.client_id,
+            tokenType,
+          },
+        );
+        await this.auditLogger?.logAuthEvent({
+          event: 'token_revoke',
+          success: false,
+          userId: tokenData.user_id,
+          details: { clientId, tokenType, error: 'Token was not issued to this client' },
+        });
+        return {
+          revoked: false,
+          tokenType,
+          revokedCount: 0,
+          error: 'Token was not issued to this client',
+        };
+      }
+
+      let revokedCount = 0;
+      if (tokenType === 'access_token') {
+        await this.kvManager.delete(accessKey);
+        if (tokenData.grant_id) {
+          await this.kvManager.delete([
+            ...this.MCP_GRANT_TOKENS_PREFIX,
+            tokenData.grant_id,
+            'access_token',
+            token,
+          ]);
+        }
+        revokedCount = 1;
+      } else if (tokenData.grant_id) {
+        revokedCount = await this.revokeGrant(tokenData.grant_id);
+      } else {
+        // Tokens issued before grant tracking: revoke the access tokens issued alongside
+        await this.kvManager.delete(refreshKey);
+        revokedCount = 1;
+        const accessTokens = await this.kvManager.list<MCPAccessToken>(
+          this.MCP_ACCESS_TOKENS_PREFIX,
+        );
+        for (const entry of accessTokens) {
+          if (entry.value.refresh_token === token) {
+            await this.kvManager.delete(entry.key);
+            revokedCount++;
+          }
+        }
+      }
+
+      this.logger?.info(`TokenManager: Revoked token [${revocationId}]`, {
+        revocationId,
+        clientId,
+        userId: tokenData.user_id,
+        tokenType,
+        revokedCount,
+      });
+
+      await this.auditLogger?.logAuthEvent({
+        event: 'token_revoke',
+        success: true,
+        userId: tokenData.user_id,
+        details: { clientId, tokenType, revokedCount },
+      });
+
+      return { revoked: true, tokenType, userId: tokenData.user_id, revokedCount };
+    } catch (error) {
+      this.logger?.error(
+        `TokenManager: Failed to revoke token [${revocationId}]:`,
+        toError(error),
+        {
+          revocationId,
+          clientId,
+          tokenPrefix: token.substring(0, 12) + '...',
+        },
+      );
+      await this.auditLogger?.logAuthEvent({
+        event: 'token_revoke',
+        success: false,
+        details: {
+          clientId,
+          error: error instanceof Error ? error.message : 'Token revocation failed',
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Revoke every token and authorization code issued for a user
+   *
+   * Used by administrators; unlike revokeToken() this is not limited to one client.
+   *
+   * @returns Number of tokens and codes removed
+   */
+  async revokeUserTokens(userId: string): Promise<number> {
+    return await this.revokeMatching((data) => data.user_id === userId, { userId });
+  }
+
+  /**
+   * 🔒 SECURITY-CRITICAL: Revoke every token and authorization code issued to a client
+   *
+   * @returns Number of tokens and codes removed
+   */
+  async revokeClientTokens(clientId: string): Promise<number> {
+    return await this.revokeMatching((data) => data.client_id === clientId, { clientId });
+  }
+
+  /**
+   * Delete stored tokens and codes that match, along with their grant tracking entries
+   */
+  private async revokeMatching(
+    matches: (data: { client_id: string; user_id: string }) => boolean,
+    target: { userId?: string; clientId?: string },
+  ): Promise<number> {
+    try {
+      let revokedCount = 0;
+      const grantIds = new Set<string>();
+
+      for (
+        const prefix of [
+          this.MCP_ACCESS_TOKENS_PREFIX,
+          this.MCP_REFRESH_TOKENS_PREFIX,
+          this.MCP_AUTH_CODES_PREFIX,
+        ]
+      ) {
+        const entries = await this.kvManager.list<
+          MCPAccessToken | MCPRefreshToken | MCPAuthorizationCode
+        >(prefix);
+        for (const entry of entries) {
+          if (!entry.value || !matches(entry.value)) continue;
+
+          await this.kvManager.delete(entry.key);
+          revokedCount++;
+          if ('grant_id' in entry.value && entry.value.grant_id) {
+            grantIds.add(entry.value.grant_id);
+          }
+        }
+      }
+
+      for (const grantId of grantIds) {
+        const entries = await this.kvManager.list([...this.MCP_GRANT_TOKENS_PREFIX, grantId]);
+        for (const entry of entries) {
+          await this.kvManager.delete(entry.key);
+        }
+      }
+
+      this.logger?.info('TokenManager: Revoked tokens', { ...target, revokedCount });
+      await this.auditLogger?.logAuthEvent({
+        event: 'token_revoke',
+        success: true,
+        ...(target.userId && { userId: target.userId }),
+        details: { ...target, revokedCount, bulk: true },
+      });
+
+      return revokedCount;
+    } catch (error) {
+      this.logger?.error('TokenManager: Failed to revoke tokens:', toError(error), target);
+      await this.auditLogger?.logAuthEvent({
+        event: 'token_revoke',
+        success: false,
+        ...(target.userId && { userId: target.userId }),
+        details: {
+          ...target,
+          bulk: true,
+          error: error instanceof Error ? error.message : 'Token revocation failed',
+        },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete every token issued from an authorization grant
+   */
+  private async revokeGrant(grantId: string): Promise<number> {
+    const entries = await this.kvManager.list<number>([...this.MCP_GRANT_TOKENS_PREFIX, grantId]);
+    let revokedCount = 0;
+
+    for (const entry of entries) {
+      const [tokenType, token] = entry.key.slice(-2);
+      if (!token) continue;
+
+      const prefix = tokenType === 'refresh_token'
+        ? this.MCP_REFRESH_TOKENS_PREFIX
+        : this.MCP_ACCESS_TOKENS_PREFIX;
+      await this.kvManager.delete([...prefix, token]);
+      await this.kvManager.delete(entry.key);
+      revokedCount++;
+    }
+
+    return revokedCount;
+  }
+
   /**
    * 🔒 SECURITY-CRITICAL: Generate cryptographically secure random string
    *
@@ -8,6 +8,7 @@
 
 import type { Logger } from '../utils/Logger.ts';
 import type { AuditLogger } from '../utils/AuditLogger.ts';
+import { Tracer } from '../utils/Tracer.ts';
 import type { ThirdPartyApiHealthStatus, ThirdPartyApiInfo } from '../types/AppServerTypes.ts';
 
 /**
@@ -119,6 +120,32 @@ export abstract class BaseApiClient {
     }
   }
 
+  /**
+   * fetch() in a client span of the active trace
+   * Propagates the trace to the third-party API with a `traceparent` header
+   */
+  protected async tracedFetch(input: string | URL, init: RequestInit = {}): Promise<Response> {
+    const url = new URL(input);
+    const method = (init.method ?? 'GET').toUpperCase();
+    const tracer = Tracer.getInstance();
+
+    return await tracer.startActiveSpan(method, {
+      kind: 'client',
+      attributes: {
+        'http.request.method': method,
+        // Query strings are left out as they can carry API keys
+        'url.full': `${url.origin}${url.pathname}`,
+        'server.address': url.hostname,
+      },
+    }, async (span) => {
+      const headers = tracer.inject(new Headers(init.headers));
+      const response = await fetch(url, { ...init, headers });
+      span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 400) span.setStatus('error', `HTTP ${response.status}`);
+      return response;
+    });
+  }
+
   /**
    * Helper method to create standard API response wrapper
    */
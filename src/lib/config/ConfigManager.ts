@@ -8,15 +8,24 @@
 import '@std/dotenv/load';
 import { toError } from '../utils/Error.ts';
 import { LogFormat, Logger, LogLevel } from '../utils/Logger.ts';
+import { STORAGE_BACKEND_TYPES, type StorageBackendType } from '../storage/StorageBackend.ts';
+import { AppConfigFileSchema } from './ConfigSchema.ts';
 import type {
   AppConfig,
+  AppConfigFile,
   AuditConfig,
+  ConfigChange,
   ConfigLoaderOptions,
+  ConfigSource,
   ConfigValidationResult,
+  CredentialEncryptionConfig,
   DocsEndpointConfig,
   //EnvironmentMapping,
+  HttpRateLimitConfig,
   LoggingConfig,
+  McpLogLevel,
   McpServerInstructionsConfig,
+  MetricsEndpointConfig,
   OAuthConsumerConfig,
   OAuthProviderConfig,
   PluginManagerConfig,
@@ -24,12 +33,28 @@ import type {
   ServerConfig,
   StorageConfig,
   ThirdPartyApiConfig,
+  TracingConfig,
+  TracingExporterType,
   TransportConfig,
   TransportEventStoreChunkedConfig,
   TransportEventStoreConfig,
   TransportEventStoreType,
 } from './ConfigTypes.ts';
 
+// Config keys whose values formatConfig() never shows
+const SECRET_CONFIG_KEYS = [
+  'clientSecret',
+  'apiKey',
+  'token',
+  'password',
+  'bearerToken',
+  'key',
+  'previousKeys',
+  'otlpHeaders',
+  'customHeaders',
+  'redisUrl',
+];
+
 /**
  * Generic configuration manager with environment variable support
  */
@@ -37,6 +62,12 @@ export class ConfigManager {
   private config: Partial<AppConfig> = {};
   private _logger: Logger;
   private options: ConfigLoaderOptions;
+  // While loading the env layer: whether variables read as unset (defaults only),
+  // and the config paths the getEnv* helpers found set by a variable
+  private ignoreEnv = false;
+  private envPaths = new Set<string>();
+  private sources = new Map<string, ConfigSource>();
+  private configFilePath: string | undefined;
 
   constructor(options: ConfigLoaderOptions = {}, logger?: Logger) {
     this.options = {
@@ -69,7 +100,10 @@ export class ConfigManager {
   }
 
   /**
-   * Load configuration from environment variables
+   * Load configuration from defaults, the config file, environment variables and overrides
+   *
+   * Later layers win: defaults < config file < environment variables < overrides.
+   * Each layer is loaded separately so every value can be traced to its source.
    */
   async loadConfig(): Promise<AppConfig> {
     try {
@@ -78,9 +112,175 @@ export class ConfigManager {
         await this.loadEnvFile(this.options.envFile);
       }
 
-      // Build configuration from environment variables
-      this.config = {
-        environment: this.options.environment || this.getEnvOptional('ENVIRONMENT', 'production'),
+      const { config, sources } = await this.resolveConfig();
+      this.config = config;
+      this.sources = sources;
+
+      this._logger?.debug('ConfigManager: Transport Config loaded:', this.config.transport?.type);
+      const oauthProvider = this.config.oauthProvider;
+      if (
+        oauthProvider?.clientId === 'bb-mcp-server' ||
+        oauthProvider?.clientSecret === 'super-secret'
+      ) {
+        this._logger?.warn(
+          'ConfigManager: Using default values for OAUTH_PROVIDER_CLIENT_ID or OAUTH_PROVIDER_CLIENT_SECRET - change them before deploying to production',
+        );
+      }
+      this._logger?.info(
+        'ConfigManager: oauthProvider:',
+        oauthProvider && this.sanitizeSecrets(oauthProvider),
+      );
+      this._logger?.info('ConfigManager: docsEndpoint:', this.config.docsEndpoint ?? null);
+
+      this._logger?.info('ConfigManager: Configuration loaded successfully');
+      //this._logger?.debug('ConfigManager: Configuration loaded successfully', this.config);
+      return this.config as AppConfig;
+    } catch (error) {
+      this._logger?.error('ConfigManager: Failed to load configuration', toError(error));
+      throw error;
+    }
+  }
+
+  /**
+   * Load the configuration again and replace the running one
+   *
+   * Returns the values that changed. `accept` sees the changes before they are
+   * applied and can throw to keep the running configuration. Only the config file
+   * and overrides are read again: environment variables, including those loaded from
+   * the env file, keep their startup values. Values changed with set() are kept.
+   */
+  async reloadConfig(
+    accept?: (changes: ConfigChange[]) => void | Promise<void>,
+  ): Promise<ConfigChange[]> {
+    const { config, sources } = await this.resolveConfig();
+    for (const { path, value } of collectLeaves(this.config)) {
+      if (!this.sources.has(path.join('.'))) {
+        setPath(config, path, value);
+      }
+    }
+
+    const previousLeaves = new Map(
+      collectLeaves(this.config).map(({ path, value }) => [path.join('.'), { path, value }]),
+    );
+    const currentLeaves = new Map(
+      collectLeaves(config).map(({ path, value }) => [path.join('.'), { path, value }]),
+    );
+    const changes: ConfigChange[] = [];
+    for (const key of new Set([...previousLeaves.keys(), ...currentLeaves.keys()])) {
+      const previous = previousLeaves.get(key);
+      const current = currentLeaves.get(key);
+      if (isSameValue(previous?.value, current?.value)) continue;
+      const path = (previous ?? current)!.path;
+      changes.push({
+        path: key,
+        previous: redactSecret(path, previous?.value),
+        current: redactSecret(path, current?.value),
+      });
+    }
+
+    await accept?.(changes);
+
+    this.config = config;
+    this.sources = sources;
+    this._logger?.info('ConfigManager: Configuration reloaded', {
+      changed: changes.map((change) => change.path),
+    });
+    return changes;
+  }
+
+  /**
+   * Build the layered configuration and the source of each value, without applying it
+   */
+  private async resolveConfig(): Promise<
+    { config: Partial<AppConfig>; sources: Map<string, ConfigSource> }
+  > {
+    const defaults = this.loadEnvironmentConfig(true);
+    const fromEnv = this.loadEnvironmentConfig();
+    const envPaths = [...this.envPaths];
+    const fileConfig = await this.loadConfigFile() ?? {};
+    const overrides: AppConfigFile = {
+      ...(this.options.environment && { environment: this.options.environment }),
+      ...this.options.overrides,
+    };
+
+    const config = mergeConfig(structuredClone(defaults), fileConfig);
+    for (const key of envPaths) {
+      const path = key.split('.');
+      setPath(config, path, getPath(fromEnv, path));
+    }
+    // Not cloned: overrides may hold code, such as a docs contentModule
+    mergeConfig(config, overrides);
+    this.finalizeConfig(config as AppConfig);
+
+    const fileKeys = new Set(collectLeaves(fileConfig).map((leaf) => leaf.path.join('.')));
+    const overrideKeys = new Set(collectLeaves(overrides).map((leaf) => leaf.path.join('.')));
+    const sources = new Map(
+      collectLeaves(config).map(({ path }) => {
+        const key = path.join('.');
+        const source: ConfigSource = overrideKeys.has(key)
+          ? 'override'
+          : envPaths.some((envPath) => key === envPath || key.startsWith(`${envPath}.`))
+          ? 'env'
+          : fileKeys.has(key)
+          ? 'file'
+          : 'default';
+        return [key, source];
+      }),
+    );
+
+    // Validate configuration
+    if (this.options.validateRequired) {
+      const validation = await this.validateConfig(config as AppConfig);
+      if (!validation.isValid) {
+        throw new Error(`Configuration validation failed:\n${validation.errors.join('\n')}`);
+      }
+
+      if (validation.warnings.length > 0) {
+        this._logger?.warn('ConfigManager: Configuration warnings:', validation.warnings);
+      }
+    }
+
+    return { config: config as Partial<AppConfig>, sources };
+  }
+
+  /**
+   * Source of each loaded value, keyed by dotted path (e.g. `transport.http.port`)
+   */
+  getConfigSources(): Record<string, ConfigSource> {
+    return Object.fromEntries(this.sources);
+  }
+
+  /**
+   * Render the loaded configuration one value per line with its source
+   * Secrets are redacted; entrypoints can print it for a `--print-config` flag
+   */
+  formatConfig(): string {
+    const lines = ['# Configuration (default < file < env < override)'];
+    if (this.configFilePath) {
+      lines.push(`# Config file: ${this.configFilePath}`);
+    }
+
+    for (const { path, value } of collectLeaves(this.config)) {
+      const key = path.join('.');
+      // Values without a recorded source were changed with set() after loading
+      const source = this.sources.get(key) ?? 'override';
+      lines.push(`${key} = ${JSON.stringify(redactSecret(path, value))}  (${source})`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Build the configuration from environment variables only, recording the paths they set
+   * With ignoreEnv every variable reads as unset, which gives the defaults
+   */
+  private loadEnvironmentConfig(ignoreEnv = false): Record<string, unknown> {
+    this.ignoreEnv = ignoreEnv;
+    this.envPaths = new Set();
+    try {
+      // Optional sections are always built so their defaults exist for the other layers;
+      // finalizeConfig() drops the ones that end up turned off
+      return {
+        environment: this.getEnvOptional('ENVIRONMENT', 'production', 'environment'),
         server: this.loadServerConfig(),
         transport: this.loadTransportConfig(),
         storage: this.loadStorageConfig(),
@@ -91,49 +291,153 @@ export class ConfigManager {
         logging: this.loadLoggingConfig(),
         audit: this.loadAuditConfig(),
         rateLimit: this.loadRateLimitConfig(),
+        metrics: this.loadMetricsConfig(),
+        tracing: this.loadTracingConfig(),
+        oauthProvider: this.loadOAuthProviderConfig(),
+        oauthConsumer: this.loadOAuthConsumerConfig(),
+        thirdpartyApiClient: this.loadThirdpartyApiConfig(),
+        docsEndpoint: this.loadDocsEndpointConfig(),
       };
+    } finally {
+      this.ignoreEnv = false;
+    }
+  }
 
-      // Load optional OAuth configurations
-      const oauthProvider = this.loadOAuthProviderConfig();
-      if (oauthProvider) {
-        this.config.oauthProvider = oauthProvider;
-      }
-      this._logger?.info('ConfigManager: oauthProvider:', this.sanitizeSecrets(oauthProvider));
+  /**
+   * Read and validate the config file, if one is configured
+   */
+  private async loadConfigFile(): Promise<AppConfigFile | undefined> {
+    const path = this.options.configFile || this.getEnvOptional('CONFIG_FILE', '');
+    if (!path) {
+      return undefined;
+    }
 
-      const oauthConsumer = this.loadOAuthConsumerConfig();
-      if (oauthConsumer) {
-        this.config.oauthConsumer = oauthConsumer;
-      }
+    let data: unknown;
+    try {
+      data = await parseConfigFile(path, await Deno.readTextFile(path));
+    } catch (error) {
+      throw new Error(`Could not load config file ${path}: ${toError(error).message}`);
+    }
 
-      const thirdpartyApiClient = this.loadThirdpartyApiConfig();
-      if (thirdpartyApiClient) {
-        this.config.thirdpartyApiClient = thirdpartyApiClient;
-      }
+    const { config, errors } = this.validateConfigFile(data);
+    if (!config) {
+      throw new Error(
+        `Invalid config file ${path}:\n${errors.map((error) => `  - ${error}`).join('\n')}`,
+      );
+    }
 
-      const docsEndpoint = this.loadDocsEndpointConfig();
-      this._logger?.info('ConfigManager: docsEndpoint:', docsEndpoint);
-      if (docsEndpoint) {
-        this.config.docsEndpoint = docsEndpoint;
-      }
+    this.configFilePath = path;
+    this._logger?.info('ConfigManager: Loaded config file', { path });
+    return config;
+  }
 
-      // Validate configuration
-      if (this.options.validateRequired) {
-        const validation = await this.validateConfig(this.config as AppConfig);
-        if (!validation.isValid) {
-          throw new Error(`Configuration validation failed:\n${validation.errors.join('\n')}`);
-        }
+  /**
+   * Validate config file contents, reporting each problem with its path
+   * With allowUnknownKeys, unknown keys are kept as they are and only the known ones are validated
+   */
+  private validateConfigFile(
+    data: unknown,
+  ): { config: AppConfigFile | undefined; errors: string[] } {
+    const result = AppConfigFileSchema.safeParse(data);
+    if (result.success) {
+      return { config: result.data, errors: [] };
+    }
 
-        if (validation.warnings.length > 0) {
-          this._logger?.warn('ConfigManager: Configuration warnings:', validation.warnings);
+    const errors: string[] = [];
+    const unknownKeys: string[][] = [];
+    for (const issue of result.error.issues) {
+      const path = issue.path.map(String);
+      if (issue.code === 'unrecognized_keys') {
+        for (const key of issue.keys) {
+          if (this.options.allowUnknownKeys) {
+            unknownKeys.push([...path, key]);
+          } else {
+            errors.push(`${[...path, key].join('.')}: Unknown key`);
+          }
         }
+      } else {
+        errors.push(`${path.join('.') || '(root)'}: ${issue.message}`);
       }
+    }
+    if (errors.length > 0) {
+      return { config: undefined, errors };
+    }
 
-      this._logger?.info('ConfigManager: Configuration loaded successfully');
-      //this._logger?.debug('ConfigManager: Configuration loaded successfully', this.config);
-      return this.config as AppConfig;
-    } catch (error) {
-      this._logger?.error('ConfigManager: Failed to load configuration', toError(error));
-      throw error;
+    const known = structuredClone(data) as Record<string, unknown>;
+    for (const path of unknownKeys) {
+      setPath(known, path, undefined);
+    }
+    const knownResult = AppConfigFileSchema.safeParse(known);
+    if (!knownResult.success) {
+      return {
+        config: undefined,
+        errors: knownResult.error.issues.map((issue) =>
+          `${issue.path.join('.') || '(root)'}: ${issue.message}`
+        ),
+      };
+    }
+
+    const config = knownResult.data as Record<string, unknown>;
+    for (const path of unknownKeys) {
+      setPath(config, path, getPath(data, path));
+    }
+    this._logger?.warn('ConfigManager: Config file has unknown keys', {
+      keys: unknownKeys.map((path) => path.join('.')),
+    });
+    return { config, errors: [] };
+  }
+
+  /**
+   * Drop the optional sections that are turned off and check the values the others require
+   */
+  private finalizeConfig(config: AppConfig): void {
+    if (config.transport.type === 'http') {
+      delete config.transport.stdio;
+    } else {
+      delete config.transport.http;
+    }
+
+    if (config.oauthConsumer?.providerId) {
+      this.requireValues('oauthConsumer', config.oauthConsumer, {
+        clientId: 'OAUTH_CONSUMER_CLIENT_ID',
+        clientSecret: 'OAUTH_CONSUMER_CLIENT_SECRET',
+        authUrl: 'OAUTH_CONSUMER_AUTH_URL',
+        tokenUrl: 'OAUTH_CONSUMER_TOKEN_URL',
+        redirectUri: 'OAUTH_CONSUMER_REDIRECT_URI',
+      });
+    } else {
+      delete config.oauthConsumer;
+    }
+
+    const thirdpartyApiClient = config.thirdpartyApiClient as ThirdPartyApiConfig | undefined;
+    if (thirdpartyApiClient?.providerId) {
+      this.requireValues('thirdpartyApiClient', thirdpartyApiClient, {
+        version: 'THIRDPARTY_API_VERSION',
+        baseUrl: 'THIRDPARTY_API_BASE_URL',
+      });
+    } else {
+      delete config.thirdpartyApiClient;
+    }
+
+    if (!config.docsEndpoint?.enabled) {
+      delete config.docsEndpoint;
+    }
+  }
+
+  /**
+   * Throw if a required value of a section in use is empty
+   */
+  private requireValues<T extends object>(
+    section: string,
+    config: T,
+    envVars: Partial<Record<keyof T & string, string>>,
+  ): void {
+    for (const [key, envVar] of Object.entries(envVars)) {
+      if (!config[key as keyof T]) {
+        throw new Error(
+          `Required configuration ${section}.${key} is not set (environment variable ${this.options.envPrefix}${envVar})`,
+        );
+      }
     }
   }
 
@@ -251,18 +555,31 @@ export class ConfigManager {
    * Load server configuration from environment
    */
   private loadServerConfig(): ServerConfig {
-    const httpHost = this.getEnvOptional('HTTP_HOST', 'localhost');
-    const httpPort = parseInt(this.getEnvOptional('HTTP_PORT', '3000'));
+    const httpHost = this.getEnvOptional(
+      'HTTP_HOST',
+      'localhost',
+      'server.httpHost',
+      'server.publicUrl',
+    );
+    const httpPort = parseInt(
+      this.getEnvOptional('HTTP_PORT', '3000', 'server.httpPort', 'server.publicUrl'),
+    );
 
     return {
-      name: this.getEnvOptional('SERVER_NAME', 'mcp-server'),
-      version: this.getEnvOptional('SERVER_VERSION', '1.0.0'),
-      skipHttp: this.getEnvBoolean('SERVER_SKIP_HTTP', false),
-      transport: this.getEnvOptional('MCP_TRANSPORT', 'stdio') as 'stdio' | 'http',
+      name: this.getEnvOptional('SERVER_NAME', 'mcp-server', 'server.name'),
+      version: this.getEnvOptional('SERVER_VERSION', '1.0.0', 'server.version'),
+      skipHttp: this.getEnvBoolean('SERVER_SKIP_HTTP', false, 'server.skipHttp'),
+      transport: this.getEnvOptional('MCP_TRANSPORT', 'stdio', 'server.transport') as
+        | 'stdio'
+        | 'http',
       httpHost,
       httpPort,
-      publicUrl: this.getEnvOptional('SERVER_PUBLIC_URL', `http://${httpHost}:${httpPort}`),
-      devMode: this.getEnvBoolean('DEV_MODE', false),
+      publicUrl: this.getEnvOptional(
+        'SERVER_PUBLIC_URL',
+        `http://${httpHost}:${httpPort}`,
+        'server.publicUrl',
+      ),
+      devMode: this.getEnvBoolean('DEV_MODE', false, 'server.devMode'),
     };
   }
 
@@ -270,72 +587,186 @@ export class ConfigManager {
    * Load transport configuration from environment
    */
   private loadTransportConfig(): TransportConfig {
-    const transport = this.getEnvOptional('MCP_TRANSPORT', 'stdio') as 'stdio' | 'http';
-    this._logger?.debug('ConfigManager: Transport Config loaded:', transport);
-
+    // Both transports are loaded; the one not in use is dropped once all layers are merged
     const config: TransportConfig = {
-      type: transport,
-    };
-
-    if (transport === 'http') {
-      config.http = {
-        hostname: this.getEnvOptional('HTTP_HOST', 'localhost'),
-        port: parseInt(this.getEnvOptional('HTTP_PORT', '3000')),
-        allowedHosts: this.getEnvArray('HTTP_ALLOWED_HOSTS', ['localhost', '127.0.0.1']),
+      type: this.getEnvOptional('MCP_TRANSPORT', 'stdio', 'transport.type') as 'stdio' | 'http',
+      http: {
+        hostname: this.getEnvOptional('HTTP_HOST', 'localhost', 'transport.http.hostname'),
+        port: parseInt(this.getEnvOptional('HTTP_PORT', '3000', 'transport.http.port')),
+        allowedHosts: this.getEnvArray(
+          'HTTP_ALLOWED_HOSTS',
+          ['localhost', '127.0.0.1'],
+          'transport.http.allowedHosts',
+        ),
         // Session configuration for HTTP transport (primary environment variables)
-        sessionTimeout: parseInt(this.getEnvOptional('MCP_SESSION_TIMEOUT', '1800000')), // 30 * 60 * 1000 = 30 minutes default
+        sessionTimeout: parseInt(
+          this.getEnvOptional('MCP_SESSION_TIMEOUT', '1800000', 'transport.http.sessionTimeout'),
+        ), // 30 * 60 * 1000 = 30 minutes default
         sessionCleanupInterval: parseInt(
-          this.getEnvOptional('MCP_SESSION_CLEANUP_INTERVAL', '300000'), //5 * 60 * 1000 = 5 minutes
+          this.getEnvOptional(
+            'MCP_SESSION_CLEANUP_INTERVAL',
+            '300000',
+            'transport.http.sessionCleanupInterval',
+          ), //5 * 60 * 1000 = 5 minutes
         ), // 5 minutes default
-        maxConcurrentSessions: parseInt(this.getEnvOptional('MCP_MAX_CONCURRENT_SESSIONS', '1000')),
-        enableSessionPersistence: this.getEnvBoolean('MCP_SESSION_PERSISTENCE_ENABLED', true),
-        enableSessionRestore: this.getEnvBoolean('MCP_SESSION_RESTORE_ENABLED', true),
-        requestTimeout: parseInt(this.getEnvOptional('MCP_REQUEST_TIMEOUT', '30000')), // 30 seconds default
-        maxRequestSize: parseInt(this.getEnvOptional('MCP_MAX_REQUEST_SIZE', '1048576')), // 1024 * 1024 = 1MB default
+        maxConcurrentSessions: parseInt(
+          this.getEnvOptional(
+            'MCP_MAX_CONCURRENT_SESSIONS',
+            '1000',
+            'transport.http.maxConcurrentSessions',
+          ),
+        ),
+        enableSessionPersistence: this.getEnvBoolean(
+          'MCP_SESSION_PERSISTENCE_ENABLED',
+          true,
+          'transport.http.enableSessionPersistence',
+        ),
+        enableSessionRestore: this.getEnvBoolean(
+          'MCP_SESSION_RESTORE_ENABLED',
+          true,
+          'transport.http.enableSessionRestore',
+        ),
+        requestTimeout: parseInt(
+          this.getEnvOptional('MCP_REQUEST_TIMEOUT', '30000', 'transport.http.requestTimeout'),
+        ), // 30 seconds default
+        maxRequestSize: parseInt(
+          this.getEnvOptional('MCP_MAX_REQUEST_SIZE', '1048576', 'transport.http.maxRequestSize'),
+        ), // 1024 * 1024 = 1MB default
         cors: {
-          enabled: this.getEnvBoolean('HTTP_CORS_ENABLED', true),
-          origins: this.getEnvArray('HTTP_CORS_ORIGINS', ['*']),
-          methods: this.getEnvArray('HTTP_CORS_METHODS', ['GET', 'POST', 'PUT', 'DELETE']),
-          headers: this.getEnvArray('HTTP_CORS_HEADERS', []),
+          enabled: this.getEnvBoolean('HTTP_CORS_ENABLED', true, 'transport.http.cors.enabled'),
+          origins: this.getEnvArray('HTTP_CORS_ORIGINS', ['*'], 'transport.http.cors.origins'),
+          methods: this.getEnvArray(
+            'HTTP_CORS_METHODS',
+            ['GET', 'POST', 'PUT', 'DELETE'],
+            'transport.http.cors.methods',
+          ),
+          headers: this.getEnvArray('HTTP_CORS_HEADERS', [], 'transport.http.cors.headers'),
         },
-        preserveCompatibilityMode: this.getEnvBoolean('PRESERVE_COMPATIBILITY_MODE', true),
-        allowInsecure: this.getEnvBoolean('HTTP_ALLOW_INSECURE', false),
+        preserveCompatibilityMode: this.getEnvBoolean(
+          'PRESERVE_COMPATIBILITY_MODE',
+          true,
+          'transport.http.preserveCompatibilityMode',
+        ),
+        allowInsecure: this.getEnvBoolean(
+          'HTTP_ALLOW_INSECURE',
+          false,
+          'transport.http.allowInsecure',
+        ),
         // Optional transport persistence settings (for compatibility)
-        enableTransportPersistence: this.getEnvBoolean('MCP_TRANSPORT_PERSISTENCE_ENABLED', false),
+        enableTransportPersistence: this.getEnvBoolean(
+          'MCP_TRANSPORT_PERSISTENCE_ENABLED',
+          false,
+          'transport.http.enableTransportPersistence',
+        ),
         // 🔒 NEW: Authentication configuration from environment
-        enableAuthentication: this.get('MCP_AUTH_HTTP_ENABLED', 'true') === 'true',
-        skipAuthentication: (this.get('MCP_AUTH_HTTP_SKIP', 'false') as string) === 'true',
-        requireAuthentication: this.get('MCP_AUTH_HTTP_REQUIRE', 'true') === 'true',
+        enableAuthentication: this.getEnvBoolean(
+          'MCP_AUTH_HTTP_ENABLED',
+          true,
+          'transport.http.enableAuthentication',
+        ),
+        skipAuthentication: this.getEnvBoolean(
+          'MCP_AUTH_HTTP_SKIP',
+          false,
+          'transport.http.skipAuthentication',
+        ),
+        requireAuthentication: this.getEnvBoolean(
+          'MCP_AUTH_HTTP_REQUIRE',
+          true,
+          'transport.http.requireAuthentication',
+        ),
         // MCP SDK Protocol Timeout Configuration
-        mcpRequestTimeout: parseInt(this.getEnvOptional('MCP_SDK_REQUEST_TIMEOUT', '60000')), // 60 seconds default (matches SDK default)
-        mcpResetTimeoutOnProgress: this.getEnvBoolean('MCP_SDK_RESET_TIMEOUT_ON_PROGRESS', false),
-        mcpMaxTotalTimeout: this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '')
-          ? parseInt(this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '0'))
-          : 0,
-      };
-    } else {
-      config.stdio = {
-        enableLogging: this.getEnvBoolean('STDIO_LOGGING_ENABLED', true),
-        bufferSize: parseInt(this.getEnvOptional('STDIO_BUFFER_SIZE', '8192')),
-        encoding: this.getEnvOptional('STDIO_ENCODING', 'utf8'),
+        mcpRequestTimeout: parseInt(
+          this.getEnvOptional(
+            'MCP_SDK_REQUEST_TIMEOUT',
+            '60000',
+            'transport.http.mcpRequestTimeout',
+          ),
+        ), // 60 seconds default (matches SDK default)
+        mcpResetTimeoutOnProgress: this.getEnvBoolean(
+          'MCP_SDK_RESET_TIMEOUT_ON_PROGRESS',
+          false,
+          'transport.http.mcpResetTimeoutOnProgress',
+        ),
+        mcpMaxTotalTimeout:
+          this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '', 'transport.http.mcpMaxTotalTimeout')
+            ? parseInt(
+              this.getEnvOptional(
+                'MCP_SDK_MAX_TOTAL_TIMEOUT',
+                '0',
+                'transport.http.mcpMaxTotalTimeout',
+              ),
+            )
+            : 0,
+      },
+      stdio: {
+        enableLogging: this.getEnvBoolean(
+          'STDIO_LOGGING_ENABLED',
+          true,
+          'transport.stdio.enableLogging',
+        ),
+        bufferSize: parseInt(
+          this.getEnvOptional('STDIO_BUFFER_SIZE', '8192', 'transport.stdio.bufferSize'),
+        ),
+        encoding: this.getEnvOptional('STDIO_ENCODING', 'utf8', 'transport.stdio.encoding'),
         // 🔒 STDIO authentication (discouraged by MCP spec)
-        enableAuthentication: this.getEnvBoolean('MCP_AUTH_STDIO_ENABLED', false),
-        skipAuthentication: this.getEnvBoolean('MCP_AUTH_STDIO_SKIP', false),
+        enableAuthentication: this.getEnvBoolean(
+          'MCP_AUTH_STDIO_ENABLED',
+          false,
+          'transport.stdio.enableAuthentication',
+        ),
+        skipAuthentication: this.getEnvBoolean(
+          'MCP_AUTH_STDIO_SKIP',
+          false,
+          'transport.stdio.skipAuthentication',
+        ),
         // MCP SDK Protocol Timeout Configuration
-        mcpRequestTimeout: parseInt(this.getEnvOptional('MCP_SDK_REQUEST_TIMEOUT', '60000')), // 60 seconds default (matches SDK default)
-        mcpResetTimeoutOnProgress: this.getEnvBoolean('MCP_SDK_RESET_TIMEOUT_ON_PROGRESS', false),
-        mcpMaxTotalTimeout: this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '')
-          ? parseInt(this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '0'))
-          : 0,
-      };
-    }
+        mcpRequestTimeout: parseInt(
+          this.getEnvOptional(
+            'MCP_SDK_REQUEST_TIMEOUT',
+            '60000',
+            'transport.stdio.mcpRequestTimeout',
+          ),
+        ), // 60 seconds default (matches SDK default)
+        mcpResetTimeoutOnProgress: this.getEnvBoolean(
+          'MCP_SDK_RESET_TIMEOUT_ON_PROGRESS',
+          false,
+          'transport.stdio.mcpResetTimeoutOnProgress',
+        ),
+        mcpMaxTotalTimeout:
+          this.getEnvOptional('MCP_SDK_MAX_TOTAL_TIMEOUT', '', 'transport.stdio.mcpMaxTotalTimeout')
+            ? parseInt(
+              this.getEnvOptional(
+                'MCP_SDK_MAX_TOTAL_TIMEOUT',
+                '0',
+                'transport.stdio.mcpMaxTotalTimeout',
+              ),
+            )
+            : 0,
+      },
+    };
 
     // Add session configuration (applies to both HTTP and STDIO if needed)
     config.session = {
-      maxAge: parseInt(this.getEnvOptional('SESSION_MAX_AGE', '1800000')), // 30 minutes default
-      cleanupInterval: parseInt(this.getEnvOptional('SESSION_CLEANUP_INTERVAL', '300000')), // 5 minutes default
-      persistToDisk: this.getEnvBoolean('SESSION_PERSIST_TO_DISK', true),
-      encryptSessionData: this.getEnvBoolean('SESSION_ENCRYPT_DATA', false),
+      maxAge: parseInt(
+        this.getEnvOptional('SESSION_MAX_AGE', '1800000', 'transport.session.maxAge'),
+      ), // 30 minutes default
+      cleanupInterval: parseInt(
+        this.getEnvOptional(
+          'SESSION_CLEANUP_INTERVAL',
+          '300000',
+          'transport.session.cleanupInterval',
+        ),
+      ), // 5 minutes default
+      persistToDisk: this.getEnvBoolean(
+        'SESSION_PERSIST_TO_DISK',
+        true,
+        'transport.session.persistToDisk',
+      ),
+      encryptSessionData: this.getEnvBoolean(
+        'SESSION_ENCRYPT_DATA',
+        false,
+        'transport.session.encryptSessionData',
+      ),
     };
 
     return config;
@@ -345,11 +776,99 @@ export class ConfigManager {
    * Load storage configuration from environment
    */
   private loadStorageConfig(): StorageConfig {
-    return {
-      denoKvPath: this.getEnvOptional('STORAGE_DENO_KV_PATH', './data/mcp-server.db'),
-      enablePersistence: this.getEnvBoolean('STORAGE_PERSISTENCE_ENABLED', true),
-      cleanupInterval: parseInt(this.getEnvOptional('STORAGE_CLEANUP_INTERVAL', '3600000')), // 1 hour
+    const config: StorageConfig = {
+      backend: this.getEnvOptional(
+        'STORAGE_BACKEND',
+        'denokv',
+        'storage.backend',
+      ) as StorageBackendType,
+      denoKvPath: this.getEnvOptional(
+        'STORAGE_DENO_KV_PATH',
+        './data/mcp-server.db',
+        'storage.denoKvPath',
+      ),
+      sqlitePath: this.getEnvOptional(
+        'STORAGE_SQLITE_PATH',
+        './data/mcp-server.sqlite',
+        'storage.sqlitePath',
+      ),
+      redisKeyPrefix: this.getEnvOptional(
+        'STORAGE_REDIS_KEY_PREFIX',
+        'bb-mcp',
+        'storage.redisKeyPrefix',
+      ),
+      enablePersistence: this.getEnvBoolean(
+        'STORAGE_PERSISTENCE_ENABLED',
+        true,
+        'storage.enablePersistence',
+      ),
+      cleanupInterval: parseInt(
+        this.getEnvOptional('STORAGE_CLEANUP_INTERVAL', '3600000', 'storage.cleanupInterval'),
+      ), // 1 hour
+      credentialEncryption: this.loadCredentialEncryptionConfig(),
     };
+
+    const redisUrl = this.getEnvOptional('STORAGE_REDIS_URL', '', 'storage.redisUrl');
+    if (redisUrl) {
+      config.redisUrl = redisUrl;
+    }
+
+    return config;
+  }
+
+  /**
+   * Load credential encryption configuration from environment
+   * CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS is a comma-separated list of `keyId:base64Key`
+   */
+  private loadCredentialEncryptionConfig(): CredentialEncryptionConfig {
+    const config: CredentialEncryptionConfig = {
+      enabled: this.getEnvBoolean(
+        'CREDENTIAL_ENCRYPTION_ENABLED',
+        false,
+        'storage.credentialEncryption.enabled',
+      ),
+      migrateOnStartup: this.getEnvBoolean(
+        'CREDENTIAL_ENCRYPTION_MIGRATE_ON_STARTUP',
+        true,
+        'storage.credentialEncryption.migrateOnStartup',
+      ),
+    };
+
+    const key = this.getEnvOptional(
+      'CREDENTIAL_ENCRYPTION_KEY',
+      '',
+      'storage.credentialEncryption.key',
+    );
+    if (key) {
+      config.key = key;
+    }
+    const keyId = this.getEnvOptional(
+      'CREDENTIAL_ENCRYPTION_KEY_ID',
+      '',
+      'storage.credentialEncryption.keyId',
+    );
+    if (keyId) {
+      config.keyId = keyId;
+    }
+
+    const previousKeys = this.getEnvOptional(
+      'CREDENTIAL_ENCRYPTION_PREVIOUS_KEYS',
+      '',
+      'storage.credentialEncryption.previousKeys',
+    );
+    if (previousKeys) {
+      config.previousKeys = Object.fromEntries(
+        previousKeys.split(',')
+          .map((entry) => entry.trim())
+          .filter(Boolean)
+          .map((entry) => {
+            const separator = entry.indexOf(':');
+            return [entry.slice(0, separator), entry.slice(separator + 1)];
+          }),
+      );
+    }
+
+    return config;
   }
 
   /**
@@ -357,8 +876,16 @@ export class ConfigManager {
    */
   private loadMcpServerInstructionsConfig(): McpServerInstructionsConfig {
     return {
-      instructionsContent: this.getEnvOptional('MCP_SERVER_INSTRUCTIONS', ''),
-      instructionsFilePath: this.getEnvOptional('MCP_INSTRUCTIONS_FILE', ''),
+      instructionsContent: this.getEnvOptional(
+        'MCP_SERVER_INSTRUCTIONS',
+        '',
+        'mcpServerInstructionsConfig.instructionsContent',
+      ),
+      instructionsFilePath: this.getEnvOptional(
+        'MCP_INSTRUCTIONS_FILE',
+        '',
+        'mcpServerInstructionsConfig.instructionsFilePath',
+      ),
     };
   }
 
@@ -371,20 +898,37 @@ export class ConfigManager {
       storageType: this.getEnvOptional(
         'TRANSPORT_STORAGE_TYPE',
         'chunked',
+        'transportEventStore.storageType',
       ) as TransportEventStoreType,
 
       monitoring: {
-        enableDebugLogging: this.getEnvBoolean('TRANSPORT_CHUNKED_DEBUG_LOGGING', false),
+        enableDebugLogging: this.getEnvBoolean(
+          'TRANSPORT_CHUNKED_DEBUG_LOGGING',
+          false,
+          'transportEventStore.monitoring.enableDebugLogging',
+        ),
       },
 
       maintenance: {
-        enableAutoCleanup: this.getEnvBoolean('TRANSPORT_AUTO_CLEANUP_ENABLED', true),
+        enableAutoCleanup: this.getEnvBoolean(
+          'TRANSPORT_AUTO_CLEANUP_ENABLED',
+          true,
+          'transportEventStore.maintenance.enableAutoCleanup',
+        ),
         keepEventCount: parseInt(
-          this.getEnvOptional('TRANSPORT_KEEP_EVENT_COUNT', '1000'),
+          this.getEnvOptional(
+            'TRANSPORT_KEEP_EVENT_COUNT',
+            '1000',
+            'transportEventStore.maintenance.keepEventCount',
+          ),
           10,
         ),
         cleanupIntervalMs: parseInt(
-          this.getEnvOptional('TRANSPORT_CLEANUP_INTERVAL_MS', '86400000'),
+          this.getEnvOptional(
+            'TRANSPORT_CLEANUP_INTERVAL_MS',
+            '86400000',
+            'transportEventStore.maintenance.cleanupIntervalMs',
+          ),
           10,
         ),
       },
@@ -403,26 +947,46 @@ export class ConfigManager {
 
       chunking: {
         maxChunkSize: parseInt(
-          this.getEnvOptional('TRANSPORT_MAX_CHUNK_SIZE', '61440'),
+          this.getEnvOptional(
+            'TRANSPORT_MAX_CHUNK_SIZE',
+            '61440',
+            'transportEventStore.chunking.maxChunkSize',
+          ),
           10,
         ),
         maxMessageSize: parseInt(
-          this.getEnvOptional('TRANSPORT_MAX_MESSAGE_SIZE', '10485760'),
+          this.getEnvOptional(
+            'TRANSPORT_MAX_MESSAGE_SIZE',
+            '10485760',
+            'transportEventStore.chunking.maxMessageSize',
+          ),
           10,
         ),
       },
 
       compression: {
-        enable: this.getEnvBoolean('TRANSPORT_COMPRESSION_ENABLED', true),
+        enable: this.getEnvBoolean(
+          'TRANSPORT_COMPRESSION_ENABLED',
+          true,
+          'transportEventStore.compression.enable',
+        ),
         threshold: parseInt(
-          this.getEnvOptional('TRANSPORT_COMPRESSION_THRESHOLD', '1024'),
+          this.getEnvOptional(
+            'TRANSPORT_COMPRESSION_THRESHOLD',
+            '1024',
+            'transportEventStore.compression.threshold',
+          ),
           10,
         ),
       },
 
       monitoring: {
         ...baseConfig.monitoring,
-        logCompressionStats: this.getEnvBoolean('TRANSPORT_LOG_COMPRESSION_STATS', true),
+        logCompressionStats: this.getEnvBoolean(
+          'TRANSPORT_LOG_COMPRESSION_STATS',
+          true,
+          'transportEventStore.monitoring.logCompressionStats',
+        ),
       },
     };
   }
@@ -432,8 +996,22 @@ export class ConfigManager {
    */
   private loadLoggingConfig(): LoggingConfig {
     return {
-      level: this.getEnvOptional('LOG_LEVEL', 'info') as 'debug' | 'info' | 'warn' | 'error',
-      format: this.getEnvOptional('LOG_FORMAT', 'text') as 'text' | 'json',
+      level: this.getEnvOptional('LOG_LEVEL', 'info', 'logging.level') as
+        | 'debug'
+        | 'info'
+        | 'warn'
+        | 'error',
+      format: this.getEnvOptional('LOG_FORMAT', 'text', 'logging.format') as 'text' | 'json',
+      forwardToClient: this.getEnvBoolean(
+        'LOG_FORWARD_TO_CLIENT',
+        false,
+        'logging.forwardToClient',
+      ),
+      clientLevel: this.getEnvOptional(
+        'LOG_CLIENT_LEVEL',
+        'info',
+        'logging.clientLevel',
+      ) as McpLogLevel,
     };
   }
 
@@ -442,17 +1020,35 @@ export class ConfigManager {
    */
   private loadAuditConfig(): AuditConfig {
     return {
-      enabled: this.getEnvBoolean('AUDIT_ENABLED', true),
-      logFile: this.getEnvOptional('AUDIT_LOG_FILE', './logs/audit.log'),
-      retentionDays: parseInt(this.getEnvOptional('AUDIT_RETENTION_DAYS', '90')),
+      enabled: this.getEnvBoolean('AUDIT_ENABLED', true, 'audit.enabled'),
+      logFile: this.getEnvOptional('AUDIT_LOG_FILE', './logs/audit.log', 'audit.logFile'),
+      retentionDays: parseInt(
+        this.getEnvOptional('AUDIT_RETENTION_DAYS', '90', 'audit.retentionDays'),
+      ),
+      maxFileSize:
+        parseInt(this.getEnvOptional('AUDIT_MAX_FILE_SIZE_MB', '100', 'audit.maxFileSize')) * 1024 *
+        1024,
+      rotateDaily: this.getEnvBoolean('AUDIT_ROTATE_DAILY', true, 'audit.rotateDaily'),
+      maxFiles: parseInt(this.getEnvOptional('AUDIT_MAX_FILES', '0', 'audit.maxFiles')),
+      hashChain: this.getEnvBoolean('AUDIT_HASH_CHAIN', true, 'audit.hashChain'),
+      indexEnabled: this.getEnvBoolean('AUDIT_INDEX_ENABLED', true, 'audit.indexEnabled'),
+      apiScope: this.getEnvOptional('AUDIT_API_SCOPE', 'admin', 'audit.apiScope'),
       logCalls: {
-        api: this.getEnvBoolean('AUDIT_LOG_CALLS_API', true),
-        auth: this.getEnvBoolean('AUDIT_LOG_CALLS_AUTH', true),
-        workflow_execution: this.getEnvBoolean('AUDIT_LOG_CALLS_WORKFLOW_EXECUTION', true),
-        workflow_operation: this.getEnvBoolean('AUDIT_LOG_CALLS_WORKFLOW_OPERATION', true),
-        tools: this.getEnvBoolean('AUDIT_LOG_CALLS_TOOLS', true),
-        system: this.getEnvBoolean('AUDIT_LOG_CALLS_SYSTEM', true),
-        custom: this.getEnvBoolean('AUDIT_LOG_CALLS_CUSTOM', true),
+        api: this.getEnvBoolean('AUDIT_LOG_CALLS_API', true, 'audit.logCalls.api'),
+        auth: this.getEnvBoolean('AUDIT_LOG_CALLS_AUTH', true, 'audit.logCalls.auth'),
+        workflow_execution: this.getEnvBoolean(
+          'AUDIT_LOG_CALLS_WORKFLOW_EXECUTION',
+          true,
+          'audit.logCalls.workflow_execution',
+        ),
+        workflow_operation: this.getEnvBoolean(
+          'AUDIT_LOG_CALLS_WORKFLOW_OPERATION',
+          true,
+          'audit.logCalls.workflow_operation',
+        ),
+        tools: this.getEnvBoolean('AUDIT_LOG_CALLS_TOOLS', true, 'audit.logCalls.tools'),
+        system: this.getEnvBoolean('AUDIT_LOG_CALLS_SYSTEM', true, 'audit.logCalls.system'),
+        custom: this.getEnvBoolean('AUDIT_LOG_CALLS_CUSTOM', true, 'audit.logCalls.custom'),
       },
     };
   }
@@ -462,10 +1058,129 @@ export class ConfigManager {
    */
   private loadRateLimitConfig(): RateLimitConfig {
     return {
-      enabled: this.getEnvBoolean('RATE_LIMIT_ENABLED', false),
-      requestsPerMinute: parseInt(this.getEnvOptional('RATE_LIMIT_REQUESTS_PER_MINUTE', '60')),
-      burstLimit: parseInt(this.getEnvOptional('RATE_LIMIT_BURST', '10')),
-      windowMs: parseInt(this.getEnvOptional('RATE_LIMIT_WINDOW_MS', '60000')), // 1 minute
+      enabled: this.getEnvBoolean('RATE_LIMIT_ENABLED', false, 'rateLimit.enabled'),
+      requestsPerMinute: parseInt(
+        this.getEnvOptional('RATE_LIMIT_REQUESTS_PER_MINUTE', '60', 'rateLimit.requestsPerMinute'),
+      ),
+      burstLimit: parseInt(this.getEnvOptional('RATE_LIMIT_BURST', '10', 'rateLimit.burstLimit')),
+      windowMs: parseInt(
+        this.getEnvOptional('RATE_LIMIT_WINDOW_MS', '60000', 'rateLimit.windowMs'),
+      ), // 1 minute
+      http: this.loadHttpRateLimitConfig(),
+    };
+  }
+
+  /**
+   * Load metrics scrape endpoint configuration from environment
+   */
+  private loadMetricsConfig(): MetricsEndpointConfig {
+    const bearerToken = this.getEnvOptional('METRICS_BEARER_TOKEN', '', 'metrics.bearerToken');
+    return {
+      enabled: this.getEnvBoolean('METRICS_ENABLED', false, 'metrics.enabled'),
+      path: this.getEnvOptional('METRICS_PATH', '/metrics', 'metrics.path'),
+      ...(bearerToken && { bearerToken }),
+    };
+  }
+
+  /**
+   * Load tracing configuration from environment
+   */
+  private loadTracingConfig(): TracingConfig {
+    const otlpHeaders = this.parseKeyValueList(
+      this.getEnvOptional('TRACING_OTLP_HEADERS', '', 'tracing.otlpHeaders'),
+    );
+
+    return {
+      enabled: this.getEnvBoolean('TRACING_ENABLED', false, 'tracing.enabled'),
+      serviceName: this.getEnvOptional(
+        'TRACING_SERVICE_NAME',
+        this.getEnvOptional('SERVER_NAME', 'mcp-server', 'tracing.serviceName'),
+        'tracing.serviceName',
+      ),
+      exporter: this.getEnvOptional(
+        'TRACING_EXPORTER',
+        'otlp',
+        'tracing.exporter',
+      ) as TracingExporterType,
+      otlpEndpoint: this.getEnvOptional(
+        'TRACING_OTLP_ENDPOINT',
+        'http://localhost:4318/v1/traces',
+        'tracing.otlpEndpoint',
+      ),
+      ...(otlpHeaders && { otlpHeaders }),
+      filePath: this.getEnvOptional('TRACING_FILE_PATH', './logs/traces.jsonl', 'tracing.filePath'),
+    };
+  }
+
+  /**
+   * Parse a `key=value,key2=value2` list (OTLP header format)
+   */
+  private parseKeyValueList(value: string | undefined): Record<string, string> | undefined {
+    if (!value) return undefined;
+    const entries: Record<string, string> = {};
+    for (const pair of value.split(',')) {
+      const separator = pair.indexOf('=');
+      if (separator <= 0) continue;
+      entries[pair.slice(0, separator).trim()] = decodeURIComponent(
+        pair.slice(separator + 1).trim(),
+      );
+    }
+    return Object.keys(entries).length > 0 ? entries : undefined;
+  }
+
+  /**
+   * Load HTTP rate limit configuration from environment
+   * Limits are per minute; OAuth limits apply to /token, /authorize and /register,
+   * API limits to everything under /api/v1/
+   */
+  private loadHttpRateLimitConfig(): HttpRateLimitConfig {
+    // A limit may apply to several endpoints
+    const perMinute = (key: string, defaultValue: string, limit: string, endpoints: string[]) => ({
+      requests: parseInt(
+        this.getEnvOptional(
+          key,
+          defaultValue,
+          ...endpoints.map((endpoint) => `rateLimit.http.endpoints.${endpoint}.${limit}.requests`),
+        ),
+      ),
+      window: 60,
+    });
+    const oauthEndpoints = ['/token', '/authorize', '/register', '/revoke', '/introspect'];
+    const mcpPerIP = perMinute('RATE_LIMIT_HTTP_MCP_PER_IP', '300', 'perIP', ['/mcp']);
+    const mcpPerClient = perMinute('RATE_LIMIT_HTTP_MCP_PER_CLIENT', '600', 'perClient', ['/mcp']);
+    const oauthPerIP = perMinute('RATE_LIMIT_HTTP_OAUTH_PER_IP', '30', 'perIP', oauthEndpoints);
+    const oauthPerClient = perMinute(
+      'RATE_LIMIT_HTTP_OAUTH_PER_CLIENT',
+      '60',
+      'perClient',
+      oauthEndpoints.filter((endpoint) => endpoint !== '/register'),
+    );
+    const apiPerIP = perMinute('RATE_LIMIT_HTTP_API_PER_IP', '120', 'perIP', ['/api/v1/*']);
+
+    return {
+      enabled: this.getEnvBoolean('RATE_LIMIT_HTTP_ENABLED', false, 'rateLimit.http.enabled'),
+      endpoints: {
+        '/mcp': { perIP: mcpPerIP, perClient: mcpPerClient },
+        '/token': { perIP: oauthPerIP, perClient: oauthPerClient },
+        '/authorize': { perIP: oauthPerIP, perClient: oauthPerClient },
+        // Registration happens before a client exists, so only the IP is limited
+        '/register': { perIP: oauthPerIP },
+        '/revoke': { perIP: oauthPerIP, perClient: oauthPerClient },
+        '/introspect': { perIP: oauthPerIP, perClient: oauthPerClient },
+        '/api/v1/*': { perIP: apiPerIP },
+      },
+      maxConcurrentRequests: parseInt(
+        this.getEnvOptional(
+          'RATE_LIMIT_HTTP_MAX_CONCURRENT',
+          '100',
+          'rateLimit.http.maxConcurrentRequests',
+        ),
+      ),
+      trustProxy: this.getEnvBoolean(
+        'RATE_LIMIT_HTTP_TRUST_PROXY',
+        false,
+        'rateLimit.http.trustProxy',
+      ),
     };
   }
 
@@ -474,51 +1189,96 @@ export class ConfigManager {
    * Returns the nested structure expected by OAuthProvider constructor
    */
   private loadOAuthProviderConfig(): OAuthProviderConfig {
-    const clientId = this.getEnvOptional('OAUTH_PROVIDER_CLIENT_ID', 'bb-mcp-server');
-    const clientSecret = this.getEnvOptional('OAUTH_PROVIDER_CLIENT_SECRET', 'super-secret');
+    const clientId = this.getEnvOptional(
+      'OAUTH_PROVIDER_CLIENT_ID',
+      'bb-mcp-server',
+      'oauthProvider.clientId',
+    );
+    const clientSecret = this.getEnvOptional(
+      'OAUTH_PROVIDER_CLIENT_SECRET',
+      'super-secret',
+      'oauthProvider.clientSecret',
+    );
     const redirectUri = this.getEnvOptional(
       'OAUTH_PROVIDER_REDIRECT_URI',
       'http://localhost:3000/oauth/callback',
+      'oauthProvider.redirectUri',
     );
 
-    if (clientId === 'bb-mcp-server' || clientSecret === 'super-secret') {
-      this._logger?.warn(
-        'ConfigManager: Using default values for OAUTH_PROVIDER_CLIENT_ID or OAUTH_PROVIDER_CLIENT_SECRET - change them before deploying to production',
-      );
-    }
-
     return {
-      issuer: this.getEnvOptional('OAUTH_PROVIDER_ISSUER', 'http://localhost:3000'),
+      issuer: this.getEnvOptional(
+        'OAUTH_PROVIDER_ISSUER',
+        'http://localhost:3000',
+        'oauthProvider.issuer',
+      ),
       clientId,
       clientSecret,
       redirectUri,
 
       tokens: {
         accessTokenExpiryMs: parseInt(
-          this.getEnvOptional('OAUTH_PROVIDER_TOKEN_EXPIRATION', '3600000'),
+          this.getEnvOptional(
+            'OAUTH_PROVIDER_TOKEN_EXPIRATION',
+            '3600000',
+            'oauthProvider.tokens.accessTokenExpiryMs',
+          ),
           10,
         ),
         refreshTokenExpiryMs: parseInt(
-          this.getEnvOptional('OAUTH_PROVIDER_REFRESH_TOKEN_EXPIRATION', '2592000000'),
+          this.getEnvOptional(
+            'OAUTH_PROVIDER_REFRESH_TOKEN_EXPIRATION',
+            '2592000000',
+            'oauthProvider.tokens.refreshTokenExpiryMs',
+          ),
           10,
         ),
         authorizationCodeExpiryMs: parseInt(
-          this.getEnvOptional('OAUTH_PROVIDER_CODE_EXPIRATION', '600000'),
+          this.getEnvOptional(
+            'OAUTH_PROVIDER_CODE_EXPIRATION',
+            '600000',
+            'oauthProvider.tokens.authorizationCodeExpiryMs',
+          ),
           10,
         ),
       },
 
       clients: {
-        enableDynamicRegistration: this.getEnvBoolean('OAUTH_PROVIDER_DYNAMIC_CLIENT_REG', true),
-        requireHTTPS: this.getEnvBoolean('OAUTH_PROVIDER_REQUIRE_HTTPS', false),
-        allowedRedirectHosts: this.getEnvArray('HTTP_ALLOWED_HOSTS', ['localhost', '127.0.0.1']), // can have OAUTH_PROVIDER_ALLOWED_HOSTS override later if needed
+        enableDynamicRegistration: this.getEnvBoolean(
+          'OAUTH_PROVIDER_DYNAMIC_CLIENT_REG',
+          true,
+          'oauthProvider.clients.enableDynamicRegistration',
+        ),
+        requireHTTPS: this.getEnvBoolean(
+          'OAUTH_PROVIDER_REQUIRE_HTTPS',
+          false,
+          'oauthProvider.clients.requireHTTPS',
+        ),
+        allowedRedirectHosts: this.getEnvArray(
+          'HTTP_ALLOWED_HOSTS',
+          ['localhost', '127.0.0.1'],
+          'oauthProvider.clients.allowedRedirectHosts',
+        ), // can have OAUTH_PROVIDER_ALLOWED_HOSTS override later if needed
       },
 
       authorization: {
-        supportedGrantTypes: ['authorization_code', 'refresh_token'],
+        supportedGrantTypes: [
+          'authorization_code',
+          'refresh_token',
+          ...(this.getEnvBoolean(
+              'OAUTH_PROVIDER_CLIENT_CREDENTIALS',
+              false,
+              'oauthProvider.authorization.supportedGrantTypes',
+            )
+            ? ['client_credentials']
+            : []),
+        ],
         supportedResponseTypes: ['code'],
         supportedScopes: ['all', 'read', 'write', 'admin'],
-        enablePKCE: this.getEnvBoolean('OAUTH_PROVIDER_PKCE', true),
+        enablePKCE: this.getEnvBoolean(
+          'OAUTH_PROVIDER_PKCE',
+          true,
+          'oauthProvider.authorization.enablePKCE',
+        ),
         requirePKCE: false,
       },
     };
@@ -526,31 +1286,50 @@ export class ConfigManager {
 
   /**
    * Load OAuth consumer configuration from environment (optional)
+   * Only used when a provider ID is set; the other values are then required
    */
-  private loadOAuthConsumerConfig(): OAuthConsumerConfig | null {
-    const providerId = this.getEnvOptional('OAUTH_CONSUMER_PROVIDER_ID', '');
-
-    // Early return if no provider ID - skip entire OAuth config
-    if (!providerId) {
-      return null;
-    }
-
-    const clientId = this.getEnvRequired('OAUTH_CONSUMER_CLIENT_ID');
-    const clientSecret = this.getEnvRequired('OAUTH_CONSUMER_CLIENT_SECRET');
-    const authUrl = this.getEnvRequired('OAUTH_CONSUMER_AUTH_URL');
-    const tokenUrl = this.getEnvRequired('OAUTH_CONSUMER_TOKEN_URL');
-    const redirectUri = this.getEnvRequired('OAUTH_CONSUMER_REDIRECT_URI');
+  private loadOAuthConsumerConfig(): OAuthConsumerConfig {
+    const providerId = this.getEnvOptional(
+      'OAUTH_CONSUMER_PROVIDER_ID',
+      '',
+      'oauthConsumer.providerId',
+    );
+    const clientId = this.getEnvOptional('OAUTH_CONSUMER_CLIENT_ID', '', 'oauthConsumer.clientId');
+    const clientSecret = this.getEnvOptional(
+      'OAUTH_CONSUMER_CLIENT_SECRET',
+      '',
+      'oauthConsumer.clientSecret',
+    );
+    const authUrl = this.getEnvOptional('OAUTH_CONSUMER_AUTH_URL', '', 'oauthConsumer.authUrl');
+    const tokenUrl = this.getEnvOptional('OAUTH_CONSUMER_TOKEN_URL', '', 'oauthConsumer.tokenUrl');
+    const redirectUri = this.getEnvOptional(
+      'OAUTH_CONSUMER_REDIRECT_URI',
+      '',
+      'oauthConsumer.redirectUri',
+    );
 
-    const scopes = this.getEnvArray('OAUTH_CONSUMER_SCOPES', []);
+    const scopes = this.getEnvArray('OAUTH_CONSUMER_SCOPES', [], 'oauthConsumer.scopes');
 
     const tokenRefreshBufferMinutes = parseInt(
-      this.getEnvOptional('OAUTH_CONSUMER_TOKEN_REFRESH_BUFFER_MINUTES', '5'),
+      this.getEnvOptional(
+        'OAUTH_CONSUMER_TOKEN_REFRESH_BUFFER_MINUTES',
+        '5',
+        'oauthConsumer.tokenRefreshBufferMinutes',
+      ),
     );
     const maxTokenRefreshRetries = parseInt(
-      this.getEnvOptional('OAUTH_CONSUMER_MAX_TOKEN_REFRESH_RETRIES', '3'),
+      this.getEnvOptional(
+        'OAUTH_CONSUMER_MAX_TOKEN_REFRESH_RETRIES',
+        '3',
+        'oauthConsumer.maxTokenRefreshRetries',
+      ),
     );
 
-    const customHeaders = this.getEnvRecord('OAUTH_CONSUMER_CUSTOM_HEADERS', {});
+    const customHeaders = this.getEnvRecord(
+      'OAUTH_CONSUMER_CUSTOM_HEADERS',
+      {},
+      'oauthConsumer.customHeaders',
+    );
 
     return {
       providerId,
@@ -568,20 +1347,37 @@ export class ConfigManager {
 
   /**
    * Load third-party API configuration from environment (optional)
+   * Only used when a provider ID is set; version and base URL are then required
    */
-  private loadThirdpartyApiConfig(): ThirdPartyApiConfig | null {
-    const providerId = this.getEnvOptional('THIRDPARTY_API_PROVIDER_ID', '');
-
-    // Early return if no provider ID - skip entire third-party api config
-    if (!providerId) {
-      return null;
-    }
-
-    const version = this.getEnvRequired('THIRDPARTY_API_VERSION');
-    const baseUrl = this.getEnvRequired('THIRDPARTY_API_BASE_URL');
-    const timeout = parseInt(this.getEnvOptional('THIRDPARTY_API_TIMEOUT', '5000'));
-    const retryAttempts = parseInt(this.getEnvOptional('THIRDPARTY_API_RETRY_ATTEMPTS', '3'));
-    const retryDelayMs = parseInt(this.getEnvOptional('THIRDPARTY_API_RETRY_DELAY', '1000'));
+  private loadThirdpartyApiConfig(): ThirdPartyApiConfig {
+    const providerId = this.getEnvOptional(
+      'THIRDPARTY_API_PROVIDER_ID',
+      '',
+      'thirdpartyApiClient.providerId',
+    );
+    const version = this.getEnvOptional(
+      'THIRDPARTY_API_VERSION',
+      '',
+      'thirdpartyApiClient.version',
+    );
+    const baseUrl = this.getEnvOptional(
+      'THIRDPARTY_API_BASE_URL',
+      '',
+      'thirdpartyApiClient.baseUrl',
+    );
+    const timeout = parseInt(
+      this.getEnvOptional('THIRDPARTY_API_TIMEOUT', '5000', 'thirdpartyApiClient.timeout'),
+    );
+    const retryAttempts = parseInt(
+      this.getEnvOptional(
+        'THIRDPARTY_API_RETRY_ATTEMPTS',
+        '3',
+        'thirdpartyApiClient.retryAttempts',
+      ),
+    );
+    const retryDelayMs = parseInt(
+      this.getEnvOptional('THIRDPARTY_API_RETRY_DELAY', '1000', 'thirdpartyApiClient.retryDelayMs'),
+    );
 
     return {
       providerId,
@@ -595,20 +1391,22 @@ export class ConfigManager {
 
   /**
    * Load documentation endpoint configuration from environment (optional)
+   * Only used when enabled
    */
-  private loadDocsEndpointConfig(): DocsEndpointConfig | null {
-    const enabled = this.getEnvBoolean('DOCS_ENDPOINT_ENABLED', false);
-
-    // Early return if disabled
-    if (!enabled) {
-      return null;
-    }
-
+  private loadDocsEndpointConfig(): DocsEndpointConfig {
     return {
-      enabled: true,
-      path: this.getEnvOptional('DOCS_ENDPOINT_PATH', '/docs'),
-      allowListing: this.getEnvBoolean('DOCS_ENDPOINT_ALLOW_LISTING', true),
-      enableCache: this.getEnvBoolean('DOCS_ENDPOINT_ENABLE_CACHE', true),
+      enabled: this.getEnvBoolean('DOCS_ENDPOINT_ENABLED', false, 'docsEndpoint.enabled'),
+      path: this.getEnvOptional('DOCS_ENDPOINT_PATH', '/docs', 'docsEndpoint.path'),
+      allowListing: this.getEnvBoolean(
+        'DOCS_ENDPOINT_ALLOW_LISTING',
+        true,
+        'docsEndpoint.allowListing',
+      ),
+      enableCache: this.getEnvBoolean(
+        'DOCS_ENDPOINT_ENABLE_CACHE',
+        true,
+        'docsEndpoint.enableCache',
+      ),
       // Note: contentModule and content are provided programmatically via dependencies
       // They cannot be loaded from environment variables
     };
@@ -619,14 +1417,22 @@ export class ConfigManager {
    */
   loadPluginsConfig(): PluginManagerConfig {
     return {
-      paths: this.getEnvArray('PLUGINS_DISCOVERY_PATHS', ['./plugins']),
-      autoload: this.getEnvBoolean('PLUGINS_AUTOLOAD', true),
-      watchForChanges: this.getEnvBoolean('PLUGINS_WATCH_CHANGES', false),
+      paths: this.getEnvArray('PLUGINS_DISCOVERY_PATHS', ['./plugins'], 'pluginManager.paths'),
+      autoload: this.getEnvBoolean('PLUGINS_AUTOLOAD', true, 'pluginManager.autoload'),
+      watchForChanges: this.getEnvBoolean(
+        'PLUGINS_WATCH_CHANGES',
+        false,
+        'pluginManager.watchForChanges',
+      ),
+      watchDebounceMs: parseInt(
+        this.getEnvOptional('PLUGINS_WATCH_DEBOUNCE_MS', '300', 'pluginManager.watchDebounceMs'),
+      ),
       allowedPlugins:
-        this.getEnvOptional('PLUGINS_ALLOWED_LIST', '')?.split(',').map((p) => p.trim()).filter(
-          (p) => p.length > 0,
-        ) || undefined,
-      blockedPlugins: this.getEnvArray('PLUGINS_BLOCKED_LIST', []),
+        this.getEnvOptional('PLUGINS_ALLOWED_LIST', '', 'pluginManager.allowedPlugins')?.split(',')
+          .map((p) => p.trim()).filter(
+            (p) => p.length > 0,
+          ) || undefined,
+      blockedPlugins: this.getEnvArray('PLUGINS_BLOCKED_LIST', [], 'pluginManager.blockedPlugins'),
     };
   }
 
@@ -658,6 +1464,20 @@ export class ConfigManager {
       }
     }
 
+    // Validate storage backend
+    const storageBackend = config.storage.backend ?? 'denokv';
+    if (!STORAGE_BACKEND_TYPES.includes(storageBackend)) {
+      errors.push(`Invalid storage backend, must be one of: ${STORAGE_BACKEND_TYPES.join(', ')}`);
+    }
+    if (storageBackend === 'redis' && !config.storage.redisUrl) {
+      errors.push('Storage backend is redis but STORAGE_REDIS_URL is not set');
+    }
+
+    // Validate credential encryption configuration
+    if (config.storage.credentialEncryption?.enabled && !config.storage.credentialEncryption.key) {
+      errors.push('Credential encryption is enabled but CREDENTIAL_ENCRYPTION_KEY is not set');
+    }
+
     // Validate rate limit configuration
     if (config.rateLimit.enabled && config.rateLimit.requestsPerMinute <= 0) {
       errors.push('Rate limit requests per minute must be a positive number');
@@ -665,10 +1485,12 @@ export class ConfigManager {
 
     // Create data directory if it doesn't exist
     try {
-      const kvDir = config.storage.denoKvPath.substring(
-        0,
-        config.storage.denoKvPath.lastIndexOf('/'),
-      );
+      const storagePath = storageBackend === 'sqlite'
+        ? config.storage.sqlitePath ?? ''
+        : storageBackend === 'denokv'
+        ? config.storage.denoKvPath
+        : '';
+      const kvDir = storagePath.substring(0, storagePath.lastIndexOf('/'));
       if (kvDir) {
         await Deno.mkdir(kvDir, { recursive: true });
       }
@@ -708,39 +1530,50 @@ export class ConfigManager {
   }
 
   /**
-   * Helper to get required environment variable
+   * Read an environment variable, unless only the defaults are being loaded
    */
-  private getEnvRequired(key: string): string {
-    const value = Deno.env.get(`${this.options.envPrefix}${key}`);
-    if (!value) {
-      throw new Error(`Required environment variable ${this.options.envPrefix}${key} is not set`);
+  private readEnv(key: string): string | undefined {
+    if (this.ignoreEnv) return undefined;
+    return Deno.env.get(`${this.options.envPrefix}${key}`);
+  }
+
+  /**
+   * Record the config paths set from an environment variable (the env layer)
+   */
+  private recordEnvPaths(paths: string[]): void {
+    for (const path of paths) {
+      this.envPaths.add(path);
     }
-    return value;
   }
 
   /**
    * Helper to get optional environment variable with default
+   * `paths` are the config values the variable sets
    */
-  private getEnvOptional(key: string, defaultValue: string): string {
-    return Deno.env.get(`${this.options.envPrefix}${key}`) ?? defaultValue;
+  private getEnvOptional(key: string, defaultValue: string, ...paths: string[]): string {
+    const value = this.readEnv(key);
+    if (value === undefined) return defaultValue;
+    this.recordEnvPaths(paths);
+    return value;
   }
 
   /**
    * Helper to get boolean environment variable
    */
-  private getEnvBoolean(key: string, defaultValue: boolean): boolean {
-    const value = Deno.env.get(`${this.options.envPrefix}${key}`)?.toLowerCase();
-    if (value === 'true') return true;
-    if (value === 'false') return false;
-    return defaultValue;
+  private getEnvBoolean(key: string, defaultValue: boolean, ...paths: string[]): boolean {
+    const value = this.readEnv(key)?.toLowerCase();
+    if (value !== 'true' && value !== 'false') return defaultValue;
+    this.recordEnvPaths(paths);
+    return value === 'true';
   }
 
   /**
    * Helper to get array from environment variable (comma-separated)
    */
-  private getEnvArray(key: string, defaultValue: string[]): string[] {
-    const value = Deno.env.get(`${this.options.envPrefix}${key}`);
+  private getEnvArray(key: string, defaultValue: string[], ...paths: string[]): string[] {
+    const value = this.readEnv(key);
     if (!value) return defaultValue;
+    this.recordEnvPaths(paths);
     return value.split(',').map((item) => item.trim()).filter((item) => item.length > 0);
   }
 
@@ -755,9 +1588,11 @@ export class ConfigManager {
   private getEnvRecord(
     key: string,
     defaultValue: Record<string, string> = {},
+    ...paths: string[]
   ): Record<string, string> {
-    const value = Deno.env.get(`${this.options.envPrefix}${key}`);
+    const value = this.readEnv(key);
     if (!value) return defaultValue;
+    this.recordEnvPaths(paths);
 
     return value
       .split(',')
@@ -793,3 +1628,114 @@ export class ConfigManager {
   }
    */
 }
+
+/**
+ * Parse config file text by file extension
+ */
+async function parseConfigFile(path: string, text: string): Promise<unknown> {
+  const extension = path.slice(path.lastIndexOf('.')).toLowerCase();
+  switch (extension) {
+    case '.json':
+      return JSON.parse(text);
+    case '.jsonc': {
+      const { parse } = await import('@std/jsonc');
+      return parse(text);
+    }
+    case '.yaml':
+    case '.yml': {
+      const { parse } = await import('@std/yaml');
+      return parse(text);
+    }
+    case '.toml': {
+      const { parse } = await import('@std/toml');
+      return parse(text);
+    }
+    default:
+      throw new Error(
+        `Unsupported config file format '${extension}' (use .json, .jsonc, .yaml, .yml or .toml)`,
+      );
+  }
+}
+
+/**
+ * Replace the value of a secret config key (see SECRET_CONFIG_KEYS) with '[REDACTED]'
+ */
+function redactSecret(path: string[], value: unknown): unknown {
+  const secret = path.some((segment) => SECRET_CONFIG_KEYS.includes(segment));
+  return secret && value !== '' && value !== undefined ? '[REDACTED]' : value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Merge source into target; objects are merged key by key, anything else (arrays included) replaces
+ */
+function mergeConfig(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+): Record<string, unknown> {
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) continue;
+    const current = target[key];
+    target[key] = isPlainObject(value) && isPlainObject(current)
+      ? mergeConfig(current, value)
+      : value;
+  }
+  return target;
+}
+
+/**
+ * Every value that is not an object with keys, with its path
+ */
+function collectLeaves(
+  value: unknown,
+  path: string[] = [],
+): Array<{ path: string[]; value: unknown }> {
+  if (isPlainObject(value) && Object.keys(value).length > 0) {
+    return Object.entries(value).flatMap(([key, item]) => collectLeaves(item, [...path, key]));
+  }
+  return value === undefined || path.length === 0 ? [] : [{ path, value }];
+}
+
+function getPath(value: unknown, path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (!isPlainObject(current)) return undefined;
+    current = current[key];
+  }
+  return current;
+}
+
+/**
+ * Set the value at path, creating objects on the way; undefined deletes it
+ */
+function setPath(target: Record<string, unknown>, path: string[], value: unknown): void {
+  let current = target;
+  for (const key of path.slice(0, -1)) {
+    if (!isPlainObject(current[key])) {
+      if (value === undefined) return;
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+
+  const lastKey = path[path.length - 1];
+  if (lastKey === undefined) return;
+  if (value === undefined) {
+    delete current[lastKey];
+  } else {
+    current[lastKey] = value;
+  }
+}
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isSameValue(item, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return Object.is(a, b);
+}
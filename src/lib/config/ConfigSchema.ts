@@ -0,0 +1,278 @@
+/**
+ * Configuration File Schema - Zod schema for bb-mcp-server config files
+ *
+ * Describes the values a config file (or programmatic overrides) may set. Every
+ * key is optional: a file only lists the values it changes, and ConfigManager
+ * layers them as defaults < file < environment variables < overrides. Objects
+ * are strict, so misspelled keys are reported with their path instead of being
+ * ignored.
+ */
+
+import { z } from 'zod';
+
+import { STORAGE_BACKEND_TYPES, type StorageBackendType } from '../storage/StorageBackend.ts';
+import type { AppConfigFile } from './ConfigTypes.ts';
+
+const logLevel = z.enum(['debug', 'info', 'warn', 'error']);
+const mcpLogLevel = z.enum([
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+]);
+const milliseconds = z.number().int().nonnegative();
+const port = z.number().int().min(0).max(65535);
+const stringList = z.array(z.string());
+const stringRecord = z.record(z.string());
+
+const serverSchema = z.object({
+  name: z.string(),
+  version: z.string(),
+  transport: z.enum(['stdio', 'http']),
+  httpPort: port,
+  httpHost: z.string(),
+  publicUrl: z.string().url(),
+  devMode: z.boolean(),
+  skipHttp: z.boolean(),
+}).partial().strict();
+
+const mcpTimeoutShape = {
+  mcpRequestTimeout: milliseconds,
+  mcpResetTimeoutOnProgress: z.boolean(),
+  mcpMaxTotalTimeout: milliseconds,
+};
+
+const rateLimitSchema = z.object({
+  enabled: z.boolean(),
+  requestsPerMinute: z.number().int().positive(),
+  burstLimit: z.number().int().nonnegative(),
+  windowMs: milliseconds,
+}).partial().strict();
+
+const httpRateLimitRuleSchema = z.object({
+  requests: z.number().int().positive(),
+  window: z.number().int().positive(),
+}).strict();
+
+const httpRateLimitSchema = z.object({
+  enabled: z.boolean(),
+  endpoints: z.record(
+    z.object({
+      perIP: httpRateLimitRuleSchema,
+      perClient: httpRateLimitRuleSchema,
+      maxConcurrent: z.number().int().positive(),
+    }).partial().strict(),
+  ),
+  maxConcurrentRequests: z.number().int().positive(),
+  trustProxy: z.boolean(),
+}).partial().strict();
+
+const transportSchema = z.object({
+  type: z.enum(['stdio', 'http']),
+  http: z.object({
+    hostname: z.string(),
+    port,
+    allowedHosts: stringList,
+    sessionTimeout: milliseconds,
+    sessionCleanupInterval: milliseconds,
+    maxConcurrentSessions: z.number().int().positive(),
+    enableSessionPersistence: z.boolean(),
+    enableSessionRestore: z.boolean(),
+    requestTimeout: milliseconds,
+    maxRequestSize: z.number().int().positive(),
+    preserveCompatibilityMode: z.boolean(),
+    enableTransportPersistence: z.boolean(),
+    allowInsecure: z.boolean(),
+    cors: z.object({
+      enabled: z.boolean(),
+      origins: stringList,
+      methods: stringList,
+      headers: stringList,
+    }).partial().strict(),
+    rateLimit: rateLimitSchema,
+    enableDnsRebindingProtection: z.boolean(),
+    enableAuthentication: z.boolean(),
+    skipAuthentication: z.boolean(),
+    requireAuthentication: z.boolean(),
+    ...mcpTimeoutShape,
+  }).partial().strict(),
+  stdio: z.object({
+    enableLogging: z.boolean(),
+    bufferSize: z.number().int().positive(),
+    encoding: z.string(),
+    enableAuthentication: z.boolean(),
+    skipAuthentication: z.boolean(),
+    ...mcpTimeoutShape,
+  }).partial().strict(),
+  session: z.object({
+    maxAge: milliseconds,
+    cleanupInterval: milliseconds,
+    persistToDisk: z.boolean(),
+    encryptSessionData: z.boolean(),
+  }).partial().strict(),
+}).partial().strict();
+
+const storageSchema = z.object({
+  backend: z.enum(STORAGE_BACKEND_TYPES as [StorageBackendType, ...StorageBackendType[]]),
+  denoKvPath: z.string(),
+  sqlitePath: z.string(),
+  redisUrl: z.string(),
+  redisKeyPrefix: z.string(),
+  enablePersistence: z.boolean(),
+  cleanupInterval: milliseconds,
+  credentialEncryption: z.object({
+    enabled: z.boolean(),
+    key: z.string(),
+    keyId: z.string(),
+    previousKeys: stringRecord,
+    migrateOnStartup: z.boolean(),
+  }).partial().strict(),
+}).partial().strict();
+
+const pluginManagerSchema = z.object({
+  paths: stringList,
+  autoload: z.boolean(),
+  watchForChanges: z.boolean(),
+  watchDebounceMs: milliseconds,
+  allowedPlugins: stringList,
+  blockedPlugins: stringList,
+}).partial().strict();
+
+const transportEventStoreSchema = z.object({
+  storageType: z.enum(['simple', 'chunked']),
+  monitoring: z.object({
+    enableDebugLogging: z.boolean(),
+    logCompressionStats: z.boolean(),
+  }).partial().strict(),
+  maintenance: z.object({
+    enableAutoCleanup: z.boolean(),
+    keepEventCount: z.number().int().nonnegative(),
+    cleanupIntervalMs: milliseconds,
+  }).partial().strict(),
+  chunking: z.object({
+    maxChunkSize: z.number().int().positive(),
+    maxMessageSize: z.number().int().positive(),
+  }).partial().strict(),
+  compression: z.object({
+    enable: z.boolean(),
+    threshold: z.number().int().nonnegative(),
+  }).partial().strict(),
+}).partial().strict();
+
+const auditSchema = z.object({
+  enabled: z.boolean(),
+  logFile: z.string(),
+  retentionDays: z.number().int().nonnegative(),
+  bufferSize: z.number().int().positive(),
+  flushInterval: milliseconds,
+  maxFileSize: z.number().int().nonnegative(),
+  rotateDaily: z.boolean(),
+  maxFiles: z.number().int().nonnegative(),
+  hashChain: z.boolean(),
+  indexEnabled: z.boolean(),
+  apiScope: z.string(),
+  logCalls: z.object({
+    api: z.boolean(),
+    auth: z.boolean(),
+    workflow_execution: z.boolean(),
+    workflow_operation: z.boolean(),
+    tools: z.boolean(),
+    system: z.boolean(),
+    custom: z.boolean(),
+  }).partial().strict(),
+}).partial().strict();
+
+const oauthProviderSchema = z.object({
+  issuer: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string(),
+  redirectUri: z.string().url(),
+  tokens: z.object({
+    accessTokenExpiryMs: milliseconds,
+    refreshTokenExpiryMs: milliseconds,
+    authorizationCodeExpiryMs: milliseconds,
+  }).partial().strict(),
+  clients: z.object({
+    enableDynamicRegistration: z.boolean(),
+    requireHTTPS: z.boolean(),
+    allowedRedirectHosts: stringList,
+  }).partial().strict(),
+  authorization: z.object({
+    supportedGrantTypes: stringList,
+    supportedResponseTypes: stringList,
+    supportedScopes: stringList,
+    enablePKCE: z.boolean(),
+    requirePKCE: z.boolean(),
+  }).partial().strict(),
+}).partial().strict();
+
+const oauthConsumerSchema = z.object({
+  providerId: z.string(),
+  authUrl: z.string().url(),
+  tokenUrl: z.string().url(),
+  clientId: z.string(),
+  clientSecret: z.string(),
+  redirectUri: z.string().url(),
+  scopes: stringList,
+  tokenRefreshBufferMinutes: z.number().int().nonnegative(),
+  maxTokenRefreshRetries: z.number().int().nonnegative(),
+  customHeaders: stringRecord,
+}).partial().strict();
+
+/**
+ * Values a config file may set, validated before they are layered over the defaults
+ */
+export const AppConfigFileSchema: z.ZodType<AppConfigFile> = z.object({
+  environment: z.string(),
+  server: serverSchema,
+  transport: transportSchema,
+  storage: storageSchema,
+  pluginManager: pluginManagerSchema,
+  mcpServerInstructionsConfig: z.object({
+    instructionsContent: z.string(),
+    instructionsFilePath: z.string(),
+  }).partial().strict(),
+  transportEventStore: transportEventStoreSchema,
+  logging: z.object({
+    level: logLevel,
+    format: z.enum(['text', 'json']),
+    forwardToClient: z.boolean(),
+    clientLevel: mcpLogLevel,
+  }).partial().strict(),
+  audit: auditSchema,
+  rateLimit: rateLimitSchema.extend({ http: httpRateLimitSchema }).partial().strict(),
+  metrics: z.object({
+    enabled: z.boolean(),
+    path: z.string().startsWith('/'),
+    bearerToken: z.string(),
+  }).partial().strict(),
+  tracing: z.object({
+    enabled: z.boolean(),
+    serviceName: z.string(),
+    exporter: z.enum(['otlp', 'console', 'file']),
+    otlpEndpoint: z.string().url(),
+    otlpHeaders: stringRecord,
+    filePath: z.string(),
+  }).partial().strict(),
+  oauthProvider: oauthProviderSchema,
+  oauthConsumer: oauthConsumerSchema,
+  thirdpartyApiClient: z.object({
+    providerId: z.string(),
+    version: z.string(),
+    baseUrl: z.string().url(),
+    timeout: milliseconds,
+    retryAttempts: z.number().int().nonnegative(),
+    retryDelayMs: milliseconds,
+  }).partial().strict(),
+  // contentModule and content are code, so they can only be passed programmatically
+  docsEndpoint: z.object({
+    enabled: z.boolean(),
+    path: z.string().startsWith('/'),
+    allowListing: z.boolean(),
+    enableCache: z.boolean(),
+  }).partial().strict(),
+}).partial().strict();
@@ -19,13 +19,39 @@ export interface ServerConfig {
   skipHttp: boolean;
 }
 
+import type { StorageBackendType } from '../storage/StorageBackend.ts';
+
 /**
  * Storage configuration
  */
 export interface StorageConfig {
+  /** Storage backend behind KVManager (default: denokv) */
+  backend?: StorageBackendType;
   denoKvPath: string;
+  /** SQLite database path (sqlite backend) */
+  sqlitePath?: string;
+  /** Redis-compatible server URL (redis backend) */
+  redisUrl?: string;
+  /** Namespace for keys on the Redis-compatible server */
+  redisKeyPrefix?: string;
   enablePersistence?: boolean;
   cleanupInterval?: number;
+  credentialEncryption?: CredentialEncryptionConfig;
+}
+
+/**
+ * Encryption at rest for stored third-party credentials
+ */
+export interface CredentialEncryptionConfig {
+  enabled: boolean;
+  /** Base64-encoded 256-bit key-encryption key */
+  key?: string;
+  /** ID recorded with each encrypted record (defaults to a key fingerprint) */
+  keyId?: string;
+  /** Retired keys by ID, kept for decryption during rotation */
+  previousKeys?: Record<string, string>;
+  /** Encrypt plaintext records and re-wrap old-key records on startup */
+  migrateOnStartup?: boolean;
 }
 
 /**
@@ -35,8 +61,25 @@ export interface LoggingConfig {
   level: 'debug' | 'info' | 'warn' | 'error';
   format: 'text' | 'json';
   //file?: string;
+  /** Forward log entries to the MCP session that triggered them (notifications/message) */
+  forwardToClient?: boolean;
+  /** Minimum forwarded level until a client sends logging/setLevel (default: info) */
+  clientLevel?: McpLogLevel;
 }
 
+/**
+ * MCP logging levels (RFC 5424 severities, as used by logging/setLevel)
+ */
+export type McpLogLevel =
+  | 'debug'
+  | 'info'
+  | 'notice'
+  | 'warning'
+  | 'error'
+  | 'critical'
+  | 'alert'
+  | 'emergency';
+
 /**
  * Audit logging configuration
  */
@@ -46,8 +89,43 @@ export type { AuditConfig };
 /**
  * Rate limiting configuration
  */
-import type { RateLimitConfig } from '../types/RateLimitTypes.ts';
-export type { RateLimitConfig };
+import type { HttpRateLimitConfig, RateLimitConfig } from '../types/RateLimitTypes.ts';
+export type { HttpRateLimitConfig, RateLimitConfig };
+
+/**
+ * Prometheus/OpenMetrics scrape endpoint configuration
+ */
+export interface MetricsEndpointConfig {
+  /** Serve the scrape endpoint */
+  enabled: boolean;
+  /** Endpoint path (default: /metrics) */
+  path: string;
+  /** Bearer token scrapers must send (optional) */
+  bearerToken?: string;
+}
+
+/**
+ * Span exporter used when tracing is enabled
+ */
+export type TracingExporterType = 'otlp' | 'console' | 'file';
+
+/**
+ * OpenTelemetry tracing configuration
+ */
+export interface TracingConfig {
+  /** Record and export spans */
+  enabled: boolean;
+  /** service.name resource attribute (default: server name) */
+  serviceName: string;
+  /** Where spans are exported */
+  exporter: TracingExporterType;
+  /** OTLP/HTTP traces endpoint (default: http://localhost:4318/v1/traces) */
+  otlpEndpoint: string;
+  /** Extra OTLP request headers */
+  otlpHeaders?: Record<string, string>;
+  /** Output file for the file exporter (default: ./logs/traces.jsonl) */
+  filePath: string;
+}
 
 /**
  * Rate limiting configuration
@@ -185,6 +263,8 @@ export interface AppConfig {
   audit: AuditConfig;
   pluginManager: PluginManagerConfig;
   rateLimit: RateLimitConfig;
+  metrics: MetricsEndpointConfig;
+  tracing: TracingConfig;
   oauthProvider?: OAuthProviderConfig;
   oauthConsumer?: OAuthConsumerConfig;
   workflows?: WorkflowConfig;
@@ -225,6 +305,45 @@ export interface ConfigLoaderOptions {
   envFile?: string;
   envPrefix?: string;
   validateRequired?: boolean;
+  /** Keep unknown config file keys instead of reporting them as errors */
   allowUnknownKeys?: boolean;
   customMapping?: EnvironmentMapping;
+  /** Config file (.json, .jsonc, .yaml, .yml or .toml); defaults to the CONFIG_FILE environment variable */
+  configFile?: string;
+  /** Values applied on top of the defaults, the config file and environment variables */
+  overrides?: AppConfigFile;
 }
+
+/**
+ * Layer a configuration value was taken from, lowest precedence first
+ */
+export type ConfigSource = 'default' | 'file' | 'env' | 'override';
+
+/**
+ * A value that differs between the running and the reloaded configuration
+ */
+export interface ConfigChange {
+  /** Dotted path, e.g. `logging.level` */
+  path: string;
+  /** Value before the reload (undefined when added; secrets redacted) */
+  previous: unknown;
+  /** Value after the reload (undefined when removed; secrets redacted) */
+  current: unknown;
+}
+
+type DeepPartial<T> = T extends unknown[] ? T
+  : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> | undefined }
+  : T;
+
+/**
+ * Contents of a config file, also accepted as programmatic overrides
+ * Every key is optional; see AppConfigFileSchema for the keys a file may use
+ */
+export type AppConfigFile = DeepPartial<
+  AppConfig & {
+    environment: string;
+    mcpServerInstructionsConfig: McpServerInstructionsConfig;
+    transportEventStore: TransportEventStoreChunkedConfig;
+    thirdpartyApiClient: ThirdPartyApiConfig;
+  }
+>;
@@ -4,14 +4,29 @@
  * Basic plugin discovery and management system for future extensibility
  */
 
-import { isAbsolute, resolve } from '@std/path';
+import { basename, fromFileUrl, isAbsolute, resolve } from '@std/path';
 import type { Logger } from '../utils/Logger.ts';
-import type { AppPlugin, LoadedPlugin, PluginDiscoveryOptions } from '../types/PluginTypes.ts';
+import type {
+  AppPlugin,
+  LoadedPlugin,
+  PluginChangeEvent,
+  PluginDiscoveryOptions,
+} from '../types/PluginTypes.ts';
 import type { AppServerDependencies } from '../types/AppServerTypes.ts';
 import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { ResourceRegistry } from '../resources/ResourceRegistry.ts';
+import type { PromptRegistry } from '../prompts/PromptRegistry.ts';
 import type { ToolRegistration } from '../types/BeyondMcpTypes.ts';
+import type { ResourceRegistration } from '../types/ResourceTypes.ts';
+import type { PromptRegistration } from '../types/PromptTypes.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import type { WorkflowBase } from '../workflows/WorkflowBase.ts';
+import { toError } from '../utils/Error.ts';
+
+/**
+ * Listener for plugins loaded, reloaded or unloaded by file watching
+ */
+export type PluginChangeListener = (event: PluginChangeEvent) => void | Promise<void>;
 
 /**
  * Manager for plugin discovery, loading, and lifecycle management
@@ -19,11 +34,21 @@ import type { WorkflowBase } from '../workflows/WorkflowBase.ts';
 export class PluginManager {
   private toolRegistry: ToolRegistry;
   private workflowRegistry: WorkflowRegistry;
+  private resourceRegistry: ResourceRegistry | undefined;
+  private promptRegistry: PromptRegistry | undefined;
   private logger: Logger | undefined;
   private discoveryOptions: PluginDiscoveryOptions;
-  // private watchedPaths: string[] = [];
   private dependencies: AppServerDependencies;
   private plugins = new Map<string, LoadedPlugin>();
+  // Source file of each plugin loaded from disk (plugin name -> absolute path)
+  private pluginPaths = new Map<string, string>();
+
+  // File watching state
+  private watcher: Deno.FsWatcher | undefined;
+  private watchLoop: Promise<void> | undefined;
+  private reloadTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  private reloadQueue: Promise<void> = Promise.resolve();
+  private changeListeners: PluginChangeListener[] = [];
 
   constructor(
     toolRegistry: ToolRegistry,
@@ -33,12 +58,15 @@ export class PluginManager {
   ) {
     this.toolRegistry = toolRegistry;
     this.workflowRegistry = workflowRegistry;
+    this.resourceRegistry = dependencies.resourceRegistry;
+    this.promptRegistry = dependencies.promptRegistry;
     this.logger = dependencies.logger;
     this.dependencies = dependencies;
     this.discoveryOptions = {
       paths: ['./plugins'],
       autoload: false,
       watchForChanges: false,
+      watchDebounceMs: 300,
       ...options,
     };
   }
@@ -47,13 +75,24 @@ export class PluginManager {
    * Dynamically Load a plugin from a file path
    */
   async loadDynamicPlugin(pluginPath: string): Promise<AppPlugin> {
+    const plugin = await this.importPlugin(pluginPath);
+    await this.activatePlugin(plugin, pluginPath);
+    return plugin;
+  }
+
+  /**
+   * Import a plugin module and resolve the plugin from its exports
+   * With `reload`, a cache-busting query makes Deno evaluate the file again
+   */
+  private async importPlugin(pluginPath: string, reload = false): Promise<AppPlugin> {
     // Ensure we have an absolute path for reliable import
     const absolutePath = isAbsolute(pluginPath) || pluginPath.startsWith('file://')
       ? pluginPath
       : resolve(Deno.cwd(), pluginPath);
 
     // Convert to file:// URL for Deno import
-    const importUrl = absolutePath.startsWith('file://') ? absolutePath : `file://${absolutePath}`;
+    const fileUrl = absolutePath.startsWith('file://') ? absolutePath : `file://${absolutePath}`;
+    const importUrl = reload ? `${fileUrl}?reload=${Date.now()}` : fileUrl;
 
     this.logger?.info('PluginManager: Loading plugin', {
       originalPath: pluginPath,
@@ -122,8 +161,6 @@ export class PluginManager {
         );
       }
 
-      await this.preparePlugin(plugin);
-
       return plugin;
     } catch (error) {
       const errorMessage = `Failed to load plugin from ${pluginPath}: ${
@@ -141,6 +178,14 @@ export class PluginManager {
     }
   }
 
+  /**
+   * Prepare a plugin loaded from disk and remember where it came from
+   */
+  private async activatePlugin(plugin: AppPlugin, pluginPath: string): Promise<void> {
+    await this.preparePlugin(plugin);
+    this.pluginPaths.set(plugin.name, this.toFilePath(pluginPath));
+  }
+
   /**
    * Prepare a plugin
    */
@@ -220,6 +265,8 @@ export class PluginManager {
       const pluginItems = {
         workflows: [] as string[],
         tools: [] as string[],
+        resources: [] as string[],
+        prompts: [] as string[],
       };
 
       // Register existing workflows
@@ -235,6 +282,41 @@ export class PluginManager {
         pluginItems.tools.push(tool.name);
       }
 
+      // Register resources (optional - plugins may ship resources next to tools/workflows)
+      if (plugin.resources && plugin.resources.length > 0) {
+        if (!this.resourceRegistry) {
+          throw new Error(
+            `Plugin ${plugin.name} provides resources but no ResourceRegistry is available`,
+          );
+        }
+        for (const resource of plugin.resources) {
+          this.resourceRegistry.registerResource(
+            resource.name,
+            resource.definition,
+            resource.handler,
+          );
+          pluginItems.resources.push(resource.name);
+        }
+      }
+
+      // Register prompts (optional - reusable prompt templates shipped with the plugin)
+      if (plugin.prompts && plugin.prompts.length > 0) {
+        if (!this.promptRegistry) {
+          throw new Error(
+            `Plugin ${plugin.name} provides prompts but no PromptRegistry is available`,
+          );
+        }
+        for (const prompt of plugin.prompts) {
+          this.promptRegistry.registerPrompt(
+            prompt.name,
+            prompt.definition,
+            prompt.handler,
+            prompt.options,
+          );
+          pluginItems.prompts.push(prompt.name);
+        }
+      }
+
       // Store loaded plugin with item tracking
       this.plugins.set(plugin.name, {
         plugin,
@@ -248,6 +330,8 @@ export class PluginManager {
         version: plugin.version,
         workflows: pluginItems.workflows.length,
         tools: pluginItems.tools.length,
+        resources: pluginItems.resources.length,
+        prompts: pluginItems.prompts.length,
         author: plugin.author,
       });
     } catch (error) {
@@ -293,13 +377,30 @@ export class PluginManager {
         }
       }
 
+      // Unregister resources that came from this plugin
+      if (loadedPlugin.registeredItems?.resources) {
+        for (const resourceName of loadedPlugin.registeredItems.resources) {
+          this.resourceRegistry?.removeResource(resourceName);
+        }
+      }
+
+      // Unregister prompts that came from this plugin
+      if (loadedPlugin.registeredItems?.prompts) {
+        for (const promptName of loadedPlugin.registeredItems.prompts) {
+          this.promptRegistry?.removePrompt(promptName);
+        }
+      }
+
       // Remove plugin
       this.plugins.delete(pluginName);
+      this.pluginPaths.delete(pluginName);
 
       this.logger?.info('PluginManager: Unloaded plugin', {
         plugin: pluginName,
         workflows: loadedPlugin.registeredItems?.workflows?.length || 0,
         tools: loadedPlugin.registeredItems?.tools?.length || 0,
+        resources: loadedPlugin.registeredItems?.resources?.length || 0,
+        prompts: loadedPlugin.registeredItems?.prompts?.length || 0,
       });
 
       return true;
@@ -340,11 +441,26 @@ export class PluginManager {
       return errors;
     }
 
+    if (plugin.resources !== undefined && !Array.isArray(plugin.resources)) {
+      errors.push('Plugin resources must be an array');
+      return errors;
+    }
+
+    if (plugin.prompts !== undefined && !Array.isArray(plugin.prompts)) {
+      errors.push('Plugin prompts must be an array');
+      return errors;
+    }
+
     // Allow empty workflows if plugin has initialize method (dependency injection pattern)
     const hasInitializeMethod = typeof plugin.initialize === 'function';
-    if (plugin.tools.length === 0 && plugin.workflows.length === 0 && !hasInitializeMethod) {
+    const resourceCount = plugin.resources?.length || 0;
+    const promptCount = plugin.prompts?.length || 0;
+    if (
+      plugin.tools.length === 0 && plugin.workflows.length === 0 && resourceCount === 0 &&
+      promptCount === 0 && !hasInitializeMethod
+    ) {
       errors.push(
-        'Plugin must provide at least one tool/workflow or an initialize method for dependency injection',
+        'Plugin must provide at least one tool/workflow/resource/prompt or an initialize method for dependency injection',
       );
     }
 
@@ -564,30 +680,72 @@ export class PluginManager {
 
   /**
    * Reload a plugin (unload and load again)
+   * The new version is imported before the old one is unloaded, so a file that
+   * fails to import leaves the running plugin in place
    */
   async reloadDynamicPlugin(name: string, path?: string): Promise<AppPlugin> {
     this.logger?.info('PluginManager: Reloading plugin', { plugin: name });
 
-    // Find existing plugin if path not provided
-    if (!path) {
-      const existing = this.getPlugin(name);
-      if (!existing) {
+    // Fall back to the path the plugin was loaded from
+    const pluginPath = path ?? this.pluginPaths.get(name);
+    if (!pluginPath) {
+      if (!this.getPlugin(name)) {
         throw new Error(`Plugin ${name} not found for reload`);
       }
-      // Note: We can't determine the original path from the loaded plugin
-      // This is a limitation of the basic implementation
+      // Static plugins are registered directly and have no source file
       throw new Error('Plugin reload requires the original path parameter');
     }
 
+    const plugin = await this.importPlugin(pluginPath, true);
+
     // Unload existing plugin
     await this.unloadDynamicPlugin(name);
 
-    // Load plugin again
-    return await this.loadDynamicPlugin(path);
+    // Register the new version
+    await this.activatePlugin(plugin, pluginPath);
+    return plugin;
+  }
+
+  /**
+   * Get the source file a plugin was loaded from (undefined for static plugins)
+   */
+  getPluginPath(name: string): string | undefined {
+    return this.pluginPaths.get(name);
+  }
+
+  /**
+   * Subscribe to plugins loaded, reloaded or unloaded by file watching ('plugin:changed')
+   */
+  on(event: 'plugin:changed', listener: PluginChangeListener): void {
+    if (event === 'plugin:changed') {
+      this.changeListeners.push(listener);
+    }
+  }
+
+  /**
+   * Remove a plugin change listener
+   */
+  off(event: 'plugin:changed', listener: PluginChangeListener): void {
+    if (event === 'plugin:changed') {
+      this.changeListeners = this.changeListeners.filter((l) => l !== listener);
+    }
+  }
+
+  /**
+   * Whether plugin files are currently being watched
+   */
+  isWatching(): boolean {
+    return this.watcher !== undefined;
   }
 
   /**
-   * Enable file watching for plugin changes (future feature)
+   * Watch the discovery paths and hot-reload plugins when their files change
+   *
+   * Changes are debounced per file (watchDebounceMs) and applied one at a time.
+   * Edited plugin files are reloaded, new ones loaded and deleted ones unloaded;
+   * their tools, workflows, resources and prompts are unregistered and registered
+   * again, and the SDK sends list_changed notifications to connected clients.
+   * Only plugin entry files are watched: modules they import stay cached by Deno.
    */
   async startWatching(): Promise<void> {
     if (!this.discoveryOptions.watchForChanges) {
@@ -595,21 +753,177 @@ export class PluginManager {
       return;
     }
 
+    if (this.watcher) {
+      this.logger?.debug('PluginManager: Plugin watching already started');
+      return;
+    }
+
+    // Deno.watchFs fails if any path is missing, so only watch existing directories
+    const watchPaths: string[] = [];
+    for (const path of this.discoveryOptions.paths) {
+      const absolutePath = isAbsolute(path) ? path : resolve(Deno.cwd(), path);
+      try {
+        if ((await Deno.stat(absolutePath)).isDirectory) {
+          watchPaths.push(absolutePath);
+        }
+      } catch (error) {
+        if (!(error instanceof Deno.errors.NotFound)) {
+          throw error;
+        }
+      }
+    }
+
+    if (watchPaths.length === 0) {
+      this.logger?.warn('PluginManager: No plugin directories found to watch', {
+        paths: this.discoveryOptions.paths,
+      });
+      return;
+    }
+
     this.logger?.info('PluginManager: Starting plugin file watching', {
-      paths: this.discoveryOptions.paths,
+      paths: watchPaths,
+      debounceMs: this.discoveryOptions.watchDebounceMs,
     });
 
-    // TODO: Implement file watching using Deno's file system watcher
-    // This would watch for changes in plugin files and auto-reload them
-    this.logger?.warn('PluginManager: Plugin file watching not implemented yet');
+    this.watcher = Deno.watchFs(watchPaths, { recursive: true });
+    this.watchLoop = this.processWatchEvents(this.watcher);
   }
 
   /**
    * Stop file watching
+   * Pending (debounced) reloads are dropped; a reload already running is awaited
    */
   async stopWatching(): Promise<void> {
+    const watcher = this.watcher;
+    if (!watcher) {
+      return;
+    }
+
     this.logger?.info('PluginManager: Stopping plugin file watching');
-    // TODO: Implement cleanup of file watchers
+    this.watcher = undefined;
+
+    for (const timer of this.reloadTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.reloadTimers.clear();
+
+    try {
+      watcher.close();
+    } catch {
+      // Already closed
+    }
+
+    await this.watchLoop;
+    await this.reloadQueue;
+    this.watchLoop = undefined;
+  }
+
+  /**
+   * Schedule reloads for plugin files touched by file system events
+   */
+  private async processWatchEvents(watcher: Deno.FsWatcher): Promise<void> {
+    try {
+      for await (const event of watcher) {
+        if (event.kind === 'access') continue;
+
+        for (const path of event.paths) {
+          const filename = basename(path);
+          if (this.isPluginFile(filename) && this.shouldLoadPlugin(filename)) {
+            this.scheduleReload(path);
+          }
+        }
+      }
+    } catch (error) {
+      // Errors after stopWatching() come from closing the watcher
+      if (this.watcher === watcher) {
+        this.logger?.error('PluginManager: Plugin file watcher failed', toError(error));
+      }
+    }
+  }
+
+  /**
+   * Debounce changes to a file - editors often write several events per save
+   */
+  private scheduleReload(filePath: string): void {
+    const pending = this.reloadTimers.get(filePath);
+    if (pending !== undefined) {
+      clearTimeout(pending);
+    }
+
+    this.reloadTimers.set(
+      filePath,
+      setTimeout(() => {
+        this.reloadTimers.delete(filePath);
+        // Serialize reloads so registrations never interleave
+        this.reloadQueue = this.reloadQueue.then(() => this.handlePluginFileChange(filePath));
+      }, this.discoveryOptions.watchDebounceMs ?? 300),
+    );
+  }
+
+  /**
+   * Load, reload or unload the plugin for a changed file
+   */
+  private async handlePluginFileChange(filePath: string): Promise<void> {
+    const existingName = Array.from(this.pluginPaths.entries())
+      .find(([, path]) => path === filePath)?.[0];
+
+    let exists = true;
+    try {
+      await Deno.stat(filePath);
+    } catch {
+      exists = false;
+    }
+
+    try {
+      let event: PluginChangeEvent;
+
+      if (!exists) {
+        if (!existingName) return;
+        await this.unloadDynamicPlugin(existingName);
+        event = { action: 'unloaded', plugin: existingName, path: filePath };
+      } else if (existingName) {
+        const plugin = await this.reloadDynamicPlugin(existingName, filePath);
+        event = { action: 'reloaded', plugin: plugin.name, path: filePath };
+      } else {
+        // New file (or one that failed before) - it may already be in the module cache
+        const plugin = await this.importPlugin(filePath, true);
+        await this.activatePlugin(plugin, filePath);
+        event = { action: 'loaded', plugin: plugin.name, path: filePath };
+      }
+
+      this.logger?.info('PluginManager: Applied plugin file change', { ...event });
+      await this.emitPluginChange(event);
+    } catch (error) {
+      this.logger?.error('PluginManager: Failed to apply plugin file change', toError(error), {
+        path: filePath,
+        plugin: existingName,
+      });
+    }
+  }
+
+  /**
+   * Notify plugin change listeners
+   */
+  private async emitPluginChange(event: PluginChangeEvent): Promise<void> {
+    for (const listener of this.changeListeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        this.logger?.error('PluginManager: Plugin change listener failed', toError(error), {
+          plugin: event.plugin,
+        });
+      }
+    }
+  }
+
+  /**
+   * Normalize a plugin path (relative, absolute or file:// URL) to an absolute file path
+   */
+  private toFilePath(pluginPath: string): string {
+    if (pluginPath.startsWith('file://')) {
+      return fromFileUrl(pluginPath);
+    }
+    return isAbsolute(pluginPath) ? pluginPath : resolve(Deno.cwd(), pluginPath);
   }
 
   /**
@@ -654,6 +968,8 @@ export class PluginManager {
       license?: string;
       tags?: string[];
       dependencies?: string[];
+      resources?: ResourceRegistration[];
+      prompts?: PromptRegistration[];
     } = {},
   ): AppPlugin {
     const plugin: AppPlugin = {
@@ -668,6 +984,8 @@ export class PluginManager {
     if (options.license) plugin.license = options.license;
     if (options.tags) plugin.tags = options.tags;
     if (options.dependencies) plugin.dependencies = options.dependencies;
+    if (options.resources) plugin.resources = options.resources;
+    if (options.prompts) plugin.prompts = options.prompts;
 
     return plugin;
   }
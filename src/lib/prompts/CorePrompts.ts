@@ -0,0 +1,148 @@
+/**
+ * Core MCP Prompts - Generic prompts for any MCP server
+ *
+ * Provides default prompt templates that double as usage examples:
+ * - Template-only prompt with argument completion (summarize)
+ * - Handler-based multi-message prompt built from server state (tool_usage)
+ */
+
+import { ErrorCode, type GetPromptResult, McpError } from 'mcp/types.js';
+import { z, type ZodSchema } from 'zod';
+
+// Import library components
+import type { Logger } from '../utils/Logger.ts';
+
+// Import types
+import type { PromptRegistry } from './PromptRegistry.ts';
+import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { CorePromptsDependencies } from '../types/PromptTypes.ts';
+import { ToolHandlerMode } from '../types/BeyondMcpTypes.ts';
+
+const SUMMARY_STYLES = ['brief', 'detailed', 'bullet_points'] as const;
+
+/**
+ * Core MCP prompts that every server can offer
+ */
+export class CorePrompts {
+  private logger: Logger;
+  private toolRegistry: ToolRegistry;
+
+  constructor(dependencies: CorePromptsDependencies) {
+    this.logger = dependencies.logger;
+    this.toolRegistry = dependencies.toolRegistry;
+  }
+
+  /**
+   * Register all core prompts with the prompt registry
+   */
+  registerWith(promptRegistry: PromptRegistry): void {
+    this.logger.debug('CorePrompts: Registering core prompts...');
+
+    this.registerSummarizePrompt(promptRegistry);
+    this.registerToolUsagePrompt(promptRegistry);
+
+    this.logger.debug('CorePrompts: All core prompts registered');
+  }
+
+  /**
+   * Register summarize prompt - message templates only, no handler
+   */
+  private registerSummarizePrompt(registry: PromptRegistry): void {
+    registry.registerPrompt(
+      'summarize',
+      {
+        title: 'Summarize',
+        description: 'Summarize the provided text in the requested style',
+        category: 'core',
+        tags: ['writing', 'core'],
+        argsSchema: {
+          text: z.string().describe('Text to summarize'),
+          style: z.enum(SUMMARY_STYLES).default('brief').describe('Summary style'),
+        },
+        messages: [
+          {
+            role: 'user',
+            text: 'Summarize the following text. Use a {{style}} style.\n\n{{text}}',
+          },
+        ],
+        complete: {
+          style: (value) => SUMMARY_STYLES.filter((style) => style.startsWith(value)),
+        },
+      },
+      undefined,
+      { handlerMode: ToolHandlerMode.MANAGED },
+    );
+  }
+
+  /**
+   * Register tool usage prompt - multi-message prompt generated from the tool registry
+   */
+  private registerToolUsagePrompt(registry: PromptRegistry): void {
+    registry.registerPrompt(
+      'tool_usage',
+      {
+        title: 'Tool Usage',
+        description: 'Explain how to call one of the tools registered on this server',
+        category: 'core',
+        tags: ['help', 'core'],
+        argsSchema: {
+          toolName: z.string().describe('Name of the tool to explain'),
+        },
+        complete: {
+          toolName: (value) =>
+            this.toolRegistry.getToolNames().filter((name) => name.startsWith(value)),
+        },
+      },
+      (args) => this.handleToolUsage(args),
+      { handlerMode: ToolHandlerMode.MANAGED },
+    );
+  }
+
+  /**
+   * Handle tool usage prompt generation
+   */
+  private handleToolUsage(args: { toolName: string }): Promise<GetPromptResult> {
+    const { toolName } = args;
+
+    const definition = this.toolRegistry.getToolDefinition(toolName);
+    if (!definition) {
+      return Promise.reject(new McpError(ErrorCode.InvalidParams, `Unknown tool: ${toolName}`));
+    }
+
+    const inputSchema: Record<string, ZodSchema> = definition.inputSchema || {};
+    const parameters = Object.entries(inputSchema)
+      .map(([name, schema]) => `- ${name}${schema.description ? `: ${schema.description}` : ''}`)
+      .join('\n');
+
+    this.logger.debug('CorePrompts: Tool usage prompt generated', { toolName });
+
+    return Promise.resolve({
+      description: `How to use the ${toolName} tool`,
+      messages: [
+        {
+          role: 'user',
+          content: {
+            type: 'text' as const,
+            text: `How do I use the "${toolName}" tool?`,
+          },
+        },
+        {
+          role: 'assistant',
+          content: {
+            type: 'text' as const,
+            text: `${definition.title}: ${definition.description}\n\nParameters:\n${
+              parameters || '- (none)'
+            }`,
+          },
+        },
+        {
+          role: 'user',
+          content: {
+            type: 'text' as const,
+            text: `Show an example call to "${toolName}" with realistic arguments.`,
+          },
+        },
+      ],
+    });
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Prompt Registry with Zod validation
+ *
+ * Manages MCP prompt templates alongside ToolRegistry with:
+ * - Zod argument schemas (validated before the handler runs)
+ * - Multi-message templates rendered from `{{argName}}` placeholders
+ * - Argument completion via completion/complete
+ * - The same MANAGED/NATIVE handler modes as ToolRegistry
+ */
+
+import type { McpServer as SdkMcpServer, PromptCallback } from 'mcp/server/mcp.js';
+import { completable } from 'mcp/server/completable.js';
+import type { ZodRawShapeCompat } from 'mcp/server/zod-compat.js';
+import type { RequestHandlerExtra } from 'mcp/shared/protocol.js';
+import {
+  ErrorCode,
+  type GetPromptResult,
+  McpError,
+  type ServerNotification,
+  type ServerRequest,
+} from 'mcp/types.js';
+import { z, type ZodSchema } from 'zod';
+
+// Import library components
+import type { Logger } from '../utils/Logger.ts';
+import { ErrorHandler } from '../utils/ErrorHandler.ts';
+import { toError } from '../utils/Error.ts';
+
+// Import types
+import {
+  type InferZodSchema,
+  type ToolCallExtra,
+  ToolHandlerMode,
+  type ValidationResult,
+} from '../types/BeyondMcpTypes.ts';
+import type {
+  PromptCompleteCallback,
+  PromptDefinition,
+  PromptHandler,
+  PromptMessageTemplate,
+  PromptRegistrationOptions,
+  PromptRegistryDependencies,
+  RegisteredPrompt,
+} from '../types/PromptTypes.ts';
+
+const TEMPLATE_PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+type SdkRequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/**
+ * Prompt registry with Zod validation for prompt arguments
+ */
+export class PromptRegistry {
+  private static instance: PromptRegistry | undefined;
+
+  private prompts = new Map<string, RegisteredPrompt>();
+  private sdkRegistrations = new Map<string, { remove(): void }>();
+
+  private _sdkMcpServer: SdkMcpServer | undefined;
+  private logger: Logger;
+
+  constructor(dependencies: PromptRegistryDependencies) {
+    if (dependencies.sdkMcpServer) this._sdkMcpServer = dependencies.sdkMcpServer;
+    this.logger = dependencies.logger;
+  }
+
+  /**
+   * Get singleton instance of PromptRegistry
+   */
+  static getInstance(dependencies: PromptRegistryDependencies): PromptRegistry {
+    if (!PromptRegistry.instance) {
+      PromptRegistry.instance = new PromptRegistry(dependencies);
+    }
+    return PromptRegistry.instance;
+  }
+
+  /**
+   * Clear singleton instance (primarily for testing)
+   */
+  static resetInstance(): void {
+    PromptRegistry.instance = undefined;
+  }
+
+  get sdkMcpServer(): SdkMcpServer | undefined {
+    return this._sdkMcpServer;
+  }
+  set sdkMcpServer(sdkMcpServer: SdkMcpServer) {
+    this._sdkMcpServer = sdkMcpServer;
+  }
+
+  /**
+   * Register a prompt with Zod-validated arguments
+   *
+   * The handler may be omitted when the definition provides `messages` templates.
+   */
+  registerPrompt<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: PromptDefinition<T>,
+    handler?: PromptHandler<T>,
+    options?: PromptRegistrationOptions,
+  ): void {
+    const handlerMode = options?.handlerMode || ToolHandlerMode.MANAGED;
+
+    this.logger.debug('PromptRegistry: Registering prompt', {
+      name,
+      title: definition.title,
+      category: definition.category,
+      handlerMode,
+    });
+
+    if (!this._sdkMcpServer) {
+      throw ErrorHandler.wrapError(
+        'SDK MCP server has not been set - create and initialize a new BeyondMcpServer first to set sdkMcpServer in PromptRegistry',
+        'PROMPT_REGISTRATION_FAILED',
+        {
+          promptName: name,
+        },
+      );
+    }
+
+    try {
+      const validationErrors = this.validatePromptRegistration(name, definition, handler);
+      if (validationErrors.length > 0) {
+        const errorMessage = `Prompt registration has errors:\n${validationErrors.join('\n')}`;
+        this.logger.error(
+          'PromptRegistry: Prompt registration validation failed',
+          toError(errorMessage),
+          {
+            promptName: name,
+            errors: validationErrors,
+          },
+        );
+        throw new Error(errorMessage);
+      }
+
+      const argsSchema = definition.argsSchema || ({} as T);
+      const validator = z.object(argsSchema);
+      const promptHandler: PromptHandler<T> = handler ||
+        ((args) => Promise.resolve(this.renderMessages(definition, args)));
+
+      const hasArgs = Object.keys(argsSchema).length > 0;
+      const sdkConfig = {
+        title: definition.title,
+        description: definition.description,
+        ...(hasArgs ? { argsSchema: this.withCompletions(argsSchema, definition.complete) } : {}),
+      };
+
+      const invoke = handlerMode === ToolHandlerMode.NATIVE
+        // NATIVE MODE: Direct call - prompt handles own validation/errors
+        ? (args: Record<string, unknown>, extra: SdkRequestExtra) =>
+          promptHandler(args as InferZodSchema<T>, toPromptExtra(extra))
+        // MANAGED MODE: Validation, statistics and error wrapping (default)
+        : (args: Record<string, unknown>, extra: SdkRequestExtra) =>
+          this.getPrompt(name, args, extra);
+
+      // registerPrompt always types the callback with an args parameter, but the SDK
+      // calls prompts registered without an argsSchema with the request extra only
+      const sdkCallback: PromptCallback<ZodRawShapeCompat> = (
+        ...params: [SdkRequestExtra] | [Record<string, unknown>, SdkRequestExtra]
+      ) => params.length === 1 ? invoke({}, params[0]) : invoke(params[0], params[1]);
+
+      const sdkRegistration = this._sdkMcpServer.registerPrompt<ZodRawShapeCompat>(
+        name,
+        sdkConfig,
+        sdkCallback,
+      );
+      this.sdkRegistrations.set(name, sdkRegistration);
+
+      const registeredPrompt: RegisteredPrompt = {
+        name,
+        definition,
+        handler: promptHandler,
+        validator,
+        handlerMode,
+        registeredAt: new Date(),
+        getCount: 0,
+      };
+
+      this.prompts.set(name, registeredPrompt);
+
+      this.logger.debug(`PromptRegistry: Prompt registered successfully: ${name}`, {
+        title: definition.title,
+        category: definition.category,
+        arguments: Object.keys(argsSchema),
+      });
+    } catch (error) {
+      this.logger.error(`PromptRegistry: Failed to register prompt: ${name}`, toError(error));
+      throw ErrorHandler.wrapError(error, 'PROMPT_REGISTRATION_FAILED', {
+        promptName: name,
+      });
+    }
+  }
+
+  /**
+   * Get a prompt through the managed wrapper (validation, statistics, error mapping)
+   */
+  async getPrompt(
+    name: string,
+    args: unknown,
+    extra?: SdkRequestExtra,
+  ): Promise<GetPromptResult> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt '${name}' not found`);
+    }
+
+    const validation = await this.validatePromptArgs(name, args ?? {});
+    if (!validation.success) {
+      this.logger.warn('PromptRegistry: Prompt argument validation failed', {
+        promptName: name,
+        error: validation.error?.message,
+        args,
+      });
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Validation error: ${validation.error?.message || 'Unknown validation error'}`,
+      );
+    }
+
+    try {
+      const result = await prompt.handler(validation.data ?? {}, toPromptExtra(extra));
+
+      prompt.getCount = (prompt.getCount || 0) + 1;
+      prompt.lastUsed = new Date();
+
+      return result;
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      this.logger.error(`PromptRegistry: Prompt execution failed: ${name}`, toError(error));
+      const wrappedError = ErrorHandler.wrapError(error, 'PROMPT_EXECUTION_FAILED', {
+        promptName: name,
+        args,
+      });
+      throw new McpError(
+        ErrorCode.InternalError,
+        `Prompt execution error: ${wrappedError.message}`,
+      );
+    }
+  }
+
+  /**
+   * Validate prompt arguments with detailed error reporting
+   */
+  async validatePromptArgs(
+    name: string,
+    args: unknown,
+  ): Promise<ValidationResult<Record<string, unknown>>> {
+    const prompt = this.prompts.get(name);
+    if (!prompt) {
+      return {
+        success: false,
+        error: new Error(`Prompt '${name}' not found`),
+      };
+    }
+
+    try {
+      const data = await prompt.validator.parseAsync(args);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map((err) => {
+          const path = err.path.join('.');
+          return `${path ? path + ': ' : ''}${err.message}`;
+        }).join(', ');
+
+        return {
+          success: false,
+          error: new Error(`Validation failed: ${errorDetails}`),
+        };
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown validation error'),
+      };
+    }
+  }
+
+  /**
+   * Render `{{argName}}` placeholders in a template string
+   * Missing or undefined arguments render as an empty string
+   */
+  static renderTemplate(template: string, args: Record<string, unknown>): string {
+    return template.replace(TEMPLATE_PLACEHOLDER, (_match, argName: string) => {
+      const value = args[argName];
+      return value === undefined || value === null ? '' : String(value);
+    });
+  }
+
+  /**
+   * Get registered prompt information
+   */
+  getPromptInfo(name: string): RegisteredPrompt | undefined {
+    return this.prompts.get(name);
+  }
+
+  /**
+   * Get all registered prompts
+   */
+  getPrompts(): RegisteredPrompt[] {
+    return Array.from(this.prompts.values());
+  }
+
+  /**
+   * Get prompt names
+   */
+  getPromptNames(): string[] {
+    return Array.from(this.prompts.keys());
+  }
+
+  /**
+   * Get prompt count
+   */
+  getPromptCount(): number {
+    return this.prompts.size;
+  }
+
+  /**
+   * Get prompts by category
+   */
+  getPromptsByCategory(category: string): RegisteredPrompt[] {
+    return this.getPrompts().filter((prompt) => prompt.definition.category === category);
+  }
+
+  /**
+   * Get prompt definition for inspection
+   */
+  getPromptDefinition(name: string): PromptDefinition<Record<string, ZodSchema>> | undefined {
+    return this.prompts.get(name)?.definition;
+  }
+
+  /**
+   * Clear all registered prompts (for testing)
+   */
+  clear(): void {
+    this.prompts.clear();
+    this.sdkRegistrations.clear();
+    this.logger.debug('PromptRegistry: All prompts cleared');
+  }
+
+  /**
+   * Remove a specific prompt
+   */
+  removePrompt(name: string): boolean {
+    if (!this.prompts.has(name)) return false;
+
+    this.sdkRegistrations.get(name)?.remove();
+    this.sdkRegistrations.delete(name);
+    this.prompts.delete(name);
+
+    this.logger.debug(`PromptRegistry: Prompt removed: ${name}`);
+    return true;
+  }
+
+  /**
+   * Render the definition's message templates into a GetPromptResult
+   */
+  private renderMessages<T extends Record<string, ZodSchema>>(
+    definition: PromptDefinition<T>,
+    args: Record<string, unknown>,
+  ): GetPromptResult {
+    return {
+      description: definition.description,
+      messages: (definition.messages || []).map((message: PromptMessageTemplate) => ({
+        role: message.role,
+        content: {
+          type: 'text' as const,
+          text: PromptRegistry.renderTemplate(message.text, args),
+        },
+      })),
+    };
+  }
+
+  /**
+   * Wrap argument schemas that have completion callbacks so the SDK can serve completion/complete
+   */
+  private withCompletions<T extends Record<string, ZodSchema>>(
+    argsSchema: T,
+    complete?: Record<string, PromptCompleteCallback>,
+  ): T {
+    if (!complete) return argsSchema;
+
+    const shape: Record<string, ZodSchema> = { ...argsSchema };
+    for (const [argName, callback] of Object.entries(complete)) {
+      const schema = shape[argName];
+      if (schema) {
+        shape[argName] = completable(schema, callback);
+      }
+    }
+    return shape as T;
+  }
+
+  /**
+   * Validate prompt registration (definition and handler)
+   */
+  private validatePromptRegistration<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: PromptDefinition<T>,
+    handler?: PromptHandler<T>,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (!name || typeof name !== 'string') {
+      errors.push('Prompt name is required and must be a string');
+    }
+
+    if (!definition) {
+      errors.push('Prompt definition is required');
+      return errors;
+    }
+
+    if (!definition.title || typeof definition.title !== 'string') {
+      errors.push('Prompt title is required and must be a string');
+    }
+
+    if (!definition.description || typeof definition.description !== 'string') {
+      errors.push('Prompt description is required and must be a string');
+    }
+
+    if (definition.argsSchema && typeof definition.argsSchema !== 'object') {
+      errors.push('Prompt argsSchema must be an object');
+    }
+
+    if (handler !== undefined && typeof handler !== 'function') {
+      errors.push('Prompt handler must be a function');
+    }
+
+    if (!handler && (!definition.messages || definition.messages.length === 0)) {
+      errors.push('Prompt requires either a handler or at least one message template');
+    }
+
+    for (const argName of Object.keys(definition.complete || {})) {
+      if (!definition.argsSchema || !(argName in definition.argsSchema)) {
+        errors.push(`Prompt completion defined for unknown argument: ${argName}`);
+      }
+    }
+
+    return errors;
+  }
+}
+
+/**
+ * Handler extra from the SDK request extra (request IDs are passed as strings)
+ */
+function toPromptExtra(extra?: SdkRequestExtra): ToolCallExtra {
+  return extra ? { ...extra, requestId: String(extra.requestId) } : {};
+}
@@ -0,0 +1,649 @@
+/**
+ * Resource Registry with Zod validation
+ *
+ * Manages MCP resource registration alongside ToolRegistry with:
+ * - Static URIs and RFC 6570 URI templates
+ * - Zod validation of template parameters
+ * - Paged resources/list and resources/templates/list responses
+ * - resources/subscribe tracking and update notifications
+ */
+
+import {
+  type McpServer as SdkMcpServer,
+  type ReadResourceCallback,
+  type ReadResourceTemplateCallback,
+  ResourceTemplate,
+} from 'mcp/server/mcp.js';
+import type { RequestHandlerExtra } from 'mcp/shared/protocol.js';
+import { UriTemplate } from 'mcp/shared/uriTemplate.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  type ReadResourceResult,
+  type ServerNotification,
+  type ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from 'mcp/types.js';
+import { z, type ZodObject, type ZodSchema } from 'zod';
+
+// Import library components
+import type { Logger } from '../utils/Logger.ts';
+import { ErrorHandler } from '../utils/ErrorHandler.ts';
+import { toError } from '../utils/Error.ts';
+
+// Import types
+import type { ToolCallExtra, ValidationResult } from '../types/BeyondMcpTypes.ts';
+import type {
+  RegisteredResource,
+  ResourceDefinition,
+  ResourceHandler,
+  ResourceListEntry,
+  ResourceRegistryConfig,
+  ResourceRegistryDependencies,
+} from '../types/ResourceTypes.ts';
+
+const DEFAULT_PAGE_SIZE = 50;
+const STDIO_SESSION_KEY = 'stdio';
+
+type SendNotification = RequestHandlerExtra<ServerRequest, ServerNotification>['sendNotification'];
+
+/**
+ * Resource registry with Zod validation for URI template parameters
+ */
+export class ResourceRegistry {
+  private static instance: ResourceRegistry | undefined;
+
+  private resources = new Map<string, RegisteredResource>();
+  private paramValidators = new Map<string, ZodObject<Record<string, ZodSchema>>>();
+  private sdkRegistrations = new Map<string, { remove(): void }>();
+  // uri -> session id -> sendNotification of the subscribe request. The SDK server is
+  // re-connected for every HTTP session, so updates go out through the subscriber's own transport
+  private subscriptions = new Map<string, Map<string, SendNotification>>();
+  private protocolHandlersInstalled = false;
+
+  private _sdkMcpServer: SdkMcpServer | undefined;
+  private logger: Logger;
+  private config: Required<ResourceRegistryConfig>;
+
+  constructor(dependencies: ResourceRegistryDependencies) {
+    if (dependencies.sdkMcpServer) this._sdkMcpServer = dependencies.sdkMcpServer;
+    this.logger = dependencies.logger;
+    this.config = {
+      pageSize: dependencies.config?.pageSize ?? DEFAULT_PAGE_SIZE,
+      enableSubscriptions: dependencies.config?.enableSubscriptions ?? true,
+    };
+  }
+
+  /**
+   * Get singleton instance of ResourceRegistry
+   */
+  static getInstance(dependencies: ResourceRegistryDependencies): ResourceRegistry {
+    if (!ResourceRegistry.instance) {
+      ResourceRegistry.instance = new ResourceRegistry(dependencies);
+    }
+    return ResourceRegistry.instance;
+  }
+
+  /**
+   * Clear singleton instance (primarily for testing)
+   */
+  static resetInstance(): void {
+    ResourceRegistry.instance = undefined;
+  }
+
+  get sdkMcpServer(): SdkMcpServer | undefined {
+    return this._sdkMcpServer;
+  }
+  set sdkMcpServer(sdkMcpServer: SdkMcpServer) {
+    this._sdkMcpServer = sdkMcpServer;
+  }
+
+  /**
+   * Register a static resource or URI template with Zod-validated parameters
+   */
+  registerResource<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: ResourceDefinition<T>,
+    handler: ResourceHandler<T>,
+  ): void {
+    this.logger.debug('ResourceRegistry: Registering resource', {
+      name,
+      title: definition.title,
+      uri: definition.uri,
+      uriTemplate: definition.uriTemplate,
+    });
+
+    if (!this._sdkMcpServer) {
+      throw ErrorHandler.wrapError(
+        'SDK MCP server has not been set - create and initialize a new BeyondMcpServer first to set sdkMcpServer in ResourceRegistry',
+        'RESOURCE_REGISTRATION_FAILED',
+        {
+          resourceName: name,
+        },
+      );
+    }
+
+    try {
+      const validationErrors = this.validateResourceRegistration(name, definition, handler);
+      if (validationErrors.length > 0) {
+        const errorMessage = `Resource registration has errors:\n${validationErrors.join('\n')}`;
+        this.logger.error(
+          'ResourceRegistry: Resource registration validation failed',
+          toError(errorMessage),
+          {
+            resourceName: name,
+            errors: validationErrors,
+          },
+        );
+        throw new Error(errorMessage);
+      }
+
+      const isTemplate = !!definition.uriTemplate;
+      const metadata = {
+        title: definition.title,
+        description: definition.description,
+        ...(definition.mimeType ? { mimeType: definition.mimeType } : {}),
+      };
+
+      let validator: ZodObject<Record<string, ZodSchema>> | undefined;
+      let sdkRegistration: { remove(): void } | undefined;
+
+      if (isTemplate) {
+        validator = z.object<Record<string, ZodSchema>>(definition.paramsSchema || {});
+        this.paramValidators.set(name, validator);
+
+        // Listing is served by this registry (with paging), so no SDK list callback is needed
+        const template = new ResourceTemplate(definition.uriTemplate!, {
+          list: undefined,
+          ...(definition.complete ? { complete: definition.complete } : {}),
+        });
+        const readCallback: ReadResourceTemplateCallback = async (uri, variables, extra) =>
+          await this.readResource(name, uri, variables, extra);
+        sdkRegistration = this._sdkMcpServer.registerResource(
+          name,
+          template,
+          metadata,
+          readCallback,
+        );
+      } else {
+        const readCallback: ReadResourceCallback = async (uri, extra) =>
+          await this.readResource(name, uri, {}, extra);
+        sdkRegistration = this._sdkMcpServer.registerResource(
+          name,
+          definition.uri!,
+          metadata,
+          readCallback,
+        );
+      }
+
+      if (sdkRegistration) this.sdkRegistrations.set(name, sdkRegistration);
+      this.installProtocolHandlers();
+
+      const registeredResource: RegisteredResource = {
+        name,
+        definition,
+        handler,
+        isTemplate,
+        registeredAt: new Date(),
+        readCount: 0,
+      };
+      if (validator) registeredResource.validator = validator;
+
+      this.resources.set(name, registeredResource);
+
+      this.logger.debug(`ResourceRegistry: Resource registered successfully: ${name}`, {
+        title: definition.title,
+        isTemplate,
+        mimeType: definition.mimeType,
+      });
+    } catch (error) {
+      this.logger.error(`ResourceRegistry: Failed to register resource: ${name}`, toError(error));
+      throw ErrorHandler.wrapError(error, 'RESOURCE_REGISTRATION_FAILED', {
+        resourceName: name,
+      });
+    }
+  }
+
+  /**
+   * Read a resource through the managed wrapper (validation, default MIME type, error mapping)
+   */
+  async readResource(
+    name: string,
+    uri: URL,
+    variables: Record<string, unknown>,
+    extra?: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  ): Promise<ReadResourceResult> {
+    const resource = this.resources.get(name);
+    if (!resource) {
+      throw new McpError(ErrorCode.InvalidParams, `Resource '${name}' not found`);
+    }
+
+    const validation = await this.validateResourceParams(name, variables);
+    if (!validation.success) {
+      this.logger.warn('ResourceRegistry: Resource parameter validation failed', {
+        resourceName: name,
+        uri: uri.toString(),
+        error: validation.error?.message,
+      });
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Validation error: ${validation.error?.message || 'Unknown validation error'}`,
+      );
+    }
+
+    try {
+      const handlerExtra: ToolCallExtra = extra
+        ? { ...extra, requestId: String(extra.requestId) }
+        : {};
+      const result = await resource.handler(uri, validation.data ?? {}, handlerExtra);
+
+      resource.readCount = (resource.readCount || 0) + 1;
+      resource.lastRead = new Date();
+
+      const mimeType = resource.definition.mimeType;
+      return {
+        ...result,
+        contents: result.contents.map((content) =>
+          content.mimeType || !mimeType ? content : { ...content, mimeType }
+        ),
+      };
+    } catch (error) {
+      if (error instanceof McpError) throw error;
+
+      this.logger.error(`ResourceRegistry: Resource read failed: ${name}`, toError(error));
+      const wrappedError = ErrorHandler.wrapError(error, 'RESOURCE_READ_FAILED', {
+        resourceName: name,
+        uri: uri.toString(),
+      });
+      throw new McpError(ErrorCode.InternalError, `Resource read error: ${wrappedError.message}`);
+    }
+  }
+
+  /**
+   * Validate URI template parameters with detailed error reporting
+   */
+  async validateResourceParams(
+    name: string,
+    params: unknown,
+  ): Promise<ValidationResult<Record<string, unknown>>> {
+    const resource = this.resources.get(name);
+    if (!resource) {
+      return {
+        success: false,
+        error: new Error(`Resource '${name}' not found`),
+      };
+    }
+
+    const validator = this.paramValidators.get(name);
+    if (!validator) {
+      // Static resources have no parameters
+      return { success: true, data: {} };
+    }
+
+    try {
+      const data = await validator.parseAsync(params);
+      return { success: true, data };
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        const errorDetails = error.errors.map((err) => {
+          const path = err.path.join('.');
+          return `${path ? path + ': ' : ''}${err.message}`;
+        }).join(', ');
+
+        return {
+          success: false,
+          error: new Error(`Validation failed: ${errorDetails}`),
+        };
+      }
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error('Unknown validation error'),
+      };
+    }
+  }
+
+  /**
+   * List concrete resources (static resources plus enumerated template instances), paged
+   */
+  async listResources(
+    cursor?: string,
+  ): Promise<{ resources: ResourceListEntry[]; nextCursor?: string }> {
+    const entries: ResourceListEntry[] = [];
+
+    for (const resource of this.resources.values()) {
+      const { definition } = resource;
+      if (!resource.isTemplate) {
+        entries.push({
+          uri: definition.uri!,
+          name: resource.name,
+          title: definition.title,
+          description: definition.description,
+          ...(definition.mimeType ? { mimeType: definition.mimeType } : {}),
+        });
+      } else if (definition.list) {
+        try {
+          for (const entry of await definition.list()) {
+            entries.push({
+              ...(definition.mimeType ? { mimeType: definition.mimeType } : {}),
+              ...entry,
+            });
+          }
+        } catch (error) {
+          this.logger.warn('ResourceRegistry: Resource template list callback failed', {
+            resourceName: resource.name,
+            error: toError(error).message,
+          });
+        }
+      }
+    }
+
+    const page = this.paginate(entries, cursor);
+    return {
+      resources: page.items,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
+
+  /**
+   * List registered URI templates, paged
+   */
+  listResourceTemplates(cursor?: string): {
+    resourceTemplates: Array<
+      { uriTemplate: string; name: string; title?: string; description?: string; mimeType?: string }
+    >;
+    nextCursor?: string;
+  } {
+    const templates = this.getResources()
+      .filter((resource) => resource.isTemplate)
+      .map((resource) => ({
+        uriTemplate: resource.definition.uriTemplate!,
+        name: resource.name,
+        title: resource.definition.title,
+        description: resource.definition.description,
+        ...(resource.definition.mimeType ? { mimeType: resource.definition.mimeType } : {}),
+      }));
+
+    const page = this.paginate(templates, cursor);
+    return {
+      resourceTemplates: page.items,
+      ...(page.nextCursor ? { nextCursor: page.nextCursor } : {}),
+    };
+  }
+
+  /**
+   * Subscribe a session to update notifications for a resource URI
+   * Updates are sent through `sendNotification` from the session's subscribe request
+   */
+  subscribe(uri: string, sendNotification: SendNotification, sessionId?: string): void {
+    const key = sessionId || STDIO_SESSION_KEY;
+    const subscribers = this.subscriptions.get(uri) || new Map<string, SendNotification>();
+    subscribers.set(key, sendNotification);
+    this.subscriptions.set(uri, subscribers);
+
+    this.logger.debug('ResourceRegistry: Resource subscribed', { uri, sessionId: key });
+  }
+
+  /**
+   * Remove a session's subscription to a resource URI
+   */
+  unsubscribe(uri: string, sessionId?: string): void {
+    const key = sessionId || STDIO_SESSION_KEY;
+    const subscribers = this.subscriptions.get(uri);
+    if (!subscribers) return;
+
+    subscribers.delete(key);
+    if (subscribers.size === 0) {
+      this.subscriptions.delete(uri);
+    }
+
+    this.logger.debug('ResourceRegistry: Resource unsubscribed', { uri, sessionId: key });
+  }
+
+  /**
+   * Remove all subscriptions held by a session (e.g. when the session closes)
+   */
+  clearSessionSubscriptions(sessionId: string): void {
+    for (const [uri, subscribers] of this.subscriptions) {
+      subscribers.delete(sessionId);
+      if (subscribers.size === 0) {
+        this.subscriptions.delete(uri);
+      }
+    }
+  }
+
+  /**
+   * Get session ids subscribed to a resource URI
+   */
+  getSubscribers(uri: string): string[] {
+    return Array.from(this.subscriptions.get(uri)?.keys() || []);
+  }
+
+  /**
+   * Send notifications/resources/updated to every session subscribed to the URI
+   * Returns true when at least one notification was sent
+   */
+  async notifyResourceUpdated(uri: string): Promise<boolean> {
+    const subscribers = this.subscriptions.get(uri);
+    if (!subscribers?.size) {
+      return false;
+    }
+
+    const notified: string[] = [];
+    for (const [sessionId, sendNotification] of subscribers) {
+      try {
+        await sendNotification({ method: 'notifications/resources/updated', params: { uri } });
+        notified.push(sessionId);
+      } catch (error) {
+        this.logger.warn('ResourceRegistry: Failed to send resource update notification', {
+          uri,
+          sessionId,
+          error: toError(error).message,
+        });
+      }
+    }
+
+    if (notified.length > 0) {
+      this.logger.debug('ResourceRegistry: Resource update notification sent', {
+        uri,
+        subscribers: notified,
+      });
+    }
+    return notified.length > 0;
+  }
+
+  /**
+   * Get registered resource information
+   */
+  getResource(name: string): RegisteredResource | undefined {
+    return this.resources.get(name);
+  }
+
+  /**
+   * Get all registered resources
+   */
+  getResources(): RegisteredResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  /**
+   * Get resource names
+   */
+  getResourceNames(): string[] {
+    return Array.from(this.resources.keys());
+  }
+
+  /**
+   * Get resource count
+   */
+  getResourceCount(): number {
+    return this.resources.size;
+  }
+
+  /**
+   * Get resource definition for inspection
+   */
+  getResourceDefinition(name: string): ResourceDefinition<Record<string, ZodSchema>> | undefined {
+    return this.resources.get(name)?.definition;
+  }
+
+  /**
+   * Clear all registered resources (for testing)
+   */
+  clear(): void {
+    this.resources.clear();
+    this.paramValidators.clear();
+    this.sdkRegistrations.clear();
+    this.subscriptions.clear();
+    this.logger.debug('ResourceRegistry: All resources cleared');
+  }
+
+  /**
+   * Remove a specific resource
+   */
+  removeResource(name: string): boolean {
+    const resource = this.resources.get(name);
+    if (!resource) return false;
+
+    this.sdkRegistrations.get(name)?.remove();
+    this.sdkRegistrations.delete(name);
+    this.paramValidators.delete(name);
+    this.resources.delete(name);
+
+    // Drop subscriptions to URIs this resource served, unless another resource still serves them
+    for (const uri of this.subscriptions.keys()) {
+      if (
+        this.servesUri(resource, uri) &&
+        !this.getResources().some((remaining) => this.servesUri(remaining, uri))
+      ) {
+        this.subscriptions.delete(uri);
+      }
+    }
+
+    this.logger.debug(`ResourceRegistry: Resource removed: ${name}`);
+    return true;
+  }
+
+  /**
+   * Replace the SDK's default list handlers with paged versions and handle subscriptions
+   * Must run before the SDK server connects to a transport (capabilities are fixed afterwards)
+   */
+  private installProtocolHandlers(): void {
+    if (this.protocolHandlersInstalled || !this._sdkMcpServer) return;
+
+    const server = this._sdkMcpServer.server;
+
+    server.setRequestHandler(
+      ListResourcesRequestSchema,
+      async (request) => await this.listResources(request.params?.cursor),
+    );
+    server.setRequestHandler(
+      ListResourceTemplatesRequestSchema,
+      (request) => this.listResourceTemplates(request.params?.cursor),
+    );
+
+    if (this.config.enableSubscriptions) {
+      server.registerCapabilities({ resources: { subscribe: true, listChanged: true } });
+      server.setRequestHandler(SubscribeRequestSchema, (request, extra) => {
+        this.subscribe(request.params.uri, extra.sendNotification, extra.sessionId);
+        return Promise.resolve({});
+      });
+      server.setRequestHandler(UnsubscribeRequestSchema, (request, extra) => {
+        this.unsubscribe(request.params.uri, extra.sessionId);
+        return Promise.resolve({});
+      });
+    }
+
+    this.protocolHandlersInstalled = true;
+  }
+
+  /**
+   * Check whether a resource serves a URI (its static URI, or a match of its URI template)
+   */
+  private servesUri(resource: RegisteredResource, uri: string): boolean {
+    if (resource.definition.uri) {
+      return resource.definition.uri === uri;
+    }
+    return new UriTemplate(resource.definition.uriTemplate!).match(uri) !== null;
+  }
+
+  /**
+   * Page a list using an opaque offset cursor
+   */
+  private paginate<T>(items: T[], cursor?: string): { items: T[]; nextCursor?: string } {
+    let offset = 0;
+    if (cursor) {
+      let decoded: number;
+      try {
+        decoded = Number(atob(cursor));
+      } catch {
+        // atob throws a DOMException for input that is not base64
+        decoded = NaN;
+      }
+      if (!Number.isInteger(decoded) || decoded < 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${cursor}`);
+      }
+      offset = decoded;
+    }
+
+    const end = offset + this.config.pageSize;
+    const page: { items: T[]; nextCursor?: string } = { items: items.slice(offset, end) };
+    if (end < items.length) {
+      page.nextCursor = btoa(String(end));
+    }
+    return page;
+  }
+
+  /**
+   * Validate resource registration (definition and handler)
+   */
+  private validateResourceRegistration<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: ResourceDefinition<T>,
+    handler: ResourceHandler<T>,
+  ): string[] {
+    const errors: string[] = [];
+
+    if (!name || typeof name !== 'string') {
+      errors.push('Resource name is required and must be a string');
+    }
+
+    if (!definition) {
+      errors.push('Resource definition is required');
+      return errors;
+    }
+
+    if (!definition.title || typeof definition.title !== 'string') {
+      errors.push('Resource title is required and must be a string');
+    }
+
+    if (!definition.description || typeof definition.description !== 'string') {
+      errors.push('Resource description is required and must be a string');
+    }
+
+    if (!definition.uri === !definition.uriTemplate) {
+      errors.push('Resource must define exactly one of uri or uriTemplate');
+    }
+
+    if (definition.uri) {
+      try {
+        new URL(definition.uri);
+      } catch {
+        errors.push(`Resource uri is not a valid URI: ${definition.uri}`);
+      }
+    }
+
+    if (definition.paramsSchema && !definition.uriTemplate) {
+      errors.push('Resource paramsSchema is only valid with uriTemplate');
+    }
+
+    if (!handler || typeof handler !== 'function') {
+      errors.push('Resource handler is required and must be a function');
+    }
+
+    return errors;
+  }
+}
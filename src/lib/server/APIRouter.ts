@@ -2,13 +2,25 @@
  * API Router - HTTP API routing and versioning system
  *
  * Handles /api/v1/* endpoints with extensible routing for auth, status, metrics,
- * and workflow endpoints. Provides clean API structure and delegation to specialized handlers.
+ * workflow, audit and admin endpoints. Provides clean API structure and delegation to specialized handlers.
  */
 
 import type { Logger } from '../../types/library.types.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import { StatusEndpoints } from './StatusEndpoints.ts';
+import { METRICS_SCHEMA_VERSION, MetricsCollector } from './MetricsCollector.ts';
 import type { HttpServerDependencies } from './HttpServer.ts';
+import type { AuditLogger, AuditSearchOptions } from '../utils/AuditLogger.ts';
+import type { ClientRegistration } from '../auth/OAuthTypes.ts';
+import type {
+  WorkflowContext,
+  WorkflowExecutionOptions,
+  WorkflowResult,
+} from '../types/WorkflowTypes.ts';
+import { ScopeAuthorizer } from '../auth/ScopeAuthorizer.ts';
+import { ConfigReloadError } from './ConfigReloader.ts';
+import { RateLimitStore } from '../storage/RateLimitStore.ts';
+import { toError } from '../utils/Error.ts';
 import { reconstructOriginalUrl } from '../utils/UrlUtils.ts';
 
 /**
@@ -19,8 +31,41 @@ export interface APIConfig {
   version: string;
   /** Base path for API */
   basePath: string;
+  /** Scope required for /admin endpoints (default: admin) */
+  adminScope?: string;
+  /**
+   * User IDs allowed to call /admin and /audit endpoints. Users can request any supported
+   * scope, so the scope alone does not make a caller an admin (default: none)
+   */
+  adminUsers?: string[];
+  /** OAuth client IDs allowed to call /admin and /audit endpoints (default: none) */
+  adminClients?: string[];
+}
+
+/**
+ * Caller of an API request authorized by bearer token
+ */
+export interface APIRequestAuth {
+  clientId?: string | undefined;
+  userId?: string | undefined;
+  scopes: string[];
 }
 
+/**
+ * Body of POST /workflows/{name}/execute
+ */
+export interface WorkflowExecuteRequest {
+  /** Workflow parameters (userId defaults to the token's user) */
+  parameters?: Record<string, unknown>;
+  /** Timeout and retry options for this execution */
+  options?: WorkflowExecutionOptions;
+  /** Validate the parameters without executing the workflow */
+  dryRun?: boolean;
+}
+
+// Upper bound for the limit query parameter of /audit
+const MAX_AUDIT_SEARCH_LIMIT = 1000;
+
 /**
  * API routing and versioning system
  *
@@ -31,6 +76,7 @@ export class APIRouter {
   private config: APIConfig;
   private logger: Logger;
   private statusEndpoints: StatusEndpoints;
+  private metricsCollector: MetricsCollector;
   private workflowRegistry: WorkflowRegistry;
   private dependencies: HttpServerDependencies;
 
@@ -38,6 +84,7 @@ export class APIRouter {
     this.config = config;
     this.logger = dependencies.logger;
     this.statusEndpoints = new StatusEndpoints(dependencies, new Date());
+    this.metricsCollector = new MetricsCollector(dependencies);
     this.workflowRegistry = dependencies.workflowRegistry;
     this.dependencies = dependencies;
 
@@ -79,6 +126,12 @@ export class APIRouter {
       case 'workflows':
         return await this.handleWorkflowsResource(request, rest, method);
 
+      case 'audit':
+        return await this.handleAuditResource(request, rest, method);
+
+      case 'admin':
+        return await this.handleAdminResource(request, rest, method);
+
       default:
         return this.jsonResponse({
           error: {
@@ -100,13 +153,17 @@ export class APIRouter {
         auth: 'Authentication endpoints',
         status: 'Server status and health checks',
         metrics: 'Server metrics and statistics',
-        workflows: 'Available workflows information',
+        workflows: 'Available workflows information and execution',
+        audit: 'Audit log search (admin scope required)',
+        admin: 'Client, session, token and credential administration (admin scope required)',
       },
       endpoints: {
         auth: `${this.config.basePath}/auth`,
         status: `${this.config.basePath}/status`,
         metrics: `${this.config.basePath}/metrics`,
         workflows: `${this.config.basePath}/workflows`,
+        audit: `${this.config.basePath}/audit`,
+        admin: `${this.config.basePath}/admin`,
       },
     };
 
@@ -239,6 +296,9 @@ export class APIRouter {
       case 'performance':
         return await this.handlePerformanceMetrics();
 
+      case 'tools':
+        return await this.handleToolMetrics();
+
       default:
         return this.jsonResponse({
           error: {
@@ -257,10 +317,17 @@ export class APIRouter {
     segments: string[],
     method: string,
   ): Promise<Response> {
+    const [workflowName, action] = segments;
+
+    if (method === 'POST' && workflowName && action === 'execute' && segments.length === 2) {
+      return await this.handleWorkflowExecute(request, workflowName);
+    }
+
     if (method !== 'GET') {
       return this.jsonResponse({
         error: {
-          message: 'Only GET method allowed for workflow endpoints',
+          message:
+            'Only GET method allowed for workflow endpoints, and POST for /workflows/{name}/execute',
           status: 405,
         },
       }, 405);
@@ -270,7 +337,6 @@ export class APIRouter {
       return await this.handleWorkflowList();
     }
 
-    const [workflowName] = segments;
     if (!workflowName) {
       return this.jsonResponse({
         error: {
@@ -282,40 +348,475 @@ export class APIRouter {
     return await this.handleWorkflowDetails(workflowName);
   }
 
+  /**
+   * Handle audit resource endpoints (requires the audit API scope)
+   */
+  private async handleAuditResource(
+    request: Request,
+    segments: string[],
+    method: string,
+  ): Promise<Response> {
+    if (method !== 'GET') {
+      return this.jsonResponse({
+        error: {
+          message: 'Only GET method allowed for audit endpoints',
+          status: 405,
+        },
+      }, 405);
+    }
+
+    const auditLogger = this.dependencies.auditLogger;
+    if (!auditLogger?.isEnabled()) {
+      return this.jsonResponse({
+        error: {
+          message: 'Audit logging is not enabled',
+          status: 404,
+        },
+      }, 404);
+    }
+
+    const auth = await this.authorizeAdminRequest(request, [auditLogger.getApiScope()]);
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    const [action] = segments;
+    switch (action) {
+      case undefined:
+        return await this.handleAuditSearch(request, auditLogger);
+
+      case 'verify':
+        return await this.handleAuditVerify(auditLogger);
+
+      default:
+        return this.jsonResponse({
+          error: {
+            message: `Audit action '${action}' not found`,
+            status: 404,
+          },
+        }, 404);
+    }
+  }
+
   // ============================================================================
-  // Metrics Handlers
+  // Audit Handlers
   // ============================================================================
 
   /**
-   * Handle all metrics endpoint
+   * Handle audit search endpoint
+   * Query parameters: userId, toolName, workflowName, type, event, start, end (ISO 8601), limit
    */
-  private async handleAllMetrics(): Promise<Response> {
-    try {
-      // Get metrics from various components
-      const metrics = {
-        server: {
-          memory_usage: this.getMemoryUsage(),
-          timestamp: new Date().toISOString(),
+  private async handleAuditSearch(request: Request, auditLogger: AuditLogger): Promise<Response> {
+    const params = new URL(request.url).searchParams;
+    const options: AuditSearchOptions = {};
+
+    for (const key of ['userId', 'toolName', 'workflowName', 'event'] as const) {
+      const value = params.get(key);
+      if (value) {
+        options[key] = value;
+      }
+    }
+
+    const type = params.get('type');
+    if (type) {
+      options.type = type as NonNullable<AuditSearchOptions['type']>;
+    }
+
+    for (const [param, key] of [['start', 'startTime'], ['end', 'endTime']] as const) {
+      const value = params.get(param);
+      if (!value) continue;
+
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return this.jsonResponse({
+          error: {
+            message: `Invalid '${param}' parameter: expected an ISO 8601 timestamp`,
+            status: 400,
+          },
+        }, 400);
+      }
+      options[key] = date;
+    }
+
+    const limit = Number(params.get('limit') ?? 100);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return this.jsonResponse({
+        error: {
+          message: "Invalid 'limit' parameter: expected a positive integer",
+          status: 400,
         },
-        auth: {
-          oauth_provider: 'Generic OAuth Provider',
-          // Note: These would come from actual auth service integration
-          authenticated_users_total: 0,
-          active_sessions: 0,
+      }, 400);
+    }
+    options.limit = Math.min(limit, MAX_AUDIT_SEARCH_LIMIT);
+
+    try {
+      const entries = await auditLogger.searchLogs(options);
+      return this.jsonResponse({
+        entries,
+        count: entries.length,
+        limit: options.limit,
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      this.logger.error('APIRouter: Error searching audit logs:', toError(error));
+      return this.jsonResponse({
+        error: {
+          message: 'Failed to search audit logs',
+          status: 500,
         },
-        workflows: {
-          registered_total: this.workflowRegistry.getWorkflowNames().length,
-          available: this.workflowRegistry.getWorkflowNames(),
+      }, 500);
+    }
+  }
+
+  /**
+   * Handle audit hash chain verification endpoint
+   */
+  private async handleAuditVerify(auditLogger: AuditLogger): Promise<Response> {
+    try {
+      const verification = await auditLogger.verifyChain();
+      if (!verification.valid) {
+        this.logger.warn('APIRouter: Audit log failed hash chain verification', {
+          failure: verification.failure,
+        });
+      }
+      return this.jsonResponse({ ...verification, timestamp: new Date().toISOString() });
+    } catch (error) {
+      this.logger.error('APIRouter: Error verifying audit logs:', toError(error));
+      return this.jsonResponse({
+        error: {
+          message: 'Failed to verify audit logs',
+          status: 500,
         },
-        mcp: {
-          // Note: These would come from transport manager integration
-          active_sessions: 0,
-          session_ids: [],
+      }, 500);
+    }
+  }
+
+  /**
+   * Handle admin resource endpoints (requires the admin scope)
+   *
+   * GET    /admin                              - Overview and client/token/session counts
+   * GET    /admin/clients                      - List registered clients
+   * GET    /admin/clients/{clientId}           - Inspect a client
+   * DELETE /admin/clients/{clientId}           - Revoke a client and its tokens
+   * GET    /admin/sessions                     - List connected MCP sessions
+   * DELETE /admin/sessions/{sessionId}         - Close a session and its SSE stream
+   * GET    /admin/users/{userId}/sessions      - List a user's sessions
+   * DELETE /admin/users/{userId}/sessions      - Close and delete a user's sessions
+   * DELETE /admin/users/{userId}/tokens        - Revoke all tokens issued for a user
+   * GET    /admin/users/{userId}/credentials   - List providers with stored credentials
+   * DELETE /admin/users/{userId}/credentials[/{provider}] - Delete stored credentials
+   * POST   /admin/config/reload                - Apply configuration changes without a restart
+   */
+  private async handleAdminResource(
+    request: Request,
+    segments: string[],
+    method: string,
+  ): Promise<Response> {
+    const auth = await this.authorizeAdminRequest(request, [this.config.adminScope || 'admin']);
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    const [collection, id, subresource, subId] = segments.map((segment) =>
+      decodeURIComponent(segment)
+    );
+    const route = [collection, id && ':id', subresource, subId && ':id']
+      .filter((part) => part !== undefined)
+      .join('/');
+
+    try {
+      switch (`${method} ${route}`) {
+        case 'GET ':
+          return await this.handleAdminOverview();
+        case 'GET clients':
+          return await this.handleAdminListClients();
+        case 'GET clients/:id':
+          return await this.handleAdminGetClient(id!);
+        case 'DELETE clients/:id':
+          return await this.handleAdminRevokeClient(id!, auth);
+        case 'GET sessions':
+          return this.handleAdminListSessions();
+        case 'DELETE sessions/:id':
+          return await this.handleAdminCloseSession(id!, auth);
+        case 'GET users/:id/sessions':
+          return await this.handleAdminGetUserSessions(id!);
+        case 'DELETE users/:id/sessions':
+          return await this.handleAdminDeleteUserSessions(id!, auth);
+        case 'DELETE users/:id/tokens':
+          return await this.handleAdminRevokeUserTokens(id!, auth);
+        case 'GET users/:id/credentials':
+          return await this.handleAdminGetUserCredentials(id!);
+        case 'DELETE users/:id/credentials':
+        case 'DELETE users/:id/credentials/:id':
+          return await this.handleAdminDeleteUserCredentials(id!, subId, auth);
+        case 'POST config/:id':
+          if (id === 'reload') {
+            return await this.handleAdminReloadConfig(auth);
+          }
+          break;
+      }
+    } catch (error) {
+      this.logger.error('APIRouter: Error handling admin request:', toError(error), {
+        method,
+        route,
+      });
+      return this.jsonResponse({
+        error: {
+          message: 'Admin operation failed',
+          status: 500,
         },
-        timestamp: new Date().toISOString(),
-      };
+      }, 500);
+    }
+
+    return this.jsonResponse({
+      error: {
+        message: `Admin endpoint '${method} /${segments.join('/')}' not found`,
+        status: 404,
+      },
+    }, 404);
+  }
+
+  // ============================================================================
+  // Admin Handlers
+  // ============================================================================
+
+  /**
+   * Handle admin overview endpoint
+   */
+  private async handleAdminOverview(): Promise<Response> {
+    const base = `${this.config.basePath}/admin`;
+    const oauthProvider = this.dependencies.oauthProvider;
+
+    return this.jsonResponse({
+      clients: await oauthProvider.getClientStats(),
+      tokens: await oauthProvider.getTokenStats(),
+      sessions: { connected: this.dependencies.transportManager?.getSessionCount() ?? 0 },
+      endpoints: {
+        clients: `${base}/clients`,
+        sessions: `${base}/sessions`,
+        users: `${base}/users/{userId}/{sessions|tokens|credentials}`,
+        configReload: `${base}/config/reload`,
+      },
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Handle client list endpoint
+   */
+  private async handleAdminListClients(): Promise<Response> {
+    const oauthProvider = this.dependencies.oauthProvider;
+    const clients = (await oauthProvider.listClients()).map(redactClient);
+
+    return this.jsonResponse({
+      clients,
+      count: clients.length,
+      stats: await oauthProvider.getClientStats(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Handle client details endpoint
+   */
+  private async handleAdminGetClient(clientId: string): Promise<Response> {
+    const client = await this.dependencies.oauthProvider.getClient(clientId);
+    if (!client) {
+      return this.adminNotFound(`Client '${clientId}' not found`);
+    }
+
+    return this.jsonResponse({ client: redactClient(client) });
+  }
+
+  /**
+   * Handle client revocation endpoint
+   */
+  private async handleAdminRevokeClient(
+    clientId: string,
+    auth: APIRequestAuth,
+  ): Promise<Response> {
+    const result = await this.dependencies.oauthProvider.revokeClient(clientId);
+    if (!result.revoked) {
+      return this.adminNotFound(`Client '${clientId}' not found`);
+    }
+
+    await this.auditAdminAction(auth, 'revoke_client', { clientId, ...result });
+    return this.jsonResponse({ clientId, ...result });
+  }
+
+  /**
+   * Handle connected session list endpoint
+   */
+  private handleAdminListSessions(): Response {
+    const sessions = this.dependencies.transportManager?.getClientSessions() ?? [];
+    return this.jsonResponse({
+      sessions,
+      count: sessions.length,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Handle session close endpoint
+   */
+  private async handleAdminCloseSession(
+    sessionId: string,
+    auth: APIRequestAuth,
+  ): Promise<Response> {
+    const closed = await this.dependencies.transportManager?.closeSession(sessionId) ?? false;
+    await this.dependencies.sessionManager?.deleteSession(sessionId);
+
+    if (!closed) {
+      return this.adminNotFound(`Session '${sessionId}' not connected`);
+    }
+
+    await this.auditAdminAction(auth, 'close_session', { sessionId });
+    return this.jsonResponse({ sessionId, closed });
+  }
+
+  /**
+   * Handle user session list endpoint
+   */
+  private async handleAdminGetUserSessions(userId: string): Promise<Response> {
+    const connected = this.dependencies.transportManager?.getUserClientSessions(userId) ?? [];
+    const stored = await this.dependencies.sessionManager?.getUserSessions(userId) ?? [];
+
+    return this.jsonResponse({ userId, connected, stored });
+  }
+
+  /**
+   * Handle user session removal endpoint
+   */
+  private async handleAdminDeleteUserSessions(
+    userId: string,
+    auth: APIRequestAuth,
+  ): Promise<Response> {
+    const transportManager = this.dependencies.transportManager;
+    let closed = 0;
+    for (const session of transportManager?.getUserClientSessions(userId) ?? []) {
+      if (await transportManager!.closeSession(session.sessionId)) {
+        closed++;
+      }
+    }
+    const deleted = await this.dependencies.sessionManager?.deleteUserSessions(userId) ?? 0;
+
+    await this.auditAdminAction(auth, 'delete_user_sessions', { userId, closed, deleted });
+    return this.jsonResponse({ userId, closed, deleted });
+  }
+
+  /**
+   * Handle user token revocation endpoint
+   */
+  private async handleAdminRevokeUserTokens(
+    userId: string,
+    auth: APIRequestAuth,
+  ): Promise<Response> {
+    const revokedTokens = await this.dependencies.oauthProvider.revokeUserTokens(userId);
+
+    await this.auditAdminAction(auth, 'revoke_user_tokens', { userId, revokedTokens });
+    return this.jsonResponse({ userId, revokedTokens });
+  }
+
+  /**
+   * Handle user credential list endpoint
+   */
+  private async handleAdminGetUserCredentials(userId: string): Promise<Response> {
+    const providers = await this.dependencies.oauthProvider.getUserCredentialProviders(userId);
+    return this.jsonResponse({ userId, providers });
+  }
+
+  /**
+   * Handle user credential removal endpoint
+   */
+  private async handleAdminDeleteUserCredentials(
+    userId: string,
+    provider: string | undefined,
+    auth: APIRequestAuth,
+  ): Promise<Response> {
+    const deleted = await this.dependencies.oauthProvider.deleteUserCredentials(userId, provider);
+
+    await this.auditAdminAction(auth, 'delete_user_credentials', {
+      userId,
+      ...(provider && { provider }),
+      deleted,
+    });
+    return this.jsonResponse({ userId, ...(provider && { provider }), deleted });
+  }
 
-      return this.jsonResponse(metrics);
+  /**
+   * Handle config reload endpoint
+   * Responds 409 with the values that need a restart when the reload is rejected
+   */
+  private async handleAdminReloadConfig(auth: APIRequestAuth): Promise<Response> {
+    const configReloader = this.dependencies.configReloader;
+    if (!configReloader) {
+      return this.jsonResponse({
+        error: { message: 'Config reload is not available', status: 501 },
+      }, 501);
+    }
+
+    try {
+      const result = await configReloader.reload();
+      await this.auditAdminAction(auth, 'reload_config', {
+        changed: result.changes.map((change) => change.path),
+        instructionsUpdated: result.instructionsUpdated,
+      });
+      return this.jsonResponse({ reloaded: true, ...result });
+    } catch (error) {
+      if (error instanceof ConfigReloadError) {
+        return this.jsonResponse({
+          reloaded: false,
+          error: {
+            message: 'Configuration changes need a restart',
+            status: 409,
+            restartRequired: error.rejected,
+          },
+        }, 409);
+      }
+      return this.jsonResponse({
+        reloaded: false,
+        error: { message: `Config reload failed: ${toError(error).message}`, status: 400 },
+      }, 400);
+    }
+  }
+
+  /**
+   * Record an admin action in the audit log
+   */
+  private async auditAdminAction(
+    auth: APIRequestAuth,
+    action: string,
+    details: Record<string, unknown>,
+  ): Promise<void> {
+    this.logger.info(`APIRouter: Admin action ${action}`, {
+      adminUserId: auth.userId,
+      adminClientId: auth.clientId,
+      ...details,
+    });
+
+    await this.dependencies.auditLogger?.logSystemEvent({
+      event: `admin_${action}`,
+      severity: 'warn',
+      component: 'admin_api',
+      ...(auth.userId && { userId: auth.userId }),
+      details: { ...details, adminClientId: auth.clientId },
+    });
+  }
+
+  private adminNotFound(message: string): Response {
+    return this.jsonResponse({ error: { message, status: 404 } }, 404);
+  }
+
+  // ============================================================================
+  // Metrics Handlers
+  // ============================================================================
+
+  /**
+   * Handle all metrics endpoint
+   */
+  private async handleAllMetrics(): Promise<Response> {
+    try {
+      return this.jsonResponse(await this.metricsCollector.collect());
     } catch (error) {
       this.logger.error(
         'APIRouter: Error getting all metrics:',
@@ -335,19 +836,12 @@ export class APIRouter {
    */
   private async handleAuthMetrics(): Promise<Response> {
     try {
-      const authMetrics = {
-        oauth_provider: 'Generic OAuth Provider',
-        // Note: These would come from actual auth service integration
-        authenticated_users: 0,
-        active_sessions: 0,
-        oauth_clients: {
-          total: 0,
-          active: 0,
-        },
-        timestamp: new Date().toISOString(),
-      };
+      const [auth, sessions] = await Promise.all([
+        this.metricsCollector.collectAuth(),
+        this.metricsCollector.collectSessions(),
+      ]);
 
-      return this.jsonResponse(authMetrics);
+      return this.jsonResponse(this.metricsResponse({ auth, sessions }));
     } catch (error) {
       this.logger.error(
         'APIRouter: Error getting auth metrics:',
@@ -367,16 +861,9 @@ export class APIRouter {
    */
   private async handleWorkflowMetrics(): Promise<Response> {
     try {
-      const workflows = this.workflowRegistry.getWorkflowNames();
-
-      const workflowMetrics = {
-        total_registered: workflows.length,
-        by_category: {}, // TODO: Group by category when available
-        available: workflows,
-        timestamp: new Date().toISOString(),
-      };
-
-      return this.jsonResponse(workflowMetrics);
+      return this.jsonResponse(
+        this.metricsResponse({ workflows: this.metricsCollector.collectWorkflows() }),
+      );
     } catch (error) {
       this.logger.error(
         'APIRouter: Error getting workflow metrics:',
@@ -391,18 +878,37 @@ export class APIRouter {
     }
   }
 
+  /**
+   * Handle tool metrics endpoint
+   */
+  private async handleToolMetrics(): Promise<Response> {
+    try {
+      return this.jsonResponse(
+        this.metricsResponse({ tools: this.metricsCollector.collectTools() }),
+      );
+    } catch (error) {
+      this.logger.error(
+        'APIRouter: Error getting tool metrics:',
+        error instanceof Error ? error : new Error(String(error)),
+      );
+      return this.jsonResponse({
+        error: {
+          message: 'Failed to retrieve tool metrics',
+          status: 500,
+        },
+      }, 500);
+    }
+  }
+
   /**
    * Handle performance metrics endpoint
    */
   private async handlePerformanceMetrics(): Promise<Response> {
     try {
-      const performanceMetrics = {
-        memory_usage: this.getMemoryUsage(),
-        // Note: Additional performance metrics would come from actual services
-        timestamp: new Date().toISOString(),
-      };
-
-      return this.jsonResponse(performanceMetrics);
+      return this.jsonResponse(this.metricsResponse({
+        server: this.metricsCollector.collectServer(),
+        transport: this.metricsCollector.collectTransport(),
+      }));
     } catch (error) {
       this.logger.error(
         'APIRouter: Error getting performance metrics:',
@@ -494,21 +1000,326 @@ export class APIRouter {
     }
   }
 
+  /**
+   * Handle workflow execution endpoint
+   *
+   * Runs the workflow through executeWithValidation, as the execute_workflow tool does,
+   * so cron jobs and webhooks can trigger workflows without an MCP session. Requires a
+   * bearer token with the workflow's required scopes. A dry run only validates the
+   * parameters against the workflow's parameterSchema.
+   */
+  private async handleWorkflowExecute(request: Request, workflowName: string): Promise<Response> {
+    const workflow = this.workflowRegistry.getWorkflow(workflowName);
+    if (!workflow) {
+      return this.jsonResponse({
+        error: {
+          message: `Workflow '${workflowName}' not found`,
+          status: 404,
+        },
+      }, 404);
+    }
+
+    const auth = await this.authorizeRequest(request, workflow.requiredScopes ?? []);
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    const body = await this.parseWorkflowExecuteRequest(request);
+    if (body instanceof Response) {
+      return body;
+    }
+
+    const parameters: Record<string, unknown> = {
+      ...(auth.userId && { userId: auth.userId }),
+      ...body.parameters,
+    };
+
+    if (body.dryRun) {
+      const validation = await workflow.validateParameters({ ...parameters, dryRun: true });
+      return this.jsonResponse({
+        workflow: workflowName,
+        dryRun: true,
+        valid: validation.valid,
+        parameters: validation.data,
+        errors: validation.errors,
+        warnings: validation.warnings ?? [],
+        timestamp: new Date().toISOString(),
+      }, validation.valid ? 200 : 422);
+    }
+
+    try {
+      // Enforce the workflow's own rate limit, as the execute_workflow tool does
+      const rateLimitStore = this.dependencies.rateLimitStore;
+      if (rateLimitStore && workflow.rateLimit) {
+        const identity = RateLimitStore.resolveIdentity({
+          userId: auth.userId,
+          clientId: auth.clientId,
+        });
+        await rateLimitStore.enforce(
+          `workflow:${workflowName}`,
+          identity,
+          workflow.rateLimit,
+          false,
+        );
+      }
+
+      const parameterUserId = typeof parameters.userId === 'string' ? parameters.userId : undefined;
+      const context: WorkflowContext = {
+        userId: parameterUserId || auth.userId || '',
+        requestId: request.headers.get('X-Request-Id') || crypto.randomUUID(),
+        workflowName,
+        startTime: new Date(),
+        // WorkflowBase skips audit logging when no audit logger is configured
+        auditLogger: this.dependencies.auditLogger!,
+        logger: this.logger as WorkflowContext['logger'],
+        kvManager: undefined,
+        thirdPartyClient: undefined,
+        parameterUserId,
+        _meta: {},
+        requestMetadata: { transport: 'http_api' },
+        authenticatedUserId: auth.userId,
+        clientId: auth.clientId,
+        scopes: auth.scopes,
+        // Aborted when the caller disconnects
+        signal: request.signal,
+      };
+
+      this.logger.info('APIRouter: Executing workflow', {
+        workflowName,
+        requestId: context.requestId,
+        userId: context.userId,
+        clientId: auth.clientId,
+      });
+
+      const result = await workflow.executeWithValidation(parameters, context, body.options);
+      this.workflowRegistry.recordExecution(workflowName, result);
+
+      return this.jsonResponse({
+        workflow: workflowName,
+        status: result.success ? 'success' : 'failed',
+        result,
+        timestamp: new Date().toISOString(),
+      }, this.workflowResultStatus(result));
+    } catch (error) {
+      if (RateLimitStore.isRateLimitError(error)) {
+        const info = RateLimitStore.getRateLimitInfo(error);
+        this.logger.warn('APIRouter: Workflow rate limit exceeded', {
+          workflowName,
+          ...error.info.context,
+        });
+        return new Response(
+          JSON.stringify(
+            {
+              error: {
+                message: `Rate limit exceeded for workflow '${workflowName}'`,
+                status: 429,
+                retryAfter: info.retryAfter,
+              },
+            },
+            null,
+            2,
+          ),
+          {
+            status: 429,
+            headers: {
+              'Content-Type': 'application/json',
+              ...(info.retryAfter !== undefined && { 'Retry-After': String(info.retryAfter) }),
+            },
+          },
+        );
+      }
+
+      this.logger.error(`APIRouter: Error executing workflow ${workflowName}:`, toError(error));
+      return this.jsonResponse({
+        error: {
+          message: 'Failed to execute workflow',
+          status: 500,
+        },
+      }, 500);
+    }
+  }
+
+  /**
+   * Parse and check the body of a workflow execution request
+   */
+  private async parseWorkflowExecuteRequest(
+    request: Request,
+  ): Promise<WorkflowExecuteRequest | Response> {
+    const invalid = (message: string) =>
+      this.jsonResponse({
+        error: {
+          message,
+          status: 400,
+        },
+      }, 400);
+
+    const text = await request.text();
+    if (!text.trim()) {
+      return {};
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return invalid('Request body must be valid JSON');
+    }
+
+    if (!isPlainObject(body)) {
+      return invalid('Request body must be a JSON object');
+    }
+    if (body.parameters !== undefined && !isPlainObject(body.parameters)) {
+      return invalid('parameters must be an object');
+    }
+    if (body.options !== undefined && !isPlainObject(body.options)) {
+      return invalid('options must be an object');
+    }
+    if (body.dryRun !== undefined && typeof body.dryRun !== 'boolean') {
+      return invalid('dryRun must be a boolean');
+    }
+
+    return body as WorkflowExecuteRequest;
+  }
+
+  /**
+   * HTTP status for a workflow result: validation failures are the caller's error,
+   * other failures are reported as server errors so schedulers can detect them
+   */
+  private workflowResultStatus(result: WorkflowResult): number {
+    if (result.success) return 200;
+    if (result.error?.type === 'validation') return 422;
+    if (result.error?.type === 'timeout') return 504;
+    return 500;
+  }
+
   // ============================================================================
   // Utility Methods
   // ============================================================================
 
   /**
-   * Get memory usage information
+   * 🔒 SECURITY-CRITICAL: Check the bearer token and required scopes of an API request
+   *
+   * Returns the caller, or the 401/403 response to send when the request is rejected.
    */
-  private getMemoryUsage() {
+  private async authorizeRequest(
+    request: Request,
+    requiredScopes: string[],
+  ): Promise<APIRequestAuth | Response> {
+    const oauthProvider = this.dependencies.oauthProvider;
+    if (!oauthProvider) {
+      return this.jsonResponse({
+        error: {
+          message: 'This endpoint requires the OAuth provider to be configured',
+          status: 403,
+        },
+      }, 403);
+    }
+
+    const token = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+    if (!token) {
+      return this.authErrorResponse(401, 'invalid_request', 'Missing bearer token');
+    }
+
     try {
-      return Deno.memoryUsage ? Deno.memoryUsage() : { unavailable: true };
-    } catch {
-      return { unavailable: true };
+      const validation = await oauthProvider.validateAccessToken(token);
+      if (!validation.valid) {
+        return this.authErrorResponse(
+          401,
+          'invalid_token',
+          validation.error || 'Invalid access token',
+        );
+      }
+
+      const scopes = validation.scope?.split(' ').filter((scope) => scope) ?? [];
+      const missingScopes = ScopeAuthorizer.getMissingScopes(requiredScopes, scopes);
+      if (missingScopes.length > 0) {
+        this.logger.warn('APIRouter: Rejected API request with insufficient scope', {
+          clientId: validation.clientId,
+          userId: validation.userId,
+          missingScopes,
+        });
+        return this.authErrorResponse(
+          403,
+          'insufficient_scope',
+          `Requires scope: ${requiredScopes.join(' ')}`,
+          requiredScopes,
+        );
+      }
+
+      return { clientId: validation.clientId, userId: validation.userId, scopes };
+    } catch (error) {
+      this.logger.error('APIRouter: Error validating API access token:', toError(error));
+      return this.authErrorResponse(401, 'invalid_token', 'Token validation failed');
     }
   }
 
+  /**
+   * Authorize a request by bearer token and require the caller to be a configured admin
+   * user or client
+   */
+  private async authorizeAdminRequest(
+    request: Request,
+    requiredScopes: string[],
+  ): Promise<APIRequestAuth | Response> {
+    const auth = await this.authorizeRequest(request, requiredScopes);
+    if (auth instanceof Response) {
+      return auth;
+    }
+
+    const isAdminUser = !!auth.userId && !!this.config.adminUsers?.includes(auth.userId);
+    const isAdminClient = !!auth.clientId && !!this.config.adminClients?.includes(auth.clientId);
+    if (!isAdminUser && !isAdminClient) {
+      this.logger.warn('APIRouter: Rejected admin API request from a caller not listed as admin', {
+        clientId: auth.clientId,
+        userId: auth.userId,
+      });
+      return this.jsonResponse({
+        error: {
+          message: 'Caller is not an administrator',
+          status: 403,
+        },
+      }, 403);
+    }
+
+    return auth;
+  }
+
+  /**
+   * Create a 401/403 response with a bearer challenge (RFC 6750 section 3)
+   */
+  private authErrorResponse(
+    status: 401 | 403,
+    code: string,
+    message: string,
+    scope?: string[],
+  ): Response {
+    const challenge = [
+      'Bearer realm="api"',
+      `error="${code}"`,
+      `error_description="${message.replace(/"/g, "'")}"`,
+      ...(scope ? [`scope="${scope.join(' ')}"`] : []),
+    ].join(', ');
+
+    return new Response(JSON.stringify({ error: { message, code, status } }, null, 2), {
+      status,
+      headers: {
+        'Content-Type': 'application/json',
+        'WWW-Authenticate': challenge,
+      },
+    });
+  }
+
+  /**
+   * Wrap metric sections with the schema version and timestamp
+   */
+  private metricsResponse(sections: Record<string, unknown>): Record<string, unknown> {
+    return {
+      schema_version: METRICS_SCHEMA_VERSION,
+      timestamp: new Date().toISOString(),
+      ...sections,
+    };
+  }
+
   /**
    * Create JSON response
    */
@@ -519,3 +1330,21 @@ export class APIRouter {
     });
   }
 }
+
+/**
+ * Client registration without its secret or secret hash
+ */
+function redactClient(client: ClientRegistration): Omit<
+  ClientRegistration,
+  'client_secret' | 'client_secret_hash'
+> {
+  const { client_secret: _secret, client_secret_hash: _secretHash, ...rest } = client;
+  return rest;
+}
+
+/**
+ * JSON object (not null or an array)
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -15,9 +15,11 @@
 import { ConfigManager } from '../config/ConfigManager.ts';
 import { BeyondMcpServer } from './BeyondMcpServer.ts';
 import { HttpServer } from './HttpServer.ts';
+import { ConfigReloader, type ConfigReloadResult } from './ConfigReloader.ts';
 import { Logger } from '../utils/Logger.ts';
 //import { KVManager } from '../storage/KVManager.ts';
 import { toError } from '../utils/Error.ts';
+import { Tracer } from '../utils/Tracer.ts';
 import type {
   //AppServerConfig,
   AppServerDependencies,
@@ -44,6 +46,7 @@ export class AppServer {
   private _logger: Logger;
   private beyondMcpServer: BeyondMcpServer;
   private httpServer?: HttpServer;
+  private configReloader: ConfigReloader;
   private started = false;
   private initialized = false;
 
@@ -65,6 +68,12 @@ export class AppServer {
     this._configManager = dependencies.configManager;
     this._logger = dependencies.logger;
     this.beyondMcpServer = dependencies.beyondMcpServer;
+    this.configReloader = new ConfigReloader({
+      configManager: dependencies.configManager,
+      logger: dependencies.logger,
+      beyondMcpServer: dependencies.beyondMcpServer,
+      mcpServerInstructions: dependencies.mcpServerInstructions,
+    });
 
     this._logger.info('AppServer: Initialized with dependencies');
     this.initialized = true;
@@ -229,9 +238,18 @@ export class AppServer {
         await this.httpServer.stop();
       }
 
+      // Stop watching plugin files (if hot-reload is enabled)
+      await this.dependencies.pluginManager?.stopWatching();
+
       // Stop Beyond MCP server
       await this.beyondMcpServer.shutdown();
 
+      // Export any spans still buffered
+      await Tracer.getInstance().shutdown();
+
+      // Write out buffered audit entries
+      await this.dependencies.auditLogger.close();
+
       this.started = false;
       this._logger.info('AppServer: Application server stopped successfully');
     } catch (error) {
@@ -240,6 +258,17 @@ export class AppServer {
     }
   }
 
+  /**
+   * Reload the configuration and apply the changes that don't need a restart
+   *
+   * Log level, CORS origins, HTTP rate limits, instructions and the docs endpoint are
+   * updated in place, so sessions stay connected. If anything else changed, the reload
+   * is rejected with a ConfigReloadError naming those values and nothing is applied.
+   */
+  async reloadConfig(): Promise<ConfigReloadResult> {
+    return await this.configReloader.reload();
+  }
+
   /**
    * Start in HTTP mode - HTTP server handles both MCP and API endpoints
    */
@@ -259,7 +288,13 @@ export class AppServer {
         httpServerConfig: this.dependencies.httpServerConfig,
         docsEndpointHandler: this.dependencies.docsEndpointHandler,
         customEndpoints: this.dependencies.customEndpoints,
+        rateLimitStore: this.dependencies.rateLimitStore,
+        toolRegistry: this.dependencies.toolRegistry,
+        sessionManager: this.dependencies.sessionManager,
+        auditLogger: this.dependencies.auditLogger,
+        configReloader: this.configReloader,
       });
+      this.configReloader.httpServer = this.httpServer;
 
       // Start HTTP server (handles MCP via /mcp endpoint)
       await this.httpServer.start();
@@ -287,7 +322,13 @@ export class AppServer {
         oauthConsumer: this.dependencies.oauthConsumer,
         workflowRegistry: this.dependencies.workflowRegistry,
         httpServerConfig: this.dependencies.httpServerConfig,
+        rateLimitStore: this.dependencies.rateLimitStore,
+        toolRegistry: this.dependencies.toolRegistry,
+        sessionManager: this.dependencies.sessionManager,
+        auditLogger: this.dependencies.auditLogger,
+        configReloader: this.configReloader,
       });
+      this.configReloader.httpServer = this.httpServer;
 
       await this.httpServer.start();
       this._logger.info('AppServer: HTTP server started for OAuth callbacks');
@@ -295,7 +336,7 @@ export class AppServer {
   }
 
   /**
-   * Setup graceful shutdown signal handlers
+   * Setup graceful shutdown (SIGINT, SIGTERM) and config reload (SIGHUP) signal handlers
    */
   private setupShutdownHandlers(): void {
     const shutdown = async (signal: string) => {
@@ -313,6 +354,15 @@ export class AppServer {
     Deno.addSignalListener('SIGINT', () => shutdown('SIGINT'));
     Deno.addSignalListener('SIGTERM', () => shutdown('SIGTERM'));
 
+    // Reload configuration on SIGHUP (not available on Windows)
+    if (Deno.build.os !== 'windows') {
+      Deno.addSignalListener('SIGHUP', () => {
+        this._logger.info('AppServer: Received SIGHUP, reloading configuration...');
+        // Failures are logged by the reloader; the server keeps running as it was
+        this.reloadConfig().catch(() => undefined);
+      });
+    }
+
     // Keep process alive for HTTP mode
     const transportConfig = this._configManager.getTransportConfig();
     if (transportConfig?.type === 'http') {
@@ -19,16 +19,24 @@ import type { ZodSchema } from 'zod';
 import type { Logger } from '../utils/Logger.ts';
 import type { AuditLogger } from '../utils/AuditLogger.ts';
 import type { ConfigManager } from '../config/ConfigManager.ts';
+import type { LoggingConfig } from '../config/ConfigTypes.ts';
 import { ErrorHandler } from '../utils/ErrorHandler.ts';
 import { toError } from '../utils/Error.ts';
+import { Tracer } from '../utils/Tracer.ts';
 import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { ResourceRegistry } from '../resources/ResourceRegistry.ts';
+import type { PromptRegistry } from '../prompts/PromptRegistry.ts';
 import { CoreTools } from '../tools/CoreTools.ts';
-import { WorkflowTools } from '../tools/WorkflowTools.ts';
+import { CorePrompts } from '../prompts/CorePrompts.ts';
+import { WorkflowTools, type WorkflowToolsDependencies } from '../tools/WorkflowTools.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import type { TransportManager } from '../transport/TransportManager.ts';
 import type { KVManager } from '../storage/KVManager.ts';
+import type { RateLimitStore } from '../storage/RateLimitStore.ts';
+import { WorkflowJobManager } from '../workflows/WorkflowJobManager.ts';
 import type { OAuthProvider } from '../auth/OAuthProvider.ts';
 import { RequestContextManager } from './RequestContextManager.ts';
+import { McpLoggingBridge } from './McpLoggingBridge.ts';
 import { BeyondMcpSDKHelpers } from './MCPSDKHelpers.ts';
 
 // Import types
@@ -49,6 +57,13 @@ import {
   type ToolRegistrationConfig,
   WorkflowToolNaming,
 } from '../types/BeyondMcpTypes.ts';
+import type { ResourceDefinition, ResourceHandler } from '../types/ResourceTypes.ts';
+import type {
+  PromptDefinition,
+  PromptHandler,
+  PromptRegistration,
+  PromptRegistrationOptions,
+} from '../types/PromptTypes.ts';
 
 /**
  * Beyond MCP Server using official MCP SDK
@@ -65,6 +80,8 @@ export class BeyondMcpServer {
   protected sdkMcpServer: SdkMcpServer;
   protected workflowRegistry: WorkflowRegistry;
   protected toolRegistry: ToolRegistry;
+  protected resourceRegistry?: ResourceRegistry;
+  protected promptRegistry?: PromptRegistry;
   protected coreTools: CoreTools;
   protected workflowTools: WorkflowTools;
 
@@ -75,6 +92,8 @@ export class BeyondMcpServer {
   protected transportManager: TransportManager;
   protected kvManager?: KVManager;
   protected oauthProvider?: OAuthProvider;
+  protected rateLimitStore?: RateLimitStore;
+  protected workflowJobManager?: WorkflowJobManager;
   protected toolRegistrationConfig: ToolRegistrationConfig;
 
   // AsyncLocalStorage for request context
@@ -105,6 +124,15 @@ export class BeyondMcpServer {
     if (dependencies.oauthProvider) {
       this.oauthProvider = dependencies.oauthProvider;
     }
+    if (dependencies.resourceRegistry) {
+      this.resourceRegistry = dependencies.resourceRegistry;
+    }
+    if (dependencies.promptRegistry) {
+      this.promptRegistry = dependencies.promptRegistry;
+    }
+    if (dependencies.rateLimitStore) {
+      this.rateLimitStore = dependencies.rateLimitStore;
+    }
 
     if (!this.toolRegistry) {
       throw ErrorHandler.wrapError('Tool Registry must be set', 'BEYOND_MCP_SERVER_INIT_FAILED');
@@ -125,7 +153,7 @@ export class BeyondMcpServer {
         capabilities?: {
           tools?: Record<PropertyKey, never>;
           logging?: Record<PropertyKey, never>;
-          prompts?: Record<PropertyKey, never>;
+          prompts?: { listChanged?: boolean };
           resources?: { subscribe?: boolean };
           completions?: Record<PropertyKey, never>;
         };
@@ -168,6 +196,15 @@ export class BeyondMcpServer {
     // Initialize components
 
     this.toolRegistry.sdkMcpServer = this.sdkMcpServer;
+    if (this.rateLimitStore) {
+      this.toolRegistry.rateLimitStore = this.rateLimitStore;
+    }
+    if (this.resourceRegistry) {
+      this.resourceRegistry.sdkMcpServer = this.sdkMcpServer;
+    }
+    if (this.promptRegistry) {
+      this.promptRegistry.sdkMcpServer = this.sdkMcpServer;
+    }
 
     this.coreTools = new CoreTools({
       sdkMcpServer: this.sdkMcpServer,
@@ -175,11 +212,24 @@ export class BeyondMcpServer {
       auditLogger: this.auditLogger,
     });
 
-    this.workflowTools = new WorkflowTools({
+    const workflowToolsDependencies: WorkflowToolsDependencies = {
       workflowRegistry: this.workflowRegistry,
       logger: this.logger,
       auditLogger: this.auditLogger,
-    });
+    };
+    if (this.rateLimitStore) {
+      workflowToolsDependencies.rateLimitStore = this.rateLimitStore;
+    }
+    if (dependencies.workflowJobStore) {
+      this.workflowJobManager = new WorkflowJobManager({
+        workflowRegistry: this.workflowRegistry,
+        jobStore: dependencies.workflowJobStore,
+        logger: this.logger,
+        auditLogger: this.auditLogger,
+      });
+      workflowToolsDependencies.jobManager = this.workflowJobManager;
+    }
+    this.workflowTools = new WorkflowTools(workflowToolsDependencies);
 
     this.requestContextManager = new RequestContextManager(this.logger);
 
@@ -197,12 +247,21 @@ export class BeyondMcpServer {
     this.logger.info('BeyondMcpServer: Initializing MCP server...');
 
     try {
+      // Forward log entries to MCP clients if enabled
+      this.setupClientLogging();
+
       // Register core tools
       await this.registerCoreTools();
 
       // Register workflow tools if enabled and workflows exist
       await this.registerWorkflowTools();
 
+      // Resume or mark interrupted the background workflow jobs a previous run left unfinished
+      await this.workflowJobManager?.recoverJobs();
+
+      // Register core prompts if a prompt registry is configured
+      await this.registerCorePrompts();
+
       // Setup transport integration
       await this.setupTransport();
 
@@ -245,6 +304,57 @@ export class BeyondMcpServer {
     return this.sdkMcpServer;
   }
 
+  /**
+   * Get the instructions sent to clients in the initialize response
+   */
+  getInstructions(): string | undefined {
+    return this.sdkServerOptions()?._instructions;
+  }
+
+  /**
+   * Replace the instructions sent to clients in the initialize response (config reload)
+   * Sessions that are already initialized keep the instructions they received
+   */
+  setInstructions(instructions: string): void {
+    const serverOptions = this.sdkServerOptions();
+    if (!serverOptions) {
+      this.logger.warn(
+        'BeyondMcpServer: SDK server does not expose its instructions, restart to apply new ones',
+      );
+      return;
+    }
+    serverOptions._instructions = instructions;
+    this.logger.info('BeyondMcpServer: Instructions updated', {
+      contentLength: instructions.length,
+    });
+  }
+
+  /**
+   * The SDK only takes instructions as a constructor option and answers initialize
+   * requests from its private `_instructions` field, so they are read and replaced there.
+   * This depends on the SDK version pinned in deno.jsonc (1.24.3) - BeyondMcpServer.test.ts
+   * checks the field, so check it again when upgrading the SDK.
+   */
+  private sdkServerOptions(): { _instructions?: string | undefined } | undefined {
+    const server = this.sdkMcpServer?.server;
+    return server && '_instructions' in server
+      ? server as unknown as { _instructions?: string | undefined }
+      : undefined;
+  }
+
+  /**
+   * Get the OAuth scopes a tools/call request needs
+   * Combines the tool's requiredScopes with those of the workflow it executes (if any)
+   */
+  getRequiredScopesForToolCall(toolName: string, args?: Record<string, unknown>): string[] {
+    return [
+      ...new Set([
+        ...this.toolRegistry.getRequiredScopes(toolName),
+        ...this.workflowTools.getRequiredScopes(toolName, args),
+      ]),
+    ];
+  }
+
   /**
    * Get the transport manager instance
    */
@@ -265,7 +375,13 @@ export class BeyondMcpServer {
       requestId: context.requestId,
     });
 
-    return BeyondMcpServer.contextStorage.run(context, operation);
+    return await Tracer.getInstance().startActiveSpan('mcp.auth_context', {
+      attributes: {
+        'mcp.request_id': context.requestId,
+        'mcp.client_id': context.clientId,
+        'enduser.id': context.authenticatedUserId,
+      },
+    }, () => BeyondMcpServer.contextStorage.run(context, operation));
   }
 
   /**
@@ -352,6 +468,9 @@ export class BeyondMcpServer {
     this.logger.info('BeyondMcpServer: Shutting down Beyond MCP server...');
 
     try {
+      // Stop background workflow jobs (they are resumed or marked interrupted on the next start)
+      await this.workflowJobManager?.shutdown();
+
       // Log system shutdown
       await this.auditLogger.logSystemEvent({
         event: 'beyond_mcp_server_shutdown',
@@ -395,6 +514,68 @@ export class BeyondMcpServer {
     }
   }
 
+  /**
+   * Register a resource with the MCP server
+   * Delegates to ResourceRegistry with Zod validation of template parameters
+   */
+  registerResource<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: ResourceDefinition<T>,
+    handler: ResourceHandler<T>,
+  ): void {
+    if (!this.resourceRegistry) {
+      throw ErrorHandler.wrapError(
+        'Resource Registry must be provided in dependencies to register resources',
+        'RESOURCE_REGISTRATION_FAILED',
+        { resourceName: name },
+      );
+    }
+    this.resourceRegistry.registerResource(name, definition, handler);
+  }
+
+  /**
+   * Get the resource registry instance (if configured)
+   */
+  getResourceRegistry(): ResourceRegistry | undefined {
+    return this.resourceRegistry;
+  }
+
+  /**
+   * Register a prompt with the MCP server
+   * Delegates to PromptRegistry with Zod validation of prompt arguments
+   */
+  registerPrompt<T extends Record<string, ZodSchema>>(
+    name: string,
+    definition: PromptDefinition<T>,
+    handler?: PromptHandler<T>,
+    options?: PromptRegistrationOptions,
+  ): void {
+    if (!this.promptRegistry) {
+      throw ErrorHandler.wrapError(
+        'Prompt Registry must be provided in dependencies to register prompts',
+        'PROMPT_REGISTRATION_FAILED',
+        { promptName: name },
+      );
+    }
+    this.promptRegistry.registerPrompt(name, definition, handler, options);
+  }
+
+  /**
+   * Register multiple prompts at once
+   */
+  registerPrompts(prompts: PromptRegistration[]): void {
+    for (const prompt of prompts) {
+      this.registerPrompt(prompt.name, prompt.definition, prompt.handler, prompt.options);
+    }
+  }
+
+  /**
+   * Get the prompt registry instance (if configured)
+   */
+  getPromptRegistry(): PromptRegistry | undefined {
+    return this.promptRegistry;
+  }
+
   /**
    * Register a workflow with the workflow registry
    */
@@ -467,6 +648,27 @@ export class BeyondMcpServer {
     });
   }
 
+  /**
+   * Register core prompts (default templates) when a prompt registry is configured
+   */
+  protected async registerCorePrompts(): Promise<void> {
+    if (!this.promptRegistry) {
+      this.logger.debug('BeyondMcpServer: No prompt registry configured, skipping core prompts');
+      return;
+    }
+
+    const corePrompts = new CorePrompts({
+      logger: this.logger,
+      toolRegistry: this.toolRegistry,
+    });
+    corePrompts.registerWith(this.promptRegistry);
+
+    this.logger.debug('BeyondMcpServer: Core prompts registered', {
+      promptCount: this.promptRegistry.getPromptCount(),
+      prompts: this.promptRegistry.getPromptNames(),
+    });
+  }
+
   /**
    * Register workflow tools if workflows exist and tools are enabled
    */
@@ -504,6 +706,43 @@ export class BeyondMcpServer {
     });
   }
 
+  /**
+   * Re-register workflow tools after workflows were added or removed at runtime
+   * (e.g. by plugin hot-reload), so their workflow_name enums stay current
+   */
+  async refreshWorkflowTools(): Promise<void> {
+    if (!this.initialized) {
+      return;
+    }
+
+    this.workflowTools.unregisterFrom(
+      this.toolRegistry,
+      this.toolRegistrationConfig,
+      this.config.server.name,
+    );
+    await this.registerWorkflowTools();
+  }
+
+  /**
+   * Bridge Logger to MCP notifications/message (LOG_FORWARD_TO_CLIENT)
+   */
+  protected setupClientLogging(): void {
+    const loggingConfig = this.configManager?.get<LoggingConfig>('logging');
+    if (!loggingConfig?.forwardToClient) {
+      return;
+    }
+    if (this.config.capabilities && !this.config.capabilities.logging) {
+      this.logger.warn(
+        'BeyondMcpServer: Client log forwarding requires the logging capability - skipped',
+      );
+      return;
+    }
+
+    McpLoggingBridge.getInstance().install(this.sdkMcpServer, this.logger, {
+      defaultLevel: loggingConfig.clientLevel,
+    });
+  }
+
   /**
    * Setup transport integration
    */
@@ -537,6 +776,14 @@ export class BeyondMcpServer {
         count: this.workflowRegistry.getWorkflowNames().length,
         available: this.workflowRegistry.getWorkflowNames(),
       },
+      resources: {
+        count: this.resourceRegistry?.getResourceCount() || 0,
+        available: this.resourceRegistry?.getResourceNames() || [],
+      },
+      prompts: {
+        count: this.promptRegistry?.getPromptCount() || 0,
+        available: this.promptRegistry?.getPromptNames() || [],
+      },
       timestamp: new Date().toISOString(),
       health: {
         status: 'healthy',
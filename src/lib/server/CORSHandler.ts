@@ -40,7 +40,15 @@ export class CORSHandler {
     allowOrigins: ['*'],
     allowMethods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
     allowHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'MCP-Protocol-Version'],
-    exposeHeaders: ['Mcp-Session-Id', 'WWW-Authenticate'],
+    exposeHeaders: [
+      'Mcp-Session-Id',
+      'WWW-Authenticate',
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'RateLimit-Policy',
+      'Retry-After',
+    ],
     maxAge: 86400, // 24 hours
     allowCredentials: false,
   };
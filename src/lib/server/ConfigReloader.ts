@@ -0,0 +1,250 @@
+/**
+ * Config Reloader - Apply configuration changes to a running server
+ *
+ * Loads the configuration again (config file, overrides), diffs it against the running
+ * configuration and pushes the changes running components can take:
+ * - logging.level → Logger.setLevel
+ * - transport.http.cors.origins → CORSHandler
+ * - rateLimit.http limits → HttpRateLimiter
+ * - mcpServerInstructionsConfig (and the instructions file) → initialize response
+ * - docsEndpoint → DocsEndpointHandler
+ *
+ * Environment variables, including those from the env file, keep their startup values.
+ * Any other change needs a restart. The reload is then rejected as a whole with a
+ * ConfigReloadError listing each such value, and the running configuration is kept.
+ *
+ * Triggered by SIGHUP (AppServer) and POST /api/v1/admin/config/reload.
+ */
+
+import type { ConfigManager } from '../config/ConfigManager.ts';
+import type { ConfigChange, DocsEndpointConfig } from '../config/ConfigTypes.ts';
+import type { HttpRateLimitConfig } from '../types/RateLimitTypes.ts';
+import type { Logger, LogLevel } from '../utils/Logger.ts';
+import type { BeyondMcpServer } from './BeyondMcpServer.ts';
+import type { HttpServer } from './HttpServer.ts';
+import { getMcpServerInstructions } from './DependencyHelpers.ts';
+import { toError } from '../utils/Error.ts';
+
+/**
+ * Dependencies required by ConfigReloader
+ */
+export interface ConfigReloaderDependencies {
+  configManager: ConfigManager;
+  logger: Logger;
+  beyondMcpServer: BeyondMcpServer;
+  /** HTTP server to update (set once it is created) */
+  httpServer?: HttpServer | undefined;
+  /** Instructions loaded from the configuration at startup */
+  mcpServerInstructions?: string | undefined;
+}
+
+/**
+ * A changed value that cannot be applied without a restart
+ */
+export interface ConfigReloadRejection {
+  /** Dotted config path */
+  path: string;
+  /** Why the running server cannot take the change */
+  reason: string;
+}
+
+/**
+ * Outcome of a successful reload
+ */
+export interface ConfigReloadResult {
+  /** Changed values, all applied (secrets redacted) */
+  changes: ConfigChange[];
+  /** Whether new instructions are sent to sessions initialized from now on */
+  instructionsUpdated: boolean;
+}
+
+/**
+ * Reload rejected because some changes need a restart
+ */
+export class ConfigReloadError extends Error {
+  override name = 'ConfigReloadError';
+  readonly rejected: ConfigReloadRejection[];
+
+  constructor(rejected: ConfigReloadRejection[]) {
+    super(
+      `Configuration reload rejected - restart the server to apply:\n${
+        rejected.map(({ path, reason }) => `  ${path}: ${reason}`).join('\n')
+      }`,
+    );
+    this.rejected = rejected;
+  }
+}
+
+// Values the running server takes without a restart (path or path prefix)
+const LIVE_PATHS = [
+  'logging.level',
+  'transport.http.cors.origins',
+  'rateLimit.http.endpoints',
+  'rateLimit.http.maxConcurrentRequests',
+  'rateLimit.http.trustProxy',
+  'mcpServerInstructionsConfig',
+  'docsEndpoint',
+];
+
+// Why the other values need a restart, by path prefix (first match wins)
+const RESTART_REASONS: Array<[string, string]> = [
+  ['logging', 'the log format and client log forwarding are set up at startup'],
+  ['transport.http.cors', 'only the allowed origins are applied to the running server'],
+  ['rateLimit.http.enabled', 'the HTTP rate limiter is created at startup'],
+  ['rateLimit', 'MCP rate limits are set up with the rate limit store at startup'],
+  [
+    'transport',
+    'the HTTP listener and MCP transports are created at startup; recreating them drops sessions',
+  ],
+  ['server', 'the server identity and HTTP listener are set at startup'],
+  ['storage', 'storage is opened at startup'],
+  ['pluginManager', 'plugins are loaded at startup'],
+  ['oauthProvider', 'the OAuth provider is created at startup'],
+  ['oauthConsumer', 'the OAuth consumer is created at startup'],
+];
+
+/**
+ * Applies reloaded configuration to running components
+ */
+export class ConfigReloader {
+  /** HTTP server to update; AppServer sets it once the server is created */
+  httpServer: HttpServer | undefined;
+
+  private configManager: ConfigManager;
+  private logger: Logger;
+  private beyondMcpServer: BeyondMcpServer;
+  private mcpServerInstructions: string | undefined;
+  private pending: Promise<unknown> = Promise.resolve();
+
+  constructor(dependencies: ConfigReloaderDependencies) {
+    this.configManager = dependencies.configManager;
+    this.logger = dependencies.logger;
+    this.beyondMcpServer = dependencies.beyondMcpServer;
+    this.httpServer = dependencies.httpServer;
+    this.mcpServerInstructions = dependencies.mcpServerInstructions;
+  }
+
+  /**
+   * Reload the configuration and apply the changes
+   * Throws ConfigReloadError (keeping the running configuration) if a change needs a restart
+   */
+  reload(): Promise<ConfigReloadResult> {
+    // One reload at a time: each diffs against the configuration the previous one applied
+    const result = this.pending.then(() => this.runReload());
+    this.pending = result.catch(() => undefined);
+    return result;
+  }
+
+  private async runReload(): Promise<ConfigReloadResult> {
+    this.logger.info('ConfigReloader: Reloading configuration...');
+
+    try {
+      const changes = await this.configManager.reloadConfig((changes) => {
+        const rejected = this.findRestartRequired(changes);
+        if (rejected.length > 0) {
+          throw new ConfigReloadError(rejected);
+        }
+      });
+
+      this.applyChanges(changes);
+      const instructionsUpdated = await this.reloadInstructions();
+
+      this.logger.info('ConfigReloader: Configuration reloaded', {
+        changed: changes.map((change) => change.path),
+        instructionsUpdated,
+      });
+      return { changes, instructionsUpdated };
+    } catch (error) {
+      if (error instanceof ConfigReloadError) {
+        this.logger.warn(`ConfigReloader: ${error.message}`);
+      } else {
+        this.logger.error('ConfigReloader: Failed to reload configuration', toError(error));
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Changes the running server cannot take
+   */
+  private findRestartRequired(changes: ConfigChange[]): ConfigReloadRejection[] {
+    const rejected: ConfigReloadRejection[] = [];
+    for (const { path } of changes) {
+      if (!LIVE_PATHS.some((livePath) => matchesPath(path, livePath))) {
+        const reason = RESTART_REASONS.find(([prefix]) => matchesPath(path, prefix))?.[1] ??
+          'it is only read at startup';
+        rejected.push({ path, reason });
+      } else if (matchesPath(path, 'docsEndpoint') && !this.httpServer?.getDocsEndpointHandler()) {
+        rejected.push({
+          path,
+          reason: 'the docs endpoint was not running at startup, so its content is not loaded',
+        });
+      }
+    }
+    return rejected;
+  }
+
+  /**
+   * Push the changed values to the components using them
+   */
+  private applyChanges(changes: ConfigChange[]): void {
+    const changed = (prefix: string) => changes.some(({ path }) => matchesPath(path, prefix));
+
+    if (changed('logging.level')) {
+      this.logger.setLevel(this.configManager.get<LogLevel>('logging.level'));
+    }
+
+    if (!this.httpServer) {
+      return;
+    }
+    if (changed('transport.http.cors.origins')) {
+      this.httpServer.updateCorsOrigins(
+        this.configManager.get<string[]>('transport.http.cors.origins') || ['*'],
+      );
+    }
+    if (changed('rateLimit.http')) {
+      this.httpServer.updateRateLimits(
+        this.configManager.get<HttpRateLimitConfig>('rateLimit.http'),
+      );
+    }
+    if (changed('docsEndpoint')) {
+      // A disabled docsEndpoint section is dropped from the configuration
+      const docsEndpointConfig = this.configManager.get<Partial<DocsEndpointConfig>>(
+        'docsEndpoint',
+        { enabled: false },
+      );
+      this.httpServer.getDocsEndpointHandler()?.updateConfig(docsEndpointConfig);
+    }
+  }
+
+  /**
+   * Load the instructions again, as the instructions file may have changed too
+   * Servers given instructions other than the configured ones keep them
+   */
+  private async reloadInstructions(): Promise<boolean> {
+    const previous = this.mcpServerInstructions;
+    if (previous === undefined || (this.beyondMcpServer.getInstructions() ?? '') !== previous) {
+      return false;
+    }
+
+    try {
+      const instructions = await getMcpServerInstructions(this.configManager, this.logger);
+      if (instructions === previous) {
+        return false;
+      }
+      this.beyondMcpServer.setInstructions(instructions);
+      this.mcpServerInstructions = instructions;
+      return true;
+    } catch (error) {
+      this.logger.error(
+        'ConfigReloader: Failed to reload instructions, keeping the current ones',
+        toError(error),
+      );
+      return false;
+    }
+  }
+}
+
+function matchesPath(path: string, prefix: string): boolean {
+  return path === prefix || path.startsWith(`${prefix}.`);
+}
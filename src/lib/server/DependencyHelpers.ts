@@ -12,26 +12,39 @@ import type {
   DocsEndpointConfig,
   LoggingConfig,
   McpServerInstructionsConfig,
+  MetricsEndpointConfig,
   OAuthConsumerConfig,
   OAuthProviderConfig,
   PluginManagerConfig,
   ServerConfig,
   StorageConfig,
   ThirdPartyApiConfig,
+  TracingConfig,
   TransportConfig,
   TransportEventStoreChunkedConfig,
 } from '../config/ConfigTypes.ts';
 import { Logger } from '../utils/Logger.ts';
 import { AuditLogger } from '../utils/AuditLogger.ts';
+import { type SpanExporter, Tracer } from '../utils/Tracer.ts';
+import {
+  ConsoleSpanExporter,
+  FileSpanExporter,
+  OtlpHttpSpanExporter,
+} from '../utils/SpanExporters.ts';
 import { KVManager } from '../storage/KVManager.ts';
 import { SessionStore } from '../storage/SessionStore.ts';
 import { TransportPersistenceStore } from '../storage/TransportPersistenceStore.ts';
 import { TransportEventStore } from '../storage/TransportEventStore.ts';
 import { TransportEventStoreChunked } from '../storage/TransportEventStoreChunked.ts';
-import { CredentialStore } from '../storage/CredentialStore.ts';
+import { CredentialStore, type CredentialStoreConfig } from '../storage/CredentialStore.ts';
+import { RateLimitStore } from '../storage/RateLimitStore.ts';
+import { WorkflowJobStore } from '../storage/WorkflowJobStore.ts';
+import { AuditStore } from '../storage/AuditStore.ts';
 import { ErrorHandler } from '../utils/ErrorHandler.ts';
 import { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import { ToolRegistry } from '../tools/ToolRegistry.ts';
+import { ResourceRegistry } from '../resources/ResourceRegistry.ts';
+import { PromptRegistry } from '../prompts/PromptRegistry.ts';
 import { PluginManager } from '../plugins/PluginManager.ts';
 import { OAuthProvider } from '../auth/OAuthProvider.ts';
 import { OAuthConsumer } from '../auth/OAuthConsumer.ts';
@@ -46,6 +59,7 @@ import type {
   DependenciesHealthCheck,
 } from '../types/AppServerTypes.ts';
 import type { HttpServerConfig } from './ServerTypes.ts';
+import type { RateLimitConfig } from '../types/RateLimitTypes.ts';
 import { loadInstructions, validateInstructions } from '../utils/InstructionsLoader.ts';
 
 /**
@@ -80,6 +94,69 @@ export function getAuditLogger(configManager: ConfigManager, logger: Logger): Au
   return new AuditLogger(auditConfig, logger);
 }
 
+/**
+ * Attach the KV audit index and open the audit log
+ */
+export async function initializeAuditLogger(
+  auditLogger: AuditLogger,
+  configManager: ConfigManager,
+  kvManager: KVManager,
+  logger: Logger,
+): Promise<AuditLogger> {
+  const auditConfig = configManager?.get<AuditConfig>('audit');
+  if (auditConfig?.enabled && auditConfig.indexEnabled !== false) {
+    auditLogger.setStore(
+      new AuditStore(kvManager, {
+        keyPrefix: ['audit'],
+        ...(auditConfig.retentionDays !== undefined && {
+          retentionDays: auditConfig.retentionDays,
+        }),
+      }, logger),
+    );
+  }
+
+  try {
+    await auditLogger.initialize();
+  } catch (error) {
+    logger.error('DependencyHelpers: Failed to initialize audit logger', toError(error));
+  }
+  return auditLogger;
+}
+
+/**
+ * Configure request tracing (spans are no-ops unless tracing is enabled)
+ */
+export function getTracer(configManager: ConfigManager, logger: Logger): Tracer {
+  const tracer = Tracer.getInstance();
+  const tracingConfig = configManager?.get<TracingConfig>('tracing');
+  if (!tracingConfig?.enabled) {
+    return tracer;
+  }
+
+  let exporter: SpanExporter;
+  switch (tracingConfig.exporter) {
+    case 'console':
+      exporter = new ConsoleSpanExporter(logger);
+      break;
+    case 'file':
+      exporter = new FileSpanExporter(tracingConfig.filePath);
+      break;
+    default:
+      exporter = new OtlpHttpSpanExporter({
+        endpoint: tracingConfig.otlpEndpoint,
+        ...(tracingConfig.otlpHeaders && { headers: tracingConfig.otlpHeaders }),
+      });
+  }
+
+  tracer.configure({
+    serviceName: tracingConfig.serviceName,
+    serviceVersion: configManager.get<ServerConfig>('server')?.version,
+    exporter,
+    logger,
+  });
+  return tracer;
+}
+
 /**
  * Create standard KV manager instance
  */
@@ -92,6 +169,14 @@ export async function getKvManager(
 
   const kvManager = new KVManager({
     kvPath,
+    ...(storageConfig.backend && { backend: storageConfig.backend }),
+    ...(storageConfig.sqlitePath && { sqlitePath: storageConfig.sqlitePath }),
+    ...(storageConfig.redisUrl && {
+      redis: {
+        url: storageConfig.redisUrl,
+        ...(storageConfig.redisKeyPrefix && { keyPrefix: storageConfig.redisKeyPrefix }),
+      },
+    }),
   }, logger);
 
   await kvManager.initialize();
@@ -105,6 +190,38 @@ export function getSessionStore(kvManager: KVManager, logger: Logger): SessionSt
   return new SessionStore(kvManager, { keyPrefix: ['sessions'] }, logger);
 }
 
+/**
+ * Create standard rate limit store instance
+ * The global limit comes from RATE_LIMIT_* settings; per-tool and per-workflow
+ * limits are declared on the tools and workflows themselves
+ */
+export function getRateLimitStore(
+  configManager: ConfigManager,
+  kvManager: KVManager,
+  logger: Logger,
+): RateLimitStore {
+  const rateLimitConfig = configManager?.get<RateLimitConfig>('rateLimit');
+  if (!rateLimitConfig?.enabled) {
+    return new RateLimitStore(kvManager, { keyPrefix: ['rate_limits'] }, logger);
+  }
+
+  return new RateLimitStore(kvManager, {
+    keyPrefix: ['rate_limits'],
+    globalLimit: {
+      requests: rateLimitConfig.requestsPerMinute,
+      window: (rateLimitConfig.windowMs ?? 60000) / 1000,
+      ...(rateLimitConfig.burstLimit !== undefined && { burst: rateLimitConfig.burstLimit }),
+    },
+  }, logger);
+}
+
+/**
+ * Create standard workflow job store instance (background workflow runs)
+ */
+export function getWorkflowJobStore(kvManager: KVManager, logger: Logger): WorkflowJobStore {
+  return new WorkflowJobStore(kvManager, { keyPrefix: ['workflow_jobs'] }, logger);
+}
+
 /**
  * Create standard transport event store instance
  */
@@ -162,8 +279,29 @@ export function getTransportEventStore(
 /**
  * Create standard credential store instance
  */
-export function getCredentialStore(kvManager: KVManager, logger: Logger): CredentialStore {
-  return new CredentialStore(kvManager, {}, logger);
+export function getCredentialStore(
+  kvManager: KVManager,
+  logger: Logger,
+  configManager?: ConfigManager,
+): CredentialStore {
+  const encryptionConfig = configManager?.get<StorageConfig>('storage')?.credentialEncryption;
+  if (!encryptionConfig) {
+    return new CredentialStore(kvManager, {}, logger);
+  }
+
+  const credentialStoreConfig: CredentialStoreConfig = {
+    enableEncryption: encryptionConfig.enabled,
+  };
+  if (encryptionConfig.key) {
+    credentialStoreConfig.encryptionKey = encryptionConfig.key;
+  }
+  if (encryptionConfig.keyId) {
+    credentialStoreConfig.encryptionKeyId = encryptionConfig.keyId;
+  }
+  if (encryptionConfig.previousKeys) {
+    credentialStoreConfig.previousEncryptionKeys = encryptionConfig.previousKeys;
+  }
+  return new CredentialStore(kvManager, credentialStoreConfig, logger);
 }
 
 /**
@@ -197,16 +335,43 @@ export function getToolRegistry(logger: Logger, errorHandler: ErrorHandler): Too
   });
 }
 
+/**
+ * Create standard resource registry instance
+ */
+export function getResourceRegistry(
+  logger: Logger,
+  errorHandler: ErrorHandler,
+): ResourceRegistry {
+  return ResourceRegistry.getInstance({
+    logger,
+    errorHandler,
+  });
+}
+
+/**
+ * Create standard prompt registry instance
+ */
+export function getPromptRegistry(
+  logger: Logger,
+  errorHandler: ErrorHandler,
+): PromptRegistry {
+  return PromptRegistry.getInstance({
+    logger,
+    errorHandler,
+  });
+}
+
 /**
  * Plugin discovery and static plugin registration
  * Registers both static plugins (from dependencies) and discovered plugins
  * This enables hybrid mode: static plugins for compiled binaries + discovery for development
+ * Returns the PluginManager so callers can start watching for plugin changes
  */
 export async function registerPluginsInRegistries(
   toolRegistry: ToolRegistry,
   workflowRegistry: WorkflowRegistry,
   dependencies: AppServerDependencies,
-): Promise<void> {
+): Promise<PluginManager> {
   const logger = dependencies.logger;
   const staticPlugins = dependencies.staticPlugins || [];
 
@@ -291,6 +456,8 @@ export async function registerPluginsInRegistries(
     staticPlugins: staticPlugins?.length || 0,
     discoveredPlugins: stats.totalPlugins - (staticPlugins?.length || 0),
   });
+
+  return pluginManager;
 }
 
 /**
@@ -303,6 +470,7 @@ export function getOAuthProvider(
   credentialStore: CredentialStore,
   oauthConsumer?: OAuthConsumer,
   thirdPartyApiClient?: any,
+  auditLogger?: AuditLogger,
 ): OAuthProvider | undefined {
   const oauthConfig = configManager.get<OAuthProviderConfig>('oauthProvider');
 
@@ -328,6 +496,7 @@ export function getOAuthProvider(
     credentialStore,
     oauthConsumer,
     thirdPartyApiClient,
+    auditLogger,
   });
 }
 
@@ -424,6 +593,8 @@ export function getHttpServerConfig(configManager: ConfigManager): HttpServerCon
   const transportConfig = configManager.get<TransportConfig>('transport');
   const oauthConfig = configManager.get<OAuthProviderConfig>('oauthProvider');
   const serverConfig = configManager.get<ServerConfig>('server');
+  const rateLimitConfig = configManager.get<RateLimitConfig>('rateLimit');
+  const metricsConfig = configManager.get<MetricsEndpointConfig>('metrics');
 
   // Don't create HTTP server config if STDIO (not HTTP) transport and skipHttp or no OAuth provider is configured
   if (transportConfig?.type !== 'http' && (serverConfig.skipHttp || !oauthConfig.clientId)) {
@@ -442,10 +613,29 @@ export function getHttpServerConfig(configManager: ConfigManager): HttpServerCon
     api: {
       version: 'v1',
       basePath: '/api/v1',
+      adminScope: configManager.get('API_ADMIN_SCOPE', 'admin'),
+      adminUsers: getConfigList(configManager, 'API_ADMIN_USERS'),
+      adminClients: getConfigList(configManager, 'API_ADMIN_CLIENTS'),
     },
+    features: {
+      rateLimit: !!rateLimitConfig?.http?.enabled,
+    },
+    ...(rateLimitConfig?.http && { rateLimit: rateLimitConfig.http }),
+    ...(metricsConfig?.enabled && { metrics: metricsConfig }),
   };
 }
 
+/**
+ * Read a comma-separated list setting (a single env value parses to a string or number)
+ */
+function getConfigList(configManager: ConfigManager, key: string): string[] {
+  const value = configManager.get<unknown>(key);
+  if (value === undefined || value === '') {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(String).filter((item) => item);
+}
+
 /**
  * Load instructions using flexible loading system
  */
@@ -824,17 +1014,42 @@ export async function getAllDependencies(
   const logger = overrides.logger || getLogger(configManager);
 
   const auditLogger = overrides.auditLogger || getAuditLogger(configManager, logger);
+  getTracer(configManager, logger);
 
   const kvManager = overrides.kvManager || await getKvManager(configManager, logger);
+  await initializeAuditLogger(auditLogger, configManager, kvManager, logger);
   const sessionStore = overrides.sessionStore || getSessionStore(kvManager, logger);
   const eventStore = overrides.eventStore ||
     getTransportEventStore(configManager, logger, kvManager);
   const transportPersistenceStore = overrides.transportPersistenceStore ||
     getTransportPersistenceStore(configManager, kvManager, logger);
-  const credentialStore = overrides.credentialStore || getCredentialStore(kvManager, logger);
+  const credentialStore = overrides.credentialStore ||
+    getCredentialStore(kvManager, logger, configManager);
+  if (
+    !overrides.credentialStore &&
+    configManager.get<StorageConfig>('storage')?.credentialEncryption?.migrateOnStartup &&
+    credentialStore.isEncryptionEnabled()
+  ) {
+    try {
+      await credentialStore.migrateEncryption();
+    } catch (error) {
+      logger.error('DependencyHelpers: Credential encryption migration failed', toError(error));
+    }
+  }
+  const rateLimitStore = overrides.rateLimitStore ||
+    getRateLimitStore(configManager, kvManager, logger);
+  const workflowJobStore = overrides.workflowJobStore || getWorkflowJobStore(kvManager, logger);
   const errorHandler = overrides.errorHandler || getErrorHandler();
   const workflowRegistry = overrides.workflowRegistry || getWorkflowRegistry(logger, errorHandler);
   const toolRegistry = overrides.toolRegistry || getToolRegistry(logger, errorHandler);
+  // Hide tools from tools/list when the caller's token lacks their required scopes
+  toolRegistry.hideUnauthorizedTools = configManager.get<boolean>(
+    'MCP_HIDE_UNAUTHORIZED_TOOLS',
+    false,
+  ) === true;
+  const resourceRegistry = overrides.resourceRegistry ||
+    getResourceRegistry(logger, errorHandler);
+  const promptRegistry = overrides.promptRegistry || getPromptRegistry(logger, errorHandler);
   // Consumer-specific dependencies must be created before OAuthProvider
   // because OAuthProvider needs them for session binding
   const consumerDeps: any = {};
@@ -859,6 +1074,7 @@ export async function getAllDependencies(
     credentialStore,
     consumerDeps.oauthConsumer, // Pass OAuth consumer for third-party auth
     consumerDeps.thirdpartyApiClient, // Pass API client for token refresh
+    auditLogger, // Token revocation events
   );
 
   const transportManager = overrides.transportManager || getTransportManager(
@@ -903,9 +1119,13 @@ export async function getAllDependencies(
     eventStore,
     transportPersistenceStore,
     credentialStore,
+    rateLimitStore,
+    workflowJobStore,
     errorHandler,
     workflowRegistry,
     toolRegistry,
+    resourceRegistry,
+    promptRegistry,
     oauthProvider,
     transportManager,
     httpServerConfig,
@@ -944,7 +1164,7 @@ export async function getAllDependencies(
     return server;
   })();
 
-  await registerPluginsInRegistries(
+  const pluginManager = await registerPluginsInRegistries(
     allDeps.toolRegistry,
     allDeps.workflowRegistry,
     allDeps,
@@ -953,9 +1173,16 @@ export async function getAllDependencies(
   // Initialize Beyond MCP server
   await beyondMcpServer.initialize();
 
+  // Hot-reload plugins (PLUGINS_WATCH_CHANGES) - workflow tools list the workflow names,
+  // so they are re-registered whenever a plugin changes
+  pluginManager.on('plugin:changed', () => beyondMcpServer.refreshWorkflowTools());
+  await pluginManager.startWatching();
+
   return {
     ...allDeps,
     beyondMcpServer,
+    pluginManager,
+    mcpServerInstructions,
   };
 }
 
@@ -86,6 +86,28 @@ export class DocsEndpointHandler {
     return this.config.path;
   }
 
+  /**
+   * Whether the endpoint serves requests (a config reload can turn it off)
+   */
+  get enabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Apply new endpoint settings (config reload); the loaded content is kept
+   */
+  updateConfig(config: Partial<DocsEndpointConfig>): void {
+    this.config = { ...this.config, ...config };
+    this.htmlCache.clear();
+
+    this.logger.info('DocsEndpointHandler: Configuration updated', {
+      enabled: this.config.enabled,
+      path: this.config.path,
+      allowListing: this.config.allowListing,
+      cachingEnabled: this.config.enableCache,
+    });
+  }
+
   /**
    * Handle documentation requests
    */
@@ -0,0 +1,410 @@
+/**
+ * HTTP Rate Limiter - Request rate limiting and concurrency caps for the HTTP server
+ *
+ * Applies per-IP and per-client token buckets to configured endpoints (typically
+ * /mcp, /token, /authorize, /register and /api/v1/*) and caps the number of
+ * requests in flight.
+ * Bucket state is kept in KV via RateLimitStore, so instances sharing one Deno KV
+ * database share their limits. Concurrency caps are tracked per instance.
+ *
+ * Responses carry `RateLimit-Limit`, `RateLimit-Remaining`, `RateLimit-Reset` and
+ * `RateLimit-Policy` headers, plus `Retry-After` when a request is rejected.
+ */
+
+import type { Logger } from '../../types/library.types.ts';
+import type { RateLimitStore } from '../storage/RateLimitStore.ts';
+import type { MCPRateLimitInfo } from '../types/BeyondMcpTypes.ts';
+import type {
+  HttpEndpointRateLimitConfig,
+  HttpRateLimitConfig,
+  HttpRateLimitRule,
+} from '../types/RateLimitTypes.ts';
+import type { HttpRateLimitInfo, HttpRequestContext, ServerEvents } from './ServerTypes.ts';
+import type { ErrorPages } from './ErrorPages.ts';
+import { toError } from '../utils/Error.ts';
+
+/**
+ * Dependencies required by HttpRateLimiter
+ */
+export interface HttpRateLimiterDependencies {
+  logger: Logger;
+  rateLimitStore: RateLimitStore;
+  errorPages: ErrorPages;
+}
+
+/**
+ * Listener for rate limit rejections
+ */
+export type RateLimitExceededListener = (event: ServerEvents['ratelimit:exceeded']) => void;
+
+/**
+ * Result of checking one bucket
+ */
+interface BucketCheck {
+  id: string;
+  rule: HttpRateLimitRule;
+  info: MCPRateLimitInfo;
+}
+
+/**
+ * HTTP rate limiting middleware
+ */
+export class HttpRateLimiter {
+  private config: HttpRateLimitConfig;
+  private logger: Logger;
+  private rateLimitStore: RateLimitStore;
+  private errorPages: ErrorPages;
+  private listeners: RateLimitExceededListener[] = [];
+
+  // In-flight request counters (per instance)
+  private activeRequests = 0;
+  private activeByEndpoint = new Map<string, number>();
+
+  constructor(config: HttpRateLimitConfig, dependencies: HttpRateLimiterDependencies) {
+    this.config = config;
+    this.logger = dependencies.logger;
+    this.rateLimitStore = dependencies.rateLimitStore;
+    this.errorPages = dependencies.errorPages;
+
+    this.logger.info('HttpRateLimiter: Initialized', {
+      endpoints: Object.keys(config.endpoints),
+      maxConcurrentRequests: config.maxConcurrentRequests,
+      trustProxy: !!config.trustProxy,
+    });
+  }
+
+  /**
+   * Replace the limits (config reload); bucket state and in-flight counters are kept
+   */
+  updateConfig(config: HttpRateLimitConfig): void {
+    this.config = config;
+
+    this.logger.info('HttpRateLimiter: Configuration updated', {
+      endpoints: Object.keys(config.endpoints),
+      maxConcurrentRequests: config.maxConcurrentRequests,
+      trustProxy: !!config.trustProxy,
+    });
+  }
+
+  /**
+   * Subscribe to rate limit rejections ('ratelimit:exceeded')
+   */
+  on(event: 'ratelimit:exceeded', listener: RateLimitExceededListener): void {
+    if (event === 'ratelimit:exceeded') {
+      this.listeners.push(listener);
+    }
+  }
+
+  /**
+   * Remove a rate limit rejection listener
+   */
+  off(event: 'ratelimit:exceeded', listener: RateLimitExceededListener): void {
+    if (event === 'ratelimit:exceeded') {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    }
+  }
+
+  /**
+   * Number of requests currently in flight on this instance
+   */
+  getActiveRequests(): number {
+    return this.activeRequests;
+  }
+
+  /**
+   * Find the endpoint limits for a path
+   * Exact keys win; keys ending in '/*' match by prefix (longest prefix first)
+   */
+  matchEndpoint(path: string): { key: string; config: HttpEndpointRateLimitConfig } | undefined {
+    const exact = this.config.endpoints[path];
+    if (exact) {
+      return { key: path, config: exact };
+    }
+
+    let match: { key: string; config: HttpEndpointRateLimitConfig } | undefined;
+    for (const [key, config] of Object.entries(this.config.endpoints)) {
+      if (!key.endsWith('/*')) continue;
+      const prefix = key.slice(0, -1);
+      if (path.startsWith(prefix) && (!match || key.length > match.key.length)) {
+        match = { key, config };
+      }
+    }
+    return match;
+  }
+
+  /**
+   * Determine the client IP, honouring proxy headers only when configured to
+   */
+  getClientIP(request: Request, remoteAddr?: Deno.Addr): string {
+    if (this.config.trustProxy) {
+      const forwardedFor = request.headers.get('x-forwarded-for');
+      if (forwardedFor) {
+        return forwardedFor.split(',')[0]!.trim();
+      }
+      const realIP = request.headers.get('x-real-ip');
+      if (realIP) {
+        return realIP.trim();
+      }
+    }
+    if (remoteAddr && 'hostname' in remoteAddr) {
+      return remoteAddr.hostname;
+    }
+    return 'unknown';
+  }
+
+  /**
+   * Apply rate limits and concurrency caps around a request handler
+   */
+  async handle(
+    request: Request,
+    path: string,
+    clientIP: string,
+    next: () => Promise<Response>,
+  ): Promise<Response> {
+    const endpoint = this.matchEndpoint(path);
+    if (!endpoint && !this.config.maxConcurrentRequests) {
+      return await next();
+    }
+    const endpointKey = endpoint?.key ?? path;
+
+    // Concurrency caps are checked first - they don't consume tokens
+    const concurrencyRejection = this.checkConcurrency(
+      request,
+      endpointKey,
+      clientIP,
+      endpoint?.config,
+    );
+    if (concurrencyRejection) {
+      return concurrencyRejection;
+    }
+
+    const checks = endpoint
+      ? await this.checkBuckets(request, endpointKey, clientIP, endpoint.config)
+      : [];
+
+    const rejected = checks.find((check) => !check.info.allowed);
+    if (rejected) {
+      this.emitExceeded(request, path, clientIP, rejected);
+      return this.withRateLimitHeaders(
+        this.errorPages.generateRateLimitResponse(rejected.info.retryAfter ?? 1),
+        rejected,
+      );
+    }
+
+    this.activeRequests++;
+    this.activeByEndpoint.set(endpointKey, (this.activeByEndpoint.get(endpointKey) ?? 0) + 1);
+    try {
+      const response = await next();
+
+      // Report the most constrained bucket
+      const tightest = checks.reduce<BucketCheck | undefined>(
+        (current, check) =>
+          !current || check.info.remaining < current.info.remaining ? check : current,
+        undefined,
+      );
+      return tightest ? this.withRateLimitHeaders(response, tightest) : response;
+    } finally {
+      this.activeRequests--;
+      this.activeByEndpoint.set(endpointKey, (this.activeByEndpoint.get(endpointKey) ?? 1) - 1);
+    }
+  }
+
+  /**
+   * Resolve the OAuth client identity for per-client limits
+   * Uses client_id from the query, Basic credentials or a form body, then the bearer token
+   */
+  async resolveClientKey(request: Request): Promise<string | undefined> {
+    const url = new URL(request.url);
+    const queryClientId = url.searchParams.get('client_id');
+    if (queryClientId) {
+      return `client:${queryClientId}`;
+    }
+
+    const authorization = request.headers.get('authorization');
+    if (authorization?.startsWith('Basic ')) {
+      try {
+        const [clientId] = atob(authorization.slice(6)).split(':');
+        if (clientId) {
+          return `client:${decodeURIComponent(clientId)}`;
+        }
+      } catch {
+        // Malformed credentials are rejected by the endpoint itself
+      }
+    }
+
+    const contentType = request.headers.get('content-type') || '';
+    if (request.method === 'POST' && contentType.includes('application/x-www-form-urlencoded')) {
+      try {
+        const form = await request.clone().formData();
+        const formClientId = form.get('client_id');
+        if (typeof formClientId === 'string' && formClientId) {
+          return `client:${formClientId}`;
+        }
+      } catch {
+        // Unreadable body - fall through to token identity
+      }
+    }
+
+    if (authorization?.startsWith('Bearer ')) {
+      // Hash the token so raw credentials never end up in KV keys
+      const digest = await crypto.subtle.digest(
+        'SHA-256',
+        new TextEncoder().encode(authorization.slice(7)),
+      );
+      const hash = Array.from(new Uint8Array(digest).slice(0, 16))
+        .map((byte) => byte.toString(16).padStart(2, '0'))
+        .join('');
+      return `token:${hash}`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reject the request if a concurrency cap is reached
+   */
+  private checkConcurrency(
+    request: Request,
+    path: string,
+    clientIP: string,
+    endpointConfig: HttpEndpointRateLimitConfig | undefined,
+  ): Response | undefined {
+    const caps: Array<{ id: string; max: number | undefined; active: number }> = [
+      {
+        id: 'concurrency:global',
+        max: this.config.maxConcurrentRequests,
+        active: this.activeRequests,
+      },
+      {
+        id: `concurrency:${path}`,
+        max: endpointConfig?.maxConcurrent,
+        active: this.activeByEndpoint.get(path) ?? 0,
+      },
+    ];
+
+    for (const cap of caps) {
+      if (!cap.max || cap.active < cap.max) continue;
+
+      const check: BucketCheck = {
+        id: cap.id,
+        rule: { requests: cap.max, window: 1 },
+        info: {
+          allowed: false,
+          limit: cap.max,
+          remaining: 0,
+          resetTime: new Date(Date.now() + 1000),
+          retryAfter: 1,
+        },
+      };
+      this.emitExceeded(request, path, clientIP, check);
+      return this.withRateLimitHeaders(this.errorPages.generateRateLimitResponse(1), check);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Consume from the per-IP and per-client buckets for an endpoint
+   * Storage failures are logged and the request is allowed through
+   */
+  private async checkBuckets(
+    request: Request,
+    path: string,
+    clientIP: string,
+    endpointConfig: HttpEndpointRateLimitConfig,
+  ): Promise<BucketCheck[]> {
+    const checks: BucketCheck[] = [];
+    const scope = `http:${path}`;
+
+    try {
+      if (endpointConfig.perIP) {
+        const identity = `ip:${clientIP}`;
+        const info = await this.rateLimitStore.consume(scope, identity, endpointConfig.perIP);
+        checks.push({ id: `${scope}:${identity}`, rule: endpointConfig.perIP, info });
+        if (!info.allowed) return checks;
+      }
+
+      if (endpointConfig.perClient) {
+        const identity = await this.resolveClientKey(request);
+        if (identity) {
+          const info = await this.rateLimitStore.consume(scope, identity, endpointConfig.perClient);
+          checks.push({ id: `${scope}:${identity}`, rule: endpointConfig.perClient, info });
+        }
+      }
+    } catch (error) {
+      this.logger.error('HttpRateLimiter: Failed to check rate limit', toError(error), { path });
+    }
+
+    return checks;
+  }
+
+  /**
+   * Add RateLimit-* headers (and Retry-After for rejections) to a response
+   */
+  private withRateLimitHeaders(response: Response, check: BucketCheck): Response {
+    const headers = new Headers(response.headers);
+    const resetSeconds = Math.max(
+      0,
+      Math.ceil((check.info.resetTime.getTime() - Date.now()) / 1000),
+    );
+
+    headers.set('RateLimit-Limit', check.info.limit.toString());
+    headers.set('RateLimit-Remaining', Math.max(0, check.info.remaining).toString());
+    headers.set('RateLimit-Reset', resetSeconds.toString());
+    headers.set('RateLimit-Policy', `${check.rule.requests};w=${check.rule.window}`);
+    if (!check.info.allowed && check.info.retryAfter !== undefined) {
+      headers.set('Retry-After', check.info.retryAfter.toString());
+    }
+
+    return new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+    });
+  }
+
+  /**
+   * Log and notify listeners about a rejected request
+   */
+  private emitExceeded(request: Request, path: string, clientIP: string, check: BucketCheck): void {
+    const limit: HttpRateLimitInfo = {
+      id: check.id,
+      limit: check.info.limit,
+      window: check.rule.window,
+      remaining: check.info.remaining,
+      resetTime: check.info.resetTime.getTime(),
+      exceeded: true,
+    };
+
+    this.logger.warn('HttpRateLimiter: Rate limit exceeded', {
+      id: limit.id,
+      path,
+      clientIP,
+      retryAfter: check.info.retryAfter,
+    });
+
+    if (this.listeners.length === 0) return;
+
+    const context: HttpRequestContext = {
+      requestId: crypto.randomUUID(),
+      startTime: Date.now(),
+      method: request.method,
+      path,
+      query: new URL(request.url).searchParams,
+      headers: request.headers,
+      clientIP,
+    };
+    const userAgent = request.headers.get('user-agent');
+    if (userAgent) {
+      context.userAgent = userAgent;
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener({ context, limit });
+      } catch (error) {
+        this.logger.error('HttpRateLimiter: Rate limit listener failed', toError(error));
+      }
+    }
+  }
+}
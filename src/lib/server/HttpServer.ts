@@ -11,6 +11,7 @@
  * - StatusEndpoints.ts - Status and metrics endpoints
  * - CORSHandler.ts - CORS management
  * - ErrorPages.ts - Error page generation
+ * - HttpRateLimiter.ts - Rate limiting and concurrency caps
  */
 
 import type { Logger } from '../../types/library.types.ts';
@@ -18,15 +19,24 @@ import type { TransportManager } from '../transport/TransportManager.ts';
 import type { OAuthProvider } from '../auth/OAuthProvider.ts';
 import type { OAuthConsumer } from '../auth/OAuthConsumer.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
+import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { SessionManager } from '../transport/SessionManager.ts';
+import type { AuditLogger } from '../utils/AuditLogger.ts';
 import type { DocsEndpointHandler } from './DocsEndpointHandler.ts';
+import type { ConfigReloader } from './ConfigReloader.ts';
 import type { CustomEndpoints } from './ServerTypes.ts';
+import type { HttpRateLimitConfig } from '../types/RateLimitTypes.ts';
+import type { MetricsEndpointConfig } from '../config/ConfigTypes.ts';
 import { OAuthEndpoints } from './OAuthEndpoints.ts';
 import { BeyondMcpServer } from './BeyondMcpServer.ts';
 import { APIRouter } from './APIRouter.ts';
 //import { StatusEndpoints } from './StatusEndpoints.ts';
 import { CORSHandler } from './CORSHandler.ts';
 import { ErrorPages } from './ErrorPages.ts';
+import { HttpRateLimiter } from './HttpRateLimiter.ts';
+import { MetricsEndpoint } from './MetricsEndpoint.ts';
 import { reconstructOriginalUrl } from '../utils/UrlUtils.ts';
+import { RateLimitStore } from '../storage/RateLimitStore.ts';
 
 /**
  * HTTP server configuration
@@ -50,7 +60,22 @@ export interface HttpServerConfig {
   api: {
     version: string;
     basePath: string;
+    /** Scope required for /api/v1/admin (default: admin) */
+    adminScope?: string;
+    /** User IDs allowed to call /api/v1/admin and /api/v1/audit (default: none) */
+    adminUsers?: string[];
+    /** OAuth client IDs allowed to call /api/v1/admin and /api/v1/audit (default: none) */
+    adminClients?: string[];
   };
+  /** Optional features */
+  features?: {
+    /** Apply HTTP rate limits (requires `rateLimit` config and a rate limit store) */
+    rateLimit?: boolean;
+  };
+  /** HTTP rate limit configuration */
+  rateLimit?: HttpRateLimitConfig;
+  /** OpenMetrics scrape endpoint configuration (served only when enabled) */
+  metrics?: MetricsEndpointConfig;
 }
 
 /**
@@ -75,6 +100,16 @@ export interface HttpServerDependencies {
   docsEndpointHandler?: DocsEndpointHandler | undefined;
   /** Custom endpoint handlers */
   customEndpoints?: CustomEndpoints | undefined;
+  /** KV-backed rate limit store (required for HTTP rate limiting) */
+  rateLimitStore?: RateLimitStore | undefined;
+  /** Tool registry for tool metrics (optional) */
+  toolRegistry?: ToolRegistry | undefined;
+  /** Session manager for session metrics (optional) */
+  sessionManager?: SessionManager | undefined;
+  /** Audit logger for the /api/v1/audit query endpoint (optional) */
+  auditLogger?: AuditLogger | undefined;
+  /** Config reloader for POST /api/v1/admin/config/reload (optional) */
+  configReloader?: ConfigReloader | undefined;
 }
 
 /**
@@ -99,6 +134,8 @@ export class HttpServer {
   private errorPages: ErrorPages;
   private docsHandler: DocsEndpointHandler | undefined;
   private customEndpoints: CustomEndpoints | undefined;
+  private rateLimiter: HttpRateLimiter | undefined;
+  private metricsEndpoint: MetricsEndpoint | undefined;
 
   // Integration components
   private beyondMcpServer: BeyondMcpServer;
@@ -120,6 +157,10 @@ export class HttpServer {
       ? dependencies.docsEndpointHandler
       : undefined;
     this.customEndpoints = dependencies.customEndpoints || [];
+    this.rateLimiter = this.createRateLimiter(dependencies.rateLimitStore);
+    this.metricsEndpoint = this.httpServerConfig.metrics?.enabled
+      ? new MetricsEndpoint(this.httpServerConfig.metrics, dependencies)
+      : undefined;
 
     // Integration components
     this.beyondMcpServer = dependencies.beyondMcpServer;
@@ -133,9 +174,62 @@ export class HttpServer {
       version: this.httpServerConfig.version,
       usingDocsHandler: !!this.docsHandler,
       customEndpointsCount: this.customEndpoints.length,
+      rateLimiting: !!this.rateLimiter,
+      metricsPath: this.metricsEndpoint?.path,
     });
   }
 
+  /**
+   * Create the HTTP rate limiter when enabled in configuration
+   */
+  private createRateLimiter(rateLimitStore?: RateLimitStore): HttpRateLimiter | undefined {
+    const rateLimitConfig = this.httpServerConfig.rateLimit;
+    if (!this.httpServerConfig.features?.rateLimit || !rateLimitConfig) {
+      return undefined;
+    }
+    if (!rateLimitStore) {
+      this.logger.warn('HttpServer: Rate limiting enabled but no rate limit store provided');
+      return undefined;
+    }
+
+    return new HttpRateLimiter(rateLimitConfig, {
+      logger: this.logger,
+      rateLimitStore,
+      errorPages: this.errorPages,
+    });
+  }
+
+  /**
+   * Get the HTTP rate limiter (undefined when rate limiting is disabled)
+   */
+  getRateLimiter(): HttpRateLimiter | undefined {
+    return this.rateLimiter;
+  }
+
+  /**
+   * Get the documentation endpoint handler (undefined when no docs are served)
+   */
+  getDocsEndpointHandler(): DocsEndpointHandler | undefined {
+    return this.docsHandler;
+  }
+
+  /**
+   * Replace the allowed CORS origins (config reload)
+   */
+  updateCorsOrigins(allowOrigins: string[]): void {
+    this.httpServerConfig = { ...this.httpServerConfig, cors: { allowOrigins } };
+    this.corsHandler.updateConfig({ allowOrigins });
+  }
+
+  /**
+   * Replace the HTTP rate limits (config reload)
+   * Whether rate limiting runs at all is decided at startup
+   */
+  updateRateLimits(rateLimitConfig: HttpRateLimitConfig): void {
+    this.httpServerConfig = { ...this.httpServerConfig, rateLimit: rateLimitConfig };
+    this.rateLimiter?.updateConfig(rateLimitConfig);
+  }
+
   /**
    * Start the HTTP server
    */
@@ -147,7 +241,7 @@ export class HttpServer {
       onListen: ({ port, hostname }) => {
         this.logger.info(`HttpServer: HTTP server running on http://${hostname}:${port}`);
       },
-    }, (request: Request) => this.handleRequest(request));
+    }, (request: Request, info: Deno.ServeHandlerInfo) => this.handleRequest(request, info));
 
     this.server.finished.then(() => this.logger.info('HttpServer: HTTP server closed'));
   }
@@ -166,7 +260,7 @@ export class HttpServer {
   /**
    * Main request handler with routing
    */
-  private async handleRequest(request: Request): Promise<Response> {
+  private async handleRequest(request: Request, info?: Deno.ServeHandlerInfo): Promise<Response> {
     const url = reconstructOriginalUrl(request);
     const path = url.pathname;
     const method = request.method;
@@ -179,12 +273,28 @@ export class HttpServer {
         return this.corsHandler.handlePreflight(request);
       }
 
-      // Route request to appropriate handler
-      const response = await this.routeRequest(request, path, method);
+      // Route request to appropriate handler, applying rate limits when enabled
+      const response = this.rateLimiter
+        ? await this.rateLimiter.handle(
+          request,
+          path,
+          this.rateLimiter.getClientIP(request, info?.remoteAddr),
+          () => this.routeRequest(request, path, method),
+        )
+        : await this.routeRequest(request, path, method);
 
       // Add CORS headers
       return this.corsHandler.addCORSHeaders(response);
     } catch (error) {
+      if (RateLimitStore.isRateLimitError(error)) {
+        this.logger.warn('HttpServer: Rate limit exceeded', { path, ...error.info.context });
+        return this.corsHandler.addCORSHeaders(
+          this.errorPages.generateRateLimitResponse(
+            RateLimitStore.getRateLimitInfo(error).retryAfter,
+          ),
+        );
+      }
+
       this.logger.error(
         'HttpServer: HTTP request error:',
         error instanceof Error ? error : new Error(String(error)),
@@ -217,8 +327,13 @@ export class HttpServer {
       return await this.oauthEndpoints.handleWellKnown(request, path.slice(13), method);
     }
 
+    // OpenMetrics scrape endpoint (if enabled)
+    if (this.metricsEndpoint && path === this.metricsEndpoint.path) {
+      return await this.metricsEndpoint.handle(request);
+    }
+
     // Documentation endpoint (if configured)
-    if (this.docsHandler && path.startsWith(this.docsHandler.path)) {
+    if (this.docsHandler?.enabled && path.startsWith(this.docsHandler.path)) {
       return await this.docsHandler.handle(request);
     }
 
@@ -258,6 +373,8 @@ export class HttpServer {
       '/authorize',
       '/token',
       '/register',
+      '/revoke',
+      '/introspect',
       '/callback',
       '/oauth/callback',
       '/auth/callback',
@@ -299,6 +416,8 @@ export class HttpServer {
           authorize: '/authorize',
           token: '/token',
           register: '/register',
+          revoke: '/revoke',
+          introspect: '/introspect',
         },
       },
       mcp: {
@@ -0,0 +1,217 @@
+/**
+ * MCP Logging Bridge - Forwards Logger entries to MCP clients
+ *
+ * Entries logged while a tool call is running are sent as `notifications/message`
+ * to the session that made the call, so agents can see why a tool or workflow
+ * failed. Each session picks its own minimum level with `logging/setLevel`.
+ * Secrets are redacted and stack traces dropped before anything leaves the server.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import { SetLevelRequestSchema } from 'mcp/types.js';
+import type { LoggingMessageNotification } from 'mcp/types.js';
+
+import type { Logger, LogLevel } from '../utils/Logger.ts';
+import type { McpLogLevel } from '../config/ConfigTypes.ts';
+
+/**
+ * The request a log entry belongs to (subset of the SDK handler `extra`)
+ */
+export interface McpLoggingRequest {
+  sessionId?: string | undefined;
+  sendNotification: (notification: LoggingMessageNotification) => Promise<void>;
+}
+
+// Lowest to highest severity, as defined by the MCP logging capability
+const MCP_LOG_LEVELS: readonly McpLogLevel[] = [
+  'debug',
+  'info',
+  'notice',
+  'warning',
+  'error',
+  'critical',
+  'alert',
+  'emergency',
+];
+
+const LOGGER_TO_MCP_LEVEL: Record<LogLevel, McpLogLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+};
+
+// STDIO has no session id - its level is stored under this key
+const DEFAULT_SESSION_KEY = '';
+
+const SENSITIVE_KEYS = [
+  'password',
+  'secret',
+  'token',
+  'apikey',
+  'api_key',
+  'authorization',
+  'cookie',
+  'credential',
+  'privatekey',
+  'private_key',
+];
+const BEARER_PATTERN = /\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi;
+const MAX_REDACT_DEPTH = 8;
+
+/**
+ * Process-wide bridge between Logger and MCP `notifications/message`
+ */
+export class McpLoggingBridge {
+  private static instance: McpLoggingBridge | undefined;
+
+  private requestStorage = new AsyncLocalStorage<McpLoggingRequest>();
+  private sessionLevels = new Map<string, McpLogLevel>();
+  private defaultLevel: McpLogLevel = 'info';
+  private enabled = false;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of McpLoggingBridge
+   */
+  static getInstance(): McpLoggingBridge {
+    if (!McpLoggingBridge.instance) {
+      McpLoggingBridge.instance = new McpLoggingBridge();
+    }
+    return McpLoggingBridge.instance;
+  }
+
+  /**
+   * Clear singleton instance (primarily for testing)
+   */
+  static resetInstance(): void {
+    McpLoggingBridge.instance = undefined;
+  }
+
+  /**
+   * Start forwarding entries from `logger` (and its child loggers)
+   * and handle `logging/setLevel` on the given SDK server
+   */
+  install(
+    sdkMcpServer: SdkMcpServer,
+    logger: Logger,
+    options: { defaultLevel?: McpLogLevel | undefined } = {},
+  ): void {
+    this.defaultLevel = options.defaultLevel ?? 'info';
+    this.enabled = true;
+
+    // Replaces the SDK's built-in handler, which only tracks the level of the last session
+    sdkMcpServer.server.setRequestHandler(SetLevelRequestSchema, (request, extra) => {
+      this.setLevel(extra.sessionId, request.params.level);
+      return Promise.resolve({});
+    });
+
+    logger.setSink((level, message, data) => this.forward(level, message, data));
+
+    logger.info('McpLoggingBridge: Forwarding log entries to MCP clients', {
+      defaultLevel: this.defaultLevel,
+    });
+  }
+
+  /**
+   * Run an operation with log entries attributed to the given request
+   */
+  runWithRequest<T>(request: McpLoggingRequest | undefined, operation: () => T): T {
+    if (!this.enabled || typeof request?.sendNotification !== 'function') {
+      return operation();
+    }
+    return this.requestStorage.run(request, operation);
+  }
+
+  /**
+   * Set the minimum level forwarded to a session
+   */
+  setLevel(sessionId: string | undefined, level: McpLogLevel): void {
+    this.sessionLevels.set(sessionId ?? DEFAULT_SESSION_KEY, level);
+  }
+
+  /**
+   * Get the minimum level forwarded to a session
+   */
+  getLevel(sessionId: string | undefined): McpLogLevel {
+    return this.sessionLevels.get(sessionId ?? DEFAULT_SESSION_KEY) ?? this.defaultLevel;
+  }
+
+  /**
+   * Forget a closed session's level
+   */
+  clearSession(sessionId: string): void {
+    this.sessionLevels.delete(sessionId);
+  }
+
+  /**
+   * Send a log entry to the session of the current request (if any)
+   */
+  forward(level: LogLevel, message: string, data?: unknown): void {
+    const request = this.requestStorage.getStore();
+    if (!request) {
+      return;
+    }
+
+    const mcpLevel = LOGGER_TO_MCP_LEVEL[level];
+    if (
+      MCP_LOG_LEVELS.indexOf(mcpLevel) < MCP_LOG_LEVELS.indexOf(this.getLevel(request.sessionId))
+    ) {
+      return;
+    }
+
+    // "Source: message" becomes the MCP logger name
+    const sourceMatch = message.match(/^([^\s:]+):\s*(.*)/s);
+    const notification: LoggingMessageNotification = {
+      method: 'notifications/message',
+      params: {
+        level: mcpLevel,
+        ...(sourceMatch && { logger: sourceMatch[1] }),
+        data: {
+          message: redactString(sourceMatch?.[2] ?? message),
+          ...(data !== undefined && { data: redact(data, 0) }),
+        },
+      },
+    };
+
+    // Send outside the request context so logging done while sending is not forwarded again
+    this.requestStorage.exit(() => {
+      request.sendNotification(notification).catch(() => {
+        // The client may have disconnected - there is nowhere left to report this
+      });
+    });
+  }
+}
+
+function redact(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_REDACT_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  const redacted: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const lowerKey = key.toLowerCase();
+    if (lowerKey === 'stack') {
+      continue;
+    }
+    redacted[key] = SENSITIVE_KEYS.some((sensitiveKey) => lowerKey.includes(sensitiveKey))
+      ? '[REDACTED]'
+      : redact(entry, depth + 1);
+  }
+  return redacted;
+}
+
+function redactString(value: string): string {
+  return value.replace(BEARER_PATTERN, '$1 [REDACTED]');
+}
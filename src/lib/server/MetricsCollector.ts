@@ -0,0 +1,238 @@
+/**
+ * Metrics Collector - Live server metrics for the metrics API
+ *
+ * Gathers metrics from the running components (transport, OAuth provider, sessions,
+ * tools and workflows) into a versioned snapshot. Each section is read independently
+ * so one unavailable source doesn't hide the others.
+ */
+
+import type { Logger } from '../../types/library.types.ts';
+import type { OAuthProvider } from '../auth/OAuthProvider.ts';
+import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { TransportManager } from '../transport/TransportManager.ts';
+import type { SessionManager } from '../transport/SessionManager.ts';
+import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
+import { toError } from '../utils/Error.ts';
+import type {
+  AuthMetricsSection,
+  MetricsSnapshot,
+  ServerMetricsSection,
+  SessionMetricsSection,
+  ToolMetricsSection,
+  TransportMetricsSection,
+  WorkflowMetricsSection,
+} from './ServerTypes.ts';
+
+/**
+ * Current metrics schema version
+ */
+export const METRICS_SCHEMA_VERSION = '1';
+
+/**
+ * Metric sources - every source except the logger is optional
+ */
+export interface MetricsCollectorDependencies {
+  logger: Logger;
+  transportManager?: TransportManager | undefined;
+  oauthProvider?: OAuthProvider | undefined;
+  sessionManager?: SessionManager | undefined;
+  toolRegistry?: ToolRegistry | undefined;
+  workflowRegistry?: WorkflowRegistry | undefined;
+}
+
+/**
+ * Collects live metrics from server components
+ */
+export class MetricsCollector {
+  private dependencies: MetricsCollectorDependencies;
+  private logger: Logger;
+  private startTime: number;
+
+  constructor(dependencies: MetricsCollectorDependencies, startTime: Date = new Date()) {
+    this.dependencies = dependencies;
+    this.logger = dependencies.logger;
+    this.startTime = startTime.getTime();
+  }
+
+  /**
+   * Collect a full metrics snapshot
+   */
+  async collect(): Promise<MetricsSnapshot> {
+    const [sessions, auth] = await Promise.all([
+      this.collectSessions(),
+      this.collectAuth(),
+    ]);
+
+    return {
+      schema_version: METRICS_SCHEMA_VERSION,
+      timestamp: new Date().toISOString(),
+      server: this.collectServer(),
+      transport: this.collectTransport(),
+      sessions,
+      auth,
+      tools: this.collectTools(),
+      workflows: this.collectWorkflows(),
+    };
+  }
+
+  /**
+   * Process uptime and memory usage
+   */
+  collectServer(): ServerMetricsSection {
+    let memory: ServerMetricsSection['memory'] = null;
+    try {
+      const usage = Deno.memoryUsage();
+      memory = {
+        rss: usage.rss,
+        heap_total: usage.heapTotal,
+        heap_used: usage.heapUsed,
+        external: usage.external,
+      };
+    } catch {
+      // Memory usage is unavailable in some sandboxed runtimes
+    }
+
+    return {
+      uptime_seconds: (Date.now() - this.startTime) / 1000,
+      memory,
+    };
+  }
+
+  /**
+   * Request and session counts from the active transport
+   */
+  collectTransport(): TransportMetricsSection | null {
+    const transportManager = this.dependencies.transportManager;
+    if (!transportManager) return null;
+
+    return this.readSection('transport', () => {
+      const metrics = transportManager.getMetrics();
+      const sessionIds = transportManager.getActiveSessions?.() ?? [];
+
+      return {
+        type: metrics.manager?.transportType ?? metrics.transport ?? 'unknown',
+        connected: metrics.manager?.connected ?? false,
+        uptime_seconds: (metrics.manager?.uptime ?? metrics.uptime ?? 0) / 1000,
+        requests: {
+          total: metrics.requests?.total ?? 0,
+          successful: metrics.requests?.successful ?? 0,
+          failed: metrics.requests?.failed ?? 0,
+          average_response_time_ms: metrics.requests?.averageResponseTime ?? 0,
+        },
+        active_sessions: metrics.sessions?.active ?? sessionIds.length,
+        session_ids: sessionIds,
+      };
+    });
+  }
+
+  /**
+   * Session lifetimes from the session manager
+   */
+  async collectSessions(): Promise<SessionMetricsSection | null> {
+    const sessionManager = this.dependencies.sessionManager;
+    if (!sessionManager) return null;
+
+    return await this.readSectionAsync('sessions', async () => {
+      const stats = await sessionManager.getSessionStats();
+      return {
+        active: stats.active,
+        total: stats.total,
+        expired: stats.expired,
+        average_duration_ms: stats.averageDuration,
+      };
+    });
+  }
+
+  /**
+   * OAuth client registrations and issued tokens
+   */
+  async collectAuth(): Promise<AuthMetricsSection | null> {
+    const oauthProvider = this.dependencies.oauthProvider;
+    if (!oauthProvider) return null;
+
+    return await this.readSectionAsync('auth', async () => {
+      const [clients, tokens] = await Promise.all([
+        oauthProvider.getClientStats(),
+        oauthProvider.getTokenStats(),
+      ]);
+      return {
+        clients: {
+          total: clients.totalClients,
+          active: clients.activeClients,
+          revoked: clients.revokedClients,
+        },
+        tokens: {
+          access_tokens: tokens.totalAccessTokens,
+          refresh_tokens: tokens.totalRefreshTokens,
+          authorization_codes: tokens.totalAuthorizationCodes,
+        },
+      };
+    });
+  }
+
+  /**
+   * Tool registrations and call statistics
+   */
+  collectTools(): ToolMetricsSection | null {
+    const toolRegistry = this.dependencies.toolRegistry;
+    if (!toolRegistry) return null;
+
+    return this.readSection('tools', () => {
+      const stats = toolRegistry.getRegistryStats();
+      return {
+        registered_total: stats.totalTools,
+        calls_total: stats.totalCalls,
+        average_execution_time_ms: stats.averageExecutionTime,
+        by_category: stats.toolsByCategory,
+        most_used: stats.mostUsedTools.map((tool) => ({
+          name: tool.name,
+          calls: tool.callCount,
+        })),
+      };
+    });
+  }
+
+  /**
+   * Workflow registrations by category
+   */
+  collectWorkflows(): WorkflowMetricsSection | null {
+    const workflowRegistry = this.dependencies.workflowRegistry;
+    if (!workflowRegistry) return null;
+
+    return this.readSection('workflows', () => {
+      const byCategory: Record<string, number> = {};
+      for (const registration of workflowRegistry.getAllRegistrations()) {
+        byCategory[registration.category] = (byCategory[registration.category] || 0) + 1;
+      }
+
+      const available = workflowRegistry.getWorkflowNames();
+      return {
+        registered_total: available.length,
+        available,
+        by_category: byCategory,
+      };
+    });
+  }
+
+  private readSection<T>(section: string, read: () => T): T | null {
+    try {
+      return read();
+    } catch (error) {
+      this.logger.warn(`MetricsCollector: Failed to collect ${section} metrics`, {
+        error: toError(error).message,
+      });
+      return null;
+    }
+  }
+
+  private async readSectionAsync<T>(section: string, read: () => Promise<T>): Promise<T | null> {
+    try {
+      return await read();
+    } catch (error) {
+      this.logger.warn(`MetricsCollector: Failed to collect ${section} metrics`, {
+        error: toError(error).message,
+      });
+      return null;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Metrics Endpoint - Prometheus/OpenMetrics scrape endpoint
+ *
+ * Serves the MetricsRegistry in OpenMetrics text format. Gauges for sessions, SSE
+ * streams and registered tools/workflows are refreshed from the live components on
+ * every scrape. Access can be restricted with a bearer token.
+ */
+
+import type { Logger } from '../../types/library.types.ts';
+import type { MetricsEndpointConfig } from '../config/ConfigTypes.ts';
+import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { TransportManager } from '../transport/TransportManager.ts';
+import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
+import {
+  MCP_METRICS,
+  MetricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+} from '../utils/MetricsRegistry.ts';
+import { toError } from '../utils/Error.ts';
+
+/**
+ * Dependencies required by MetricsEndpoint
+ */
+export interface MetricsEndpointDependencies {
+  logger: Logger;
+  transportManager?: TransportManager | undefined;
+  toolRegistry?: ToolRegistry | undefined;
+  workflowRegistry?: WorkflowRegistry | undefined;
+  /** Metrics registry (defaults to the shared instance) */
+  metricsRegistry?: MetricsRegistry | undefined;
+}
+
+/**
+ * OpenMetrics scrape endpoint
+ */
+export class MetricsEndpoint {
+  private config: MetricsEndpointConfig;
+  private dependencies: MetricsEndpointDependencies;
+  private logger: Logger;
+
+  constructor(config: MetricsEndpointConfig, dependencies: MetricsEndpointDependencies) {
+    this.config = config;
+    this.dependencies = dependencies;
+    this.logger = dependencies.logger;
+
+    this.logger.info('MetricsEndpoint: Initialized', {
+      path: this.config.path,
+      requiresToken: !!this.config.bearerToken,
+    });
+  }
+
+  /**
+   * Endpoint path
+   */
+  get path(): string {
+    return this.config.path;
+  }
+
+  /**
+   * Handle a scrape request
+   */
+  async handle(request: Request): Promise<Response> {
+    if (request.method !== 'GET') {
+      return new Response('Method not allowed', {
+        status: 405,
+        headers: { 'Allow': 'GET' },
+      });
+    }
+
+    if (!this.isAuthorized(request)) {
+      this.logger.warn('MetricsEndpoint: Rejected scrape with missing or invalid bearer token');
+      return new Response('Unauthorized', {
+        status: 401,
+        headers: { 'WWW-Authenticate': 'Bearer realm="metrics"' },
+      });
+    }
+
+    try {
+      const registry = this.dependencies.metricsRegistry ?? MetricsRegistry.getInstance();
+      this.refreshGauges(registry);
+
+      return new Response(await registry.render(), {
+        status: 200,
+        headers: {
+          'Content-Type': OPENMETRICS_CONTENT_TYPE,
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (error) {
+      this.logger.error('MetricsEndpoint: Failed to render metrics', toError(error));
+      return new Response('Failed to render metrics', { status: 500 });
+    }
+  }
+
+  /**
+   * Check the bearer token when one is configured
+   */
+  private isAuthorized(request: Request): boolean {
+    const expected = this.config.bearerToken;
+    if (!expected) return true;
+
+    const header = request.headers.get('Authorization') ?? '';
+    const match = header.match(/^Bearer\s+(.+)$/i);
+    return !!match && this.constantTimeEquals(match[1]!.trim(), expected);
+  }
+
+  /**
+   * Set gauges and transport totals from the live components
+   */
+  private refreshGauges(registry: MetricsRegistry): void {
+    const { transportManager, toolRegistry, workflowRegistry } = this.dependencies;
+
+    if (transportManager) {
+      const metrics = transportManager.getMetrics();
+      registry.setGauge(MCP_METRICS.sessionsActive, metrics.sessions?.active ?? 0);
+      const http = (metrics as { http?: { connectionsOpen?: number } }).http;
+      registry.setGauge(MCP_METRICS.sseStreamsActive, http?.connectionsOpen ?? 0);
+      registry.setCounter(MCP_METRICS.transportRequests, metrics.requests?.successful ?? 0, {
+        outcome: 'success',
+      });
+      registry.setCounter(MCP_METRICS.transportRequests, metrics.requests?.failed ?? 0, {
+        outcome: 'failure',
+      });
+    }
+
+    if (toolRegistry) {
+      registry.setGauge(MCP_METRICS.toolsRegistered, toolRegistry.getToolCount());
+    }
+
+    if (workflowRegistry) {
+      registry.setGauge(
+        MCP_METRICS.workflowsRegistered,
+        workflowRegistry.getWorkflowNames().length,
+      );
+    }
+  }
+
+  /**
+   * Compare strings without short-circuiting on the first difference
+   */
+  private constantTimeEquals(provided: string, expected: string): boolean {
+    const a = new TextEncoder().encode(provided);
+    const b = new TextEncoder().encode(expected);
+    let diff = a.length ^ b.length;
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+      diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+    }
+    return diff === 0;
+  }
+}
@@ -10,13 +10,16 @@
  * - TokenManager: Token operations and validation
  * - ClientRegistry: Client registration and validation
  * - OAuthMetadata: RFC 8414 metadata generation
+ *
+ * Token revocation (RFC 7009) and introspection (RFC 7662) require client
+ * authentication via HTTP Basic or client_id/client_secret form parameters.
  */
 
 import type { Logger } from '../../types/library.types.ts';
 import type { OAuthProvider } from '../auth/OAuthProvider.ts';
 import type { OAuthConsumer } from '../auth/OAuthConsumer.ts';
 import type { HttpServerDependencies } from './HttpServer.ts';
-import type { AuthorizeRequest, TokenRequest } from '../auth/OAuthTypes.ts';
+import type { AuthorizeRequest, ClientCredentials, TokenRequest } from '../auth/OAuthTypes.ts';
 import { toError } from '../utils/Error.ts';
 import { reconstructOriginalUrl } from '../utils/UrlUtils.ts';
 
@@ -59,6 +62,14 @@ export class OAuthEndpoints {
         if (method === 'POST') return await this.handleRegister(request);
         break;
 
+      case '/revoke':
+        if (method === 'POST') return await this.handleRevoke(request);
+        break;
+
+      case '/introspect':
+        if (method === 'POST') return await this.handleIntrospect(request);
+        break;
+
       case '/callback':
       case '/oauth/callback':
       case '/auth/callback':
@@ -237,6 +248,7 @@ export class OAuthEndpoints {
    */
   private async handleToken(request: Request): Promise<Response> {
     const tokenId = Math.random().toString(36).substring(2, 15);
+    let usedBasicAuth = false;
 
     try {
       // Parse form data from request body
@@ -247,10 +259,17 @@ export class OAuthEndpoints {
         return this.generateOAuthError('invalid_request', 'Invalid form data in request body');
       }
 
+      // Confidential clients may authenticate with HTTP Basic or a client assertion
+      const client = this.extractClientCredentials(request, formData);
+      usedBasicAuth = client.usedBasicAuth;
+
       const tokenRequest = {
         grant_type: formData.get('grant_type')?.toString(),
-        client_id: formData.get('client_id')?.toString(),
-        client_secret: formData.get('client_secret')?.toString(),
+        client_id: client.clientId,
+        client_secret: client.credentials.clientSecret,
+        client_assertion: client.credentials.clientAssertion,
+        client_assertion_type: client.credentials.clientAssertionType,
+        scope: formData.get('scope')?.toString(),
         code: formData.get('code')?.toString(),
         redirect_uri: formData.get('redirect_uri')?.toString(),
         refresh_token: formData.get('refresh_token')?.toString(),
@@ -279,7 +298,8 @@ export class OAuthEndpoints {
       // Validate grant_type
       if (
         tokenRequest.grant_type !== 'authorization_code' &&
-        tokenRequest.grant_type !== 'refresh_token'
+        tokenRequest.grant_type !== 'refresh_token' &&
+        tokenRequest.grant_type !== 'client_credentials'
       ) {
         return this.generateOAuthError(
           'unsupported_grant_type',
@@ -289,7 +309,7 @@ export class OAuthEndpoints {
 
       // Create clean token request object
       const tokenRequest_clean: TokenRequest = {
-        grant_type: tokenRequest.grant_type as 'authorization_code' | 'refresh_token',
+        grant_type: tokenRequest.grant_type,
         client_id: tokenRequest.client_id!,
       };
 
@@ -297,6 +317,15 @@ export class OAuthEndpoints {
       if (tokenRequest.client_secret) {
         tokenRequest_clean.client_secret = tokenRequest.client_secret;
       }
+      if (tokenRequest.client_assertion) {
+        tokenRequest_clean.client_assertion = tokenRequest.client_assertion;
+      }
+      if (tokenRequest.client_assertion_type) {
+        tokenRequest_clean.client_assertion_type = tokenRequest.client_assertion_type;
+      }
+      if (tokenRequest.scope) {
+        tokenRequest_clean.scope = tokenRequest.scope;
+      }
       if (tokenRequest.code) {
         tokenRequest_clean.code = tokenRequest.code;
       }
@@ -337,7 +366,17 @@ export class OAuthEndpoints {
 
       // Map specific error messages to proper OAuth error codes (RFC 6749)
       let oauthError = 'invalid_request';
-      if (errorMessage.includes('refresh token') || errorMessage.includes('Invalid or expired')) {
+      if (errorMessage.startsWith('Client authentication failed')) {
+        return this.generateInvalidClientError(errorMessage, usedBasicAuth);
+      } else if (errorMessage.startsWith('Unauthorized client')) {
+        oauthError = 'unauthorized_client';
+      } else if (errorMessage.startsWith('Invalid scope')) {
+        oauthError = 'invalid_scope';
+      } else if (errorMessage.startsWith('Unsupported grant type')) {
+        oauthError = 'unsupported_grant_type';
+      } else if (
+        errorMessage.includes('refresh token') || errorMessage.includes('Invalid or expired')
+      ) {
         oauthError = 'invalid_grant';
       } else if (errorMessage.includes('client') || errorMessage.includes('Client')) {
         oauthError = 'invalid_client';
@@ -420,6 +459,195 @@ export class OAuthEndpoints {
     }
   }
 
+  /**
+   * OAuth token revocation endpoint (RFC 7009) - delegates to OAuthProvider
+   *
+   * Responds 200 for unknown tokens and tokens of other clients so the
+   * endpoint can't be used to probe which tokens exist.
+   */
+  private async handleRevoke(request: Request): Promise<Response> {
+    try {
+      let formData: FormData;
+      try {
+        formData = await request.formData();
+      } catch {
+        return this.generateOAuthError('invalid_request', 'Invalid form data in request body');
+      }
+
+      const client = await this.authenticateClient(request, formData);
+      if (client instanceof Response) {
+        return client;
+      }
+
+      const token = formData.get('token')?.toString();
+      if (!token) {
+        return this.generateOAuthError('invalid_request', 'token parameter is required');
+      }
+
+      // Unknown hints are ignored - the token is looked up as both types
+      const tokenTypeHint = formData.get('token_type_hint')?.toString();
+      const result = await this.oauthProvider.revokeToken(token, client.clientId, tokenTypeHint);
+
+      this.logger.info('OAuthEndpoints: Token revocation processed', {
+        clientId: client.clientId,
+        revoked: result.revoked,
+        tokenType: result.tokenType,
+        revokedCount: result.revokedCount,
+      });
+
+      return new Response(null, {
+        status: 200,
+        headers: {
+          'Cache-Control': 'no-store',
+          'Pragma': 'no-cache',
+        },
+      });
+    } catch (error) {
+      this.logger.error('OAuthEndpoints: Revocation error:', toError(error));
+      return this.generateOAuthError('server_error', 'Token revocation failed', 500);
+    }
+  }
+
+  /**
+   * OAuth token introspection endpoint (RFC 7662) - delegates to OAuthProvider
+   */
+  private async handleIntrospect(request: Request): Promise<Response> {
+    try {
+      let formData: FormData;
+      try {
+        formData = await request.formData();
+      } catch {
+        return this.generateOAuthError('invalid_request', 'Invalid form data in request body');
+      }
+
+      const client = await this.authenticateClient(request, formData);
+      if (client instanceof Response) {
+        return client;
+      }
+
+      const token = formData.get('token')?.toString();
+      if (!token) {
+        return this.generateOAuthError('invalid_request', 'token parameter is required');
+      }
+
+      const introspection = await this.oauthProvider.introspectToken(
+        token,
+        formData.get('token_type_hint')?.toString(),
+        client.clientId,
+      );
+
+      return new Response(JSON.stringify(introspection), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'no-store',
+          'Pragma': 'no-cache',
+        },
+      });
+    } catch (error) {
+      this.logger.error('OAuthEndpoints: Introspection error:', toError(error));
+      return this.generateOAuthError('server_error', 'Token introspection failed', 500);
+    }
+  }
+
+  /**
+   * Authenticate the calling client from HTTP Basic credentials or form parameters
+   * Returns an invalid_client error response when authentication fails
+   */
+  private async authenticateClient(
+    request: Request,
+    formData: FormData,
+  ): Promise<{ clientId: string } | Response> {
+    const { clientId, credentials, usedBasicAuth } = this.extractClientCredentials(
+      request,
+      formData,
+    );
+
+    const validation = clientId
+      ? await this.oauthProvider.authenticateClient(clientId, credentials)
+      : { valid: false, error: 'Client authentication is required' };
+
+    if (!clientId || !validation.valid) {
+      this.logger.warn('OAuthEndpoints: Client authentication failed', {
+        clientId,
+        error: validation.error,
+      });
+      return this.generateInvalidClientError(
+        validation.error || 'Client authentication failed',
+        usedBasicAuth,
+      );
+    }
+
+    return { clientId };
+  }
+
+  /**
+   * Read client credentials from the request (RFC 6749 section 2.3, RFC 7523 section 2.2)
+   * - HTTP Basic: client_secret_basic
+   * - client_id / client_secret form parameters: client_secret_post
+   * - client_assertion form parameters: private_key_jwt (client_id defaults to the assertion subject)
+   */
+  private extractClientCredentials(request: Request, formData: FormData): {
+    clientId: string | undefined;
+    credentials: ClientCredentials;
+    usedBasicAuth: boolean;
+  } {
+    let clientId: string | undefined;
+    let clientSecret: string | undefined;
+    const clientAssertion = formData.get('client_assertion')?.toString();
+    const clientAssertionType = formData.get('client_assertion_type')?.toString();
+
+    const authorization = request.headers.get('authorization');
+    const usedBasicAuth = !!authorization?.startsWith('Basic ');
+    if (usedBasicAuth) {
+      try {
+        const decoded = atob(authorization!.slice(6));
+        const separator = decoded.indexOf(':');
+        if (separator > 0) {
+          clientId = decodeURIComponent(decoded.slice(0, separator));
+          clientSecret = decodeURIComponent(decoded.slice(separator + 1)) || undefined;
+        }
+      } catch {
+        // Malformed credentials fall through to invalid_client
+      }
+    } else {
+      clientId = formData.get('client_id')?.toString() ||
+        this.getAssertionSubject(clientAssertion);
+      clientSecret = formData.get('client_secret')?.toString();
+    }
+
+    return {
+      clientId,
+      credentials: { clientSecret, clientAssertion, clientAssertionType },
+      usedBasicAuth,
+    };
+  }
+
+  /**
+   * Read the (unverified) subject of a client assertion to identify the client
+   */
+  private getAssertionSubject(assertion: string | undefined): string | undefined {
+    const payload = assertion?.split('.')[1];
+    if (!payload) return undefined;
+    try {
+      const json = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+      return typeof json.sub === 'string' ? json.sub : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Generate an invalid_client response (401, with a Basic challenge when Basic auth was used)
+   */
+  private generateInvalidClientError(description: string, usedBasicAuth: boolean): Response {
+    const response = this.generateOAuthError('invalid_client', description, 401);
+    if (usedBasicAuth) {
+      response.headers.set('WWW-Authenticate', 'Basic realm="oauth"');
+    }
+    return response;
+  }
+
   /**
    * OAuth callback endpoint - delegates to OAuthProvider
    */
@@ -606,7 +834,7 @@ export class OAuthEndpoints {
   /**
    * Generate OAuth error response
    */
-  private generateOAuthError(error: string, description?: string): Response {
+  private generateOAuthError(error: string, description?: string, status = 400): Response {
     const errorResponse = {
       error,
       ...(description && { error_description: description }),
@@ -614,7 +842,7 @@ export class OAuthEndpoints {
     };
 
     return new Response(JSON.stringify(errorResponse), {
-      status: 400,
+      status,
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': 'no-store',
@@ -724,6 +952,8 @@ export class OAuthEndpoints {
       authorize: string;
       token: string;
       register: string;
+      revoke: string;
+      introspect: string;
       callback: string;
       metadata: string;
     };
@@ -734,6 +964,8 @@ export class OAuthEndpoints {
         authorize: '/authorize',
         token: '/token',
         register: '/register',
+        revoke: '/revoke',
+        introspect: '/introspect',
         callback: '/callback',
         metadata: '/.well-known/oauth-authorization-server',
       },
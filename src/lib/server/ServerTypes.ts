@@ -12,6 +12,7 @@ import type { OAuthProvider } from '../auth/OAuthProvider.ts';
 import type { TransportManager } from '../transport/TransportManager.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import type { BeyondMcpServer } from './BeyondMcpServer.ts';
+import type { HttpRateLimitRule } from '../types/RateLimitTypes.ts';
 
 // Re-export core server types for convenience
 export type { HttpServerConfig, HttpServerDependencies } from './HttpServer.ts';
@@ -87,10 +88,7 @@ export interface HttpEndpointInfo {
   /** Whether endpoint requires authentication */
   requiresAuth: boolean;
   /** Rate limit configuration */
-  rateLimit?: {
-    requests: number;
-    window: number; // seconds
-  };
+  rateLimit?: HttpRateLimitRule;
   /** Response content types */
   produces?: string[];
   /** Request content types accepted */
@@ -138,6 +136,82 @@ export interface ServerMetrics {
   };
 }
 
+/**
+ * Metrics snapshot served by /api/v1/metrics (schema version 1)
+ *
+ * Sections are null when their source is not configured or could not be read.
+ * New fields may be added within a schema version; renames and removals bump it.
+ */
+export interface MetricsSnapshot {
+  /** Schema version of this response */
+  schema_version: string;
+  timestamp: string;
+  server: ServerMetricsSection;
+  transport: TransportMetricsSection | null;
+  sessions: SessionMetricsSection | null;
+  auth: AuthMetricsSection | null;
+  tools: ToolMetricsSection | null;
+  workflows: WorkflowMetricsSection | null;
+}
+
+export interface ServerMetricsSection {
+  uptime_seconds: number;
+  memory: {
+    rss: number;
+    heap_total: number;
+    heap_used: number;
+    external: number;
+  } | null;
+}
+
+export interface TransportMetricsSection {
+  type: string;
+  connected: boolean;
+  uptime_seconds: number;
+  requests: {
+    total: number;
+    successful: number;
+    failed: number;
+    average_response_time_ms: number;
+  };
+  active_sessions: number;
+  session_ids: string[];
+}
+
+export interface SessionMetricsSection {
+  active: number;
+  total: number;
+  expired: number;
+  average_duration_ms: number;
+}
+
+export interface AuthMetricsSection {
+  clients: {
+    total: number;
+    active: number;
+    revoked: number;
+  };
+  tokens: {
+    access_tokens: number;
+    refresh_tokens: number;
+    authorization_codes: number;
+  };
+}
+
+export interface ToolMetricsSection {
+  registered_total: number;
+  calls_total: number;
+  average_execution_time_ms: number;
+  by_category: Record<string, number>;
+  most_used: Array<{ name: string; calls: number }>;
+}
+
+export interface WorkflowMetricsSection {
+  registered_total: number;
+  available: string[];
+  by_category: Record<string, number>;
+}
+
 /**
  * Health check result
  */
@@ -117,6 +117,8 @@ export class StatusEndpoints {
             authorize: '/authorize',
             token: '/token',
             register: '/register',
+            revoke: '/revoke',
+            introspect: '/introspect',
             metadata: '/.well-known/oauth-authorization-server',
           },
         },
@@ -251,7 +253,7 @@ export class StatusEndpoints {
       if (metrics) {
         return {
           active_sessions: metrics.sessions?.active || 0,
-          session_ids: [], // Session IDs would need to be added to TransportMetrics type
+          session_ids: this.transportManager.getActiveSessions?.() ?? [],
           transport_type: metrics.transport || 'unknown',
         };
       }
@@ -0,0 +1,176 @@
+/**
+ * Audit Store - Indexed audit entries backed by KVManager
+ *
+ * Keeps a copy of each audit entry keyed by time, plus index keys by user, tool,
+ * workflow and entry type, so searches read only the matching time range instead
+ * of scanning the audit log files. The log files stay the source of record: large
+ * inputs and results are truncated here, and entries expire with the retention period.
+ */
+
+import type { KVManager } from './KVManager.ts';
+import type { StorageKey } from './StorageBackend.ts';
+import type { AuditLogRecord, AuditSearchOptions } from '../utils/AuditLogger.ts';
+import { toError } from '../utils/Error.ts';
+
+interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, error?: Error, data?: unknown): void;
+}
+
+/**
+ * Configuration for audit storage
+ */
+export interface AuditStoreConfig {
+  keyPrefix?: string[];
+  /** Days to keep indexed entries (0 = keep until deleted) */
+  retentionDays?: number;
+}
+
+/**
+ * Searchable fields, in the order an index is chosen for a search
+ */
+const INDEXED_FIELDS = [
+  ['userId', 'by_user'],
+  ['toolName', 'by_tool'],
+  ['workflowName', 'by_workflow'],
+  ['type', 'by_type'],
+] as const;
+
+// Stays below Deno KV's 64KB value limit
+const MAX_ENTRY_SIZE = 60_000;
+
+/**
+ * KV-backed audit entry index
+ */
+export class AuditStore {
+  private kvManager: KVManager;
+  private keyPrefix: string[];
+  private retentionDays: number;
+  private logger: Logger | undefined;
+
+  constructor(kvManager: KVManager, config: AuditStoreConfig = {}, logger?: Logger) {
+    this.kvManager = kvManager;
+    this.keyPrefix = config.keyPrefix ?? ['audit'];
+    this.retentionDays = config.retentionDays ?? 90;
+    this.logger = logger;
+  }
+
+  /**
+   * Store an entry and its index keys
+   */
+  async index(record: AuditLogRecord): Promise<void> {
+    const id = this.entryId(record);
+    const options = this.retentionDays > 0
+      ? { expireIn: this.retentionDays * 24 * 60 * 60 * 1000 }
+      : undefined;
+
+    try {
+      const atomic = this.kvManager.getStorage().atomic()
+        .set([...this.keyPrefix, 'entries', ...id], this.fitRecord(record), options);
+
+      for (const [field, index] of INDEXED_FIELDS) {
+        const value = record[field];
+        if (typeof value === 'string' && value) {
+          atomic.set([...this.keyPrefix, index, value, ...id], true, options);
+        }
+      }
+
+      const result = await atomic.commit();
+      if (!result.ok) {
+        this.logger?.warn('AuditStore: Failed to index audit entry', { seq: record.seq });
+      }
+    } catch (error) {
+      this.logger?.error('AuditStore: Failed to index audit entry', toError(error), {
+        seq: record.seq,
+      });
+    }
+  }
+
+  /**
+   * Search entries, most recent first
+   *
+   * Uses the index for the first of userId, toolName, workflowName and type that
+   * is set; the remaining filters are applied to the entries read from it.
+   */
+  async search(options: AuditSearchOptions = {}): Promise<AuditLogRecord[]> {
+    const limit = options.limit ?? 100;
+    const indexed = INDEXED_FIELDS.find(([field]) => options[field]);
+    const base: StorageKey = indexed
+      ? [...this.keyPrefix, indexed[1], options[indexed[0]]!]
+      : [...this.keyPrefix, 'entries'];
+
+    const kv = this.kvManager.getStorage();
+    const iter = kv.list<AuditLogRecord | true>({
+      prefix: base,
+      ...(options.startTime && { start: [...base, options.startTime.getTime()] }),
+      // end is exclusive, and entries in the same millisecond differ by sequence number
+      ...(options.endTime && { end: [...base, options.endTime.getTime() + 1] }),
+    }, { reverse: true });
+
+    const results: AuditLogRecord[] = [];
+    for await (const item of iter) {
+      const record = indexed
+        ? (await kv.get<AuditLogRecord>([...this.keyPrefix, 'entries', ...item.key.slice(-2)]))
+          .value
+        : item.value as AuditLogRecord;
+
+      if (!record || !this.matches(record, options)) {
+        continue;
+      }
+
+      results.push(record);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the most recently stored entry
+   */
+  async getLatest(): Promise<AuditLogRecord | null> {
+    const iter = this.kvManager.getStorage().list<AuditLogRecord>(
+      { prefix: [...this.keyPrefix, 'entries'] },
+      { reverse: true, limit: 1 },
+    );
+    for await (const entry of iter) {
+      return entry.value;
+    }
+    return null;
+  }
+
+  private entryId(record: AuditLogRecord): [number, number] {
+    return [Date.parse(record.timestamp), record.seq];
+  }
+
+  private matches(record: AuditLogRecord, options: AuditSearchOptions): boolean {
+    if (options.userId && record.userId !== options.userId) return false;
+    if (options.toolName && record.toolName !== options.toolName) return false;
+    if (options.workflowName && record.workflowName !== options.workflowName) return false;
+    if (options.type && record.type !== options.type) return false;
+    if (options.event && record.event !== options.event) return false;
+    return true;
+  }
+
+  /**
+   * Drop inputs and results from entries too large for a KV value
+   */
+  private fitRecord(record: AuditLogRecord): AuditLogRecord {
+    if (JSON.stringify(record).length <= MAX_ENTRY_SIZE) {
+      return record;
+    }
+
+    const { inputParams: _inputParams, outputResult: _outputResult, ...rest } = record;
+    const fitted: AuditLogRecord = { ...rest, truncated: true };
+    if (JSON.stringify(fitted).length <= MAX_ENTRY_SIZE) {
+      return fitted;
+    }
+
+    const { details: _details, ...minimal } = fitted;
+    return minimal;
+  }
+}
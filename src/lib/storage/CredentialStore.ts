@@ -3,10 +3,16 @@
  *
  * Provides encrypted storage and management of OAuth credentials, API keys,
  * and other sensitive authentication data.
+ *
+ * Encryption uses AES-256-GCM envelope encryption (WebCrypto): each record is
+ * encrypted with its own random data key, which is wrapped with the configured
+ * key-encryption key. Records carry the wrapping key's ID so keys can be rotated
+ * by re-wrapping data keys (see migrateEncryption).
  */
 
 import type { OAuthCredentials } from './StorageTypes.ts';
 import type { KVManager } from './KVManager.ts';
+import { ErrorHandler } from '../utils/ErrorHandler.ts';
 import { toError } from '../utils/Error.ts';
 
 interface Logger {
@@ -22,10 +28,55 @@ interface Logger {
 export interface CredentialStoreConfig {
   keyPrefix?: string[];
   enableEncryption?: boolean;
+  /** Base64-encoded 256-bit key-encryption key (e.g. `openssl rand -base64 32`) */
   encryptionKey?: string;
+  /** ID stored with records wrapped by encryptionKey (defaults to a key fingerprint) */
+  encryptionKeyId?: string;
+  /** Retired keys by ID, still accepted for decryption until records are migrated */
+  previousEncryptionKeys?: Record<string, string>;
   tokenRefreshBuffer?: number; // Milliseconds before expiry to consider token expired
 }
 
+/**
+ * Encrypted credential record as stored in KV
+ * Timestamps stay in plaintext so bookkeeping doesn't require decryption
+ */
+export interface EncryptedCredentialRecord {
+  encrypted: true;
+  version: 1;
+  keyId: string;
+  wrappedKey: string;
+  wrapIv: string;
+  iv: string;
+  ciphertext: string;
+  storedAt: number;
+  lastUsedAt: number;
+}
+
+/**
+ * Result of an encryption migration run
+ */
+export interface CredentialMigrationResult {
+  /** Plaintext records that were encrypted */
+  encrypted: number;
+  /** Records re-wrapped from a previous key to the current key */
+  rewrapped: number;
+  /** Records already encrypted with the current key */
+  unchanged: number;
+  /** Records that could not be migrated (e.g. unknown key ID) */
+  failed: number;
+}
+
+type StoredCredentials = OAuthCredentials & {
+  storedAt: number;
+  lastUsedAt: number;
+};
+
+interface EncryptionKeys {
+  currentKeyId: string;
+  keys: Map<string, CryptoKey>;
+}
+
 /**
  * Generic credential store for OAuth tokens and API keys
  */
@@ -34,6 +85,11 @@ export class CredentialStore {
   private keyPrefix: string[];
   private tokenRefreshBuffer: number;
   private logger: Logger | undefined;
+  private enableEncryption: boolean;
+  private encryptionKey: string | undefined;
+  private encryptionKeyId: string | undefined;
+  private previousEncryptionKeys: Record<string, string>;
+  private encryptionKeys: Promise<EncryptionKeys> | undefined;
 
   constructor(
     kvManager: KVManager,
@@ -44,6 +100,26 @@ export class CredentialStore {
     this.keyPrefix = config.keyPrefix ?? ['credentials'];
     this.tokenRefreshBuffer = config.tokenRefreshBuffer ?? 5 * 60 * 1000; // 5 minutes
     this.logger = logger;
+    this.enableEncryption = config.enableEncryption ?? false;
+    this.encryptionKey = config.encryptionKey || undefined;
+    this.encryptionKeyId = config.encryptionKeyId || undefined;
+    this.previousEncryptionKeys = config.previousEncryptionKeys ?? {};
+
+    if (this.enableEncryption && !this.encryptionKey) {
+      throw ErrorHandler.wrapError(
+        'CredentialStore: Encryption is enabled but no encryption key was provided. ' +
+          'Set CREDENTIAL_ENCRYPTION_KEY to a base64-encoded 256-bit key ' +
+          '(e.g. `openssl rand -base64 32`).',
+        'CREDENTIAL_ENCRYPTION_KEY_MISSING',
+      );
+    }
+  }
+
+  /**
+   * Whether new and updated credentials are encrypted at rest
+   */
+  isEncryptionEnabled(): boolean {
+    return this.enableEncryption;
   }
 
   /**
@@ -57,13 +133,16 @@ export class CredentialStore {
     try {
       const credentialKey = [...this.keyPrefix, provider, userId];
 
-      const credentialData = {
+      const credentialData: StoredCredentials = {
         ...credentials,
         storedAt: Date.now(),
         lastUsedAt: Date.now(),
       };
 
-      await this.kvManager.set(credentialKey, credentialData);
+      await this.kvManager.set(
+        credentialKey,
+        await this.encodeRecord(provider, userId, credentialData),
+      );
       // this.logger?.info('CredentialStore: Stored credentials', { userId, provider, credentialData });
 
       // Store user index for easy lookup
@@ -93,12 +172,11 @@ export class CredentialStore {
   ): Promise<OAuthCredentials | null> {
     try {
       const credentialKey = [...this.keyPrefix, provider, userId];
-      const credentials = await this.kvManager.get<
-        OAuthCredentials & {
-          storedAt: number;
-          lastUsedAt: number;
-        }
-      >(credentialKey);
+      const credentials = await this.decodeRecord(
+        provider,
+        userId,
+        await this.kvManager.get<StoredCredentials | EncryptedCredentialRecord>(credentialKey),
+      );
       //this.logger?.info('CredentialStore: Retrieved credentials', { userId, provider, credentials });
 
       if (!credentials) {
@@ -143,24 +221,26 @@ export class CredentialStore {
   ): Promise<void> {
     try {
       const credentialKey = [...this.keyPrefix, provider, userId];
-      const existing = await this.kvManager.get<
-        OAuthCredentials & {
-          storedAt: number;
-          lastUsedAt: number;
-        }
-      >(credentialKey);
+      const existing = await this.decodeRecord(
+        provider,
+        userId,
+        await this.kvManager.get<StoredCredentials | EncryptedCredentialRecord>(credentialKey),
+      );
 
       if (!existing) {
         throw new Error(`Credentials not found for user ${userId} and provider ${provider}`);
       }
 
-      const updatedCredentials = {
+      const updatedCredentials: StoredCredentials = {
         ...existing,
         ...updates,
         lastUsedAt: Date.now(),
       };
 
-      await this.kvManager.set(credentialKey, updatedCredentials);
+      await this.kvManager.set(
+        credentialKey,
+        await this.encodeRecord(provider, userId, updatedCredentials),
+      );
 
       // Update user index if expiration changed
       if (updates.expiresAt) {
@@ -388,6 +468,278 @@ export class CredentialStore {
     }
   }
 
+  /**
+   * Encrypt plaintext records and re-wrap records using a previous key with the current key
+   * Safe to run repeatedly; records already using the current key are left untouched
+   */
+  async migrateEncryption(): Promise<CredentialMigrationResult> {
+    if (!this.enableEncryption) {
+      throw ErrorHandler.wrapError(
+        'CredentialStore: Cannot migrate credentials - encryption is not enabled',
+        'CREDENTIAL_ENCRYPTION_DISABLED',
+      );
+    }
+
+    const { currentKeyId, keys } = await this.getEncryptionKeys();
+    const result: CredentialMigrationResult = {
+      encrypted: 0,
+      rewrapped: 0,
+      unchanged: 0,
+      failed: 0,
+    };
+
+    const entries = await this.kvManager.list<StoredCredentials | EncryptedCredentialRecord>(
+      this.keyPrefix,
+    );
+
+    for (const { key, value } of entries) {
+      // Credential keys are [...keyPrefix, provider, userId]; skip the by_user index
+      if (key.length !== this.keyPrefix.length + 2 || key[this.keyPrefix.length] === 'by_user') {
+        continue;
+      }
+      const provider = String(key[key.length - 2]);
+      const userId = String(key[key.length - 1]);
+
+      try {
+        if (!CredentialStore.isEncryptedRecord(value)) {
+          await this.kvManager.set(key, await this.encodeRecord(provider, userId, value));
+          result.encrypted++;
+        } else if (value.keyId !== currentKeyId) {
+          const dataKey = await this.unwrapDataKey(value, keys);
+          await this.kvManager.set(key, {
+            ...value,
+            ...(await this.wrapDataKey(dataKey, currentKeyId, keys)),
+          });
+          result.rewrapped++;
+        } else {
+          result.unchanged++;
+        }
+      } catch (error) {
+        result.failed++;
+        this.logger?.error('CredentialStore: Failed to migrate credentials', toError(error), {
+          userId,
+          provider,
+        });
+      }
+    }
+
+    this.logger?.info('CredentialStore: Encryption migration completed', {
+      ...result,
+      keyId: currentKeyId,
+    });
+    return result;
+  }
+
+  /**
+   * Check whether a stored value is an encrypted credential record
+   */
+  static isEncryptedRecord(value: unknown): value is EncryptedCredentialRecord {
+    return typeof value === 'object' && value !== null &&
+      (value as EncryptedCredentialRecord).encrypted === true;
+  }
+
+  /**
+   * Encrypt a credential record when encryption is enabled
+   */
+  private async encodeRecord(
+    provider: string,
+    userId: string,
+    credentials: StoredCredentials,
+  ): Promise<StoredCredentials | EncryptedCredentialRecord> {
+    if (!this.enableEncryption) {
+      return credentials;
+    }
+
+    const { currentKeyId, keys } = await this.getEncryptionKeys();
+    const { storedAt, lastUsedAt, ...secret } = credentials;
+
+    // Fresh data key per record, wrapped with the key-encryption key
+    const dataKey = crypto.getRandomValues(new Uint8Array(32));
+    const iv = crypto.getRandomValues(new Uint8Array(12));
+    const cryptoKey = await crypto.subtle.importKey('raw', dataKey, 'AES-GCM', false, ['encrypt']);
+    const ciphertext = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: this.getAdditionalData(provider, userId) },
+      cryptoKey,
+      new TextEncoder().encode(JSON.stringify(secret)),
+    );
+
+    return {
+      encrypted: true,
+      version: 1,
+      ...(await this.wrapDataKey(dataKey, currentKeyId, keys)),
+      iv: CredentialStore.toBase64(iv),
+      ciphertext: CredentialStore.toBase64(new Uint8Array(ciphertext)),
+      storedAt,
+      lastUsedAt,
+    };
+  }
+
+  /**
+   * Decrypt a stored record; plaintext records are returned as-is
+   */
+  private async decodeRecord(
+    provider: string,
+    userId: string,
+    record: StoredCredentials | EncryptedCredentialRecord | null,
+  ): Promise<StoredCredentials | null> {
+    if (!record || !CredentialStore.isEncryptedRecord(record)) {
+      return record;
+    }
+
+    const { keys } = await this.getEncryptionKeys();
+    const dataKey = await this.unwrapDataKey(record, keys);
+    const cryptoKey = await crypto.subtle.importKey('raw', dataKey, 'AES-GCM', false, ['decrypt']);
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: CredentialStore.fromBase64(record.iv),
+        additionalData: this.getAdditionalData(provider, userId),
+      },
+      cryptoKey,
+      CredentialStore.fromBase64(record.ciphertext),
+    );
+
+    return {
+      ...JSON.parse(new TextDecoder().decode(plaintext)),
+      storedAt: record.storedAt,
+      lastUsedAt: record.lastUsedAt,
+    };
+  }
+
+  /**
+   * Wrap a data key with the key-encryption key identified by keyId
+   */
+  private async wrapDataKey(
+    dataKey: Uint8Array<ArrayBuffer>,
+    keyId: string,
+    keys: Map<string, CryptoKey>,
+  ): Promise<Pick<EncryptedCredentialRecord, 'keyId' | 'wrappedKey' | 'wrapIv'>> {
+    const wrapIv = crypto.getRandomValues(new Uint8Array(12));
+    const wrappedKey = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: wrapIv, additionalData: new TextEncoder().encode(keyId) },
+      keys.get(keyId)!,
+      dataKey,
+    );
+    return {
+      keyId,
+      wrappedKey: CredentialStore.toBase64(new Uint8Array(wrappedKey)),
+      wrapIv: CredentialStore.toBase64(wrapIv),
+    };
+  }
+
+  /**
+   * Unwrap a record's data key using the key-encryption key it was wrapped with
+   */
+  private async unwrapDataKey(
+    record: EncryptedCredentialRecord,
+    keys: Map<string, CryptoKey>,
+  ): Promise<Uint8Array<ArrayBuffer>> {
+    const wrappingKey = keys.get(record.keyId);
+    if (!wrappingKey) {
+      throw ErrorHandler.wrapError(
+        `CredentialStore: Credentials are encrypted with key '${record.keyId}', ` +
+          'but no matching encryption key is configured',
+        'CREDENTIAL_ENCRYPTION_KEY_MISSING',
+        { keyId: record.keyId },
+      );
+    }
+
+    const dataKey = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: CredentialStore.fromBase64(record.wrapIv),
+        additionalData: new TextEncoder().encode(record.keyId),
+      },
+      wrappingKey,
+      CredentialStore.fromBase64(record.wrappedKey),
+    );
+    return new Uint8Array(dataKey);
+  }
+
+  /**
+   * Import the configured key-encryption keys (once)
+   */
+  private getEncryptionKeys(): Promise<EncryptionKeys> {
+    if (!this.encryptionKeys) {
+      this.encryptionKeys = this.importEncryptionKeys();
+      // Allow a retry after a failed import (e.g. a malformed key)
+      this.encryptionKeys.catch(() => {
+        this.encryptionKeys = undefined;
+      });
+    }
+    return this.encryptionKeys;
+  }
+
+  private async importEncryptionKeys(): Promise<EncryptionKeys> {
+    const keys = new Map<string, CryptoKey>();
+
+    for (const [keyId, key] of Object.entries(this.previousEncryptionKeys)) {
+      keys.set(keyId, await CredentialStore.importKey(key, keyId));
+    }
+
+    if (!this.encryptionKey) {
+      if (keys.size === 0) {
+        throw ErrorHandler.wrapError(
+          'CredentialStore: Found encrypted credentials but no encryption key is configured. ' +
+            'Set CREDENTIAL_ENCRYPTION_KEY.',
+          'CREDENTIAL_ENCRYPTION_KEY_MISSING',
+        );
+      }
+      return { currentKeyId: '', keys };
+    }
+
+    const currentKeyId = this.encryptionKeyId ??
+      await CredentialStore.getKeyFingerprint(this.encryptionKey);
+    keys.set(currentKeyId, await CredentialStore.importKey(this.encryptionKey, currentKeyId));
+
+    return { currentKeyId, keys };
+  }
+
+  /**
+   * Import a base64-encoded 256-bit key for AES-GCM
+   */
+  private static async importKey(key: string, keyId: string): Promise<CryptoKey> {
+    let raw: Uint8Array<ArrayBuffer>;
+    try {
+      raw = CredentialStore.fromBase64(key);
+    } catch {
+      raw = new Uint8Array();
+    }
+    if (raw.length !== 32) {
+      throw ErrorHandler.wrapError(
+        `CredentialStore: Encryption key '${keyId || 'current'}' must be a base64-encoded ` +
+          '256-bit key (e.g. `openssl rand -base64 32`)',
+        'CREDENTIAL_ENCRYPTION_KEY_INVALID',
+      );
+    }
+    return await crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  }
+
+  /**
+   * Derive a short, non-secret key ID from the key material
+   */
+  private static async getKeyFingerprint(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+    return Array.from(new Uint8Array(digest).slice(0, 8))
+      .map((byte) => byte.toString(16).padStart(2, '0'))
+      .join('');
+  }
+
+  /**
+   * Bind ciphertext to its provider and user so records can't be swapped between keys
+   */
+  private getAdditionalData(provider: string, userId: string): Uint8Array<ArrayBuffer> {
+    return new TextEncoder().encode(`${provider}/${userId}`);
+  }
+
+  private static toBase64(bytes: Uint8Array): string {
+    return btoa(String.fromCharCode(...bytes));
+  }
+
+  private static fromBase64(value: string): Uint8Array<ArrayBuffer> {
+    return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+  }
+
   /**
    * Update last used timestamp for credentials
    */
@@ -0,0 +1,84 @@
+/**
+ * Deno KV Storage Backend - Default backend (requires --unstable-kv)
+ */
+
+import type {
+  StorageAtomicOperation,
+  StorageBackend,
+  StorageCommitResult,
+  StorageEntry,
+  StorageEntryMaybe,
+  StorageKey,
+  StorageListOptions,
+  StorageListSelector,
+  StorageSetOptions,
+} from './StorageBackend.ts';
+
+/**
+ * StorageBackend backed by Deno KV
+ */
+export class DenoKvStorageBackend implements StorageBackend {
+  readonly name = 'deno_kv';
+  private kv: Deno.Kv;
+
+  private constructor(kv: Deno.Kv) {
+    this.kv = kv;
+  }
+
+  /**
+   * Open a Deno KV database (a file path, ':memory:' or a remote KV URL)
+   */
+  static async open(path?: string): Promise<DenoKvStorageBackend> {
+    return new DenoKvStorageBackend(await Deno.openKv(path));
+  }
+
+  /**
+   * The underlying Deno KV database
+   */
+  getDenoKv(): Deno.Kv {
+    return this.kv;
+  }
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    return this.kv.get<T>(key as Deno.KvKey) as Promise<StorageEntryMaybe<T>>;
+  }
+
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): Promise<StorageCommitResult> {
+    return this.kv.set(key as Deno.KvKey, value, options);
+  }
+
+  delete(key: StorageKey): Promise<void> {
+    return this.kv.delete(key as Deno.KvKey);
+  }
+
+  list<T = unknown>(
+    selector: StorageListSelector,
+    options?: StorageListOptions,
+  ): AsyncIterableIterator<StorageEntry<T>> {
+    return this.kv.list<T>(toKvSelector(selector), options) as AsyncIterableIterator<
+      StorageEntry<T>
+    >;
+  }
+
+  atomic(): StorageAtomicOperation {
+    return this.kv.atomic() as unknown as StorageAtomicOperation;
+  }
+
+  close(): void {
+    this.kv.close();
+  }
+}
+
+/**
+ * Deno KV accepts a prefix with start or end, but not both - start and end alone
+ * already lie inside the prefix
+ */
+function toKvSelector(selector: StorageListSelector): Deno.KvListSelector {
+  const prefix = selector.prefix as Deno.KvKey;
+  const start = selector.start as Deno.KvKey | undefined;
+  const end = selector.end as Deno.KvKey | undefined;
+  if (start && end) return { start, end };
+  if (start) return { prefix, start };
+  if (end) return { prefix, end };
+  return { prefix };
+}
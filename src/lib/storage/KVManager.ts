@@ -1,7 +1,9 @@
 /**
- * KV Manager - Generic Deno KV abstraction for bb-mcp-server library
+ * KV Manager - Generic KV abstraction for bb-mcp-server library
  *
- * Provides a unified interface for Deno KV operations with organized key prefixes.
+ * Provides a unified interface for KV operations with organized key prefixes.
+ * Data lives in a pluggable StorageBackend: Deno KV (default), SQLite, a
+ * Redis-compatible server or memory.
  *
  * Features:
  * - Configurable key prefixes for organized data storage
@@ -13,7 +15,19 @@
 
 import type { KVManagerConfig, KVPrefixes, KVStats } from './StorageTypes.ts';
 import { DEFAULT_KV_PREFIXES } from './StorageTypes.ts';
+import type {
+  StorageBackend,
+  StorageBackendType,
+  StorageEntry,
+  StorageKey,
+} from './StorageBackend.ts';
+import { DenoKvStorageBackend } from './DenoKvStorageBackend.ts';
+import { MemoryStorageBackend } from './MemoryStorageBackend.ts';
+import { RespStorageBackend } from './RespStorageBackend.ts';
+import { SqliteStorageBackend } from './SqliteStorageBackend.ts';
 import { toError } from '../utils/Error.ts';
+import { MCP_METRICS, MetricsRegistry } from '../utils/MetricsRegistry.ts';
+import { Tracer } from '../utils/Tracer.ts';
 
 export interface Logger {
   debug(message: string, data?: unknown): void;
@@ -23,17 +37,21 @@ export interface Logger {
 }
 
 /**
- * Generic KV manager for Deno KV operations with organized key prefixes
+ * Generic KV manager for storage backend operations with organized key prefixes
  */
 export class KVManager {
-  private kv: Deno.Kv | undefined;
+  private kv: StorageBackend | undefined;
+  private config: KVManagerConfig;
+  private backend: StorageBackendType;
   private kvPath: string;
   private prefixes: KVPrefixes;
   private initialized = false;
   private logger?: Logger;
 
   constructor(config: KVManagerConfig = {}, logger?: Logger) {
-    this.kvPath = config.kvPath ?? './data/mcp-server.db';
+    this.config = config;
+    this.backend = config.backend ?? 'denokv';
+    this.kvPath = this.resolveLocation();
     if (logger) {
       this.logger = logger;
     }
@@ -55,12 +73,15 @@ export class KVManager {
 
     try {
       this.logger?.info('KVManager: Initializing KV database', {
+        backend: this.config.storageBackend?.name ?? this.backend,
         kvPath: this.kvPath,
         currentWorkingDirectory: Deno.cwd(),
       });
 
-      // Create directory if it doesn't exist
-      const kvDir = this.kvPath.substring(0, this.kvPath.lastIndexOf('/'));
+      // Create directory if it doesn't exist (file-based backends only)
+      const isFileBackend = !this.config.storageBackend &&
+        (this.backend === 'denokv' || this.backend === 'sqlite') && this.kvPath !== ':memory:';
+      const kvDir = isFileBackend ? this.kvPath.substring(0, this.kvPath.lastIndexOf('/')) : '';
       this.logger?.debug('KVManager: Creating directory', {
         kvPath: this.kvPath,
         kvDir,
@@ -82,10 +103,11 @@ export class KVManager {
 
       // Open the KV database
       this.logger?.debug('KVManager: Opening KV database', { kvPath: this.kvPath });
-      this.kv = await Deno.openKv(this.kvPath);
+      this.kv = await this.openBackend();
       this.initialized = true;
 
       this.logger?.info('KVManager: Initialized KV connection', {
+        backend: this.kv.name,
         kvPath: this.kvPath,
         prefixes: Object.keys(this.prefixes),
       });
@@ -101,9 +123,22 @@ export class KVManager {
   }
 
   /**
-   * Get the KV instance (throws if not initialized)
+   * Get the Deno KV instance (throws if not initialized or not using the denokv backend)
    */
   getKV(): Deno.Kv {
+    const storage = this.getStorage();
+    if (!(storage instanceof DenoKvStorageBackend)) {
+      throw new Error(
+        `KVManager: getKV() requires the denokv backend (using '${storage.name}') - use getStorage()`,
+      );
+    }
+    return storage.getDenoKv();
+  }
+
+  /**
+   * Get the storage backend (throws if not initialized)
+   */
+  getStorage(): StorageBackend {
     if (!this.kv || !this.initialized) {
       throw new Error('KVManager not initialized - call initialize() first');
     }
@@ -126,7 +161,9 @@ export class KVManager {
     }
 
     try {
-      const result = await this.kv.get<T>(key);
+      this.recordOperation('get');
+      const kv = this.kv;
+      const result = await this.traceOperation('get', key, () => kv.get<T>(key));
       return result.value;
     } catch (error) {
       this.logger?.error('KVManager: Failed to get key', toError(error), { key });
@@ -143,10 +180,13 @@ export class KVManager {
     }
 
     try {
+      this.recordOperation('set');
+      const kv = this.kv;
       // const kvOptions: Deno.AtomicCheck[] = [];
-      const result = options?.expireIn // `expireIn` expects milliseconds, not seconds
-        ? await this.kv.set(key, value, { expireIn: options.expireIn })
-        : await this.kv.set(key, value);
+      const result = await this.traceOperation('set', key, () =>
+        options?.expireIn // `expireIn` expects milliseconds, not seconds
+          ? kv.set(key, value, { expireIn: options.expireIn })
+          : kv.set(key, value));
 
       if (!result.ok) {
         throw new Error('Failed to set KV value');
@@ -166,7 +206,9 @@ export class KVManager {
     }
 
     try {
-      await this.kv.delete(key);
+      this.recordOperation('delete');
+      const kv = this.kv;
+      await this.traceOperation('delete', key, () => kv.delete(key));
     } catch (error) {
       this.logger?.error('KVManager: Failed to delete key', toError(error), { key });
       throw error;
@@ -182,23 +224,54 @@ export class KVManager {
     }
 
     try {
-      const results: Array<{ key: string[]; value: T }> = [];
-      const iter = this.kv.list<T>({ prefix });
-
-      for await (const entry of iter) {
-        results.push({
-          key: entry.key as string[],
-          value: entry.value,
-        });
-      }
+      this.recordOperation('list');
+      const kv = this.kv;
+      return await this.traceOperation('list', prefix, async () => {
+        const results: Array<{ key: string[]; value: T }> = [];
+        const iter = kv.list<T>({ prefix });
+
+        for await (const entry of iter) {
+          results.push({
+            key: entry.key as string[],
+            value: entry.value,
+          });
+        }
 
-      return results;
+        return results;
+      });
     } catch (error) {
       this.logger?.error('KVManager: Failed to list keys', toError(error), { prefix });
       throw error;
     }
   }
 
+  /**
+   * Count a KV operation for the metrics endpoint
+   */
+  private recordOperation(operation: 'get' | 'set' | 'delete' | 'list'): void {
+    MetricsRegistry.getInstance().incrementCounter(MCP_METRICS.kvOperations, { operation });
+  }
+
+  /**
+   * Run a KV operation in a child span of the active trace
+   * Only the key's top-level prefix is recorded, as keys can contain token and session IDs
+   */
+  private traceOperation<T>(
+    operation: 'get' | 'set' | 'delete' | 'list',
+    key: string[],
+    execute: () => Promise<T>,
+  ): Promise<T> {
+    return Tracer.getInstance().startActiveSpan(`kv.${operation}`, {
+      kind: 'client',
+      requireParent: true,
+      attributes: {
+        'db.system.name': this.kv?.name ?? 'unknown',
+        'db.operation.name': operation,
+        'db.collection.name': key[0],
+      },
+    }, execute);
+  }
+
   /**
    * Close the KV connection
    */
@@ -208,7 +281,7 @@ export class KVManager {
     }
 
     try {
-      this.kv.close();
+      await this.kv.close();
       this.kv = undefined;
       this.initialized = false;
 
@@ -321,7 +394,7 @@ export class KVManager {
    */
   async cleanupKeysByPrefix(
     prefix: readonly string[],
-    filter?: (entry: Deno.KvEntry<unknown>) => boolean,
+    filter?: (entry: StorageEntry<unknown>) => boolean,
     batchSize: number = 10,
   ): Promise<number> {
     if (!this.kv || !this.initialized) {
@@ -329,7 +402,7 @@ export class KVManager {
     }
 
     try {
-      const keysToDelete: Deno.KvKey[] = [];
+      const keysToDelete: StorageKey[] = [];
       const iter = this.kv.list({ prefix: [...prefix] });
 
       for await (const entry of iter) {
@@ -381,12 +454,60 @@ export class KVManager {
   }
 
   /**
-   * Get the KV file path
+   * Get the KV file path (or the backend's location for non-file backends)
    */
   getKVPath(): string {
     return this.kvPath;
   }
 
+  /**
+   * Open the configured storage backend
+   */
+  private async openBackend(): Promise<StorageBackend> {
+    if (this.config.storageBackend) {
+      return this.config.storageBackend;
+    }
+
+    switch (this.backend) {
+      case 'denokv':
+        return await DenoKvStorageBackend.open(this.kvPath);
+      case 'sqlite':
+        return new SqliteStorageBackend(this.kvPath);
+      case 'redis':
+        if (!this.config.redis?.url) {
+          throw new Error('KVManager: redis backend requires a server URL');
+        }
+        return new RespStorageBackend(this.config.redis);
+      case 'memory':
+        return new MemoryStorageBackend();
+      default:
+        throw new Error(`KVManager: Unknown storage backend '${this.backend}'`);
+    }
+  }
+
+  /**
+   * Location reported by getKVPath() and stats (credentials are stripped from URLs)
+   */
+  private resolveLocation(): string {
+    switch (this.backend) {
+      case 'sqlite':
+        return this.config.sqlitePath ?? './data/mcp-server.sqlite';
+      case 'redis': {
+        if (!this.config.redis?.url) {
+          return 'redis';
+        }
+        const url = new URL(this.config.redis.url);
+        url.username = '';
+        url.password = '';
+        return url.toString();
+      }
+      case 'memory':
+        return ':memory:';
+      default:
+        return this.config.kvPath ?? './data/mcp-server.db';
+    }
+  }
+
   /**
    * Helper method to count keys with a specific prefix
    */
@@ -0,0 +1,152 @@
+/**
+ * Memory Storage Backend - Process-local storage for tests and ephemeral servers
+ *
+ * Values are copied on write and read (structuredClone), as with a real store.
+ */
+
+import {
+  encodeStorageKey,
+  formatVersionstamp,
+  selectorRange,
+  type StorageAtomicCheck,
+  type StorageAtomicOperation,
+  type StorageBackend,
+  type StorageCommitResult,
+  type StorageEntry,
+  type StorageEntryMaybe,
+  type StorageKey,
+  type StorageListOptions,
+  type StorageListSelector,
+  type StorageSetOptions,
+} from './StorageBackend.ts';
+
+interface MemoryRecord {
+  key: StorageKey;
+  value: unknown;
+  versionstamp: string;
+  expiresAt: number | undefined;
+}
+
+type MemoryMutation =
+  | { type: 'set'; key: StorageKey; value: unknown; options?: StorageSetOptions | undefined }
+  | { type: 'delete'; key: StorageKey };
+
+/**
+ * StorageBackend kept in memory
+ */
+export class MemoryStorageBackend implements StorageBackend {
+  readonly name = 'memory';
+  private records = new Map<string, MemoryRecord>();
+  private version = 0;
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    const record = this.getRecord(encodeStorageKey(key));
+    return Promise.resolve({
+      key,
+      value: record ? structuredClone(record.value) as T : null,
+      versionstamp: record?.versionstamp ?? null,
+    });
+  }
+
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): Promise<StorageCommitResult> {
+    return this.atomic().set(key, value, options).commit();
+  }
+
+  async delete(key: StorageKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+
+  async *list<T = unknown>(
+    selector: StorageListSelector,
+    options: StorageListOptions = {},
+  ): AsyncIterableIterator<StorageEntry<T>> {
+    const { start, end } = selectorRange(selector);
+    const keys = [...this.records.keys()]
+      .filter((encoded) => encoded >= start && encoded < end)
+      .sort();
+    if (options.reverse) {
+      keys.reverse();
+    }
+
+    let count = 0;
+    for (const encoded of keys) {
+      if (options.limit !== undefined && count >= options.limit) {
+        return;
+      }
+      const record = this.getRecord(encoded);
+      if (!record) {
+        continue;
+      }
+      count++;
+      yield {
+        key: record.key,
+        value: structuredClone(record.value) as T,
+        versionstamp: record.versionstamp,
+      };
+    }
+  }
+
+  atomic(): StorageAtomicOperation {
+    const checks: StorageAtomicCheck[] = [];
+    const mutations: MemoryMutation[] = [];
+
+    const operation: StorageAtomicOperation = {
+      check: (...newChecks) => {
+        checks.push(...newChecks);
+        return operation;
+      },
+      set: (key, value, options) => {
+        mutations.push({ type: 'set', key, value: structuredClone(value), options });
+        return operation;
+      },
+      delete: (key) => {
+        mutations.push({ type: 'delete', key });
+        return operation;
+      },
+      // Checks and mutations run synchronously, so no other operation can interleave
+      commit: () => Promise.resolve(this.commit(checks, mutations)),
+    };
+    return operation;
+  }
+
+  close(): void {
+    this.records.clear();
+  }
+
+  private commit(checks: StorageAtomicCheck[], mutations: MemoryMutation[]): StorageCommitResult {
+    for (const check of checks) {
+      const record = this.getRecord(encodeStorageKey(check.key));
+      if ((record?.versionstamp ?? null) !== check.versionstamp) {
+        return { ok: false };
+      }
+    }
+
+    const versionstamp = formatVersionstamp(++this.version);
+    const now = Date.now();
+    for (const mutation of mutations) {
+      const encoded = encodeStorageKey(mutation.key);
+      if (mutation.type === 'delete') {
+        this.records.delete(encoded);
+      } else {
+        this.records.set(encoded, {
+          key: [...mutation.key],
+          value: mutation.value,
+          versionstamp,
+          expiresAt: mutation.options?.expireIn !== undefined
+            ? now + mutation.options.expireIn
+            : undefined,
+        });
+      }
+    }
+    return { ok: true, versionstamp };
+  }
+
+  private getRecord(encoded: string): MemoryRecord | undefined {
+    const record = this.records.get(encoded);
+    if (record?.expiresAt !== undefined && record.expiresAt <= Date.now()) {
+      this.records.delete(encoded);
+      return undefined;
+    }
+    return record;
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Rate Limit Store - Token bucket rate limiting backed by KVManager
+ *
+ * Keeps one token bucket per scope (tool, workflow, global) and identity
+ * (authenticated user, client ID or session). Bucket state lives in Deno KV so
+ * limits hold across restarts and are shared by instances using the same database.
+ *
+ * Limits fail open: when the KV store errors, or a bucket is still contended after
+ * `maxCommitAttempts` compare-and-swap attempts, the request is allowed and the
+ * failure is logged. A storage outage then disables rate limiting instead of
+ * rejecting every tool call.
+ */
+
+import type { KVManager } from './KVManager.ts';
+import type { RateLimitConfig } from '../types/PluginTypes.ts';
+import type { MCPRateLimitInfo } from '../types/BeyondMcpTypes.ts';
+import { ErrorCategory, ErrorHandler, MCPError } from '../utils/ErrorHandler.ts';
+import { toError } from '../utils/Error.ts';
+
+interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, error?: Error, data?: unknown): void;
+}
+
+/**
+ * Configuration for rate limit storage
+ */
+export interface RateLimitStoreConfig {
+  keyPrefix?: string[];
+  /** Limit applied to every identity across all tools and workflows (optional) */
+  globalLimit?: RateLimitConfig;
+  /** Compare-and-swap attempts on a contended bucket before allowing the request (default: 5) */
+  maxCommitAttempts?: number;
+}
+
+/**
+ * Sources used to derive the rate limit identity for a request
+ */
+export interface RateLimitIdentitySource {
+  userId?: string | null | undefined;
+  clientId?: string | null | undefined;
+  sessionId?: string | null | undefined;
+}
+
+/**
+ * Persisted token bucket state
+ */
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * KV-backed token bucket rate limiter
+ */
+export class RateLimitStore {
+  private kvManager: KVManager;
+  private keyPrefix: string[];
+  private globalLimit: RateLimitConfig | undefined;
+  private maxCommitAttempts: number;
+  private logger: Logger | undefined;
+
+  constructor(
+    kvManager: KVManager,
+    config: RateLimitStoreConfig = {},
+    logger?: Logger,
+  ) {
+    this.kvManager = kvManager;
+    this.keyPrefix = config.keyPrefix ?? ['rate_limits'];
+    this.globalLimit = config.globalLimit;
+    this.maxCommitAttempts = config.maxCommitAttempts ?? 5;
+    this.logger = logger;
+  }
+
+  /**
+   * Derive the bucket identity: authenticated user, then client ID, then session
+   */
+  static resolveIdentity(source: RateLimitIdentitySource): string {
+    if (source.userId) return `user:${source.userId}`;
+    if (source.clientId) return `client:${source.clientId}`;
+    if (source.sessionId) return `session:${source.sessionId}`;
+    return 'anonymous';
+  }
+
+  /**
+   * Check whether an error is a rate limit rejection created by this store
+   */
+  static isRateLimitError(error: unknown): error is MCPError {
+    return error instanceof MCPError && error.info.category === ErrorCategory.RATE_LIMIT;
+  }
+
+  /**
+   * Get rate limit details from a rate limit rejection
+   */
+  static getRateLimitInfo(error: MCPError): MCPRateLimitInfo {
+    const details = error.info.details || {};
+    const info: MCPRateLimitInfo = {
+      allowed: false,
+      limit: Number(details.limit ?? 0),
+      remaining: Number(details.remaining ?? 0),
+      resetTime: new Date(String(details.resetTime ?? new Date().toISOString())),
+    };
+    if (typeof details.retryAfter === 'number') {
+      info.retryAfter = details.retryAfter;
+    }
+    return info;
+  }
+
+  /**
+   * Get the global limit applied across all tools and workflows
+   */
+  getGlobalLimit(): RateLimitConfig | undefined {
+    return this.globalLimit;
+  }
+
+  /**
+   * Take a token from the bucket for scope + identity
+   */
+  async consume(
+    scope: string,
+    identity: string,
+    limit: RateLimitConfig,
+    cost = 1,
+  ): Promise<MCPRateLimitInfo> {
+    const capacity = Math.max(limit.burst ?? limit.requests, 1);
+    const refillPerMs = limit.requests / (limit.window * 1000);
+    const key = [...this.keyPrefix, scope, identity];
+    const kv = this.kvManager.getStorage();
+
+    for (let attempt = 0; attempt < this.maxCommitAttempts; attempt++) {
+      const entry = await kv.get<TokenBucketState>(key);
+      const now = Date.now();
+      const state = entry.value ?? { tokens: capacity, updatedAt: now };
+
+      const available = Math.min(
+        capacity,
+        state.tokens + Math.max(0, now - state.updatedAt) * refillPerMs,
+      );
+      const allowed = available >= cost;
+      const tokens = allowed ? available - cost : available;
+      const msUntilFull = Math.ceil((capacity - tokens) / refillPerMs);
+
+      const result = await kv.atomic()
+        .check(entry)
+        .set(key, { tokens, updatedAt: now } satisfies TokenBucketState, {
+          expireIn: msUntilFull + 1000,
+        })
+        .commit();
+
+      if (!result.ok) continue;
+
+      const info: MCPRateLimitInfo = {
+        allowed,
+        limit: limit.requests,
+        remaining: Math.floor(tokens),
+        resetTime: new Date(now + msUntilFull),
+      };
+      if (!allowed) {
+        info.retryAfter = Math.max(1, Math.ceil((cost - available) / refillPerMs / 1000));
+        this.logger?.debug('RateLimitStore: Rate limit exceeded', {
+          scope,
+          identity,
+          retryAfter: info.retryAfter,
+        });
+      }
+      return info;
+    }
+
+    // Fail open rather than rejecting legitimate traffic on heavy contention
+    this.logger?.warn('RateLimitStore: Bucket update contended, allowing request', {
+      scope,
+      identity,
+      attempts: this.maxCommitAttempts,
+    });
+    return {
+      allowed: true,
+      limit: limit.requests,
+      remaining: 0,
+      resetTime: new Date(),
+    };
+  }
+
+  /**
+   * Consume from the global bucket (if configured) and the scope bucket (if a limit is given)
+   * Throws a RATE_LIMIT_EXCEEDED error when either bucket is empty. Fails open: returns
+   * undefined and logs an error when the buckets cannot be read or written
+   */
+  async enforce(
+    scope: string,
+    identity: string,
+    limit?: RateLimitConfig,
+    includeGlobal = true,
+  ): Promise<MCPRateLimitInfo | undefined> {
+    let info: MCPRateLimitInfo | undefined;
+
+    try {
+      if (includeGlobal && this.globalLimit) {
+        info = await this.consume('global', identity, this.globalLimit);
+        if (!info.allowed) throw this.createRateLimitError('global', identity, info);
+      }
+      if (limit) {
+        info = await this.consume(scope, identity, limit);
+        if (!info.allowed) throw this.createRateLimitError(scope, identity, info);
+      }
+    } catch (error) {
+      if (RateLimitStore.isRateLimitError(error)) throw error;
+
+      // Storage failures must not take tools down with them
+      this.logger?.error(
+        'RateLimitStore: Rate limit check failed, allowing request',
+        toError(error),
+        {
+          scope,
+          identity,
+        },
+      );
+      return undefined;
+    }
+
+    return info;
+  }
+
+  /**
+   * Remove bucket state for a scope + identity (e.g. after an admin reset)
+   */
+  async reset(scope: string, identity: string): Promise<void> {
+    await this.kvManager.delete([...this.keyPrefix, scope, identity]);
+  }
+
+  /**
+   * Build a structured rate limit error with retry-after details
+   */
+  private createRateLimitError(
+    scope: string,
+    identity: string,
+    info: MCPRateLimitInfo,
+  ): MCPError {
+    const error = ErrorHandler.wrapError(
+      `Rate limit exceeded for ${scope}. Retry after ${info.retryAfter ?? 1} seconds`,
+      'RATE_LIMIT_EXCEEDED',
+      { scope, identity },
+    );
+    error.info.details = {
+      limit: info.limit,
+      remaining: info.remaining,
+      resetTime: info.resetTime.toISOString(),
+      retryAfter: info.retryAfter,
+    };
+    return error;
+  }
+}
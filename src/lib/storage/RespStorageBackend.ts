@@ -0,0 +1,423 @@
+/**
+ * RESP Storage Backend - Storage on a Redis-compatible server
+ *
+ * Speaks RESP2 (the Redis protocol) over one TCP or TLS connection, so it works
+ * with Redis, Valkey, KeyDB or any other server implementing the commands below.
+ *
+ * Layout under the configured key prefix:
+ * - `<prefix>:e:<encoded key>` - versionstamp followed by the encoded value (PX for expireIn)
+ * - `<prefix>:index` - sorted set of encoded keys, listed with ZRANGEBYLEX
+ * - `<prefix>:version` - INCR counter for versionstamps
+ *
+ * Atomic operations use WATCH/MULTI/EXEC. Index members whose entry expired are
+ * skipped when listing and removed lazily.
+ */
+
+import {
+  decodeStorageKey,
+  decodeStorageValue,
+  encodeStorageKey,
+  encodeStorageValue,
+  formatVersionstamp,
+  selectorRange,
+  type StorageAtomicCheck,
+  type StorageAtomicOperation,
+  type StorageBackend,
+  type StorageCommitResult,
+  type StorageEntry,
+  type StorageEntryMaybe,
+  type StorageKey,
+  type StorageListOptions,
+  type StorageListSelector,
+  type StorageSetOptions,
+} from './StorageBackend.ts';
+
+/**
+ * RESP backend options
+ */
+export interface RespStorageBackendOptions {
+  /** Server URL: redis://[[user]:password@]host[:port][/db], or rediss:// for TLS */
+  url: string;
+  /** Namespace for every key written by the backend (default: bb-mcp) */
+  keyPrefix?: string;
+}
+
+/**
+ * Error reply from the server
+ */
+export class RespError extends Error {
+  override name = 'RespError';
+}
+
+type RespValue = string | number | null | RespError | RespValue[];
+
+type RespMutation =
+  | { type: 'set'; key: StorageKey; value: string; expireIn: number | undefined }
+  | { type: 'delete'; key: StorageKey };
+
+const VERSIONSTAMP_LENGTH = 20;
+const MGET_BATCH_SIZE = 100;
+const CRLF = '\r\n';
+
+/**
+ * StorageBackend on a Redis-compatible server
+ */
+export class RespStorageBackend implements StorageBackend {
+  readonly name = 'redis';
+  private url: URL;
+  private keyPrefix: string;
+  private conn: Deno.Conn | undefined;
+  private buffer: Uint8Array = new Uint8Array(0);
+  private queue: Promise<unknown> = Promise.resolve();
+  private encoder = new TextEncoder();
+  private decoder = new TextDecoder();
+
+  constructor(options: RespStorageBackendOptions) {
+    this.url = new URL(options.url);
+    this.keyPrefix = options.keyPrefix ?? 'bb-mcp';
+  }
+
+  /**
+   * Create a backend and verify the server is reachable
+   */
+  static async connect(options: RespStorageBackendOptions): Promise<RespStorageBackend> {
+    const backend = new RespStorageBackend(options);
+    await backend.exclusive(() => backend.command('PING'));
+    return backend;
+  }
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    return this.exclusive(async () => {
+      const stored = await this.command('GET', this.entryKey(encodeStorageKey(key)));
+      return this.toEntry<T>(key, typeof stored === 'string' ? stored : null);
+    });
+  }
+
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): Promise<StorageCommitResult> {
+    return this.atomic().set(key, value, options).commit();
+  }
+
+  async delete(key: StorageKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+
+  async *list<T = unknown>(
+    selector: StorageListSelector,
+    options: StorageListOptions = {},
+  ): AsyncIterableIterator<StorageEntry<T>> {
+    const { start, end } = selectorRange(selector);
+    // An unbounded side of an empty prefix maps to the open ends of the sorted set
+    const min = start === '' ? '-' : `[${start}`;
+    const max = selector.prefix.length === 0 && !selector.end ? '+' : `(${end}`;
+    const members = await this.exclusive(() =>
+      options.reverse
+        ? this.command('ZREVRANGEBYLEX', this.indexKey, max, min)
+        : this.command('ZRANGEBYLEX', this.indexKey, min, max)
+    ) as string[];
+
+    let count = 0;
+    for (let i = 0; i < members.length; i += MGET_BATCH_SIZE) {
+      const batch = members.slice(i, i + MGET_BATCH_SIZE);
+      const values = await this.exclusive(() =>
+        this.command('MGET', ...batch.map((member) => this.entryKey(member)))
+      ) as Array<string | null>;
+
+      const stale: string[] = [];
+      for (const [index, member] of batch.entries()) {
+        const stored = values[index];
+        if (typeof stored !== 'string') {
+          stale.push(member);
+          continue;
+        }
+        if (options.limit !== undefined && count >= options.limit) {
+          return;
+        }
+        count++;
+        yield this.toEntry<T>(decodeStorageKey(member), stored) as StorageEntry<T>;
+      }
+
+      if (stale.length > 0) {
+        await this.exclusive(() => this.removeStaleMembers(stale));
+      }
+    }
+  }
+
+  atomic(): StorageAtomicOperation {
+    const checks: StorageAtomicCheck[] = [];
+    const mutations: RespMutation[] = [];
+
+    const operation: StorageAtomicOperation = {
+      check: (...newChecks) => {
+        checks.push(...newChecks);
+        return operation;
+      },
+      set: (key, value, options) => {
+        mutations.push({
+          type: 'set',
+          key,
+          value: encodeStorageValue(value),
+          expireIn: options?.expireIn,
+        });
+        return operation;
+      },
+      delete: (key) => {
+        mutations.push({ type: 'delete', key });
+        return operation;
+      },
+      commit: () => this.exclusive(() => this.commit(checks, mutations)),
+    };
+    return operation;
+  }
+
+  close(): void {
+    this.disconnect();
+  }
+
+  private async commit(
+    checks: StorageAtomicCheck[],
+    mutations: RespMutation[],
+  ): Promise<StorageCommitResult> {
+    if (checks.length > 0) {
+      const checkKeys = checks.map((check) => this.entryKey(encodeStorageKey(check.key)));
+      await this.command('WATCH', ...checkKeys);
+      const current = await this.command('MGET', ...checkKeys) as Array<string | null>;
+      const conflict = checks.some((check, index) => {
+        const stored = current[index];
+        const versionstamp = typeof stored === 'string'
+          ? stored.slice(0, VERSIONSTAMP_LENGTH)
+          : null;
+        return versionstamp !== check.versionstamp;
+      });
+      if (conflict) {
+        await this.command('UNWATCH');
+        return { ok: false };
+      }
+    }
+
+    const versionstamp = formatVersionstamp(
+      await this.command('INCR', this.versionKey) as number,
+    );
+
+    await this.command('MULTI');
+    try {
+      for (const mutation of mutations) {
+        const member = encodeStorageKey(mutation.key);
+        if (mutation.type === 'delete') {
+          await this.command('DEL', this.entryKey(member));
+          await this.command('ZREM', this.indexKey, member);
+        } else {
+          await this.command(
+            'SET',
+            this.entryKey(member),
+            versionstamp + mutation.value,
+            ...(mutation.expireIn !== undefined
+              ? ['PX', String(Math.max(1, Math.ceil(mutation.expireIn)))]
+              : []),
+          );
+          await this.command('ZADD', this.indexKey, '0', member);
+        }
+      }
+    } catch (error) {
+      if (error instanceof RespError) {
+        await this.command('DISCARD');
+      }
+      throw error;
+    }
+
+    // EXEC returns null when a watched key changed after the checks
+    const result = await this.command('EXEC');
+    return result === null ? { ok: false } : { ok: true, versionstamp };
+  }
+
+  /**
+   * Drop index members whose entry expired, unless the entry was written again meanwhile
+   */
+  private async removeStaleMembers(members: string[]): Promise<void> {
+    const entryKeys = members.map((member) => this.entryKey(member));
+    await this.command('WATCH', ...entryKeys);
+    const current = await this.command('MGET', ...entryKeys) as Array<string | null>;
+    const stale = members.filter((_member, index) => current[index] === null);
+    if (stale.length === 0) {
+      await this.command('UNWATCH');
+      return;
+    }
+
+    await this.command('MULTI');
+    await this.command('ZREM', this.indexKey, ...stale);
+    // A null EXEC reply means an entry was recreated - the next listing retries
+    await this.command('EXEC');
+  }
+
+  private toEntry<T>(key: StorageKey, stored: string | null): StorageEntryMaybe<T> {
+    return {
+      key,
+      value: stored === null ? null : decodeStorageValue<T>(stored.slice(VERSIONSTAMP_LENGTH)),
+      versionstamp: stored === null ? null : stored.slice(0, VERSIONSTAMP_LENGTH),
+    };
+  }
+
+  private entryKey(member: string): string {
+    return `${this.keyPrefix}:e:${member}`;
+  }
+
+  private get indexKey(): string {
+    return `${this.keyPrefix}:index`;
+  }
+
+  private get versionKey(): string {
+    return `${this.keyPrefix}:version`;
+  }
+
+  /**
+   * Run command sequences one at a time - the connection is shared and WATCH state
+   * belongs to it
+   */
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation, operation);
+    this.queue = result.catch(() => {});
+    return result;
+  }
+
+  /**
+   * Send a command and wait for its reply (error replies are thrown as RespError)
+   */
+  private async command(...args: string[]): Promise<RespValue> {
+    if (!this.conn) {
+      await this.open();
+    }
+
+    try {
+      await this.write(args);
+      const reply = await this.readReply();
+      if (reply instanceof RespError) {
+        throw reply;
+      }
+      return reply;
+    } catch (error) {
+      if (!(error instanceof RespError)) {
+        // The reply stream is out of sync after an I/O error - reconnect on next use
+        this.disconnect();
+      }
+      throw error;
+    }
+  }
+
+  private async open(): Promise<void> {
+    const hostname = this.url.hostname || 'localhost';
+    const port = Number(this.url.port || 6379);
+    this.conn = this.url.protocol === 'rediss:'
+      ? await Deno.connectTls({ hostname, port })
+      : await Deno.connect({ hostname, port });
+    this.buffer = new Uint8Array(0);
+
+    const password = decodeURIComponent(this.url.password);
+    if (password) {
+      const username = decodeURIComponent(this.url.username);
+      await this.command('AUTH', ...(username ? [username] : []), password);
+    }
+    const db = this.url.pathname.replace(/^\//, '');
+    if (db) {
+      await this.command('SELECT', db);
+    }
+  }
+
+  private disconnect(): void {
+    try {
+      this.conn?.close();
+    } catch {
+      // Already closed
+    }
+    this.conn = undefined;
+    this.buffer = new Uint8Array(0);
+  }
+
+  private async write(args: string[]): Promise<void> {
+    const parts = args.map((arg) => this.encoder.encode(arg));
+    const header = this.encoder.encode(`*${parts.length}${CRLF}`);
+    const chunks = [header];
+    for (const part of parts) {
+      chunks.push(this.encoder.encode(`$${part.length}${CRLF}`), part, this.encoder.encode(CRLF));
+    }
+
+    const message = concatBytes(chunks);
+    let written = 0;
+    while (written < message.length) {
+      written += await this.conn!.write(message.subarray(written));
+    }
+  }
+
+  private async readReply(): Promise<RespValue> {
+    const line = await this.readLine();
+    const payload = line.slice(1);
+
+    switch (line[0]) {
+      case '+':
+        return payload;
+      case '-':
+        return new RespError(payload);
+      case ':':
+        return Number(payload);
+      case '$': {
+        const length = Number(payload);
+        if (length < 0) {
+          return null;
+        }
+        const data = await this.readBytes(length + CRLF.length);
+        return this.decoder.decode(data.subarray(0, length));
+      }
+      case '*': {
+        const length = Number(payload);
+        if (length < 0) {
+          return null;
+        }
+        const items: RespValue[] = [];
+        for (let i = 0; i < length; i++) {
+          items.push(await this.readReply());
+        }
+        return items;
+      }
+      default:
+        throw new Error(`RespStorageBackend: Unexpected reply type '${line[0]}'`);
+    }
+  }
+
+  private async readLine(): Promise<string> {
+    while (true) {
+      const end = this.buffer.findIndex((byte, i) => byte === 0x0d && this.buffer[i + 1] === 0x0a);
+      if (end >= 0) {
+        const line = this.decoder.decode(this.buffer.subarray(0, end));
+        this.buffer = this.buffer.subarray(end + CRLF.length);
+        return line;
+      }
+      await this.fill();
+    }
+  }
+
+  private async readBytes(length: number): Promise<Uint8Array> {
+    while (this.buffer.length < length) {
+      await this.fill();
+    }
+    const data = this.buffer.subarray(0, length);
+    this.buffer = this.buffer.subarray(length);
+    return data;
+  }
+
+  private async fill(): Promise<void> {
+    const chunk = new Uint8Array(64 * 1024);
+    const read = await this.conn!.read(chunk);
+    if (read === null) {
+      throw new Error('RespStorageBackend: Connection closed by server');
+    }
+    this.buffer = concatBytes([this.buffer, chunk.subarray(0, read)]);
+  }
+}
+
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
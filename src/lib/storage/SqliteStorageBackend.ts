@@ -0,0 +1,203 @@
+/**
+ * SQLite Storage Backend - File-based storage without the unstable KV flag
+ *
+ * Uses the built-in `node:sqlite` module. Keys are stored in an order-preserving
+ * encoding so prefix listing is an indexed range scan; versionstamps come from a
+ * counter row updated in the same transaction as the write, so several processes
+ * can share one database file.
+ */
+
+import { DatabaseSync } from 'node:sqlite';
+
+import {
+  decodeStorageKey,
+  decodeStorageValue,
+  encodeStorageKey,
+  encodeStorageValue,
+  formatVersionstamp,
+  selectorRange,
+  type StorageAtomicCheck,
+  type StorageAtomicOperation,
+  type StorageBackend,
+  type StorageCommitResult,
+  type StorageEntry,
+  type StorageEntryMaybe,
+  type StorageKey,
+  type StorageListOptions,
+  type StorageListSelector,
+  type StorageSetOptions,
+} from './StorageBackend.ts';
+
+interface SqliteRow {
+  key: string;
+  value: string;
+  versionstamp: string;
+}
+
+type SqliteMutation =
+  | { type: 'set'; key: StorageKey; value: string; expiresAt: number | null }
+  | { type: 'delete'; key: StorageKey };
+
+// Expired rows are filtered on read and purged at most this often
+const PURGE_INTERVAL_MS = 60_000;
+
+/**
+ * StorageBackend backed by a SQLite database file
+ */
+export class SqliteStorageBackend implements StorageBackend {
+  readonly name = 'sqlite';
+  private db: DatabaseSync;
+  private lastPurge = 0;
+
+  constructor(path: string) {
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      PRAGMA journal_mode = WAL;
+      PRAGMA busy_timeout = 5000;
+      CREATE TABLE IF NOT EXISTS storage_entries (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL,
+        versionstamp TEXT NOT NULL,
+        expires_at INTEGER
+      ) WITHOUT ROWID;
+      CREATE INDEX IF NOT EXISTS storage_entries_expires_at
+        ON storage_entries (expires_at) WHERE expires_at IS NOT NULL;
+      CREATE TABLE IF NOT EXISTS storage_version (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        version INTEGER NOT NULL
+      );
+      INSERT OR IGNORE INTO storage_version (id, version) VALUES (1, 0);
+    `);
+  }
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>> {
+    const row = this.db.prepare(
+      `SELECT value, versionstamp FROM storage_entries
+       WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+    ).get(encodeStorageKey(key), Date.now()) as SqliteRow | undefined;
+
+    return Promise.resolve({
+      key,
+      value: row ? decodeStorageValue<T>(row.value) : null,
+      versionstamp: row?.versionstamp ?? null,
+    });
+  }
+
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): Promise<StorageCommitResult> {
+    return this.atomic().set(key, value, options).commit();
+  }
+
+  async delete(key: StorageKey): Promise<void> {
+    await this.atomic().delete(key).commit();
+  }
+
+  async *list<T = unknown>(
+    selector: StorageListSelector,
+    options: StorageListOptions = {},
+  ): AsyncIterableIterator<StorageEntry<T>> {
+    const { start, end } = selectorRange(selector);
+    const rows = this.db.prepare(
+      `SELECT key, value, versionstamp FROM storage_entries
+       WHERE key >= ? AND key < ? AND (expires_at IS NULL OR expires_at > ?)
+       ORDER BY key ${options.reverse ? 'DESC' : 'ASC'}
+       LIMIT ?`,
+    ).all(start, end, Date.now(), options.limit ?? -1) as unknown as SqliteRow[];
+
+    for (const row of rows) {
+      yield {
+        key: decodeStorageKey(row.key),
+        value: decodeStorageValue<T>(row.value),
+        versionstamp: row.versionstamp,
+      };
+    }
+  }
+
+  atomic(): StorageAtomicOperation {
+    const checks: StorageAtomicCheck[] = [];
+    const mutations: SqliteMutation[] = [];
+
+    const operation: StorageAtomicOperation = {
+      check: (...newChecks) => {
+        checks.push(...newChecks);
+        return operation;
+      },
+      set: (key, value, options) => {
+        mutations.push({
+          type: 'set',
+          key,
+          value: encodeStorageValue(value),
+          expiresAt: options?.expireIn !== undefined ? Date.now() + options.expireIn : null,
+        });
+        return operation;
+      },
+      delete: (key) => {
+        mutations.push({ type: 'delete', key });
+        return operation;
+      },
+      commit: () => Promise.resolve(this.commit(checks, mutations)),
+    };
+    return operation;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private commit(checks: StorageAtomicCheck[], mutations: SqliteMutation[]): StorageCommitResult {
+    const now = Date.now();
+    // IMMEDIATE takes the write lock up front, so checks cannot race other processes
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const selectVersion = this.db.prepare(
+        `SELECT versionstamp FROM storage_entries
+         WHERE key = ? AND (expires_at IS NULL OR expires_at > ?)`,
+      );
+      for (const check of checks) {
+        const row = selectVersion.get(encodeStorageKey(check.key), now) as
+          | Pick<SqliteRow, 'versionstamp'>
+          | undefined;
+        if ((row?.versionstamp ?? null) !== check.versionstamp) {
+          this.db.exec('ROLLBACK');
+          return { ok: false };
+        }
+      }
+
+      const { version } = this.db.prepare(
+        'UPDATE storage_version SET version = version + 1 WHERE id = 1 RETURNING version',
+      ).get() as { version: number };
+      const versionstamp = formatVersionstamp(version);
+
+      const upsert = this.db.prepare(
+        `INSERT INTO storage_entries (key, value, versionstamp, expires_at) VALUES (?, ?, ?, ?)
+         ON CONFLICT (key) DO UPDATE SET
+           value = excluded.value,
+           versionstamp = excluded.versionstamp,
+           expires_at = excluded.expires_at`,
+      );
+      const remove = this.db.prepare('DELETE FROM storage_entries WHERE key = ?');
+      for (const mutation of mutations) {
+        if (mutation.type === 'delete') {
+          remove.run(encodeStorageKey(mutation.key));
+        } else {
+          upsert.run(
+            encodeStorageKey(mutation.key),
+            mutation.value,
+            versionstamp,
+            mutation.expiresAt,
+          );
+        }
+      }
+
+      if (now - this.lastPurge > PURGE_INTERVAL_MS) {
+        this.db.prepare('DELETE FROM storage_entries WHERE expires_at <= ?').run(now);
+        this.lastPurge = now;
+      }
+
+      this.db.exec('COMMIT');
+      return { ok: true, versionstamp };
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * Storage Backend - Key-value interface behind KVManager
+ *
+ * Mirrors the subset of the Deno KV API used by the library's stores
+ * (get/set/delete/list/atomic with expireIn and versionstamp checks), so the
+ * stores run unchanged on Deno KV, SQLite, a Redis-compatible server or memory.
+ *
+ * Also provides the key and value encodings shared by the non-Deno backends.
+ */
+
+/**
+ * Key part types supported by every backend
+ */
+export type StorageKeyPart = string | number | boolean;
+
+/**
+ * Hierarchical key, e.g. ['transport', 'session', sessionId]
+ */
+export type StorageKey = readonly StorageKeyPart[];
+
+/**
+ * Entry returned by `get` (value and versionstamp are null when the key is missing)
+ */
+export interface StorageEntryMaybe<T> {
+  key: StorageKey;
+  value: T | null;
+  versionstamp: string | null;
+}
+
+/**
+ * Entry returned by `list`
+ */
+export interface StorageEntry<T> {
+  key: StorageKey;
+  value: T;
+  versionstamp: string;
+}
+
+export interface StorageSetOptions {
+  /** Time to live in milliseconds */
+  expireIn?: number;
+}
+
+/**
+ * Keys to list: everything below `prefix`, optionally narrowed to
+ * [start, end) - start and end are full keys inside the prefix
+ */
+export interface StorageListSelector {
+  prefix: StorageKey;
+  start?: StorageKey;
+  end?: StorageKey;
+}
+
+export interface StorageListOptions {
+  limit?: number;
+  reverse?: boolean;
+  /** Accepted for Deno KV compatibility - other backends ignore it */
+  batchSize?: number;
+  /** Accepted for Deno KV compatibility - other backends ignore it */
+  consistency?: 'strong' | 'eventual';
+}
+
+/**
+ * Optimistic concurrency check - fails the commit unless the key's
+ * versionstamp still matches (null = key must not exist)
+ */
+export interface StorageAtomicCheck {
+  key: StorageKey;
+  versionstamp: string | null;
+}
+
+export type StorageCommitResult = { ok: true; versionstamp: string } | { ok: false };
+
+/**
+ * Batch of checks and mutations applied all-or-nothing
+ */
+export interface StorageAtomicOperation {
+  check(...checks: StorageAtomicCheck[]): this;
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): this;
+  delete(key: StorageKey): this;
+  commit(): Promise<StorageCommitResult>;
+}
+
+/**
+ * Key-value storage backend
+ */
+export interface StorageBackend {
+  /** Backend name, reported in traces and logs */
+  readonly name: string;
+
+  get<T = unknown>(key: StorageKey): Promise<StorageEntryMaybe<T>>;
+  set(key: StorageKey, value: unknown, options?: StorageSetOptions): Promise<StorageCommitResult>;
+  delete(key: StorageKey): Promise<void>;
+  list<T = unknown>(
+    selector: StorageListSelector,
+    options?: StorageListOptions,
+  ): AsyncIterableIterator<StorageEntry<T>>;
+  atomic(): StorageAtomicOperation;
+  close(): void | Promise<void>;
+}
+
+export type StorageBackendType = 'denokv' | 'sqlite' | 'redis' | 'memory';
+
+export const STORAGE_BACKEND_TYPES: readonly StorageBackendType[] = [
+  'denokv',
+  'sqlite',
+  'redis',
+  'memory',
+];
+
+// Never appears inside an encoded part (encodeURIComponent escapes it)
+const KEY_SEPARATOR = '/';
+
+/**
+ * Encode a key as an order-preserving string
+ *
+ * A prefix's entries form a contiguous range (see `selectorRange`) and numbers sort
+ * numerically. Strings sort by their URI encoding, which matches Deno KV except
+ * around the characters ! ' ( ) * - . that sort before the separator.
+ * Parts are tagged by type so 1 and '1' stay distinct keys.
+ */
+export function encodeStorageKey(key: StorageKey): string {
+  return key.map(encodeKeyPart).join(KEY_SEPARATOR);
+}
+
+/**
+ * Decode a key produced by `encodeStorageKey`
+ */
+export function decodeStorageKey(encoded: string): StorageKey {
+  if (encoded === '') {
+    return [];
+  }
+  return encoded.split(KEY_SEPARATOR).map(decodeKeyPart);
+}
+
+/**
+ * Encoded [start, end) range of the keys a list selector covers
+ */
+export function selectorRange(selector: StorageListSelector): { start: string; end: string } {
+  let { start, end } = prefixRange(selector.prefix);
+  if (selector.start) {
+    const encoded = encodeStorageKey(selector.start);
+    start = encoded > start ? encoded : start;
+  }
+  if (selector.end) {
+    const encoded = encodeStorageKey(selector.end);
+    end = encoded < end ? encoded : end;
+  }
+  return { start, end };
+}
+
+/**
+ * Encoded [start, end) range of all keys below a prefix
+ */
+function prefixRange(prefix: StorageKey): { start: string; end: string } {
+  if (prefix.length === 0) {
+    // Every encoded key starts with a lowercase tag letter
+    return { start: '', end: '\uffff' };
+  }
+  const encoded = encodeStorageKey(prefix);
+  return {
+    start: encoded + KEY_SEPARATOR,
+    end: encoded + String.fromCharCode(KEY_SEPARATOR.charCodeAt(0) + 1),
+  };
+}
+
+function encodeKeyPart(part: StorageKeyPart): string {
+  switch (typeof part) {
+    case 'string':
+      // encodeURIComponent escapes the separator, keeping prefix ranges exact
+      return 's' + encodeURIComponent(part);
+    case 'number':
+      return 'n' + encodeSortableNumber(part);
+    case 'boolean':
+      return part ? 'bt' : 'bf';
+    default:
+      throw new Error(`Unsupported storage key part type: ${typeof part}`);
+  }
+}
+
+function decodeKeyPart(encoded: string): StorageKeyPart {
+  const payload = encoded.slice(1);
+  switch (encoded[0]) {
+    case 's':
+      return decodeURIComponent(payload);
+    case 'n':
+      return decodeSortableNumber(payload);
+    case 'b':
+      return payload === 't';
+    default:
+      throw new Error(`Invalid encoded storage key part: ${encoded}`);
+  }
+}
+
+/**
+ * Float64 as 16 hex digits whose string order matches numeric order
+ */
+function encodeSortableNumber(value: number): string {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  const high = view.getUint32(0);
+  const low = view.getUint32(4);
+  // Negative: invert all bits. Positive: set the sign bit
+  const [sortHigh, sortLow] = high & 0x80000000 ? [~high >>> 0, ~low >>> 0] : [
+    (high | 0x80000000) >>> 0,
+    low,
+  ];
+  return sortHigh.toString(16).padStart(8, '0') + sortLow.toString(16).padStart(8, '0');
+}
+
+function decodeSortableNumber(hex: string): number {
+  const sortHigh = parseInt(hex.slice(0, 8), 16);
+  const sortLow = parseInt(hex.slice(8, 16), 16);
+  const [high, low] = sortHigh & 0x80000000
+    ? [(sortHigh & 0x7fffffff) >>> 0, sortLow]
+    : [~sortHigh >>> 0, ~sortLow >>> 0];
+  const view = new DataView(new ArrayBuffer(8));
+  view.setUint32(0, high);
+  view.setUint32(4, low);
+  return view.getFloat64(0);
+}
+
+/**
+ * Serialize a value as JSON, preserving the non-JSON types Deno KV accepts
+ * (Uint8Array, Date and bigint)
+ */
+export function encodeStorageValue(value: unknown): string {
+  return JSON.stringify({ v: value }, function (this: Record<string, unknown>, key, encoded) {
+    const original = this[key];
+    if (original instanceof Uint8Array) {
+      let binary = '';
+      for (const byte of original) {
+        binary += String.fromCharCode(byte);
+      }
+      return { $type: 'Uint8Array', data: btoa(binary) };
+    }
+    if (original instanceof Date) {
+      return { $type: 'Date', data: original.toISOString() };
+    }
+    if (typeof original === 'bigint') {
+      return { $type: 'bigint', data: original.toString() };
+    }
+    return encoded;
+  });
+}
+
+/**
+ * Deserialize a value produced by `encodeStorageValue`
+ */
+export function decodeStorageValue<T>(encoded: string): T {
+  return JSON.parse(encoded, (_key, value) => {
+    if (value && typeof value === 'object' && typeof value.$type === 'string') {
+      switch (value.$type) {
+        case 'Uint8Array':
+          return Uint8Array.from(atob(value.data), (char) => char.charCodeAt(0));
+        case 'Date':
+          return new Date(value.data);
+        case 'bigint':
+          return BigInt(value.data);
+      }
+    }
+    return value;
+  }).v as T;
+}
+
+/**
+ * Versionstamps are zero-padded so they compare in commit order
+ */
+export function formatVersionstamp(version: number): string {
+  return version.toString(16).padStart(20, '0');
+}
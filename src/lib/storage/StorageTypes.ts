@@ -4,6 +4,9 @@
  * Defines interfaces for session management, credential storage, and KV operations.
  */
 
+import type { StorageBackend, StorageBackendType } from './StorageBackend.ts';
+import type { RespStorageBackendOptions } from './RespStorageBackend.ts';
+
 // Import TransportType for session compatibility
 export type TransportType = 'http' | 'stdio';
 
@@ -143,7 +146,16 @@ export const DEFAULT_KV_PREFIXES: KVPrefixes = {
  * Configuration for KV Manager initialization
  */
 export interface KVManagerConfig {
+  /** Storage backend to open (default: denokv) */
+  backend?: StorageBackendType;
+  /** Deno KV database path (denokv backend) */
   kvPath?: string;
+  /** SQLite database path (sqlite backend) */
+  sqlitePath?: string;
+  /** Server connection (redis backend) */
+  redis?: RespStorageBackendOptions;
+  /** Pre-built backend, used instead of opening one from `backend` */
+  storageBackend?: StorageBackend;
   prefixes?: Partial<KVPrefixes>;
 }
 
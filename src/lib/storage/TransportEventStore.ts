@@ -9,6 +9,7 @@
 import type { JSONRPCMessage } from 'mcp/types.js';
 import type { EventStore } from 'mcp/server/streamableHttp.js';
 import type { KVManager } from './KVManager.ts';
+import type { StorageKey } from './StorageBackend.ts';
 import { toError } from '../utils/Error.ts';
 
 interface Logger {
@@ -72,7 +73,7 @@ export class TransportEventStore implements EventStore {
         stored_at: new Date().toISOString(),
       };
 
-      await this.kvManager.getKV().set(
+      await this.kvManager.getStorage().set(
         [...this.keyPrefix, 'transport_logs', event.type, eventId],
         logEntry,
       );
@@ -159,7 +160,7 @@ export class TransportEventStore implements EventStore {
 
     try {
       // Use a transaction to store event with expiry as fallback
-      const result = await this.kvManager.getKV().atomic()
+      const result = await this.kvManager.getStorage().atomic()
         .set(
           [...this.keyPrefix, 'stream', streamId, eventId],
           storedEvent,
@@ -218,7 +219,7 @@ export class TransportEventStore implements EventStore {
 
       // Iterate through events for the stream, ordered by eventId
       const prefix = [...this.keyPrefix, 'stream', streamId];
-      const iter = this.kvManager.getKV().list<StoredEvent>({ prefix }, {
+      const iter = this.kvManager.getStorage().list<StoredEvent>({ prefix }, {
         consistency: 'strong',
         batchSize: 100,
       });
@@ -275,7 +276,7 @@ export class TransportEventStore implements EventStore {
    */
   async getStreamMetadata(streamId: string): Promise<StreamMetadata | null> {
     try {
-      const result = await this.kvManager.getKV().get<StreamMetadata>([
+      const result = await this.kvManager.getStorage().get<StreamMetadata>([
         ...this.keyPrefix,
         'stream_metadata',
         streamId,
@@ -296,7 +297,7 @@ export class TransportEventStore implements EventStore {
     try {
       const streams = new Set<string>();
       const prefix = [...this.keyPrefix, 'stream_metadata'];
-      const iter = this.kvManager.getKV().list<StreamMetadata>({ prefix });
+      const iter = this.kvManager.getStorage().list<StreamMetadata>({ prefix });
 
       for await (const entry of iter) {
         if (entry.value) {
@@ -317,8 +318,8 @@ export class TransportEventStore implements EventStore {
   async cleanupOldEvents(streamId: string, keepCount: number = 1000): Promise<number> {
     try {
       const prefix = [...this.keyPrefix, 'stream', streamId];
-      const events: Array<{ key: Deno.KvKey; timestamp: number }> = [];
-      const kv = this.kvManager.getKV();
+      const events: Array<{ key: StorageKey; timestamp: number }> = [];
+      const kv = this.kvManager.getStorage();
 
       // Collect all events with their timestamps
       const iter = kv.list<StoredEvent>({ prefix });
@@ -383,7 +384,7 @@ export class TransportEventStore implements EventStore {
    */
   protected async updateStreamMetadata(streamId: string, lastEventId: string): Promise<void> {
     const metadataKey = [...this.keyPrefix, 'stream_metadata', streamId];
-    const kv = this.kvManager.getKV();
+    const kv = this.kvManager.getStorage();
 
     try {
       const existing = await kv.get<StreamMetadata>(metadataKey);
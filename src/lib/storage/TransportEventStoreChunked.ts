@@ -393,7 +393,7 @@ export class TransportEventStoreChunked extends TransportEventStore {
     };
 
     // Store everything in a transaction with KV expiry as fallback
-    const atomic = this.kvManager.getKV().atomic();
+    const atomic = this.kvManager.getStorage().atomic();
 
     // Store metadata with expiry
     atomic.set(
@@ -444,7 +444,7 @@ export class TransportEventStoreChunked extends TransportEventStore {
     streamId: string,
   ): Promise<JSONRPCMessage | null> {
     try {
-      const kv = this.kvManager.getKV();
+      const kv = this.kvManager.getStorage();
       // Get metadata
       const metadataResult = await kv.get<StoredEventMetadata>([
         ...this.keyPrefix,
@@ -585,7 +585,7 @@ export class TransportEventStoreChunked extends TransportEventStore {
     lastEventId: string,
     { send }: { send: (eventId: string, message: JSONRPCMessage) => Promise<void> },
   ): Promise<string> {
-    const kv = this.kvManager.getKV();
+    const kv = this.kvManager.getStorage();
     // If lastEventId is empty, this is a request to replay ALL events
     // We need to iterate through all streams and replay everything
     if (!lastEventId) {
@@ -720,7 +720,7 @@ export class TransportEventStoreChunked extends TransportEventStore {
    */
   override async cleanupOldEvents(streamId: string, keepCount: number = 1000): Promise<number> {
     try {
-      const kv = this.kvManager.getKV();
+      const kv = this.kvManager.getStorage();
       const metadataPrefix = [...this.keyPrefix, 'stream', streamId, 'metadata'];
       const events: Array<{ eventId: string; timestamp: number; chunkCount: number }> = [];
 
@@ -803,7 +803,7 @@ export class TransportEventStoreChunked extends TransportEventStore {
    */
   async cleanupOrphanedChunks(streamId: string): Promise<number> {
     try {
-      const kv = this.kvManager.getKV();
+      const kv = this.kvManager.getStorage();
       // Get all metadata event IDs
       const validEventIds = new Set<string>();
       const metadataIter = kv.list<StoredEventMetadata>({
@@ -888,7 +888,9 @@ export class TransportEventStoreChunked extends TransportEventStore {
         ? [...this.keyPrefix, 'stream', streamId, 'metadata']
         : [...this.keyPrefix, 'stream'];
 
-      const iter = this.kvManager.getKV().list<StoredEventMetadata>({ prefix }, { batchSize: 100 });
+      const iter = this.kvManager.getStorage().list<StoredEventMetadata>({ prefix }, {
+        batchSize: 100,
+      });
 
       try {
         for await (const entry of iter) {
@@ -92,7 +92,7 @@ export class TransportPersistenceStore {
 
     try {
       // Store session info with multiple keys for different access patterns
-      const atomic = this.kvManager.getKV().atomic()
+      const atomic = this.kvManager.getStorage().atomic()
         .set([...this.keyPrefix, 'session', sessionId], sessionInfo)
         .set([...this.keyPrefix, 'session_by_user', userId || 'anonymous', sessionId], {
           sessionId,
@@ -121,7 +121,7 @@ export class TransportPersistenceStore {
    * Update last activity timestamp for a session
    */
   async updateSessionActivity(sessionId: string): Promise<void> {
-    const kv = this.kvManager.getKV();
+    const kv = this.kvManager.getStorage();
     try {
       const sessionKey = [...this.keyPrefix, 'session', sessionId];
       const existing = await kv.get<PersistedSessionInfo>(sessionKey);
@@ -159,7 +159,7 @@ export class TransportPersistenceStore {
   async markSessionInactive(sessionId: string): Promise<void> {
     try {
       const sessionKey = [...this.keyPrefix, 'session', sessionId];
-      const existing = await this.kvManager.getKV().get<PersistedSessionInfo>(sessionKey);
+      const existing = await this.kvManager.getStorage().get<PersistedSessionInfo>(sessionKey);
 
       if (!existing.value) {
         return; // Session doesn't exist or already cleaned up
@@ -171,7 +171,7 @@ export class TransportPersistenceStore {
         lastActivity: Date.now(),
       };
 
-      await this.kvManager.getKV().set(sessionKey, updated);
+      await this.kvManager.getStorage().set(sessionKey, updated);
 
       this.logger.info('TransportPersistenceStore: Marked session as inactive', {
         sessionId,
@@ -192,7 +192,7 @@ export class TransportPersistenceStore {
    */
   async getSessionInfo(sessionId: string): Promise<PersistedSessionInfo | null> {
     try {
-      const result = await this.kvManager.getKV().get<PersistedSessionInfo>([
+      const result = await this.kvManager.getStorage().get<PersistedSessionInfo>([
         ...this.keyPrefix,
         'session',
         sessionId,
@@ -218,7 +218,7 @@ export class TransportPersistenceStore {
       const sessions: PersistedSessionInfo[] = [];
       const prefix = [...this.keyPrefix, 'session_by_user', userId];
 
-      const iter = this.kvManager.getKV().list({ prefix });
+      const iter = this.kvManager.getStorage().list({ prefix });
       for await (const entry of iter) {
         const sessionRef = entry.value as { sessionId: string };
         if (sessionRef.sessionId) {
@@ -250,7 +250,7 @@ export class TransportPersistenceStore {
       const sessions: PersistedSessionInfo[] = [];
       const prefix = [...this.keyPrefix, 'session'];
 
-      const iter = this.kvManager.getKV().list<PersistedSessionInfo>({ prefix });
+      const iter = this.kvManager.getStorage().list<PersistedSessionInfo>({ prefix });
       for await (const entry of iter) {
         if (entry.value && entry.value.isActive) {
           sessions.push(entry.value);
@@ -397,7 +397,7 @@ export class TransportPersistenceStore {
     try {
       const cutoffTime = Date.now() - maxAgeMs;
       let deletedCount = 0;
-      const kv = this.kvManager.getKV();
+      const kv = this.kvManager.getStorage();
 
       const prefix = [...this.keyPrefix, 'session'];
       const iter = kv.list<PersistedSessionInfo>({ prefix });
@@ -477,7 +477,7 @@ export class TransportPersistenceStore {
       let newestTime: number | null = null;
 
       const prefix = [...this.keyPrefix, 'session'];
-      const iter = this.kvManager.getKV().list<PersistedSessionInfo>({ prefix });
+      const iter = this.kvManager.getStorage().list<PersistedSessionInfo>({ prefix });
 
       for await (const entry of iter) {
         const session = entry.value;
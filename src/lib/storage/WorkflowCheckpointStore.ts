@@ -0,0 +1,105 @@
+/**
+ * Workflow Checkpoint Store - Step checkpoints of declarative workflows backed by KVManager
+ *
+ * Keeps the outputs of the steps a workflow run completed, keyed by workflow
+ * name and run ID, so a run that failed or was interrupted can continue from
+ * its last successful step. Checkpoints expire after the retention period.
+ */
+
+import type { KVManager } from './KVManager.ts';
+import type { WorkflowCheckpoint } from '../types/WorkflowTypes.ts';
+import { toError } from '../utils/Error.ts';
+
+interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, error?: Error, data?: unknown): void;
+}
+
+/**
+ * Configuration for workflow checkpoint storage
+ */
+export interface WorkflowCheckpointStoreConfig {
+  keyPrefix?: string[];
+  /** How long checkpoints are kept after their last update */
+  retentionMs?: number;
+}
+
+/**
+ * KV-backed workflow step checkpoints
+ */
+export class WorkflowCheckpointStore {
+  private kvManager: KVManager;
+  private keyPrefix: string[];
+  private retentionMs: number;
+  private logger: Logger | undefined;
+
+  constructor(kvManager: KVManager, config: WorkflowCheckpointStoreConfig = {}, logger?: Logger) {
+    this.kvManager = kvManager;
+    this.keyPrefix = config.keyPrefix ?? ['workflow_checkpoints'];
+    this.retentionMs = config.retentionMs ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.logger = logger;
+  }
+
+  /**
+   * Store a checkpoint (replaces the previous checkpoint of the run)
+   */
+  async saveCheckpoint(checkpoint: WorkflowCheckpoint): Promise<void> {
+    try {
+      await this.kvManager.set(
+        [...this.keyPrefix, checkpoint.workflowName, checkpoint.runId],
+        checkpoint,
+        { expireIn: this.retentionMs },
+      );
+      this.logger?.debug('WorkflowCheckpointStore: Saved checkpoint', {
+        workflowName: checkpoint.workflowName,
+        runId: checkpoint.runId,
+        completed: checkpoint.completed.length,
+      });
+    } catch (error) {
+      this.logger?.error('WorkflowCheckpointStore: Failed to save checkpoint', toError(error), {
+        workflowName: checkpoint.workflowName,
+        runId: checkpoint.runId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the checkpoint of a run
+   */
+  async getCheckpoint(
+    workflowName: string,
+    runId: string,
+  ): Promise<WorkflowCheckpoint | undefined> {
+    try {
+      return await this.kvManager.get<WorkflowCheckpoint>([
+        ...this.keyPrefix,
+        workflowName,
+        runId,
+      ]) ?? undefined;
+    } catch (error) {
+      this.logger?.error('WorkflowCheckpointStore: Failed to get checkpoint', toError(error), {
+        workflowName,
+        runId,
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete the checkpoint of a run
+   */
+  async deleteCheckpoint(workflowName: string, runId: string): Promise<void> {
+    try {
+      await this.kvManager.delete([...this.keyPrefix, workflowName, runId]);
+    } catch (error) {
+      this.logger?.error('WorkflowCheckpointStore: Failed to delete checkpoint', toError(error), {
+        workflowName,
+        runId,
+      });
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Workflow Job Store - Background workflow jobs backed by KVManager
+ *
+ * Keeps one record per job with its parameters, caller, progress and final
+ * WorkflowResult, so jobs can be polled from any session and are still known
+ * after a server restart. Records expire after the retention period.
+ *
+ * Unfinished jobs carry the instance running them and a lease that instance
+ * renews. Other instances sharing the store only take over a job once its lease
+ * has lapsed, and `claimJob` makes that takeover atomic.
+ */
+
+import type { KVManager } from './KVManager.ts';
+import type { WorkflowJob, WorkflowJobStatus } from '../types/WorkflowTypes.ts';
+import { toError } from '../utils/Error.ts';
+
+interface Logger {
+  debug(message: string, data?: unknown): void;
+  info(message: string, data?: unknown): void;
+  warn(message: string, data?: unknown): void;
+  error(message: string, error?: Error, data?: unknown): void;
+}
+
+/**
+ * Configuration for workflow job storage
+ */
+export interface WorkflowJobStoreConfig {
+  keyPrefix?: string[];
+  /** How long job records are kept after their last update */
+  retentionMs?: number;
+}
+
+/**
+ * KV-backed workflow job records
+ */
+export class WorkflowJobStore {
+  private kvManager: KVManager;
+  private keyPrefix: string[];
+  private retentionMs: number;
+  private logger: Logger | undefined;
+
+  constructor(kvManager: KVManager, config: WorkflowJobStoreConfig = {}, logger?: Logger) {
+    this.kvManager = kvManager;
+    this.keyPrefix = config.keyPrefix ?? ['workflow_jobs'];
+    this.retentionMs = config.retentionMs ?? 7 * 24 * 60 * 60 * 1000; // 7 days
+    this.logger = logger;
+  }
+
+  /**
+   * Store a job record (replaces any existing record with the same ID)
+   */
+  async saveJob(job: WorkflowJob): Promise<void> {
+    try {
+      await this.kvManager.set([...this.keyPrefix, job.id], job, { expireIn: this.retentionMs });
+      this.logger?.debug('WorkflowJobStore: Saved job', { jobId: job.id, status: job.status });
+    } catch (error) {
+      this.logger?.error('WorkflowJobStore: Failed to save job', toError(error), {
+        jobId: job.id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job record by ID
+   */
+  async getJob(jobId: string): Promise<WorkflowJob | undefined> {
+    try {
+      return await this.kvManager.get<WorkflowJob>([...this.keyPrefix, jobId]) ?? undefined;
+    } catch (error) {
+      this.logger?.error('WorkflowJobStore: Failed to get job', toError(error), { jobId });
+      return undefined;
+    }
+  }
+
+  /**
+   * List job records, optionally only those in the given states
+   */
+  async listJobs(statuses?: WorkflowJobStatus[]): Promise<WorkflowJob[]> {
+    try {
+      const entries = await this.kvManager.list<WorkflowJob>(this.keyPrefix);
+      return entries
+        .map((entry) => entry.value)
+        .filter((job) => !statuses || statuses.includes(job.status));
+    } catch (error) {
+      this.logger?.error('WorkflowJobStore: Failed to list jobs', toError(error));
+      return [];
+    }
+  }
+
+  /**
+   * Take over an unfinished job whose lease has lapsed (or that never had one)
+   * Returns the claimed record, or undefined if the job is finished, still leased,
+   * or was claimed by another instance first
+   */
+  async claimJob(
+    jobId: string,
+    ownerId: string,
+    leaseExpiresAt: string,
+  ): Promise<WorkflowJob | undefined> {
+    const key = [...this.keyPrefix, jobId];
+    try {
+      const kv = this.kvManager.getStorage();
+      const entry = await kv.get<WorkflowJob>(key);
+      const job = entry.value;
+      if (
+        !job || (job.status !== 'queued' && job.status !== 'running') ||
+        (job.leaseExpiresAt && Date.parse(job.leaseExpiresAt) > Date.now())
+      ) {
+        return undefined;
+      }
+
+      const claimed: WorkflowJob = {
+        ...job,
+        ownerId,
+        leaseExpiresAt,
+        updatedAt: new Date().toISOString(),
+      };
+      const result = await kv.atomic()
+        .check(entry)
+        .set(key, claimed, { expireIn: this.retentionMs })
+        .commit();
+      if (!result.ok) return undefined;
+
+      this.logger?.debug('WorkflowJobStore: Claimed job', {
+        jobId,
+        ownerId,
+        previousOwnerId: job.ownerId,
+      });
+      return claimed;
+    } catch (error) {
+      this.logger?.error('WorkflowJobStore: Failed to claim job', toError(error), { jobId });
+      return undefined;
+    }
+  }
+
+  /**
+   * Delete a job record
+   */
+  async deleteJob(jobId: string): Promise<void> {
+    try {
+      await this.kvManager.delete([...this.keyPrefix, jobId]);
+    } catch (error) {
+      this.logger?.error('WorkflowJobStore: Failed to delete job', toError(error), { jobId });
+      throw error;
+    }
+  }
+}
@@ -22,7 +22,7 @@ import type {
   //ToolDefinition,
   //ToolHandler,
   ToolRegistration,
-  //ToolRegistrationOptions,
+  ToolRegistrationOptions,
 } from '../types/BeyondMcpTypes.ts';
 
 import type { PluginCategory, RateLimitConfig } from '../types/PluginTypes.ts';
@@ -71,6 +71,20 @@ export abstract class ToolBase {
   readonly requiresAuth: boolean = true;
   readonly rateLimit?: RateLimitConfig;
 
+  constructor() {
+    // Subclasses implement getTools() and registerWith(); wrap them so every registration
+    // carries `rateLimit`, whether the tools go through PluginManager or the ToolRegistry
+    const getTools = this.getTools;
+    this.getTools = () =>
+      getTools.call(this).map((tool) => ({
+        ...tool,
+        options: this.getRegistrationOptions(tool.options),
+      }));
+
+    const registerWith = this.registerWith;
+    this.registerWith = (toolRegistry) => registerWith.call(this, this.withRateLimit(toolRegistry));
+  }
+
   /**
    * Abstract method: Get tool definitions for plugin registration
    * This is the key method that tool classes must implement
@@ -417,4 +431,33 @@ export abstract class ToolBase {
   protected getEstimatedDuration(): number | undefined {
     return this.estimatedDuration;
   }
+
+  /**
+   * Registration options carrying this class's rate limit into the ToolRegistry
+   * Applied to every getTools()/registerWith() registration; an explicit per-tool
+   * `rateLimit` is kept
+   */
+  protected getRegistrationOptions(
+    options: ToolRegistrationOptions = {},
+  ): ToolRegistrationOptions {
+    if (!this.rateLimit || options.rateLimit) {
+      return options;
+    }
+    return { ...options, rateLimit: this.rateLimit };
+  }
+
+  /**
+   * ToolRegistry view whose registerTool() applies getRegistrationOptions()
+   */
+  private withRateLimit(toolRegistry: ToolRegistry): ToolRegistry {
+    if (!this.rateLimit) {
+      return toolRegistry;
+    }
+    const registerTool: ToolRegistry['registerTool'] = (name, definition, handler, options) =>
+      toolRegistry.registerTool(name, definition, handler, this.getRegistrationOptions(options));
+    return new Proxy(toolRegistry, {
+      get: (target, property, receiver) =>
+        property === 'registerTool' ? registerTool : Reflect.get(target, property, receiver),
+    });
+  }
 }
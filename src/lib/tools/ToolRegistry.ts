@@ -6,10 +6,21 @@
  * - Dynamic enum generation for workflow names
  * - Comprehensive error handling and validation
  * - Tool management and inspection capabilities
+ * - Per-tool and global rate limits (token buckets in KV)
+ * - Per-tool OAuth scope requirements (optionally hiding tools from tools/list)
+ * - Structured output: outputSchema validation and tool annotations
  */
 
 import { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
-//import type { CallToolResult } from 'mcp/types.js';
+import type { RequestHandlerExtra } from 'mcp/shared/protocol.js';
+import {
+  type CallToolResult,
+  type ListToolsRequest,
+  ListToolsRequestSchema,
+  type ListToolsResult,
+  type ServerNotification,
+  type ServerRequest,
+} from 'mcp/types.js';
 import {
   z,
   type ZodObject,
@@ -21,10 +32,18 @@ import {
 import { Logger } from '../utils/Logger.ts';
 import { ErrorHandler } from '../utils/ErrorHandler.ts';
 import { toError } from '../utils/Error.ts';
+import { ToolValidationHelper } from '../utils/ToolValidationHelper.ts';
+import { RateLimitStore } from '../storage/RateLimitStore.ts';
+import { ScopeAuthorizer } from '../auth/ScopeAuthorizer.ts';
+import { BeyondMcpServer } from '../server/BeyondMcpServer.ts';
+import { MCP_METRICS, MetricsRegistry } from '../utils/MetricsRegistry.ts';
+import { Tracer } from '../utils/Tracer.ts';
+import { McpLoggingBridge } from '../server/McpLoggingBridge.ts';
 
 // Import types
 import {
   type RegisteredTool,
+  type ToolCallOutcome,
   type ToolDefinition,
   type ToolHandler,
   ToolHandlerMode,
@@ -33,6 +52,11 @@ import {
   type ValidationResult,
 } from '../types/BeyondMcpTypes.ts';
 
+type ListToolsHandler = (
+  request: ListToolsRequest,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) => Promise<ListToolsResult>;
+
 /**
  * Tool registry with comprehensive Zod validation
  */
@@ -41,8 +65,13 @@ export class ToolRegistry {
 
   private tools = new Map<string, RegisteredTool>();
   private toolValidators = new Map<string, ZodObject<any>>();
+  private outputValidators = new Map<string, z.AnyZodObject>();
+  private sdkRegistrations = new Map<string, { remove(): void }>();
 
   private _sdkMcpServer: SdkMcpServer | undefined;
+  private _rateLimitStore: RateLimitStore | undefined;
+  private _hideUnauthorizedTools = false;
+  private toolListFilterInstalled = false;
   private logger: Logger;
   // [TODO] use standard errorHandler
   //private errorHandler: ErrorHandler;
@@ -77,6 +106,25 @@ export class ToolRegistry {
   }
   set sdkMcpServer(sdkMcpServer: SdkMcpServer) {
     this._sdkMcpServer = sdkMcpServer;
+    this.toolListFilterInstalled = false;
+  }
+
+  get rateLimitStore(): RateLimitStore | undefined {
+    return this._rateLimitStore;
+  }
+  set rateLimitStore(rateLimitStore: RateLimitStore) {
+    this._rateLimitStore = rateLimitStore;
+  }
+
+  /**
+   * Hide tools from tools/list when the caller's token lacks their required scopes
+   */
+  get hideUnauthorizedTools(): boolean {
+    return this._hideUnauthorizedTools;
+  }
+  set hideUnauthorizedTools(hide: boolean) {
+    this._hideUnauthorizedTools = hide;
+    if (hide) this.installToolListFilter();
   }
 
   /**
@@ -126,85 +174,178 @@ export class ToolRegistry {
       // Create Zod validator from input schema (always needed for tracking)
       const validator = z.object(definition.inputSchema);
       this.toolValidators.set(name, validator);
+      if (definition.outputSchema) {
+        this.outputValidators.set(name, z.object(definition.outputSchema));
+      } else {
+        this.outputValidators.delete(name);
+      }
+
+      // The SDK lists the output schema and annotations in tools/list
+      const sdkConfig = {
+        title: definition.title,
+        description: definition.description,
+        inputSchema: definition.inputSchema as any, // Cast Zod schema for MCP SDK
+        ...(definition.outputSchema && { outputSchema: definition.outputSchema as any }),
+        ...(definition.annotations && { annotations: definition.annotations }),
+      };
+
+      // Kept so removeTool() can unregister from the SDK (which notifies clients)
+      let sdkRegistration: { remove(): void } | undefined;
 
       if (handlerMode === ToolHandlerMode.NATIVE) {
         // NATIVE MODE: Direct registration - tool handles own validation/errors
-        this._sdkMcpServer.registerTool(
+        sdkRegistration = this._sdkMcpServer.registerTool(
           name,
-          {
-            title: definition.title,
-            description: definition.description,
-            inputSchema: definition.inputSchema as any, // Cast Zod schema for MCP SDK
-          },
-          handler as any, // Direct handler, no wrapper
+          sdkConfig,
+          // Direct handler - only attributes its log entries to the calling session
+          ((args: any, extra: any) =>
+            McpLoggingBridge.getInstance().runWithRequest(
+              extra,
+              () => handler(args, extra),
+            )) as any,
         );
       } else {
         // MANAGED MODE: Complex validation and error handling (default)
-        this._sdkMcpServer.registerTool(
+        sdkRegistration = this._sdkMcpServer.registerTool(
           name,
-          {
-            title: definition.title,
-            description: definition.description,
-            inputSchema: definition.inputSchema as any, // Cast Zod schema for MCP SDK
-          },
-          (async (args: any, extra: any) => {
-            // PRESERVED: Exact validation and error handling pattern
-            try {
-              // Validate input with Zod
-              const validation = await this.validateToolInput(name, args);
-              if (!validation.success) {
-                this.logger.warn('ToolRegistry: Tool validation failed', {
+          sdkConfig,
+          (async (args: any, extra: any) =>
+            await Tracer.getInstance().startActiveSpan(`tools/call ${name}`, {
+              kind: 'server',
+              // Clients can propagate their trace context in the request _meta
+              parent: Tracer.getInstance().extract(extra?._meta),
+              attributes: { 'mcp.tool.name': name },
+            }, async () => {
+              const startTime = performance.now();
+              let outcome: ToolCallOutcome = 'error';
+
+              // PRESERVED: Exact validation and error handling pattern
+              try {
+                // Validate input with Zod
+                const validation = await this.validateToolInput(name, args);
+                if (!validation.success) {
+                  this.logger.warn('ToolRegistry: Tool validation failed', {
+                    toolName: name,
+                    error: validation.error?.message,
+                    args,
+                  });
+
+                  outcome = 'invalid_params';
+                  return {
+                    content: [{
+                      type: 'text',
+                      text: `Validation error: ${
+                        validation.error?.message || 'Unknown validation error'
+                      }`,
+                    }],
+                    isError: true,
+                  };
+                }
+
+                // Reject callers whose token lacks the tool's required scopes
+                ScopeAuthorizer.enforce(
+                  `tool:${name}`,
+                  definition.requiredScopes,
+                  BeyondMcpServer.getCurrentAuthContext(),
+                );
+
+                // Enforce global and per-tool rate limits before running the handler
+                await this.enforceRateLimit(name, options?.rateLimit, extra);
+
+                // Execute handler with validated args, forwarding its log entries to the session
+                const result = await McpLoggingBridge.getInstance().runWithRequest(
+                  extra,
+                  () =>
+                    handler(validation.data, {
+                      requestId: typeof extra.requestId === 'number'
+                        ? String(extra.requestId)
+                        : extra.requestId,
+                      ...(extra ? { ...extra } : {}),
+                    } as any),
+                );
+
+                // Results that break the output schema are reported as tool errors
+                if (!result.isError) {
+                  const outputValidation = await this.validateToolOutput(name, result);
+                  if (!outputValidation.success) {
+                    this.logger.warn('ToolRegistry: Tool output validation failed', {
+                      toolName: name,
+                      error: outputValidation.error?.message,
+                    });
+
+                    return {
+                      content: [{
+                        type: 'text',
+                        text: `Output validation error: ${outputValidation.error?.message}`,
+                      }],
+                      isError: true,
+                    };
+                  }
+                }
+
+                outcome = result.isError ? 'error' : 'success';
+                return {
+                  content: result.content,
+                  ...(result.structuredContent !== undefined &&
+                    { structuredContent: result.structuredContent }),
+                  ...(result.isError && { isError: true }),
+                  _meta: {
+                    ...(extra?._meta || {}),
+                    ...result._meta,
+                  },
+                };
+              } catch (error) {
+                if (ScopeAuthorizer.isInsufficientScopeError(error)) {
+                  this.logger.warn('ToolRegistry: Tool call rejected for insufficient scope', {
+                    toolName: name,
+                    ...error.info.context,
+                    ...error.info.details,
+                  });
+                  outcome = 'insufficient_scope';
+                  return ToolValidationHelper.createInsufficientScopeErrorResponse(
+                    ScopeAuthorizer.getInsufficientScopeInfo(error),
+                    name,
+                  );
+                }
+
+                if (RateLimitStore.isRateLimitError(error)) {
+                  this.logger.warn('ToolRegistry: Tool rate limit exceeded', {
+                    toolName: name,
+                    ...error.info.context,
+                  });
+                  outcome = 'rate_limited';
+                  return ToolValidationHelper.createRateLimitErrorResponse(
+                    RateLimitStore.getRateLimitInfo(error),
+                    name,
+                  );
+                }
+
+                this.logger.error(`ToolRegistry: Tool execution failed: ${name}`, toError(error));
+
+                const wrappedError = ErrorHandler.wrapError(error, 'TOOL_EXECUTION_FAILED', {
                   toolName: name,
-                  error: validation.error?.message,
                   args,
                 });
 
                 return {
                   content: [{
                     type: 'text',
-                    text: `Validation error: ${
-                      validation.error?.message || 'Unknown validation error'
-                    }`,
+                    text: `Tool execution error: ${wrappedError.message}`,
                   }],
                   isError: true,
                 };
+              } finally {
+                this.recordToolCall(name, outcome, performance.now() - startTime);
               }
-
-              // Execute handler with validated args
-              const result = await handler(validation.data, {
-                requestId: typeof extra.requestId === 'number'
-                  ? String(extra.requestId)
-                  : extra.requestId,
-                ...(extra ? { ...extra } : {}),
-              } as any);
-
-              return {
-                content: result.content,
-                _meta: {
-                  ...(extra?._meta || {}),
-                  ...result._meta,
-                },
-              };
-            } catch (error) {
-              this.logger.error(`ToolRegistry: Tool execution failed: ${name}`, toError(error));
-
-              const wrappedError = ErrorHandler.wrapError(error, 'TOOL_EXECUTION_FAILED', {
-                toolName: name,
-                args,
-              });
-
-              return {
-                content: [{
-                  type: 'text',
-                  text: `Tool execution error: ${wrappedError.message}`,
-                }],
-                isError: true,
-              };
-            }
-          }) as any,
+            })) as any,
         );
       }
 
+      if (sdkRegistration) this.sdkRegistrations.set(name, sdkRegistration);
+
+      // The SDK installs its tools/list handler on the first registration
+      if (this._hideUnauthorizedTools) this.installToolListFilter();
+
       // Store tool registration with metadata
       const registeredTool: RegisteredTool = {
         name,
@@ -232,6 +373,72 @@ export class ToolRegistry {
     }
   }
 
+  /**
+   * Take a token from the global and per-tool buckets for the calling identity
+   * Throws a RATE_LIMIT_EXCEEDED error when a bucket is empty
+   */
+  private async enforceRateLimit(
+    toolName: string,
+    rateLimit: ToolRegistrationOptions['rateLimit'],
+    extra?: { sessionId?: string },
+  ): Promise<void> {
+    if (!this._rateLimitStore) return;
+
+    const authContext = BeyondMcpServer.getCurrentAuthContext();
+    const identity = RateLimitStore.resolveIdentity({
+      userId: authContext?.authenticatedUserId,
+      clientId: authContext?.clientId,
+      sessionId: authContext?.sessionId || extra?.sessionId,
+    });
+
+    await this._rateLimitStore.enforce(`tool:${toolName}`, identity, rateLimit);
+  }
+
+  /**
+   * Filter the SDK's tools/list output, leaving out tools the caller lacks scopes for
+   * Requests without an authentication context see every tool, and tools registered
+   * with the SDK directly (no required scopes here) are always listed
+   */
+  private installToolListFilter(): void {
+    // The SDK installs its own handler on the first tool registration, which this wraps
+    if (this.toolListFilterInstalled || !this._sdkMcpServer || this.sdkRegistrations.size === 0) {
+      return;
+    }
+
+    const server = this._sdkMcpServer.server;
+    // The SDK has no accessor for installed handlers, so read its handler map directly
+    const sdkListTools = (server['_requestHandlers'] as Map<string, ListToolsHandler>)
+      .get('tools/list');
+    if (!sdkListTools) {
+      this.logger.warn('ToolRegistry: SDK tools/list handler not found, tools/list is unfiltered');
+      return;
+    }
+
+    server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+      const result = await sdkListTools(request, extra);
+      const authContext = BeyondMcpServer.getCurrentAuthContext();
+      if (!this._hideUnauthorizedTools || !authContext) {
+        return result;
+      }
+      return {
+        ...result,
+        tools: result.tools.filter((tool) =>
+          ScopeAuthorizer.isAuthorized(this.getRequiredScopes(tool.name), authContext)
+        ),
+      };
+    });
+    this.toolListFilterInstalled = true;
+
+    this.logger.debug('ToolRegistry: Filtering tools/list by caller scopes');
+  }
+
+  /**
+   * Get the OAuth scopes required to call a tool
+   */
+  getRequiredScopes(name: string): string[] {
+    return this.tools.get(name)?.definition.requiredScopes ?? [];
+  }
+
   /**
    * Validate tool input with detailed error reporting
    */
@@ -247,6 +454,38 @@ export class ToolRegistry {
       };
     }
 
+    return await this.parseWithValidator(validator, input);
+  }
+
+  /**
+   * Validate a tool result's structuredContent against the tool's outputSchema
+   * Tools without an outputSchema accept any result
+   */
+  async validateToolOutput(
+    toolName: string,
+    result: CallToolResult,
+  ): Promise<ValidationResult<unknown>> {
+    const validator = this.outputValidators.get(toolName);
+    if (!validator) {
+      return { success: true, data: result.structuredContent };
+    }
+
+    if (result.structuredContent === undefined) {
+      return {
+        success: false,
+        error: new Error(
+          `Tool '${toolName}' has an outputSchema but returned no structuredContent`,
+        ),
+      };
+    }
+
+    return await this.parseWithValidator(validator, result.structuredContent);
+  }
+
+  private async parseWithValidator(
+    validator: z.AnyZodObject,
+    input: unknown,
+  ): Promise<ValidationResult<unknown>> {
     try {
       const data = await validator.parseAsync(input);
       return { success: true, data };
@@ -345,6 +584,13 @@ export class ToolRegistry {
     return this.toolValidators.get(name);
   }
 
+  /**
+   * Get tool output schema for inspection
+   */
+  getToolOutputSchema(name: string): z.AnyZodObject | undefined {
+    return this.outputValidators.get(name);
+  }
+
   /**
    * Get tool definition for inspection
    */
@@ -385,6 +631,10 @@ export class ToolRegistry {
       errors.push('Tool inputSchema is required and must be an object');
     }
 
+    if (definition.outputSchema !== undefined && typeof definition.outputSchema !== 'object') {
+      errors.push('Tool outputSchema must be an object');
+    }
+
     // Validate handler
     if (!handler || typeof handler !== 'function') {
       errors.push('Tool handler is required and must be a function');
@@ -428,6 +678,24 @@ export class ToolRegistry {
     return stats;
   }
 
+  /**
+   * Record a managed tool call in the tool stats, the metrics registry and the active span
+   */
+  private recordToolCall(name: string, outcome: ToolCallOutcome, durationMs: number): void {
+    // Only executed calls count towards the tool's execution time stats
+    if (outcome === 'success' || outcome === 'error') {
+      this.updateToolStats(name, durationMs);
+    }
+
+    const span = Tracer.getInstance().getActiveSpan();
+    span?.setAttribute('mcp.tool.outcome', outcome);
+    if (outcome !== 'success') span?.setStatus('error', outcome);
+
+    const metrics = MetricsRegistry.getInstance();
+    metrics.incrementCounter(MCP_METRICS.toolCalls, { tool: name, outcome });
+    metrics.observeHistogram(MCP_METRICS.toolCallDuration, durationMs / 1000, { tool: name });
+  }
+
   /**
    * Get registry statistics
    */
@@ -475,13 +743,20 @@ export class ToolRegistry {
   clear(): void {
     this.tools.clear();
     this.toolValidators.clear();
+    this.outputValidators.clear();
+    this.sdkRegistrations.clear();
     this.logger.debug('ToolRegistry: All tools cleared');
   }
 
   /**
    * Remove a specific tool
+   * Also removes it from the SDK server, which sends notifications/tools/list_changed
    */
   removeTool(name: string): boolean {
+    this.sdkRegistrations.get(name)?.remove();
+    this.sdkRegistrations.delete(name);
+
+    this.outputValidators.delete(name);
     const removed = this.tools.delete(name) && this.toolValidators.delete(name);
     if (removed) {
       this.logger.debug(`ToolRegistry: Tool removed: ${name}`);
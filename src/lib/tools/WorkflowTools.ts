@@ -2,7 +2,9 @@
  * Workflow Tools - Core workflow integration tools for bb-mcp-server
  *
  * Provides execute_workflow and get_schema_for_workflow tools that integrate
- * with the WorkflowRegistry to enable workflow execution via MCP.
+ * with the WorkflowRegistry to enable workflow execution via MCP. With a job
+ * manager, execute_workflow can also run workflows in the background, tracked
+ * with get_workflow_status and cancel_workflow.
  *
  * These tools are automatically registered by BeyondMcpServer when workflows exist.
  */
@@ -15,6 +17,12 @@ import type { Logger } from '../utils/Logger.ts';
 import type { AuditLogger } from '../utils/AuditLogger.ts';
 import type { ToolRegistry } from './ToolRegistry.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
+import type { WorkflowExecutionOptions, WorkflowJob } from '../types/WorkflowTypes.ts';
+import type { WorkflowJobManager } from '../workflows/WorkflowJobManager.ts';
+import { RateLimitStore } from '../storage/RateLimitStore.ts';
+import { ScopeAuthorizer } from '../auth/ScopeAuthorizer.ts';
+import { toError } from '../utils/Error.ts';
+import { MCP_METRICS, MetricsRegistry } from '../utils/MetricsRegistry.ts';
 import { BeyondMcpServer } from '../server/BeyondMcpServer.ts';
 import { ToolRegistry as ToolRegistryClass } from './ToolRegistry.ts';
 import {
@@ -25,13 +33,25 @@ import {
 
 // Import helper utilities
 import { ToolValidationHelper } from '../utils/ToolValidationHelper.ts';
-//import { ZodToJsonSchema } from '../utils/ZodToJsonSchema.ts'
-import { zodToJsonSchema } from 'zod-to-json-schema';
+import { ZodToJsonSchema } from '../utils/ZodToJsonSchema.ts';
 
 export interface WorkflowToolsDependencies {
   workflowRegistry: WorkflowRegistry;
   logger: Logger;
   auditLogger?: AuditLogger;
+  rateLimitStore?: RateLimitStore;
+  /** Enables background execution (execute_workflow async mode) and the job tools */
+  jobManager?: WorkflowJobManager;
+}
+
+/**
+ * Arguments of the execute_workflow tool
+ */
+interface ExecuteWorkflowArgs {
+  workflow_name: string;
+  parameters: Record<string, unknown>;
+  options?: WorkflowExecutionOptions;
+  async?: boolean;
 }
 
 /**
@@ -41,6 +61,10 @@ export class WorkflowTools {
   private workflowRegistry: WorkflowRegistry;
   private logger: Logger;
   private auditLogger?: AuditLogger;
+  private rateLimitStore?: RateLimitStore;
+  private jobManager?: WorkflowJobManager;
+  private executeToolNames = new Set<string>();
+  private statusToolName = 'get_workflow_status';
 
   constructor(dependencies: WorkflowToolsDependencies) {
     this.workflowRegistry = dependencies.workflowRegistry;
@@ -48,6 +72,12 @@ export class WorkflowTools {
     if (dependencies.auditLogger) {
       this.auditLogger = dependencies.auditLogger;
     }
+    if (dependencies.rateLimitStore) {
+      this.rateLimitStore = dependencies.rateLimitStore;
+    }
+    if (dependencies.jobManager) {
+      this.jobManager = dependencies.jobManager;
+    }
   }
 
   /**
@@ -68,6 +98,9 @@ export class WorkflowTools {
 
     if (config.workflowTools.executeWorkflow.enabled) {
       this.registerExecuteWorkflowTool(toolRegistry, config, appName);
+      if (this.jobManager) {
+        this.registerWorkflowJobTools(toolRegistry, config, appName);
+      }
     }
 
     if (config.workflowTools.getSchemaWorkflow.enabled) {
@@ -78,10 +111,39 @@ export class WorkflowTools {
       workflowCount: toolData.count,
       executeWorkflow: config.workflowTools.executeWorkflow.enabled,
       getSchemaWorkflow: config.workflowTools.getSchemaWorkflow.enabled,
+      backgroundJobs: !!this.jobManager,
       namingMode: config.workflowTools.naming,
     });
   }
 
+  /**
+   * Remove workflow tools from the ToolRegistry
+   * Used before registering them again when the set of workflows changes
+   */
+  unregisterFrom(
+    toolRegistry: ToolRegistry,
+    config: ToolRegistrationConfig,
+    appName?: string,
+  ): void {
+    const executeToolName = this.getExecuteWorkflowToolName(config, appName);
+    toolRegistry.removeTool(executeToolName);
+    toolRegistry.removeTool(this.getSchemaWorkflowToolName(config, appName));
+    toolRegistry.removeTool(this.getWorkflowJobToolName('get_workflow_status', config, appName));
+    toolRegistry.removeTool(this.getWorkflowJobToolName('cancel_workflow', config, appName));
+    this.executeToolNames.delete(executeToolName);
+  }
+
+  /**
+   * Get the OAuth scopes required by a workflow execution tool call
+   * Returns the requiredScopes of the target workflow, or none for other tools
+   */
+  getRequiredScopes(toolName: string, args?: Record<string, unknown>): string[] {
+    if (!this.executeToolNames.has(toolName) || typeof args?.workflow_name !== 'string') {
+      return [];
+    }
+    return this.workflowRegistry.getWorkflow(args.workflow_name)?.requiredScopes ?? [];
+  }
+
   /**
    * Register execute_workflow tool
    */
@@ -111,11 +173,28 @@ export class WorkflowTools {
               'Dry run mode - validate but do not execute',
             ),
           }).passthrough().describe('Workflow parameters'),
+          options: z.object({
+            timeout: z.number().int().positive().optional().describe(
+              'Execution timeout in milliseconds - returns a partial result when exceeded',
+            ),
+            retries: z.number().int().min(0).max(10).optional().describe(
+              'Retries per step for recoverable failures (network, rate limit, server errors)',
+            ),
+            priority: z.enum(['low', 'normal', 'high']).optional(),
+            metadata: z.record(z.unknown()).optional(),
+          }).optional().describe('Optional execution options'),
+          ...(this.jobManager && {
+            async: z.boolean().optional().default(false).describe(
+              'Run in the background and return a job ID immediately - poll get_workflow_status for progress and the result',
+            ),
+          }),
         },
       },
-      async (args, extra) => await this.executeWorkflow(args, extra as Record<string, unknown>),
+      async (args, extra) =>
+        await this.executeWorkflow(args as ExecuteWorkflowArgs, extra as Record<string, unknown>),
       { handlerMode: ToolHandlerMode.MANAGED }, // Use managed mode for workflows
     );
+    this.executeToolNames.add(toolName);
   }
 
   /**
@@ -148,6 +227,49 @@ export class WorkflowTools {
     );
   }
 
+  /**
+   * Register get_workflow_status and cancel_workflow tools for background jobs
+   */
+  private registerWorkflowJobTools(
+    registry: ToolRegistry,
+    config: ToolRegistrationConfig,
+    appName?: string,
+  ): void {
+    this.statusToolName = this.getWorkflowJobToolName('get_workflow_status', config, appName);
+
+    registry.registerTool(
+      this.statusToolName,
+      {
+        title: '⏳ Get Workflow Status',
+        description:
+          'Get the status, progress and (once finished) the result of a workflow started with execute_workflow in async mode.',
+        category: 'Workflows',
+        tags: ['workflow', 'job', 'status'],
+        inputSchema: {
+          job_id: z.string().describe('Job ID returned by execute_workflow in async mode'),
+        },
+      },
+      async (args) => await this.getWorkflowStatus(args as { job_id: string }),
+      { handlerMode: ToolHandlerMode.MANAGED },
+    );
+
+    registry.registerTool(
+      this.getWorkflowJobToolName('cancel_workflow', config, appName),
+      {
+        title: '🛑 Cancel Workflow',
+        description:
+          'Cancel a workflow running in the background. Steps completed before cancellation are kept in the partial result.',
+        category: 'Workflows',
+        tags: ['workflow', 'job', 'cancel'],
+        inputSchema: {
+          job_id: z.string().describe('Job ID returned by execute_workflow in async mode'),
+        },
+      },
+      async (args) => await this.cancelWorkflow(args as { job_id: string }),
+      { handlerMode: ToolHandlerMode.MANAGED },
+    );
+  }
+
   /**
    * Get tool name for execute_workflow based on naming configuration
    */
@@ -186,6 +308,26 @@ export class WorkflowTools {
     }
   }
 
+  /**
+   * Get tool name for get_workflow_status or cancel_workflow based on naming configuration
+   */
+  private getWorkflowJobToolName(
+    baseName: 'get_workflow_status' | 'cancel_workflow',
+    config: ToolRegistrationConfig,
+    appName?: string,
+  ): string {
+    switch (config.workflowTools.naming) {
+      case WorkflowToolNaming.NAMESPACED:
+        return appName ? `${baseName}_${appName}` : baseName;
+      case WorkflowToolNaming.CUSTOM:
+        return (baseName === 'get_workflow_status'
+          ? config.workflowTools.customNames?.getWorkflowStatus
+          : config.workflowTools.customNames?.cancelWorkflow) || baseName;
+      default:
+        return baseName;
+    }
+  }
+
   /**
    * Build dynamic description for execute_workflow tool
    */
@@ -204,7 +346,12 @@ ${toolData.overviews}
 • Always get the workflow schema first using get_schema_for_workflow tool
 • Use workflows for complex, multi-step business operations
 • Each workflow includes comprehensive validation and detailed error reporting
-• Check workflow category and tags for appropriate use cases`;
+• Check workflow category and tags for appropriate use cases${
+      this.jobManager
+        ? `
+• Set async: true for long-running workflows - a job ID is returned immediately, then poll ${this.statusToolName} until the job finishes`
+        : ''
+    }`;
   }
 
   /**
@@ -235,12 +382,12 @@ ${toolData.overviews}
    * Execute workflow handler
    */
   private async executeWorkflow(
-    args: { workflow_name: string; parameters: Record<string, unknown> },
+    args: ExecuteWorkflowArgs,
     extra?: Record<string, unknown>,
   ): Promise<CallToolResult> {
     try {
       this.logger.info('WorkflowTools: Executing workflow', { args, extra });
-      const { workflow_name, parameters } = args;
+      const { workflow_name, parameters, options } = args;
 
       //this.logger.info('WorkflowTools: Executing workflow', { workflowNames: this.workflowRegistry.getWorkflowNames()});
       // Get workflow from registry
@@ -271,6 +418,24 @@ ${toolData.overviews}
         authContext,
       });
 
+      // Reject callers whose token lacks the workflow's required scopes
+      ScopeAuthorizer.enforce(`workflow:${workflow_name}`, workflow.requiredScopes, authContext);
+
+      // Enforce the workflow's own rate limit (the global limit is applied by the tool wrapper)
+      if (this.rateLimitStore && workflow.rateLimit) {
+        const identity = RateLimitStore.resolveIdentity({
+          userId,
+          clientId: authContext?.clientId,
+          sessionId: authContext?.sessionId || (extra?.sessionId as string | undefined),
+        });
+        await this.rateLimitStore.enforce(
+          `workflow:${workflow_name}`,
+          identity,
+          workflow.rateLimit,
+          false,
+        );
+      }
+
       // Build complete workflow context with authentication details
       const workflowContext: any = {
         userId: userId || '',
@@ -289,14 +454,54 @@ ${toolData.overviews}
         // Note: kvManager and thirdPartyClient would need to be injected via dependencies
         kvManager: undefined,
         thirdPartyClient: undefined,
+        // Aborted by the SDK when the client sends notifications/cancelled for this request
+        signal: extra?.signal instanceof AbortSignal ? extra.signal : undefined,
       };
 
+      // Background mode: record the job and return its ID without waiting for the workflow
+      if (args.async && this.jobManager) {
+        const job = await this.jobManager.startJob({
+          workflowName: workflow_name,
+          parameters,
+          options,
+          userId: workflowContext.userId,
+          requestId: workflowContext.requestId,
+          authenticatedUserId: authContext?.authenticatedUserId,
+          clientId: authContext?.clientId,
+          scopes: authContext?.scopes,
+          sessionId: authContext?.sessionId || (extra?.sessionId as string | undefined),
+          requestMetadata: workflowContext.requestMetadata,
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  workflow: workflow_name,
+                  status: 'accepted',
+                  jobId: job.id,
+                  jobStatus: job.status,
+                  message:
+                    `Workflow is running in the background. Call ${this.statusToolName} with this job ID for progress and the result.`,
+                  timestamp: new Date().toISOString(),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
       // // Execute workflow within AsyncLocalStorage context for concurrent execution safety
       // const result = await BeyondMcpServer.executeWithWorkflowContext(
       //   workflowContext,
       //   () => workflow.executeWithValidation(parameters, workflowContext),
       // );
-      const result = await workflow.executeWithValidation(parameters, workflowContext);
+      const result = await workflow.executeWithValidation(parameters, workflowContext, options);
+      this.workflowRegistry.recordExecution(workflow_name, result);
 
       return {
         content: [
@@ -316,6 +521,37 @@ ${toolData.overviews}
         ],
       };
     } catch (error) {
+      if (ScopeAuthorizer.isInsufficientScopeError(error)) {
+        this.logger.warn('WorkflowTools: Workflow rejected for insufficient scope', {
+          workflowName: args.workflow_name,
+          ...error.info.context,
+          ...error.info.details,
+        });
+        MetricsRegistry.getInstance().incrementCounter(MCP_METRICS.workflowExecutions, {
+          workflow: args.workflow_name,
+          outcome: 'insufficient_scope',
+        });
+        return ToolValidationHelper.createInsufficientScopeErrorResponse(
+          ScopeAuthorizer.getInsufficientScopeInfo(error),
+          args.workflow_name,
+        );
+      }
+
+      if (RateLimitStore.isRateLimitError(error)) {
+        this.logger.warn('WorkflowTools: Workflow rate limit exceeded', {
+          workflowName: args.workflow_name,
+          ...error.info.context,
+        });
+        MetricsRegistry.getInstance().incrementCounter(MCP_METRICS.workflowExecutions, {
+          workflow: args.workflow_name,
+          outcome: 'rate_limited',
+        });
+        return ToolValidationHelper.createRateLimitErrorResponse(
+          RateLimitStore.getRateLimitInfo(error),
+          args.workflow_name,
+        );
+      }
+
       this.logger.error(
         'WorkflowTools: Workflow execution failed',
         error instanceof Error ? error : new Error(String(error)),
@@ -328,6 +564,88 @@ ${toolData.overviews}
     }
   }
 
+  /**
+   * Get workflow status handler
+   */
+  private async getWorkflowStatus(args: { job_id: string }): Promise<CallToolResult> {
+    try {
+      const job = await this.getAccessibleJob(args.job_id);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(this.describeJob(job), null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return ToolValidationHelper.createStandardErrorResponse(
+        toError(error),
+        'get_workflow_status',
+      );
+    }
+  }
+
+  /**
+   * Cancel workflow handler
+   */
+  private async cancelWorkflow(args: { job_id: string }): Promise<CallToolResult> {
+    try {
+      await this.getAccessibleJob(args.job_id);
+      const job = await this.jobManager!.cancelJob(args.job_id);
+      if (!job) {
+        throw new Error(`Workflow job '${args.job_id}' not found`);
+      }
+
+      this.logger.info('WorkflowTools: Workflow job cancel requested', {
+        jobId: job.id,
+        workflowName: job.workflowName,
+        status: job.status,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(this.describeJob(job), null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      return ToolValidationHelper.createStandardErrorResponse(toError(error), 'cancel_workflow');
+    }
+  }
+
+  /**
+   * Get a job the current caller started
+   * Jobs of other authenticated users are reported as not found
+   */
+  private async getAccessibleJob(jobId: string): Promise<WorkflowJob> {
+    const job = await this.jobManager?.getJob(jobId);
+    const authenticatedUserId = BeyondMcpServer.getCurrentAuthContext()?.authenticatedUserId;
+    if (!job || (job.authenticatedUserId && job.authenticatedUserId !== authenticatedUserId)) {
+      throw new Error(`Workflow job '${jobId}' not found`);
+    }
+    return job;
+  }
+
+  /**
+   * Job fields returned by the job tools (the caller's scopes and request metadata are omitted)
+   */
+  private describeJob(job: WorkflowJob): Record<string, unknown> {
+    return {
+      jobId: job.id,
+      workflow: job.workflowName,
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt,
+      result: job.result,
+    };
+  }
+
   /**
    * Get schema for workflow handler
    */
@@ -362,11 +680,11 @@ ${toolData.overviews}
         requiresAuth: registration.requiresAuth,
         estimatedDuration: registration.estimatedDuration,
         tags: registration.tags || [],
-        //parameterSchema: ZodToJsonSchema.convertWithFallback(
-        //  registration.parameterSchema,
-        //  `Parameter schema for ${workflow_name} workflow`
-        //), // Convert Zod schema to JSON Schema for tool response
-        parameterSchema: zodToJsonSchema(registration.parameterSchema), // Convert Zod schema to JSON Schema for tool response
+        // Convert Zod schema to JSON Schema for tool response
+        parameterSchema: ZodToJsonSchema.convertWithFallback(
+          registration.parameterSchema,
+          `Parameter schema for ${workflow_name} workflow`,
+        ),
         usage: {
           instructions: [
             '1. Review the parameter schema and required fields',
@@ -16,6 +16,7 @@ import type {
   //ThirdPartyAuthService,
 } from '../auth/OAuthProvider.ts';
 import type { OAuthConsumer } from '../auth/OAuthConsumer.ts';
+import type { TokenSubjectType } from '../auth/OAuthTypes.ts';
 
 /**
  * Authentication configuration for transport layer
@@ -53,6 +54,8 @@ export interface AuthenticationResult {
   clientId?: string;
   /** User ID if authenticated */
   userId?: string;
+  /** Whether the token was issued to a user or to a service client */
+  subjectType?: TokenSubjectType;
   /** Granted scopes */
   scope?: string[];
   /** Authentication error message */
@@ -68,6 +71,8 @@ export interface AuthenticationResult {
     registrationUri?: string;
     error?: string;
     errorDescription?: string;
+    /** Scopes needed for the request (insufficient_scope challenges) */
+    scope?: string;
   };
 }
 
@@ -75,8 +80,10 @@ export interface AuthenticationResult {
  * Authentication context for MCP request execution
  */
 export interface AuthenticationContext {
-  /** Authenticated user ID */
+  /** Authenticated user ID (service:<clientId> for service tokens) */
   authenticatedUserId: string;
+  /** Whether the request acts for a user or for a service client */
+  subjectType: TokenSubjectType;
   /** MCP client ID */
   clientId: string;
   /** Granted scopes */
@@ -263,6 +270,7 @@ export class AuthenticationMiddleware {
           authorized: validation.valid,
           clientId: validation.clientId,
           userId: validation.userId,
+          subjectType: validation.subjectType,
           scope: validation.scope ? validation.scope.split(' ') : undefined,
           error: validation.error,
           errorCode: validation.errorCode,
@@ -355,6 +363,7 @@ export class AuthenticationMiddleware {
         actionTaken: authResult.actionTaken || '',
         ...(authResult.clientId && { clientId: authResult.clientId }),
         ...(authResult.userId && { userId: authResult.userId }),
+        ...(authResult.subjectType && { subjectType: authResult.subjectType }),
         ...(authResult.scope && { scope: authResult.scope }),
       };
     } catch (error) {
@@ -385,6 +394,7 @@ export class AuthenticationMiddleware {
 
     return {
       authenticatedUserId: authResult.userId,
+      subjectType: authResult.subjectType ?? 'user',
       clientId: authResult.clientId,
       scopes: authResult.scope || [],
       requestId,
@@ -400,6 +410,9 @@ export class AuthenticationMiddleware {
       case 'actionstep_reauth_required':
         // 403 Forbidden indicates that re-authentication is needed
         return 403;
+      case 'insufficient_scope':
+        // 403 Forbidden with the required scopes in the challenge (RFC 6750 section 3.1)
+        return 403;
       case 'mcp_token_expired':
         // 401 Unauthorized indicates MCP token refresh is needed
         return 401;
@@ -419,6 +432,8 @@ export class AuthenticationMiddleware {
         return 'Third-party authentication expired and refresh failed. Stop retrying and prompt user for browser-based re-authentication.';
       case 'mcp_token_expired':
         return 'MCP access token expired. Refresh MCP token using refresh_token grant.';
+      case 'insufficient_scope':
+        return 'Access token lacks the scopes this request needs. Re-authorize requesting the scopes listed in the WWW-Authenticate header.';
       default:
         return 'Authentication failed. Check token validity and user permissions.';
     }
@@ -468,6 +483,19 @@ export class AuthenticationMiddleware {
     };
   }
 
+  /**
+   * Get OAuth challenge for a request the access token lacks scopes for
+   */
+  getInsufficientScopeChallenge(
+    requiredScopes: string[],
+    errorDescription = 'The access token does not have the required scope',
+  ): NonNullable<AuthenticationResult['oauthChallenge']> {
+    return {
+      ...this.getOAuthChallenge('insufficient_scope', errorDescription),
+      scope: requiredScopes.join(' '),
+    };
+  }
+
   /**
    * Build WWW-Authenticate header value from OAuth challenge
    */
@@ -491,6 +519,10 @@ export class AuthenticationMiddleware {
       parts.push(`error_description="${challenge.errorDescription}"`);
     }
 
+    if (challenge.scope) {
+      parts.push(`scope="${challenge.scope}"`);
+    }
+
     return `Bearer ${parts.join(', ')}`;
   }
 
@@ -527,6 +559,10 @@ export class AuthenticationMiddleware {
       headers.set('X-MCP-User-ID', authResult.userId);
     }
 
+    if (authResult.subjectType) {
+      headers.set('X-MCP-Subject-Type', authResult.subjectType);
+    }
+
     if (authResult.scope) {
       headers.set('X-MCP-Scope', authResult.scope.join(' '));
     }
@@ -6,7 +6,7 @@
  */
 
 import { randomUUID } from 'node:crypto';
-import { isInitializeRequest } from 'mcp/types.js';
+import { CallToolRequestSchema, isInitializeRequest } from 'mcp/types.js';
 import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
 import { StreamableHTTPServerTransport } from 'mcp/server/streamableHttp.js';
 import type { IncomingMessage, ServerResponse } from 'node:http';
@@ -29,6 +29,9 @@ import type { BeyondMcpServer } from '../server/BeyondMcpServer.ts';
 import type { BeyondMcpRequestContext } from '../types/BeyondMcpTypes.ts';
 import type { Logger } from '../utils/Logger.ts';
 import { reconstructOriginalUrl } from '../utils/UrlUtils.ts';
+import { Tracer } from '../utils/Tracer.ts';
+import { McpLoggingBridge } from '../server/McpLoggingBridge.ts';
+import { ScopeAuthorizer } from '../auth/ScopeAuthorizer.ts';
 import {
   type AuthenticationConfig,
   //type AuthenticationContext,
@@ -224,6 +227,41 @@ export class HttpTransport implements Transport {
     beyondMcpServer: BeyondMcpServer, // BeyondMcpServer instance for auth context execution
   ): Promise<Response> {
     const requestId = Math.random().toString(36).substring(2, 15);
+    const url = new URL(request.url);
+    const tracer = Tracer.getInstance();
+
+    // Root span for the request, continuing the caller's trace when a traceparent is sent
+    return await tracer.startActiveSpan(`${request.method} ${url.pathname}`, {
+      kind: 'server',
+      parent: tracer.extract(request.headers),
+      attributes: {
+        'http.request.method': request.method,
+        'url.path': url.pathname,
+        'mcp.request_id': requestId,
+        'mcp.session.id': request.headers.get('mcp-session-id') ?? undefined,
+      },
+    }, async (span) => {
+      const response = await this.processHttpRequest(
+        request,
+        sdkMcpServer,
+        beyondMcpServer,
+        requestId,
+      );
+      span.setAttribute('http.response.status_code', response.status);
+      if (response.status >= 500) span.setStatus('error');
+      return response;
+    });
+  }
+
+  /**
+   * Authenticate and dispatch an MCP HTTP request
+   */
+  private async processHttpRequest(
+    request: Request,
+    sdkMcpServer: SdkMcpServer,
+    beyondMcpServer: BeyondMcpServer,
+    requestId: string,
+  ): Promise<Response> {
     const startTime = performance.now();
     const method = request.method;
     const url = new URL(request.url);
@@ -316,7 +354,13 @@ export class HttpTransport implements Transport {
         response = await beyondMcpServer.executeWithAuthContext(mcpAuthContext, async () => {
           switch (method) {
             case 'POST':
-              return await this.handleMCPPost(authenticatedRequest, method, sdkMcpServer);
+              return await this.handleMCPPost(
+                authenticatedRequest,
+                method,
+                sdkMcpServer,
+                beyondMcpServer,
+                mcpAuthContext,
+              );
             case 'GET':
               return await this.handleMCPGet(authenticatedRequest, method, sdkMcpServer);
             case 'DELETE':
@@ -338,7 +382,12 @@ export class HttpTransport implements Transport {
         // Execute without authentication context for open endpoints
         switch (method) {
           case 'POST':
-            response = await this.handleMCPPost(authenticatedRequest, method, sdkMcpServer);
+            response = await this.handleMCPPost(
+              authenticatedRequest,
+              method,
+              sdkMcpServer,
+              beyondMcpServer,
+            );
             break;
           case 'GET':
             response = await this.handleMCPGet(authenticatedRequest, method, sdkMcpServer);
@@ -388,6 +437,55 @@ export class HttpTransport implements Transport {
     }
   }
 
+  /**
+   * 🔒 SECURITY-CRITICAL: Reject tools/call requests the access token lacks scopes for
+   * Returns a 403 insufficient_scope challenge so clients can step up authorization
+   */
+  private checkToolCallScopes(
+    requestBody: unknown,
+    grantedScopes: string[],
+    beyondMcpServer: BeyondMcpServer,
+    requestId: string,
+  ): Response | null {
+    const messages = Array.isArray(requestBody) ? requestBody : [requestBody];
+    for (const message of messages) {
+      const toolCall = CallToolRequestSchema.safeParse(message);
+      if (!toolCall.success) {
+        continue;
+      }
+
+      const toolName = toolCall.data.params.name;
+      const requiredScopes = beyondMcpServer.getRequiredScopesForToolCall(
+        toolName,
+        toolCall.data.params.arguments,
+      );
+      const missingScopes = ScopeAuthorizer.getMissingScopes(requiredScopes, grantedScopes);
+      if (missingScopes.length === 0) {
+        continue;
+      }
+
+      this.logger.warn(`HttpTransport: Insufficient scope for tool call [${requestId}]`, {
+        requestId,
+        toolName,
+        requiredScopes,
+        missingScopes,
+      });
+
+      const description = `Tool '${toolName}' requires scope: ${missingScopes.join(' ')}`;
+      return this.createEnhancedErrorResponse(
+        'Forbidden',
+        403,
+        description,
+        'insufficient_scope',
+        '',
+        this.authenticationMiddleware.getClientGuidance('insufficient_scope'),
+        this.authenticationMiddleware.getInsufficientScopeChallenge(requiredScopes, description),
+      );
+    }
+
+    return null;
+  }
+
   /**
    * 🚨 CRITICAL COMPATIBILITY CODE
    * Handle POST requests with session persistence
@@ -397,6 +495,8 @@ export class HttpTransport implements Transport {
     request: Request,
     method: string,
     sdkMcpServer: SdkMcpServer,
+    beyondMcpServer: BeyondMcpServer,
+    authContext?: BeyondMcpRequestContext,
   ): Promise<Response> {
     // Parse request body first
     let requestBody: any;
@@ -419,6 +519,19 @@ export class HttpTransport implements Transport {
       return this.createErrorResponse('Bad Request', 400, 'Invalid JSON in request body');
     }
 
+    // 🔒 SECURITY-CRITICAL: Tool calls need the scopes declared by the tool or workflow
+    if (authContext) {
+      const scopeDenial = this.checkToolCallScopes(
+        requestBody,
+        authContext.scopes,
+        beyondMcpServer,
+        authContext.requestId,
+      );
+      if (scopeDenial) {
+        return scopeDenial;
+      }
+    }
+
     // Check for existing session ID
     const sessionId = request.headers.get('mcp-session-id') as string | undefined;
     let transport: StreamableHTTPServerTransport;
@@ -449,6 +562,8 @@ export class HttpTransport implements Transport {
             this.logger.info(`HttpTransport: New MCP session initialized: ${initializedSessionId}`);
 
             // Track client session info from initialize request
+            const userId = request.headers.get('X-MCP-User-ID');
+            const clientId = request.headers.get('X-MCP-Client-ID');
             this.clientSessions.set(initializedSessionId, {
               sessionId: initializedSessionId,
               clientInfo: requestBody.params?.clientInfo,
@@ -458,6 +573,8 @@ export class HttpTransport implements Transport {
               lastMeta: (requestBody as any)._meta, // _meta is optional per MCP spec
               requestCount: 1,
               transport: 'http',
+              ...(userId && { userId }),
+              ...(clientId && { clientId }),
             });
 
             // Persist the new session if enabled
@@ -481,6 +598,7 @@ export class HttpTransport implements Transport {
           if (sessionIdToCleanup) {
             this.mcpTransports.delete(sessionIdToCleanup);
             this.clientSessions.delete(sessionIdToCleanup); // Clean up client session tracking
+            McpLoggingBridge.getInstance().clearSession(sessionIdToCleanup);
 
             // Mark session as inactive in persistence if enabled
             if (this.config.enableTransportPersistence && this.dependencies.sessionStore) {
@@ -1136,6 +1254,7 @@ export class HttpTransport implements Transport {
       registrationUri?: string;
       error?: string;
       errorDescription?: string;
+      scope?: string;
     },
   ): Response {
     const error = {
@@ -1155,6 +1274,7 @@ export class HttpTransport implements Transport {
             authorizationUri: oauthChallenge.authorizationUri,
             registrationUri: oauthChallenge.registrationUri,
             realm: oauthChallenge.realm,
+            ...(oauthChallenge.scope && { scope: oauthChallenge.scope }),
           },
         }),
       },
@@ -1237,6 +1357,37 @@ export class HttpTransport implements Transport {
     return Array.from(this.mcpTransports.keys());
   }
 
+  /**
+   * Terminate a session from the server side (e.g. by an administrator)
+   * Closes its SSE stream and transport; the client has to initialize a new session
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    const transport = this.mcpTransports.get(sessionId);
+    if (!transport) {
+      return false;
+    }
+
+    try {
+      await this.forceCloseActiveSSEStream(sessionId);
+      this.stopSSEKeepalive(sessionId);
+      transport.close();
+    } catch (error) {
+      this.logger.error('HttpTransport: Error closing session', toError(error), { sessionId });
+    } finally {
+      this.mcpTransports.delete(sessionId);
+      this.activeSSEStreams.delete(sessionId);
+      this.clientSessions.delete(sessionId);
+      McpLoggingBridge.getInstance().clearSession(sessionId);
+
+      if (this.config.enableTransportPersistence && this.dependencies.sessionStore) {
+        this.markSessionInactive(sessionId);
+      }
+    }
+
+    this.logger.info(`HttpTransport: MCP session closed by server ${sessionId}`);
+    return true;
+  }
+
   // Public client session tracking methods
 
   /**
@@ -356,6 +356,46 @@ export class SessionManager {
     return activeSessions;
   }
 
+  /**
+   * Get a user's sessions, from memory and (when persisted) storage
+   */
+  async getUserSessions(userId: string): Promise<SessionData[]> {
+    const sessions = new Map<string, SessionData>();
+
+    for (const session of this.activeSessions.values()) {
+      if (session.userId === userId) {
+        sessions.set(session.id, session);
+      }
+    }
+
+    if (this.config.persistToDisk) {
+      for (const session of await this.sessionStore.getUserSessions(userId)) {
+        if (!sessions.has(session.id)) {
+          sessions.set(session.id, session);
+        }
+      }
+    }
+
+    return Array.from(sessions.values());
+  }
+
+  /**
+   * Delete all of a user's sessions
+   */
+  async deleteUserSessions(userId: string): Promise<number> {
+    const sessions = await this.getUserSessions(userId);
+
+    for (const session of sessions) {
+      await this.deleteSession(session.id);
+    }
+
+    this.logger.info('SessionManager: Deleted user sessions', {
+      userId,
+      deletedCount: sessions.length,
+    });
+    return sessions.length;
+  }
+
   /**
    * Start automatic cleanup interval
    */
@@ -425,6 +425,28 @@ export class TransportManager {
     return undefined;
   }
 
+  /**
+   * Get client session information for the sessions a user initialized (HTTP transport only)
+   */
+  getUserClientSessions(userId: string): ClientSessionInfo[] {
+    if (this.config.type === 'http' && this.httpTransport) {
+      return this.httpTransport.getAllClientSessions().filter((session) =>
+        session.userId === userId
+      );
+    }
+    return [];
+  }
+
+  /**
+   * Close a session and its SSE stream (HTTP transport only)
+   */
+  async closeSession(sessionId: string): Promise<boolean> {
+    if (this.config.type === 'http' && this.httpTransport) {
+      return await this.httpTransport.closeSession(sessionId);
+    }
+    return false;
+  }
+
   /**
    * Get comprehensive transport metrics
    */
@@ -158,6 +158,8 @@ export interface ClientSessionInfo {
   lastMeta?: Record<string, unknown>; // Most recent _meta from client request
   requestCount: number;
   transport: TransportType; // 'http' or 'stdio'
+  userId?: string; // HTTP: authenticated user that initialized the session
+  clientId?: string; // HTTP: OAuth client that initialized the session
 }
 
 // Context types
@@ -7,6 +7,8 @@ import type { Logger } from '../utils/Logger.ts';
 import type { AuditLogger } from '../utils/AuditLogger.ts';
 import type { KVManager } from '../storage/KVManager.ts';
 import type { CredentialStore } from '../storage/CredentialStore.ts';
+import type { RateLimitStore } from '../storage/RateLimitStore.ts';
+import type { WorkflowJobStore } from '../storage/WorkflowJobStore.ts';
 import type { SessionStore } from '../storage/SessionStore.ts';
 import type { TransportPersistenceStore } from '../storage/TransportPersistenceStore.ts';
 import type { TransportEventStore } from '../storage/TransportEventStore.ts';
@@ -14,8 +16,11 @@ import type { TransportEventStoreChunked } from '../storage/TransportEventStoreC
 import type { ErrorHandler } from '../utils/ErrorHandler.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { ResourceRegistry } from '../resources/ResourceRegistry.ts';
+import type { PromptRegistry } from '../prompts/PromptRegistry.ts';
 import type { OAuthProvider } from '../auth/OAuthProvider.ts';
 import type { TransportManager } from '../transport/TransportManager.ts';
+import type { SessionManager } from '../transport/SessionManager.ts';
 import type { BeyondMcpServer } from '../server/BeyondMcpServer.ts';
 import type { HttpServerConfig } from '../server/ServerTypes.ts';
 import type { DocsEndpointHandler } from '../server/DocsEndpointHandler.ts';
@@ -24,6 +29,7 @@ import type { WorkflowBase } from '../workflows/WorkflowBase.ts';
 import type { ToolRegistration } from '../types/BeyondMcpTypes.ts';
 import type { TransportConfig } from '../transport/TransportTypes.ts';
 import type { AppPlugin } from './PluginTypes.ts';
+import type { PluginManager } from '../plugins/PluginManager.ts';
 
 /**
  * Configuration interface for AppServer
@@ -55,11 +61,16 @@ export interface AppServerDependencies {
   transportPersistenceStore: TransportPersistenceStore;
   eventStore: TransportEventStore | TransportEventStoreChunked;
   credentialStore: CredentialStore;
+  rateLimitStore?: RateLimitStore;
+  workflowJobStore?: WorkflowJobStore;
   errorHandler: ErrorHandler;
   workflowRegistry: WorkflowRegistry;
   toolRegistry: ToolRegistry;
+  resourceRegistry?: ResourceRegistry;
+  promptRegistry?: PromptRegistry;
   oauthProvider: OAuthProvider;
   transportManager: TransportManager;
+  sessionManager?: SessionManager; // session metrics (optional)
 
   // Beyond MCP Server (must be created with all dependencies)
   beyondMcpServer: BeyondMcpServer;
@@ -71,6 +82,9 @@ export interface AppServerDependencies {
   docsEndpointConfig?: DocsEndpointConfig;
   docsEndpointHandler?: DocsEndpointHandler;
 
+  // MCP server instructions loaded from configuration (updated on config reload)
+  mcpServerInstructions?: string;
+
   // Consumer-specific dependencies (pre-built instances
   thirdpartyApiClient?: any;
   oauthConsumer?: any;
@@ -93,6 +107,9 @@ export interface AppServerDependencies {
   // If provided, these plugins are registered before discovery runs
   staticPlugins?: AppPlugin[];
 
+  // Plugin manager (set by getAllDependencies; stops watching plugin files on shutdown)
+  pluginManager?: PluginManager;
+
   // Allow custom dependencies for extensibility
   [key: string]: any;
 }
@@ -13,6 +13,7 @@
 import type {
   CallToolResult,
   //LoggingLevelSchema
+  ToolAnnotations,
 } from 'mcp/types.js';
 import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
 import type { ZodObject, ZodSchema } from 'zod';
@@ -28,6 +29,11 @@ import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
 import type { TransportManager } from '../transport/TransportManager.ts';
 import type { KVManager } from '../storage/KVManager.ts';
 import type { OAuthProvider } from '../auth/OAuthProvider.ts';
+import type { ResourceRegistry } from '../resources/ResourceRegistry.ts';
+import type { PromptRegistry } from '../prompts/PromptRegistry.ts';
+import type { RateLimitStore } from '../storage/RateLimitStore.ts';
+import type { WorkflowJobStore } from '../storage/WorkflowJobStore.ts';
+import type { RateLimitConfig } from './PluginTypes.ts';
 
 /**
  * Beyond MCP Server Configuration
@@ -43,7 +49,7 @@ export interface BeyondMcpServerConfig {
   capabilities?: {
     tools?: Record<PropertyKey, never>;
     logging?: Record<PropertyKey, never>;
-    prompts?: Record<PropertyKey, never>;
+    prompts?: { listChanged?: boolean };
     resources?: { subscribe?: boolean };
     completions?: Record<PropertyKey, never>;
   };
@@ -81,6 +87,10 @@ export interface BeyondMcpServerDependencies {
   transportManager: TransportManager;
   kvManager?: KVManager;
   oauthProvider?: OAuthProvider;
+  resourceRegistry?: ResourceRegistry;
+  promptRegistry?: PromptRegistry;
+  rateLimitStore?: RateLimitStore;
+  workflowJobStore?: WorkflowJobStore;
 }
 
 /**
@@ -117,10 +127,16 @@ export interface ToolDefinition<T extends Record<string, ZodSchema> = any> {
   title: string;
   description: string;
   inputSchema: T;
+  // Shape of the handler's structuredContent, validated in MANAGED mode and advertised in tools/list
+  outputSchema?: Record<string, ZodSchema>;
+  // Behaviour hints for clients (readOnlyHint, destructiveHint, idempotentHint, openWorldHint)
+  annotations?: ToolAnnotations;
   examples?: ToolExample[];
   tags?: string[];
   category?: string;
   version?: string;
+  // OAuth scopes the caller's token must include, enforced in MANAGED mode and by HttpTransport
+  requiredScopes?: string[];
 }
 
 /**
@@ -131,8 +147,20 @@ export interface ToolExample {
   description: string;
   input: unknown;
   expectedOutput?: string;
+  // How expectedOutput is compared with the tool output (default: exact)
+  match?: ToolExampleMatch;
+  // The example shows a call that returns an isError result
+  expectError?: boolean;
 }
 
+/**
+ * Tool example output comparison
+ * - exact: the text content equals expectedOutput
+ * - regex: the text content matches expectedOutput as a regular expression
+ * - json: expectedOutput (JSON) is a subset of the structuredContent, or of the text content parsed as JSON
+ */
+export type ToolExampleMatch = 'exact' | 'regex' | 'json';
+
 /**
  * Tool Handler with Strong Typing
  */
@@ -542,6 +570,16 @@ export enum ToolHandlerMode {
   NATIVE = 'native', // Direct registration, tool handles own validation
 }
 
+/**
+ * Outcome of a managed tool call (metrics label)
+ */
+export type ToolCallOutcome =
+  | 'success'
+  | 'error'
+  | 'invalid_params'
+  | 'insufficient_scope'
+  | 'rate_limited';
+
 /**
  * Tool naming modes for workflow tools
  */
@@ -556,6 +594,8 @@ export enum WorkflowToolNaming {
  */
 export interface ToolRegistrationOptions {
   handlerMode?: ToolHandlerMode;
+  // Per-tool token bucket, enforced in MANAGED mode (keyed by user, client or session)
+  rateLimit?: RateLimitConfig;
   // Additional options can be added here
 }
 
@@ -569,6 +609,8 @@ export interface ToolRegistrationConfig {
     customNames?: {
       executeWorkflow?: string;
       getSchemaWorkflow?: string;
+      getWorkflowStatus?: string;
+      cancelWorkflow?: string;
     };
     executeWorkflow: {
       enabled: boolean;
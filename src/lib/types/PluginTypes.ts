@@ -8,6 +8,8 @@
 //import type { Logger } from '../utils/Logger.ts'
 import type { AppServerDependencies } from './AppServerTypes.ts';
 import type { ToolRegistration } from './BeyondMcpTypes.ts';
+import type { ResourceRegistration } from './ResourceTypes.ts';
+import type { PromptRegistration } from './PromptTypes.ts';
 import type { WorkflowBase } from './WorkflowTypes.ts';
 import type { ToolRegistry } from '../tools/ToolRegistry.ts';
 import type { WorkflowRegistry } from '../workflows/WorkflowRegistry.ts';
@@ -61,6 +63,8 @@ export interface AppPlugin {
   license?: string;
   workflows: WorkflowBase[];
   tools: ToolRegistration[];
+  resources?: ResourceRegistration[];
+  prompts?: PromptRegistration[];
   dependencies?: string[];
   initialize?(
     dependencies: AppServerDependencies,
@@ -82,6 +86,8 @@ export interface LoadedPlugin {
   registeredItems?: {
     workflows: string[];
     tools: string[];
+    resources?: string[];
+    prompts?: string[];
   };
 }
 
@@ -92,10 +98,20 @@ export interface PluginDiscoveryOptions {
   paths: string[];
   autoload: boolean;
   watchForChanges: boolean;
+  watchDebounceMs?: number; // Quiet period before reloading a changed plugin file (default 300)
   allowedPlugins?: string[];
   blockedPlugins?: string[];
 }
 
+/**
+ * Emitted when file watching loads, reloads or unloads a plugin
+ */
+export interface PluginChangeEvent {
+  action: 'loaded' | 'reloaded' | 'unloaded';
+  plugin: string;
+  path: string;
+}
+
 /**
  * Rate limiting configuration
  */
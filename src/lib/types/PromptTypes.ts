@@ -0,0 +1,119 @@
+/**
+ * Prompt Type Definitions
+ *
+ * Defines types for:
+ * - Prompt registration with Zod argument schemas
+ * - Multi-message prompt templates
+ * - Argument completion
+ * - Prompt handlers and registry configuration
+ */
+
+import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import type { GetPromptResult } from 'mcp/types.js';
+import type { ZodObject, ZodSchema } from 'zod';
+
+import type { Logger } from '../utils/Logger.ts';
+import type { ErrorHandler } from '../utils/ErrorHandler.ts';
+import type { ToolRegistry } from '../tools/ToolRegistry.ts';
+import type { InferZodSchema, ToolCallExtra, ToolHandlerMode } from './BeyondMcpTypes.ts';
+
+/**
+ * Prompt Definition with Zod Integration
+ *
+ * MCP prompt arguments are always sent as strings; use `z.string()` or `z.coerce.*`
+ * schemas for arguments that need conversion.
+ */
+// deno-lint-ignore no-explicit-any
+export interface PromptDefinition<T extends Record<string, ZodSchema> = any> {
+  title: string;
+  description: string;
+  argsSchema?: T;
+  /**
+   * Message templates rendered with `{{argName}}` placeholders.
+   * Used when the prompt is registered without a handler.
+   */
+  messages?: PromptMessageTemplate[];
+  /**
+   * Completion callbacks for prompt arguments (completion/complete with ref/prompt)
+   */
+  complete?: Record<string, PromptCompleteCallback>;
+  tags?: string[];
+  category?: string;
+  version?: string;
+}
+
+/**
+ * Single message in a prompt template
+ */
+export interface PromptMessageTemplate {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+/**
+ * Completion callback for a single prompt argument
+ */
+export type PromptCompleteCallback = (
+  value: string,
+  context?: { arguments?: Record<string, string> },
+) => string[] | Promise<string[]>;
+
+/**
+ * Prompt Handler with Strong Typing
+ */
+// deno-lint-ignore no-explicit-any
+export type PromptHandler<T extends Record<string, ZodSchema> = any> = (
+  args: InferZodSchema<T>,
+  extra?: ToolCallExtra,
+) => Promise<GetPromptResult>;
+
+/**
+ * Registered Prompt Information
+ */
+// deno-lint-ignore no-explicit-any
+export interface RegisteredPrompt<T extends Record<string, ZodSchema> = any> {
+  name: string;
+  definition: PromptDefinition<T>;
+  handler: PromptHandler<T>;
+  // deno-lint-ignore no-explicit-any
+  validator: ZodObject<any>;
+  handlerMode: ToolHandlerMode;
+  registeredAt: Date;
+  getCount?: number;
+  lastUsed?: Date;
+}
+
+/**
+ * Prompt registration options
+ */
+export interface PromptRegistrationOptions {
+  handlerMode?: ToolHandlerMode;
+}
+
+/**
+ * Prompt Registration for Batch Operations (e.g. plugins)
+ */
+// deno-lint-ignore no-explicit-any
+export interface PromptRegistration<T extends Record<string, ZodSchema> = any> {
+  name: string;
+  definition: PromptDefinition<T>;
+  handler?: PromptHandler<T>;
+  options?: PromptRegistrationOptions;
+}
+
+/**
+ * Prompt Registry Dependencies
+ */
+export interface PromptRegistryDependencies {
+  logger: Logger;
+  errorHandler: ErrorHandler;
+  sdkMcpServer?: SdkMcpServer;
+}
+
+/**
+ * Core Prompts Dependencies
+ */
+export interface CorePromptsDependencies {
+  logger: Logger;
+  toolRegistry: ToolRegistry;
+}
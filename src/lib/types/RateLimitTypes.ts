@@ -6,4 +6,39 @@ export interface RateLimitConfig {
   requestsPerMinute: number;
   burstLimit?: number;
   windowMs?: number;
+  /** HTTP-level limits for the MCP and OAuth endpoints */
+  http?: HttpRateLimitConfig;
+}
+
+/**
+ * Request budget for a single HTTP rate limit bucket
+ */
+export interface HttpRateLimitRule {
+  requests: number;
+  window: number; // seconds
+}
+
+/**
+ * Rate limits for one HTTP endpoint
+ */
+export interface HttpEndpointRateLimitConfig {
+  /** Limit per client IP address */
+  perIP?: HttpRateLimitRule;
+  /** Limit per OAuth client (client_id or bearer token) */
+  perClient?: HttpRateLimitRule;
+  /** Maximum requests in flight for this endpoint on this instance */
+  maxConcurrent?: number;
+}
+
+/**
+ * HTTP rate limiting configuration
+ */
+export interface HttpRateLimitConfig {
+  enabled: boolean;
+  /** Per-endpoint limits keyed by request path ('/mcp', '/token') or prefix ('/api/v1/*') */
+  endpoints: Record<string, HttpEndpointRateLimitConfig>;
+  /** Maximum requests in flight across all endpoints on this instance */
+  maxConcurrentRequests?: number;
+  /** Use X-Forwarded-For / X-Real-IP to identify clients (only behind a trusted proxy) */
+  trustProxy?: boolean;
 }
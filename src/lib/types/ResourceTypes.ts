@@ -0,0 +1,118 @@
+/**
+ * Resource Type Definitions
+ *
+ * Defines types for:
+ * - Resource registration (static URIs and URI templates)
+ * - Zod-validated template parameters
+ * - Resource read handlers and subscriptions
+ */
+
+import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import type { ReadResourceResult } from 'mcp/types.js';
+import type { ZodObject, ZodSchema } from 'zod';
+
+import type { Logger } from '../utils/Logger.ts';
+import type { ErrorHandler } from '../utils/ErrorHandler.ts';
+import type { InferZodSchema, ToolCallExtra } from './BeyondMcpTypes.ts';
+
+/**
+ * Resource Definition with Zod Integration
+ *
+ * Exactly one of `uri` (static resource) or `uriTemplate` (RFC 6570 template) must be set.
+ * Template variables are validated against `paramsSchema` before the handler runs.
+ */
+// deno-lint-ignore no-explicit-any
+export interface ResourceDefinition<T extends Record<string, ZodSchema> = any> {
+  title: string;
+  description: string;
+  uri?: string;
+  uriTemplate?: string;
+  paramsSchema?: T;
+  mimeType?: string;
+  /**
+   * Enumerate concrete resources matching a URI template (used by resources/list)
+   */
+  list?: () => Promise<ResourceListEntry[]>;
+  /**
+   * Completion callbacks for URI template variables
+   */
+  complete?: Record<string, ResourceCompleteCallback>;
+  tags?: string[];
+  category?: string;
+  version?: string;
+}
+
+/**
+ * Concrete resource entry returned by a template `list` callback
+ */
+export interface ResourceListEntry {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Completion callback for a single URI template variable
+ */
+export type ResourceCompleteCallback = (
+  value: string,
+  context?: { arguments?: Record<string, string> },
+) => string[] | Promise<string[]>;
+
+/**
+ * Resource Handler with Strong Typing
+ */
+// deno-lint-ignore no-explicit-any
+export type ResourceHandler<T extends Record<string, ZodSchema> = any> = (
+  uri: URL,
+  params: InferZodSchema<T>,
+  extra?: ToolCallExtra,
+) => Promise<ReadResourceResult>;
+
+/**
+ * Registered Resource Information
+ */
+// deno-lint-ignore no-explicit-any
+export interface RegisteredResource<T extends Record<string, ZodSchema> = any> {
+  name: string;
+  definition: ResourceDefinition<T>;
+  handler: ResourceHandler<T>;
+  // deno-lint-ignore no-explicit-any
+  validator?: ZodObject<any>;
+  isTemplate: boolean;
+  registeredAt: Date;
+  readCount?: number;
+  lastRead?: Date;
+}
+
+/**
+ * Resource Registration for Batch Operations (e.g. plugins)
+ */
+// deno-lint-ignore no-explicit-any
+export interface ResourceRegistration<T extends Record<string, ZodSchema> = any> {
+  name: string;
+  definition: ResourceDefinition<T>;
+  handler: ResourceHandler<T>;
+}
+
+/**
+ * Resource Registry Configuration
+ */
+export interface ResourceRegistryConfig {
+  /** Page size for resources/list and resources/templates/list (default: 50) */
+  pageSize?: number;
+  /** Handle resources/subscribe and resources/unsubscribe (default: true) */
+  enableSubscriptions?: boolean;
+}
+
+/**
+ * Resource Registry Dependencies
+ */
+export interface ResourceRegistryDependencies {
+  logger: Logger;
+  errorHandler: ErrorHandler;
+  sdkMcpServer?: SdkMcpServer;
+  config?: ResourceRegistryConfig;
+}
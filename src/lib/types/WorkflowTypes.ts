@@ -91,6 +91,14 @@ export interface WorkflowContext {
   authenticatedUserId: string | undefined;
   clientId: string | undefined;
   scopes: string[] | undefined;
+
+  // Execution control
+  /** Aborted when the client cancels the request (notifications/cancelled) or the timeout elapses */
+  signal?: AbortSignal;
+  /** Timeout and retry options for this execution */
+  executionOptions?: WorkflowExecutionOptions;
+  /** Called with each progress notification the workflow sends (background jobs persist it) */
+  onProgress?: (progress: WorkflowJobProgress) => void;
 }
 
 /**
@@ -134,6 +142,8 @@ export interface FailedStep {
   details?: string;
   code?: string;
   retry_after?: number;
+  recoverable?: boolean;
+  attempts?: number;
   timestamp: string;
 }
 
@@ -222,11 +232,135 @@ export interface WorkflowValidationError {
  */
 export interface WorkflowExecutionOptions {
   timeout?: number; // milliseconds
-  retries?: number;
+  retries?: number; // retries per step for recoverable failures
+  retryDelay?: number; // base backoff in milliseconds, doubled on each retry
   priority?: 'low' | 'normal' | 'high';
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Background workflow job state
+ * - queued/running: in progress (left running in storage when the server stops)
+ * - completed/failed/cancelled: finished, with the final result
+ * - interrupted: stopped by a server restart and not resumed
+ */
+export type WorkflowJobStatus =
+  | 'queued'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'interrupted';
+
+/**
+ * Latest progress reported by a background workflow job
+ */
+export interface WorkflowJobProgress {
+  progress: number; // 0-100
+  message?: string;
+  updatedAt?: string;
+}
+
+/**
+ * Background workflow job, persisted so it can be polled and survives restarts
+ */
+export interface WorkflowJob {
+  id: string;
+  workflowName: string;
+  status: WorkflowJobStatus;
+  parameters: Record<string, unknown>;
+  options?: WorkflowExecutionOptions;
+
+  // Caller of the execute_workflow request (restored when the job is resumed)
+  userId: string;
+  requestId: string;
+  authenticatedUserId?: string;
+  clientId?: string;
+  scopes?: string[];
+  sessionId?: string;
+  requestMetadata?: Record<string, unknown>;
+
+  progress?: WorkflowJobProgress;
+  result?: WorkflowResult;
+  /** Number of times the job was started (more than 1 after a resume) */
+  attempts: number;
+  /** Server instance running the job; others leave it alone until the lease lapses */
+  ownerId?: string;
+  /** Renewed while the owner runs the job */
+  leaseExpiresAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  startedAt?: string;
+  completedAt?: string;
+}
+
+/**
+ * Parameters and step outputs seen by the steps of a StepWorkflowBase workflow
+ */
+export interface WorkflowStepState<TParams = any> {
+  params: TParams;
+  /** Outputs of the steps completed so far, by output name */
+  outputs: Record<string, unknown>;
+}
+
+/**
+ * Argument passed to a declarative step's run handler
+ */
+export interface WorkflowStepRunContext<TParams = any> extends WorkflowStepState<TParams> {
+  /** The outputs named in the step's `inputs` */
+  inputs: Record<string, unknown>;
+  context: WorkflowContext;
+  signal: AbortSignal | undefined;
+}
+
+/**
+ * Single step of a declarative workflow
+ */
+export interface WorkflowStepDefinition<TParams = any> {
+  name: string;
+  description?: string;
+  /** Output names of earlier steps this step reads */
+  inputs?: string[];
+  /** Name the step's return value is stored under (default: the step name) */
+  output?: string;
+  /** The step is skipped when this returns false */
+  when?: (state: WorkflowStepState<TParams>) => boolean;
+  run: (step: WorkflowStepRunContext<TParams>) => Promise<unknown>;
+  /** Undo the step when a later step fails and cannot be resumed */
+  compensate?: (output: unknown, state: WorkflowStepState<TParams>) => Promise<void>;
+  resourceType?: WorkflowResource['type'];
+}
+
+/**
+ * Group of steps run concurrently, each storing its own output
+ */
+export interface WorkflowParallelStepDefinition<TParams = any> {
+  name: string;
+  description?: string;
+  /** The whole group is skipped when this returns false */
+  when?: (state: WorkflowStepState<TParams>) => boolean;
+  parallel: WorkflowStepDefinition<TParams>[];
+}
+
+export type WorkflowStepNode<TParams = any> =
+  | WorkflowStepDefinition<TParams>
+  | WorkflowParallelStepDefinition<TParams>;
+
+/**
+ * Step outputs saved after each successful step, so a failed run can resume
+ */
+export interface WorkflowCheckpoint {
+  workflowName: string;
+  runId: string; // requestId of the run
+  parametersHash: string;
+  outputs: Record<string, unknown>;
+  /** Names of the completed steps, in completion order */
+  completed: string[];
+  steps: WorkflowStep[];
+  createdAt: string;
+  updatedAt: string;
+}
+
 /**
  * Forward declarations to avoid circular dependencies
  */
@@ -239,9 +373,16 @@ export interface WorkflowBase {
   readonly estimatedDuration?: number;
   readonly requiresAuth: boolean;
   readonly rateLimit?: RateLimitConfig;
+  readonly requiredScopes?: string[];
+  readonly executionOptions?: WorkflowExecutionOptions;
+  readonly resumable?: boolean;
   readonly parameterSchema: ZodSchema<any>;
 
-  executeWithValidation(params: unknown, context: WorkflowContext): Promise<WorkflowResult>;
+  executeWithValidation(
+    params: unknown,
+    context: WorkflowContext,
+    options?: WorkflowExecutionOptions,
+  ): Promise<WorkflowResult>;
   validateParameters(params: unknown): Promise<WorkflowValidationResult<any>>;
   getRegistration(): WorkflowRegistration;
   getOverview(): string;
@@ -3,10 +3,16 @@
  *
  * Provides comprehensive logging for API interactions, workflow operations,
  * authentication events, and system events for compliance and debugging.
+ *
+ * Entries are appended as JSON lines. The log file is rotated by size and date,
+ * and each entry carries a sequence number and a SHA-256 hash chained to the
+ * previous entry, so edited or deleted entries can be detected with verifyChain().
+ * With an AuditStore attached, entries are also indexed in KV for searchLogs().
  */
 
 import type { Logger } from './Logger.ts';
 import { toError } from './Error.ts';
+import type { AuditStore } from '../storage/AuditStore.ts';
 
 export interface AuditConfig {
   enabled: boolean;
@@ -14,6 +20,18 @@ export interface AuditConfig {
   retentionDays?: number;
   bufferSize?: number;
   flushInterval?: number;
+  /** Rotate the log file once it reaches this size in bytes (0 = no size limit) */
+  maxFileSize?: number;
+  /** Rotate the log file when the UTC date changes */
+  rotateDaily?: boolean;
+  /** Rotated files to keep, oldest removed first (0 = limited by retentionDays only) */
+  maxFiles?: number;
+  /** Chain entries with SHA-256 hashes (default: true) */
+  hashChain?: boolean;
+  /** Index entries in KV for searches, when an AuditStore is attached (default: true) */
+  indexEnabled?: boolean;
+  /** Scope required to query /api/v1/audit (default: admin) */
+  apiScope?: string;
   logCalls: {
     api: boolean;
     auth: boolean;
@@ -87,15 +105,51 @@ export interface SystemAuditEntry extends BaseAuditEntry {
   component?: string;
 }
 
+/**
+ * Entry as written to the log, sealed with its position in the hash chain
+ */
+export interface AuditLogRecord extends BaseAuditEntry {
+  type: string;
+  seq: number;
+  prevHash?: string;
+  hash?: string;
+}
+
 export interface AuditSearchOptions {
   userId?: string;
+  toolName?: string;
+  workflowName?: string;
   startTime?: Date;
   endTime?: Date;
-  type?: 'api_call' | 'workflow_operation' | 'auth_event' | 'system_event';
+  type?:
+    | 'api_call'
+    | 'workflow_execution'
+    | 'workflow_operation'
+    | 'tool_call'
+    | 'auth_event'
+    | 'system_event';
   event?: string;
   limit?: number;
 }
 
+/**
+ * Result of checking the hash chain across the log files
+ */
+export interface AuditChainVerification {
+  valid: boolean;
+  filesChecked: number;
+  entriesChecked: number;
+  /** Entries written before hash chaining was enabled */
+  unchainedEntries: number;
+  /** First entry that does not match the chain */
+  failure?: {
+    file: string;
+    line: number;
+    seq?: number;
+    reason: string;
+  };
+}
+
 export interface AuditStats {
   totalEntries: number;
   entriesByType: Record<string, number>;
@@ -110,20 +164,42 @@ export class AuditLogger {
   private config: AuditConfig;
   private logger: Logger | undefined;
   private auditFile: Deno.FsFile | undefined;
-  private buffer: string[] = [];
+  private store: AuditStore | undefined;
+  // Entries are sealed into the hash chain when flushed, in buffer order
+  private buffer: Array<Record<string, unknown>> = [];
+  // Sealed lines a failed write left behind - written before newer entries
+  private unwritten: string[] = [];
+  private flushing: Promise<void> = Promise.resolve();
   private flushTimer?: ReturnType<typeof setInterval>;
   private initialized = false;
+  private lastSeq = 0;
+  private lastHash = GENESIS_HASH;
+  private fileSize = 0;
+  private fileDate = '';
 
   constructor(config: AuditConfig, logger?: Logger) {
     this.config = {
       bufferSize: 100,
       flushInterval: 5000, // 5 seconds
       retentionDays: 90,
+      maxFileSize: 0,
+      rotateDaily: false,
+      maxFiles: 0,
+      hashChain: true,
+      indexEnabled: true,
+      apiScope: 'admin',
       ...config,
     };
     this.logger = logger;
   }
 
+  /**
+   * Attach a KV index used by searchLogs (call before initialize)
+   */
+  setStore(store: AuditStore): void {
+    this.store = store;
+  }
+
   /**
    * Initialize audit logger
    */
@@ -153,8 +229,14 @@ export class AuditLogger {
           create: true,
           append: true,
         });
+
+        const { size, mtime } = await this.auditFile.stat();
+        this.fileSize = size;
+        this.fileDate = (mtime ?? new Date()).toISOString().slice(0, 10);
       }
 
+      await this.restoreChainPosition();
+
       // Start flush timer
       this.flushTimer = setInterval(() => {
         this.flushBuffer();
@@ -164,6 +246,8 @@ export class AuditLogger {
       this.logger?.info('AuditLogger: Audit logger initialized', {
         logFile: this.config.logFile,
         enabled: this.config.enabled,
+        indexed: !!this.store && this.config.indexEnabled,
+        lastSeq: this.lastSeq,
       });
 
       return this;
@@ -340,46 +424,57 @@ export class AuditLogger {
   }
 
   /**
-   * Search audit logs
+   * Search audit logs, most recent first
+   *
+   * Uses the KV index when an AuditStore is attached; otherwise reads the log
+   * files, skipping rotated files that end before startTime.
    */
   async searchLogs(options: AuditSearchOptions = {}): Promise<Array<Record<string, unknown>>> {
-    if (!this.config.enabled || !this.config.logFile) {
+    if (!this.config.enabled) {
       return [];
     }
 
-    const { userId, startTime, endTime, type, event, limit = 100 } = options;
-
     try {
-      // This is a basic implementation - in production you'd want a proper log search
-      const content = await Deno.readTextFile(this.config.logFile);
-      const lines = content.split('\n').filter((line) => line.trim());
-      const results: Array<Record<string, unknown>> = [];
+      await this.flushBuffer();
 
-      for (const line of lines.reverse()) { // Most recent first
-        if (results.length >= limit) break;
+      if (this.store && this.config.indexEnabled) {
+        return await this.store.search(options);
+      }
 
-        try {
-          const entry = JSON.parse(line);
+      if (!this.config.logFile) {
+        return [];
+      }
 
-          // Apply filters
-          if (userId && entry.userId !== userId) continue;
-          if (type && entry.type !== type) continue;
-          if (event && entry.event !== event) continue;
+      const limit = options.limit ?? 100;
+      const results: Array<Record<string, unknown>> = [];
+      const rotatedFiles = (await this.listRotatedFiles()).reverse();
 
-          if (startTime) {
-            const entryTime = new Date(entry.timestamp);
-            if (entryTime < startTime) continue;
-          }
+      for (const file of [this.config.logFile, ...rotatedFiles]) {
+        if (file !== this.config.logFile && options.startTime) {
+          if (getRotationTime(file) < options.startTime.getTime()) break;
+        }
 
-          if (endTime) {
-            const entryTime = new Date(entry.timestamp);
-            if (entryTime > endTime) continue;
-          }
+        let content: string;
+        try {
+          content = await Deno.readTextFile(file);
+        } catch (error) {
+          if (error instanceof Deno.errors.NotFound) continue;
+          throw error;
+        }
 
-          results.push(entry);
-        } catch {
-          // Skip malformed lines
-          continue;
+        const lines = content.split('\n').filter((line) => line.trim());
+        for (const line of lines.reverse()) { // Most recent first
+          if (results.length >= limit) return results;
+
+          try {
+            const entry = JSON.parse(line);
+            if (matchesSearch(entry, options)) {
+              results.push(entry);
+            }
+          } catch {
+            // Skip malformed lines
+            continue;
+          }
         }
       }
 
@@ -391,7 +486,7 @@ export class AuditLogger {
   }
 
   /**
-   * Get audit statistics
+   * Get audit statistics for the current log file (rotated files are not read)
    */
   async getAuditStats(): Promise<AuditStats> {
     if (!this.config.enabled || !this.config.logFile) {
@@ -463,52 +558,112 @@ export class AuditLogger {
   }
 
   /**
-   * Clean up old audit logs based on retention policy
+   * Remove rotated log files beyond maxFiles or older than the retention period
+   *
+   * The active log file is never rewritten, so the hash chain stays verifiable.
+   * Indexed entries expire on their own after the retention period.
+   *
+   * @returns Number of rotated files removed
    */
   async cleanupOldLogs(): Promise<number> {
-    if (!this.config.enabled || !this.config.logFile || !this.config.retentionDays) {
+    if (!this.config.enabled || !this.config.logFile) {
       return 0;
     }
 
     try {
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - this.config.retentionDays);
-
-      const content = await Deno.readTextFile(this.config.logFile);
-      const lines = content.split('\n');
-      const validLines: string[] = [];
-      let removedCount = 0;
-
-      for (const line of lines) {
-        if (!line.trim()) continue;
-
-        try {
-          const entry = JSON.parse(line);
-          const entryDate = new Date(entry.timestamp);
-
-          if (entryDate >= cutoffDate) {
-            validLines.push(line);
-          } else {
-            removedCount++;
-          }
-        } catch {
-          // Keep malformed lines to avoid data loss
-          validLines.push(line);
-        }
+      const files = await this.listRotatedFiles();
+      const cutoff = this.config.retentionDays
+        ? Date.now() - this.config.retentionDays * 24 * 60 * 60 * 1000
+        : undefined;
+      const excess = this.config.maxFiles ? Math.max(0, files.length - this.config.maxFiles) : 0;
+
+      // A file is rotated after its last entry, so its rotation time bounds every entry in it
+      const expired = files.filter((file, index) =>
+        index < excess || (cutoff !== undefined && getRotationTime(file) < cutoff)
+      );
+      for (const file of expired) {
+        await Deno.remove(file);
       }
 
-      if (removedCount > 0) {
-        await Deno.writeTextFile(this.config.logFile, validLines.join('\n') + '\n');
-        this.logger?.info('AuditLogger: Cleaned up old audit logs', { removedCount });
+      if (expired.length > 0) {
+        this.logger?.info('AuditLogger: Cleaned up old audit logs', {
+          removedCount: expired.length,
+        });
       }
 
-      return removedCount;
+      return expired.length;
     } catch (error) {
       this.logger?.error('AuditLogger: Failed to cleanup old logs', toError(error));
       return 0;
     }
   }
 
+  /**
+   * Check every log file against the hash chain, oldest first
+   *
+   * The first chained entry is trusted as the anchor, since retention may have
+   * removed the files before it. Entries written before chaining was enabled are
+   * counted but not checked.
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    const result: AuditChainVerification = {
+      valid: true,
+      filesChecked: 0,
+      entriesChecked: 0,
+      unchainedEntries: 0,
+    };
+    if (!this.config.logFile) {
+      return result;
+    }
+
+    await this.flushBuffer();
+
+    let previousHash: string | undefined;
+    for (const file of [...(await this.listRotatedFiles()), this.config.logFile]) {
+      let line = 0;
+      const fail = (reason: string, seq?: unknown): AuditChainVerification => ({
+        ...result,
+        valid: false,
+        failure: { file, line, ...(typeof seq === 'number' && { seq }), reason },
+      });
+
+      try {
+        for await (const text of readLines(file)) {
+          line++;
+          if (!text.trim()) continue;
+
+          let record: AuditLogRecord;
+          try {
+            record = JSON.parse(text);
+          } catch {
+            return fail('Malformed entry');
+          }
+
+          if (typeof record.hash !== 'string') {
+            if (previousHash) return fail('Entry is missing its hash', record.seq);
+            result.unchainedEntries++;
+            continue;
+          }
+          if (previousHash && record.prevHash !== previousHash) {
+            return fail('Entry does not follow the previous entry', record.seq);
+          }
+          if (await hashRecord(record) !== record.hash) {
+            return fail('Entry content does not match its hash', record.seq);
+          }
+
+          previousHash = record.hash;
+          result.entriesChecked++;
+        }
+        result.filesChecked++;
+      } catch (error) {
+        if (error instanceof Deno.errors.NotFound) continue;
+        throw error;
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Check if audit logging is enabled
    */
@@ -516,6 +671,13 @@ export class AuditLogger {
     return this.config.enabled;
   }
 
+  /**
+   * Scope a caller needs to query the audit API
+   */
+  getApiScope(): string {
+    return this.config.apiScope || 'admin';
+  }
+
   /**
    * Update audit configuration
    */
@@ -524,13 +686,11 @@ export class AuditLogger {
   }
 
   /**
-   * Write log entry to file and buffer
+   * Buffer a log entry, flushing when the buffer is full
    */
   private async writeLogEntry(entry: Record<string, unknown>): Promise<void> {
-    const logLine = JSON.stringify(entry) + '\n';
-
     // Add to buffer
-    this.buffer.push(logLine);
+    this.buffer.push(entry);
 
     // Flush if buffer is full
     if (this.buffer.length >= (this.config.bufferSize || 100)) {
@@ -542,21 +702,289 @@ export class AuditLogger {
   }
 
   /**
-   * Flush buffer to file
+   * Flush buffer to file and index (flushes run one at a time)
+   */
+  private flushBuffer(): Promise<void> {
+    this.flushing = this.flushing.then(() => this.writeBuffer());
+    return this.flushing;
+  }
+
+  /**
+   * Seal buffered entries into the hash chain, append them to the log file and index them
+   */
+  private async writeBuffer(): Promise<void> {
+    // Entries wait until initialize() has restored the chain position
+    if (!this.initialized || (this.buffer.length === 0 && this.unwritten.length === 0)) {
+      return;
+    }
+
+    const entries = this.buffer;
+    this.buffer = [];
+    const records: AuditLogRecord[] = [];
+    for (const entry of entries) {
+      records.push(await this.seal(entry));
+    }
+
+    if (this.auditFile) {
+      const lines = [...this.unwritten, ...records.map((record) => JSON.stringify(record) + '\n')];
+      try {
+        await this.rotateIfNeeded();
+
+        const data = encoder.encode(lines.join(''));
+        await writeAll(this.auditFile, data);
+        await this.auditFile.sync();
+
+        this.unwritten = [];
+        this.fileSize += data.length;
+        this.fileDate = new Date().toISOString().slice(0, 10);
+      } catch (error) {
+        this.unwritten = lines;
+        this.logger?.error('AuditLogger: Failed to flush audit buffer', toError(error));
+      }
+    }
+
+    if (this.store && this.config.indexEnabled) {
+      for (const record of records) {
+        await this.store.index(record);
+      }
+    }
+  }
+
+  /**
+   * Assign the next sequence number and chain hash
+   */
+  private async seal(entry: Record<string, unknown>): Promise<AuditLogRecord> {
+    const record = { ...entry, seq: ++this.lastSeq } as AuditLogRecord;
+    if (this.config.hashChain) {
+      record.prevHash = this.lastHash;
+      record.hash = await hashRecord(record);
+      this.lastHash = record.hash;
+    }
+    return record;
+  }
+
+  /**
+   * Continue the sequence and hash chain from the last entry written
+   */
+  private async restoreChainPosition(): Promise<void> {
+    let last: Record<string, unknown> | null = null;
+
+    if (this.config.logFile) {
+      const rotatedFiles = (await this.listRotatedFiles()).reverse();
+      for (const file of [this.config.logFile, ...rotatedFiles]) {
+        last = await readLastRecord(file);
+        if (last) break;
+      }
+    } else if (this.store) {
+      last = await this.store.getLatest();
+    }
+
+    if (typeof last?.seq === 'number') {
+      this.lastSeq = last.seq;
+    }
+    if (typeof last?.hash === 'string') {
+      this.lastHash = last.hash;
+    }
+  }
+
+  /**
+   * Rotate the log file when it has reached maxFileSize or the date has changed
    */
-  private async flushBuffer(): Promise<void> {
-    if (this.buffer.length === 0 || !this.auditFile) {
+  private async rotateIfNeeded(): Promise<void> {
+    if (!this.config.logFile || this.fileSize === 0) {
+      return;
+    }
+
+    const sizeReached = !!this.config.maxFileSize && this.fileSize >= this.config.maxFileSize;
+    const dateChanged = !!this.config.rotateDaily &&
+      this.fileDate !== new Date().toISOString().slice(0, 10);
+    if (!sizeReached && !dateChanged) {
       return;
     }
 
+    const logFile = this.config.logFile;
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    // Deno.rename replaces an existing file, so later rotations in the same millisecond
+    // get a sequence number
+    let rotatedFile = `${logFile}.${stamp}`;
+    for (let sequence = 1; await fileExists(rotatedFile); sequence++) {
+      rotatedFile = `${logFile}.${stamp}-${sequence}`;
+    }
+
+    this.auditFile?.close();
     try {
-      const content = this.buffer.join('');
-      await this.auditFile.write(new TextEncoder().encode(content));
-      await this.auditFile.sync();
+      await Deno.rename(logFile, rotatedFile);
+      this.fileSize = 0;
+    } finally {
+      this.auditFile = await Deno.open(logFile, { create: true, append: true });
+    }
+
+    this.logger?.info('AuditLogger: Rotated audit log', {
+      rotatedFile,
+      reason: sizeReached ? 'size' : 'date',
+    });
+
+    await this.cleanupOldLogs();
+  }
+
+  /**
+   * Rotated log files, oldest first
+   */
+  private async listRotatedFiles(): Promise<string[]> {
+    if (!this.config.logFile) {
+      return [];
+    }
+
+    const slash = this.config.logFile.lastIndexOf('/');
+    const dir = slash >= 0 ? this.config.logFile.slice(0, slash + 1) : '';
+    const prefix = this.config.logFile.slice(slash + 1) + '.';
 
-      this.buffer = [];
+    const files: string[] = [];
+    try {
+      for await (const entry of Deno.readDir(dir || '.')) {
+        if (
+          entry.isFile && entry.name.startsWith(prefix) &&
+          ROTATION_STAMP.test(entry.name.slice(prefix.length))
+        ) {
+          files.push(dir + entry.name);
+        }
+      }
     } catch (error) {
-      this.logger?.error('AuditLogger: Failed to flush audit buffer', toError(error));
+      if (!(error instanceof Deno.errors.NotFound)) throw error;
+    }
+
+    return files.sort((a, b) =>
+      getRotationTime(a) - getRotationTime(b) || getRotationSequence(a) - getRotationSequence(b)
+    );
+  }
+}
+
+const encoder = new TextEncoder();
+
+// prevHash of the first entry in a chain
+const GENESIS_HASH = '0'.repeat(64);
+
+// Suffix of rotated files: the rotation time as an ISO timestamp with ':' and '.' replaced,
+// then `-<sequence>` for further files rotated in the same millisecond
+const ROTATION_STAMP = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z(-\d+)?$/;
+
+/**
+ * Rotation time (ms) from a rotated file name
+ */
+function getRotationTime(file: string): number {
+  const stamp = file.slice(file.lastIndexOf('.') + 1);
+  return Date.parse(stamp.replace(/T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z.*$/, 'T$1:$2:$3.$4Z'));
+}
+
+/**
+ * Order of a rotated file among those rotated in the same millisecond
+ */
+function getRotationSequence(file: string): number {
+  const sequence = file.match(/Z-(\d+)$/)?.[1];
+  return sequence ? parseInt(sequence) : 0;
+}
+
+async function fileExists(path: string): Promise<boolean> {
+  try {
+    await Deno.lstat(path);
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return false;
+    throw error;
+  }
+}
+
+function matchesSearch(entry: Record<string, unknown>, options: AuditSearchOptions): boolean {
+  if (options.userId && entry.userId !== options.userId) return false;
+  if (options.toolName && entry.toolName !== options.toolName) return false;
+  if (options.workflowName && entry.workflowName !== options.workflowName) return false;
+  if (options.type && entry.type !== options.type) return false;
+  if (options.event && entry.event !== options.event) return false;
+
+  const entryTime = new Date(String(entry.timestamp));
+  if (options.startTime && entryTime < options.startTime) return false;
+  if (options.endTime && entryTime > options.endTime) return false;
+  return true;
+}
+
+/**
+ * SHA-256 over the entry without its own hash (prevHash is included, linking the chain)
+ */
+async function hashRecord(record: AuditLogRecord): Promise<string> {
+  const { hash: _hash, ...content } = record;
+  const digest = await crypto.subtle.digest('SHA-256', encoder.encode(JSON.stringify(content)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function writeAll(file: Deno.FsFile, data: Uint8Array): Promise<void> {
+  let offset = 0;
+  while (offset < data.length) {
+    offset += await file.write(data.subarray(offset));
+  }
+}
+
+/**
+ * Stream a file's lines without loading it whole
+ */
+async function* readLines(path: string): AsyncGenerator<string> {
+  const file = await Deno.open(path, { read: true });
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  // Breaking out of the loop cancels the stream, which closes the file
+  for await (const chunk of file.readable) {
+    pending += decoder.decode(chunk, { stream: true });
+    const lines = pending.split('\n');
+    pending = lines.pop() ?? '';
+    yield* lines;
+  }
+
+  pending += decoder.decode();
+  if (pending) {
+    yield pending;
+  }
+}
+
+/**
+ * Read the last complete entry of a log file from its tail
+ */
+async function readLastRecord(path: string): Promise<Record<string, unknown> | null> {
+  let file: Deno.FsFile;
+  try {
+    file = await Deno.open(path, { read: true });
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return null;
+    throw error;
+  }
+
+  try {
+    const { size } = await file.stat();
+    for (let window = 64 * 1024;; window *= 2) {
+      const start = Math.max(0, size - window);
+      const bytes = new Uint8Array(size - start);
+      await file.seek(start, Deno.SeekMode.Start);
+      let read = 0;
+      while (read < bytes.length) {
+        const count = await file.read(bytes.subarray(read));
+        if (count === null) break;
+        read += count;
+      }
+
+      const lines = new TextDecoder().decode(bytes.subarray(0, read)).split('\n');
+      // The first line may be cut off unless the window starts at the beginning
+      const complete = start === 0 ? lines : lines.slice(1);
+      for (const line of complete.reverse()) {
+        if (!line.trim()) continue;
+        try {
+          return JSON.parse(line);
+        } catch {
+          // Partially written entry - try the one before it
+        }
+      }
+
+      if (start === 0) return null;
     }
+  } finally {
+    file.close();
   }
 }
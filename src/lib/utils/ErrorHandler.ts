@@ -499,7 +499,7 @@ export class ErrorHandler {
   private static getCategoryFromCode(code: string): ErrorCategory {
     if (code.includes('VALIDATION')) return ErrorCategory.VALIDATION;
     if (code.includes('AUTH')) return ErrorCategory.AUTHENTICATION;
-    if (code.includes('PERMISSION') || code.includes('FORBIDDEN')) {
+    if (code.includes('PERMISSION') || code.includes('FORBIDDEN') || code.includes('SCOPE')) {
       return ErrorCategory.AUTHORIZATION;
     }
     if (code.includes('NOT_FOUND')) return ErrorCategory.NOT_FOUND;
@@ -532,6 +532,7 @@ export class ErrorHandler {
    */
   private static getRecoveryActionFromCode(code: string): RecoveryAction {
     if (code.includes('AUTH')) return RecoveryAction.REFRESH_TOKEN;
+    if (code.includes('SCOPE')) return RecoveryAction.USER_ACTION_REQUIRED;
     if (code.includes('CONFIG')) return RecoveryAction.RECONFIGURE;
     if (code.includes('NOT_FOUND')) return RecoveryAction.IGNORE;
     if (code.includes('VALIDATION')) return RecoveryAction.USER_ACTION_REQUIRED;
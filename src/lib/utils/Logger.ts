@@ -21,11 +21,18 @@ export interface LoggerConfig {
   colorize?: boolean;
 }
 
+/**
+ * Receives every log entry regardless of the logger's own level
+ * (used to forward entries to MCP clients, which choose their own level)
+ */
+export type LogSink = (level: LogLevel, message: string, data?: unknown) => void;
+
 /**
  * Generic logger implementation with configurable output and formatting
  */
 export class Logger {
   private currentLogLevel: LogLevel;
+  private sink: LogSink | undefined;
   private config: Required<Omit<LoggerConfig, 'outputStream'>> & {
     level: LogLevel;
     format: LogFormat;
@@ -49,6 +56,7 @@ export class Logger {
    * Log a debug message
    */
   debug(message: string, data?: unknown): void {
+    this.sink?.('debug', message, data);
     if (this.shouldLog('debug')) {
       this.writeLog('debug', message, data);
     }
@@ -58,6 +66,7 @@ export class Logger {
    * Log an info message
    */
   info(message: string, data?: unknown): void {
+    this.sink?.('info', message, data);
     if (this.shouldLog('info')) {
       this.writeLog('info', message, data);
     }
@@ -67,6 +76,7 @@ export class Logger {
    * Log a warning message
    */
   warn(message: string, data?: unknown): void {
+    this.sink?.('warn', message, data);
     if (this.shouldLog('warn')) {
       this.writeLog('warn', message, data);
     }
@@ -76,18 +86,19 @@ export class Logger {
    * Log an error message
    */
   error(message: string, error?: Error, data?: unknown): void {
-    if (this.shouldLog('error')) {
-      const errorData = error
-        ? {
-          error: {
-            name: error.name,
-            message: error.message,
-            stack: error.stack,
-          },
-          ...(typeof data === 'object' && data !== null ? data : {}),
-        }
-        : data;
+    const errorData = error
+      ? {
+        error: {
+          name: error.name,
+          message: error.message,
+          stack: error.stack,
+        },
+        ...(typeof data === 'object' && data !== null ? data : {}),
+      }
+      : data;
 
+    this.sink?.('error', message, errorData);
+    if (this.shouldLog('error')) {
       this.writeLog('error', message, errorData);
     }
   }
@@ -135,6 +146,14 @@ export class Logger {
     return this.currentLogLevel;
   }
 
+  /**
+   * Attach (or detach with undefined) a sink that receives all entries
+   * Child loggers forward through their parent, so they share its sink
+   */
+  setSink(sink: LogSink | undefined): void {
+    this.sink = sink;
+  }
+
   /**
    * Check if a message at the given level should be logged
    */
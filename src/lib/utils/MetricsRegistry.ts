@@ -0,0 +1,302 @@
+/**
+ * Metrics Registry - In-process counters, gauges and histograms
+ *
+ * Components record metrics as they run (tool calls, workflow executions, token
+ * issuance, KV operations); the registry renders them in OpenMetrics text format
+ * for the /metrics scrape endpoint.
+ */
+
+/**
+ * Metric labels (label name to value)
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Metric types supported by the registry
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Default latency buckets in seconds
+ */
+export const DEFAULT_LATENCY_BUCKETS = [
+  0.005,
+  0.01,
+  0.025,
+  0.05,
+  0.1,
+  0.25,
+  0.5,
+  1,
+  2.5,
+  5,
+  10,
+  30,
+  60,
+];
+
+/**
+ * Content type of the OpenMetrics text exposition format
+ */
+export const OPENMETRICS_CONTENT_TYPE =
+  'application/openmetrics-text; version=1.0.0; charset=utf-8';
+
+/**
+ * Built-in metrics recorded by the library
+ */
+export const MCP_METRICS = {
+  toolCalls: 'mcp_tool_calls',
+  toolCallDuration: 'mcp_tool_call_duration_seconds',
+  workflowExecutions: 'mcp_workflow_executions',
+  workflowDuration: 'mcp_workflow_duration_seconds',
+  tokensIssued: 'mcp_oauth_tokens_issued',
+  kvOperations: 'mcp_kv_operations',
+  sseStreamsActive: 'mcp_sse_streams_active',
+  sessionsActive: 'mcp_sessions_active',
+  transportRequests: 'mcp_transport_requests',
+  toolsRegistered: 'mcp_tools_registered',
+  workflowsRegistered: 'mcp_workflows_registered',
+} as const;
+
+interface MetricSeries {
+  labels: MetricLabels;
+  value: number;
+  // Histogram only
+  bucketCounts?: number[];
+  sum?: number;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  type: MetricType;
+  buckets?: number[];
+  series: Map<string, MetricSeries>;
+}
+
+/**
+ * Refreshes gauges from live sources before each scrape
+ */
+export type MetricsCollectorCallback = (registry: MetricsRegistry) => void | Promise<void>;
+
+/**
+ * Process-wide metrics registry
+ */
+export class MetricsRegistry {
+  private static instance: MetricsRegistry | undefined;
+
+  private families = new Map<string, MetricFamily>();
+  private collectors = new Set<MetricsCollectorCallback>();
+
+  private constructor() {
+    this.registerDefaultMetrics();
+  }
+
+  /**
+   * Get singleton instance of MetricsRegistry
+   */
+  static getInstance(): MetricsRegistry {
+    if (!MetricsRegistry.instance) {
+      MetricsRegistry.instance = new MetricsRegistry();
+    }
+    return MetricsRegistry.instance;
+  }
+
+  /**
+   * Clear singleton instance (primarily for testing)
+   */
+  static resetInstance(): void {
+    MetricsRegistry.instance = undefined;
+  }
+
+  /**
+   * Define a counter (no-op when it already exists)
+   */
+  defineCounter(name: string, help: string): void {
+    this.define(name, help, 'counter');
+  }
+
+  /**
+   * Define a gauge (no-op when it already exists)
+   */
+  defineGauge(name: string, help: string): void {
+    this.define(name, help, 'gauge');
+  }
+
+  /**
+   * Define a histogram with upper bucket bounds (no-op when it already exists)
+   */
+  defineHistogram(name: string, help: string, buckets = DEFAULT_LATENCY_BUCKETS): void {
+    this.define(name, help, 'histogram', [...buckets].sort((a, b) => a - b));
+  }
+
+  /**
+   * Increment a counter
+   */
+  incrementCounter(name: string, labels: MetricLabels = {}, value = 1): void {
+    if (value < 0) return;
+    const series = this.getSeries(name, 'counter', labels);
+    series.value += value;
+  }
+
+  /**
+   * Set a counter to a running total tracked by another component
+   * Values lower than the current total are ignored so the counter never decreases
+   */
+  setCounter(name: string, total: number, labels: MetricLabels = {}): void {
+    const series = this.getSeries(name, 'counter', labels);
+    series.value = Math.max(series.value, total);
+  }
+
+  /**
+   * Set a gauge to a value
+   */
+  setGauge(name: string, value: number, labels: MetricLabels = {}): void {
+    this.getSeries(name, 'gauge', labels).value = value;
+  }
+
+  /**
+   * Record a histogram observation
+   */
+  observeHistogram(name: string, value: number, labels: MetricLabels = {}): void {
+    const family = this.getFamily(name, 'histogram');
+    const series = this.getSeries(name, 'histogram', labels);
+    const buckets = family.buckets ?? [];
+
+    series.bucketCounts ??= new Array(buckets.length).fill(0);
+    for (let i = 0; i < buckets.length; i++) {
+      if (value <= buckets[i]!) series.bucketCounts[i]!++;
+    }
+    series.sum = (series.sum ?? 0) + value;
+    series.value++;
+  }
+
+  /**
+   * Get the current value of a counter or gauge series (histograms return the count)
+   */
+  getValue(name: string, labels: MetricLabels = {}): number {
+    return this.families.get(name)?.series.get(this.labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Register a callback that refreshes gauges before rendering
+   * Returns a function that removes the callback
+   */
+  addCollector(collector: MetricsCollectorCallback): () => void {
+    this.collectors.add(collector);
+    return () => this.collectors.delete(collector);
+  }
+
+  /**
+   * Render all metrics in OpenMetrics text format
+   */
+  async render(): Promise<string> {
+    for (const collector of this.collectors) {
+      await collector(this);
+    }
+
+    const lines: string[] = [];
+    for (const family of this.families.values()) {
+      lines.push(`# TYPE ${family.name} ${family.type}`);
+      lines.push(`# HELP ${family.name} ${this.escapeHelp(family.help)}`);
+
+      for (const series of family.series.values()) {
+        switch (family.type) {
+          case 'counter':
+            lines.push(`${family.name}_total${this.formatLabels(series.labels)} ${series.value}`);
+            break;
+          case 'gauge':
+            lines.push(`${family.name}${this.formatLabels(series.labels)} ${series.value}`);
+            break;
+          case 'histogram': {
+            const buckets = family.buckets ?? [];
+            buckets.forEach((bound, i) => {
+              const labels = this.formatLabels({ ...series.labels, le: String(bound) });
+              lines.push(`${family.name}_bucket${labels} ${series.bucketCounts?.[i] ?? 0}`);
+            });
+            const labels = this.formatLabels(series.labels);
+            lines.push(
+              `${family.name}_bucket${
+                this.formatLabels({ ...series.labels, le: '+Inf' })
+              } ${series.value}`,
+            );
+            lines.push(`${family.name}_count${labels} ${series.value}`);
+            lines.push(`${family.name}_sum${labels} ${series.sum ?? 0}`);
+            break;
+          }
+        }
+      }
+    }
+    lines.push('# EOF');
+
+    return lines.join('\n') + '\n';
+  }
+
+  private registerDefaultMetrics(): void {
+    this.defineCounter(MCP_METRICS.toolCalls, 'MCP tool calls by tool and outcome');
+    this.defineHistogram(MCP_METRICS.toolCallDuration, 'MCP tool call duration in seconds');
+    this.defineCounter(
+      MCP_METRICS.workflowExecutions,
+      'Workflow executions by workflow and outcome',
+    );
+    this.defineHistogram(MCP_METRICS.workflowDuration, 'Workflow execution duration in seconds');
+    this.defineCounter(MCP_METRICS.tokensIssued, 'OAuth access tokens issued by grant type');
+    this.defineCounter(MCP_METRICS.kvOperations, 'KV storage operations by operation');
+    this.defineGauge(MCP_METRICS.sseStreamsActive, 'Open SSE streams');
+    this.defineGauge(MCP_METRICS.sessionsActive, 'Active MCP sessions');
+    this.defineCounter(MCP_METRICS.transportRequests, 'MCP transport requests by outcome');
+    this.defineGauge(MCP_METRICS.toolsRegistered, 'Registered tools');
+    this.defineGauge(MCP_METRICS.workflowsRegistered, 'Registered workflows');
+  }
+
+  private define(name: string, help: string, type: MetricType, buckets?: number[]): void {
+    if (this.families.has(name)) return;
+    this.families.set(name, {
+      name,
+      help,
+      type,
+      ...(buckets && { buckets }),
+      series: new Map(),
+    });
+  }
+
+  private getFamily(name: string, type: MetricType): MetricFamily {
+    const family = this.families.get(name);
+    if (!family) {
+      throw new Error(`MetricsRegistry: Metric '${name}' is not defined`);
+    }
+    if (family.type !== type) {
+      throw new Error(`MetricsRegistry: Metric '${name}' is a ${family.type}, not a ${type}`);
+    }
+    return family;
+  }
+
+  private getSeries(name: string, type: MetricType, labels: MetricLabels): MetricSeries {
+    const family = this.getFamily(name, type);
+    const key = this.labelKey(labels);
+    let series = family.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: 0 };
+      family.series.set(key, series);
+    }
+    return series;
+  }
+
+  private labelKey(labels: MetricLabels): string {
+    return JSON.stringify(Object.keys(labels).sort().map((key) => [key, labels[key]]));
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+    return `{${entries.map(([key, value]) => `${key}="${this.escapeLabel(value)}"`).join(',')}}`;
+  }
+
+  private escapeLabel(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+  }
+
+  private escapeHelp(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * Span Exporters - Destinations for finished trace spans
+ *
+ * - OtlpHttpSpanExporter: OTLP/HTTP JSON to a collector (Jaeger, Tempo, OTel Collector)
+ * - FileSpanExporter: OTLP JSON lines appended to a file, for offline inspection
+ * - ConsoleSpanExporter: one summary line per span, for local development
+ */
+
+import type { Logger } from './Logger.ts';
+import type { SpanAttributeValue, SpanData, SpanExporter, TraceResource } from './Tracer.ts';
+
+const OTLP_SPAN_KIND = { internal: 1, server: 2, client: 3 } as const;
+const OTLP_STATUS_CODE = { unset: 0, ok: 1, error: 2 } as const;
+const INSTRUMENTATION_SCOPE = 'bb-mcp-server';
+
+/**
+ * OTLP/HTTP exporter options
+ */
+export interface OtlpHttpSpanExporterOptions {
+  /** Collector traces endpoint, e.g. http://localhost:4318/v1/traces */
+  endpoint: string;
+  /** Extra request headers (e.g. collector API keys) */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * Exports spans to an OpenTelemetry collector over OTLP/HTTP (JSON encoding)
+ */
+export class OtlpHttpSpanExporter implements SpanExporter {
+  private options: OtlpHttpSpanExporterOptions;
+
+  constructor(options: OtlpHttpSpanExporterOptions) {
+    this.options = options;
+  }
+
+  async export(spans: SpanData[], resource: TraceResource): Promise<void> {
+    const response = await fetch(this.options.endpoint, {
+      method: 'POST',
+      headers: { ...this.options.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(toOtlpJson(spans, resource)),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 10000),
+    });
+    await response.body?.cancel();
+
+    if (!response.ok) {
+      throw new Error(`OTLP export failed with HTTP ${response.status}`);
+    }
+  }
+}
+
+/**
+ * Appends each exported batch as one OTLP JSON line
+ * The output can be replayed into a collector with its file receiver
+ */
+export class FileSpanExporter implements SpanExporter {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async export(spans: SpanData[], resource: TraceResource): Promise<void> {
+    const logDir = this.filePath.substring(0, this.filePath.lastIndexOf('/'));
+    if (logDir) {
+      await Deno.mkdir(logDir, { recursive: true });
+    }
+    await Deno.writeTextFile(
+      this.filePath,
+      JSON.stringify(toOtlpJson(spans, resource)) + '\n',
+      { append: true },
+    );
+  }
+}
+
+/**
+ * Writes a summary of each span to the logger (or stdout)
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  private logger: Logger | undefined;
+
+  constructor(logger?: Logger) {
+    this.logger = logger;
+  }
+
+  export(spans: SpanData[]): Promise<void> {
+    for (const span of spans) {
+      const summary = {
+        traceId: span.context.traceId,
+        spanId: span.context.spanId,
+        parentSpanId: span.parentSpanId,
+        kind: span.kind,
+        duration_ms: Math.round((span.endTimeMs - span.startTimeMs) * 1000) / 1000,
+        status: span.status.code,
+        attributes: span.attributes,
+      };
+      if (this.logger) {
+        this.logger.info(`ConsoleSpanExporter: ${span.name}`, summary);
+      } else {
+        console.log(JSON.stringify({ name: span.name, ...summary }));
+      }
+    }
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Convert spans to an OTLP `ExportTraceServiceRequest` (JSON encoding)
+ */
+export function toOtlpJson(spans: SpanData[], resource: TraceResource): Record<string, unknown> {
+  return {
+    resourceSpans: [{
+      resource: {
+        attributes: toOtlpAttributes({
+          'service.name': resource.serviceName,
+          ...(resource.serviceVersion && { 'service.version': resource.serviceVersion }),
+        }),
+      },
+      scopeSpans: [{
+        scope: { name: INSTRUMENTATION_SCOPE },
+        spans: spans.map((span) => ({
+          traceId: span.context.traceId,
+          spanId: span.context.spanId,
+          ...(span.parentSpanId && { parentSpanId: span.parentSpanId }),
+          name: span.name,
+          kind: OTLP_SPAN_KIND[span.kind],
+          startTimeUnixNano: toUnixNano(span.startTimeMs),
+          endTimeUnixNano: toUnixNano(span.endTimeMs),
+          attributes: toOtlpAttributes(span.attributes),
+          events: span.events.map((event) => ({
+            timeUnixNano: toUnixNano(event.timeMs),
+            name: event.name,
+            attributes: toOtlpAttributes(event.attributes),
+          })),
+          status: {
+            code: OTLP_STATUS_CODE[span.status.code],
+            ...(span.status.message && { message: span.status.message }),
+          },
+        })),
+      }],
+    }],
+  };
+}
+
+function toOtlpAttributes(attributes: Record<string, SpanAttributeValue>) {
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: typeof value === 'string'
+      ? { stringValue: value }
+      : typeof value === 'boolean'
+      ? { boolValue: value }
+      : Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value },
+  }));
+}
+
+function toUnixNano(epochMs: number): string {
+  // Microsecond precision keeps the value within safe integer range before scaling
+  return (BigInt(Math.round(epochMs * 1000)) * 1000n).toString();
+}
@@ -15,7 +15,9 @@ import {
 } from 'zod';
 import type { CallToolResult } from 'mcp/types.js';
 import type { WorkflowRegistration } from '../types/WorkflowTypes.ts';
+import type { MCPRateLimitInfo } from '../types/BeyondMcpTypes.ts';
 import type { Logger } from './Logger.ts';
+import type { InsufficientScopeInfo } from '../auth/ScopeAuthorizer.ts';
 
 /**
  * Helper utilities for tool validation and error handling
@@ -60,6 +62,73 @@ export class ToolValidationHelper {
     };
   }
 
+  /**
+   * Create rate limit error response with retry-after hints
+   */
+  static createRateLimitErrorResponse(info: MCPRateLimitInfo, toolName: string): CallToolResult {
+    const rateLimit = {
+      limit: info.limit,
+      remaining: info.remaining,
+      resetTime: info.resetTime.toISOString(),
+      retryAfter: info.retryAfter,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              error: 'rate_limit_exceeded',
+              message: `Rate limit exceeded in ${toolName}. Retry after ${
+                info.retryAfter ?? 1
+              } seconds`,
+              ...rateLimit,
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+      isError: true,
+      _meta: { rateLimit },
+    };
+  }
+
+  /**
+   * Create insufficient_scope error response listing the missing scopes
+   */
+  static createInsufficientScopeErrorResponse(
+    info: InsufficientScopeInfo,
+    toolName: string,
+  ): CallToolResult {
+    const insufficientScope = {
+      requiredScopes: info.requiredScopes,
+      missingScopes: info.missingScopes,
+    };
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify(
+            {
+              error: 'insufficient_scope',
+              message: `Access token lacks the scopes required by ${toolName}: ${
+                info.missingScopes.join(' ')
+              }`,
+              ...insufficientScope,
+            },
+            null,
+            2,
+          ),
+        },
+      ],
+      isError: true,
+      _meta: { insufficientScope },
+    };
+  }
+
   /**
    * Create validation error response
    */
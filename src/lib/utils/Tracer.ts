@@ -0,0 +1,469 @@
+/**
+ * Tracer - OpenTelemetry-compatible request tracing
+ *
+ * Ties the HTTP transport, auth context, tool calls, workflow executions, API client
+ * calls and KV operations into a single trace. Spans follow the OpenTelemetry data
+ * model, propagate W3C `traceparent` context and are exported in batches by a
+ * pluggable SpanExporter (OTLP/HTTP, console or file).
+ *
+ * Tracing is disabled until `configure()` is called; spans started while disabled
+ * are non-recording no-ops.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Logger } from './Logger.ts';
+import { toError } from './Error.ts';
+
+/**
+ * W3C trace context header (also read from MCP request `_meta`)
+ */
+export const TRACEPARENT_HEADER = 'traceparent';
+
+/**
+ * Span kinds (subset of the OpenTelemetry kinds used by the library)
+ */
+export type SpanKind = 'internal' | 'server' | 'client';
+
+/**
+ * Span status codes
+ */
+export type SpanStatusCode = 'unset' | 'ok' | 'error';
+
+/**
+ * Attribute values supported on spans and events
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes - undefined values are dropped
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue | undefined>;
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** W3C trace flags (bit 0 = sampled) */
+  traceFlags: number;
+}
+
+/**
+ * Timestamped span event
+ */
+export interface SpanEvent {
+  name: string;
+  timeMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+}
+
+/**
+ * Finished span as handed to exporters
+ */
+export interface SpanData {
+  name: string;
+  kind: SpanKind;
+  context: SpanContext;
+  parentSpanId?: string;
+  /** Epoch milliseconds (sub-millisecond precision) */
+  startTimeMs: number;
+  endTimeMs: number;
+  attributes: Record<string, SpanAttributeValue>;
+  events: SpanEvent[];
+  status: { code: SpanStatusCode; message?: string };
+}
+
+/**
+ * Service that produced the spans
+ */
+export interface TraceResource {
+  serviceName: string;
+  serviceVersion?: string;
+}
+
+/**
+ * Destination for finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[], resource: TraceResource): Promise<void>;
+  shutdown?(): Promise<void>;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /** Parent context; defaults to the active span. `null` starts a new trace */
+  parent?: SpanContext | null | undefined;
+  /** Only record the span when it has a parent (e.g. KV operations outside a request) */
+  requireParent?: boolean;
+}
+
+/**
+ * Tracer configuration
+ */
+export interface TracerOptions {
+  serviceName: string;
+  serviceVersion?: string;
+  exporter: SpanExporter;
+  /** Export once this many spans are buffered (default: 64) */
+  maxBatchSize?: number;
+  /** Export buffered spans after this delay (default: 5000ms) */
+  flushIntervalMs?: number;
+  logger?: Logger;
+}
+
+const INVALID_TRACE_ID = '0'.repeat(32);
+const INVALID_SPAN_ID = '0'.repeat(16);
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+/**
+ * A unit of work within a trace
+ */
+export class Span {
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly context: SpanContext;
+  readonly parentSpanId: string | undefined;
+  readonly startTimeMs: number;
+
+  private attributes: Record<string, SpanAttributeValue> = {};
+  private events: SpanEvent[] = [];
+  private status: SpanData['status'] = { code: 'unset' };
+  private ended = false;
+  private onEnd: ((span: SpanData) => void) | undefined;
+
+  constructor(
+    name: string,
+    kind: SpanKind,
+    context: SpanContext,
+    parentSpanId?: string,
+    onEnd?: (span: SpanData) => void,
+  ) {
+    this.name = name;
+    this.kind = kind;
+    this.context = context;
+    this.parentSpanId = parentSpanId;
+    this.startTimeMs = now();
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Whether the span will be exported when it ends
+   */
+  get isRecording(): boolean {
+    return !!this.onEnd && !this.ended;
+  }
+
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (this.isRecording && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: SpanAttributes): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: SpanAttributes = {}): this {
+    if (this.isRecording) {
+      this.events.push({ name, timeMs: now(), attributes: compactAttributes(attributes) });
+    }
+    return this;
+  }
+
+  /**
+   * Record an exception event (does not change the status)
+   */
+  recordException(error: unknown): this {
+    const err = toError(error);
+    return this.addEvent('exception', {
+      'exception.type': err.name,
+      'exception.message': err.message,
+    });
+  }
+
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (this.isRecording) {
+      this.status = message ? { code, message } : { code };
+    }
+    return this;
+  }
+
+  /**
+   * End the span and hand it to the exporter (subsequent calls are ignored)
+   */
+  end(): void {
+    if (!this.isRecording) {
+      this.ended = true;
+      return;
+    }
+    this.ended = true;
+
+    const data: SpanData = {
+      name: this.name,
+      kind: this.kind,
+      context: this.context,
+      startTimeMs: this.startTimeMs,
+      endTimeMs: now(),
+      attributes: this.attributes,
+      events: this.events,
+      status: this.status,
+    };
+    if (this.parentSpanId) data.parentSpanId = this.parentSpanId;
+
+    this.onEnd!(data);
+  }
+}
+
+/**
+ * Process-wide tracer
+ */
+export class Tracer {
+  private static instance: Tracer | undefined;
+
+  private activeSpan = new AsyncLocalStorage<Span>();
+  private options: TracerOptions | undefined;
+  private buffer: SpanData[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | undefined;
+
+  private constructor() {}
+
+  /**
+   * Get singleton instance of Tracer
+   */
+  static getInstance(): Tracer {
+    if (!Tracer.instance) {
+      Tracer.instance = new Tracer();
+    }
+    return Tracer.instance;
+  }
+
+  /**
+   * Clear singleton instance (primarily for testing)
+   */
+  static resetInstance(): void {
+    if (Tracer.instance?.flushTimer !== undefined) {
+      clearTimeout(Tracer.instance.flushTimer);
+    }
+    Tracer.instance = undefined;
+  }
+
+  /**
+   * Enable tracing with the given exporter
+   */
+  configure(options: TracerOptions): void {
+    this.options = options;
+    options.logger?.info('Tracer: Tracing enabled', {
+      serviceName: options.serviceName,
+      exporter: options.exporter.constructor.name,
+    });
+  }
+
+  /**
+   * Whether spans are being recorded
+   */
+  get isEnabled(): boolean {
+    return !!this.options;
+  }
+
+  /**
+   * Get the span active in the current async context
+   */
+  getActiveSpan(): Span | undefined {
+    return this.activeSpan.getStore();
+  }
+
+  /**
+   * Start a span without activating it (see `withSpan`)
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    const kind = options.kind ?? 'internal';
+    const parent = options.parent === undefined
+      ? this.getActiveContext()
+      : options.parent ?? undefined;
+
+    if (!this.options || (options.requireParent && !parent)) {
+      return new Span(name, kind, {
+        traceId: parent?.traceId ?? INVALID_TRACE_ID,
+        spanId: INVALID_SPAN_ID,
+        traceFlags: parent?.traceFlags ?? 0,
+      });
+    }
+
+    const context: SpanContext = {
+      traceId: parent?.traceId ?? randomHex(16),
+      spanId: randomHex(8),
+      traceFlags: parent?.traceFlags ?? 1,
+    };
+    // Unsampled parents propagate their context without recording
+    const sampled = (context.traceFlags & 1) === 1;
+
+    const span = new Span(
+      name,
+      kind,
+      context,
+      parent?.spanId,
+      sampled ? (data) => this.enqueue(data) : undefined,
+    );
+    if (options.attributes) span.setAttributes(options.attributes);
+    return span;
+  }
+
+  /**
+   * Run an operation with the span active (the span is not ended)
+   */
+  withSpan<T>(span: Span, operation: () => T): T {
+    return this.activeSpan.run(span, operation);
+  }
+
+  /**
+   * Run an operation inside a new active span, ending it afterwards
+   * Errors thrown by the operation are recorded on the span and rethrown
+   */
+  async startActiveSpan<T>(
+    name: string,
+    options: SpanOptions,
+    operation: (span: Span) => Promise<T>,
+  ): Promise<T> {
+    const span = this.startSpan(name, options);
+    if (span.context.spanId === INVALID_SPAN_ID) {
+      return await operation(span);
+    }
+
+    try {
+      return await this.withSpan(span, () => operation(span));
+    } catch (error) {
+      span.recordException(error);
+      span.setStatus('error', toError(error).message);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Read a parent context from HTTP headers or an MCP `_meta` object
+   */
+  extract(carrier: Headers | Record<string, unknown> | undefined | null): SpanContext | undefined {
+    if (!carrier) return undefined;
+    const value = carrier instanceof Headers
+      ? carrier.get(TRACEPARENT_HEADER)
+      : carrier[TRACEPARENT_HEADER];
+    return typeof value === 'string' ? Tracer.parseTraceparent(value) : undefined;
+  }
+
+  /**
+   * Add the active span's `traceparent` to outgoing headers
+   */
+  inject(headers: Headers): Headers {
+    const context = this.getActiveContext();
+    if (context) {
+      headers.set(TRACEPARENT_HEADER, Tracer.formatTraceparent(context));
+    }
+    return headers;
+  }
+
+  /**
+   * Export all buffered spans
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer !== undefined) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    if (!this.options || this.buffer.length === 0) return;
+
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      await this.options.exporter.export(spans, {
+        serviceName: this.options.serviceName,
+        ...(this.options.serviceVersion && { serviceVersion: this.options.serviceVersion }),
+      });
+    } catch (error) {
+      this.options.logger?.warn('Tracer: Failed to export spans', {
+        spans: spans.length,
+        error: toError(error).message,
+      });
+    }
+  }
+
+  /**
+   * Flush remaining spans and disable tracing
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    await this.options?.exporter.shutdown?.();
+    this.options = undefined;
+  }
+
+  /**
+   * Parse a W3C `traceparent` value
+   */
+  static parseTraceparent(value: string): SpanContext | undefined {
+    const match = value.trim().toLowerCase().match(TRACEPARENT_PATTERN);
+    if (!match) return undefined;
+
+    const [, version, traceId, spanId, flags] = match;
+    if (version === 'ff' || traceId === INVALID_TRACE_ID || spanId === INVALID_SPAN_ID) {
+      return undefined;
+    }
+    return { traceId: traceId!, spanId: spanId!, traceFlags: parseInt(flags!, 16) };
+  }
+
+  /**
+   * Format a span context as a W3C `traceparent` value
+   */
+  static formatTraceparent(context: SpanContext): string {
+    const flags = (context.traceFlags & 0xff).toString(16).padStart(2, '0');
+    return `00-${context.traceId}-${context.spanId}-${flags}`;
+  }
+
+  private getActiveContext(): SpanContext | undefined {
+    const span = this.getActiveSpan();
+    return span && span.context.spanId !== INVALID_SPAN_ID ? span.context : undefined;
+  }
+
+  private enqueue(span: SpanData): void {
+    this.buffer.push(span);
+
+    if (this.buffer.length >= (this.options?.maxBatchSize ?? 64)) {
+      void this.flush();
+    } else if (this.flushTimer === undefined) {
+      const timer = setTimeout(() => {
+        this.flushTimer = undefined;
+        void this.flush();
+      }, this.options?.flushIntervalMs ?? 5000);
+      Deno.unrefTimer(timer);
+      this.flushTimer = timer;
+    }
+  }
+}
+
+function now(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+function compactAttributes(attributes: SpanAttributes): Record<string, SpanAttributeValue> {
+  const compact: Record<string, SpanAttributeValue> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) compact[key] = value;
+  }
+  return compact;
+}
@@ -3,25 +3,64 @@
  *
  * Converts Zod schemas to JSON Schema format for API documentation and tool descriptions.
  * This is essential for the get_schema_for_workflow tool to provide usable parameter schemas.
+ *
+ * Output targets JSON Schema draft 2020-12 (default) or OpenAPI 3.1, which uses
+ * the same dialect. Recursive (z.lazy) schemas are emitted once under `$defs` and
+ * referenced with `$ref`. `.describe()` text and defaults are kept on every node.
  */
 
-import type { ZodSchema, ZodType } from 'zod';
+import {
+  type Primitive,
+  type ZodArrayDef,
+  type ZodBigIntDef,
+  type ZodDiscriminatedUnionDef,
+  type ZodEnumDef,
+  type ZodFirstPartySchemaTypes,
+  ZodFirstPartyTypeKind,
+  type ZodLazyDef,
+  type ZodLiteralDef,
+  type ZodNativeEnumDef,
+  type ZodNullableDef,
+  type ZodNumberDef,
+  type ZodObjectDef,
+  type ZodRecordDef,
+  type ZodSchema,
+  type ZodStringDef,
+  type ZodTupleDef,
+  type ZodTupleItems,
+  type ZodType,
+  type ZodTypeAny,
+  type ZodTypeDef,
+  type ZodUnionDef,
+} from 'zod';
 
 /**
  * JSON Schema representation
  */
 export interface JsonSchema {
-  type?: string;
+  $schema?: string;
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+  type?: string | string[];
   description?: string;
   properties?: Record<string, JsonSchema>;
-  items?: JsonSchema;
-  enum?: (string | number | boolean)[];
+  items?: JsonSchema | false;
+  prefixItems?: JsonSchema[];
+  enum?: (string | number | boolean | null)[];
+  const?: unknown;
   required?: string[];
   default?: unknown;
   minimum?: number;
   maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
   minLength?: number;
   maxLength?: number;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  pattern?: string;
   format?: string;
   additionalProperties?: boolean | JsonSchema;
   anyOf?: JsonSchema[];
@@ -29,8 +68,41 @@ export interface JsonSchema {
   allOf?: JsonSchema[];
   not?: JsonSchema;
   nullable?: boolean;
+  discriminator?: { propertyName: string }; // OpenAPI only
+}
+
+/**
+ * JSON Schema dialect to generate
+ * - jsonSchema2020-12: standalone schema with a `$schema` keyword
+ * - openApi3.1: schema object for an OpenAPI 3.1 document (adds `discriminator` to discriminated unions)
+ */
+export type JsonSchemaTarget = 'jsonSchema2020-12' | 'openApi3.1';
+
+export interface ZodToJsonSchemaOptions {
+  target?: JsonSchemaTarget;
+}
+
+/**
+ * State of one conversion
+ */
+interface ConversionContext {
+  target: JsonSchemaTarget;
+  defs: Record<string, JsonSchema>;
+  // Lazy schemas being converted, by definition, with the $defs name reserved for them
+  lazyNames: Map<unknown, string>;
+  recursive: Set<unknown>;
+  // Recursive lazy schemas already in $defs
+  defNames: Map<unknown, string>;
+  path: string[];
 }
 
+/**
+ * Definition of any built-in Zod type, discriminated by typeName
+ */
+type ZodDef = ZodFirstPartySchemaTypes['_def'];
+
+const JSON_SCHEMA_2020_12 = 'https://json-schema.org/draft/2020-12/schema';
+
 /**
  * Convert Zod schema to JSON Schema format
  */
@@ -38,78 +110,173 @@ export class ZodToJsonSchema {
   /**
    * Convert a Zod schema to JSON Schema
    */
-  static convert(schema: ZodSchema): JsonSchema {
-    return ZodToJsonSchema.convertZodType(schema._def);
+  static convert(schema: ZodSchema, options: ZodToJsonSchemaOptions = {}): JsonSchema {
+    const context: ConversionContext = {
+      target: options.target ?? 'jsonSchema2020-12',
+      defs: {},
+      lazyNames: new Map(),
+      recursive: new Set(),
+      defNames: new Map(),
+      path: [],
+    };
+
+    const converted = ZodToJsonSchema.convertZodType(schema._def, context);
+    return {
+      ...(context.target === 'jsonSchema2020-12' && { $schema: JSON_SCHEMA_2020_12 }),
+      ...converted,
+      ...(Object.keys(context.defs).length > 0 && { $defs: context.defs }),
+    };
   }
 
   /**
-   * Convert Zod type definition to JSON Schema
+   * Convert Zod type definition to JSON Schema, keeping its description
    */
-  private static convertZodType(def: any): JsonSchema {
-    const typeName = (def as any).typeName;
+  private static convertZodType(def: ZodTypeDef, context: ConversionContext): JsonSchema {
+    const schema = ZodToJsonSchema.convertZodTypeWithoutDescription(def as ZodDef, context);
+    if (typeof def.description === 'string') {
+      schema.description = def.description;
+    }
+    return schema;
+  }
 
-    switch (typeName) {
-      case 'ZodString':
+  private static convertZodTypeWithoutDescription(
+    def: ZodDef,
+    context: ConversionContext,
+  ): JsonSchema {
+    switch (def.typeName) {
+      case ZodFirstPartyTypeKind.ZodString:
         return ZodToJsonSchema.convertString(def);
 
-      case 'ZodNumber':
+      case ZodFirstPartyTypeKind.ZodNumber:
         return ZodToJsonSchema.convertNumber(def);
 
-      case 'ZodBoolean':
+      case ZodFirstPartyTypeKind.ZodBigInt:
+        return ZodToJsonSchema.convertBigInt(def);
+
+      case ZodFirstPartyTypeKind.ZodBoolean:
         return { type: 'boolean' };
 
-      case 'ZodArray':
-        return ZodToJsonSchema.convertArray(def);
+      case ZodFirstPartyTypeKind.ZodDate:
+        return { type: 'string', format: 'date-time' };
+
+      case ZodFirstPartyTypeKind.ZodArray:
+        return ZodToJsonSchema.convertArray(def, context);
+
+      case ZodFirstPartyTypeKind.ZodSet:
+        return {
+          type: 'array',
+          uniqueItems: true,
+          items: ZodToJsonSchema.convertZodType(def.valueType._def, context),
+          ...(def.minSize && { minItems: def.minSize.value }),
+          ...(def.maxSize && { maxItems: def.maxSize.value }),
+        };
 
-      case 'ZodObject':
-        return ZodToJsonSchema.convertObject(def);
+      case ZodFirstPartyTypeKind.ZodTuple:
+        return ZodToJsonSchema.convertTuple(def, context);
 
-      case 'ZodEnum':
+      case ZodFirstPartyTypeKind.ZodObject:
+        return ZodToJsonSchema.convertObject(def, context);
+
+      case ZodFirstPartyTypeKind.ZodEnum:
         return ZodToJsonSchema.convertEnum(def);
 
-      case 'ZodOptional':
-        return ZodToJsonSchema.convertZodType(def.innerType._def);
+      case ZodFirstPartyTypeKind.ZodNativeEnum:
+        return ZodToJsonSchema.convertNativeEnum(def);
+
+      case ZodFirstPartyTypeKind.ZodOptional:
+        return ZodToJsonSchema.convertZodType(def.innerType._def, context);
 
-      case 'ZodDefault':
-        const baseSchema = ZodToJsonSchema.convertZodType(def.innerType._def);
-        baseSchema.default = def.defaultValue();
+      case ZodFirstPartyTypeKind.ZodNullable:
+        return ZodToJsonSchema.convertNullable(def, context);
+
+      case ZodFirstPartyTypeKind.ZodDefault: {
+        const baseSchema = ZodToJsonSchema.convertZodType(def.innerType._def, context);
+        baseSchema.default = ZodToJsonSchema.toJsonValue(def.defaultValue());
         return baseSchema;
+      }
 
-      case 'ZodUnion':
-        return ZodToJsonSchema.convertUnion(def);
+      case ZodFirstPartyTypeKind.ZodCatch:
+      case ZodFirstPartyTypeKind.ZodReadonly:
+        return ZodToJsonSchema.convertZodType(def.innerType._def, context);
 
-      case 'ZodLiteral':
-        return ZodToJsonSchema.convertLiteral(def);
+      case ZodFirstPartyTypeKind.ZodBranded:
+      case ZodFirstPartyTypeKind.ZodPromise:
+        return ZodToJsonSchema.convertZodType(def.type._def, context);
+
+      case ZodFirstPartyTypeKind.ZodEffects:
+        // refine/transform/preprocess - describe the input the schema accepts
+        return ZodToJsonSchema.convertZodType(def.schema._def, context);
+
+      case ZodFirstPartyTypeKind.ZodPipeline:
+        return ZodToJsonSchema.convertZodType(def.in._def, context);
+
+      case ZodFirstPartyTypeKind.ZodLazy:
+        return ZodToJsonSchema.convertLazy(def, context);
 
-      case 'ZodRecord':
-        return ZodToJsonSchema.convertRecord(def);
+      case ZodFirstPartyTypeKind.ZodUnion:
+        return ZodToJsonSchema.convertUnion(def, context);
 
-      case 'ZodAny':
+      case ZodFirstPartyTypeKind.ZodDiscriminatedUnion:
+        return ZodToJsonSchema.convertDiscriminatedUnion(def, context);
+
+      case ZodFirstPartyTypeKind.ZodIntersection:
+        return {
+          allOf: [
+            ZodToJsonSchema.convertZodType(def.left._def, context),
+            ZodToJsonSchema.convertZodType(def.right._def, context),
+          ],
+        };
+
+      case ZodFirstPartyTypeKind.ZodLiteral:
+        return ZodToJsonSchema.convertLiteral(def);
+
+      case ZodFirstPartyTypeKind.ZodRecord:
+        return ZodToJsonSchema.convertRecord(def, context);
+
+      case ZodFirstPartyTypeKind.ZodMap:
+        return {
+          type: 'array',
+          items: {
+            type: 'array',
+            prefixItems: [
+              ZodToJsonSchema.convertZodType(def.keyType._def, context),
+              ZodToJsonSchema.convertZodType(def.valueType._def, context),
+            ],
+            items: false,
+            minItems: 2,
+            maxItems: 2,
+          },
+        };
+
+      case ZodFirstPartyTypeKind.ZodAny:
         return {};
 
-      case 'ZodUnknown':
+      case ZodFirstPartyTypeKind.ZodUnknown:
         return {};
 
-      case 'ZodNever':
+      case ZodFirstPartyTypeKind.ZodNever:
         return { not: {} };
 
-      case 'ZodNull':
+      case ZodFirstPartyTypeKind.ZodNull:
         return { type: 'null' };
 
-      case 'ZodUndefined':
-        return { type: 'undefined' };
+      case ZodFirstPartyTypeKind.ZodUndefined:
+      case ZodFirstPartyTypeKind.ZodVoid:
+        // No JSON value is undefined
+        return { not: {} };
 
       default:
-        console.warn(`ZodToJsonSchema: Unsupported Zod type: ${typeName}`);
-        return { description: `Unsupported Zod type: ${typeName}` };
+        console.warn(`ZodToJsonSchema: Unsupported Zod type: ${def.typeName}`);
+        return { description: `Unsupported Zod type: ${def.typeName}` };
     }
   }
 
   /**
    * Convert ZodString to JSON Schema
    */
-  private static convertString(def: any): JsonSchema {
+  private static convertString(def: ZodStringDef): JsonSchema {
     const schema: JsonSchema = { type: 'string' };
+    const patterns: string[] = [];
 
     // Add length constraints
     if (def.checks) {
@@ -121,6 +288,10 @@ export class ZodToJsonSchema {
           case 'max':
             schema.maxLength = check.value;
             break;
+          case 'length':
+            schema.minLength = check.value;
+            schema.maxLength = check.value;
+            break;
           case 'email':
             schema.format = 'email';
             break;
@@ -130,31 +301,77 @@ export class ZodToJsonSchema {
           case 'uuid':
             schema.format = 'uuid';
             break;
+          case 'datetime':
+            schema.format = 'date-time';
+            break;
+          case 'date':
+            schema.format = 'date';
+            break;
+          case 'time':
+            schema.format = 'time';
+            break;
+          case 'duration':
+            schema.format = 'duration';
+            break;
+          case 'ip':
+            if (check.version) schema.format = check.version;
+            break;
+          case 'regex':
+            patterns.push(check.regex.source);
+            break;
+          case 'startsWith':
+            patterns.push(`^${ZodToJsonSchema.escapeRegExp(check.value)}`);
+            break;
+          case 'endsWith':
+            patterns.push(`${ZodToJsonSchema.escapeRegExp(check.value)}$`);
+            break;
+          case 'includes':
+            patterns.push(ZodToJsonSchema.escapeRegExp(check.value));
+            break;
         }
       }
     }
 
+    // JSON Schema has one pattern per schema - further patterns are combined with allOf
+    if (patterns.length > 0) {
+      schema.pattern = patterns[0]!;
+      if (patterns.length > 1) {
+        schema.allOf = patterns.slice(1).map((pattern) => ({ pattern }));
+      }
+    }
+
     return schema;
   }
 
   /**
    * Convert ZodNumber to JSON Schema
    */
-  private static convertNumber(def: any): JsonSchema {
+  private static convertNumber(def: ZodNumberDef): JsonSchema {
     const schema: JsonSchema = { type: 'number' };
 
     if (def.checks) {
       for (const check of def.checks) {
         switch (check.kind) {
           case 'min':
-            schema.minimum = check.value;
+            if (check.inclusive) {
+              schema.minimum = check.value;
+            } else {
+              schema.exclusiveMinimum = check.value;
+            }
             break;
           case 'max':
-            schema.maximum = check.value;
+            if (check.inclusive) {
+              schema.maximum = check.value;
+            } else {
+              schema.exclusiveMaximum = check.value;
+            }
             break;
           case 'int':
             schema.type = 'integer';
             break;
+          case 'multipleOf':
+            schema.multipleOf = check.value;
+            break;
         }
       }
     }
@@ -162,48 +379,115 @@ export class ZodToJsonSchema {
     return schema;
   }
 
+  /**
+   * Convert ZodBigInt to JSON Schema (bounds outside the safe integer range lose precision)
+   */
+  private static convertBigInt(def: ZodBigIntDef): JsonSchema {
+    const schema: JsonSchema = { type: 'integer', format: 'int64' };
+
+    for (const check of def.checks ?? []) {
+      const value = Number(check.value);
+      switch (check.kind) {
+        case 'min':
+          if (check.inclusive) {
+            schema.minimum = value;
+          } else {
+            schema.exclusiveMinimum = value;
+          }
+          break;
+        case 'max':
+          if (check.inclusive) {
+            schema.maximum = value;
+          } else {
+            schema.exclusiveMaximum = value;
+          }
+          break;
+        case 'multipleOf':
+          schema.multipleOf = value;
+          break;
+      }
+    }
+
+    return schema;
+  }
+
   /**
    * Convert ZodArray to JSON Schema
    */
-  private static convertArray(def: any): JsonSchema {
-    const itemsSchema = ZodToJsonSchema.convertZodType(def.type._def);
+  private static convertArray(def: ZodArrayDef, context: ConversionContext): JsonSchema {
+    const itemsSchema = ZodToJsonSchema.convertZodType(def.type._def, context);
     const schema: JsonSchema = {
       type: 'array',
       items: itemsSchema,
     };
 
-    if (def.minLength !== null) {
-      schema.minLength = def.minLength.value;
+    if (def.minLength) {
+      schema.minItems = def.minLength.value;
+    }
+    if (def.maxLength) {
+      schema.maxItems = def.maxLength.value;
     }
-    if (def.maxLength !== null) {
-      schema.maxLength = def.maxLength.value;
+    if (def.exactLength) {
+      schema.minItems = def.exactLength.value;
+      schema.maxItems = def.exactLength.value;
     }
 
     return schema;
   }
 
+  /**
+   * Convert ZodTuple to JSON Schema (prefixItems, with the rest element as items)
+   */
+  private static convertTuple(
+    def: ZodTupleDef<ZodTupleItems | [], ZodTypeAny | null>,
+    context: ConversionContext,
+  ): JsonSchema {
+    const prefixItems = def.items.map((item: ZodType, index: number) =>
+      ZodToJsonSchema.withPath(
+        context,
+        String(index),
+        () => ZodToJsonSchema.convertZodType(item._def, context),
+      )
+    );
+
+    if (def.rest) {
+      return {
+        type: 'array',
+        prefixItems,
+        items: ZodToJsonSchema.convertZodType(def.rest._def, context),
+        minItems: prefixItems.length,
+      };
+    }
+
+    return {
+      type: 'array',
+      prefixItems,
+      items: false,
+      minItems: prefixItems.length,
+      maxItems: prefixItems.length,
+    };
+  }
+
   /**
    * Convert ZodObject to JSON Schema
    */
-  private static convertObject(def: any): JsonSchema {
+  private static convertObject(def: ZodObjectDef, context: ConversionContext): JsonSchema {
     const properties: Record<string, JsonSchema> = {};
     const required: string[] = [];
 
     // Process shape properties
     for (const [key, value] of Object.entries(def.shape())) {
       const zodType = value as ZodType;
-      properties[key] = ZodToJsonSchema.convertZodType(zodType._def);
+      properties[key] = ZodToJsonSchema.withPath(
+        context,
+        key,
+        () => ZodToJsonSchema.convertZodType(zodType._def, context),
+      );
 
       // Check if field is required (not optional)
       if (!ZodToJsonSchema.isOptional(zodType)) {
         required.push(key);
       }
-
-      // Extract description from Zod description
-      const description = ZodToJsonSchema.getDescription(zodType);
-      if (description) {
-        properties[key].description = description;
-      }
     }
 
     const schema: JsonSchema = {
@@ -215,10 +499,13 @@ export class ZodToJsonSchema {
       schema.required = required;
     }
 
-    // Handle unknown keys policy
-    if (def.unknownKeys === 'passthrough') {
+    // Handle unknown keys policy (a catchall schema applies to every other key)
+    const catchall = def.catchall?._def;
+    if (catchall && catchall.typeName !== ZodFirstPartyTypeKind.ZodNever) {
+      schema.additionalProperties = ZodToJsonSchema.convertZodType(catchall, context);
+    } else if (def.unknownKeys === 'passthrough') {
       schema.additionalProperties = true;
-    } else if (def.unknownKeys === 'strip') {
+    } else if (def.unknownKeys === 'strip' || def.unknownKeys === 'strict') {
       schema.additionalProperties = false;
     }
 
@@ -228,19 +515,80 @@ export class ZodToJsonSchema {
   /**
    * Convert ZodEnum to JSON Schema
    */
-  private static convertEnum(def: any): JsonSchema {
+  private static convertEnum(def: ZodEnumDef): JsonSchema {
     return {
       type: 'string',
-      enum: def.values,
+      enum: [...def.values],
+    };
+  }
+
+  /**
+   * Convert ZodNativeEnum to JSON Schema
+   * Numeric TypeScript enums also map each value back to its name - those entries are skipped
+   */
+  private static convertNativeEnum(def: ZodNativeEnumDef): JsonSchema {
+    const enumObject = def.values;
+    const values = Object.entries(enumObject)
+      .filter(([key]) => typeof enumObject[enumObject[key] as string] !== 'number')
+      .map(([, value]) => value);
+
+    const types = [...new Set(values.map((value) => typeof value))];
+    return {
+      type: types.length === 1 ? types[0]! : types,
+      enum: values,
     };
   }
 
+  /**
+   * Convert ZodNullable to JSON Schema
+   */
+  private static convertNullable(def: ZodNullableDef, context: ConversionContext): JsonSchema {
+    const inner = ZodToJsonSchema.convertZodType(def.innerType._def, context);
+
+    // Simple typed schemas take null as an extra type, everything else is wrapped in anyOf
+    if (typeof inner.type === 'string' && !inner.enum && !inner.$ref) {
+      return { ...inner, type: [inner.type, 'null'] };
+    }
+    return { anyOf: [inner, { type: 'null' }] };
+  }
+
+  /**
+   * Convert ZodLazy to JSON Schema
+   * A lazy schema that refers to itself is stored once in $defs and referenced with $ref
+   */
+  private static convertLazy(def: ZodLazyDef, context: ConversionContext): JsonSchema {
+    const defined = context.defNames.get(def);
+    if (defined) {
+      return { $ref: `#/$defs/${defined}` };
+    }
+
+    const reserved = context.lazyNames.get(def);
+    if (reserved) {
+      context.recursive.add(def);
+      return { $ref: `#/$defs/${reserved}` };
+    }
+
+    const name = ZodToJsonSchema.createDefinitionName(context);
+    context.lazyNames.set(def, name);
+    try {
+      const schema = ZodToJsonSchema.convertZodType(def.getter()._def, context);
+      if (!context.recursive.has(def)) {
+        return schema;
+      }
+      context.defs[name] = schema;
+      context.defNames.set(def, name);
+      return { $ref: `#/$defs/${name}` };
+    } finally {
+      context.lazyNames.delete(def);
+    }
+  }
+
   /**
    * Convert ZodUnion to JSON Schema
    */
-  private static convertUnion(def: any): JsonSchema {
+  private static convertUnion(def: ZodUnionDef, context: ConversionContext): JsonSchema {
     const schemas = def.options.map((option: ZodType) =>
-      ZodToJsonSchema.convertZodType(option._def)
+      ZodToJsonSchema.convertZodType(option._def, context)
     );
 
     return {
@@ -248,14 +596,39 @@ export class ZodToJsonSchema {
     };
   }
 
+  /**
+   * Convert ZodDiscriminatedUnion to JSON Schema (exactly one option matches)
+   */
+  private static convertDiscriminatedUnion(
+    def: ZodDiscriminatedUnionDef<string>,
+    context: ConversionContext,
+  ): JsonSchema {
+    return {
+      oneOf: def.options.map((option) => ZodToJsonSchema.convertZodType(option._def, context)),
+      ...(context.target === 'openApi3.1' &&
+        { discriminator: { propertyName: def.discriminator } }),
+    };
+  }
+
   /**
    * Convert ZodLiteral to JSON Schema
    */
-  private static convertLiteral(def: any): JsonSchema {
+  private static convertLiteral(def: ZodLiteralDef<Primitive>): JsonSchema {
     const value = def.value;
 
+    if (value === null) {
+      return { type: 'null' };
+    }
+    if (typeof value === 'bigint') {
+      return { type: 'integer', enum: [Number(value)] };
+    }
+    if (value === undefined || typeof value === 'symbol') {
+      // No JSON value is undefined or a symbol
+      return { not: {} };
+    }
+
     return {
-      type: typeof value as string,
+      type: typeof value,
       enum: [value],
     };
   }
@@ -263,8 +636,10 @@ export class ZodToJsonSchema {
   /**
    * Convert ZodRecord to JSON Schema
    */
-  private static convertRecord(def: any): JsonSchema {
-    const valueSchema = def.valueType ? ZodToJsonSchema.convertZodType(def.valueType._def) : {};
+  private static convertRecord(def: ZodRecordDef, context: ConversionContext): JsonSchema {
+    const valueSchema = def.valueType
+      ? ZodToJsonSchema.convertZodType(def.valueType._def, context)
+      : {};
 
     return {
       type: 'object',
@@ -276,30 +651,79 @@ export class ZodToJsonSchema {
    * Check if a Zod type is optional
    */
   private static isOptional(zodType: ZodType): boolean {
-    // Check if it's wrapped in ZodOptional or has a default
-    const def = zodType._def as any;
-    return def.typeName === 'ZodOptional' || def.typeName === 'ZodDefault';
+    // Optional, defaulted and wrapped-optional types (e.g. optional().describe()) accept undefined
+    const { typeName } = zodType._def as ZodDef;
+    if (
+      typeName === ZodFirstPartyTypeKind.ZodOptional ||
+      typeName === ZodFirstPartyTypeKind.ZodDefault
+    ) {
+      return true;
+    }
+    try {
+      return zodType.isOptional();
+    } catch {
+      return false;
+    }
   }
 
   /**
-   * Extract description from Zod type
+   * Name for a new $defs entry, from the property path where the schema first appears
    */
-  private static getDescription(zodType: ZodType): string | undefined {
-    // Try to get description from the schema
+  private static createDefinitionName(context: ConversionContext): string {
+    const key = [...context.path].reverse().find((segment) => !/^\d+$/.test(segment)) ??
+      'root';
+    const base = key
+      .split(/[^A-Za-z0-9]+/)
+      .filter(Boolean)
+      .map((part) => part[0]!.toUpperCase() + part.slice(1))
+      .join('') || 'Schema';
+
+    const reserved = new Set([...Object.keys(context.defs), ...context.lazyNames.values()]);
+    let name = base;
+    for (let suffix = 2; reserved.has(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    return name;
+  }
+
+  private static withPath<T>(context: ConversionContext, segment: string, convert: () => T): T {
+    context.path.push(segment);
     try {
-      const description = (zodType as any).description;
-      return typeof description === 'string' ? description : undefined;
-    } catch {
-      return undefined;
+      return convert();
+    } finally {
+      context.path.pop();
     }
   }
 
+  /**
+   * Make a default value JSON-safe (dates as ISO strings, bigints as numbers)
+   */
+  private static toJsonValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    if (typeof value === 'bigint') return Number(value);
+    if (value instanceof Set) return [...value].map(ZodToJsonSchema.toJsonValue);
+    if (Array.isArray(value)) return value.map(ZodToJsonSchema.toJsonValue);
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, ZodToJsonSchema.toJsonValue(item)]),
+      );
+    }
+    return value;
+  }
+
+  private static escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+
   /**
    * Convert with enhanced error handling
    */
-  static safeConvert(schema: ZodSchema): JsonSchema | { error: string } {
+  static safeConvert(
+    schema: ZodSchema,
+    options: ZodToJsonSchemaOptions = {},
+  ): JsonSchema | { error: string } {
     try {
-      return ZodToJsonSchema.convert(schema);
+      return ZodToJsonSchema.convert(schema, options);
     } catch (error) {
       return {
         error: `Failed to convert Zod schema: ${
@@ -312,8 +736,12 @@ export class ZodToJsonSchema {
   /**
    * Convert with fallback to basic object description
    */
-  static convertWithFallback(schema: ZodSchema, fallbackDescription?: string): JsonSchema {
-    const result = ZodToJsonSchema.safeConvert(schema);
+  static convertWithFallback(
+    schema: ZodSchema,
+    fallbackDescription?: string,
+    options: ZodToJsonSchemaOptions = {},
+  ): JsonSchema {
+    const result = ZodToJsonSchema.safeConvert(schema, options);
 
     if ('error' in result) {
       console.warn('ZodToJsonSchema conversion failed:', result.error);
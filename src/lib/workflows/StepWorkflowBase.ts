@@ -0,0 +1,371 @@
+/**
+ * StepWorkflowBase - Declarative multi-step workflows
+ *
+ * Instead of implementing executeWorkflow, a workflow lists its steps. Each step
+ * names the earlier outputs it reads and the output it produces, and may have a
+ * `when` condition and a `compensate` handler. Parallel groups run their steps
+ * concurrently. Steps run through safeExecute, so retries, tracing and the
+ * completed_steps/failed_steps of the result work as for imperative workflows.
+ *
+ * Step outputs are checkpointed in KV after every successful step, keyed by the
+ * run's requestId. Running the workflow again with the same requestId and
+ * parameters skips the steps that already completed. A run that fails with a
+ * recoverable error, times out or is cancelled keeps its checkpoint; any other
+ * failure runs the compensate handlers of the completed steps in reverse order
+ * and discards it.
+ */
+
+import { WorkflowBase } from './WorkflowBase.ts';
+import { WorkflowCheckpointStore } from '../storage/WorkflowCheckpointStore.ts';
+import { toError } from '../utils/Error.ts';
+import type {
+  FailedStep,
+  WorkflowCheckpoint,
+  WorkflowContext,
+  WorkflowParallelStepDefinition,
+  WorkflowResult,
+  WorkflowStepDefinition,
+  WorkflowStepNode,
+  WorkflowStepState,
+} from '../types/WorkflowTypes.ts';
+
+/**
+ * State of one execution of the step list
+ */
+interface StepRun {
+  runId: string;
+  parametersHash: string;
+  state: WorkflowStepState;
+  /** Names of the completed steps, in completion order */
+  completed: string[];
+  resumed: string[];
+  skipped: string[];
+  createdAt: string;
+  // Checkpoint writes are chained so parallel steps cannot overwrite a newer checkpoint
+  writes: Promise<void>;
+}
+
+/**
+ * Abstract base class for workflows defined as a list of steps
+ */
+export abstract class StepWorkflowBase extends WorkflowBase {
+  // Steps in execution order; parallel groups run their steps concurrently
+  abstract readonly steps: WorkflowStepNode[];
+  // Checkpoints let a resumed background job skip the steps it already completed
+  override readonly resumable: boolean = true;
+
+  private checkpointStore: WorkflowCheckpointStore | undefined;
+  private stepsValidated = false;
+
+  protected async executeWorkflow(
+    params: unknown,
+    context: WorkflowContext,
+  ): Promise<WorkflowResult> {
+    this.validateSteps();
+    const run = await this.startRun(params, context);
+
+    let failure: FailedStep | undefined;
+    for (const node of this.steps) {
+      failure = isParallelStep(node)
+        ? await this.runParallelStep(node, run, context)
+        : await this.runStep(node, run, context);
+      if (failure) break;
+    }
+    await run.writes;
+
+    const metadata: Record<string, unknown> = {
+      run_id: run.runId,
+      ...(run.resumed.length > 0 && { resumed_steps: run.resumed }),
+      ...(run.skipped.length > 0 && { skipped_steps: run.skipped }),
+    };
+
+    if (!failure) {
+      await this.deleteCheckpoint(run);
+      return {
+        success: true,
+        data: this.createOutput(run.state),
+        completed_steps: [...this.completedSteps],
+        failed_steps: [...this.failedSteps],
+        metadata,
+      };
+    }
+
+    const resumable = failure.error_type === 'timeout' ||
+      failure.error_type === 'user_cancelled' || failure.recoverable === true;
+    if (resumable) {
+      this.logWarn('Workflow step failed, keeping checkpoint', {
+        step: failure.operation,
+        run_id: run.runId,
+        completed_steps: run.completed.length,
+      }, context);
+      metadata.checkpoint = { resumable: true, completed: [...run.completed] };
+    } else {
+      metadata.compensated_steps = await this.compensate(run, context);
+      await this.deleteCheckpoint(run);
+    }
+
+    return {
+      success: false,
+      error: {
+        type: failure.error_type,
+        message: `Step '${failure.operation}' failed: ${failure.message}`,
+        details: failure.details,
+        code: failure.code,
+        stack: undefined,
+        recoverable: resumable,
+      },
+      completed_steps: [...this.completedSteps],
+      failed_steps: [...this.failedSteps],
+      metadata,
+    };
+  }
+
+  /**
+   * Build the workflow result data from the step outputs (default: all outputs)
+   */
+  protected createOutput(state: WorkflowStepState): unknown {
+    return state.outputs;
+  }
+
+  /**
+   * Run one step unless it already completed or its condition is false
+   * Returns the failed step when the step fails
+   */
+  private async runStep(
+    step: WorkflowStepDefinition,
+    run: StepRun,
+    context: WorkflowContext,
+  ): Promise<FailedStep | undefined> {
+    if (run.completed.includes(step.name)) return undefined;
+    if (step.when && !step.when(run.state)) {
+      run.skipped.push(step.name);
+      return undefined;
+    }
+
+    const inputs = Object.fromEntries(
+      (step.inputs ?? []).map((input) => [input, run.state.outputs[input]]),
+    );
+    const result = await this.safeExecute(
+      step.name,
+      () =>
+        step.run({
+          params: run.state.params,
+          outputs: { ...run.state.outputs },
+          inputs,
+          context,
+          signal: context.signal,
+        }),
+      step.resourceType,
+    );
+    if (!result.success) {
+      return result.error;
+    }
+
+    run.state.outputs[step.output ?? step.name] = result.data;
+    run.completed.push(step.name);
+    this.saveCheckpoint(run);
+    return undefined;
+  }
+
+  /**
+   * Run the steps of a parallel group concurrently
+   * Every step runs to completion, so the successful ones are checkpointed even if another fails
+   */
+  private async runParallelStep(
+    group: WorkflowParallelStepDefinition,
+    run: StepRun,
+    context: WorkflowContext,
+  ): Promise<FailedStep | undefined> {
+    if (group.parallel.every((step) => run.completed.includes(step.name))) return undefined;
+    if (group.when && !group.when(run.state)) {
+      run.skipped.push(group.name);
+      return undefined;
+    }
+
+    const failures = await Promise.all(
+      group.parallel.map((step) => this.runStep(step, run, context)),
+    );
+    return failures.find((failure) => failure !== undefined);
+  }
+
+  /**
+   * Run the compensate handlers of the completed steps, most recent first
+   * Returns the names of the steps that were compensated
+   */
+  private async compensate(run: StepRun, context: WorkflowContext): Promise<string[]> {
+    const compensated: string[] = [];
+    const definitions = new Map(this.getStepDefinitions().map((step) => [step.name, step]));
+
+    for (const name of [...run.completed].reverse()) {
+      const step = definitions.get(name);
+      if (!step?.compensate) continue;
+
+      try {
+        await step.compensate(run.state.outputs[step.output ?? step.name], run.state);
+        compensated.push(name);
+      } catch (error) {
+        const compensationError = toError(error);
+        this.logError('Step compensation failed', compensationError, { step: name }, context);
+        this.failedSteps.push({
+          operation: `${name}.compensate`,
+          error_type: this.classifyError(compensationError),
+          message: compensationError.message,
+          details: compensationError.stack || 'No details available',
+          recoverable: false,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    this.logInfo('Compensated completed steps', { run_id: run.runId, compensated }, context);
+    return compensated;
+  }
+
+  /**
+   * Create the run state, restoring the checkpoint of an earlier run with the same requestId
+   */
+  private async startRun(params: unknown, context: WorkflowContext): Promise<StepRun> {
+    const run: StepRun = {
+      runId: context.requestId,
+      parametersHash: await this.hashParameters(params),
+      state: { params, outputs: {} },
+      completed: [],
+      resumed: [],
+      skipped: [],
+      createdAt: new Date().toISOString(),
+      writes: Promise.resolve(),
+    };
+
+    const checkpoint = await this.getCheckpointStore()?.getCheckpoint(this.name, run.runId);
+    if (!checkpoint) return run;
+
+    if (checkpoint.parametersHash !== run.parametersHash) {
+      this.logWarn('Ignoring checkpoint saved with different parameters', {
+        run_id: run.runId,
+      }, context);
+      return run;
+    }
+
+    run.state.outputs = { ...checkpoint.outputs };
+    run.completed = [...checkpoint.completed];
+    run.resumed = [...checkpoint.completed];
+    run.createdAt = checkpoint.createdAt;
+    this.completedSteps.push(...checkpoint.steps);
+    this.logInfo('Resuming workflow from checkpoint', {
+      run_id: run.runId,
+      completed_steps: checkpoint.completed,
+    }, context);
+    return run;
+  }
+
+  /**
+   * Queue a checkpoint write with the outputs of the steps completed so far
+   */
+  private saveCheckpoint(run: StepRun): void {
+    const store = this.getCheckpointStore();
+    if (!store) return;
+
+    const checkpoint: WorkflowCheckpoint = {
+      workflowName: this.name,
+      runId: run.runId,
+      parametersHash: run.parametersHash,
+      outputs: { ...run.state.outputs },
+      completed: [...run.completed],
+      steps: this.completedSteps.filter((step) => run.completed.includes(step.operation)),
+      createdAt: run.createdAt,
+      updatedAt: new Date().toISOString(),
+    };
+    run.writes = run.writes
+      .then(() => store.saveCheckpoint(checkpoint))
+      .catch((error) =>
+        this.logWarn('Failed to save workflow checkpoint', {
+          run_id: run.runId,
+          error: toError(error).message,
+        })
+      );
+  }
+
+  private async deleteCheckpoint(run: StepRun): Promise<void> {
+    try {
+      await this.getCheckpointStore()?.deleteCheckpoint(this.name, run.runId);
+    } catch (error) {
+      this.logWarn('Failed to delete workflow checkpoint', {
+        run_id: run.runId,
+        error: toError(error).message,
+      });
+    }
+  }
+
+  private getCheckpointStore(): WorkflowCheckpointStore | undefined {
+    if (!this.checkpointStore && this._kvManager) {
+      this.checkpointStore = new WorkflowCheckpointStore(this._kvManager, {}, this.logger);
+    }
+    return this.checkpointStore;
+  }
+
+  /**
+   * SHA-256 of the parameters, so a checkpoint is only reused for the same input
+   */
+  private async hashParameters(params: unknown): Promise<string> {
+    const digest = await crypto.subtle.digest(
+      'SHA-256',
+      new TextEncoder().encode(JSON.stringify(params ?? null)),
+    );
+    return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join(
+      '',
+    );
+  }
+
+  /**
+   * All single steps, including those inside parallel groups
+   */
+  private getStepDefinitions(): WorkflowStepDefinition[] {
+    return this.steps.flatMap((node) => isParallelStep(node) ? node.parallel : [node]);
+  }
+
+  /**
+   * Check that step names and outputs are unique and that steps only read outputs of earlier steps
+   */
+  private validateSteps(): void {
+    if (this.stepsValidated) return;
+
+    const names = new Set<string>();
+    const available = new Set<string>();
+    const addName = (name: string) => {
+      if (names.has(name)) {
+        throw new Error(`Workflow '${this.name}' has more than one step named '${name}'`);
+      }
+      names.add(name);
+    };
+
+    for (const node of this.steps) {
+      const steps = isParallelStep(node) ? node.parallel : [node];
+      if (isParallelStep(node)) addName(node.name);
+
+      // Steps of a parallel group cannot read each other's outputs
+      for (const step of steps) {
+        addName(step.name);
+        for (const input of step.inputs ?? []) {
+          if (!available.has(input)) {
+            throw new Error(
+              `Workflow '${this.name}' step '${step.name}' reads '${input}', which no earlier step outputs`,
+            );
+          }
+        }
+      }
+      for (const step of steps) {
+        const output = step.output ?? step.name;
+        if (available.has(output)) {
+          throw new Error(`Workflow '${this.name}' has more than one step with output '${output}'`);
+        }
+        available.add(output);
+      }
+    }
+
+    this.stepsValidated = true;
+  }
+}
+
+function isParallelStep(node: WorkflowStepNode): node is WorkflowParallelStepDefinition {
+  return 'parallel' in node;
+}
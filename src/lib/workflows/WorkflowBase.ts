@@ -6,10 +6,12 @@
  * - Performance monitoring
  */
 
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { z, type ZodSchema } from 'zod';
 import type { ConfigManager } from '../config/ConfigManager.ts';
 import type { Logger } from '../utils/Logger.ts';
 import { toError } from '../utils/Error.ts';
+import { Tracer } from '../utils/Tracer.ts';
 //import type { AuditLogger } from '../utils/AuditLogger.ts';
 import type { KVManager } from '../storage/KVManager.ts';
 //import type { ErrorHandler } from '../utils/ErrorHandler.ts';
@@ -18,6 +20,7 @@ import type {
   FailedStep,
   WorkflowContext,
   WorkflowError,
+  WorkflowExecutionOptions,
   WorkflowRegistration,
   WorkflowResource,
   WorkflowResult,
@@ -48,14 +51,26 @@ export interface WorkflowDependencies {
   kvManager: KVManager;
 }
 
+/**
+ * Timing, resources and steps of one execution
+ */
+interface WorkflowRun {
+  startTime?: number | undefined;
+  resources: WorkflowResource[];
+  completedSteps: WorkflowStep[];
+  failedSteps: FailedStep[];
+}
+
 /**
  * Abstract base class for all workflows
  *
  * Enhanced with Zod validation, better error handling, and integration
  */
 export abstract class WorkflowBase {
-  protected startTime?: number;
-  protected resources: WorkflowResource[] = [];
+  // One instance serves every call and background job, so each execution keeps its
+  // steps in its own async context; calls made outside an execution share idleRun
+  private runs = new AsyncLocalStorage<WorkflowRun>();
+  private idleRun: WorkflowRun = createRun();
 
   // Required workflow metadata
   abstract readonly name: string;
@@ -68,6 +83,9 @@ export abstract class WorkflowBase {
   readonly estimatedDuration?: number; // seconds
   readonly requiresAuth: boolean = true;
   readonly rateLimit?: RateLimitConfig;
+  readonly requiredScopes?: string[]; // OAuth scopes needed to execute (enforced by WorkflowTools)
+  readonly executionOptions?: WorkflowExecutionOptions; // default timeout and retries
+  readonly resumable?: boolean; // background jobs re-run from the start after a server restart
 
   // Zod schema for parameter validation
   abstract readonly parameterSchema: ZodSchema<any>;
@@ -109,6 +127,38 @@ export abstract class WorkflowBase {
     await this.initialized;
   }
 
+  private get currentRun(): WorkflowRun {
+    return this.runs.getStore() ?? this.idleRun;
+  }
+
+  protected get startTime(): number | undefined {
+    return this.currentRun.startTime;
+  }
+  protected set startTime(startTime: number | undefined) {
+    this.currentRun.startTime = startTime;
+  }
+
+  protected get resources(): WorkflowResource[] {
+    return this.currentRun.resources;
+  }
+  protected set resources(resources: WorkflowResource[]) {
+    this.currentRun.resources = resources;
+  }
+
+  protected get completedSteps(): WorkflowStep[] {
+    return this.currentRun.completedSteps;
+  }
+  protected set completedSteps(steps: WorkflowStep[]) {
+    this.currentRun.completedSteps = steps;
+  }
+
+  protected get failedSteps(): FailedStep[] {
+    return this.currentRun.failedSteps;
+  }
+  protected set failedSteps(steps: FailedStep[]) {
+    this.currentRun.failedSteps = steps;
+  }
+
   /**
    * Get workflow registration information
    */
@@ -143,12 +193,81 @@ export abstract class WorkflowBase {
 
   /**
    * Enhanced main execution with validation, logging, and error handling
+   *
+   * Execution options (merged over the workflow's executionOptions):
+   * - timeout: abort the run and return a partial result with the steps completed so far
+   * - retries/retryDelay: retry recoverable safeExecute() steps with exponential backoff
+   *
+   * context.signal (e.g. aborted by MCP notifications/cancelled) cancels the run the same way.
    */
-  async executeWithValidation(params: unknown, context: WorkflowContext): Promise<WorkflowResult> {
-    this.startTime = performance.now();
-    this.resources = [];
+  async executeWithValidation(
+    params: unknown,
+    context: WorkflowContext,
+    options?: WorkflowExecutionOptions,
+  ): Promise<WorkflowResult> {
+    return await Tracer.getInstance().startActiveSpan(`workflow ${this.name}`, {
+      attributes: {
+        'mcp.workflow.name': this.name,
+        'mcp.workflow.version': this.version,
+        'mcp.request_id': context.requestId,
+      },
+    }, async (span) => {
+      const result = await this.runWithValidation(params, context, options);
+      span.setAttributes({
+        'mcp.workflow.success': result.success,
+        'mcp.workflow.completed_steps': result.completed_steps.length,
+        'mcp.workflow.failed_steps': result.failed_steps.length,
+      });
+      if (!result.success) span.setStatus('error', result.error?.message);
+      return result;
+    });
+  }
+
+  private runWithValidation(
+    params: unknown,
+    context: WorkflowContext,
+    options?: WorkflowExecutionOptions,
+  ): Promise<WorkflowResult> {
+    const run = { ...createRun(), startTime: performance.now() };
+    return this.runs.run(run, () => this.executeRun(params, context, options));
+  }
+
+  private async executeRun(
+    params: unknown,
+    context: WorkflowContext,
+    options?: WorkflowExecutionOptions,
+  ): Promise<WorkflowResult> {
     await this.ensureInitialized();
 
+    const executionOptions: WorkflowExecutionOptions = {
+      ...this.executionOptions,
+      ...context.executionOptions,
+      ...options,
+    };
+
+    // Combine the caller's signal with the execution timeout
+    const controller = new AbortController();
+    const parentSignal = context.signal;
+    const onParentAbort = () => controller.abort(parentSignal?.reason);
+    if (parentSignal?.aborted) {
+      onParentAbort();
+    } else {
+      parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+    }
+    const timeoutId = executionOptions.timeout && executionOptions.timeout > 0
+      ? setTimeout(
+        () =>
+          controller.abort(
+            new DOMException(
+              `Workflow timed out after ${executionOptions.timeout}ms`,
+              'TimeoutError',
+            ),
+          ),
+        executionOptions.timeout,
+      )
+      : undefined;
+    context = { ...context, signal: controller.signal, executionOptions };
+
     try {
       // Log workflow start
       this.logInfo('Workflow starting', {
@@ -176,9 +295,14 @@ export abstract class WorkflowBase {
       await this.onBeforeExecute?.(validation.data!, context);
 
       // Execute workflow within AsyncLocalStorage context for concurrent execution safety
-      const result = await BeyondMcpServer.executeWithWorkflowContext(
+      const result = await this.raceWithSignal(
+        () =>
+          BeyondMcpServer.executeWithWorkflowContext(
+            context,
+            () => this.executeWorkflow(validation.data!, context),
+          ),
+        controller.signal,
         context,
-        () => this.executeWorkflow(validation.data!, context),
       );
 
       // Execute workflow
@@ -188,7 +312,7 @@ export abstract class WorkflowBase {
       await this.onAfterExecute?.(result, context);
 
       // Enhanced logging with performance data
-      const duration = performance.now() - this.startTime;
+      const duration = performance.now() - this.startTime!;
 
       this.logInfo('Workflow completed', {
         workflow: this.name,
@@ -209,11 +333,92 @@ export abstract class WorkflowBase {
       await this.onError?.(error as Error, context);
       return this.createExecutionErrorResult(error as Error);
     } finally {
+      clearTimeout(timeoutId);
+      parentSignal?.removeEventListener('abort', onParentAbort);
       // Audit log workflow execution
       await this.logWorkflowExecution(context);
     }
   }
 
+  /**
+   * Resolve with the workflow result, or with a partial result once the signal aborts
+   * The workflow keeps the aborted signal in its context and should stop at its next step
+   */
+  private async raceWithSignal(
+    execute: () => Promise<WorkflowResult>,
+    signal: AbortSignal,
+    context: WorkflowContext,
+  ): Promise<WorkflowResult> {
+    if (signal.aborted) {
+      return this.createInterruptedResult(signal.reason, context);
+    }
+
+    const execution = execute();
+    let onAbort: (() => void) | undefined;
+    // The listener runs in the async context of whoever aborts, so the partial result
+    // is built after the race, back in this execution's context
+    const aborted = new Promise<undefined>((resolve) => {
+      onAbort = () => resolve(undefined);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([execution, aborted]) ??
+        this.createInterruptedResult(signal.reason, context);
+    } finally {
+      if (onAbort) signal.removeEventListener('abort', onAbort);
+      if (signal.aborted) {
+        // A workflow that ignores the signal may still reject after the partial result is returned
+        execution.catch((error) =>
+          this.logDebug('Interrupted workflow failed', { error: toError(error).message }, context)
+        );
+      }
+    }
+  }
+
+  /**
+   * Create a partial result for a timed out or cancelled execution
+   */
+  protected createInterruptedResult(reason: unknown, context: WorkflowContext): WorkflowResult {
+    const timedOut = this.isTimeoutReason(reason);
+    const errorType: WorkflowError['type'] = timedOut ? 'timeout' : 'user_cancelled';
+    const message = timedOut
+      ? toError(reason).message
+      : `Workflow cancelled${reason instanceof Error ? `: ${reason.message}` : ''}`;
+
+    this.logWarn(timedOut ? 'Workflow timed out' : 'Workflow cancelled', {
+      completed_steps: this.completedSteps.length,
+      timeout_ms: context.executionOptions?.timeout,
+    }, context);
+
+    return {
+      success: false,
+      error: {
+        type: errorType,
+        message,
+        details: undefined,
+        code: undefined,
+        stack: undefined,
+        recoverable: timedOut,
+      },
+      completed_steps: [...this.completedSteps],
+      failed_steps: [
+        ...this.failedSteps,
+        {
+          operation: this.name,
+          error_type: errorType,
+          message,
+          recoverable: timedOut,
+          timestamp: new Date().toISOString(),
+        },
+      ],
+      metadata: {
+        partial: true,
+        ...(timedOut && { timeout_ms: context.executionOptions?.timeout }),
+      },
+    };
+  }
+
   /**
    * Enhanced parameter validation with Zod
    */
@@ -276,48 +481,114 @@ export abstract class WorkflowBase {
 
   /**
    * Safe execution wrapper with resource tracking
+   *
+   * Recoverable failures are retried with exponential backoff when the execution
+   * options allow retries. Completed and failed steps are recorded so a timed out or
+   * cancelled run can report its progress.
    */
   protected async safeExecute<T>(
     operationName: string,
     operation: () => Promise<T>,
     resourceType: WorkflowResource['type'] = 'api_call',
   ): Promise<{ success: boolean; data?: T; error?: FailedStep }> {
-    const startTime = performance.now();
     await this.ensureInitialized();
 
-    try {
-      const data = await operation();
+    const context = BeyondMcpServer.getCurrentWorkflowContext();
+    const signal = context?.signal;
+    const maxRetries = Math.max(context?.executionOptions?.retries ?? 0, 0);
+    const retryDelay = context?.executionOptions?.retryDelay ?? 1000;
 
-      // Track successful resource usage
-      this.trackResource(resourceType, operationName, startTime, 'success');
+    for (let attempt = 1;; attempt++) {
+      if (signal?.aborted) {
+        const failedStep = this.createFailedStep(operationName, signal.reason, attempt - 1);
+        failedStep.error_type = this.isTimeoutReason(signal.reason) ? 'timeout' : 'user_cancelled';
+        return { success: false, error: failedStep };
+      }
 
-      return {
-        success: true,
-        data,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const startTime = performance.now();
+      try {
+        const data = await Tracer.getInstance().startActiveSpan(`workflow.step ${operationName}`, {
+          attributes: {
+            'mcp.workflow.step': operationName,
+            'mcp.workflow.step.attempt': attempt,
+          },
+        }, operation);
+
+        // Track successful resource usage
+        this.trackResource(resourceType, operationName, startTime, 'success');
+        this.completedSteps.push(this.createStepResult(operationName, true, undefined, startTime));
+
+        return {
+          success: true,
+          data,
+        };
+      } catch (error) {
+        const failedStep = this.createFailedStep(operationName, error, attempt);
 
-      // Track failed resource usage
-      this.trackResource(resourceType, operationName, startTime, 'failure', {
-        error: errorMessage,
-      });
+        // Track failed resource usage
+        this.trackResource(resourceType, operationName, startTime, 'failure', {
+          error: failedStep.message,
+          attempt,
+        });
 
-      const failedStep: FailedStep = {
-        operation: operationName,
-        error_type: this.classifyError(error),
-        message: errorMessage,
-        details: (error instanceof Error ? error.stack : undefined) || 'No details available',
-        timestamp: new Date().toISOString(),
-      };
+        if (failedStep.recoverable && attempt <= maxRetries && !signal?.aborted) {
+          const delay = retryDelay * 2 ** (attempt - 1);
+          this.logWarn('Retrying recoverable step', {
+            operation: operationName,
+            attempt,
+            maxRetries,
+            delay_ms: delay,
+            error: failedStep.message,
+          }, context);
+          await this.waitForRetry(delay, signal);
+          continue;
+        }
 
-      return {
-        success: false,
-        error: failedStep,
-      };
+        this.failedSteps.push(failedStep);
+        return {
+          success: false,
+          error: failedStep,
+        };
+      }
     }
   }
 
+  /**
+   * Build a failed step entry for an operation error
+   */
+  private createFailedStep(operationName: string, error: unknown, attempts: number): FailedStep {
+    return {
+      operation: operationName,
+      error_type: this.classifyError(error),
+      message: error instanceof Error ? error.message : 'Unknown error',
+      details: (error instanceof Error ? error.stack : undefined) || 'No details available',
+      recoverable: this.isRecoverableError(error),
+      attempts,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
+  /**
+   * Wait before a retry, returning early when the execution is aborted
+   */
+  private waitForRetry(delayMs: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        resolve();
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, delayMs);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private isTimeoutReason(reason: unknown): boolean {
+    return reason instanceof DOMException && reason.name === 'TimeoutError';
+  }
+
   protected async createMessage(
     request: CreateMessageRequest,
     options: { sessionId?: string; meta?: Record<string, unknown> },
@@ -445,6 +716,12 @@ export abstract class WorkflowBase {
     request: SendNotificationProgressRequest,
     options: { sessionId?: string; meta?: Record<string, unknown> },
   ): Promise<void> {
+    // Background jobs keep the latest progress so it can be polled
+    BeyondMcpServer.getCurrentWorkflowContext()?.onProgress?.({
+      progress: request.progress,
+      ...(request.message && { message: request.message }),
+    });
+
     const beyondMcpServer = BeyondMcpServer.getInstance();
     if (!beyondMcpServer) {
       this.logError('Cannot send progress - no beyondMcpServer');
@@ -791,8 +1068,12 @@ export abstract class WorkflowBase {
   }
 
   protected checkRateLimit(): boolean {
-    // TODO: Implement rate limiting check
-    // This would integrate with RateLimitManager
+    // Rate limits are enforced by WorkflowTools (RateLimitStore) before execution;
+    // override for additional workflow-specific checks
     return true;
   }
 }
+
+function createRun(): WorkflowRun {
+  return { resources: [], completedSteps: [], failedSteps: [] };
+}
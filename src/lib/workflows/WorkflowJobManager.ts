@@ -0,0 +1,431 @@
+/**
+ * Workflow Job Manager - Background workflow execution
+ *
+ * Runs workflows outside the tools/call request that started them, so long
+ * workflows do not hold the request open until the client times out. Each job
+ * is recorded in the WorkflowJobStore as it starts, reports progress and
+ * finishes, and can be polled or cancelled by job ID.
+ *
+ * Several server instances can share one job store. Each running job records
+ * the instance that owns it and a lease the owner renews on a heartbeat, and a
+ * clean shutdown releases the lease. Unfinished jobs whose lease has lapsed were
+ * cut off by a restart or crash: workflows that declare `resumable` are started
+ * again from the beginning, the others are marked interrupted.
+ */
+
+import type { Logger } from '../utils/Logger.ts';
+import type { AuditLogger } from '../utils/AuditLogger.ts';
+import type { WorkflowRegistry } from './WorkflowRegistry.ts';
+import type { WorkflowJobStore } from '../storage/WorkflowJobStore.ts';
+import type {
+  WorkflowContext,
+  WorkflowExecutionOptions,
+  WorkflowJob,
+  WorkflowJobStatus,
+  WorkflowResult,
+} from '../types/WorkflowTypes.ts';
+import { BeyondMcpServer } from '../server/BeyondMcpServer.ts';
+import { toError } from '../utils/Error.ts';
+
+export interface WorkflowJobManagerDependencies {
+  workflowRegistry: WorkflowRegistry;
+  jobStore: WorkflowJobStore;
+  logger: Logger;
+  auditLogger?: AuditLogger;
+}
+
+export interface WorkflowJobManagerConfig {
+  /** Starts allowed per job, including resumes after restarts (default: 3) */
+  maxAttempts?: number;
+  /** Identifies this instance in job records (default: a random UUID) */
+  instanceId?: string;
+  /** How long a job stays leased without a heartbeat, in milliseconds (default: 60000) */
+  leaseMs?: number;
+}
+
+/**
+ * Workflow and caller of a new background job
+ */
+export interface WorkflowJobRequest {
+  workflowName: string;
+  parameters: Record<string, unknown>;
+  options?: WorkflowExecutionOptions | undefined;
+  userId: string;
+  requestId: string;
+  authenticatedUserId?: string | undefined;
+  clientId?: string | undefined;
+  scopes?: string[] | undefined;
+  sessionId?: string | undefined;
+  requestMetadata?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Job running in this process
+ */
+interface RunningJob {
+  job: WorkflowJob;
+  controller: AbortController;
+  done: Promise<void>;
+  // Record writes are chained so a late progress update cannot overwrite the final state
+  writes: Promise<void>;
+}
+
+const ACTIVE_STATUSES: WorkflowJobStatus[] = ['queued', 'running'];
+const DEFAULT_LEASE_MS = 60 * 1000;
+
+/**
+ * Runs workflows as background jobs and keeps their records up to date
+ */
+export class WorkflowJobManager {
+  private workflowRegistry: WorkflowRegistry;
+  private jobStore: WorkflowJobStore;
+  private logger: Logger;
+  private auditLogger: AuditLogger | undefined;
+  private maxAttempts: number;
+  private instanceId: string;
+  private leaseMs: number;
+  private running = new Map<string, RunningJob>();
+  private heartbeat: ReturnType<typeof setInterval> | undefined;
+  private stopping = false;
+
+  constructor(dependencies: WorkflowJobManagerDependencies, config: WorkflowJobManagerConfig = {}) {
+    this.workflowRegistry = dependencies.workflowRegistry;
+    this.jobStore = dependencies.jobStore;
+    this.logger = dependencies.logger;
+    this.auditLogger = dependencies.auditLogger;
+    this.maxAttempts = config.maxAttempts ?? 3;
+    this.instanceId = config.instanceId ?? crypto.randomUUID();
+    this.leaseMs = config.leaseMs ?? DEFAULT_LEASE_MS;
+  }
+
+  /**
+   * Record a new job and start it in the background
+   * Resolves once the job is stored, without waiting for the workflow
+   */
+  async startJob(request: WorkflowJobRequest): Promise<WorkflowJob> {
+    if (this.stopping) {
+      throw new Error('Workflow jobs cannot be started while the server is shutting down');
+    }
+    if (!this.workflowRegistry.getWorkflow(request.workflowName)) {
+      throw new Error(`Workflow '${request.workflowName}' not found`);
+    }
+
+    const now = new Date().toISOString();
+    const job: WorkflowJob = {
+      id: crypto.randomUUID(),
+      workflowName: request.workflowName,
+      status: 'queued',
+      parameters: request.parameters,
+      ...(request.options && { options: request.options }),
+      userId: request.userId,
+      requestId: request.requestId,
+      ...(request.authenticatedUserId && { authenticatedUserId: request.authenticatedUserId }),
+      ...(request.clientId && { clientId: request.clientId }),
+      ...(request.scopes && { scopes: request.scopes }),
+      ...(request.sessionId && { sessionId: request.sessionId }),
+      ...(request.requestMetadata && { requestMetadata: request.requestMetadata }),
+      attempts: 0,
+      ownerId: this.instanceId,
+      leaseExpiresAt: this.leaseExpiry(),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.jobStore.saveJob(job);
+    this.logger.info('WorkflowJobManager: Workflow job queued', {
+      jobId: job.id,
+      workflowName: job.workflowName,
+      userId: job.userId,
+    });
+
+    this.run(job);
+    return { ...job };
+  }
+
+  /**
+   * Get a job, including the latest progress of jobs running in this process
+   */
+  async getJob(jobId: string): Promise<WorkflowJob | undefined> {
+    const running = this.running.get(jobId);
+    if (running) {
+      return { ...running.job };
+    }
+    return await this.jobStore.getJob(jobId);
+  }
+
+  /**
+   * Cancel a queued or running job
+   *
+   * A job running in this process is aborted and keeps the partial result of the
+   * steps it completed. Finished jobs, and jobs another instance holds a lease on,
+   * are returned unchanged.
+   */
+  async cancelJob(jobId: string): Promise<WorkflowJob | undefined> {
+    const running = this.running.get(jobId);
+    if (running) {
+      running.controller.abort(new DOMException('Workflow job cancelled', 'AbortError'));
+      await running.done;
+      return await this.jobStore.getJob(jobId);
+    }
+
+    const job = await this.jobStore.getJob(jobId);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) {
+      return job;
+    }
+
+    // Not running here - left over from a stopped server that has not recovered it yet
+    const claimed = await this.jobStore.claimJob(jobId, this.instanceId, this.leaseExpiry());
+    if (!claimed) {
+      this.logger.info('WorkflowJobManager: Workflow job is held by another instance', {
+        jobId,
+        ownerId: job.ownerId,
+      });
+      return await this.jobStore.getJob(jobId);
+    }
+
+    const now = new Date().toISOString();
+    const cancelled: WorkflowJob = {
+      ...claimed,
+      status: 'cancelled',
+      updatedAt: now,
+      completedAt: now,
+    };
+    await this.jobStore.saveJob(cancelled);
+    return cancelled;
+  }
+
+  /**
+   * Resume or mark interrupted the unfinished jobs whose lease has lapsed
+   * Jobs another instance is still running are left alone.
+   * Call once at startup, after the workflows are registered
+   */
+  async recoverJobs(): Promise<{ resumed: number; interrupted: number }> {
+    const jobs = await this.jobStore.listJobs(ACTIVE_STATUSES);
+    let resumed = 0;
+    let interrupted = 0;
+
+    for (const listed of jobs) {
+      if (this.running.has(listed.id)) continue;
+
+      const job = await this.jobStore.claimJob(listed.id, this.instanceId, this.leaseExpiry());
+      if (!job) continue;
+
+      const workflow = this.workflowRegistry.getWorkflow(job.workflowName);
+      if (workflow?.resumable && job.attempts < this.maxAttempts && !this.stopping) {
+        // The request that started the job is gone, so its progress token is too
+        const { progress: _progress, requestMetadata, ...rest } = job;
+        const { progressToken: _progressToken, ...metadata } = requestMetadata ?? {};
+        this.run({ ...rest, status: 'queued', requestMetadata: metadata });
+        resumed++;
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      await this.jobStore.saveJob({
+        ...job,
+        status: 'interrupted',
+        updatedAt: now,
+        completedAt: now,
+      });
+      interrupted++;
+    }
+
+    if (resumed + interrupted > 0) {
+      this.logger.info('WorkflowJobManager: Recovered unfinished workflow jobs', {
+        resumed,
+        interrupted,
+      });
+      await this.auditLogger?.logSystemEvent({
+        event: 'workflow_jobs_recovered',
+        severity: interrupted > 0 ? 'warn' : 'info',
+        details: { resumed, interrupted },
+      });
+    }
+
+    return { resumed, interrupted };
+  }
+
+  /**
+   * Stop the jobs running in this process
+   * Their records stay running with a released lease, so the next start resumes them
+   * or marks them interrupted
+   */
+  async shutdown(): Promise<void> {
+    this.stopping = true;
+    // Jobs release their leases as they stop, so stop renewing them first
+    this.stopHeartbeat();
+    const running = [...this.running.values()];
+    for (const entry of running) {
+      entry.controller.abort(new DOMException('Server shutting down', 'AbortError'));
+    }
+    await Promise.allSettled(running.map((entry) => entry.done));
+  }
+
+  private run(job: WorkflowJob): void {
+    const entry: RunningJob = {
+      job,
+      controller: new AbortController(),
+      done: Promise.resolve(),
+      writes: Promise.resolve(),
+    };
+    this.running.set(job.id, entry);
+    this.startHeartbeat();
+    entry.done = this.execute(entry).finally(() => {
+      this.running.delete(job.id);
+      if (this.running.size === 0) this.stopHeartbeat();
+    });
+  }
+
+  private async execute(entry: RunningJob): Promise<void> {
+    const { job } = entry;
+    const startTime = new Date();
+    this.update(entry, {
+      status: 'running',
+      attempts: job.attempts + 1,
+      ownerId: this.instanceId,
+      leaseExpiresAt: this.leaseExpiry(),
+      startedAt: startTime.toISOString(),
+    });
+
+    const context: WorkflowContext = {
+      userId: job.userId,
+      requestId: job.requestId,
+      workflowName: job.workflowName,
+      startTime,
+      // WorkflowBase skips audit logging when no audit logger is configured
+      auditLogger: this.auditLogger!,
+      logger: this.logger,
+      kvManager: undefined,
+      thirdPartyClient: undefined,
+      parameterUserId: typeof job.parameters.userId === 'string'
+        ? job.parameters.userId
+        : undefined,
+      _meta: job.requestMetadata ?? {},
+      requestMetadata: { ...job.requestMetadata, jobId: job.id },
+      authenticatedUserId: job.authenticatedUserId,
+      clientId: job.clientId,
+      scopes: job.scopes,
+      signal: entry.controller.signal,
+      onProgress: (progress) =>
+        this.update(entry, { progress: { ...progress, updatedAt: new Date().toISOString() } }),
+    };
+
+    let result: WorkflowResult;
+    const workflow = this.workflowRegistry.getWorkflow(job.workflowName);
+    if (!workflow) {
+      result = this.createFailedResult(`Workflow '${job.workflowName}' is no longer registered`);
+    } else {
+      try {
+        result = await workflow.executeWithValidation(job.parameters, context, job.options);
+        this.workflowRegistry.recordExecution(job.workflowName, result);
+      } catch (error) {
+        this.logger.error('WorkflowJobManager: Workflow job failed', toError(error), {
+          jobId: job.id,
+        });
+        result = this.createFailedResult(toError(error).message);
+      }
+    }
+
+    if (this.stopping) {
+      this.update(entry, { leaseExpiresAt: new Date().toISOString() });
+      await entry.writes;
+      return;
+    }
+
+    const status: WorkflowJobStatus = result.success
+      ? 'completed'
+      : result.error?.type === 'user_cancelled'
+      ? 'cancelled'
+      : 'failed';
+    this.update(entry, { status, result, completedAt: new Date().toISOString() });
+    await entry.writes;
+
+    this.logger.info('WorkflowJobManager: Workflow job finished', {
+      jobId: job.id,
+      workflowName: job.workflowName,
+      status,
+    });
+    await this.notifyProgress(job, `Workflow job ${status}`);
+  }
+
+  /**
+   * Apply changes to a running job and queue the record write
+   */
+  private update(entry: RunningJob, changes: Partial<WorkflowJob>): void {
+    Object.assign(entry.job, changes, { updatedAt: new Date().toISOString() });
+    const snapshot = { ...entry.job };
+    entry.writes = entry.writes
+      .then(() => this.jobStore.saveJob(snapshot))
+      .catch((error) =>
+        this.logger.warn('WorkflowJobManager: Failed to update workflow job', {
+          jobId: snapshot.id,
+          error: toError(error).message,
+        })
+      );
+  }
+
+  /**
+   * Renew the leases of the jobs running in this process while any are running
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeat !== undefined) return;
+    this.heartbeat = setInterval(() => {
+      for (const entry of this.running.values()) {
+        if (entry.job.status === 'running') {
+          this.update(entry, { leaseExpiresAt: this.leaseExpiry() });
+        }
+      }
+    }, Math.max(1, Math.floor(this.leaseMs / 3)));
+  }
+
+  private stopHeartbeat(): void {
+    clearInterval(this.heartbeat);
+    this.heartbeat = undefined;
+  }
+
+  private leaseExpiry(): string {
+    return new Date(Date.now() + this.leaseMs).toISOString();
+  }
+
+  /**
+   * Send a final progress notification to the client that started the job, if it asked for progress
+   */
+  private async notifyProgress(job: WorkflowJob, message: string): Promise<void> {
+    const progressToken = job.requestMetadata?.progressToken;
+    const beyondMcpServer = BeyondMcpServer.getInstance();
+    if (
+      (typeof progressToken !== 'string' && typeof progressToken !== 'number') || !beyondMcpServer
+    ) {
+      return;
+    }
+
+    try {
+      await beyondMcpServer.sendNotificationProgress(
+        { progress: 100, progressToken, message, details: { jobId: job.id } },
+        { ...(job.sessionId && { sessionId: job.sessionId }) },
+      );
+    } catch (error) {
+      this.logger.debug('WorkflowJobManager: Could not send job progress notification', {
+        jobId: job.id,
+        error: toError(error).message,
+      });
+    }
+  }
+
+  private createFailedResult(message: string): WorkflowResult {
+    return {
+      success: false,
+      error: {
+        type: 'system_error',
+        message,
+        details: undefined,
+        code: undefined,
+        stack: undefined,
+        recoverable: false,
+      },
+      completed_steps: [],
+      failed_steps: [],
+      metadata: {},
+    };
+  }
+}
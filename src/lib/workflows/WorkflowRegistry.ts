@@ -14,8 +14,10 @@ import type {
   WorkflowMetrics,
   WorkflowRegistration,
   WorkflowRegistryConfig,
+  WorkflowResult,
 } from '../types/WorkflowTypes.ts';
 import type { PluginCategory } from '../types/PluginTypes.ts';
+import { MCP_METRICS, MetricsRegistry } from '../utils/MetricsRegistry.ts';
 
 import { DEFAULT_PLUGIN_CATEGORIES } from '../types/PluginTypes.ts';
 
@@ -305,6 +307,28 @@ export class WorkflowRegistry {
     this.metrics.set(workflowName, metrics);
   }
 
+  /**
+   * Record a completed workflow execution in the registry and server metrics
+   */
+  recordExecution(workflowName: string, result: WorkflowResult): void {
+    const duration = result.duration ?? 0;
+    this.updateMetrics(workflowName, result.success, duration);
+
+    const outcome = result.success
+      ? 'success'
+      : result.error?.type === 'timeout'
+      ? 'timeout'
+      : result.error?.type === 'user_cancelled'
+      ? 'cancelled'
+      : 'failure';
+
+    const metrics = MetricsRegistry.getInstance();
+    metrics.incrementCounter(MCP_METRICS.workflowExecutions, { workflow: workflowName, outcome });
+    metrics.observeHistogram(MCP_METRICS.workflowDuration, duration / 1000, {
+      workflow: workflowName,
+    });
+  }
+
   /**
    * Get workflow metrics
    */
@@ -10,20 +10,95 @@
 // Storage exports
 export { KVManager } from './lib/storage/KVManager.ts';
 export { CredentialStore } from './lib/storage/CredentialStore.ts';
+export type {
+  CredentialMigrationResult,
+  CredentialStoreConfig,
+  EncryptedCredentialRecord,
+} from './lib/storage/CredentialStore.ts';
 export { SessionStore } from './lib/storage/SessionStore.ts';
+export { RateLimitStore } from './lib/storage/RateLimitStore.ts';
+export { AuditStore } from './lib/storage/AuditStore.ts';
+export { WorkflowJobStore } from './lib/storage/WorkflowJobStore.ts';
+export type { WorkflowJobStoreConfig } from './lib/storage/WorkflowJobStore.ts';
+export { WorkflowCheckpointStore } from './lib/storage/WorkflowCheckpointStore.ts';
+export type { WorkflowCheckpointStoreConfig } from './lib/storage/WorkflowCheckpointStore.ts';
+export type { AuditStoreConfig } from './lib/storage/AuditStore.ts';
+export type {
+  RateLimitIdentitySource,
+  RateLimitStoreConfig,
+} from './lib/storage/RateLimitStore.ts';
 export { TransportEventStore } from './lib/storage/TransportEventStore.ts';
 export { TransportEventStoreChunked } from './lib/storage/TransportEventStoreChunked.ts';
 export { TransportPersistenceStore } from './lib/storage/TransportPersistenceStore.ts';
+export { DenoKvStorageBackend } from './lib/storage/DenoKvStorageBackend.ts';
+export { MemoryStorageBackend } from './lib/storage/MemoryStorageBackend.ts';
+export { SqliteStorageBackend } from './lib/storage/SqliteStorageBackend.ts';
+export { RespError, RespStorageBackend } from './lib/storage/RespStorageBackend.ts';
+export type { RespStorageBackendOptions } from './lib/storage/RespStorageBackend.ts';
+export { STORAGE_BACKEND_TYPES } from './lib/storage/StorageBackend.ts';
+export type {
+  StorageAtomicCheck,
+  StorageAtomicOperation,
+  StorageBackend,
+  StorageBackendType,
+  StorageCommitResult,
+  StorageEntry,
+  StorageEntryMaybe,
+  StorageKey,
+  StorageKeyPart,
+  StorageListOptions,
+  StorageListSelector,
+  StorageSetOptions,
+} from './lib/storage/StorageBackend.ts';
 
 // Configuration exports
 export { ConfigManager } from './lib/config/ConfigManager.ts';
+export { AppConfigFileSchema } from './lib/config/ConfigSchema.ts';
 
 // Utility exports
-export { type LogFormat, Logger, type LogLevel } from './lib/utils/Logger.ts';
+export { type LogFormat, Logger, type LogLevel, type LogSink } from './lib/utils/Logger.ts';
 export { AuditLogger } from './lib/utils/AuditLogger.ts';
+export type {
+  AuditChainVerification,
+  AuditLogRecord,
+  AuditSearchOptions,
+  AuditStats,
+} from './lib/utils/AuditLogger.ts';
 export { ValidationHelpers } from './lib/utils/ValidationHelpers.ts';
 export { ErrorHandler } from './lib/utils/ErrorHandler.ts';
 export { errorMessage, errorName, isError, toError } from './lib/utils/Error.ts';
+export {
+  DEFAULT_LATENCY_BUCKETS,
+  MCP_METRICS,
+  MetricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+} from './lib/utils/MetricsRegistry.ts';
+export type {
+  MetricLabels,
+  MetricsCollectorCallback,
+  MetricType,
+} from './lib/utils/MetricsRegistry.ts';
+export { Span, TRACEPARENT_HEADER, Tracer } from './lib/utils/Tracer.ts';
+export type {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanContext,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanOptions,
+  SpanStatusCode,
+  TraceResource,
+  TracerOptions,
+} from './lib/utils/Tracer.ts';
+export {
+  ConsoleSpanExporter,
+  FileSpanExporter,
+  OtlpHttpSpanExporter,
+  toOtlpJson,
+} from './lib/utils/SpanExporters.ts';
+export type { OtlpHttpSpanExporterOptions } from './lib/utils/SpanExporters.ts';
 
 // API Client exports
 export { BaseApiClient } from './lib/clients/BaseApiClient.ts';
@@ -32,9 +107,18 @@ export { BaseApiClient } from './lib/clients/BaseApiClient.ts';
 export type { ToolContext, ToolResult } from './lib/tools/ToolBase.ts';
 export { ToolBase } from './lib/tools/ToolBase.ts';
 export { ToolRegistry } from './lib/tools/ToolRegistry.ts';
+export { ResourceRegistry } from './lib/resources/ResourceRegistry.ts';
+export { PromptRegistry } from './lib/prompts/PromptRegistry.ts';
 export { WorkflowBase, type WorkflowDependencies } from './lib/workflows/WorkflowBase.ts';
+export { StepWorkflowBase } from './lib/workflows/StepWorkflowBase.ts';
 export { WorkflowRegistry } from './lib/workflows/WorkflowRegistry.ts';
-export { PluginManager } from './lib/plugins/PluginManager.ts';
+export { WorkflowJobManager } from './lib/workflows/WorkflowJobManager.ts';
+export type {
+  WorkflowJobManagerConfig,
+  WorkflowJobManagerDependencies,
+  WorkflowJobRequest,
+} from './lib/workflows/WorkflowJobManager.ts';
+export { type PluginChangeListener, PluginManager } from './lib/plugins/PluginManager.ts';
 
 // Transport exports
 export { TransportManager } from './lib/transport/TransportManager.ts';
@@ -56,15 +140,38 @@ export { PKCEHandler } from './lib/auth/PKCEHandler.ts';
 export { ClientRegistry } from './lib/auth/ClientRegistry.ts';
 export { AuthorizationHandler } from './lib/auth/AuthorizationHandler.ts';
 export { OAuthMetadata } from './lib/auth/OAuthMetadata.ts';
+export {
+  CLIENT_ASSERTION_TYPE,
+  ClientAssertionValidator,
+} from './lib/auth/ClientAssertionValidator.ts';
+export { ScopeAuthorizer, WILDCARD_SCOPE } from './lib/auth/ScopeAuthorizer.ts';
+export type { InsufficientScopeInfo } from './lib/auth/ScopeAuthorizer.ts';
 
 // HTTP Server exports
 export { HttpServer } from './lib/server/HttpServer.ts';
 export { OAuthEndpoints } from './lib/server/OAuthEndpoints.ts';
 export { APIRouter } from './lib/server/APIRouter.ts';
 export { StatusEndpoints } from './lib/server/StatusEndpoints.ts';
+export { METRICS_SCHEMA_VERSION, MetricsCollector } from './lib/server/MetricsCollector.ts';
+export type { MetricsCollectorDependencies } from './lib/server/MetricsCollector.ts';
+export { MetricsEndpoint } from './lib/server/MetricsEndpoint.ts';
+export type { MetricsEndpointDependencies } from './lib/server/MetricsEndpoint.ts';
+export { McpLoggingBridge } from './lib/server/McpLoggingBridge.ts';
+export type { McpLoggingRequest } from './lib/server/McpLoggingBridge.ts';
 export { CORSHandler } from './lib/server/CORSHandler.ts';
 export { ErrorPages } from './lib/server/ErrorPages.ts';
+export { HttpRateLimiter } from './lib/server/HttpRateLimiter.ts';
+export type {
+  HttpRateLimiterDependencies,
+  RateLimitExceededListener,
+} from './lib/server/HttpRateLimiter.ts';
 export { DocsEndpointHandler } from './lib/server/DocsEndpointHandler.ts';
+export { ConfigReloader, ConfigReloadError } from './lib/server/ConfigReloader.ts';
+export type {
+  ConfigReloaderDependencies,
+  ConfigReloadRejection,
+  ConfigReloadResult,
+} from './lib/server/ConfigReloader.ts';
 
 // Beyond MCP Server exports
 export { BeyondMcpServer } from './lib/server/BeyondMcpServer.ts';
@@ -73,9 +180,14 @@ export { RequestContextManager } from './lib/server/RequestContextManager.ts';
 export { BeyondMcpSDKHelpers } from './lib/server/MCPSDKHelpers.ts';
 export { CoreTools } from './lib/tools/CoreTools.ts';
 export { WorkflowTools } from './lib/tools/WorkflowTools.ts';
+export { CorePrompts } from './lib/prompts/CorePrompts.ts';
 export { ToolValidationHelper } from './lib/utils/ToolValidationHelper.ts';
-//export { ZodToJsonSchema } from './lib/utils/ZodToJsonSchema.ts';
-//export type { JsonSchema } from './lib/utils/ZodToJsonSchema.ts';
+export { ZodToJsonSchema } from './lib/utils/ZodToJsonSchema.ts';
+export type {
+  JsonSchema,
+  JsonSchemaTarget,
+  ZodToJsonSchemaOptions,
+} from './lib/utils/ZodToJsonSchema.ts';
 export {
   getAllDependencies,
   getAuditLogger,
@@ -87,12 +199,18 @@ export {
   getKvManager,
   getLogger,
   getOAuthProvider,
+  getPromptRegistry,
+  getRateLimitStore,
+  getResourceRegistry,
   getSessionStore,
   getToolRegistry,
+  getTracer,
   getTransportEventStore,
   getTransportManager,
   getTransportPersistenceStore,
+  getWorkflowJobStore,
   getWorkflowRegistry,
+  initializeAuditLogger,
   performHealthChecks,
   validateConfiguration,
 } from './lib/server/DependencyHelpers.ts';
@@ -102,7 +220,10 @@ export { loadDocsContent, validateDocsContent } from './lib/utils/DocsContentLoa
 
 // OAuth dependency types from individual components
 export type { TokenManagerDependencies } from './lib/auth/TokenManager.ts';
-export type { ClientRegistryDependencies } from './lib/auth/ClientRegistry.ts';
+export type {
+  ClientRegistrationOptions,
+  ClientRegistryDependencies,
+} from './lib/auth/ClientRegistry.ts';
 export type { AuthorizationHandlerDependencies } from './lib/auth/AuthorizationHandler.ts';
 export type { OAuthProviderDependencies } from './lib/auth/OAuthProvider.ts';
 export type { OAuthConsumerDependencies } from './lib/auth/OAuthConsumer.ts';
@@ -112,7 +233,7 @@ export type * from './types/library.types.ts';
 export type * from './types/consumer.types.ts';
 
 // MCP SDK types
-export type { CallToolResult } from 'mcp/types.js';
+export type { CallToolResult, ToolAnnotations } from 'mcp/types.js';
 
 // OAuth type exports - specific exports to avoid conflicts
 export type {
@@ -122,12 +243,14 @@ export type {
   // Request/Response types
   AuthorizeRequest,
   AuthorizeResponse,
+  ClientCredentials,
   ClientRegistration,
   // Client registration types
   ClientRegistrationRequest,
   ClientRegistrationResponse,
   ClientValidation,
   CodeChallengeResult,
+  JsonWebKeySet,
   // Token types
   MCPAccessToken,
   MCPAuthContext,
@@ -139,10 +262,12 @@ export type {
   PKCEMethod,
   PKCEValidation,
   TokenConfig,
+  TokenEndpointAuthMethod,
   TokenRefreshResult,
   TokenRequest,
   TokenResponse,
   TokenResult,
+  TokenSubjectType,
   TokenValidation,
 } from './lib/auth/OAuthTypes.ts';
 
@@ -159,13 +284,20 @@ export { DEFAULT_KV_PREFIXES } from './lib/storage/StorageTypes.ts';
 // Config types (avoiding conflicts with WorkflowTypes.ts)
 export type {
   AppConfig,
+  AppConfigFile,
   AuditConfig,
+  ConfigChange,
   ConfigLoaderOptions,
+  ConfigSource,
   ConfigValidationResult,
+  CredentialEncryptionConfig,
   DocsEndpointConfig,
   EnvironmentMapping,
+  HttpRateLimitConfig,
   LoggingConfig,
+  McpLogLevel,
   McpServerInstructionsConfig,
+  MetricsEndpointConfig,
   OAuthConsumerConfig,
   OAuthProviderConfig,
   PluginManagerConfig,
@@ -173,6 +305,8 @@ export type {
   ServerConfig,
   StorageConfig,
   ThirdPartyApiConfig,
+  TracingConfig,
+  TracingExporterType,
   TransportEventStoreChunkedConfig,
   TransportEventStoreConfig,
   TransportEventStoreType,
@@ -184,13 +318,22 @@ export type {
   BaseWorkflowParameters,
   FailedStep,
   //WorkflowCategory,
+  WorkflowCheckpoint,
   WorkflowContext,
   WorkflowError,
+  WorkflowJob,
+  WorkflowJobProgress,
+  WorkflowJobStatus,
+  WorkflowParallelStepDefinition,
   WorkflowRegistration,
   WorkflowRegistryConfig,
   WorkflowResource,
   WorkflowResult,
   WorkflowStep,
+  WorkflowStepDefinition,
+  WorkflowStepNode,
+  WorkflowStepRunContext,
+  WorkflowStepState,
   WorkflowValidationError,
   WorkflowValidationResult,
 } from './lib/types/WorkflowTypes.ts';
@@ -201,6 +344,7 @@ export type {
   AppPlugin,
   LoadedPlugin,
   PluginCategory,
+  PluginChangeEvent,
   PluginDiscoveryOptions,
 } from './lib/types/PluginTypes.ts';
 export { DEFAULT_PLUGIN_CATEGORIES } from './lib/types/PluginTypes.ts';
@@ -233,6 +377,7 @@ export type {
 // HTTP Server types - with alias exports to avoid conflicts
 export type {
   APIConfig,
+  AuthMetricsSection,
   CompleteServerConfig,
   ComponentStatus,
   CORSConfig,
@@ -250,14 +395,20 @@ export type {
   HttpResponseMetadata,
   HttpServerConfig,
   HttpServerDependencies,
+  MetricsSnapshot,
   RouteHandler,
   SecurityConfig,
   ServerEvents,
   ServerFactory,
   ServerInitOptions,
   ServerMetrics,
+  ServerMetricsSection,
   ServerMiddleware,
   ServerStatus,
+  SessionMetricsSection,
+  ToolMetricsSection,
+  TransportMetricsSection,
+  WorkflowMetricsSection,
 } from './lib/server/ServerTypes.ts';
 
 // Beyond MCP Server types
@@ -286,9 +437,11 @@ export type {
   ServerState,
   SessionInfo,
   ToolCallExtra,
+  ToolCallOutcome,
   ToolDefinition,
   ToolDependencies,
   ToolExample,
+  ToolExampleMatch,
   ToolExecutionContext,
   ToolHandler,
   ToolPlugin,
@@ -301,6 +454,31 @@ export type {
   ValidationResult,
 } from './lib/types/BeyondMcpTypes.ts';
 
+// Resource types
+export type {
+  RegisteredResource,
+  ResourceCompleteCallback,
+  ResourceDefinition,
+  ResourceHandler,
+  ResourceListEntry,
+  ResourceRegistration,
+  ResourceRegistryConfig,
+  ResourceRegistryDependencies,
+} from './lib/types/ResourceTypes.ts';
+
+// Prompt types
+export type {
+  CorePromptsDependencies,
+  PromptCompleteCallback,
+  PromptDefinition,
+  PromptHandler,
+  PromptMessageTemplate,
+  PromptRegistration,
+  PromptRegistrationOptions,
+  PromptRegistryDependencies,
+  RegisteredPrompt,
+} from './lib/types/PromptTypes.ts';
+
 // AppServer types
 export type {
   AppServerConfig,
@@ -6,6 +6,7 @@
  * - Test data generators and fixtures
  * - Assertion helpers and custom matchers
  * - Environment setup and teardown utilities
+ * - A harness that runs ToolDefinition.examples as executable contracts
  *
  * @example
  * ```typescript
@@ -25,3 +26,5 @@
 // Re-export all test utilities
 export * from './utils/test-helpers.ts';
 export * from './utils/tool-test-helpers.ts';
+export * from './utils/tool-example-harness.ts';
+export * from './utils/resp-stand-in.ts';
@@ -0,0 +1,186 @@
+/**
+ * ClientAssertionValidator Unit Tests
+ *
+ * 🔒 SECURITY-CRITICAL: Tests for private_key_jwt client authentication (RFC 7523)
+ *
+ * Test Coverage Requirements:
+ * - Signature verification against the client's registered JWKS
+ * - Claim validation (iss, sub, aud, exp, jti)
+ * - Replay protection
+ */
+
+import { assertEquals } from '@std/assert';
+import {
+  CLIENT_ASSERTION_TYPE,
+  ClientAssertionValidator,
+} from '../../../src/lib/auth/ClientAssertionValidator.ts';
+import { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type { Logger } from '../../../src/types/library.types.ts';
+import type { ClientRegistration } from '../../../src/lib/auth/OAuthTypes.ts';
+
+// Mock logger for testing
+const mockLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+const TOKEN_ENDPOINT = 'https://test-oauth-server.example.com/token';
+const CLIENT_ID = 'mcp_service_client';
+
+function base64Url(data: Uint8Array | string): string {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(
+    /=+$/,
+    '',
+  );
+}
+
+async function signAssertion(
+  privateKey: CryptoKey,
+  claims: Record<string, unknown>,
+  header: Record<string, unknown> = { alg: 'ES256', typ: 'JWT' },
+): Promise<string> {
+  const signingInput = `${base64Url(JSON.stringify(header))}.${base64Url(JSON.stringify(claims))}`;
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(signingInput),
+  );
+  return `${signingInput}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function createClaims(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: CLIENT_ID,
+    sub: CLIENT_ID,
+    aud: TOKEN_ENDPOINT,
+    exp: now + 60,
+    iat: now,
+    jti: crypto.randomUUID(),
+    ...overrides,
+  };
+}
+
+// Helper function to create test dependencies
+async function createTestDependencies() {
+  const kvManager = new KVManager({ kvPath: ':memory:' });
+  await kvManager.initialize();
+
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    true,
+    ['sign', 'verify'],
+  );
+  const publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+
+  const client: ClientRegistration = {
+    client_id: CLIENT_ID,
+    client_secret_expires_at: 0,
+    client_name: 'Service Client',
+    redirect_uris: [],
+    grant_types: ['client_credentials'],
+    response_types: [],
+    created_at: Date.now(),
+    updated_at: Date.now(),
+    token_endpoint_auth_method: 'private_key_jwt',
+    jwks: { keys: [{ ...publicJwk, kid: 'key-1' }] },
+  };
+
+  const validator = new ClientAssertionValidator(
+    { audiences: [TOKEN_ENDPOINT] },
+    { kvManager, logger: mockLogger },
+  );
+
+  return { kvManager, keyPair, client, validator };
+}
+
+Deno.test({
+  name: 'ClientAssertionValidator - Accept Valid Assertion',
+  async fn() {
+    const { kvManager, keyPair, client, validator } = await createTestDependencies();
+
+    assertEquals(CLIENT_ASSERTION_TYPE, 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer');
+
+    const assertion = await signAssertion(keyPair.privateKey, createClaims(), {
+      alg: 'ES256',
+      kid: 'key-1',
+    });
+    assertEquals(await validator.validateAssertion(assertion, client), { valid: true });
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'ClientAssertionValidator - Reject Replayed Assertion (SECURITY CRITICAL)',
+  async fn() {
+    const { kvManager, keyPair, client, validator } = await createTestDependencies();
+
+    const assertion = await signAssertion(keyPair.privateKey, createClaims());
+    assertEquals((await validator.validateAssertion(assertion, client)).valid, true);
+
+    const replay = await validator.validateAssertion(assertion, client);
+    assertEquals(replay.valid, false);
+    assertEquals(replay.error, 'Client assertion has already been used');
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'ClientAssertionValidator - Reject Invalid Claims (SECURITY CRITICAL)',
+  async fn() {
+    const { kvManager, keyPair, client, validator } = await createTestDependencies();
+    const now = Math.floor(Date.now() / 1000);
+
+    const cases: Array<[Record<string, unknown>, string]> = [
+      [{ aud: 'https://other-server.example.com/token' }, 'audience'],
+      [{ iss: 'mcp_other_client' }, 'issuer and subject'],
+      [{ exp: now - 3600 }, 'expired'],
+      [{ exp: now + 3600 }, 'lifetime is too long'],
+      [{ exp: undefined }, 'no expiry'],
+      [{ jti: undefined }, 'no jti'],
+    ];
+
+    for (const [overrides, expectedError] of cases) {
+      const assertion = await signAssertion(keyPair.privateKey, createClaims(overrides));
+      const result = await validator.validateAssertion(assertion, client);
+      assertEquals(result.valid, false, `Should reject assertion with ${expectedError}`);
+      assertEquals(result.error?.includes(expectedError), true, result.error);
+    }
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'ClientAssertionValidator - Reject Invalid Signatures (SECURITY CRITICAL)',
+  async fn() {
+    const { kvManager, client, validator } = await createTestDependencies();
+
+    // Signed with a key the client never registered
+    const otherKeyPair = await crypto.subtle.generateKey(
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['sign', 'verify'],
+    );
+    const forged = await signAssertion(otherKeyPair.privateKey, createClaims());
+    assertEquals(
+      (await validator.validateAssertion(forged, client)).error,
+      'Invalid client assertion signature',
+    );
+
+    // Unsigned tokens are never accepted
+    const unsigned = `${base64Url(JSON.stringify({ alg: 'none' }))}.${
+      base64Url(JSON.stringify(createClaims()))
+    }.`;
+    assertEquals((await validator.validateAssertion(unsigned, client)).valid, false);
+
+    assertEquals((await validator.validateAssertion('not-a-jwt', client)).valid, false);
+
+    await kvManager.close();
+  },
+});
@@ -603,3 +603,62 @@ Deno.test({
     await kvManager.close();
   },
 });
+
+Deno.test({
+  name: 'ClientRegistry - Confidential Service Clients (SECURITY CRITICAL)',
+  async fn() {
+    const { kvManager } = await createTestDependencies();
+
+    const clientRegistry = new ClientRegistry(testClientConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const serviceRequest: ClientRegistrationRequest = {
+      redirect_uris: [],
+      client_name: 'Service Client',
+      grant_types: ['client_credentials'],
+      response_types: [],
+      scope: 'read',
+    };
+
+    // Dynamic (untrusted) registration cannot create client_credentials clients
+    try {
+      await clientRegistry.registerClient(serviceRequest);
+      assert(false, 'Should have rejected dynamic client_credentials registration');
+    } catch (error) {
+      assert(error instanceof Error);
+      assert(error.message.includes('cannot be registered dynamically'));
+    }
+
+    // Public auth method is not allowed for service clients
+    try {
+      await clientRegistry.registerClient(
+        { ...serviceRequest, token_endpoint_auth_method: 'none' },
+        undefined,
+        { trusted: true },
+      );
+      assert(false, 'Should have rejected public service client');
+    } catch (error) {
+      assert(error instanceof Error);
+    }
+
+    const registration = await clientRegistry.registerClient(serviceRequest, undefined, {
+      trusted: true,
+    });
+    assertExists(registration.client_secret, 'Secret should be returned once at registration');
+    assertEquals(registration.token_endpoint_auth_method, 'client_secret_basic');
+
+    // Only the hash of the secret is stored
+    const stored = await clientRegistry.getClient(registration.client_id);
+    assertExists(stored);
+    assertEquals(stored.client_secret, undefined);
+    assertExists(stored.client_secret_hash);
+    assert(clientRegistry.isConfidentialClient(stored));
+
+    assert(await clientRegistry.verifyClientSecret(stored, registration.client_secret));
+    assertEquals(await clientRegistry.verifyClientSecret(stored, 'wrong-secret'), false);
+
+    await kvManager.close();
+  },
+});
@@ -143,6 +143,8 @@ Deno.test({
     assert(Array.isArray(metadata.token_endpoint_auth_methods_supported));
     assert(metadata.token_endpoint_auth_methods_supported.includes('client_secret_basic'));
     assert(metadata.token_endpoint_auth_methods_supported.includes('client_secret_post'));
+    assert(metadata.token_endpoint_auth_methods_supported.includes('private_key_jwt'));
+    assertEquals(metadata.token_endpoint_auth_signing_alg_values_supported, ['RS256', 'ES256']);
 
     // PKCE Support
     assertEquals(metadata.code_challenge_methods_supported, ['S256']);
@@ -639,3 +639,201 @@ Deno.test({
     await dependencies.kvManager.close();
   },
 });
+
+Deno.test({
+  name: 'OAuthProvider - Token Introspection and Revocation (RFC 7662 / RFC 7009)',
+  async fn() {
+    const dependencies = await createTestDependencies();
+
+    const oauthProvider = new OAuthProvider(testOAuthProviderConfig, dependencies);
+
+    const clientRegistration = await oauthProvider.handleClientRegistration({
+      redirect_uris: ['http://localhost:3000/callback'],
+      client_name: 'Revocation Client',
+    });
+    const otherClient = await oauthProvider.handleClientRegistration({
+      redirect_uris: ['http://localhost:3000/callback'],
+      client_name: 'Other Client',
+    });
+
+    const authResponse = await oauthProvider.handleAuthorizeRequest({
+      response_type: 'code',
+      client_id: clientRegistration.client_id,
+      redirect_uri: 'http://localhost:3000/callback',
+      scope: 'read',
+      state: 'revocation-test-state',
+      code_challenge: 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM',
+      code_challenge_method: 'S256',
+    }, 'revocation_user');
+
+    const tokens = await oauthProvider.handleTokenRequest({
+      grant_type: 'authorization_code',
+      client_id: clientRegistration.client_id,
+      code: authResponse.code,
+      redirect_uri: 'http://localhost:3000/callback',
+      code_verifier: 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk',
+    });
+
+    // Public clients authenticate with their client_id alone
+    assertEquals(
+      (await oauthProvider.authenticateClient(clientRegistration.client_id)).valid,
+      true,
+    );
+    assertEquals(
+      (await oauthProvider.authenticateClient(clientRegistration.client_id, {
+        clientSecret: 'guess',
+      }))
+        .valid,
+      false,
+    );
+    assertEquals((await oauthProvider.authenticateClient('mcp_unknown')).valid, false);
+
+    const introspection = await oauthProvider.introspectToken(
+      tokens.access_token,
+      'access_token',
+      clientRegistration.client_id,
+    );
+    assertEquals(introspection.active, true);
+    assertEquals(introspection.client_id, clientRegistration.client_id);
+    assertEquals(introspection.sub, 'revocation_user');
+    assertEquals(introspection.scope, 'read');
+    assertEquals(introspection.token_type, 'access_token');
+    assert(introspection.exp! > Math.floor(Date.now() / 1000));
+
+    // Other clients can't see the token
+    const foreign = await oauthProvider.introspectToken(
+      tokens.access_token,
+      undefined,
+      otherClient.client_id,
+    );
+    assertEquals(foreign, { active: false });
+
+    // Revoking the refresh token revokes the access token issued with it
+    const revocation = await oauthProvider.revokeToken(
+      tokens.refresh_token!,
+      clientRegistration.client_id,
+      'refresh_token',
+    );
+    assertEquals(revocation.revoked, true);
+    assertEquals((await oauthProvider.introspectToken(tokens.access_token)).active, false);
+    assertEquals((await oauthProvider.validateAccessToken(tokens.access_token)).valid, false);
+
+    await dependencies.kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'OAuthProvider - Client Credentials Grant for Service Clients (SECURITY CRITICAL)',
+  async fn() {
+    const dependencies = await createTestDependencies();
+
+    const oauthProvider = new OAuthProvider({
+      ...testOAuthProviderConfig,
+      authorization: {
+        ...testOAuthProviderConfig.authorization,
+        supportedGrantTypes: ['authorization_code', 'refresh_token', 'client_credentials'],
+      },
+    }, dependencies);
+
+    const serviceClient = await oauthProvider.registerServiceClient({
+      client_name: 'Nightly Sync',
+      scope: 'read write',
+    });
+    assertExists(serviceClient.client_secret);
+    assertEquals(serviceClient.grant_types, ['client_credentials']);
+
+    const tokens = await oauthProvider.handleTokenRequest({
+      grant_type: 'client_credentials',
+      client_id: serviceClient.client_id,
+      client_secret: serviceClient.client_secret,
+      scope: 'read',
+    });
+    assertExists(tokens.access_token);
+    assertEquals(tokens.scope, 'read');
+    assertEquals(tokens.refresh_token, undefined, 'Service tokens must not be refreshable');
+
+    // Token is bound to the service identity, not a user
+    const validation = await oauthProvider.validateAccessToken(tokens.access_token);
+    assertEquals(validation.valid, true);
+    assertEquals(validation.userId, `service:${serviceClient.client_id}`);
+    assertEquals(validation.subjectType, 'service');
+
+    // Third-party session binding is skipped for service tokens
+    const authContext = await oauthProvider.authorizeMCPRequest(
+      `Bearer ${tokens.access_token}`,
+      {} as any,
+    );
+    assertEquals(authContext.authorized, true);
+    assertEquals(authContext.subjectType, 'service');
+
+    const expectRejection = async (request: TokenRequest, message: string) => {
+      try {
+        await oauthProvider.handleTokenRequest(request);
+        assert(false, `Should have rejected: ${message}`);
+      } catch (error) {
+        assert(error instanceof Error);
+        assert(error.message.includes(message), `Unexpected error: ${error.message}`);
+      }
+    };
+
+    // Scope must stay within the client's registered scope
+    await expectRejection({
+      grant_type: 'client_credentials',
+      client_id: serviceClient.client_id,
+      client_secret: serviceClient.client_secret,
+      scope: 'admin',
+    }, 'Invalid scope');
+
+    // Clients registered without a scope only get read access
+    const unscopedClient = await oauthProvider.registerServiceClient({
+      client_name: 'Unscoped Sync',
+    });
+    const unscopedTokens = await oauthProvider.handleTokenRequest({
+      grant_type: 'client_credentials',
+      client_id: unscopedClient.client_id,
+      client_secret: unscopedClient.client_secret!,
+    });
+    assertEquals(unscopedTokens.scope, 'read');
+    for (const scope of ['write', 'admin', 'all']) {
+      await expectRejection({
+        grant_type: 'client_credentials',
+        client_id: unscopedClient.client_id,
+        client_secret: unscopedClient.client_secret!,
+        scope,
+      }, 'Invalid scope');
+    }
+
+    // Wrong secret
+    await expectRejection({
+      grant_type: 'client_credentials',
+      client_id: serviceClient.client_id,
+      client_secret: 'wrong-secret',
+    }, 'Client authentication failed');
+
+    // Public clients cannot use the grant
+    const publicClient = await oauthProvider.handleClientRegistration({
+      redirect_uris: ['http://localhost:3000/callback'],
+      client_name: 'Public Client',
+    });
+    await expectRejection({
+      grant_type: 'client_credentials',
+      client_id: publicClient.client_id,
+    }, 'Client authentication failed');
+
+    // The grant is disabled unless configured
+    const defaultProvider = new OAuthProvider(testOAuthProviderConfig, dependencies);
+    try {
+      await defaultProvider.handleTokenRequest({
+        grant_type: 'client_credentials',
+        client_id: serviceClient.client_id,
+        client_secret: serviceClient.client_secret,
+      });
+      assert(false, 'Should have rejected disabled grant type');
+    } catch (error) {
+      assert(error instanceof Error);
+      assert(error.message.includes('Unsupported grant type'));
+    }
+
+    await dependencies.kvManager.close();
+  },
+});
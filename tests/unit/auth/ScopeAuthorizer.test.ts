@@ -0,0 +1,62 @@
+/**
+ * ScopeAuthorizer Unit Tests
+ *
+ * 🔒 SECURITY-CRITICAL: Tests for tool and workflow scope enforcement
+ *
+ * Test Coverage Requirements:
+ * - Required scope matching and the 'all' wildcard
+ * - Unauthenticated requests are not checked
+ * - Structured insufficient_scope errors
+ */
+
+import { assert, assertEquals, assertThrows } from '@std/assert';
+import { ScopeAuthorizer, WILDCARD_SCOPE } from '../../../src/lib/auth/ScopeAuthorizer.ts';
+import { ErrorCategory, MCPError } from '../../../src/lib/utils/ErrorHandler.ts';
+
+const authContext = (scopes: string[]) => ({ clientId: 'client-1', scopes });
+
+Deno.test({
+  name: 'ScopeAuthorizer - Missing Scopes',
+  fn() {
+    assertEquals(ScopeAuthorizer.getMissingScopes(undefined, []), []);
+    assertEquals(ScopeAuthorizer.getMissingScopes([], ['read']), []);
+    assertEquals(ScopeAuthorizer.getMissingScopes(['read', 'write'], ['read']), ['write']);
+    assertEquals(ScopeAuthorizer.getMissingScopes(['read', 'admin'], [WILDCARD_SCOPE]), []);
+  },
+});
+
+Deno.test({
+  name: 'ScopeAuthorizer - Authorization Without Context',
+  fn() {
+    // STDIO and unauthenticated transports have no scopes to check
+    assert(ScopeAuthorizer.isAuthorized(['admin'], null));
+    assert(ScopeAuthorizer.isAuthorized(['admin'], undefined));
+    assert(!ScopeAuthorizer.isAuthorized(['admin'], authContext(['read'])));
+    assert(ScopeAuthorizer.isAuthorized(['admin'], authContext(['read', 'admin'])));
+  },
+});
+
+Deno.test({
+  name: 'ScopeAuthorizer - Enforce Required Scopes (SECURITY CRITICAL)',
+  fn() {
+    ScopeAuthorizer.enforce('tool:open', undefined, authContext([]));
+    ScopeAuthorizer.enforce('tool:admin', ['admin'], null);
+
+    const error = assertThrows(
+      () => ScopeAuthorizer.enforce('tool:admin', ['read', 'admin'], authContext(['read'])),
+      MCPError,
+      'Insufficient scope for tool:admin: requires admin',
+    );
+
+    assert(ScopeAuthorizer.isInsufficientScopeError(error));
+    assertEquals(error.info.category, ErrorCategory.AUTHORIZATION);
+    assertEquals(ScopeAuthorizer.getInsufficientScopeInfo(error), {
+      target: 'tool:admin',
+      requiredScopes: ['read', 'admin'],
+      grantedScopes: ['read'],
+      missingScopes: ['admin'],
+    });
+
+    assert(!ScopeAuthorizer.isInsufficientScopeError(new Error('other')));
+  },
+});
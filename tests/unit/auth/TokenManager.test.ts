@@ -805,3 +805,195 @@ Deno.test({
     await kvManager.close();
   },
 });
+
+Deno.test({
+  name: 'TokenManager - Revoke Access Token (SECURITY CRITICAL)',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const token = await tokenManager.generateAccessToken('client', 'user', true);
+
+    const result = await tokenManager.revokeToken(token.access_token, 'client');
+    assertEquals(result.revoked, true);
+    assertEquals(result.tokenType, 'access_token');
+    assertEquals(result.revokedCount, 1);
+
+    const validation = await tokenManager.validateAccessToken(token.access_token);
+    assertEquals(validation.valid, false);
+
+    // The refresh token is unaffected
+    assertExists(await tokenManager.getTokenDetails(token.refresh_token!));
+
+    // Unknown tokens are not an error
+    const unknown = await tokenManager.revokeToken('mcp_token_unknown', 'client');
+    assertEquals(unknown.revoked, false);
+    assertEquals(unknown.revokedCount, 0);
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'TokenManager - Revoke Refresh Token Cascades To Grant (SECURITY CRITICAL)',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const auditEvents: any[] = [];
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+      auditLogger: { logAuthEvent: (entry: any) => auditEvents.push(entry) } as any,
+    });
+
+    const original = await tokenManager.generateAccessToken('client', 'user', true);
+    const refreshed = await tokenManager.refreshAccessToken(original.refresh_token!, 'client');
+    assert(refreshed.success);
+    const rotated = refreshed.accessToken!;
+
+    // Unrelated grant for the same user must survive
+    const otherGrant = await tokenManager.generateAccessToken('client', 'user', true);
+
+    const result = await tokenManager.revokeToken(
+      rotated.refresh_token!,
+      'client',
+      'refresh_token',
+    );
+    assertEquals(result.revoked, true);
+    assertEquals(result.tokenType, 'refresh_token');
+
+    assertEquals((await tokenManager.validateAccessToken(original.access_token)).valid, false);
+    assertEquals((await tokenManager.validateAccessToken(rotated.access_token)).valid, false);
+    assertEquals(await tokenManager.getTokenDetails(rotated.refresh_token!), null);
+    const replay = await tokenManager.refreshAccessToken(original.refresh_token!, 'client');
+    assertEquals(replay.success, false);
+
+    assertEquals((await tokenManager.validateAccessToken(otherGrant.access_token)).valid, true);
+
+    const revokeEvent = auditEvents.find((entry) => entry.event === 'token_revoke');
+    assertExists(revokeEvent);
+    assertEquals(revokeEvent.success, true);
+    assertEquals(revokeEvent.userId, 'user');
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'TokenManager - Revoke Rejects Tokens Of Other Clients (SECURITY CRITICAL)',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const token = await tokenManager.generateAccessToken('client_a', 'user', true);
+
+    const result = await tokenManager.revokeToken(token.access_token, 'client_b');
+    assertEquals(result.revoked, false);
+    assertEquals((await tokenManager.validateAccessToken(token.access_token)).valid, true);
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'TokenManager - Token Details For Introspection',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const token = await tokenManager.generateAccessToken('client', 'user', true, 'read');
+
+    const accessDetails = await tokenManager.getTokenDetails(token.access_token);
+    assertExists(accessDetails);
+    assertEquals(accessDetails.tokenType, 'access_token');
+    assertEquals(accessDetails.clientId, 'client');
+    assertEquals(accessDetails.userId, 'user');
+    assertEquals(accessDetails.scope, 'read');
+    assertEquals(accessDetails.expiresAt, token.expires_at);
+
+    const refreshDetails = await tokenManager.getTokenDetails(
+      token.refresh_token!,
+      'refresh_token',
+    );
+    assertEquals(refreshDetails?.tokenType, 'refresh_token');
+
+    // Rotated refresh tokens are no longer active
+    await tokenManager.refreshAccessToken(token.refresh_token!, 'client');
+    assertEquals(await tokenManager.getTokenDetails(token.refresh_token!), null);
+    assertEquals(await tokenManager.getTokenDetails('mcp_token_unknown'), null);
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'TokenManager - Revoke All Tokens For A User (SECURITY CRITICAL)',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const first = await tokenManager.generateAccessToken('client_a', 'user', true);
+    const second = await tokenManager.generateAccessToken('client_b', 'user', true);
+    const other = await tokenManager.generateAccessToken('client_a', 'other_user', true);
+    const code = await tokenManager.generateAuthorizationCode(
+      'client_a',
+      'user',
+      'http://localhost/callback',
+    );
+
+    // Two access tokens, two refresh tokens and the authorization code
+    assertEquals(await tokenManager.revokeUserTokens('user'), 5);
+
+    assertEquals((await tokenManager.validateAccessToken(first.access_token)).valid, false);
+    assertEquals((await tokenManager.validateAccessToken(second.access_token)).valid, false);
+    assertEquals(await tokenManager.getTokenDetails(first.refresh_token!), null);
+    assertEquals(await tokenManager.getAuthorizationCode(code), null);
+    assertEquals((await tokenManager.validateAccessToken(other.access_token)).valid, true);
+    assertEquals(await kvManager.list(['oauth', 'mcp_grant_tokens', first.grant_id!]), []);
+
+    await kvManager.close();
+  },
+});
+
+Deno.test({
+  name: 'TokenManager - Revoke All Tokens Issued To A Client (SECURITY CRITICAL)',
+  async fn() {
+    const kvManager = new KVManager({ kvPath: ':memory:' });
+    await kvManager.initialize();
+
+    const tokenManager = new TokenManager(testTokenConfig, {
+      kvManager,
+      logger: mockLogger,
+    });
+
+    const revoked = await tokenManager.generateAccessToken('client_a', 'user', false);
+    const kept = await tokenManager.generateAccessToken('client_b', 'user', false);
+
+    assertEquals(await tokenManager.revokeClientTokens('client_a'), 1);
+    assertEquals((await tokenManager.validateAccessToken(revoked.access_token)).valid, false);
+    assertEquals((await tokenManager.validateAccessToken(kept.access_token)).valid, true);
+
+    await kvManager.close();
+  },
+});
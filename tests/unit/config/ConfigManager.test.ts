@@ -0,0 +1,295 @@
+/**
+ * Unit Tests for ConfigManager layering
+ * Tests defaults < config file < environment variables < overrides, file validation and --print-config output
+ */
+
+import { assertEquals, assertRejects, assertStringIncludes } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { ConfigManager } from '../../../src/lib/config/ConfigManager.ts';
+import type {
+  ConfigLoaderOptions,
+  HttpTransportConfig,
+  LoggingConfig,
+} from '../../../src/lib/config/ConfigTypes.ts';
+import { createMockLogger } from '../../utils/test-helpers.ts';
+
+// A prefix keeps the variables of the machine running the tests out of the config
+const ENV_PREFIX = 'CONFIG_MANAGER_TEST_';
+
+describe('ConfigManager', () => {
+  let dir: string;
+  let envKeys: string[];
+
+  const setEnv = (values: Record<string, string>) => {
+    for (const [key, value] of Object.entries(values)) {
+      Deno.env.set(`${ENV_PREFIX}${key}`, value);
+      envKeys.push(key);
+    }
+  };
+
+  const writeConfigFile = async (content: unknown, name = 'config.json') => {
+    const path = `${dir}/${name}`;
+    await Deno.writeTextFile(path, JSON.stringify(content));
+    return path;
+  };
+
+  const loadConfig = async (options: ConfigLoaderOptions = {}) => {
+    const configManager = new ConfigManager({
+      envPrefix: ENV_PREFIX,
+      validateRequired: false,
+      ...options,
+    }, createMockLogger());
+    await configManager.loadConfig();
+    return configManager;
+  };
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    envKeys = [];
+  });
+
+  afterEach(async () => {
+    for (const key of envKeys) {
+      Deno.env.delete(`${ENV_PREFIX}${key}`);
+    }
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it('should layer the config file over the defaults', async () => {
+    const configFile = await writeConfigFile({
+      server: { name: 'file-server' },
+      transport: { type: 'http', http: { port: 4100, cors: { origins: ['https://a.example'] } } },
+      pluginManager: { paths: ['./plugins', './more-plugins'] },
+    });
+
+    const configManager = await loadConfig({ configFile });
+
+    assertEquals(configManager.get<string>('server.name'), 'file-server');
+    const http = configManager.get<HttpTransportConfig>('transport.http');
+    assertEquals(http.port, 4100);
+    assertEquals(http.hostname, 'localhost');
+    assertEquals(http.cors?.origins, ['https://a.example']);
+    assertEquals(http.cors?.methods, ['GET', 'POST', 'PUT', 'DELETE']);
+    assertEquals(configManager.get('transport.stdio'), undefined);
+    assertEquals(configManager.get<string[]>('pluginManager.paths'), [
+      './plugins',
+      './more-plugins',
+    ]);
+
+    const sources = configManager.getConfigSources();
+    assertEquals(sources['server.name'], 'file');
+    assertEquals(sources['transport.http.port'], 'file');
+    assertEquals(sources['transport.http.hostname'], 'default');
+  });
+
+  it('should let environment variables override the file, even when set to the default', async () => {
+    const configFile = await writeConfigFile({
+      logging: { level: 'debug', format: 'json' },
+      server: { httpHost: 'file-host' },
+    });
+    setEnv({ LOG_LEVEL: 'info', HTTP_HOST: 'env-host' });
+
+    const configManager = await loadConfig({ configFile });
+
+    const logging = configManager.get<LoggingConfig>('logging');
+    assertEquals(logging.level, 'info');
+    assertEquals(logging.format, 'json');
+    assertEquals(configManager.get<string>('server.httpHost'), 'env-host');
+    // Derived from HTTP_HOST
+    assertEquals(configManager.get<string>('server.publicUrl'), 'http://env-host:3000');
+
+    const sources = configManager.getConfigSources();
+    assertEquals(sources['logging.level'], 'env');
+    assertEquals(sources['logging.format'], 'file');
+    assertEquals(sources['server.publicUrl'], 'env');
+  });
+
+  it('should take key=value lists and limits shared by endpoints from the environment', async () => {
+    const configFile = await writeConfigFile({
+      tracing: { otlpHeaders: { 'x-file': 'file' } },
+    });
+    setEnv({
+      TRACING_OTLP_HEADERS: 'x-api-key=secret,x-team=mcp',
+      RATE_LIMIT_HTTP_OAUTH_PER_IP: '5',
+    });
+
+    const configManager = await loadConfig({ configFile });
+
+    assertEquals(configManager.get('tracing.otlpHeaders'), {
+      'x-api-key': 'secret',
+      'x-team': 'mcp',
+    });
+    assertEquals(configManager.get<number>('rateLimit.http.endpoints./register.perIP.requests'), 5);
+
+    const sources = configManager.getConfigSources();
+    assertEquals(sources['tracing.otlpHeaders.x-team'], 'env');
+    assertEquals(sources['rateLimit.http.endpoints./token.perIP.requests'], 'env');
+    assertEquals(sources['rateLimit.http.endpoints./token.perClient.requests'], 'default');
+  });
+
+  it('should apply programmatic overrides last', async () => {
+    const configFile = await writeConfigFile({
+      metrics: { enabled: false, path: '/file-metrics' },
+    });
+    setEnv({ METRICS_ENABLED: 'false', ENVIRONMENT: 'staging' });
+
+    const configManager = await loadConfig({
+      configFile,
+      environment: 'test',
+      overrides: { metrics: { enabled: true } },
+    });
+
+    assertEquals(configManager.get<boolean>('metrics.enabled'), true);
+    assertEquals(configManager.get<string>('metrics.path'), '/file-metrics');
+    assertEquals(configManager.get<string>('environment'), 'test');
+    assertEquals(configManager.getConfigSources()['metrics.enabled'], 'override');
+  });
+
+  it('should enable optional sections from the file', async () => {
+    const configFile = await writeConfigFile({
+      docsEndpoint: { enabled: true, path: '/guides' },
+      oauthConsumer: { providerId: 'example' },
+    });
+
+    await assertRejects(
+      () => loadConfig({ configFile }),
+      Error,
+      'oauthConsumer.clientId is not set',
+    );
+
+    const complete = await writeConfigFile({
+      docsEndpoint: { enabled: true, path: '/guides' },
+      oauthConsumer: {
+        providerId: 'example',
+        clientId: 'client',
+        clientSecret: 'secret',
+        authUrl: 'https://auth.example/authorize',
+        tokenUrl: 'https://auth.example/token',
+        redirectUri: 'http://localhost:3000/callback',
+      },
+    }, 'complete.json');
+    const configManager = await loadConfig({ configFile: complete });
+
+    assertEquals(configManager.get('docsEndpoint'), {
+      enabled: true,
+      path: '/guides',
+      allowListing: true,
+      enableCache: true,
+    });
+    assertEquals(configManager.get<string>('oauthConsumer.clientId'), 'client');
+    assertEquals(configManager.get<number>('oauthConsumer.tokenRefreshBufferMinutes'), 5);
+    assertEquals(configManager.get('thirdpartyApiClient'), undefined);
+  });
+
+  it('should report unknown keys and type errors with their paths', async () => {
+    const configFile = await writeConfigFile({
+      server: { httpPort: '3000', nmae: 'typo' },
+      transport: { http: { cors: { origins: 'https://a.example' } } },
+      loging: {},
+    });
+
+    const error = await assertRejects(() => loadConfig({ configFile }), Error);
+    assertStringIncludes(error.message, `Invalid config file ${configFile}`);
+    assertStringIncludes(error.message, 'server.httpPort: Expected number, received string');
+    assertStringIncludes(error.message, 'server.nmae: Unknown key');
+    assertStringIncludes(error.message, 'transport.http.cors.origins: Expected array');
+    assertStringIncludes(error.message, 'loging: Unknown key');
+  });
+
+  it('should keep unknown keys when allowUnknownKeys is set', async () => {
+    const configFile = await writeConfigFile({
+      logging: { level: 'warn' },
+      myApp: { featureFlags: ['beta'] },
+    });
+
+    const configManager = await loadConfig({ configFile, allowUnknownKeys: true });
+
+    assertEquals(configManager.get<string>('logging.level'), 'warn');
+    assertEquals(configManager.get<string[]>('myApp.featureFlags'), ['beta']);
+  });
+
+  it('should reject unsupported file formats', async () => {
+    const configFile = `${dir}/config.ini`;
+    await Deno.writeTextFile(configFile, 'level=debug');
+
+    await assertRejects(
+      () => loadConfig({ configFile }),
+      Error,
+      "Unsupported config file format '.ini'",
+    );
+  });
+
+  it('should reload the configuration and report the changed values', async () => {
+    const configFile = await writeConfigFile({
+      logging: { level: 'warn' },
+      oauthProvider: { clientSecret: 'first-secret' },
+    });
+    const configManager = await loadConfig({ configFile });
+    configManager.set('myApp.feature', 'enabled');
+
+    await writeConfigFile({
+      logging: { level: 'debug' },
+      oauthProvider: { clientSecret: 'second-secret' },
+      metrics: { path: '/file-metrics' },
+    });
+
+    // Rejected changes leave the running configuration in place
+    await assertRejects(
+      () =>
+        configManager.reloadConfig(() => {
+          throw new Error('not now');
+        }),
+      Error,
+      'not now',
+    );
+    assertEquals(configManager.get<string>('logging.level'), 'warn');
+
+    const changes = await configManager.reloadConfig();
+
+    assertEquals([...changes].sort((a, b) => a.path.localeCompare(b.path)), [
+      { path: 'logging.level', previous: 'warn', current: 'debug' },
+      { path: 'metrics.path', previous: '/metrics', current: '/file-metrics' },
+      { path: 'oauthProvider.clientSecret', previous: '[REDACTED]', current: '[REDACTED]' },
+    ]);
+    assertEquals(configManager.get<string>('logging.level'), 'debug');
+    assertEquals(configManager.get<string>('oauthProvider.clientSecret'), 'second-secret');
+    assertEquals(configManager.get<string>('myApp.feature'), 'enabled');
+    assertEquals(configManager.getConfigSources()['metrics.path'], 'file');
+  });
+
+  it('should keep env file values from startup when reloading', async () => {
+    const envFile = `${dir}/.env`;
+    await Deno.writeTextFile(envFile, `${ENV_PREFIX}METRICS_PATH=/env-metrics\n`);
+    envKeys.push('METRICS_PATH', 'LOG_LEVEL');
+    const configManager = await loadConfig({ envFile });
+    assertEquals(configManager.get<string>('metrics.path'), '/env-metrics');
+
+    await Deno.writeTextFile(
+      envFile,
+      `${ENV_PREFIX}METRICS_PATH=/edited-metrics\n${ENV_PREFIX}LOG_LEVEL=debug\n`,
+    );
+    const changes = await configManager.reloadConfig();
+
+    assertEquals(changes, []);
+    assertEquals(configManager.get<string>('metrics.path'), '/env-metrics');
+    assertEquals(configManager.get<string>('logging.level'), 'info');
+  });
+
+  it('should format the configuration with sources and redacted secrets', async () => {
+    const configFile = await writeConfigFile({
+      oauthProvider: { clientSecret: 'file-secret' },
+    });
+    setEnv({ METRICS_BEARER_TOKEN: 'env-token', HTTP_PORT: '3100' });
+
+    const configManager = await loadConfig({ configFile });
+    const output = configManager.formatConfig();
+
+    assertStringIncludes(output, `# Config file: ${configFile}`);
+    assertStringIncludes(output, 'oauthProvider.clientSecret = "[REDACTED]"  (file)');
+    assertStringIncludes(output, 'metrics.bearerToken = "[REDACTED]"  (env)');
+    assertStringIncludes(output, 'server.httpPort = 3100  (env)');
+    assertStringIncludes(output, 'logging.level = "info"  (default)');
+    assertEquals(output.includes('file-secret') || output.includes('env-token'), false);
+  });
+});
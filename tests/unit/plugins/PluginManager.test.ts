@@ -0,0 +1,182 @@
+/**
+ * Unit Tests for PluginManager
+ * Tests loading plugins from disk, reloading and hot-reload via file watching
+ */
+
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { join } from '@std/path';
+
+import { PluginManager } from '../../../src/lib/plugins/PluginManager.ts';
+import { ToolRegistry } from '../../../src/lib/tools/ToolRegistry.ts';
+import { WorkflowRegistry } from '../../../src/lib/workflows/WorkflowRegistry.ts';
+import type { PluginChangeEvent } from '../../../src/lib/types/PluginTypes.ts';
+
+import { createMockErrorHandler, createMockLogger, waitFor } from '../../utils/test-helpers.ts';
+
+// Mock MCP Server that tracks registrations the way the SDK does
+class MockMcpServer {
+  public registeredTools = new Map<string, any>();
+  public listChangedCount = 0;
+
+  registerTool(name: string, definition: any, handler: any) {
+    if (this.registeredTools.has(name)) {
+      throw new Error(`Tool ${name} is already registered`);
+    }
+    this.registeredTools.set(name, { name, definition, handler });
+    this.listChangedCount++;
+    return {
+      remove: () => {
+        this.registeredTools.delete(name);
+        this.listChangedCount++;
+      },
+    };
+  }
+}
+
+/**
+ * Source for a self-contained plugin file with one tool
+ */
+function pluginSource(name: string, toolName: string, title: string): string {
+  return `export default {
+  name: '${name}',
+  version: '1.0.0',
+  description: 'Test plugin',
+  workflows: [],
+  tools: [{
+    name: '${toolName}',
+    definition: { title: '${title}', description: 'Test tool', category: 'Test', inputSchema: {} },
+    handler: () => ({ content: [{ type: 'text', text: '${title}' }] }),
+  }],
+};
+`;
+}
+
+describe('PluginManager', () => {
+  let tempDir: string;
+  let mockMcpServer: MockMcpServer;
+  let toolRegistry: ToolRegistry;
+  let workflowRegistry: WorkflowRegistry;
+  let pluginManager: PluginManager;
+
+  const createPluginManager = (watchForChanges: boolean) =>
+    new PluginManager(
+      toolRegistry,
+      workflowRegistry,
+      { paths: [tempDir], watchForChanges, watchDebounceMs: 50 },
+      { logger: createMockLogger() } as any,
+    );
+
+  beforeEach(async () => {
+    tempDir = await Deno.makeTempDir({ prefix: 'plugin-manager-test-' });
+    mockMcpServer = new MockMcpServer();
+
+    const logger = createMockLogger();
+    const errorHandler = createMockErrorHandler();
+    toolRegistry = new ToolRegistry({ logger, errorHandler });
+    toolRegistry.sdkMcpServer = mockMcpServer as any;
+    workflowRegistry = WorkflowRegistry.getInstance({ logger, errorHandler });
+
+    pluginManager = createPluginManager(true);
+  });
+
+  afterEach(async () => {
+    await pluginManager.stopWatching();
+    await Deno.remove(tempDir, { recursive: true });
+  });
+
+  describe('Reloading', () => {
+    it('should reload a plugin from the path it was loaded from', async () => {
+      const pluginPath = join(tempDir, 'echo.plugin.ts');
+      await Deno.writeTextFile(pluginPath, pluginSource('echo', 'echo_tool', 'Echo v1'));
+
+      await pluginManager.loadDynamicPlugin(pluginPath);
+      assertEquals(pluginManager.getPluginPath('echo'), pluginPath);
+      assertEquals(toolRegistry.getToolDefinition('echo_tool')?.title, 'Echo v1');
+
+      await Deno.writeTextFile(pluginPath, pluginSource('echo', 'echo_tool', 'Echo v2'));
+      await pluginManager.reloadDynamicPlugin('echo');
+
+      assertEquals(toolRegistry.getToolDefinition('echo_tool')?.title, 'Echo v2');
+      assertEquals(mockMcpServer.registeredTools.get('echo_tool')?.definition.title, 'Echo v2');
+    });
+
+    it('should keep the running plugin when the new version fails to import', async () => {
+      const pluginPath = join(tempDir, 'echo.plugin.ts');
+      await Deno.writeTextFile(pluginPath, pluginSource('echo', 'echo_tool', 'Echo v1'));
+      await pluginManager.loadDynamicPlugin(pluginPath);
+
+      await Deno.writeTextFile(pluginPath, 'export const nothing = 1;\n');
+      await assertRejects(() => pluginManager.reloadDynamicPlugin('echo'));
+
+      assert(pluginManager.hasPlugin('echo'));
+      assertEquals(toolRegistry.getToolDefinition('echo_tool')?.title, 'Echo v1');
+    });
+  });
+
+  describe('File Watching', () => {
+    it('should not watch when watchForChanges is disabled', async () => {
+      const manager = createPluginManager(false);
+      await manager.startWatching();
+      assertEquals(manager.isWatching(), false);
+    });
+
+    it('should reload changed plugins and re-register their tools', async () => {
+      const pluginPath = join(tempDir, 'echo.plugin.ts');
+      await Deno.writeTextFile(pluginPath, pluginSource('echo', 'echo_tool', 'Echo v1'));
+      await pluginManager.loadDynamicPlugin(pluginPath);
+
+      const events: PluginChangeEvent[] = [];
+      pluginManager.on('plugin:changed', (event) => {
+        events.push(event);
+      });
+      await pluginManager.startWatching();
+      assert(pluginManager.isWatching());
+
+      const listChangedBefore = mockMcpServer.listChangedCount;
+      await Deno.writeTextFile(pluginPath, pluginSource('echo', 'echo_tool', 'Echo v2'));
+
+      await waitFor(() => events.length > 0, 5000);
+      assertEquals(events[0], { action: 'reloaded', plugin: 'echo', path: pluginPath });
+      assertEquals(toolRegistry.getToolDefinition('echo_tool')?.title, 'Echo v2');
+      assertEquals(mockMcpServer.registeredTools.get('echo_tool')?.definition.title, 'Echo v2');
+      assert(mockMcpServer.listChangedCount > listChangedBefore);
+    });
+
+    it('should load new plugin files and unload deleted ones', async () => {
+      const events: PluginChangeEvent[] = [];
+      pluginManager.on('plugin:changed', (event) => {
+        events.push(event);
+      });
+      await pluginManager.startWatching();
+
+      const pluginPath = join(tempDir, 'greeter.plugin.ts');
+      await Deno.writeTextFile(pluginPath, pluginSource('greeter', 'greet', 'Greet'));
+
+      await waitFor(() => events.some((e) => e.action === 'loaded'), 5000);
+      assertExists(toolRegistry.getToolDefinition('greet'));
+      assert(mockMcpServer.registeredTools.has('greet'));
+
+      await Deno.remove(pluginPath);
+
+      await waitFor(() => events.some((e) => e.action === 'unloaded'), 5000);
+      assertEquals(pluginManager.hasPlugin('greeter'), false);
+      assertEquals(toolRegistry.getToolDefinition('greet'), undefined);
+      assertEquals(mockMcpServer.registeredTools.has('greet'), false);
+    });
+
+    it('should ignore files that are not plugins', async () => {
+      const events: PluginChangeEvent[] = [];
+      pluginManager.on('plugin:changed', (event) => {
+        events.push(event);
+      });
+      await pluginManager.startWatching();
+
+      await Deno.writeTextFile(join(tempDir, 'helpers.ts'), 'export const value = 1;\n');
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      assertEquals(events.length, 0);
+      assertEquals(pluginManager.getLoadedPlugins().length, 0);
+    });
+  });
+});
@@ -0,0 +1,367 @@
+/**
+ * Unit Tests for PromptRegistry
+ * Tests prompt registration, argument validation, templates, completion and handler modes
+ */
+
+import { assert, assertEquals, assertExists, assertRejects, assertThrows } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+import { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import { Client } from 'mcp/client/index.js';
+import { InMemoryTransport } from 'mcp/inMemory.js';
+import { McpError } from 'mcp/types.js';
+
+// Import components
+import { PromptRegistry } from '../../../src/lib/prompts/PromptRegistry.ts';
+import { CorePrompts } from '../../../src/lib/prompts/CorePrompts.ts';
+import { ToolRegistry } from '../../../src/lib/tools/ToolRegistry.ts';
+import { ToolHandlerMode } from '../../../src/lib/types/BeyondMcpTypes.ts';
+
+// Test helpers
+import { createMockErrorHandler, createMockLogger } from '../../utils/test-helpers.ts';
+
+/**
+ * Connect an MCP client to the SDK server over an in-memory transport
+ */
+async function connectClient(sdkMcpServer: SdkMcpServer): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'prompt-test-client', version: '1.0.0' });
+  await Promise.all([
+    sdkMcpServer.connect(serverTransport),
+    client.connect(clientTransport),
+  ]);
+  return client;
+}
+
+describe('PromptRegistry', () => {
+  let promptRegistry: PromptRegistry;
+  let sdkMcpServer: SdkMcpServer;
+  let client: Client | undefined;
+
+  beforeEach(() => {
+    sdkMcpServer = new SdkMcpServer({ name: 'prompt-test-server', version: '1.0.0' });
+    promptRegistry = new PromptRegistry({
+      logger: createMockLogger(),
+      errorHandler: createMockErrorHandler(),
+    });
+    promptRegistry.sdkMcpServer = sdkMcpServer;
+  });
+
+  afterEach(async () => {
+    await client?.close();
+    client = undefined;
+    promptRegistry.clear();
+  });
+
+  describe('Prompt Registration', () => {
+    it('should register a prompt with a handler', () => {
+      promptRegistry.registerPrompt(
+        'review_code',
+        {
+          title: 'Review Code',
+          description: 'Review a code snippet',
+          category: 'development',
+          argsSchema: { code: z.string() },
+        },
+        async (args) => ({
+          messages: [{ role: 'user', content: { type: 'text', text: `Review:\n${args.code}` } }],
+        }),
+      );
+
+      const registered = promptRegistry.getPromptInfo('review_code');
+      assertExists(registered);
+      assertEquals(registered.handlerMode, ToolHandlerMode.MANAGED);
+      assertEquals(promptRegistry.getPromptNames(), ['review_code']);
+      assertEquals(promptRegistry.getPromptsByCategory('development').length, 1);
+    });
+
+    it('should require a handler or message templates', () => {
+      assertThrows(
+        () =>
+          promptRegistry.registerPrompt('empty', {
+            title: 'Empty',
+            description: 'No handler and no messages',
+          }),
+        Error,
+        'either a handler or at least one message template',
+      );
+    });
+
+    it('should reject completions for unknown arguments', () => {
+      assertThrows(
+        () =>
+          promptRegistry.registerPrompt('bad_completion', {
+            title: 'Bad Completion',
+            description: 'Completion for a missing argument',
+            argsSchema: { topic: z.string() },
+            messages: [{ role: 'user', text: '{{topic}}' }],
+            complete: { language: () => ['en'] },
+          }),
+        Error,
+        'unknown argument: language',
+      );
+    });
+
+    it('should fail when SDK MCP server has not been set', () => {
+      const registry = new PromptRegistry({
+        logger: createMockLogger(),
+        errorHandler: createMockErrorHandler(),
+      });
+
+      assertThrows(
+        () =>
+          registry.registerPrompt('greeting', {
+            title: 'Greeting',
+            description: 'Say hello',
+            messages: [{ role: 'user', text: 'Hello' }],
+          }),
+        Error,
+        'SDK MCP server has not been set',
+      );
+    });
+
+    it('should remove prompts from the SDK server', async () => {
+      promptRegistry.registerPrompt('greeting', {
+        title: 'Greeting',
+        description: 'Say hello',
+        messages: [{ role: 'user', text: 'Hello' }],
+      });
+      promptRegistry.registerPrompt('farewell', {
+        title: 'Farewell',
+        description: 'Say goodbye',
+        messages: [{ role: 'user', text: 'Goodbye' }],
+      });
+
+      assert(promptRegistry.removePrompt('greeting'));
+      assertEquals(promptRegistry.removePrompt('greeting'), false);
+
+      client = await connectClient(sdkMcpServer);
+      const { prompts } = await client.listPrompts();
+      assertEquals(prompts.map((prompt) => prompt.name), ['farewell']);
+    });
+  });
+
+  describe('Templates', () => {
+    it('should render placeholders in template strings', () => {
+      assertEquals(
+        PromptRegistry.renderTemplate('Hello {{ name }}, you are {{age}}{{missing}}', {
+          name: 'Ada',
+          age: 36,
+        }),
+        'Hello Ada, you are 36',
+      );
+    });
+
+    it('should render multi-message templates with validated arguments', async () => {
+      promptRegistry.registerPrompt('translate', {
+        title: 'Translate',
+        description: 'Translate text',
+        argsSchema: {
+          text: z.string(),
+          language: z.string().default('French'),
+        },
+        messages: [
+          { role: 'user', text: 'Translate into {{language}}:' },
+          { role: 'assistant', text: 'Sure, what is the text?' },
+          { role: 'user', text: '{{text}}' },
+        ],
+      });
+
+      const result = await promptRegistry.getPrompt('translate', { text: 'Good morning' });
+      assertEquals(result.description, 'Translate text');
+      assertEquals(result.messages.map((message) => message.role), ['user', 'assistant', 'user']);
+      assertEquals(result.messages[0]?.content, { type: 'text', text: 'Translate into French:' });
+      assertEquals(result.messages[2]?.content, { type: 'text', text: 'Good morning' });
+      assertEquals(promptRegistry.getPromptInfo('translate')?.getCount, 1);
+    });
+  });
+
+  describe('Managed Mode', () => {
+    it('should reject invalid arguments with InvalidParams', async () => {
+      promptRegistry.registerPrompt('count', {
+        title: 'Count',
+        description: 'Count to a number',
+        argsSchema: { limit: z.coerce.number().int().max(10) },
+        messages: [{ role: 'user', text: 'Count to {{limit}}' }],
+      });
+
+      await assertRejects(
+        () => promptRegistry.getPrompt('count', { limit: '50' }),
+        McpError,
+        'Validation error',
+      );
+    });
+
+    it('should wrap handler errors as internal errors', async () => {
+      promptRegistry.registerPrompt(
+        'broken',
+        { title: 'Broken', description: 'Always fails' },
+        async () => {
+          throw new Error('template store unavailable');
+        },
+      );
+
+      await assertRejects(
+        () => promptRegistry.getPrompt('broken', {}),
+        McpError,
+        'template store unavailable',
+      );
+    });
+
+    it('should serve prompts/get and prompts/list through the SDK server', async () => {
+      promptRegistry.registerPrompt('greeting', {
+        title: 'Greeting',
+        description: 'Greet someone',
+        argsSchema: { name: z.string().describe('Who to greet') },
+        messages: [{ role: 'user', text: 'Say hello to {{name}}' }],
+      });
+      promptRegistry.registerPrompt(
+        'status',
+        { title: 'Status', description: 'Status without arguments' },
+        async () => ({
+          messages: [{ role: 'user', content: { type: 'text', text: 'All systems go' } }],
+        }),
+      );
+
+      client = await connectClient(sdkMcpServer);
+
+      const { prompts } = await client.listPrompts();
+      const greeting = prompts.find((prompt) => prompt.name === 'greeting');
+      assertEquals(greeting?.arguments, [
+        { name: 'name', description: 'Who to greet', required: true },
+      ]);
+
+      const greetingResult = await client.getPrompt({
+        name: 'greeting',
+        arguments: { name: 'Grace' },
+      });
+      assertEquals(greetingResult.messages[0]?.content, {
+        type: 'text',
+        text: 'Say hello to Grace',
+      });
+
+      const statusResult = await client.getPrompt({ name: 'status' });
+      assertEquals(statusResult.messages[0]?.content, { type: 'text', text: 'All systems go' });
+    });
+  });
+
+  describe('Native Mode', () => {
+    it('should pass arguments directly to the handler', async () => {
+      promptRegistry.registerPrompt(
+        'native_prompt',
+        {
+          title: 'Native Prompt',
+          description: 'Handled without the managed wrapper',
+          argsSchema: { topic: z.string() },
+        },
+        async (args) => ({
+          messages: [{ role: 'user', content: { type: 'text', text: `Native ${args.topic}` } }],
+        }),
+        { handlerMode: ToolHandlerMode.NATIVE },
+      );
+
+      client = await connectClient(sdkMcpServer);
+      const result = await client.getPrompt({ name: 'native_prompt', arguments: { topic: 'x' } });
+      assertEquals(result.messages[0]?.content, { type: 'text', text: 'Native x' });
+      // Native prompts bypass the managed wrapper, so statistics are not tracked
+      assertEquals(promptRegistry.getPromptInfo('native_prompt')?.getCount, 0);
+    });
+
+    it('should call native handlers of prompts without arguments with empty args', async () => {
+      promptRegistry.registerPrompt(
+        'native_status',
+        { title: 'Native Status', description: 'No arguments' },
+        (args, extra) =>
+          Promise.resolve({
+            messages: [{
+              role: 'user',
+              content: {
+                type: 'text',
+                text: `${Object.keys(args).length} ${typeof extra?.requestId}`,
+              },
+            }],
+          }),
+        { handlerMode: ToolHandlerMode.NATIVE },
+      );
+
+      client = await connectClient(sdkMcpServer);
+      const result = await client.getPrompt({ name: 'native_status' });
+      assertEquals(result.messages[0]?.content, { type: 'text', text: '0 string' });
+    });
+  });
+
+  describe('Completion', () => {
+    it('should complete prompt arguments via completion/complete', async () => {
+      promptRegistry.registerPrompt('deploy', {
+        title: 'Deploy',
+        description: 'Plan a deployment',
+        argsSchema: { environment: z.string() },
+        messages: [{ role: 'user', text: 'Plan a deployment to {{environment}}' }],
+        complete: {
+          environment: (value) =>
+            ['development', 'staging', 'production'].filter((env) => env.startsWith(value)),
+        },
+      });
+
+      client = await connectClient(sdkMcpServer);
+      const result = await client.complete({
+        ref: { type: 'ref/prompt', name: 'deploy' },
+        argument: { name: 'environment', value: 'pr' },
+      });
+      assertEquals(result.completion.values, ['production']);
+    });
+  });
+});
+
+describe('CorePrompts', () => {
+  let promptRegistry: PromptRegistry;
+  let toolRegistry: ToolRegistry;
+
+  beforeEach(() => {
+    const sdkMcpServer = new SdkMcpServer({ name: 'core-prompts-test', version: '1.0.0' });
+    const logger = createMockLogger();
+    promptRegistry = new PromptRegistry({ logger, errorHandler: createMockErrorHandler() });
+    promptRegistry.sdkMcpServer = sdkMcpServer;
+    toolRegistry = new ToolRegistry({ logger, errorHandler: createMockErrorHandler() });
+    toolRegistry.sdkMcpServer = sdkMcpServer;
+
+    toolRegistry.registerTool(
+      'echo',
+      {
+        title: 'Echo',
+        description: 'Echo a message',
+        inputSchema: { message: z.string().describe('Message to echo back') },
+      },
+      async (args) => ({ content: [{ type: 'text', text: args.message }] }),
+    );
+
+    new CorePrompts({ logger, toolRegistry }).registerWith(promptRegistry);
+  });
+
+  it('should register the core prompts', () => {
+    assertEquals(promptRegistry.getPromptNames(), ['summarize', 'tool_usage']);
+    assertEquals(promptRegistry.getPromptsByCategory('core').length, 2);
+  });
+
+  it('should render the summarize template with the default style', async () => {
+    const result = await promptRegistry.getPrompt('summarize', { text: 'Long text' });
+    assertEquals(result.messages[0]?.content, {
+      type: 'text',
+      text: 'Summarize the following text. Use a brief style.\n\nLong text',
+    });
+  });
+
+  it('should describe registered tools in tool_usage', async () => {
+    const result = await promptRegistry.getPrompt('tool_usage', { toolName: 'echo' });
+    assertEquals(result.messages.length, 3);
+    const explanation = result.messages[1]?.content;
+    assert(explanation?.type === 'text');
+    assert(explanation.text.includes('- message: Message to echo back'));
+
+    await assertRejects(
+      () => promptRegistry.getPrompt('tool_usage', { toolName: 'missing' }),
+      McpError,
+      'Unknown tool: missing',
+    );
+  });
+});
@@ -0,0 +1,395 @@
+/**
+ * Unit Tests for ResourceRegistry
+ * Tests resource registration, template parameter validation, paging and subscriptions
+ */
+
+import { assert, assertEquals, assertExists, assertRejects, assertThrows } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from 'mcp/types.js';
+
+// Import components
+import { ResourceRegistry } from '../../../src/lib/resources/ResourceRegistry.ts';
+
+// Test helpers
+import { createMockErrorHandler, createMockLogger } from '../../utils/test-helpers.ts';
+
+// Mock MCP Server with the subset of the SDK API used by ResourceRegistry
+class MockMcpServer {
+  public registeredResources = new Map<string, any>();
+  public requestHandlers = new Map<unknown, (request: any, extra: any) => Promise<any>>();
+  public capabilities: Record<string, unknown> = {};
+
+  server = {
+    setRequestHandler: (schema: unknown, handler: any) => {
+      this.requestHandlers.set(schema, handler);
+    },
+    registerCapabilities: (capabilities: Record<string, unknown>) => {
+      this.capabilities = { ...this.capabilities, ...capabilities };
+    },
+  };
+
+  registerResource(name: string, uriOrTemplate: any, metadata: any, handler: any) {
+    const entry = { name, uriOrTemplate, metadata, handler, removed: false };
+    this.registeredResources.set(name, entry);
+    return {
+      remove: () => {
+        entry.removed = true;
+        this.registeredResources.delete(name);
+      },
+    };
+  }
+
+  sendResourceListChanged() {}
+}
+
+describe('ResourceRegistry', () => {
+  let resourceRegistry: ResourceRegistry;
+  let mockMcpServer: MockMcpServer;
+
+  beforeEach(() => {
+    mockMcpServer = new MockMcpServer();
+    resourceRegistry = new ResourceRegistry({
+      logger: createMockLogger(),
+      errorHandler: createMockErrorHandler(),
+      config: { pageSize: 2 },
+    });
+    resourceRegistry.sdkMcpServer = mockMcpServer as any;
+  });
+
+  afterEach(() => {
+    resourceRegistry.clear();
+  });
+
+  describe('Resource Registration', () => {
+    it('should register a static resource', () => {
+      resourceRegistry.registerResource(
+        'readme',
+        {
+          title: 'Readme',
+          description: 'Project readme',
+          uri: 'docs://readme',
+          mimeType: 'text/markdown',
+        },
+        async (uri) => ({ contents: [{ uri: uri.href, text: '# Readme' }] }),
+      );
+
+      assert(mockMcpServer.registeredResources.has('readme'));
+      const registered = resourceRegistry.getResource('readme');
+      assertExists(registered);
+      assertEquals(registered.isTemplate, false);
+      assertEquals(resourceRegistry.getResourceCount(), 1);
+    });
+
+    it('should register a URI template with a parameter validator', () => {
+      resourceRegistry.registerResource(
+        'user_profile',
+        {
+          title: 'User Profile',
+          description: 'Profile for a user',
+          uriTemplate: 'users://{userId}/profile',
+          paramsSchema: { userId: z.string().min(3) },
+        },
+        async (uri, params) => ({ contents: [{ uri: uri.href, text: params.userId }] }),
+      );
+
+      const registered = resourceRegistry.getResource('user_profile');
+      assertExists(registered);
+      assertEquals(registered.isTemplate, true);
+      assertExists(registered.validator);
+    });
+
+    it('should reject definitions with both or neither uri and uriTemplate', () => {
+      assertThrows(
+        () =>
+          resourceRegistry.registerResource(
+            'invalid',
+            { title: 'Invalid', description: 'Invalid resource' },
+            async () => ({ contents: [] }),
+          ),
+        Error,
+        'exactly one of uri or uriTemplate',
+      );
+
+      assertThrows(
+        () =>
+          resourceRegistry.registerResource(
+            'invalid_both',
+            {
+              title: 'Invalid',
+              description: 'Invalid resource',
+              uri: 'docs://a',
+              uriTemplate: 'docs://{id}',
+            },
+            async () => ({ contents: [] }),
+          ),
+        Error,
+        'exactly one of uri or uriTemplate',
+      );
+    });
+
+    it('should fail when SDK MCP server has not been set', () => {
+      const registry = new ResourceRegistry({
+        logger: createMockLogger(),
+        errorHandler: createMockErrorHandler(),
+      });
+
+      assertThrows(
+        () =>
+          registry.registerResource(
+            'readme',
+            { title: 'Readme', description: 'Readme', uri: 'docs://readme' },
+            async () => ({ contents: [] }),
+          ),
+        Error,
+        'SDK MCP server has not been set',
+      );
+    });
+
+    it('should remove resources from the SDK server', () => {
+      resourceRegistry.registerResource(
+        'readme',
+        { title: 'Readme', description: 'Readme', uri: 'docs://readme' },
+        async () => ({ contents: [] }),
+      );
+
+      assert(resourceRegistry.removeResource('readme'));
+      assertEquals(mockMcpServer.registeredResources.has('readme'), false);
+      assertEquals(resourceRegistry.removeResource('readme'), false);
+    });
+  });
+
+  describe('Resource Reading', () => {
+    it('should validate template parameters before calling the handler', async () => {
+      let handlerCalled = false;
+      resourceRegistry.registerResource(
+        'order',
+        {
+          title: 'Order',
+          description: 'Order details',
+          uriTemplate: 'orders://{orderId}',
+          paramsSchema: { orderId: z.coerce.number().int().positive() },
+        },
+        async (uri, params) => {
+          handlerCalled = true;
+          return { contents: [{ uri: uri.href, text: `order ${params.orderId + 1}` }] };
+        },
+      );
+
+      const result = await resourceRegistry.readResource(
+        'order',
+        new URL('orders://41'),
+        { orderId: '41' },
+      );
+      assertEquals(result.contents[0], { uri: 'orders://41', text: 'order 42' });
+      assert(handlerCalled);
+
+      await assertRejects(
+        () => resourceRegistry.readResource('order', new URL('orders://abc'), { orderId: 'abc' }),
+        McpError,
+        'Validation error',
+      );
+    });
+
+    it('should apply the default MIME type to contents without one', async () => {
+      resourceRegistry.registerResource(
+        'config',
+        {
+          title: 'Config',
+          description: 'Server config',
+          uri: 'config://server',
+          mimeType: 'application/json',
+        },
+        async (uri) => ({
+          contents: [
+            { uri: uri.href, text: '{}' },
+            { uri: uri.href, text: 'plain', mimeType: 'text/plain' },
+          ],
+        }),
+      );
+
+      const result = await resourceRegistry.readResource('config', new URL('config://server'), {});
+      assertEquals(result.contents[0]?.mimeType, 'application/json');
+      assertEquals(result.contents[1]?.mimeType, 'text/plain');
+      assertEquals(resourceRegistry.getResource('config')?.readCount, 1);
+    });
+
+    it('should map handler errors to MCP internal errors', async () => {
+      resourceRegistry.registerResource(
+        'broken',
+        { title: 'Broken', description: 'Always fails', uri: 'broken://resource' },
+        async () => {
+          throw new Error('backend unavailable');
+        },
+      );
+
+      await assertRejects(
+        () => resourceRegistry.readResource('broken', new URL('broken://resource'), {}),
+        McpError,
+        'backend unavailable',
+      );
+    });
+  });
+
+  describe('Resource Listing', () => {
+    beforeEach(() => {
+      for (const name of ['a', 'b', 'c']) {
+        resourceRegistry.registerResource(
+          `static_${name}`,
+          { title: `Static ${name}`, description: 'Static resource', uri: `static://${name}` },
+          async (uri) => ({ contents: [{ uri: uri.href, text: name }] }),
+        );
+      }
+      resourceRegistry.registerResource(
+        'items',
+        {
+          title: 'Items',
+          description: 'Item resources',
+          uriTemplate: 'items://{id}',
+          mimeType: 'application/json',
+          list: async () => [{ uri: 'items://1', name: 'Item 1' }],
+        },
+        async (uri) => ({ contents: [{ uri: uri.href, text: '{}' }] }),
+      );
+    });
+
+    it('should page resources/list results with an opaque cursor', async () => {
+      const firstPage = await resourceRegistry.listResources();
+      assertEquals(firstPage.resources.length, 2);
+      assertExists(firstPage.nextCursor);
+
+      const secondPage = await resourceRegistry.listResources(firstPage.nextCursor);
+      assertEquals(secondPage.resources.map((r) => r.uri), ['static://c', 'items://1']);
+      assertEquals(secondPage.resources[1]?.mimeType, 'application/json');
+      assertEquals(secondPage.nextCursor, undefined);
+    });
+
+    it('should reject invalid cursors', async () => {
+      await assertRejects(() => resourceRegistry.listResources(btoa('-1')), McpError);
+      await assertRejects(
+        () => resourceRegistry.listResources('not base64!'),
+        McpError,
+        'Invalid cursor',
+      );
+    });
+
+    it('should serve paged lists through the protocol handlers', async () => {
+      const listHandler = mockMcpServer.requestHandlers.get(ListResourcesRequestSchema);
+      assertExists(listHandler);
+      const result = await listHandler({ method: 'resources/list', params: {} }, {});
+      assertEquals(result.resources.length, 2);
+
+      const templatesHandler = mockMcpServer.requestHandlers.get(
+        ListResourceTemplatesRequestSchema,
+      );
+      assertExists(templatesHandler);
+      const templates = await templatesHandler({ method: 'resources/templates/list' }, {});
+      assertEquals(templates.resourceTemplates, [{
+        uriTemplate: 'items://{id}',
+        name: 'items',
+        title: 'Items',
+        description: 'Item resources',
+        mimeType: 'application/json',
+      }]);
+    });
+  });
+
+  describe('Subscriptions', () => {
+    beforeEach(() => {
+      resourceRegistry.registerResource(
+        'status',
+        { title: 'Status', description: 'Live status', uri: 'status://live' },
+        async (uri) => ({ contents: [{ uri: uri.href, text: 'ok' }] }),
+      );
+    });
+
+    it('should advertise the subscribe capability', () => {
+      assertEquals(mockMcpServer.capabilities.resources, { subscribe: true, listChanged: true });
+    });
+
+    it('should only notify when a session is subscribed', async () => {
+      assertEquals(await resourceRegistry.notifyResourceUpdated('status://live'), false);
+
+      const sent: unknown[] = [];
+      const subscribeHandler = mockMcpServer.requestHandlers.get(SubscribeRequestSchema);
+      assertExists(subscribeHandler);
+      await subscribeHandler(
+        { method: 'resources/subscribe', params: { uri: 'status://live' } },
+        {
+          sessionId: 'session-1',
+          sendNotification: (notification: unknown) => {
+            sent.push(notification);
+            return Promise.resolve();
+          },
+        },
+      );
+      assertEquals(resourceRegistry.getSubscribers('status://live'), ['session-1']);
+
+      assertEquals(await resourceRegistry.notifyResourceUpdated('status://live'), true);
+      assertEquals(sent, [{
+        method: 'notifications/resources/updated',
+        params: { uri: 'status://live' },
+      }]);
+
+      const unsubscribeHandler = mockMcpServer.requestHandlers.get(UnsubscribeRequestSchema);
+      assertExists(unsubscribeHandler);
+      await unsubscribeHandler(
+        { method: 'resources/unsubscribe', params: { uri: 'status://live' } },
+        { sessionId: 'session-1' },
+      );
+      assertEquals(await resourceRegistry.notifyResourceUpdated('status://live'), false);
+    });
+
+    it('should notify each subscribed session through its own transport', async () => {
+      const sent: string[] = [];
+      resourceRegistry.subscribe('status://live', () => {
+        sent.push('session-1');
+        return Promise.resolve();
+      }, 'session-1');
+      resourceRegistry.subscribe(
+        'status://live',
+        () => Promise.reject(new Error('Transport closed')),
+        'session-2',
+      );
+      resourceRegistry.subscribe('status://live', () => {
+        sent.push('session-3');
+        return Promise.resolve();
+      }, 'session-3');
+
+      assertEquals(await resourceRegistry.notifyResourceUpdated('status://live'), true);
+      assertEquals(sent, ['session-1', 'session-3']);
+    });
+
+    it('should clear all subscriptions for a closed session', () => {
+      resourceRegistry.subscribe('status://live', () => Promise.resolve(), 'session-1');
+      resourceRegistry.subscribe('status://live', () => Promise.resolve(), 'session-2');
+      resourceRegistry.clearSessionSubscriptions('session-1');
+      assertEquals(resourceRegistry.getSubscribers('status://live'), ['session-2']);
+    });
+
+    it('should clear subscriptions to template URIs when the template is removed', () => {
+      resourceRegistry.registerResource(
+        'items',
+        {
+          title: 'Items',
+          description: 'Item resources',
+          uriTemplate: 'items://{id}',
+          paramsSchema: { id: z.string() },
+        },
+        (uri) => Promise.resolve({ contents: [{ uri: uri.href, text: '{}' }] }),
+      );
+      resourceRegistry.subscribe('items://1', () => Promise.resolve(), 'session-1');
+      resourceRegistry.subscribe('status://live', () => Promise.resolve(), 'session-1');
+
+      assert(resourceRegistry.removeResource('items'));
+      assertEquals(resourceRegistry.getSubscribers('items://1'), []);
+      assertEquals(resourceRegistry.getSubscribers('status://live'), ['session-1']);
+    });
+  });
+});
@@ -0,0 +1,617 @@
+/**
+ * Unit Tests for APIRouter
+ * Tests audit log search and verification endpoints, admin endpoints, workflow execution
+ * and their scope checks
+ */
+
+import { assert, assertEquals, assertStringIncludes } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+
+import { type APIConfig, APIRouter } from '../../../src/lib/server/APIRouter.ts';
+import { ConfigReloadError } from '../../../src/lib/server/ConfigReloader.ts';
+import { type AuditConfig, AuditLogger } from '../../../src/lib/utils/AuditLogger.ts';
+import {
+  WorkflowBase,
+  type WorkflowDependencies,
+} from '../../../src/lib/workflows/WorkflowBase.ts';
+import type {
+  WorkflowContext,
+  WorkflowRegistration,
+  WorkflowResult,
+} from '../../../src/lib/types/WorkflowTypes.ts';
+
+import { createMockConfigManager, createMockLogger } from '../../utils/test-helpers.ts';
+
+const logCalls: AuditConfig['logCalls'] = {
+  api: true,
+  auth: true,
+  workflow_execution: true,
+  workflow_operation: true,
+  tools: true,
+  system: true,
+  custom: true,
+};
+
+const tokens: Record<string, { scope: string; userId: string }> = {
+  'admin-token': { scope: 'read admin', userId: 'admin-user' },
+  'user-token': { scope: 'read write', userId: 'regular-user' },
+  // A regular user who asked the authorization endpoint for scope=admin
+  'self-granted-token': { scope: 'read admin', userId: 'regular-user' },
+};
+
+const registeredClient = {
+  client_id: 'client-1',
+  client_name: 'Test Client',
+  client_secret_hash: 'secret-hash',
+  client_secret_expires_at: 0,
+  redirect_uris: ['http://localhost/callback'],
+  created_at: 1,
+  updated_at: 1,
+};
+
+// Records the admin operations the router performs
+const calls: string[] = [];
+
+const oauthProvider = {
+  validateAccessToken: (token: string) => {
+    const grant = tokens[token];
+    return Promise.resolve(
+      grant
+        ? { valid: true, clientId: 'client-1', ...grant }
+        : { valid: false, error: 'Unknown token', errorCode: 'invalid_token' },
+    );
+  },
+  listClients: () => Promise.resolve([registeredClient]),
+  getClient: (clientId: string) =>
+    Promise.resolve(clientId === registeredClient.client_id ? registeredClient : null),
+  getClientStats: () => Promise.resolve({ totalClients: 1 }),
+  getTokenStats: () => Promise.resolve({ totalAccessTokens: 3 }),
+  revokeClient: (clientId: string) => {
+    calls.push(`revokeClient:${clientId}`);
+    return Promise.resolve(
+      clientId === registeredClient.client_id
+        ? { revoked: true, revokedTokens: 2 }
+        : { revoked: false, revokedTokens: 0 },
+    );
+  },
+  revokeUserTokens: (userId: string) => {
+    calls.push(`revokeUserTokens:${userId}`);
+    return Promise.resolve(4);
+  },
+  getUserCredentialProviders: () => Promise.resolve(['github']),
+  deleteUserCredentials: (userId: string, provider?: string) => {
+    calls.push(`deleteUserCredentials:${userId}:${provider ?? '*'}`);
+    return Promise.resolve(provider ? 1 : 2);
+  },
+};
+
+const liveSession = {
+  sessionId: 'session-1',
+  connectedAt: 1,
+  lastActivity: 1,
+  requestCount: 1,
+  transport: 'http',
+  userId: 'alice',
+};
+
+const transportManager = {
+  getSessionCount: () => 1,
+  getClientSessions: () => [liveSession],
+  getUserClientSessions: (userId: string) => userId === 'alice' ? [liveSession] : [],
+  closeSession: (sessionId: string) => {
+    calls.push(`closeSession:${sessionId}`);
+    return Promise.resolve(sessionId === liveSession.sessionId);
+  },
+};
+
+const sessionManager = {
+  getUserSessions: () => Promise.resolve([{ id: 'stored-1', userId: 'alice' }]),
+  deleteUserSessions: (userId: string) => {
+    calls.push(`deleteUserSessions:${userId}`);
+    return Promise.resolve(1);
+  },
+  deleteSession: () => Promise.resolve(),
+};
+
+class GreetWorkflow extends WorkflowBase {
+  readonly name = 'greet';
+  readonly version = '1.0.0';
+  readonly description = 'Greets a user';
+  readonly category = 'utility' as const;
+  readonly tags = ['test'];
+  override readonly requiredScopes = ['write'];
+
+  readonly parameterSchema = z.object({
+    userId: z.string(),
+    name: z.string().min(1),
+    dryRun: z.boolean().optional(),
+  });
+
+  getRegistration(): WorkflowRegistration {
+    return {
+      name: this.name,
+      displayName: 'Greet',
+      description: this.description,
+      version: this.version,
+      category: this.category,
+      requiresAuth: true,
+      parameterSchema: this.parameterSchema,
+    };
+  }
+
+  getOverview(): string {
+    return this.description;
+  }
+
+  protected executeWorkflow(
+    params: z.infer<typeof this.parameterSchema>,
+    context: WorkflowContext,
+  ): Promise<WorkflowResult> {
+    calls.push(`greet:${params.name}:${context.userId}:${context.authenticatedUserId}`);
+    return Promise.resolve({
+      success: true,
+      data: { greeting: `Hello, ${params.name}` },
+      completed_steps: [this.createStepResult('greet', true, { name: params.name })],
+      failed_steps: [],
+      metadata: {},
+    });
+  }
+}
+
+const greetWorkflow = new GreetWorkflow({
+  logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+  configManager: createMockConfigManager(),
+  kvManager: {} as WorkflowDependencies['kvManager'],
+});
+
+const workflowRegistry = {
+  getWorkflow: (name: string) => name === 'greet' ? greetWorkflow : undefined,
+  recordExecution: (name: string, result: WorkflowResult) => {
+    calls.push(`recordExecution:${name}:${result.success}`);
+  },
+};
+
+const send = (
+  router: APIRouter,
+  method: string,
+  path: string,
+  token?: string,
+  body?: unknown,
+) =>
+  router.handleRequest(
+    new Request(`http://localhost:3000/api/v1/${path}`, {
+      method,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+      ...(body !== undefined && {
+        body: typeof body === 'string' ? body : JSON.stringify(body),
+      }),
+    }),
+    path.split('?')[0]!,
+    method,
+  );
+
+const get = (router: APIRouter, path: string, token?: string) => send(router, 'GET', path, token);
+
+describe('APIRouter', () => {
+  let dir: string;
+  let auditLogger: AuditLogger;
+
+  const createRouter = (
+    overrides: Record<string, unknown> = {},
+    config: Partial<APIConfig> = {},
+  ) =>
+    new APIRouter({ version: 'v1', basePath: '/api/v1', adminUsers: ['admin-user'], ...config }, {
+      logger: createMockLogger(),
+      httpServerConfig: { name: 'test-server', version: '1.0.0' },
+      oauthProvider,
+      transportManager,
+      sessionManager,
+      workflowRegistry,
+      auditLogger,
+      ...overrides,
+    } as any);
+
+  beforeEach(async () => {
+    calls.length = 0;
+    dir = await Deno.makeTempDir();
+    auditLogger = await new AuditLogger({
+      enabled: true,
+      logFile: `${dir}/audit.log`,
+      logCalls,
+      flushInterval: 60_000,
+    }).initialize();
+
+    await auditLogger.logAuthEvent({ event: 'login', success: true, userId: 'alice' });
+    await auditLogger.logToolCall({
+      toolName: 'echo',
+      toolClass: 'EchoTool',
+      version: '1.0.0',
+      category: 'test',
+      success: true,
+      durationMs: 3,
+      userId: 'bob',
+    });
+  });
+
+  afterEach(async () => {
+    await auditLogger.close();
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  describe('Audit Endpoints', () => {
+    it('should require a bearer token', async () => {
+      const response = await get(createRouter(), 'audit');
+      assertEquals(response.status, 401);
+      assertStringIncludes(response.headers.get('WWW-Authenticate')!, 'error="invalid_request"');
+      await response.body?.cancel();
+
+      const invalid = await get(createRouter(), 'audit', 'unknown-token');
+      assertEquals(invalid.status, 401);
+      assertStringIncludes(invalid.headers.get('WWW-Authenticate')!, 'error="invalid_token"');
+      await invalid.body?.cancel();
+    });
+
+    it('should reject tokens without the admin scope', async () => {
+      const response = await get(createRouter(), 'audit', 'user-token');
+      assertEquals(response.status, 403);
+      assertStringIncludes(
+        response.headers.get('WWW-Authenticate')!,
+        'error="insufficient_scope", error_description="Requires scope: admin", scope="admin"',
+      );
+      await response.body?.cancel();
+    });
+
+    it('should refuse admin-scoped tokens of users not listed as admins', async () => {
+      const response = await get(createRouter(), 'audit', 'self-granted-token');
+      assertEquals(response.status, 403);
+      assertEquals((await response.json()).error.message, 'Caller is not an administrator');
+
+      const verify = await get(createRouter(), 'audit/verify', 'self-granted-token');
+      assertEquals(verify.status, 403);
+      await verify.body?.cancel();
+    });
+
+    it('should search entries with query filters', async () => {
+      const router = createRouter();
+
+      const all = await (await get(router, 'audit', 'admin-token')).json();
+      assertEquals(all.count, 2);
+      assertEquals(all.entries[0].toolName, 'echo');
+
+      const byUser = await (await get(router, 'audit?userId=alice', 'admin-token')).json();
+      assertEquals(byUser.entries.map((entry: { event: string }) => entry.event), ['login']);
+
+      const byType = await (await get(router, 'audit?type=tool_call&limit=5000', 'admin-token'))
+        .json();
+      assertEquals(byType.count, 1);
+      assertEquals(byType.limit, 1000);
+
+      const future = new Date(Date.now() + 60_000).toISOString();
+      const none = await (await get(router, `audit?start=${future}`, 'admin-token')).json();
+      assertEquals(none.count, 0);
+    });
+
+    it('should reject invalid query parameters', async () => {
+      const router = createRouter();
+
+      const badDate = await get(router, 'audit?start=yesterday', 'admin-token');
+      assertEquals(badDate.status, 400);
+      await badDate.body?.cancel();
+
+      const badLimit = await get(router, 'audit?limit=0', 'admin-token');
+      assertEquals(badLimit.status, 400);
+      await badLimit.body?.cancel();
+    });
+
+    it('should verify the hash chain', async () => {
+      const body = await (await get(createRouter(), 'audit/verify', 'admin-token')).json();
+      assert(body.valid);
+      assertEquals(body.entriesChecked, 2);
+    });
+
+    it('should return 404 when audit logging is disabled', async () => {
+      const router = createRouter({ auditLogger: undefined });
+      const response = await get(router, 'audit', 'admin-token');
+      assertEquals(response.status, 404);
+      await response.body?.cancel();
+    });
+
+    it('should honour a configured API scope', async () => {
+      auditLogger.updateConfig({ apiScope: 'write' });
+      const router = createRouter({}, { adminUsers: ['regular-user'] });
+      const response = await get(router, 'audit', 'user-token');
+      assertEquals(response.status, 200);
+      await response.body?.cancel();
+    });
+  });
+
+  describe('Admin Endpoints', () => {
+    it('should require the admin scope', async () => {
+      const response = await send(
+        createRouter(),
+        'DELETE',
+        'admin/users/alice/tokens',
+        'user-token',
+      );
+      assertEquals(response.status, 403);
+      await response.body?.cancel();
+      assertEquals(calls, []);
+    });
+
+    it('should refuse admin-scoped tokens of users not listed as admins', async () => {
+      const response = await send(
+        createRouter(),
+        'DELETE',
+        'admin/users/alice/tokens',
+        'self-granted-token',
+      );
+      assertEquals(response.status, 403);
+      assertEquals((await response.json()).error.message, 'Caller is not an administrator');
+      assertEquals(calls, []);
+
+      // Nobody is an admin until the operator lists them
+      const unlisted = await get(createRouter({}, { adminUsers: [] }), 'admin', 'admin-token');
+      assertEquals(unlisted.status, 403);
+      await unlisted.body?.cancel();
+
+      const byClient = await get(
+        createRouter({}, { adminUsers: [], adminClients: ['client-1'] }),
+        'admin',
+        'admin-token',
+      );
+      assertEquals(byClient.status, 200);
+      await byClient.body?.cancel();
+    });
+
+    it('should list and inspect clients without their secrets', async () => {
+      const router = createRouter();
+
+      const list = await (await get(router, 'admin/clients', 'admin-token')).json();
+      assertEquals(list.count, 1);
+      assertEquals(list.clients[0].client_id, 'client-1');
+      assertEquals(list.clients[0].client_secret_hash, undefined);
+
+      const client = await (await get(router, 'admin/clients/client-1', 'admin-token')).json();
+      assertEquals(client.client.client_name, 'Test Client');
+      assertEquals(client.client.client_secret_hash, undefined);
+
+      const missing = await get(router, 'admin/clients/unknown', 'admin-token');
+      assertEquals(missing.status, 404);
+      await missing.body?.cancel();
+    });
+
+    it('should revoke a client and record it in the audit log', async () => {
+      const response = await send(
+        createRouter(),
+        'DELETE',
+        'admin/clients/client-1',
+        'admin-token',
+      );
+      assertEquals(await response.json(), {
+        clientId: 'client-1',
+        revoked: true,
+        revokedTokens: 2,
+      });
+      assertEquals(calls, ['revokeClient:client-1']);
+
+      const [entry] = await auditLogger.searchLogs({ event: 'admin_revoke_client' });
+      assertEquals(entry?.userId, 'admin-user');
+    });
+
+    it('should list and close sessions', async () => {
+      const router = createRouter();
+
+      const sessions = await (await get(router, 'admin/sessions', 'admin-token')).json();
+      assertEquals(sessions.count, 1);
+
+      const userSessions = await (await get(router, 'admin/users/alice/sessions', 'admin-token'))
+        .json();
+      assertEquals(userSessions.connected.length, 1);
+      assertEquals(userSessions.stored.length, 1);
+
+      const closed = await send(router, 'DELETE', 'admin/sessions/session-1', 'admin-token');
+      assertEquals((await closed.json()).closed, true);
+
+      const missing = await send(router, 'DELETE', 'admin/sessions/unknown', 'admin-token');
+      assertEquals(missing.status, 404);
+      await missing.body?.cancel();
+    });
+
+    it('should close and delete all sessions of a user', async () => {
+      const response = await send(
+        createRouter(),
+        'DELETE',
+        'admin/users/alice/sessions',
+        'admin-token',
+      );
+      assertEquals(await response.json(), { userId: 'alice', closed: 1, deleted: 1 });
+      assertEquals(calls, ['closeSession:session-1', 'deleteUserSessions:alice']);
+    });
+
+    it('should revoke user tokens and delete stored credentials', async () => {
+      const router = createRouter();
+
+      const tokens = await send(router, 'DELETE', 'admin/users/alice/tokens', 'admin-token');
+      assertEquals(await tokens.json(), { userId: 'alice', revokedTokens: 4 });
+
+      const providers = await (await get(router, 'admin/users/alice/credentials', 'admin-token'))
+        .json();
+      assertEquals(providers.providers, ['github']);
+
+      const all = await send(router, 'DELETE', 'admin/users/alice/credentials', 'admin-token');
+      assertEquals((await all.json()).deleted, 2);
+
+      const one = await send(
+        router,
+        'DELETE',
+        'admin/users/alice/credentials/github',
+        'admin-token',
+      );
+      assertEquals(await one.json(), { userId: 'alice', provider: 'github', deleted: 1 });
+
+      assertEquals(calls, [
+        'revokeUserTokens:alice',
+        'deleteUserCredentials:alice:*',
+        'deleteUserCredentials:alice:github',
+      ]);
+    });
+
+    it('should reload the configuration and report changes that need a restart', async () => {
+      let rejectNext = false;
+      const configReloader = {
+        reload: () => {
+          if (rejectNext) {
+            return Promise.reject(
+              new ConfigReloadError([{ path: 'server.httpPort', reason: 'set at startup' }]),
+            );
+          }
+          return Promise.resolve({
+            changes: [{ path: 'logging.level', previous: 'info', current: 'debug' }],
+            instructionsUpdated: false,
+          });
+        },
+      };
+      const router = createRouter({ configReloader });
+
+      const reloaded = await send(router, 'POST', 'admin/config/reload', 'admin-token');
+      assertEquals(reloaded.status, 200);
+      const body = await reloaded.json();
+      assertEquals(body.reloaded, true);
+      assertEquals(body.changes[0].path, 'logging.level');
+      const [entry] = await auditLogger.searchLogs({ event: 'admin_reload_config' });
+      assertEquals(entry?.userId, 'admin-user');
+
+      rejectNext = true;
+      const rejected = await send(router, 'POST', 'admin/config/reload', 'admin-token');
+      assertEquals(rejected.status, 409);
+      assertEquals((await rejected.json()).error.restartRequired, [
+        { path: 'server.httpPort', reason: 'set at startup' },
+      ]);
+
+      const unavailable = await send(createRouter(), 'POST', 'admin/config/reload', 'admin-token');
+      assertEquals(unavailable.status, 501);
+      await unavailable.body?.cancel();
+    });
+
+    it('should only let admin users reload the configuration', async () => {
+      let reloads = 0;
+      const configReloader = {
+        reload: () => {
+          reloads++;
+          return Promise.resolve({ changes: [], instructionsUpdated: false });
+        },
+      };
+      const router = createRouter({ configReloader });
+
+      const response = await send(router, 'POST', 'admin/config/reload', 'self-granted-token');
+      assertEquals(response.status, 403);
+      await response.body?.cancel();
+      assertEquals(reloads, 0);
+    });
+
+    it('should return 404 for unknown admin endpoints', async () => {
+      const response = await send(createRouter(), 'POST', 'admin/clients', 'admin-token');
+      assertEquals(response.status, 404);
+      await response.body?.cancel();
+    });
+  });
+
+  describe('Workflow Execution', () => {
+    it('should require a token with the workflow scopes', async () => {
+      const missing = await send(createRouter(), 'POST', 'workflows/greet/execute');
+      assertEquals(missing.status, 401);
+      await missing.body?.cancel();
+
+      const response = await send(
+        createRouter(),
+        'POST',
+        'workflows/greet/execute',
+        'admin-token',
+        {
+          parameters: { name: 'Ada' },
+        },
+      );
+      assertEquals(response.status, 403);
+      assertStringIncludes(response.headers.get('WWW-Authenticate')!, 'scope="write"');
+      await response.body?.cancel();
+      assertEquals(calls, []);
+    });
+
+    it('should execute the workflow and return its steps', async () => {
+      const response = await send(createRouter(), 'POST', 'workflows/greet/execute', 'user-token', {
+        parameters: { name: 'Ada' },
+      });
+      assertEquals(response.status, 200);
+
+      const body = await response.json();
+      assertEquals(body.workflow, 'greet');
+      assertEquals(body.status, 'success');
+      assertEquals(body.result.data, { greeting: 'Hello, Ada' });
+      assertEquals(body.result.completed_steps.length, 1);
+      assertEquals(body.result.completed_steps[0].operation, 'greet');
+
+      // userId defaults to the token's user
+      assertEquals(calls, [
+        'greet:Ada:regular-user:regular-user',
+        'recordExecution:greet:true',
+      ]);
+    });
+
+    it('should return 422 when parameters fail validation', async () => {
+      const response = await send(createRouter(), 'POST', 'workflows/greet/execute', 'user-token', {
+        parameters: { name: '' },
+      });
+      assertEquals(response.status, 422);
+
+      const body = await response.json();
+      assertEquals(body.status, 'failed');
+      assertEquals(body.result.error.type, 'validation');
+      assertEquals(calls, ['recordExecution:greet:false']);
+    });
+
+    it('should validate without executing on a dry run', async () => {
+      const router = createRouter();
+      const valid = await send(router, 'POST', 'workflows/greet/execute', 'user-token', {
+        parameters: { name: 'Ada' },
+        dryRun: true,
+      });
+      assertEquals(valid.status, 200);
+      const body = await valid.json();
+      assertEquals(body.dryRun, true);
+      assertEquals(body.valid, true);
+      assertEquals(body.parameters, { userId: 'regular-user', name: 'Ada', dryRun: true });
+
+      const invalid = await send(router, 'POST', 'workflows/greet/execute', 'user-token', {
+        parameters: {},
+        dryRun: true,
+      });
+      assertEquals(invalid.status, 422);
+      const invalidBody = await invalid.json();
+      assertEquals(invalidBody.valid, false);
+      assertEquals(invalidBody.errors[0].path, 'name');
+
+      assertEquals(calls, []);
+    });
+
+    it('should reject malformed request bodies', async () => {
+      const router = createRouter();
+      for (const body of ['not json', '[]', { parameters: 'x' }, { dryRun: 'yes' }]) {
+        const response = await send(router, 'POST', 'workflows/greet/execute', 'user-token', body);
+        assertEquals(response.status, 400);
+        await response.body?.cancel();
+      }
+    });
+
+    it('should return 404 for unknown workflows and 405 for other methods', async () => {
+      const router = createRouter();
+      const unknown = await send(router, 'POST', 'workflows/missing/execute', 'user-token');
+      assertEquals(unknown.status, 404);
+      await unknown.body?.cancel();
+
+      const put = await send(router, 'PUT', 'workflows/greet/execute', 'user-token');
+      assertEquals(put.status, 405);
+      await put.body?.cancel();
+    });
+  });
+});
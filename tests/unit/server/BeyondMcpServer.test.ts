@@ -2,9 +2,11 @@
  * Unit Tests for BeyondMcpServer
  */
 
-import { assertEquals, assertExists, assertRejects } from '@std/assert';
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { assertSpyCalls, spy, stub } from '@std/testing/mock';
+import { Client } from 'mcp/client/index.js';
+import { InMemoryTransport } from 'mcp/inMemory.js';
 
 // Import components
 import { BeyondMcpServer } from '../../../src/lib/server/BeyondMcpServer.ts';
@@ -345,6 +347,43 @@ describe('BeyondMcpServer', () => {
       assertExists(beyondMcpServer.elicitInput);
       assertEquals(typeof beyondMcpServer.elicitInput, 'function');
     });
+
+    it('should send replaced instructions to newly initialized clients', async () => {
+      const server = new BeyondMcpServer(
+        { ...config, mcpServerInstructions: 'Original instructions' },
+        dependencies,
+      );
+      assertEquals(server.getInstructions(), 'Original instructions');
+
+      server.setInstructions('Reloaded instructions');
+      assertEquals(server.getInstructions(), 'Reloaded instructions');
+
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      const client = new Client({ name: 'instructions-test-client', version: '1.0.0' });
+      await Promise.all([
+        server.getSdkMcpServer().connect(serverTransport),
+        client.connect(clientTransport),
+      ]);
+      try {
+        assertEquals(client.getInstructions(), 'Reloaded instructions');
+      } finally {
+        await client.close();
+      }
+    });
+
+    it('should find the SDK field it replaces instructions on', () => {
+      // setInstructions() depends on this private field of the pinned SDK version.
+      // If this fails after an SDK upgrade, instruction reloads need another approach.
+      const server = new BeyondMcpServer(
+        { ...config, mcpServerInstructions: 'Instructions' },
+        dependencies,
+      );
+      const sdkServer = server.getSdkMcpServer().server as unknown as Record<string, unknown>;
+      assertEquals(sdkServer._instructions, 'Instructions');
+
+      const withoutInstructions = new BeyondMcpServer(config, dependencies);
+      assert('_instructions' in withoutInstructions.getSdkMcpServer().server);
+    });
   });
 
   describe('Configuration Validation', () => {
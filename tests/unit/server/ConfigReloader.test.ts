@@ -0,0 +1,245 @@
+/**
+ * Unit Tests for ConfigReloader
+ * Tests applying reloaded log level, CORS, rate limit, docs and instructions settings,
+ * and rejecting changes that need a restart
+ */
+
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { ConfigManager } from '../../../src/lib/config/ConfigManager.ts';
+import type { AppConfigFile } from '../../../src/lib/config/ConfigTypes.ts';
+import { ConfigReloader, ConfigReloadError } from '../../../src/lib/server/ConfigReloader.ts';
+import { DocsEndpointHandler } from '../../../src/lib/server/DocsEndpointHandler.ts';
+import type { BeyondMcpServer } from '../../../src/lib/server/BeyondMcpServer.ts';
+import type { HttpServer } from '../../../src/lib/server/HttpServer.ts';
+import type { HttpRateLimitConfig } from '../../../src/lib/types/RateLimitTypes.ts';
+import type { Logger } from '../../../src/lib/utils/Logger.ts';
+import { createMockLogger } from '../../utils/test-helpers.ts';
+
+// A prefix keeps the variables of the machine running the tests out of the config
+const ENV_PREFIX = 'CONFIG_RELOADER_TEST_';
+
+const BASE_CONFIG: AppConfigFile = {
+  logging: { level: 'info' },
+  transport: {
+    type: 'http',
+    http: { port: 4200, cors: { origins: ['https://a.example'] } },
+  },
+  rateLimit: {
+    http: {
+      enabled: true,
+      endpoints: { '/mcp': { perIP: { requests: 10, window: 60 } } },
+    },
+  },
+  docsEndpoint: { enabled: true, path: '/docs' },
+};
+
+/**
+ * Records what the reloader pushes to the HTTP server
+ */
+class FakeHttpServer {
+  corsOrigins: string[] | undefined;
+  rateLimits: HttpRateLimitConfig | undefined;
+
+  constructor(private docsHandler: DocsEndpointHandler | undefined) {}
+
+  updateCorsOrigins(allowOrigins: string[]): void {
+    this.corsOrigins = allowOrigins;
+  }
+
+  updateRateLimits(rateLimitConfig: HttpRateLimitConfig): void {
+    this.rateLimits = rateLimitConfig;
+  }
+
+  getDocsEndpointHandler(): DocsEndpointHandler | undefined {
+    return this.docsHandler;
+  }
+}
+
+class FakeBeyondMcpServer {
+  constructor(public instructions: string | undefined) {}
+
+  getInstructions(): string | undefined {
+    return this.instructions;
+  }
+
+  setInstructions(instructions: string): void {
+    this.instructions = instructions;
+  }
+}
+
+describe('ConfigReloader', () => {
+  let dir: string;
+  let configFile: string;
+  let logger: Logger;
+  let configManager: ConfigManager;
+  let docsHandler: DocsEndpointHandler;
+  let httpServer: FakeHttpServer;
+  let beyondMcpServer: FakeBeyondMcpServer;
+
+  const writeConfig = async (config: AppConfigFile) => {
+    await Deno.writeTextFile(configFile, JSON.stringify(config));
+  };
+
+  const createReloader = (mcpServerInstructions?: string) =>
+    new ConfigReloader({
+      configManager,
+      logger,
+      beyondMcpServer: beyondMcpServer as unknown as BeyondMcpServer,
+      httpServer: httpServer as unknown as HttpServer,
+      mcpServerInstructions,
+    });
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    configFile = `${dir}/config.json`;
+    await writeConfig(BASE_CONFIG);
+
+    logger = createMockLogger();
+    configManager = new ConfigManager({
+      envPrefix: ENV_PREFIX,
+      validateRequired: false,
+      configFile,
+    }, logger);
+    await configManager.loadConfig();
+    logger.setLevel('info');
+
+    docsHandler = new DocsEndpointHandler({
+      enabled: true,
+      path: '/docs',
+      allowListing: true,
+      enableCache: true,
+      content: { 'getting-started': '# Getting Started' },
+    }, logger);
+    httpServer = new FakeHttpServer(docsHandler);
+    beyondMcpServer = new FakeBeyondMcpServer(undefined);
+  });
+
+  afterEach(async () => {
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  it('should apply log level, CORS, rate limit and docs changes to running components', async () => {
+    await writeConfig({
+      ...BASE_CONFIG,
+      logging: { level: 'debug' },
+      transport: {
+        type: 'http',
+        http: { port: 4200, cors: { origins: ['https://b.example'] } },
+      },
+      rateLimit: {
+        http: {
+          enabled: true,
+          endpoints: { '/mcp': { perIP: { requests: 20, window: 60 } } },
+        },
+      },
+      docsEndpoint: { enabled: true, path: '/guides', allowListing: false },
+    });
+
+    const result = await createReloader().reload();
+
+    assertEquals(result.changes.map((change) => change.path).sort(), [
+      'docsEndpoint.allowListing',
+      'docsEndpoint.path',
+      'logging.level',
+      'rateLimit.http.endpoints./mcp.perIP.requests',
+      'transport.http.cors.origins',
+    ]);
+    assertEquals(result.instructionsUpdated, false);
+    assertEquals(logger.getLevel(), 'debug');
+    assertEquals(httpServer.corsOrigins, ['https://b.example']);
+    assertEquals(httpServer.rateLimits?.endpoints['/mcp']?.perIP?.requests, 20);
+    assertEquals(docsHandler.path, '/guides');
+    assertEquals(configManager.get<string>('logging.level'), 'debug');
+  });
+
+  it('should reject the whole reload when a change needs a restart', async () => {
+    await writeConfig({
+      ...BASE_CONFIG,
+      logging: { level: 'debug', format: 'json' },
+      transport: {
+        type: 'http',
+        http: { port: 4300, cors: { origins: ['https://a.example'] } },
+      },
+    });
+
+    const error: ConfigReloadError = await assertRejects(
+      () => createReloader().reload(),
+      ConfigReloadError,
+    );
+
+    assertEquals(error.rejected.map((rejection) => rejection.path).sort(), [
+      'logging.format',
+      'transport.http.port',
+    ]);
+    assert(error.message.includes('restart the server'));
+    assert(error.message.includes('transport.http.port: the HTTP listener'));
+    // Nothing applied, including the log level that could have been
+    assertEquals(logger.getLevel(), 'info');
+    assertEquals(configManager.get<string>('logging.level'), 'info');
+    assertEquals(configManager.get<number>('transport.http.port'), 4200);
+  });
+
+  it('should turn the docs endpoint off, but not on when it was not running', async () => {
+    await writeConfig({ ...BASE_CONFIG, docsEndpoint: { enabled: false } });
+
+    await createReloader().reload();
+    assertEquals(docsHandler.enabled, false);
+
+    httpServer = new FakeHttpServer(undefined);
+    await writeConfig(BASE_CONFIG);
+
+    const error: ConfigReloadError = await assertRejects(
+      () => createReloader().reload(),
+      ConfigReloadError,
+    );
+    assert(error.rejected.some((rejection) => rejection.path === 'docsEndpoint.enabled'));
+    assert(
+      error.rejected.every((rejection) => rejection.reason.includes('not running at startup')),
+    );
+  });
+
+  it('should load changed instructions for newly initialized sessions', async () => {
+    const instructionsFile = `${dir}/instructions.md`;
+    await Deno.writeTextFile(instructionsFile, 'Original instructions');
+    await writeConfig({
+      ...BASE_CONFIG,
+      mcpServerInstructionsConfig: { instructionsFilePath: instructionsFile },
+    });
+    await configManager.reloadConfig();
+    beyondMcpServer = new FakeBeyondMcpServer('Original instructions');
+    const reloader = createReloader('Original instructions');
+
+    // The file changed, the config did not
+    await Deno.writeTextFile(instructionsFile, 'Updated instructions');
+    const result = await reloader.reload();
+
+    assertEquals(result.changes, []);
+    assertEquals(result.instructionsUpdated, true);
+    assertEquals(beyondMcpServer.instructions, 'Updated instructions');
+  });
+
+  it('should keep instructions the server did not take from the configuration', async () => {
+    beyondMcpServer = new FakeBeyondMcpServer('Custom instructions');
+    await writeConfig({
+      ...BASE_CONFIG,
+      mcpServerInstructionsConfig: { instructionsContent: 'Configured instructions' },
+    });
+
+    const result = await createReloader('Default instructions').reload();
+
+    assertEquals(result.instructionsUpdated, false);
+    assertEquals(beyondMcpServer.instructions, 'Custom instructions');
+  });
+
+  it('should run concurrent reloads one after the other', async () => {
+    await writeConfig({ ...BASE_CONFIG, logging: { level: 'warn' } });
+    const reloader = createReloader();
+
+    const [first, second] = await Promise.all([reloader.reload(), reloader.reload()]);
+
+    assertEquals(first.changes.map((change) => change.path), ['logging.level']);
+    assertEquals(second.changes, []);
+  });
+});
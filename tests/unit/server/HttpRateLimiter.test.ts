@@ -0,0 +1,222 @@
+/**
+ * Unit Tests for HttpRateLimiter
+ * Tests per-IP and per-client limits, concurrency caps, headers and events
+ */
+
+import { assert, assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { HttpRateLimiter } from '../../../src/lib/server/HttpRateLimiter.ts';
+import { ErrorPages } from '../../../src/lib/server/ErrorPages.ts';
+import { RateLimitStore } from '../../../src/lib/storage/RateLimitStore.ts';
+import type { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type { HttpRateLimitConfig } from '../../../src/lib/types/RateLimitTypes.ts';
+import type { ServerEvents } from '../../../src/lib/server/ServerTypes.ts';
+
+import { createMockKVManager, createMockLogger } from '../../utils/test-helpers.ts';
+
+const okHandler = () => Promise.resolve(new Response('ok'));
+
+describe('HttpRateLimiter', () => {
+  let kvManager: KVManager;
+  let rateLimitStore: RateLimitStore;
+
+  const createLimiter = (config: Partial<HttpRateLimitConfig> = {}) =>
+    new HttpRateLimiter(
+      {
+        enabled: true,
+        endpoints: {
+          '/token': {
+            perIP: { requests: 2, window: 60 },
+            perClient: { requests: 1, window: 60 },
+          },
+          '/api/v1/*': { perIP: { requests: 1, window: 60 } },
+        },
+        ...config,
+      },
+      {
+        logger: createMockLogger(),
+        rateLimitStore,
+        errorPages: new ErrorPages({ name: 'test', version: '1.0.0' } as any),
+      },
+    );
+
+  beforeEach(async () => {
+    kvManager = await createMockKVManager();
+    rateLimitStore = new RateLimitStore(kvManager);
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  describe('Client Identification', () => {
+    it('should only trust proxy headers when configured', () => {
+      const request = new Request('http://localhost/mcp', {
+        headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1' },
+      });
+      const remoteAddr: Deno.NetAddr = { transport: 'tcp', hostname: '10.0.0.1', port: 1234 };
+
+      assertEquals(createLimiter().getClientIP(request, remoteAddr), '10.0.0.1');
+      assertEquals(
+        createLimiter({ trustProxy: true }).getClientIP(request, remoteAddr),
+        '203.0.113.7',
+      );
+    });
+
+    it('should resolve client keys from query, Basic credentials, form body and tokens', async () => {
+      const limiter = createLimiter();
+
+      assertEquals(
+        await limiter.resolveClientKey(new Request('http://localhost/authorize?client_id=abc')),
+        'client:abc',
+      );
+      assertEquals(
+        await limiter.resolveClientKey(
+          new Request('http://localhost/token', {
+            method: 'POST',
+            headers: { authorization: `Basic ${btoa('basic-client:secret')}` },
+          }),
+        ),
+        'client:basic-client',
+      );
+
+      const formRequest = new Request('http://localhost/token', {
+        method: 'POST',
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: 'grant_type=authorization_code&client_id=form-client',
+      });
+      assertEquals(await limiter.resolveClientKey(formRequest), 'client:form-client');
+      // The body is still readable by the endpoint
+      assertEquals((await formRequest.formData()).get('grant_type'), 'authorization_code');
+
+      const tokenKey = await limiter.resolveClientKey(
+        new Request('http://localhost/mcp', { headers: { authorization: 'Bearer secret-token' } }),
+      );
+      assertExists(tokenKey);
+      assert(tokenKey.startsWith('token:'));
+      assert(!tokenKey.includes('secret-token'));
+    });
+  });
+
+  describe('Rate Limits', () => {
+    it('should add RateLimit headers and reject with Retry-After', async () => {
+      const limiter = createLimiter();
+      const request = () => new Request('http://localhost/token', { method: 'POST' });
+
+      const first = await limiter.handle(request(), '/token', '192.0.2.1', okHandler);
+      assertEquals(first.status, 200);
+      assertEquals(first.headers.get('RateLimit-Limit'), '2');
+      assertEquals(first.headers.get('RateLimit-Remaining'), '1');
+      assertEquals(first.headers.get('RateLimit-Policy'), '2;w=60');
+      assertExists(first.headers.get('RateLimit-Reset'));
+
+      await limiter.handle(request(), '/token', '192.0.2.1', okHandler);
+      const third = await limiter.handle(request(), '/token', '192.0.2.1', okHandler);
+      assertEquals(third.status, 429);
+      assertEquals(third.headers.get('Retry-After'), '30');
+      assertEquals(third.headers.get('RateLimit-Remaining'), '0');
+      await third.text();
+
+      // Other IPs are unaffected
+      const other = await limiter.handle(request(), '/token', '192.0.2.2', okHandler);
+      assertEquals(other.status, 200);
+    });
+
+    it('should limit per client across IP addresses', async () => {
+      const limiter = createLimiter();
+      const request = () =>
+        new Request('http://localhost/token?client_id=shared', { method: 'POST' });
+
+      assertEquals((await limiter.handle(request(), '/token', '192.0.2.1', okHandler)).status, 200);
+      const second = await limiter.handle(request(), '/token', '192.0.2.2', okHandler);
+      assertEquals(second.status, 429);
+      await second.text();
+    });
+
+    it('should share prefix limits across matching paths', async () => {
+      const limiter = createLimiter();
+
+      const first = await limiter.handle(
+        new Request('http://localhost/api/v1/status'),
+        '/api/v1/status',
+        '192.0.2.1',
+        okHandler,
+      );
+      assertEquals(first.status, 200);
+
+      const second = await limiter.handle(
+        new Request('http://localhost/api/v1/metrics'),
+        '/api/v1/metrics',
+        '192.0.2.1',
+        okHandler,
+      );
+      assertEquals(second.status, 429);
+      await second.text();
+
+      // Paths without limits pass straight through
+      const root = await limiter.handle(
+        new Request('http://localhost/'),
+        '/',
+        '192.0.2.1',
+        okHandler,
+      );
+      assertEquals(root.headers.get('RateLimit-Limit'), null);
+    });
+
+    it('should share limits between instances using the same KV', async () => {
+      const limiterA = createLimiter();
+      const limiterB = createLimiter();
+      const request = () => new Request('http://localhost/api/v1/status');
+
+      assertEquals(
+        (await limiterA.handle(request(), '/api/v1/status', '192.0.2.1', okHandler)).status,
+        200,
+      );
+      const response = await limiterB.handle(request(), '/api/v1/status', '192.0.2.1', okHandler);
+      assertEquals(response.status, 429);
+      await response.text();
+    });
+  });
+
+  describe('Concurrency and Events', () => {
+    it('should cap concurrent requests and emit ratelimit:exceeded', async () => {
+      const limiter = createLimiter({ maxConcurrentRequests: 1 });
+      const events: ServerEvents['ratelimit:exceeded'][] = [];
+      limiter.on('ratelimit:exceeded', (event) => events.push(event));
+
+      let release: () => void = () => {};
+      const slowHandler = () =>
+        new Promise<Response>((resolve) => {
+          release = () => resolve(new Response('slow'));
+        });
+
+      const inFlight = limiter.handle(
+        new Request('http://localhost/'),
+        '/',
+        '192.0.2.1',
+        slowHandler,
+      );
+      assertEquals(limiter.getActiveRequests(), 1);
+
+      const rejected = await limiter.handle(
+        new Request('http://localhost/'),
+        '/',
+        '192.0.2.2',
+        okHandler,
+      );
+      assertEquals(rejected.status, 429);
+      assertEquals(rejected.headers.get('Retry-After'), '1');
+      await rejected.text();
+
+      release();
+      assertEquals((await inFlight).status, 200);
+      assertEquals(limiter.getActiveRequests(), 0);
+
+      assertEquals(events.length, 1);
+      assertEquals(events[0]?.limit.id, 'concurrency:global');
+      assertEquals(events[0]?.context.clientIP, '192.0.2.2');
+      assert(events[0]?.limit.exceeded);
+    });
+  });
+});
@@ -16,7 +16,8 @@ import type {
   HttpServerConfig,
   HttpServerDependencies,
 } from '../../../src/lib/server/HttpServer.ts';
-import { createTestBeyondMcpServer } from '../../utils/test-helpers.ts';
+import { RateLimitStore } from '../../../src/lib/storage/RateLimitStore.ts';
+import { createMockKVManager, createTestBeyondMcpServer } from '../../utils/test-helpers.ts';
 
 // Mock dependencies for testing
 class MockLogger {
@@ -63,6 +64,24 @@ class MockOAuthProvider {
     };
   }
 
+  async authenticateClient(clientId: string, credentials?: any): Promise<any> {
+    if (clientId === 'test-client' && !credentials?.clientSecret) {
+      return { valid: true, clientId };
+    }
+    return { valid: false, error: 'Invalid client credentials' };
+  }
+
+  async revokeToken(token: string, clientId: string, tokenTypeHint?: string): Promise<any> {
+    return { revoked: token === 'mock-access-token', revokedCount: 1 };
+  }
+
+  async introspectToken(token: string, tokenTypeHint?: string, clientId?: string): Promise<any> {
+    if (token !== 'mock-access-token') {
+      return { active: false };
+    }
+    return { active: true, client_id: clientId, scope: 'read', token_type: 'access_token' };
+  }
+
   async getMCPAuthRequest(state: string): Promise<any> {
     // Mock MCP auth request for callback handling
     if (state === 'test-state') {
@@ -340,6 +359,15 @@ Deno.test('HttpServer - API Endpoints', async () => {
     const healthData = await healthResponse.json();
     assertEquals(healthData.status, 'healthy');
     assertExists(healthData.checks);
+
+    // Test metrics endpoint reads live component data
+    const metricsResponse = await makeRequest(3504, '/api/v1/metrics');
+    assertEquals(metricsResponse.status, 200);
+
+    const metricsData = await metricsResponse.json();
+    assertEquals(metricsData.schema_version, '1');
+    assertEquals(metricsData.workflows.registered_total, 1);
+    assertEquals(metricsData.workflows.by_category, { test: 1 });
   } finally {
     await server.stop();
     // Give server time to fully stop to prevent async leaks
@@ -454,3 +482,106 @@ Deno.test('HttpServer - Legacy Health Endpoint', async () => {
     await server.stop();
   }
 });
+
+Deno.test('HttpServer - Rate Limiting', async () => {
+  const dependencies = await createTestDependencies();
+  dependencies.httpServerConfig.port = 3509;
+  dependencies.httpServerConfig.features = { rateLimit: true };
+  dependencies.httpServerConfig.rateLimit = {
+    enabled: true,
+    endpoints: { '/mcp': { perIP: { requests: 1, window: 60 } } },
+  };
+  const kvManager = await createMockKVManager();
+  dependencies.rateLimitStore = new RateLimitStore(kvManager);
+  const server = new HttpServer(dependencies);
+
+  try {
+    await server.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const first = await makeRequest(3509, '/mcp', { method: 'POST', body: '{}' });
+    assertEquals(first.status, 200);
+    assertEquals(first.headers.get('ratelimit-limit'), '1');
+    assertEquals(first.headers.get('ratelimit-remaining'), '0');
+    await first.json();
+
+    const second = await makeRequest(3509, '/mcp', { method: 'POST', body: '{}' });
+    assertEquals(second.status, 429);
+    assertEquals(second.headers.get('retry-after'), '60');
+    assert(second.headers.get('access-control-allow-origin'));
+    await second.json();
+
+    // Endpoints without limits are not affected
+    const root = await makeRequest(3509, '/');
+    assertEquals(root.status, 200);
+    await root.json();
+  } finally {
+    await server.stop();
+    await kvManager.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+});
+
+Deno.test('HttpServer - Token Revocation and Introspection Endpoints', async () => {
+  const dependencies = await createTestDependencies();
+  dependencies.httpServerConfig.port = 3510;
+  const server = new HttpServer(dependencies);
+
+  try {
+    await server.start();
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    const formHeaders = { 'Content-Type': 'application/x-www-form-urlencoded' };
+
+    // Revocation succeeds with an empty 200 response
+    const revokeResponse = await makeRequest(3510, '/revoke', {
+      method: 'POST',
+      headers: formHeaders,
+      body: new URLSearchParams({ token: 'mock-access-token', client_id: 'test-client' }),
+    });
+    assertEquals(revokeResponse.status, 200);
+    assertEquals(revokeResponse.headers.get('Cache-Control'), 'no-store');
+    assertEquals(await revokeResponse.text(), '');
+
+    // Unknown tokens are also acknowledged (RFC 7009 section 2.2)
+    const unknownResponse = await makeRequest(3510, '/revoke', {
+      method: 'POST',
+      headers: formHeaders,
+      body: new URLSearchParams({ token: 'unknown', client_id: 'test-client' }),
+    });
+    assertEquals(unknownResponse.status, 200);
+    await unknownResponse.text();
+
+    // Missing token parameter
+    const missingResponse = await makeRequest(3510, '/revoke', {
+      method: 'POST',
+      headers: formHeaders,
+      body: new URLSearchParams({ client_id: 'test-client' }),
+    });
+    assertEquals(missingResponse.status, 400);
+    assertEquals((await missingResponse.json()).error, 'invalid_request');
+
+    // Failed Basic authentication is challenged
+    const unauthorizedResponse = await makeRequest(3510, '/introspect', {
+      method: 'POST',
+      headers: { ...formHeaders, 'Authorization': `Basic ${btoa('test-client:wrong')}` },
+      body: new URLSearchParams({ token: 'mock-access-token' }),
+    });
+    assertEquals(unauthorizedResponse.status, 401);
+    assertExists(unauthorizedResponse.headers.get('WWW-Authenticate'));
+    assertEquals((await unauthorizedResponse.json()).error, 'invalid_client');
+
+    const introspectResponse = await makeRequest(3510, '/introspect', {
+      method: 'POST',
+      headers: formHeaders,
+      body: new URLSearchParams({ token: 'mock-access-token', client_id: 'test-client' }),
+    });
+    assertEquals(introspectResponse.status, 200);
+    const introspection = await introspectResponse.json();
+    assertEquals(introspection.active, true);
+    assertEquals(introspection.client_id, 'test-client');
+  } finally {
+    await server.stop();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Tests for McpLoggingBridge
+ * Tests per-session levels, request attribution, redaction and logging/setLevel handling
+ */
+
+import { assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import type { LoggingMessageNotification } from 'mcp/types.js';
+
+import {
+  McpLoggingBridge,
+  type McpLoggingRequest,
+} from '../../../src/lib/server/McpLoggingBridge.ts';
+import { Logger } from '../../../src/lib/utils/Logger.ts';
+
+function createSession(sessionId: string | undefined) {
+  const sent: LoggingMessageNotification[] = [];
+  const request: McpLoggingRequest = {
+    sessionId,
+    sendNotification: (notification) => {
+      sent.push(notification);
+      return Promise.resolve();
+    },
+  };
+  return { request, sent };
+}
+
+type RequestHandler = (
+  request: { params: { level: string } },
+  extra: { sessionId?: string },
+) => Promise<unknown>;
+
+function createSdkServer() {
+  const handlers = new Map<string, RequestHandler>();
+  const sdkMcpServer = {
+    server: {
+      setRequestHandler: (
+        schema: { shape: { method: { value: string } } },
+        handler: RequestHandler,
+      ) => {
+        handlers.set(schema.shape.method.value, handler);
+      },
+    },
+  };
+  return { sdkMcpServer: sdkMcpServer as any, handlers };
+}
+
+describe('McpLoggingBridge', () => {
+  let bridge: McpLoggingBridge;
+  let logger: Logger;
+  let handlers: Map<string, RequestHandler>;
+
+  beforeEach(() => {
+    McpLoggingBridge.resetInstance();
+    bridge = McpLoggingBridge.getInstance();
+    // Keep stderr quiet - the sink receives entries regardless of the logger level
+    logger = new Logger({ level: 'error', colorize: false });
+
+    const sdk = createSdkServer();
+    handlers = sdk.handlers;
+    bridge.install(sdk.sdkMcpServer, logger, { defaultLevel: 'info' });
+  });
+
+  afterEach(() => {
+    logger.setSink(undefined);
+    McpLoggingBridge.resetInstance();
+  });
+
+  it('should forward entries to the session of the current request', () => {
+    const first = createSession('session-1');
+    const second = createSession('session-2');
+
+    bridge.runWithRequest(first.request, () => {
+      logger.child({ workflow: 'sync_data' }).warn('WorkflowBase: Step failed', { step: 2 });
+    });
+    bridge.runWithRequest(second.request, () => logger.info('ToolRegistry: Done'));
+    logger.info('Outside any request');
+
+    assertEquals(first.sent, [{
+      method: 'notifications/message',
+      params: {
+        level: 'warning',
+        logger: 'WorkflowBase',
+        data: { message: 'Step failed', data: { workflow: 'sync_data', step: 2 } },
+      },
+    }]);
+    assertEquals(second.sent.length, 1);
+    assertEquals(second.sent[0]?.params.data, { message: 'Done' });
+  });
+
+  it('should apply the level set by each session', async () => {
+    const verbose = createSession('session-1');
+    const quiet = createSession('session-2');
+
+    const setLevel = handlers.get('logging/setLevel');
+    assertExists(setLevel);
+    assertEquals(
+      await setLevel({ params: { level: 'debug' } }, { sessionId: 'session-1' }),
+      {},
+    );
+    await setLevel({ params: { level: 'error' } }, { sessionId: 'session-2' });
+
+    for (const session of [verbose, quiet]) {
+      bridge.runWithRequest(session.request, () => {
+        logger.debug('Tool: Fetching page');
+        logger.info('Tool: Fetched page');
+        logger.error('Tool: Request failed', new Error('timeout'));
+      });
+    }
+
+    assertEquals(verbose.sent.map((n) => n.params.level), ['debug', 'info', 'error']);
+    assertEquals(quiet.sent.map((n) => n.params.level), ['error']);
+
+    bridge.clearSession('session-1');
+    assertEquals(bridge.getLevel('session-1'), 'info');
+  });
+
+  it('should redact secrets and drop stack traces', () => {
+    const session = createSession(undefined);
+
+    bridge.runWithRequest(session.request, () => {
+      logger.error('ApiClient: Call failed', new Error('Unauthorized'), {
+        headers: { Authorization: 'Bearer abc.def', 'X-Request-Id': 'req-1' },
+        clientSecret: 'shh',
+        nested: [{ refresh_token: 'r-1', note: 'sent Bearer abc.def' }],
+      });
+    });
+
+    assertEquals(session.sent[0]?.params.data, {
+      message: 'Call failed',
+      data: {
+        error: { name: 'Error', message: 'Unauthorized' },
+        headers: { Authorization: '[REDACTED]', 'X-Request-Id': 'req-1' },
+        clientSecret: '[REDACTED]',
+        nested: [{ refresh_token: '[REDACTED]', note: 'sent Bearer [REDACTED]' }],
+      },
+    });
+  });
+
+  it('should not forward entries logged while sending', () => {
+    const sent: LoggingMessageNotification[] = [];
+    const request: McpLoggingRequest = {
+      sessionId: 'session-1',
+      sendNotification: (notification) => {
+        sent.push(notification);
+        logger.info('Transport: Notification sent');
+        return Promise.resolve();
+      },
+    };
+
+    bridge.runWithRequest(request, () => logger.info('Tool: Working'));
+
+    assertEquals(sent.length, 1);
+  });
+});
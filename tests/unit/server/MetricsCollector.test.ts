@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for MetricsCollector
+ * Tests the versioned metrics snapshot built from live component sources
+ */
+
+import { assertEquals, assertExists } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+
+import {
+  METRICS_SCHEMA_VERSION,
+  MetricsCollector,
+} from '../../../src/lib/server/MetricsCollector.ts';
+
+import { createMockLogger } from '../../utils/test-helpers.ts';
+
+const transportManager = {
+  getMetrics: () => ({
+    transport: 'http',
+    uptime: 5000,
+    requests: { total: 12, successful: 10, failed: 2, averageResponseTime: 8.5 },
+    sessions: { active: 2, total: 3, expired: 1 },
+    manager: { uptime: 6000, initialized: true, connected: true, transportType: 'http' },
+  }),
+  getActiveSessions: () => ['session-1', 'session-2'],
+};
+
+const oauthProvider = {
+  getClientStats: () =>
+    Promise.resolve({
+      totalClients: 4,
+      activeClients: 3,
+      revokedClients: 1,
+      oldestRegistration: 1,
+      newestRegistration: 2,
+    }),
+  getTokenStats: () =>
+    Promise.resolve({
+      totalAccessTokens: 7,
+      totalRefreshTokens: 5,
+      totalAuthorizationCodes: 1,
+    }),
+};
+
+const sessionManager = {
+  getSessionStats: () =>
+    Promise.resolve({
+      active: 2,
+      total: 3,
+      expired: 1,
+      averageDuration: 1500,
+      oldestActive: 1,
+      newestActive: 2,
+    }),
+};
+
+const toolRegistry = {
+  getRegistryStats: () => ({
+    totalTools: 3,
+    totalCalls: 9,
+    averageExecutionTime: 4,
+    toolsByCategory: { utility: 2, data: 1 },
+    mostUsedTools: [{ name: 'echo', callCount: 6 }],
+  }),
+};
+
+const workflowRegistry = {
+  getWorkflowNames: () => ['sync_data', 'report'],
+  getAllRegistrations: () => [
+    { name: 'sync_data', category: 'data' },
+    { name: 'report', category: 'analysis' },
+  ],
+};
+
+describe('MetricsCollector', () => {
+  it('should collect every section from live sources', async () => {
+    const collector = new MetricsCollector({
+      logger: createMockLogger(),
+      transportManager: transportManager as any,
+      oauthProvider: oauthProvider as any,
+      sessionManager: sessionManager as any,
+      toolRegistry: toolRegistry as any,
+      workflowRegistry: workflowRegistry as any,
+    });
+
+    const snapshot = await collector.collect();
+
+    assertEquals(snapshot.schema_version, METRICS_SCHEMA_VERSION);
+    assertExists(snapshot.timestamp);
+    assertExists(snapshot.server.uptime_seconds);
+    assertEquals(snapshot.transport, {
+      type: 'http',
+      connected: true,
+      uptime_seconds: 6,
+      requests: { total: 12, successful: 10, failed: 2, average_response_time_ms: 8.5 },
+      active_sessions: 2,
+      session_ids: ['session-1', 'session-2'],
+    });
+    assertEquals(snapshot.sessions, {
+      active: 2,
+      total: 3,
+      expired: 1,
+      average_duration_ms: 1500,
+    });
+    assertEquals(snapshot.auth, {
+      clients: { total: 4, active: 3, revoked: 1 },
+      tokens: { access_tokens: 7, refresh_tokens: 5, authorization_codes: 1 },
+    });
+    assertEquals(snapshot.tools, {
+      registered_total: 3,
+      calls_total: 9,
+      average_execution_time_ms: 4,
+      by_category: { utility: 2, data: 1 },
+      most_used: [{ name: 'echo', calls: 6 }],
+    });
+    assertEquals(snapshot.workflows, {
+      registered_total: 2,
+      available: ['sync_data', 'report'],
+      by_category: { data: 1, analysis: 1 },
+    });
+  });
+
+  it('should report unconfigured sources as null', async () => {
+    const collector = new MetricsCollector({ logger: createMockLogger() });
+
+    const snapshot = await collector.collect();
+
+    assertEquals(snapshot.schema_version, METRICS_SCHEMA_VERSION);
+    assertEquals(snapshot.transport, null);
+    assertEquals(snapshot.sessions, null);
+    assertEquals(snapshot.auth, null);
+    assertEquals(snapshot.tools, null);
+    assertEquals(snapshot.workflows, null);
+  });
+
+  it('should keep other sections when one source fails', async () => {
+    const collector = new MetricsCollector({
+      logger: createMockLogger(),
+      oauthProvider: {
+        getClientStats: () => Promise.reject(new Error('KV unavailable')),
+        getTokenStats: oauthProvider.getTokenStats,
+      } as any,
+      toolRegistry: toolRegistry as any,
+    });
+
+    const snapshot = await collector.collect();
+
+    assertEquals(snapshot.auth, null);
+    assertEquals(snapshot.tools?.registered_total, 3);
+  });
+});
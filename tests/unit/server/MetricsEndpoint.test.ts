@@ -0,0 +1,93 @@
+/**
+ * Unit Tests for MetricsEndpoint
+ * Tests OpenMetrics scrapes, bearer token access and live gauge refresh
+ */
+
+import { assertEquals, assertStringIncludes } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { MetricsEndpoint } from '../../../src/lib/server/MetricsEndpoint.ts';
+import {
+  MetricsRegistry,
+  OPENMETRICS_CONTENT_TYPE,
+} from '../../../src/lib/utils/MetricsRegistry.ts';
+
+import { createMockLogger } from '../../utils/test-helpers.ts';
+
+const transportManager = {
+  getMetrics: () => ({
+    transport: 'http',
+    uptime: 5000,
+    requests: { total: 12, successful: 10, failed: 2, averageResponseTime: 8.5 },
+    sessions: { active: 2, total: 3, expired: 1 },
+    http: { connectionsOpen: 1 },
+  }),
+};
+
+const toolRegistry = { getToolCount: () => 4 };
+const workflowRegistry = { getWorkflowNames: () => ['sync_data'] };
+
+const scrape = (endpoint: MetricsEndpoint, headers: HeadersInit = {}) =>
+  endpoint.handle(new Request('http://localhost:3000/metrics', { headers }));
+
+describe('MetricsEndpoint', () => {
+  beforeEach(() => {
+    MetricsRegistry.resetInstance();
+  });
+
+  afterEach(() => {
+    MetricsRegistry.resetInstance();
+  });
+
+  it('should serve metrics in OpenMetrics format with live gauges', async () => {
+    const endpoint = new MetricsEndpoint({ enabled: true, path: '/metrics' }, {
+      logger: createMockLogger(),
+      transportManager: transportManager as any,
+      toolRegistry: toolRegistry as any,
+      workflowRegistry: workflowRegistry as any,
+    });
+
+    const response = await scrape(endpoint);
+    const body = await response.text();
+
+    assertEquals(response.status, 200);
+    assertEquals(response.headers.get('Content-Type'), OPENMETRICS_CONTENT_TYPE);
+    assertStringIncludes(body, 'mcp_sessions_active 2\n');
+    assertStringIncludes(body, 'mcp_sse_streams_active 1\n');
+    assertStringIncludes(body, 'mcp_transport_requests_total{outcome="success"} 10\n');
+    assertStringIncludes(body, 'mcp_transport_requests_total{outcome="failure"} 2\n');
+    assertStringIncludes(body, 'mcp_tools_registered 4\n');
+    assertStringIncludes(body, 'mcp_workflows_registered 1\n');
+  });
+
+  it('should require the configured bearer token', async () => {
+    const endpoint = new MetricsEndpoint(
+      { enabled: true, path: '/metrics', bearerToken: 'scrape-secret' },
+      { logger: createMockLogger() },
+    );
+
+    const missing = await scrape(endpoint);
+    assertEquals(missing.status, 401);
+    assertEquals(missing.headers.get('WWW-Authenticate'), 'Bearer realm="metrics"');
+
+    const wrong = await scrape(endpoint, { Authorization: 'Bearer other-secret' });
+    assertEquals(wrong.status, 401);
+
+    const valid = await scrape(endpoint, { Authorization: 'Bearer scrape-secret' });
+    assertEquals(valid.status, 200);
+    await valid.body?.cancel();
+  });
+
+  it('should reject non-GET requests', async () => {
+    const endpoint = new MetricsEndpoint({ enabled: true, path: '/metrics' }, {
+      logger: createMockLogger(),
+    });
+
+    const response = await endpoint.handle(
+      new Request('http://localhost:3000/metrics', { method: 'POST' }),
+    );
+
+    assertEquals(response.status, 405);
+    await response.body?.cancel();
+  });
+});
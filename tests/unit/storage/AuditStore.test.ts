@@ -0,0 +1,103 @@
+/**
+ * Unit Tests for AuditStore
+ * Tests indexed audit search by user, tool, type and time range
+ */
+
+import { assertEquals } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { AuditStore } from '../../../src/lib/storage/AuditStore.ts';
+import { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type { AuditLogRecord } from '../../../src/lib/utils/AuditLogger.ts';
+
+import { createMockLogger } from '../../utils/test-helpers.ts';
+
+let seq = 0;
+const record = (
+  timestamp: string,
+  fields: Partial<AuditLogRecord> = {},
+): AuditLogRecord => ({ type: 'tool_call', timestamp, seq: ++seq, ...fields });
+
+describe('AuditStore', () => {
+  let kvManager: KVManager;
+  let auditStore: AuditStore;
+
+  beforeEach(async () => {
+    kvManager = new KVManager({ backend: 'memory' }, createMockLogger());
+    await kvManager.initialize();
+    auditStore = new AuditStore(kvManager, {}, createMockLogger());
+
+    await auditStore.index(
+      record('2025-01-01T10:00:00.000Z', { userId: 'alice', toolName: 'echo' }),
+    );
+    await auditStore.index(record('2025-01-01T11:00:00.000Z', { userId: 'bob', toolName: 'echo' }));
+    await auditStore.index(
+      record('2025-01-01T12:00:00.000Z', { userId: 'alice', toolName: 'fetch' }),
+    );
+    await auditStore.index(
+      record('2025-01-01T12:00:00.000Z', { type: 'auth_event', event: 'login', userId: 'alice' }),
+    );
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  it('should return entries most recent first', async () => {
+    const results = await auditStore.search();
+    assertEquals(results.length, 4);
+    assertEquals(results[0]!.type, 'auth_event');
+    assertEquals(results[3]!.timestamp, '2025-01-01T10:00:00.000Z');
+  });
+
+  it('should search by user and tool', async () => {
+    const byUser = await auditStore.search({ userId: 'alice' });
+    assertEquals(byUser.map((entry) => entry.toolName ?? entry.event), ['login', 'fetch', 'echo']);
+
+    const combined = await auditStore.search({ userId: 'alice', toolName: 'echo' });
+    assertEquals(combined.length, 1);
+    assertEquals(combined[0]!.timestamp, '2025-01-01T10:00:00.000Z');
+
+    const byTool = await auditStore.search({ toolName: 'echo' });
+    assertEquals(byTool.map((entry) => entry.userId), ['bob', 'alice']);
+  });
+
+  it('should search by type and event', async () => {
+    const results = await auditStore.search({ type: 'auth_event', event: 'login' });
+    assertEquals(results.length, 1);
+    assertEquals(results[0]!.userId, 'alice');
+  });
+
+  it('should search an inclusive time range', async () => {
+    const results = await auditStore.search({
+      startTime: new Date('2025-01-01T11:00:00.000Z'),
+      endTime: new Date('2025-01-01T12:00:00.000Z'),
+    });
+    assertEquals(results.length, 3);
+
+    const indexed = await auditStore.search({
+      userId: 'alice',
+      endTime: new Date('2025-01-01T11:59:59.999Z'),
+    });
+    assertEquals(indexed.map((entry) => entry.toolName), ['echo']);
+  });
+
+  it('should apply the limit', async () => {
+    assertEquals((await auditStore.search({ limit: 2 })).length, 2);
+  });
+
+  it('should return the latest entry', async () => {
+    const latest = await auditStore.getLatest();
+    assertEquals(latest?.type, 'auth_event');
+  });
+
+  it('should drop large inputs and results from indexed entries', async () => {
+    await auditStore.index(
+      record('2025-01-02T00:00:00.000Z', { userId: 'carol', inputParams: 'x'.repeat(70_000) }),
+    );
+
+    const [entry] = await auditStore.search({ userId: 'carol' });
+    assertEquals(entry?.inputParams, undefined);
+    assertEquals(entry?.truncated, true);
+  });
+});
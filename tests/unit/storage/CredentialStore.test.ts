@@ -0,0 +1,177 @@
+/**
+ * Unit Tests for CredentialStore encryption at rest
+ * Tests AES-GCM envelope encryption, key IDs, rotation and plaintext migration
+ */
+
+import { assert, assertEquals, assertExists, assertRejects, assertThrows } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import {
+  CredentialStore,
+  type EncryptedCredentialRecord,
+} from '../../../src/lib/storage/CredentialStore.ts';
+import type { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type { OAuthCredentials } from '../../../src/lib/storage/StorageTypes.ts';
+import { MCPError } from '../../../src/lib/utils/ErrorHandler.ts';
+
+import { createMockKVManager, createMockLogger } from '../../utils/test-helpers.ts';
+
+const KEY_A = btoa(String.fromCharCode(...new Uint8Array(32).fill(1)));
+const KEY_B = btoa(String.fromCharCode(...new Uint8Array(32).fill(2)));
+
+function createCredentials(overrides: Partial<OAuthCredentials> = {}): OAuthCredentials {
+  return {
+    accessToken: 'access-token-secret',
+    refreshToken: 'refresh-token-secret',
+    tokenType: 'Bearer',
+    expiresAt: Date.now() + 60 * 60 * 1000,
+    scopes: ['read'],
+    ...overrides,
+  };
+}
+
+describe('CredentialStore Encryption', () => {
+  let kvManager: KVManager;
+
+  beforeEach(async () => {
+    kvManager = await createMockKVManager();
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  it('should require an encryption key when encryption is enabled', () => {
+    assertThrows(
+      () => new CredentialStore(kvManager, { enableEncryption: true }),
+      MCPError,
+      'no encryption key was provided',
+    );
+  });
+
+  it('should reject keys that are not 256-bit', async () => {
+    const store = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: 'not-a-real-key',
+    }, createMockLogger());
+
+    await assertRejects(
+      () => store.storeCredentials('user-1', 'github', createCredentials()),
+      MCPError,
+      'base64-encoded 256-bit key',
+    );
+  });
+
+  it('should store ciphertext with a key ID and round-trip credentials', async () => {
+    const store = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_A,
+      encryptionKeyId: 'key-a',
+    });
+    const credentials = createCredentials();
+
+    await store.storeCredentials('user-1', 'github', credentials);
+
+    const raw = await kvManager.get<EncryptedCredentialRecord>(['credentials', 'github', 'user-1']);
+    assertExists(raw);
+    assert(CredentialStore.isEncryptedRecord(raw));
+    assertEquals(raw.keyId, 'key-a');
+    assert(!JSON.stringify(raw).includes('refresh-token-secret'));
+
+    assertEquals(await store.getCredentials('user-1', 'github'), credentials);
+
+    await store.updateCredentials('user-1', 'github', { accessToken: 'rotated-access-token' });
+    const updated = await store.getCredentials('user-1', 'github');
+    assertEquals(updated?.accessToken, 'rotated-access-token');
+    assertEquals(updated?.refreshToken, 'refresh-token-secret');
+  });
+
+  it('should not decrypt records moved to another user', async () => {
+    const store = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_A,
+    }, createMockLogger());
+    await store.storeCredentials('user-1', 'github', createCredentials());
+
+    const raw = await kvManager.get(['credentials', 'github', 'user-1']);
+    await kvManager.set(['credentials', 'github', 'user-2'], raw);
+
+    assertEquals(await store.getCredentials('user-2', 'github'), null);
+  });
+
+  it('should not return encrypted credentials without the matching key', async () => {
+    const writer = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_A,
+      encryptionKeyId: 'key-a',
+    });
+    await writer.storeCredentials('user-1', 'github', createCredentials());
+
+    const reader = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_B,
+      encryptionKeyId: 'key-b',
+    }, createMockLogger());
+    assertEquals(await reader.getCredentials('user-1', 'github'), null);
+  });
+
+  it('should encrypt existing plaintext records during migration', async () => {
+    const plainStore = new CredentialStore(kvManager);
+    const credentials = createCredentials();
+    await plainStore.storeCredentials('user-1', 'github', credentials);
+    await plainStore.storeCredentials('user-2', 'slack', createCredentials());
+
+    const store = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_A,
+      encryptionKeyId: 'key-a',
+    }, createMockLogger());
+
+    // Plaintext records remain readable before migration
+    assertEquals(await store.getCredentials('user-1', 'github'), credentials);
+
+    const result = await store.migrateEncryption();
+    assertEquals(result, { encrypted: 2, rewrapped: 0, unchanged: 0, failed: 0 });
+
+    const raw = await kvManager.get(['credentials', 'github', 'user-1']);
+    assert(CredentialStore.isEncryptedRecord(raw));
+    assertEquals(await store.getCredentials('user-1', 'github'), credentials);
+
+    // Running again is a no-op
+    assertEquals((await store.migrateEncryption()).unchanged, 2);
+  });
+
+  it('should re-wrap records when the key is rotated', async () => {
+    const oldStore = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_A,
+      encryptionKeyId: 'key-a',
+    });
+    const credentials = createCredentials();
+    await oldStore.storeCredentials('user-1', 'github', credentials);
+
+    const rotatedStore = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_B,
+      encryptionKeyId: 'key-b',
+      previousEncryptionKeys: { 'key-a': KEY_A },
+    }, createMockLogger());
+
+    // Old records stay readable through the previous key
+    assertEquals(await rotatedStore.getCredentials('user-1', 'github'), credentials);
+
+    const result = await rotatedStore.migrateEncryption();
+    assertEquals(result.rewrapped, 1);
+
+    const raw = await kvManager.get<EncryptedCredentialRecord>(['credentials', 'github', 'user-1']);
+    assertEquals(raw?.keyId, 'key-b');
+
+    // The retired key is no longer needed
+    const newOnlyStore = new CredentialStore(kvManager, {
+      enableEncryption: true,
+      encryptionKey: KEY_B,
+      encryptionKeyId: 'key-b',
+    });
+    assertEquals(await newOnlyStore.getCredentials('user-1', 'github'), credentials);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Unit Tests for RateLimitStore
+ * Tests KV-backed token buckets, identity resolution and structured rate limit errors
+ */
+
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { RateLimitStore } from '../../../src/lib/storage/RateLimitStore.ts';
+import type { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import { ErrorCategory, MCPError } from '../../../src/lib/utils/ErrorHandler.ts';
+
+import { createMockKVManager, createMockLogger, SpyLogger } from '../../utils/test-helpers.ts';
+
+describe('RateLimitStore', () => {
+  let kvManager: KVManager;
+  let rateLimitStore: RateLimitStore;
+
+  beforeEach(async () => {
+    kvManager = await createMockKVManager();
+    rateLimitStore = new RateLimitStore(kvManager, {}, createMockLogger());
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  describe('Identity Resolution', () => {
+    it('should prefer authenticated user, then client, then session', () => {
+      assertEquals(
+        RateLimitStore.resolveIdentity({ userId: 'u1', clientId: 'c1', sessionId: 's1' }),
+        'user:u1',
+      );
+      assertEquals(
+        RateLimitStore.resolveIdentity({ clientId: 'c1', sessionId: 's1' }),
+        'client:c1',
+      );
+      assertEquals(RateLimitStore.resolveIdentity({ sessionId: 's1' }), 'session:s1');
+      assertEquals(RateLimitStore.resolveIdentity({}), 'anonymous');
+    });
+  });
+
+  describe('Token Bucket', () => {
+    it('should allow requests up to the limit and then reject', async () => {
+      const limit = { requests: 2, window: 60 };
+
+      const first = await rateLimitStore.consume('tool:echo', 'user:u1', limit);
+      const second = await rateLimitStore.consume('tool:echo', 'user:u1', limit);
+      const third = await rateLimitStore.consume('tool:echo', 'user:u1', limit);
+
+      assert(first.allowed);
+      assertEquals(first.remaining, 1);
+      assert(second.allowed);
+      assertEquals(second.remaining, 0);
+      assertEquals(third.allowed, false);
+      assertEquals(third.limit, 2);
+      assertEquals(third.retryAfter, 30);
+    });
+
+    it('should use burst as bucket capacity', async () => {
+      const limit = { requests: 1, window: 60, burst: 3 };
+
+      for (let i = 0; i < 3; i++) {
+        assert((await rateLimitStore.consume('tool:echo', 'user:u1', limit)).allowed);
+      }
+      assertEquals((await rateLimitStore.consume('tool:echo', 'user:u1', limit)).allowed, false);
+    });
+
+    it('should keep separate buckets per scope and identity', async () => {
+      const limit = { requests: 1, window: 60 };
+
+      assert((await rateLimitStore.consume('tool:echo', 'user:u1', limit)).allowed);
+      assert((await rateLimitStore.consume('tool:echo', 'user:u2', limit)).allowed);
+      assert((await rateLimitStore.consume('tool:other', 'user:u1', limit)).allowed);
+      assertEquals((await rateLimitStore.consume('tool:echo', 'user:u1', limit)).allowed, false);
+    });
+
+    it('should persist bucket state in KV', async () => {
+      const limit = { requests: 1, window: 60 };
+      await rateLimitStore.consume('tool:echo', 'user:u1', limit);
+
+      // A new store on the same KV sees the exhausted bucket
+      const otherStore = new RateLimitStore(kvManager);
+      assertEquals((await otherStore.consume('tool:echo', 'user:u1', limit)).allowed, false);
+
+      await rateLimitStore.reset('tool:echo', 'user:u1');
+      assert((await otherStore.consume('tool:echo', 'user:u1', limit)).allowed);
+    });
+  });
+
+  describe('Enforcement', () => {
+    it('should throw a structured rate limit error with retry-after details', async () => {
+      const limit = { requests: 1, window: 10 };
+      await rateLimitStore.enforce('workflow:sync', 'client:c1', limit);
+
+      const error = await assertRejects(
+        () => rateLimitStore.enforce('workflow:sync', 'client:c1', limit),
+        MCPError,
+        'Rate limit exceeded for workflow:sync',
+      );
+
+      assert(RateLimitStore.isRateLimitError(error));
+      assertEquals(error.info.category, ErrorCategory.RATE_LIMIT);
+
+      const info = RateLimitStore.getRateLimitInfo(error);
+      assertEquals(info.allowed, false);
+      assertEquals(info.limit, 1);
+      assertEquals(info.retryAfter, 10);
+      assertExists(info.resetTime);
+    });
+
+    it('should apply the global limit across scopes', async () => {
+      const store = new RateLimitStore(kvManager, { globalLimit: { requests: 2, window: 60 } });
+
+      await store.enforce('tool:a', 'user:u1');
+      await store.enforce('tool:b', 'user:u1');
+      await assertRejects(() => store.enforce('tool:c', 'user:u1'), MCPError, 'global');
+
+      // Scope-only checks skip the global bucket
+      const info = await store.enforce('tool:c', 'user:u1', { requests: 1, window: 60 }, false);
+      assert(info?.allowed);
+    });
+
+    it('should fail open when storage is unavailable', async () => {
+      const logger = new SpyLogger();
+      const store = new RateLimitStore(kvManager, {}, logger);
+      await kvManager.close();
+
+      const info = await store.enforce('tool:echo', 'user:u1', {
+        requests: 1,
+        window: 60,
+      });
+      assertEquals(info, undefined);
+      assertEquals(
+        logger.errorCalls[0]?.[0],
+        'RateLimitStore: Rate limit check failed, allowing request',
+      );
+
+      kvManager = await createMockKVManager();
+    });
+
+    it('should fail open when a bucket stays contended', async () => {
+      const logger = new SpyLogger();
+      const store = new RateLimitStore(kvManager, { maxCommitAttempts: 0 }, logger);
+
+      const info = await store.enforce('tool:echo', 'user:u1', { requests: 1, window: 60 });
+      assert(info?.allowed);
+      assertEquals(
+        logger.warnCalls[0]?.[0],
+        'RateLimitStore: Bucket update contended, allowing request',
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * Storage Backend Unit Tests
+ *
+ * Runs the same conformance checks against every StorageBackend implementation.
+ * The RESP backend runs against the in-process stand-in from tests/utils.
+ */
+
+import { assert, assertEquals, assertRejects } from '@std/assert';
+import type { StorageBackend } from '../../../src/lib/storage/StorageBackend.ts';
+import {
+  decodeStorageKey,
+  decodeStorageValue,
+  encodeStorageKey,
+  encodeStorageValue,
+} from '../../../src/lib/storage/StorageBackend.ts';
+import { DenoKvStorageBackend } from '../../../src/lib/storage/DenoKvStorageBackend.ts';
+import { MemoryStorageBackend } from '../../../src/lib/storage/MemoryStorageBackend.ts';
+import { SqliteStorageBackend } from '../../../src/lib/storage/SqliteStorageBackend.ts';
+import { RespError, RespStorageBackend } from '../../../src/lib/storage/RespStorageBackend.ts';
+import { RespStandIn } from '../../utils/resp-stand-in.ts';
+
+async function collect(
+  iter: AsyncIterableIterator<{ key: readonly unknown[]; value: unknown }>,
+): Promise<Array<{ key: readonly unknown[]; value: unknown }>> {
+  const entries = [];
+  for await (const entry of iter) {
+    entries.push({ key: entry.key, value: entry.value });
+  }
+  return entries;
+}
+
+async function runConformance(t: Deno.TestContext, backend: StorageBackend): Promise<void> {
+  await t.step('should get, set and delete values', async () => {
+    const missing = await backend.get(['conformance', 'missing']);
+    assertEquals(missing.value, null);
+    assertEquals(missing.versionstamp, null);
+
+    const result = await backend.set(['conformance', 'item'], { name: 'first', count: 1 });
+    assert(result.ok);
+
+    const entry = await backend.get<{ name: string; count: number }>(['conformance', 'item']);
+    assertEquals(entry.value, { name: 'first', count: 1 });
+    assertEquals(entry.versionstamp, result.versionstamp);
+
+    await backend.delete(['conformance', 'item']);
+    assertEquals((await backend.get(['conformance', 'item'])).value, null);
+  });
+
+  await t.step('should round-trip Uint8Array, Date and bigint values', async () => {
+    const value = {
+      bytes: new Uint8Array([0, 1, 254, 255]),
+      at: new Date('2025-01-02T03:04:05.000Z'),
+      big: 12345678901234567890n,
+    };
+    await backend.set(['conformance', 'types'], value);
+    assertEquals((await backend.get(['conformance', 'types'])).value, value);
+  });
+
+  await t.step('should list a prefix in key order', async () => {
+    await backend.set(['list', 'a', 2], 'a2');
+    await backend.set(['list', 'a', 10], 'a10');
+    await backend.set(['list', 'a', -1], 'a-1');
+    await backend.set(['list', 'ab', 1], 'ab1');
+    await backend.set(['list', 'b'], 'b');
+
+    const entries = await collect(backend.list({ prefix: ['list', 'a'] }));
+    assertEquals(entries, [
+      { key: ['list', 'a', -1], value: 'a-1' },
+      { key: ['list', 'a', 2], value: 'a2' },
+      { key: ['list', 'a', 10], value: 'a10' },
+    ]);
+
+    const reversed = await collect(backend.list({ prefix: ['list'] }, { reverse: true, limit: 2 }));
+    assertEquals(reversed.map((entry) => entry.value), ['b', 'ab1']);
+  });
+
+  await t.step('should list a start/end range within a prefix', async () => {
+    for (const n of [1, 2, 3, 4]) {
+      await backend.set(['range', n], n);
+    }
+
+    const bounded = await collect(
+      backend.list({ prefix: ['range'], start: ['range', 2], end: ['range', 4] }),
+    );
+    assertEquals(bounded.map((entry) => entry.value), [2, 3]);
+
+    const fromStart = await collect(backend.list({ prefix: ['range'], start: ['range', 3] }));
+    assertEquals(fromStart.map((entry) => entry.value), [3, 4]);
+
+    const toEnd = await collect(
+      backend.list({ prefix: ['range'], end: ['range', 3] }, { reverse: true }),
+    );
+    assertEquals(toEnd.map((entry) => entry.value), [2, 1]);
+  });
+
+  await t.step('should expire entries after expireIn', async () => {
+    await backend.set(['expiring', 'short'], 'gone', { expireIn: 50 });
+    await backend.set(['expiring', 'long'], 'kept', { expireIn: 60_000 });
+    assertEquals((await backend.get(['expiring', 'short'])).value, 'gone');
+
+    await new Promise((resolve) => setTimeout(resolve, 150));
+
+    // Deno KV only guarantees deletion eventually, so check the other backends strictly
+    if (backend.name !== 'deno_kv') {
+      assertEquals((await backend.get(['expiring', 'short'])).value, null);
+      const entries = await collect(backend.list({ prefix: ['expiring'] }));
+      assertEquals(entries.map((entry) => entry.value), ['kept']);
+    }
+  });
+
+  await t.step('should apply atomic operations only when checks pass', async () => {
+    const initial = await backend.set(['atomic', 'counter'], 1);
+    assert(initial.ok);
+
+    const stale = await backend.get(['atomic', 'counter']);
+    const first = await backend.atomic()
+      .check({ key: ['atomic', 'counter'], versionstamp: stale.versionstamp })
+      .set(['atomic', 'counter'], 2)
+      .set(['atomic', 'log', 1], 'incremented')
+      .commit();
+    assert(first.ok);
+
+    const second = await backend.atomic()
+      .check({ key: ['atomic', 'counter'], versionstamp: stale.versionstamp })
+      .set(['atomic', 'counter'], 3)
+      .delete(['atomic', 'log', 1])
+      .commit();
+    assertEquals(second.ok, false);
+
+    assertEquals((await backend.get(['atomic', 'counter'])).value, 2);
+    assertEquals((await backend.get(['atomic', 'log', 1])).value, 'incremented');
+
+    const create = await backend.atomic()
+      .check({ key: ['atomic', 'new'], versionstamp: null })
+      .set(['atomic', 'new'], 'created')
+      .commit();
+    assert(create.ok);
+    assert(first.ok && create.versionstamp > first.versionstamp);
+  });
+}
+
+Deno.test('StorageBackend - key and value encoding', async (t) => {
+  await t.step('should round-trip keys with mixed part types', () => {
+    const key = ['a/b', 'ü', 1.5, -3, 0, true, false, ''];
+    assertEquals(decodeStorageKey(encodeStorageKey(key)), key);
+  });
+
+  await t.step('should keep string and number parts distinct', () => {
+    assert(encodeStorageKey(['1']) !== encodeStorageKey([1]));
+  });
+
+  await t.step('should order numbers numerically', () => {
+    const numbers = [10, -2.5, 0, 3, -100, 1e9];
+    const sorted = [...numbers].sort((a, b) =>
+      encodeStorageKey([a]) < encodeStorageKey([b]) ? -1 : 1
+    );
+    assertEquals(sorted, [-100, -2.5, 0, 3, 10, 1e9]);
+  });
+
+  await t.step('should round-trip nested values', () => {
+    const value = { list: [1, 'two', null], nested: { flag: true } };
+    assertEquals(decodeStorageValue(encodeStorageValue(value)), value);
+  });
+});
+
+Deno.test('StorageBackend - MemoryStorageBackend', async (t) => {
+  const backend = new MemoryStorageBackend();
+  await runConformance(t, backend);
+
+  await t.step('should copy values on write and read', async () => {
+    const value = { items: ['a'] };
+    await backend.set(['memory', 'copy'], value);
+    value.items.push('b');
+
+    const entry = await backend.get<{ items: string[] }>(['memory', 'copy']);
+    assertEquals(entry.value, { items: ['a'] });
+  });
+
+  backend.close();
+});
+
+Deno.test('StorageBackend - SqliteStorageBackend', async (t) => {
+  const dir = await Deno.makeTempDir();
+  const path = `${dir}/storage.sqlite`;
+  const backend = new SqliteStorageBackend(path);
+
+  try {
+    await runConformance(t, backend);
+
+    await t.step('should persist entries across connections', async () => {
+      await backend.set(['sqlite', 'persisted'], 'still here');
+
+      const reopened = new SqliteStorageBackend(path);
+      assertEquals((await reopened.get(['sqlite', 'persisted'])).value, 'still here');
+      reopened.close();
+    });
+  } finally {
+    backend.close();
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test('StorageBackend - RespStorageBackend', async (t) => {
+  const standIn = new RespStandIn({ password: 'stand-in-secret' });
+  const url = standIn.start().replace('redis://', 'redis://:stand-in-secret@');
+  const backend = new RespStorageBackend({ url, keyPrefix: 'test' });
+
+  try {
+    await runConformance(t, backend);
+
+    await t.step('should namespace keys under the key prefix', () => {
+      assert(standIn.keys().length > 0);
+      assert(standIn.keys().every((key) => key.startsWith('test:')));
+    });
+
+    await t.step('should surface server errors', async () => {
+      const unauthenticated = new RespStorageBackend({
+        url: url.replace(':stand-in-secret@', ''),
+        keyPrefix: 'test',
+      });
+      await assertRejects(() => unauthenticated.get(['any']), RespError, 'NOAUTH');
+      unauthenticated.close();
+    });
+  } finally {
+    backend.close();
+    await standIn.stop();
+  }
+});
+
+Deno.test('StorageBackend - DenoKvStorageBackend', async (t) => {
+  const backend = await DenoKvStorageBackend.open(':memory:');
+  await runConformance(t, backend);
+  backend.close();
+});
@@ -140,6 +140,39 @@ describe('ToolBase Abstract Methods', () => {
   });
 });
 
+describe('ToolBase Rate Limits', () => {
+  class RateLimitedMockTool extends MockTool {
+    override readonly rateLimit = { requests: 5, window: 60 };
+  }
+
+  it('should add rateLimit to the options of getTools() registrations', () => {
+    const tools = new RateLimitedMockTool().getTools();
+    assertEquals(tools.map((tool) => tool.options?.rateLimit), [
+      { requests: 5, window: 60 },
+      { requests: 5, window: 60 },
+    ]);
+  });
+
+  it('should add rateLimit to tools registered through registerWith()', () => {
+    const toolRegistry = createMockToolRegistry();
+    Object.assign(toolRegistry, { sdkMcpServer: { registerTool: () => {} } });
+    const registerSpy = spy(toolRegistry, 'registerTool');
+
+    new RateLimitedMockTool().registerWith(toolRegistry);
+
+    assertSpyCalls(registerSpy, 2);
+    for (const call of registerSpy.calls) {
+      assertEquals(call.args[3]?.rateLimit, { requests: 5, window: 60 });
+    }
+    registerSpy.restore();
+  });
+
+  it('should leave registrations unchanged without a rateLimit', () => {
+    const tools = new MockTool().getTools();
+    assertEquals(tools.map((tool) => tool.options?.rateLimit), [undefined, undefined]);
+  });
+});
+
 describe('ToolBase Context Management', () => {
   let mockTool: MockTool;
   let mockLogger: SpyLogger;
@@ -0,0 +1,179 @@
+/**
+ * Unit Tests for the tool example harness
+ * Tests running ToolDefinition.examples through the managed pipeline and the match modes
+ */
+
+import { assert, assertEquals, AssertionError, assertThrows } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+
+import {
+  assertToolExamples,
+  formatToolExampleReport,
+  runToolExamples,
+} from '../../utils/tool-example-harness.ts';
+import type { ToolRegistration } from '../../../src/lib/types/BeyondMcpTypes.ts';
+import type { AppPlugin } from '../../../src/lib/types/PluginTypes.ts';
+
+const greetTool: ToolRegistration = {
+  name: 'greet',
+  definition: {
+    title: 'Greet',
+    description: 'Greets a user',
+    inputSchema: { name: z.string().min(1) },
+    examples: [
+      {
+        name: 'exact greeting',
+        description: 'Greets Ada',
+        input: { name: 'Ada' },
+        expectedOutput: 'Hello, Ada!',
+      },
+      {
+        name: 'greeting pattern',
+        description: 'Greets anyone',
+        input: { name: 'Grace' },
+        expectedOutput: '^Hello, \\w+!$',
+        match: 'regex',
+      },
+      {
+        name: 'no expected output',
+        description: 'Only has to succeed',
+        input: { name: 'Linus' },
+      },
+    ],
+  },
+  handler: ({ name }) => Promise.resolve({ content: [{ type: 'text', text: `Hello, ${name}!` }] }),
+};
+
+const forecastTool: ToolRegistration = {
+  name: 'forecast',
+  definition: {
+    title: 'Forecast',
+    description: 'Returns a structured forecast',
+    inputSchema: { city: z.string() },
+    outputSchema: { city: z.string(), days: z.array(z.object({ high: z.number() })) },
+    examples: [
+      {
+        name: 'structured subset',
+        description: 'Checks part of the structured content',
+        input: { city: 'Oslo' },
+        expectedOutput: '{"city":"Oslo","days":[{"high":12},{"high":14}]}',
+        match: 'json',
+      },
+      {
+        name: 'unknown city',
+        description: 'Reports an error for unknown cities',
+        input: { city: 'Atlantis' },
+        expectError: true,
+      },
+    ],
+  },
+  handler: ({ city }) => {
+    if (city === 'Atlantis') {
+      return Promise.resolve({ content: [{ type: 'text', text: 'Unknown city' }], isError: true });
+    }
+    const forecast = { city, days: [{ high: 12, low: 4 }, { high: 14, low: 6 }] };
+    return Promise.resolve({
+      content: [{ type: 'text', text: JSON.stringify(forecast) }],
+      structuredContent: forecast,
+    });
+  },
+};
+
+describe('Tool example harness', () => {
+  it('should run every example through the managed pipeline', async () => {
+    const report = await runToolExamples([greetTool, forecastTool]);
+
+    assertEquals(report.total, 5);
+    assertEquals(report.failed, 0, formatToolExampleReport(report));
+    assertEquals(report.results.map((result) => result.match), [
+      'exact',
+      'regex',
+      undefined,
+      'json',
+      undefined,
+    ]);
+    assertEquals(report.results[4]?.isError, true);
+    assertToolExamples(report);
+  });
+
+  it('should report examples that drift from the tool behaviour', async () => {
+    const driftedTool: ToolRegistration = {
+      ...greetTool,
+      definition: {
+        ...greetTool.definition,
+        examples: [
+          {
+            name: 'old greeting',
+            description: 'Greeting before the wording changed',
+            input: { name: 'Ada' },
+            expectedOutput: 'Hi Ada',
+          },
+          {
+            name: 'invalid input',
+            description: 'Input no longer matches the schema',
+            input: { name: '' },
+          },
+        ],
+      },
+    };
+    const jsonDrift: ToolRegistration = {
+      ...forecastTool,
+      definition: {
+        ...forecastTool.definition,
+        examples: [{
+          name: 'wrong high',
+          description: 'Expected value changed',
+          input: { city: 'Oslo' },
+          expectedOutput: '{"days":[{"high":12},{"high":15}]}',
+          match: 'json',
+        }],
+      },
+    };
+
+    const report = await runToolExamples([driftedTool, jsonDrift]);
+    assertEquals(report.failed, 3);
+    assertEquals(report.results[0]?.failures, [
+      'Output "Hello, Ada!" does not equal "Hi Ada"',
+    ]);
+    assert(report.results[1]?.failures[0]?.startsWith('Input does not match inputSchema'));
+    assertEquals(report.results[2]?.failures, ['$.days[1].high: expected 15, got 14']);
+
+    const error = assertThrows(() => assertToolExamples(report), AssertionError);
+    assert(error.message.includes('FAIL greet > old greeting'));
+    assert(error.message.includes('0/3 passed, 3 failed'));
+  });
+
+  it('should apply output schema validation to examples', async () => {
+    const brokenTool: ToolRegistration = {
+      ...forecastTool,
+      handler: () =>
+        Promise.resolve({ content: [{ type: 'text', text: '{}' }], structuredContent: {} }),
+    };
+
+    const report = await runToolExamples([brokenTool], { tools: ['forecast'] });
+    assert(report.results[0]?.failures[0]?.startsWith('Tool returned an error: Output validation'));
+  });
+
+  it('should walk the tools of a plugin and list tools without examples', async () => {
+    const plugin: AppPlugin = {
+      name: 'weather',
+      version: '1.0.0',
+      description: 'Weather tools',
+      workflows: [],
+      tools: [
+        forecastTool,
+        {
+          name: 'ping',
+          definition: { title: 'Ping', description: 'Ping', inputSchema: {} },
+          handler: () => Promise.resolve({ content: [{ type: 'text', text: 'pong' }] }),
+        },
+      ],
+    };
+
+    const report = await runToolExamples(plugin);
+    assertEquals(report.total, 2);
+    assertEquals(report.toolsWithoutExamples, ['ping']);
+    assert(formatToolExampleReport(report).includes('Tools without examples: ping'));
+  });
+});
@@ -7,11 +7,16 @@ import { assert, assertEquals, assertExists } from '@std/assert';
 import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
 import { assertSpyCalls, spy } from '@std/testing/mock';
 import { z } from 'zod';
+import { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import { Client } from 'mcp/client/index.js';
+import { InMemoryTransport } from 'mcp/inMemory.js';
 
 // Import components
 import { ToolRegistry } from '../../../src/lib/tools/ToolRegistry.ts';
 import { Logger } from '../../../src/lib/utils/Logger.ts';
 import { ErrorHandler } from '../../../src/lib/utils/ErrorHandler.ts';
+import { RateLimitStore } from '../../../src/lib/storage/RateLimitStore.ts';
+import { BeyondMcpServer } from '../../../src/lib/server/BeyondMcpServer.ts';
 
 // Import types
 import type {
@@ -22,7 +27,7 @@ import type {
 } from '../../../src/lib/types/BeyondMcpTypes.ts';
 
 // Test helpers
-import { createMockLogger } from '../../utils/test-helpers.ts';
+import { createMockKVManager, createMockLogger } from '../../utils/test-helpers.ts';
 
 // Mock MCP Server
 class MockMcpServer {
@@ -30,6 +35,7 @@ class MockMcpServer {
 
   registerTool(name: string, definition: any, handler: any) {
     this.registeredTools.set(name, { name, definition, handler });
+    return { remove: () => this.registeredTools.delete(name) };
   }
 
   getRegisteredTool(name: string) {
@@ -457,6 +463,252 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('Rate Limiting', () => {
+    it('should reject calls over the per-tool limit with retry-after details', async () => {
+      const kvManager = await createMockKVManager();
+      toolRegistry.rateLimitStore = new RateLimitStore(kvManager);
+
+      toolRegistry.registerTool(
+        'limited_tool',
+        { title: 'Limited Tool', description: 'Rate limited tool', inputSchema: {} },
+        async () => ({ content: [{ type: 'text' as const, text: 'ok' }] }),
+        { rateLimit: { requests: 1, window: 60 } },
+      );
+      const handler = mockMcpServer.getRegisteredTool('limited_tool').handler;
+
+      const first = await handler({}, { sessionId: 'session-1' });
+      assertEquals(first.isError, undefined);
+
+      const second = await handler({}, { sessionId: 'session-1' });
+      assert(second.isError);
+      assertEquals(second._meta.rateLimit.retryAfter, 60);
+      const body = JSON.parse(second.content[0].text);
+      assertEquals(body.error, 'rate_limit_exceeded');
+
+      // Other sessions have their own bucket
+      const other = await handler({}, { sessionId: 'session-2' });
+      assertEquals(other.isError, undefined);
+
+      await kvManager.close();
+    });
+  });
+
+  describe('Required Scopes', () => {
+    const runWithScopes = (scopes: string[], operation: () => Promise<any>): Promise<any> =>
+      (BeyondMcpServer as any).contextStorage.run({
+        authenticatedUserId: 'user-1',
+        clientId: 'client-1',
+        scopes,
+        requestId: 'req-1',
+        startTime: Date.now(),
+        metadata: {},
+      }, operation);
+
+    beforeEach(() => {
+      toolRegistry.registerTool(
+        'admin_tool',
+        {
+          title: 'Admin Tool',
+          description: 'Requires admin scope',
+          inputSchema: {},
+          requiredScopes: ['admin'],
+        },
+        async () => ({ content: [{ type: 'text' as const, text: 'ok' }] }),
+      );
+      toolRegistry.registerTool(
+        'open_tool',
+        { title: 'Open Tool', description: 'No scopes required', inputSchema: {} },
+        async () => ({ content: [{ type: 'text' as const, text: 'ok' }] }),
+      );
+    });
+
+    it('should reject callers without the required scopes', async () => {
+      const handler = mockMcpServer.getRegisteredTool('admin_tool').handler;
+
+      const denied = await runWithScopes(['read', 'write'], () => handler({}, {}));
+      assert(denied.isError);
+      assertEquals(denied._meta.insufficientScope.missingScopes, ['admin']);
+      assertEquals(JSON.parse(denied.content[0].text).error, 'insufficient_scope');
+
+      const allowed = await runWithScopes(['read', 'admin'], () => handler({}, {}));
+      assertEquals(allowed.isError, undefined);
+
+      // The 'all' scope satisfies any requirement
+      const wildcard = await runWithScopes(['all'], () => handler({}, {}));
+      assertEquals(wildcard.isError, undefined);
+    });
+
+    it('should not check scopes without an authentication context', async () => {
+      const handler = mockMcpServer.getRegisteredTool('admin_tool').handler;
+      const result = await handler({}, {});
+      assertEquals(result.isError, undefined);
+    });
+
+    it('should hide tools the caller lacks scopes for from tools/list', async () => {
+      // Stands in for the SDK's handler map, holding the tools/list handler the SDK installed
+      const requestHandlers = new Map<string, any>([
+        ['tools/list', () =>
+          Promise.resolve({
+            tools: [
+              { name: 'admin_tool', inputSchema: { type: 'object' } },
+              { name: 'open_tool', title: 'Open Tool', inputSchema: { type: 'object' } },
+              { name: 'sdk_tool', inputSchema: { type: 'object' }, _meta: { source: 'sdk' } },
+            ],
+          })],
+      ]);
+      (mockMcpServer as any).server = {
+        _requestHandlers: requestHandlers,
+        setRequestHandler: (schema: { shape: { method: { value: string } } }, handler: unknown) =>
+          requestHandlers.set(schema.shape.method.value, handler),
+      };
+
+      assertEquals(toolRegistry.getRequiredScopes('admin_tool'), ['admin']);
+      toolRegistry.hideUnauthorizedTools = true;
+      const filteredList = requestHandlers.get('tools/list');
+
+      // Tools registered with the SDK directly have no scope requirements here
+      const readOnly = await runWithScopes(['read'], () => filteredList({}, {}));
+      assertEquals(readOnly.tools.map((tool: any) => tool.name), ['open_tool', 'sdk_tool']);
+      assertEquals(readOnly.tools[0].title, 'Open Tool');
+      assertEquals(readOnly.tools[1]._meta, { source: 'sdk' });
+
+      const admin = await runWithScopes(['admin'], () => filteredList({}, {}));
+      assertEquals(admin.tools.length, 3);
+
+      toolRegistry.hideUnauthorizedTools = false;
+      const unfiltered = await runWithScopes(['read'], () => filteredList({}, {}));
+      assertEquals(unfiltered.tools.length, 3);
+    });
+
+    it('should list tools as the SDK does when filtering tools/list', async () => {
+      const listWithSdk = async (hideUnauthorizedTools: boolean) => {
+        const sdkMcpServer = new SdkMcpServer({ name: 'tool-list-test', version: '1.0.0' });
+        const registry = new ToolRegistry(dependencies);
+        registry.sdkMcpServer = sdkMcpServer;
+        registry.registerTool(
+          'forecast',
+          {
+            title: 'Forecast',
+            description: 'Returns a typed forecast',
+            inputSchema: { city: z.string().describe('City name'), days: z.number().optional() },
+            outputSchema: { temperature: z.number() },
+            annotations: { readOnlyHint: true },
+          },
+          () => Promise.resolve({ content: [] }),
+        );
+        registry.hideUnauthorizedTools = hideUnauthorizedTools;
+        registry.registerTool(
+          'status',
+          { title: 'Status', description: 'No input', inputSchema: {} },
+          () => Promise.resolve({ content: [] }),
+        );
+        sdkMcpServer.registerTool(
+          'direct',
+          { description: 'Registered with the SDK directly', _meta: { source: 'sdk' } },
+          () => Promise.resolve({ content: [] }),
+        );
+
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        const client = new Client({ name: 'tool-list-test-client', version: '1.0.0' });
+        await Promise.all([
+          sdkMcpServer.connect(serverTransport),
+          client.connect(clientTransport),
+        ]);
+        const result = await client.listTools();
+        await client.close();
+        return result;
+      };
+
+      const filtered = await listWithSdk(true);
+      assertEquals(filtered, await listWithSdk(false));
+      assertEquals(filtered.tools.map((tool) => tool.name), ['forecast', 'status', 'direct']);
+      assertEquals(filtered.tools[2]?._meta, { source: 'sdk' });
+    });
+  });
+
+  describe('Structured Output', () => {
+    const forecastDefinition = {
+      title: 'Forecast',
+      description: 'Returns a typed forecast',
+      inputSchema: { city: z.string() },
+      outputSchema: { city: z.string(), temperature: z.number() },
+      annotations: { readOnlyHint: true, openWorldHint: true },
+    };
+
+    it('should pass the output schema and annotations to the SDK', () => {
+      toolRegistry.registerTool(
+        'forecast',
+        forecastDefinition,
+        () => Promise.resolve({ content: [] }),
+      );
+
+      const registered = mockMcpServer.getRegisteredTool('forecast');
+      assertEquals(registered.definition.outputSchema, forecastDefinition.outputSchema);
+      assertEquals(registered.definition.annotations, { readOnlyHint: true, openWorldHint: true });
+      assertExists(toolRegistry.getToolOutputSchema('forecast'));
+    });
+
+    it('should pass structuredContent and isError through unchanged', async () => {
+      toolRegistry.registerTool(
+        'forecast',
+        forecastDefinition,
+        ({ city }) =>
+          Promise.resolve({
+            content: [{ type: 'text' as const, text: `${city}: 21` }],
+            structuredContent: { city, temperature: 21, source: 'station' },
+          }),
+      );
+      toolRegistry.registerTool(
+        'failing_tool',
+        { title: 'Failing Tool', description: 'Reports an error', inputSchema: {} },
+        () =>
+          Promise.resolve({
+            content: [{ type: 'text' as const, text: 'upstream down' }],
+            isError: true,
+          }),
+      );
+
+      const result = await mockMcpServer.getRegisteredTool('forecast').handler(
+        { city: 'Oslo' },
+        {},
+      );
+      assertEquals(result.isError, undefined);
+      // Keys outside the schema are kept - the handler's result is not replaced by the parsed value
+      assertEquals(result.structuredContent, { city: 'Oslo', temperature: 21, source: 'station' });
+
+      const failed = await mockMcpServer.getRegisteredTool('failing_tool').handler({}, {});
+      assertEquals(failed.isError, true);
+      assertEquals(failed.content[0].text, 'upstream down');
+    });
+
+    it('should report results that do not match the output schema as errors', async () => {
+      let output: Record<string, unknown> | undefined = { city: 'Oslo', temperature: 'warm' };
+      toolRegistry.registerTool(
+        'forecast',
+        forecastDefinition,
+        () =>
+          Promise.resolve({
+            content: [],
+            ...(output && { structuredContent: output }),
+          }),
+      );
+      const handler = mockMcpServer.getRegisteredTool('forecast').handler;
+
+      const invalid = await handler({ city: 'Oslo' }, {});
+      assert(invalid.isError);
+      assert(invalid.content[0].text.startsWith('Output validation error: Validation failed'));
+      assert(invalid.content[0].text.includes('temperature'));
+
+      output = undefined;
+      const missing = await handler({ city: 'Oslo' }, {});
+      assert(missing.isError);
+      assertEquals(
+        missing.content[0].text,
+        "Output validation error: Tool 'forecast' has an outputSchema but returned no structuredContent",
+      );
+    });
+  });
+
   describe('Tool Validation Testing', () => {
     it('should test tool validation without execution', async () => {
       const definition = {
@@ -518,6 +770,18 @@ describe('ToolRegistry', () => {
       assertExists(toolRegistry.getTool('tool_c'));
     });
 
+    it('should remove the tool from the SDK server so it can be registered again', () => {
+      toolRegistry.removeTool('tool_b');
+      assertEquals(mockMcpServer.getRegisteredTool('tool_b'), undefined);
+
+      toolRegistry.registerTool('tool_b', {
+        title: 'tool_b v2',
+        description: 'Replacement for tool_b',
+        inputSchema: {},
+      }, async () => ({ content: [] }));
+      assertEquals(mockMcpServer.getRegisteredTool('tool_b')?.definition.title, 'tool_b v2');
+    });
+
     it('should handle removal of non-existent tool', () => {
       const removed = toolRegistry.removeTool('nonexistent_tool');
       assertEquals(removed, false);
@@ -541,6 +541,32 @@ Deno.test({
     assertEquals(context.clientId, 'test_client');
     assertEquals(context.scopes, ['read', 'write']);
     assertEquals(context.requestId, 'req-123');
+    assertEquals(context.subjectType, 'user');
+  },
+});
+
+Deno.test({
+  name: 'AuthenticationMiddleware - Create Authentication Context for Service Client',
+  fn() {
+    const middleware = createTestMiddleware({}, { oauthProvider: new MockOAuthProvider() as any });
+
+    const authResult: AuthenticationResult = {
+      authenticated: true,
+      clientId: 'service_client',
+      userId: 'service:service_client',
+      subjectType: 'service',
+      scope: ['read'],
+    };
+
+    const context = middleware.createAuthContext(authResult, 'req-456');
+    assertEquals(context.authenticatedUserId, 'service:service_client');
+    assertEquals(context.subjectType, 'service');
+
+    const request = middleware.addAuthContextToRequest(
+      new Request('http://localhost:3000/mcp'),
+      authResult,
+    );
+    assertEquals(request.headers.get('X-MCP-Subject-Type'), 'service');
   },
 });
 
@@ -836,3 +862,25 @@ Deno.test({
  * - Proper error handling prevents information leakage
  * - Authentication bypass protection
  */
+
+Deno.test({
+  name: 'AuthenticationMiddleware - Insufficient Scope Challenge',
+  fn() {
+    const middleware = createTestMiddleware({}, { oauthProvider: new MockOAuthProvider() as any });
+
+    assertEquals(
+      middleware.getAuthErrorStatus({ authenticated: false, errorCode: 'insufficient_scope' }),
+      403,
+    );
+    assert(middleware.getClientGuidance('insufficient_scope').includes('scopes'));
+
+    const challenge = middleware.getInsufficientScopeChallenge(['write', 'admin']);
+    assertEquals(challenge.error, 'insufficient_scope');
+    assertEquals(challenge.scope, 'write admin');
+
+    const header = middleware.buildWWWAuthenticateHeader(challenge);
+    assert(header.startsWith('Bearer '));
+    assert(header.includes('error="insufficient_scope"'));
+    assert(header.includes('scope="write admin"'));
+  },
+});
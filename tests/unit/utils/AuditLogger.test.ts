@@ -0,0 +1,251 @@
+/**
+ * Unit Tests for AuditLogger
+ * Tests hash chaining and tamper detection, rotation, retention and file-based search
+ */
+
+import { assert, assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { stub } from '@std/testing/mock';
+
+import { type AuditConfig, AuditLogger } from '../../../src/lib/utils/AuditLogger.ts';
+
+const logCalls: AuditConfig['logCalls'] = {
+  api: true,
+  auth: true,
+  workflow_execution: true,
+  workflow_operation: true,
+  tools: true,
+  system: true,
+  custom: true,
+};
+
+const toolCall = (toolName: string, userId = 'user-1') => ({
+  toolName,
+  toolClass: 'TestTool',
+  version: '1.0.0',
+  category: 'test',
+  success: true,
+  durationMs: 5,
+  userId,
+});
+
+async function readEntries(path: string): Promise<Array<Record<string, unknown>>> {
+  const content = await Deno.readTextFile(path);
+  return content.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+}
+
+async function listFiles(dir: string): Promise<string[]> {
+  const names: string[] = [];
+  for await (const entry of Deno.readDir(dir)) {
+    names.push(entry.name);
+  }
+  return names.sort();
+}
+
+describe('AuditLogger', () => {
+  let dir: string;
+  let logFile: string;
+  let auditLogger: AuditLogger;
+
+  const createLogger = (overrides: Partial<AuditConfig> = {}) =>
+    new AuditLogger({ enabled: true, logFile, logCalls, flushInterval: 60_000, ...overrides });
+
+  beforeEach(async () => {
+    dir = await Deno.makeTempDir();
+    logFile = `${dir}/audit.log`;
+  });
+
+  afterEach(async () => {
+    await auditLogger?.close();
+    await Deno.remove(dir, { recursive: true });
+  });
+
+  describe('Hash Chain', () => {
+    it('should chain entries and verify them', async () => {
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('echo'));
+      await auditLogger.logSystemEvent({ event: 'started', severity: 'info' });
+
+      const verification = await auditLogger.verifyChain();
+      assert(verification.valid);
+      assertEquals(verification.entriesChecked, 2);
+
+      const [first, second] = await readEntries(logFile);
+      assertEquals(first!.seq, 1);
+      assertEquals(first!.prevHash, '0'.repeat(64));
+      assertEquals(second!.seq, 2);
+      assertEquals(second!.prevHash, first!.hash);
+    });
+
+    it('should detect edited entries', async () => {
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('echo'));
+      await auditLogger.logToolCall(toolCall('echo'));
+      await auditLogger.close();
+
+      const entries = await readEntries(logFile);
+      entries[0]!.userId = 'someone-else';
+      await Deno.writeTextFile(logFile, entries.map((e) => JSON.stringify(e) + '\n').join(''));
+
+      const verification = await auditLogger.verifyChain();
+      assertEquals(verification.valid, false);
+      assertEquals(verification.failure?.seq, 1);
+      assertEquals(verification.failure?.reason, 'Entry content does not match its hash');
+    });
+
+    it('should detect deleted entries', async () => {
+      auditLogger = await createLogger().initialize();
+      for (let i = 0; i < 3; i++) {
+        await auditLogger.logToolCall(toolCall('echo'));
+      }
+      await auditLogger.close();
+
+      const entries = await readEntries(logFile);
+      entries.splice(1, 1);
+      await Deno.writeTextFile(logFile, entries.map((e) => JSON.stringify(e) + '\n').join(''));
+
+      const verification = await auditLogger.verifyChain();
+      assertEquals(verification.valid, false);
+      assertEquals(verification.failure?.seq, 3);
+      assertEquals(verification.failure?.line, 2);
+    });
+
+    it('should continue the chain after reopening the log', async () => {
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('echo'));
+      await auditLogger.close();
+
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('echo'));
+
+      const verification = await auditLogger.verifyChain();
+      assert(verification.valid);
+      assertEquals(verification.entriesChecked, 2);
+      assertEquals((await readEntries(logFile)).map((entry) => entry.seq), [1, 2]);
+    });
+
+    it('should hold entries logged before initialize until the chain is restored', async () => {
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('echo'));
+      await auditLogger.close();
+
+      auditLogger = createLogger({ bufferSize: 1 });
+      await auditLogger.logToolCall(toolCall('early'));
+      await auditLogger.initialize();
+      await auditLogger.close();
+
+      const entries = await readEntries(logFile);
+      assertEquals(entries.map((entry) => entry.seq), [1, 2]);
+      assertEquals(entries[1]!.toolName, 'early');
+      assert((await auditLogger.verifyChain()).valid);
+    });
+  });
+
+  describe('Rotation', () => {
+    it('should rotate by size and verify across files', async () => {
+      auditLogger = await createLogger({ bufferSize: 1, maxFileSize: 200 }).initialize();
+      for (let i = 0; i < 3; i++) {
+        await auditLogger.logToolCall(toolCall(`tool-${i}`));
+      }
+
+      const files = await listFiles(dir);
+      assertEquals(files.length, 3);
+      assert(files.slice(1).every((name) => name.startsWith('audit.log.')));
+
+      const verification = await auditLogger.verifyChain();
+      assert(verification.valid);
+      assertEquals(verification.filesChecked, 3);
+      assertEquals(verification.entriesChecked, 3);
+    });
+
+    it('should not overwrite a file rotated in the same millisecond', async () => {
+      auditLogger = await createLogger({ bufferSize: 1, maxFileSize: 1 }).initialize();
+      const now = new Date().toISOString();
+      const frozenTime = stub(Date.prototype, 'toISOString', () => now);
+      try {
+        for (let i = 0; i < 3; i++) {
+          await auditLogger.logToolCall(toolCall(`tool-${i}`));
+        }
+      } finally {
+        frozenTime.restore();
+      }
+
+      const stamp = now.replace(/[:.]/g, '-');
+      assertEquals(await listFiles(dir), [
+        'audit.log',
+        `audit.log.${stamp}`,
+        `audit.log.${stamp}-1`,
+      ]);
+      const verification = await auditLogger.verifyChain();
+      assert(verification.valid);
+      assertEquals(verification.entriesChecked, 3);
+    });
+
+    it('should rotate when the date has changed', async () => {
+      await Deno.writeTextFile(logFile, '');
+      auditLogger = await createLogger({ bufferSize: 1, rotateDaily: true }).initialize();
+      await auditLogger.logToolCall(toolCall('today'));
+
+      const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+      await Deno.utime(logFile, yesterday, yesterday);
+      await auditLogger.close();
+
+      auditLogger = await createLogger({ bufferSize: 1, rotateDaily: true }).initialize();
+      await auditLogger.logToolCall(toolCall('tomorrow'));
+
+      assertEquals((await listFiles(dir)).length, 2);
+      assertEquals((await readEntries(logFile)).map((entry) => entry.toolName), ['tomorrow']);
+      assert((await auditLogger.verifyChain()).valid);
+    });
+
+    it('should keep at most maxFiles rotated files', async () => {
+      auditLogger = await createLogger({ bufferSize: 1, maxFileSize: 1, maxFiles: 2 })
+        .initialize();
+      for (let i = 0; i < 5; i++) {
+        await auditLogger.logToolCall(toolCall(`tool-${i}`));
+      }
+
+      const files = await listFiles(dir);
+      assertEquals(files.length, 3);
+      assertEquals((await readEntries(logFile)).map((entry) => entry.toolName), ['tool-4']);
+
+      // The oldest remaining entry anchors the chain
+      const verification = await auditLogger.verifyChain();
+      assert(verification.valid);
+      assertEquals(verification.entriesChecked, 3);
+    });
+  });
+
+  describe('Search', () => {
+    it('should search the log files by user, tool and type', async () => {
+      auditLogger = await createLogger({ bufferSize: 1, maxFileSize: 200 }).initialize();
+      await auditLogger.logToolCall(toolCall('echo', 'alice'));
+      await auditLogger.logToolCall(toolCall('fetch', 'bob'));
+      await auditLogger.logToolCall(toolCall('echo', 'bob'));
+      await auditLogger.logSystemEvent({ event: 'started', severity: 'info' });
+
+      const byUser = await auditLogger.searchLogs({ userId: 'bob' });
+      assertEquals(byUser.map((entry) => entry.toolName), ['echo', 'fetch']);
+
+      const byTool = await auditLogger.searchLogs({ toolName: 'echo' });
+      assertEquals(byTool.map((entry) => entry.userId), ['bob', 'alice']);
+
+      const system = await auditLogger.searchLogs({ type: 'system_event' });
+      assertEquals(system.length, 1);
+      assertExists(system[0]!.hash);
+
+      assertEquals((await auditLogger.searchLogs({ limit: 2 })).length, 2);
+    });
+
+    it('should search by time range', async () => {
+      auditLogger = await createLogger().initialize();
+      await auditLogger.logToolCall(toolCall('before'));
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      const startTime = new Date();
+      await auditLogger.logToolCall(toolCall('after'));
+
+      const results = await auditLogger.searchLogs({ startTime });
+      assertEquals(results.map((entry) => entry.toolName), ['after']);
+    });
+  });
+});
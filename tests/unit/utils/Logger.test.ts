@@ -446,6 +446,36 @@ Deno.test('Logger - child logger error handling', () => {
   }
 });
 
+Deno.test('Logger - sink receives entries below the logger level', () => {
+  const { logger: parentLogger, output } = createTestLogger({ level: 'error', format: 'json' });
+
+  try {
+    const entries: Array<{ level: LogLevel; message: string; data?: unknown }> = [];
+    parentLogger.setSink((level, message, data) => entries.push({ level, message, data }));
+
+    const childLogger = parentLogger.child({ workflow: 'sync' });
+    childLogger.debug('Step started', { step: 1 });
+    parentLogger.error('Step failed', new Error('boom'));
+
+    // Only the error reaches stderr, but the sink sees both entries
+    assertEquals(output.getOutput().length, 1);
+    assertEquals(entries.length, 2);
+    assertEquals(entries[0], {
+      level: 'debug',
+      message: 'Step started',
+      data: { workflow: 'sync', step: 1 },
+    });
+    assertEquals(entries[1]?.level, 'error');
+    assertEquals((entries[1]?.data as { error: Error }).error.message, 'boom');
+
+    parentLogger.setSink(undefined);
+    parentLogger.info('Not forwarded');
+    assertEquals(entries.length, 2);
+  } finally {
+    output.restore();
+  }
+});
+
 Deno.test('Logger - edge cases and error handling', () => {
   const { logger, output } = createTestLogger({ format: 'json', colorize: false });
 
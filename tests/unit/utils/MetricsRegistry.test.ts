@@ -0,0 +1,87 @@
+/**
+ * Unit Tests for MetricsRegistry
+ * Tests counters, gauges, histograms and OpenMetrics text rendering
+ */
+
+import { assert, assertEquals, assertStringIncludes, assertThrows } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import { MCP_METRICS, MetricsRegistry } from '../../../src/lib/utils/MetricsRegistry.ts';
+
+describe('MetricsRegistry', () => {
+  let registry: MetricsRegistry;
+
+  beforeEach(() => {
+    MetricsRegistry.resetInstance();
+    registry = MetricsRegistry.getInstance();
+  });
+
+  afterEach(() => {
+    MetricsRegistry.resetInstance();
+  });
+
+  it('should render counters and gauges with labels', async () => {
+    registry.incrementCounter(MCP_METRICS.toolCalls, { tool: 'echo', outcome: 'success' });
+    registry.incrementCounter(MCP_METRICS.toolCalls, { tool: 'echo', outcome: 'success' });
+    registry.incrementCounter(MCP_METRICS.toolCalls, { tool: 'echo', outcome: 'error' });
+    registry.setGauge(MCP_METRICS.sessionsActive, 3);
+
+    const output = await registry.render();
+
+    assertStringIncludes(output, '# TYPE mcp_tool_calls counter\n');
+    assertStringIncludes(output, 'mcp_tool_calls_total{tool="echo",outcome="success"} 2\n');
+    assertStringIncludes(output, 'mcp_tool_calls_total{tool="echo",outcome="error"} 1\n');
+    assertStringIncludes(output, '# TYPE mcp_sessions_active gauge\n');
+    assertStringIncludes(output, 'mcp_sessions_active 3\n');
+    assert(output.endsWith('# EOF\n'));
+  });
+
+  it('should render cumulative histogram buckets', async () => {
+    registry.defineHistogram('test_duration_seconds', 'Test durations', [0.1, 1]);
+    registry.observeHistogram('test_duration_seconds', 0.05);
+    registry.observeHistogram('test_duration_seconds', 0.5);
+    registry.observeHistogram('test_duration_seconds', 5);
+
+    const output = await registry.render();
+
+    assertStringIncludes(output, 'test_duration_seconds_bucket{le="0.1"} 1\n');
+    assertStringIncludes(output, 'test_duration_seconds_bucket{le="1"} 2\n');
+    assertStringIncludes(output, 'test_duration_seconds_bucket{le="+Inf"} 3\n');
+    assertStringIncludes(output, 'test_duration_seconds_count 3\n');
+    assertStringIncludes(output, 'test_duration_seconds_sum 5.55\n');
+  });
+
+  it('should escape label values', async () => {
+    registry.incrementCounter(MCP_METRICS.toolCalls, { tool: 'say "hi"\\\n', outcome: 'success' });
+
+    const output = await registry.render();
+
+    assertStringIncludes(output, 'tool="say \\"hi\\"\\\\\\n"');
+  });
+
+  it('should never decrease counters set from running totals', () => {
+    registry.setCounter(MCP_METRICS.transportRequests, 10, { outcome: 'success' });
+    registry.setCounter(MCP_METRICS.transportRequests, 4, { outcome: 'success' });
+
+    assertEquals(registry.getValue(MCP_METRICS.transportRequests, { outcome: 'success' }), 10);
+  });
+
+  it('should run collectors before rendering', async () => {
+    const remove = registry.addCollector((r) => r.setGauge(MCP_METRICS.toolsRegistered, 7));
+
+    assertStringIncludes(await registry.render(), 'mcp_tools_registered 7\n');
+
+    remove();
+    registry.setGauge(MCP_METRICS.toolsRegistered, 1);
+    assertStringIncludes(await registry.render(), 'mcp_tools_registered 1\n');
+  });
+
+  it('should reject unknown metrics and type mismatches', () => {
+    assertThrows(() => registry.incrementCounter('missing_metric'), Error, 'is not defined');
+    assertThrows(
+      () => registry.setGauge(MCP_METRICS.toolCalls, 1),
+      Error,
+      'is a counter, not a gauge',
+    );
+  });
+});
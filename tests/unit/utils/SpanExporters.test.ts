@@ -0,0 +1,80 @@
+/**
+ * Unit Tests for SpanExporters
+ * Tests OTLP JSON encoding and the offline file exporter
+ */
+
+import { assertEquals } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+
+import { FileSpanExporter, toOtlpJson } from '../../../src/lib/utils/SpanExporters.ts';
+import type { SpanData } from '../../../src/lib/utils/Tracer.ts';
+
+const span: SpanData = {
+  name: 'tools/call echo',
+  kind: 'server',
+  context: {
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7',
+    traceFlags: 1,
+  },
+  parentSpanId: 'b7ad6b7169203331',
+  startTimeMs: 1700000000000.5,
+  endTimeMs: 1700000000012.25,
+  attributes: { 'mcp.tool.name': 'echo', 'mcp.attempt': 2, 'mcp.ratio': 0.5, 'mcp.ok': true },
+  events: [],
+  status: { code: 'error', message: 'invalid_params' },
+};
+
+describe('SpanExporters', () => {
+  it('should encode spans as an OTLP export request', () => {
+    const payload = toOtlpJson([span], { serviceName: 'test-server', serviceVersion: '1.2.3' });
+
+    assertEquals(payload, {
+      resourceSpans: [{
+        resource: {
+          attributes: [
+            { key: 'service.name', value: { stringValue: 'test-server' } },
+            { key: 'service.version', value: { stringValue: '1.2.3' } },
+          ],
+        },
+        scopeSpans: [{
+          scope: { name: 'bb-mcp-server' },
+          spans: [{
+            traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+            spanId: '00f067aa0ba902b7',
+            parentSpanId: 'b7ad6b7169203331',
+            name: 'tools/call echo',
+            kind: 2,
+            startTimeUnixNano: '1700000000000500000',
+            endTimeUnixNano: '1700000000012250000',
+            attributes: [
+              { key: 'mcp.tool.name', value: { stringValue: 'echo' } },
+              { key: 'mcp.attempt', value: { intValue: '2' } },
+              { key: 'mcp.ratio', value: { doubleValue: 0.5 } },
+              { key: 'mcp.ok', value: { boolValue: true } },
+            ],
+            events: [],
+            status: { code: 2, message: 'invalid_params' },
+          }],
+        }],
+      }],
+    });
+  });
+
+  it('should append one OTLP JSON line per batch to the trace file', async () => {
+    const dir = await Deno.makeTempDir();
+    const filePath = `${dir}/traces/spans.jsonl`;
+    const exporter = new FileSpanExporter(filePath);
+
+    try {
+      await exporter.export([span], { serviceName: 'test-server' });
+      await exporter.export([span, span], { serviceName: 'test-server' });
+
+      const lines = (await Deno.readTextFile(filePath)).trim().split('\n');
+      assertEquals(lines.length, 2);
+      assertEquals(JSON.parse(lines[1]!).resourceSpans[0].scopeSpans[0].spans.length, 2);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Unit Tests for Tracer
+ * Tests span nesting, W3C traceparent propagation, error recording and batching
+ */
+
+import { assert, assertEquals, assertExists, assertRejects } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+
+import {
+  type SpanData,
+  type SpanExporter,
+  TRACEPARENT_HEADER,
+  Tracer,
+} from '../../../src/lib/utils/Tracer.ts';
+
+class MemorySpanExporter implements SpanExporter {
+  spans: SpanData[] = [];
+
+  export(spans: SpanData[]): Promise<void> {
+    this.spans.push(...spans);
+    return Promise.resolve();
+  }
+}
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+describe('Tracer', () => {
+  let tracer: Tracer;
+  let exporter: MemorySpanExporter;
+
+  beforeEach(() => {
+    Tracer.resetInstance();
+    tracer = Tracer.getInstance();
+    exporter = new MemorySpanExporter();
+    tracer.configure({ serviceName: 'test-server', exporter });
+  });
+
+  afterEach(async () => {
+    await tracer.shutdown();
+    Tracer.resetInstance();
+  });
+
+  it('should nest spans started inside an active span', async () => {
+    await tracer.startActiveSpan('parent', { kind: 'server' }, async () => {
+      await tracer.startActiveSpan('child', {}, () => Promise.resolve());
+    });
+    await tracer.flush();
+
+    const [child, parent] = exporter.spans;
+    assertExists(parent);
+    assertExists(child);
+    assertEquals(parent.name, 'parent');
+    assertEquals(parent.kind, 'server');
+    assertEquals(parent.parentSpanId, undefined);
+    assertEquals(child.context.traceId, parent.context.traceId);
+    assertEquals(child.parentSpanId, parent.context.spanId);
+    assert(child.endTimeMs >= child.startTimeMs);
+  });
+
+  it('should continue a trace from an incoming traceparent', async () => {
+    const headers = new Headers({ [TRACEPARENT_HEADER]: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` });
+
+    await tracer.startActiveSpan('request', { parent: tracer.extract(headers) }, () => {
+      const outgoing = tracer.inject(new Headers());
+      const context = Tracer.parseTraceparent(outgoing.get(TRACEPARENT_HEADER)!);
+      assertEquals(context?.traceId, TRACE_ID);
+      return Promise.resolve();
+    });
+    await tracer.flush();
+
+    assertEquals(exporter.spans[0]?.context.traceId, TRACE_ID);
+    assertEquals(exporter.spans[0]?.parentSpanId, PARENT_SPAN_ID);
+  });
+
+  it('should read traceparent from MCP _meta', () => {
+    const context = tracer.extract({ traceparent: `00-${TRACE_ID}-${PARENT_SPAN_ID}-01` });
+    assertEquals(context, { traceId: TRACE_ID, spanId: PARENT_SPAN_ID, traceFlags: 1 });
+
+    assertEquals(tracer.extract({ traceparent: 'not-a-traceparent' }), undefined);
+    assertEquals(Tracer.parseTraceparent(`00-${'0'.repeat(32)}-${PARENT_SPAN_ID}-01`), undefined);
+    assertEquals(
+      Tracer.formatTraceparent({ traceId: TRACE_ID, spanId: PARENT_SPAN_ID, traceFlags: 1 }),
+      `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`,
+    );
+  });
+
+  it('should record errors and rethrow them', async () => {
+    await assertRejects(
+      () => tracer.startActiveSpan('failing', {}, () => Promise.reject(new Error('boom'))),
+      Error,
+      'boom',
+    );
+    await tracer.flush();
+
+    const span = exporter.spans[0];
+    assertEquals(span?.status, { code: 'error', message: 'boom' });
+    assertEquals(span?.events[0]?.name, 'exception');
+    assertEquals(span?.events[0]?.attributes['exception.message'], 'boom');
+  });
+
+  it('should skip spans that require a parent outside a trace', async () => {
+    await tracer.startActiveSpan('kv.get', { requireParent: true }, () => Promise.resolve());
+    await tracer.startActiveSpan('request', {}, async () => {
+      await tracer.startActiveSpan('kv.get', { requireParent: true }, () => Promise.resolve());
+    });
+    await tracer.flush();
+
+    assertEquals(exporter.spans.map((span) => span.name), ['kv.get', 'request']);
+    assertExists(exporter.spans[0]?.parentSpanId);
+  });
+
+  it('should propagate but not record unsampled traces', async () => {
+    const parent = Tracer.parseTraceparent(`00-${TRACE_ID}-${PARENT_SPAN_ID}-00`);
+
+    await tracer.startActiveSpan('request', { parent }, (span) => {
+      assert(!span.isRecording);
+      assertEquals(span.context.traceId, TRACE_ID);
+      return Promise.resolve();
+    });
+    await tracer.flush();
+
+    assertEquals(exporter.spans.length, 0);
+  });
+
+  it('should not record spans when tracing is disabled', async () => {
+    await tracer.shutdown();
+
+    const result = await tracer.startActiveSpan('request', {}, (span) => {
+      assert(!span.isRecording);
+      assertEquals(tracer.getActiveSpan(), undefined);
+      return Promise.resolve('done');
+    });
+
+    assertEquals(result, 'done');
+    assertEquals(exporter.spans.length, 0);
+  });
+
+  it('should export once the batch size is reached', async () => {
+    Tracer.resetInstance();
+    tracer = Tracer.getInstance();
+    tracer.configure({ serviceName: 'test-server', exporter, maxBatchSize: 2 });
+
+    await tracer.startActiveSpan('first', {}, () => Promise.resolve());
+    assertEquals(exporter.spans.length, 0);
+    await tracer.startActiveSpan('second', {}, () => Promise.resolve());
+
+    assertEquals(exporter.spans.map((span) => span.name), ['first', 'second']);
+  });
+});
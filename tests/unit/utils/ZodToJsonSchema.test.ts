@@ -0,0 +1,341 @@
+/**
+ * Unit Tests for ZodToJsonSchema
+ *
+ * Checks the generated schema for each supported Zod type, and round-trips sample
+ * values: every sample must be accepted by the JSON Schema exactly when Zod accepts it.
+ * The small validator below covers the keywords the converter emits.
+ */
+
+import { assert, assertEquals } from '@std/assert';
+import { describe, it } from '@std/testing/bdd';
+import { z, type ZodSchema } from 'zod';
+
+import { type JsonSchema, ZodToJsonSchema } from '../../../src/lib/utils/ZodToJsonSchema.ts';
+
+function matchesType(type: string, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    default: {
+      const actualType: string = typeof value;
+      return actualType === type;
+    }
+  }
+}
+
+function validate(schema: JsonSchema, value: unknown, root: JsonSchema = schema): boolean {
+  if (schema.$ref) {
+    const target = root.$defs?.[schema.$ref.replace('#/$defs/', '')];
+    assert(target, `Unresolved $ref ${schema.$ref}`);
+    return validate(target, value, root);
+  }
+  if (schema.not && validate(schema.not, value, root)) return false;
+  if (schema.anyOf && !schema.anyOf.some((option) => validate(option, value, root))) return false;
+  if (schema.oneOf && schema.oneOf.filter((option) => validate(option, value, root)).length !== 1) {
+    return false;
+  }
+  if (schema.allOf && !schema.allOf.every((part) => validate(part, value, root))) return false;
+  if (schema.enum && !schema.enum.some((option) => option === value)) return false;
+  if (schema.type && ![schema.type].flat().some((type) => matchesType(type, value))) return false;
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) return false;
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) return false;
+    if (schema.pattern && !new RegExp(schema.pattern, 'u').test(value)) return false;
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) return false;
+    if (schema.maximum !== undefined && value > schema.maximum) return false;
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) return false;
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) return false;
+    if (schema.multipleOf !== undefined && value % schema.multipleOf !== 0) return false;
+  }
+
+  if (Array.isArray(value)) {
+    const prefix = schema.prefixItems ?? [];
+    if (
+      !prefix.every((item, index) => index >= value.length || validate(item, value[index], root))
+    ) {
+      return false;
+    }
+    const rest = value.slice(prefix.length);
+    if (schema.items === false && rest.length > 0) return false;
+    if (schema.items && !rest.every((item) => validate(schema.items as JsonSchema, item, root))) {
+      return false;
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) return false;
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) return false;
+    if (
+      schema.uniqueItems && new Set(value.map((item) => JSON.stringify(item))).size !== value.length
+    ) {
+      return false;
+    }
+  }
+
+  if (matchesType('object', value)) {
+    const object = value as Record<string, unknown>;
+    if (!(schema.required ?? []).every((key) => key in object)) return false;
+    for (const [key, item] of Object.entries(object)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        if (!validate(property, item, root)) return false;
+      } else if (schema.additionalProperties === false) {
+        return false;
+      } else if (
+        typeof schema.additionalProperties === 'object' &&
+        !validate(schema.additionalProperties, item, root)
+      ) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Assert that the JSON Schema accepts exactly the samples Zod accepts
+ */
+function assertRoundTrip(schema: ZodSchema, samples: unknown[]): void {
+  const jsonSchema = ZodToJsonSchema.convert(schema);
+  for (const sample of samples) {
+    assertEquals(
+      validate(jsonSchema, sample),
+      schema.safeParse(sample).success,
+      `Sample ${JSON.stringify(sample)} against ${JSON.stringify(jsonSchema)}`,
+    );
+  }
+}
+
+type Category = { name: string; children: Category[] };
+const categorySchema: z.ZodType<Category> = z.lazy(() =>
+  z.object({ name: z.string(), children: z.array(categorySchema) })
+);
+
+enum Priority {
+  Low,
+  High,
+}
+
+enum Color {
+  Red = 'red',
+  Green = 'green',
+}
+
+describe('ZodToJsonSchema', () => {
+  describe('Conversion', () => {
+    it('should target draft 2020-12 by default and keep descriptions and defaults', () => {
+      const schema = ZodToJsonSchema.convert(
+        z.object({
+          query: z.string().min(1).describe('Search text'),
+          limit: z.number().int().max(100).default(10).describe('Result count'),
+        }).describe('Search parameters'),
+      );
+
+      assertEquals(schema, {
+        $schema: 'https://json-schema.org/draft/2020-12/schema',
+        type: 'object',
+        description: 'Search parameters',
+        properties: {
+          query: { type: 'string', minLength: 1, description: 'Search text' },
+          limit: { type: 'integer', maximum: 100, default: 10, description: 'Result count' },
+        },
+        required: ['query'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should convert discriminated unions, with a discriminator for OpenAPI 3.1', () => {
+      const union = z.discriminatedUnion('kind', [
+        z.object({ kind: z.literal('email'), address: z.string().email() }),
+        z.object({ kind: z.literal('sms'), phone: z.string() }),
+      ]);
+
+      const jsonSchema = ZodToJsonSchema.convert(union);
+      assertEquals(jsonSchema.oneOf?.length, 2);
+      assertEquals(jsonSchema.discriminator, undefined);
+      assertEquals(jsonSchema.oneOf?.[0]?.properties?.address?.format, 'email');
+
+      const openApi = ZodToJsonSchema.convert(union, { target: 'openApi3.1' });
+      assertEquals(openApi.$schema, undefined);
+      assertEquals(openApi.discriminator, { propertyName: 'kind' });
+    });
+
+    it('should convert intersections, tuples and nullable types', () => {
+      const intersection = ZodToJsonSchema.convert(
+        z.intersection(z.object({ a: z.string() }), z.object({ b: z.number() })),
+      );
+      assertEquals(intersection.allOf?.length, 2);
+
+      assertEquals(ZodToJsonSchema.convert(z.tuple([z.string(), z.number()])).prefixItems, [
+        { type: 'string' },
+        { type: 'number' },
+      ]);
+      const withRest = ZodToJsonSchema.convert(z.tuple([z.string()]).rest(z.boolean()));
+      assertEquals(withRest.items, { type: 'boolean' });
+      assertEquals(withRest.maxItems, undefined);
+
+      assertEquals(ZodToJsonSchema.convert(z.string().nullable()).type, ['string', 'null']);
+      assertEquals(ZodToJsonSchema.convert(z.enum(['a', 'b']).nullable()).anyOf, [
+        { type: 'string', enum: ['a', 'b'] },
+        { type: 'null' },
+      ]);
+    });
+
+    it('should describe the input of effects, branded and readonly types', () => {
+      const withoutHeader = (schema: ZodSchema) => {
+        const { $schema: _schema, ...rest } = ZodToJsonSchema.convert(schema);
+        return rest;
+      };
+
+      assertEquals(withoutHeader(z.string().transform((value) => value.length)), {
+        type: 'string',
+      });
+      assertEquals(withoutHeader(z.number().refine((value) => value % 2 === 0)), {
+        type: 'number',
+      });
+      assertEquals(withoutHeader(z.preprocess(String, z.string().max(3))), {
+        type: 'string',
+        maxLength: 3,
+      });
+      assertEquals(withoutHeader(z.string().uuid().brand<'UserId'>()), {
+        type: 'string',
+        format: 'uuid',
+      });
+      assertEquals(withoutHeader(z.array(z.string()).min(1).readonly()), {
+        type: 'array',
+        items: { type: 'string' },
+        minItems: 1,
+      });
+    });
+
+    it('should convert dates, bigints and native enums', () => {
+      const schema = ZodToJsonSchema.convert(z.object({
+        at: z.date().default(new Date('2025-01-01T00:00:00.000Z')),
+        size: z.bigint().positive(),
+        priority: z.nativeEnum(Priority),
+        color: z.nativeEnum(Color),
+      }));
+
+      assertEquals(schema.properties?.at, {
+        type: 'string',
+        format: 'date-time',
+        default: '2025-01-01T00:00:00.000Z',
+      });
+      assertEquals(schema.properties?.size, {
+        type: 'integer',
+        format: 'int64',
+        exclusiveMinimum: 0,
+      });
+      assertEquals(schema.properties?.priority, { type: 'number', enum: [0, 1] });
+      assertEquals(schema.properties?.color, { type: 'string', enum: ['red', 'green'] });
+    });
+
+    it('should emit recursive schemas once under $defs', () => {
+      const schema = ZodToJsonSchema.convert(z.object({
+        root: categorySchema,
+        archived: z.array(categorySchema).optional(),
+      }));
+
+      assertEquals(schema.properties?.root, { $ref: '#/$defs/Root' });
+      assertEquals(schema.properties?.archived, {
+        type: 'array',
+        items: { $ref: '#/$defs/Root' },
+      });
+      assertEquals(Object.keys(schema.$defs ?? {}), ['Root']);
+      assertEquals(schema.$defs?.Root?.properties?.children, {
+        type: 'array',
+        items: { $ref: '#/$defs/Root' },
+      });
+    });
+
+    it('should inline lazy schemas that are not recursive', () => {
+      const schema = ZodToJsonSchema.convert(z.object({ name: z.lazy(() => z.string()) }));
+      assertEquals(schema.properties?.name, { type: 'string' });
+      assertEquals(schema.$defs, undefined);
+    });
+  });
+
+  describe('Round trip', () => {
+    it('should accept the same objects as Zod', () => {
+      assertRoundTrip(
+        z.object({
+          name: z.string().min(2).max(5).regex(/^[a-z]+$/),
+          age: z.number().int().min(0).lt(150).optional(),
+          role: z.enum(['admin', 'user']).default('user'),
+          nickname: z.string().nullable(),
+          tags: z.array(z.string()).max(2),
+          meta: z.record(z.number()),
+        }),
+        [
+          { name: 'ada', nickname: null, tags: [], meta: {} },
+          { name: 'ada', age: 36, role: 'admin', nickname: 'a', tags: ['x'], meta: { a: 1 } },
+          { name: 'a', nickname: null, tags: [], meta: {} },
+          { name: 'Ada', nickname: null, tags: [], meta: {} },
+          { name: 'ada', age: 1.5, nickname: null, tags: [], meta: {} },
+          { name: 'ada', age: 150, nickname: null, tags: [], meta: {} },
+          { name: 'ada', role: 'owner', nickname: null, tags: [], meta: {} },
+          { name: 'ada', tags: [], meta: {} },
+          { name: 'ada', nickname: null, tags: ['a', 'b', 'c'], meta: {} },
+          { name: 'ada', nickname: null, tags: [], meta: { a: 'one' } },
+        ],
+      );
+    });
+
+    it('should accept the same discriminated unions, intersections and tuples as Zod', () => {
+      assertRoundTrip(
+        z.discriminatedUnion('kind', [
+          z.object({ kind: z.literal('circle'), radius: z.number().positive() }),
+          z.object({ kind: z.literal('square'), side: z.number() }),
+        ]),
+        [
+          { kind: 'circle', radius: 2 },
+          { kind: 'square', side: 3 },
+          { kind: 'circle', radius: 0 },
+          { kind: 'triangle', side: 3 },
+          { kind: 'square' },
+        ],
+      );
+
+      assertRoundTrip(
+        z.intersection(
+          z.object({ id: z.string() }).passthrough(),
+          z.object({ count: z.number() }).passthrough(),
+        ),
+        [{ id: 'a', count: 1 }, { id: 'a' }, { count: 1 }],
+      );
+
+      assertRoundTrip(z.tuple([z.string(), z.number().int()]), [
+        ['a', 1],
+        ['a', 1.5],
+        ['a'],
+        ['a', 1, 2],
+      ]);
+      assertRoundTrip(z.tuple([z.string()]).rest(z.boolean()), [
+        ['a'],
+        ['a', true, false],
+        ['a', 1],
+      ]);
+    });
+
+    it('should accept the same recursive values and enums as Zod', () => {
+      assertRoundTrip(categorySchema, [
+        { name: 'root', children: [] },
+        { name: 'root', children: [{ name: 'leaf', children: [] }] },
+        { name: 'root', children: [{ name: 'leaf' }] },
+        { name: 'root', children: [{ name: 1, children: [] }] },
+      ]);
+
+      assertRoundTrip(z.nativeEnum(Priority), [0, 1, 2, 'Low']);
+      assertRoundTrip(z.nativeEnum(Color), ['red', 'green', 'Red']);
+      assertRoundTrip(z.union([z.literal(null), z.literal(3)]), [null, 3, 4, 'null']);
+    });
+  });
+});
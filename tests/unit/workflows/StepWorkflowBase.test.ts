@@ -0,0 +1,289 @@
+/**
+ * Unit Tests for StepWorkflowBase
+ * Tests declarative steps, conditions, parallel groups, compensation and checkpoint resume
+ */
+
+import { assert, assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+
+import type { WorkflowDependencies } from '../../../src/lib/workflows/WorkflowBase.ts';
+import { StepWorkflowBase } from '../../../src/lib/workflows/StepWorkflowBase.ts';
+import { WorkflowCheckpointStore } from '../../../src/lib/storage/WorkflowCheckpointStore.ts';
+import { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type {
+  WorkflowContext,
+  WorkflowRegistration,
+  WorkflowStepNode,
+} from '../../../src/lib/types/WorkflowTypes.ts';
+
+import { createMockConfigManager, createMockLogger } from '../../utils/test-helpers.ts';
+
+type OrderParams = { userId: string; items: number; express?: boolean };
+
+/**
+ * Order workflow whose steps record their calls and can be made to fail
+ */
+class OrderWorkflow extends StepWorkflowBase {
+  readonly name = 'place_order';
+  readonly version = '1.0.0';
+  readonly description = 'Reserves stock, charges and ships an order';
+  readonly category = 'utility' as const;
+  readonly tags = ['test'];
+
+  readonly parameterSchema = z.object({
+    userId: z.string(),
+    items: z.number().int().positive(),
+    express: z.boolean().optional(),
+  });
+
+  calls: string[] = [];
+  compensated: string[] = [];
+  failures = new Map<string, Error>();
+
+  readonly steps: WorkflowStepNode<OrderParams>[] = [
+    {
+      name: 'reserve_stock',
+      output: 'reservation',
+      run: ({ params }) => this.call('reserve_stock', { reserved: params.items }),
+      compensate: () => {
+        this.compensated.push('reserve_stock');
+        return Promise.resolve();
+      },
+    },
+    {
+      name: 'prepare',
+      parallel: [
+        {
+          name: 'charge_card',
+          inputs: ['reservation'],
+          run: ({ inputs }) =>
+            this.call('charge_card', {
+              amount: (inputs.reservation as { reserved: number }).reserved * 10,
+            }),
+          compensate: () => {
+            this.compensated.push('charge_card');
+            return Promise.resolve();
+          },
+        },
+        {
+          name: 'print_label',
+          run: () => this.call('print_label', 'label-1'),
+        },
+      ],
+    },
+    {
+      name: 'express_upgrade',
+      when: ({ params }) => params.express === true,
+      run: () => this.call('express_upgrade', true),
+    },
+    {
+      name: 'ship',
+      inputs: ['charge_card', 'print_label'],
+      run: ({ inputs }) =>
+        this.call('ship', { paid: inputs.charge_card, label: inputs.print_label }),
+    },
+  ];
+
+  constructor(dependencies: WorkflowDependencies) {
+    super(dependencies);
+  }
+
+  getRegistration(): WorkflowRegistration {
+    return {
+      name: this.name,
+      displayName: this.name,
+      description: this.description,
+      version: this.version,
+      category: this.category,
+      requiresAuth: false,
+      parameterSchema: this.parameterSchema,
+    };
+  }
+
+  getOverview(): string {
+    return this.description;
+  }
+
+  private async call(step: string, output: unknown): Promise<unknown> {
+    this.calls.push(step);
+    const failure = this.failures.get(step);
+    if (failure) throw failure;
+    return await Promise.resolve(output);
+  }
+}
+
+describe('StepWorkflowBase', () => {
+  let kvManager: KVManager;
+  let checkpointStore: WorkflowCheckpointStore;
+  let workflow: OrderWorkflow;
+
+  const createContext = (requestId = 'req-1'): WorkflowContext => ({
+    userId: 'alice',
+    requestId,
+    workflowName: 'place_order',
+    startTime: new Date(),
+    // WorkflowBase skips audit logging when no audit logger is configured
+    auditLogger: undefined!,
+    logger: undefined,
+    kvManager: undefined,
+    thirdPartyClient: undefined,
+    parameterUserId: 'alice',
+    _meta: {},
+    requestMetadata: {},
+    authenticatedUserId: undefined,
+    clientId: undefined,
+    scopes: undefined,
+  });
+
+  beforeEach(async () => {
+    kvManager = new KVManager({ backend: 'memory' }, createMockLogger());
+    await kvManager.initialize();
+    checkpointStore = new WorkflowCheckpointStore(kvManager);
+    workflow = new OrderWorkflow({
+      logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+      configManager: createMockConfigManager(),
+      kvManager,
+    });
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  it('should run the steps with their named inputs and record them', async () => {
+    const result = await workflow.executeWithValidation(
+      { userId: 'alice', items: 2 },
+      createContext(),
+    );
+
+    assert(result.success);
+    assertEquals(result.data, {
+      reservation: { reserved: 2 },
+      charge_card: { amount: 20 },
+      print_label: 'label-1',
+      ship: { paid: { amount: 20 }, label: 'label-1' },
+    });
+    assertEquals(workflow.calls, ['reserve_stock', 'charge_card', 'print_label', 'ship']);
+    assertEquals(result.completed_steps.map((step) => step.operation), [
+      'reserve_stock',
+      'charge_card',
+      'print_label',
+      'ship',
+    ]);
+    assertEquals(result.failed_steps, []);
+    assertEquals(result.metadata.skipped_steps, ['express_upgrade']);
+
+    // The checkpoint is discarded once the run succeeds
+    assertEquals(await checkpointStore.getCheckpoint('place_order', 'req-1'), undefined);
+  });
+
+  it('should run conditional steps when their condition holds', async () => {
+    const result = await workflow.executeWithValidation(
+      { userId: 'alice', items: 1, express: true },
+      createContext(),
+    );
+
+    assert(result.success);
+    assert(workflow.calls.includes('express_upgrade'));
+    assertEquals(result.metadata.skipped_steps, undefined);
+  });
+
+  it('should compensate completed steps in reverse order on a permanent failure', async () => {
+    workflow.failures.set('ship', new Error('Address rejected'));
+
+    const result = await workflow.executeWithValidation(
+      { userId: 'alice', items: 1 },
+      createContext(),
+    );
+
+    assertEquals(result.success, false);
+    assertEquals(result.error?.message, "Step 'ship' failed: Address rejected");
+    assertEquals(result.error?.recoverable, false);
+    assertEquals(result.failed_steps.map((step) => step.operation), ['ship']);
+    assertEquals(workflow.compensated, ['charge_card', 'reserve_stock']);
+    assertEquals(result.metadata.compensated_steps, ['charge_card', 'reserve_stock']);
+    assertEquals(await checkpointStore.getCheckpoint('place_order', 'req-1'), undefined);
+  });
+
+  it('should keep a checkpoint on a recoverable failure and resume from it', async () => {
+    workflow.failures.set('print_label', new Error('Printer connection lost'));
+
+    const failed = await workflow.executeWithValidation(
+      { userId: 'alice', items: 3 },
+      createContext(),
+    );
+    assertEquals(failed.success, false);
+    assertEquals(failed.error?.recoverable, true);
+    assertEquals(workflow.compensated, []);
+
+    // The other branch of the parallel group completed and was checkpointed
+    const checkpoint = await checkpointStore.getCheckpoint('place_order', 'req-1');
+    assertExists(checkpoint);
+    assertEquals(checkpoint.completed, ['reserve_stock', 'charge_card']);
+    assertEquals(checkpoint.outputs.charge_card, { amount: 30 });
+
+    workflow.failures.clear();
+    workflow.calls = [];
+    const resumed = await workflow.executeWithValidation(
+      { userId: 'alice', items: 3 },
+      createContext(),
+    );
+
+    assert(resumed.success);
+    assertEquals(workflow.calls, ['print_label', 'ship']);
+    assertEquals(resumed.metadata.resumed_steps, ['reserve_stock', 'charge_card']);
+    assertEquals(resumed.completed_steps.map((step) => step.operation), [
+      'reserve_stock',
+      'charge_card',
+      'print_label',
+      'ship',
+    ]);
+    assertEquals(await checkpointStore.getCheckpoint('place_order', 'req-1'), undefined);
+  });
+
+  it('should ignore a checkpoint saved with different parameters', async () => {
+    workflow.failures.set('ship', new Error('Carrier timeout'));
+    await workflow.executeWithValidation({ userId: 'alice', items: 1 }, createContext());
+
+    workflow.failures.clear();
+    workflow.calls = [];
+    const result = await workflow.executeWithValidation(
+      { userId: 'alice', items: 5 },
+      createContext(),
+    );
+
+    assert(result.success);
+    assertEquals(workflow.calls, ['reserve_stock', 'charge_card', 'print_label', 'ship']);
+    assertEquals(result.metadata.resumed_steps, undefined);
+  });
+
+  it('should reject steps that read outputs no earlier step produces', async () => {
+    class BrokenWorkflow extends OrderWorkflow {
+      override readonly steps: WorkflowStepNode<OrderParams>[] = [
+        {
+          name: 'prepare',
+          parallel: [
+            { name: 'first', run: () => Promise.resolve(1) },
+            { name: 'second', inputs: ['first'], run: () => Promise.resolve(2) },
+          ],
+        },
+      ];
+    }
+    const broken = new BrokenWorkflow({
+      logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+      configManager: createMockConfigManager(),
+      kvManager,
+    });
+
+    const result = await broken.executeWithValidation(
+      { userId: 'alice', items: 1 },
+      createContext(),
+    );
+    assertEquals(result.success, false);
+    assertEquals(
+      result.error?.message,
+      "Workflow 'place_order' step 'second' reads 'first', which no earlier step outputs",
+    );
+  });
+});
@@ -371,6 +371,30 @@ Deno.test('WorkflowBase - resource tracking', async () => {
   // kvManager = undefined;
 });
 
+Deno.test('WorkflowBase - subclasses can set the start time of a run', async () => {
+  const logger = new Logger({ level: 'debug', format: 'text' });
+  const configManager = await createMockConfigManager();
+  const kvManager = await createMockKVManager();
+
+  class BackdatedWorkflow extends TestWorkflow {
+    protected override onBeforeExecute(): Promise<void> {
+      this.startTime = performance.now() - 1000;
+      return Promise.resolve();
+    }
+  }
+  const workflow = new BackdatedWorkflow({ logger, configManager, kvManager });
+
+  const result = await workflow.executeWithValidation(
+    { userId: 'test-user', message: 'hello' },
+    createTestContext(),
+  );
+
+  assertEquals(result.success, true);
+  assert(result.duration! >= 1000);
+
+  await kvManager.close();
+});
+
 Deno.test('WorkflowBase - error classification', async () => {
   const logger = new Logger({ level: 'debug', format: 'text' });
   const configManager = await createMockConfigManager();
@@ -455,3 +479,167 @@ Deno.test('WorkflowBase - logging integration', async () => {
   await kvManager.close();
   // kvManager = undefined;
 });
+
+// Workflow whose body is supplied by each test, for execution control tests
+class StepWorkflow extends WorkflowBase {
+  readonly name = 'step_workflow';
+  readonly version = '1.0.0';
+  readonly description = 'Workflow with test-supplied steps';
+  readonly category = 'utility' as const;
+  override readonly tags = ['test'];
+  override readonly requiresAuth = false;
+
+  readonly parameterSchema = z.object({
+    userId: z.string(),
+  });
+
+  constructor(
+    dependencies: WorkflowDependencies,
+    private run: (workflow: StepWorkflow, context: WorkflowContext) => Promise<unknown>,
+  ) {
+    super(dependencies);
+  }
+
+  getRegistration(): WorkflowRegistration {
+    return {
+      name: this.name,
+      displayName: 'Step Workflow',
+      description: this.description,
+      version: this.version,
+      category: this.category,
+      requiresAuth: this.requiresAuth,
+      parameterSchema: this.parameterSchema,
+    };
+  }
+
+  getOverview(): string {
+    return 'A workflow with test-supplied steps';
+  }
+
+  step<T>(name: string, operation: () => Promise<T>) {
+    return this.safeExecute(name, operation);
+  }
+
+  protected async executeWorkflow(_params: unknown, context: WorkflowContext) {
+    const data = await this.run(this, context);
+    return {
+      success: true,
+      data,
+      completed_steps: [...this.completedSteps],
+      failed_steps: [...this.failedSteps],
+      metadata: {},
+    };
+  }
+}
+
+// Resolves when the workflow's signal aborts
+function waitForAbort(context: WorkflowContext): Promise<void> {
+  return new Promise((resolve) => context.signal?.addEventListener('abort', () => resolve()));
+}
+
+Deno.test('WorkflowBase - retries recoverable steps with backoff', async () => {
+  const logger = new Logger({ level: 'error', format: 'text' });
+  const configManager = await createMockConfigManager();
+  const kvManager = await createMockKVManager();
+
+  let networkAttempts = 0;
+  let validationAttempts = 0;
+  const workflow = new StepWorkflow({ logger, configManager, kvManager }, async (wf) => {
+    const network = await wf.step('flaky_call', () => {
+      networkAttempts++;
+      if (networkAttempts < 3) return Promise.reject(new Error('network connection reset'));
+      return Promise.resolve('ok');
+    });
+    const validation = await wf.step('invalid_call', () => {
+      validationAttempts++;
+      return Promise.reject(new Error('invalid input'));
+    });
+    return { network, validation };
+  });
+
+  const result = await workflow.executeWithValidation(
+    { userId: 'test-user' },
+    createTestContext(),
+    { retries: 2, retryDelay: 1 },
+  );
+
+  assertEquals(result.success, true);
+  assertEquals(networkAttempts, 3);
+  // Non-recoverable failures are not retried
+  assertEquals(validationAttempts, 1);
+  assertEquals(result.completed_steps.map((s) => s.operation), ['flaky_call']);
+  assertEquals(result.failed_steps.length, 1);
+  assertEquals(result.failed_steps[0]!.recoverable, false);
+  assertEquals(result.failed_steps[0]!.attempts, 1);
+
+  await kvManager.close();
+});
+
+Deno.test('WorkflowBase - timeout returns partial result', async () => {
+  const logger = new Logger({ level: 'error', format: 'text' });
+  const configManager = await createMockConfigManager();
+  const kvManager = await createMockKVManager();
+
+  const workflow = new StepWorkflow({ logger, configManager, kvManager }, async (wf, context) => {
+    await wf.step('first_step', () => Promise.resolve('done'));
+    await waitForAbort(context);
+    const second = await wf.step('second_step', () => Promise.resolve('never'));
+    return { second };
+  });
+
+  const result = await workflow.executeWithValidation(
+    { userId: 'test-user' },
+    createTestContext(),
+    { timeout: 20 },
+  );
+
+  assertEquals(result.success, false);
+  assertEquals(result.error?.type, 'timeout');
+  assertEquals(result.error?.recoverable, true);
+  assertEquals(result.completed_steps.map((s) => s.operation), ['first_step']);
+  assertEquals(result.failed_steps.at(-1)?.error_type, 'timeout');
+  assertEquals(result.metadata.partial, true);
+  assertEquals(result.metadata.timeout_ms, 20);
+
+  await kvManager.close();
+});
+
+Deno.test('WorkflowBase - cancellation through context signal', async () => {
+  const logger = new Logger({ level: 'error', format: 'text' });
+  const configManager = await createMockConfigManager();
+  const kvManager = await createMockKVManager();
+  const controller = new AbortController();
+
+  const workflow = new StepWorkflow({ logger, configManager, kvManager }, async (wf, context) => {
+    await wf.step('first_step', () => Promise.resolve('done'));
+    controller.abort(new Error('client cancelled request'));
+    await waitForAbort(context);
+    return await wf.step('second_step', () => Promise.resolve('never'));
+  });
+
+  const result = await workflow.executeWithValidation(
+    { userId: 'test-user' },
+    { ...createTestContext(), signal: controller.signal },
+  );
+
+  assertEquals(result.success, false);
+  assertEquals(result.error?.type, 'user_cancelled');
+  assertEquals(result.error?.message, 'Workflow cancelled: client cancelled request');
+  assertEquals(result.completed_steps.length, 1);
+
+  // Already-cancelled requests never start the workflow
+  let started = false;
+  const idle = new StepWorkflow({ logger, configManager, kvManager }, () => {
+    started = true;
+    return Promise.resolve();
+  });
+  const cancelled = await idle.executeWithValidation(
+    { userId: 'test-user' },
+    { ...createTestContext(), signal: controller.signal },
+  );
+  assertEquals(cancelled.error?.type, 'user_cancelled');
+  assertEquals(cancelled.completed_steps, []);
+  assert(!started);
+
+  await kvManager.close();
+});
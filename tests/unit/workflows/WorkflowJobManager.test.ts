@@ -0,0 +1,355 @@
+/**
+ * Unit Tests for WorkflowJobManager
+ * Tests background job execution, progress, cancellation and recovery after a restart
+ */
+
+import { assert, assertEquals, assertExists } from '@std/assert';
+import { afterEach, beforeEach, describe, it } from '@std/testing/bdd';
+import { z } from 'zod';
+
+import {
+  WorkflowBase,
+  type WorkflowDependencies,
+} from '../../../src/lib/workflows/WorkflowBase.ts';
+import { WorkflowJobManager } from '../../../src/lib/workflows/WorkflowJobManager.ts';
+import type { WorkflowRegistry } from '../../../src/lib/workflows/WorkflowRegistry.ts';
+import { WorkflowJobStore } from '../../../src/lib/storage/WorkflowJobStore.ts';
+import { KVManager } from '../../../src/lib/storage/KVManager.ts';
+import type {
+  WorkflowContext,
+  WorkflowJob,
+  WorkflowRegistration,
+  WorkflowResult,
+} from '../../../src/lib/types/WorkflowTypes.ts';
+
+import { createMockConfigManager, createMockLogger } from '../../utils/test-helpers.ts';
+
+class CountingWorkflow extends WorkflowBase {
+  readonly name: string;
+  readonly version = '1.0.0';
+  readonly description = 'Counts through steps, optionally waiting to be cancelled';
+  readonly category = 'utility' as const;
+  readonly tags = ['test'];
+  override readonly resumable: boolean;
+
+  readonly parameterSchema = z.object({
+    userId: z.string(),
+    steps: z.number().int().positive(),
+    hold: z.boolean().optional(),
+  });
+
+  constructor(dependencies: WorkflowDependencies, name: string, resumable: boolean) {
+    super(dependencies);
+    this.name = name;
+    this.resumable = resumable;
+  }
+
+  getRegistration(): WorkflowRegistration {
+    return {
+      name: this.name,
+      displayName: this.name,
+      description: this.description,
+      version: this.version,
+      category: this.category,
+      requiresAuth: false,
+      parameterSchema: this.parameterSchema,
+    };
+  }
+
+  getOverview(): string {
+    return this.description;
+  }
+
+  protected async executeWorkflow(
+    params: z.infer<typeof this.parameterSchema>,
+    context: WorkflowContext,
+  ): Promise<WorkflowResult> {
+    for (let step = 1; step <= params.steps; step++) {
+      this.completedSteps.push(this.createStepResult(`step_${step}`, true));
+      await this.sendNotificationProgress({
+        progress: Math.round((step / params.steps) * 100),
+        message: `Step ${step} of ${params.steps}`,
+      }, {});
+    }
+
+    if (params.hold) {
+      // Runs until the job is cancelled or the server shuts down
+      await new Promise((resolve) => context.signal?.addEventListener('abort', resolve));
+    }
+
+    return {
+      success: true,
+      data: { counted: params.steps },
+      completed_steps: [...this.completedSteps],
+      failed_steps: [],
+      metadata: {},
+    };
+  }
+}
+
+async function waitForJob(
+  manager: WorkflowJobManager,
+  jobId: string,
+  done: (job: WorkflowJob) => boolean,
+): Promise<WorkflowJob> {
+  for (let attempt = 0; attempt < 200; attempt++) {
+    const job = await manager.getJob(jobId);
+    if (job && done(job)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+  throw new Error(`Job ${jobId} did not reach the expected state`);
+}
+
+const waitForStatus = (
+  manager: WorkflowJobManager,
+  jobId: string,
+  statuses: WorkflowJob['status'][],
+) => waitForJob(manager, jobId, (job) => statuses.includes(job.status));
+
+describe('WorkflowJobManager', () => {
+  let kvManager: KVManager;
+  let jobStore: WorkflowJobStore;
+  let workflows: Map<string, CountingWorkflow>;
+  let recorded: string[];
+  let workflowRegistry: WorkflowRegistry;
+
+  const createManager = () =>
+    new WorkflowJobManager({
+      workflowRegistry,
+      jobStore,
+      logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+    });
+
+  const request = (workflowName: string, parameters: Record<string, unknown>) => ({
+    workflowName,
+    parameters: { userId: 'alice', ...parameters },
+    userId: 'alice',
+    requestId: 'req-1',
+    authenticatedUserId: 'alice',
+    requestMetadata: { progressToken: 'token-1' },
+  });
+
+  beforeEach(async () => {
+    kvManager = new KVManager({ backend: 'memory' }, createMockLogger());
+    await kvManager.initialize();
+    jobStore = new WorkflowJobStore(kvManager, {}, createMockLogger());
+
+    const dependencies: WorkflowDependencies = {
+      logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+      configManager: createMockConfigManager(),
+      kvManager,
+    };
+    workflows = new Map([
+      ['counting', new CountingWorkflow(dependencies, 'counting', false)],
+      ['resumable_counting', new CountingWorkflow(dependencies, 'resumable_counting', true)],
+    ]);
+    recorded = [];
+    workflowRegistry = {
+      getWorkflow: (name: string) => workflows.get(name),
+      recordExecution: (name: string, result: WorkflowResult) =>
+        recorded.push(`${name}:${result.success}`),
+    } as unknown as WorkflowRegistry;
+  });
+
+  afterEach(async () => {
+    await kvManager.close();
+  });
+
+  it('should run a job in the background and store its result', async () => {
+    const manager = createManager();
+    const started = await manager.startJob(request('counting', { steps: 3 }));
+    assertEquals(started.workflowName, 'counting');
+    assertEquals(started.status, 'running');
+
+    const job = await waitForStatus(manager, started.id, ['completed']);
+    assertEquals(job.attempts, 1);
+    assertEquals(job.result?.data, { counted: 3 });
+    assertEquals(job.result?.completed_steps.map((step) => step.operation), [
+      'step_1',
+      'step_2',
+      'step_3',
+    ]);
+    assertEquals(job.progress?.progress, 100);
+    assertEquals(job.progress?.message, 'Step 3 of 3');
+    assertExists(job.completedAt);
+    assertEquals(recorded, ['counting:true']);
+
+    const stored = await jobStore.getJob(started.id);
+    assertEquals(stored?.status, 'completed');
+    assertEquals(stored?.requestMetadata, { progressToken: 'token-1' });
+  });
+
+  it('should keep the steps of concurrent jobs on the same workflow apart', async () => {
+    const manager = createManager();
+    const [first, second] = await Promise.all([
+      manager.startJob(request('counting', { steps: 2 })),
+      manager.startJob(request('counting', { steps: 4 })),
+    ]);
+
+    const firstJob = await waitForStatus(manager, first.id, ['completed']);
+    const secondJob = await waitForStatus(manager, second.id, ['completed']);
+    assertEquals(firstJob.result?.completed_steps.map((step) => step.operation), [
+      'step_1',
+      'step_2',
+    ]);
+    assertEquals(secondJob.result?.completed_steps.map((step) => step.operation), [
+      'step_1',
+      'step_2',
+      'step_3',
+      'step_4',
+    ]);
+  });
+
+  it('should record a failed job when parameters are invalid', async () => {
+    const manager = createManager();
+    const started = await manager.startJob(request('counting', { steps: 0 }));
+
+    const job = await waitForStatus(manager, started.id, ['failed']);
+    assertEquals(job.result?.error?.type, 'validation');
+  });
+
+  it('should reject unknown workflows', async () => {
+    const manager = createManager();
+    let error: Error | undefined;
+    try {
+      await manager.startJob(request('missing', {}));
+    } catch (caught) {
+      error = caught as Error;
+    }
+    assertEquals(error?.message, "Workflow 'missing' not found");
+    assertEquals(await jobStore.listJobs(), []);
+  });
+
+  it('should cancel a running job and keep its partial result', async () => {
+    const manager = createManager();
+    const started = await manager.startJob(request('counting', { steps: 2, hold: true }));
+    await waitForJob(manager, started.id, (job) => job.progress?.progress === 100);
+
+    const cancelled = await manager.cancelJob(started.id);
+    assertEquals(cancelled?.status, 'cancelled');
+    assertEquals(cancelled?.result?.error?.type, 'user_cancelled');
+    assertEquals(cancelled?.result?.completed_steps.length, 2);
+
+    // Cancelling a finished job leaves it unchanged
+    assertEquals((await manager.cancelJob(started.id))?.status, 'cancelled');
+  });
+
+  it('should cancel a job left active by a stopped server', async () => {
+    const now = new Date().toISOString();
+    await jobStore.saveJob({
+      id: 'stale',
+      workflowName: 'counting',
+      status: 'running',
+      parameters: { userId: 'alice', steps: 1 },
+      userId: 'alice',
+      requestId: 'req-stale',
+      attempts: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const cancelled = await createManager().cancelJob('stale');
+    assertEquals(cancelled?.status, 'cancelled');
+    assertEquals((await jobStore.getJob('stale'))?.status, 'cancelled');
+  });
+
+  it('should resume resumable jobs and mark the others interrupted after a restart', async () => {
+    const first = createManager();
+    const plain = await first.startJob(request('counting', { steps: 1, hold: true }));
+    const resumable = await first.startJob(
+      request('resumable_counting', { steps: 1, hold: true }),
+    );
+    await waitForStatus(first, plain.id, ['running']);
+    await waitForStatus(first, resumable.id, ['running']);
+
+    await first.shutdown();
+    assertEquals((await jobStore.getJob(plain.id))?.status, 'running');
+    assertEquals((await jobStore.getJob(resumable.id))?.status, 'running');
+
+    const second = createManager();
+    assertEquals(await second.recoverJobs(), { resumed: 1, interrupted: 1 });
+
+    const interrupted = await jobStore.getJob(plain.id);
+    assertEquals(interrupted?.status, 'interrupted');
+    assertExists(interrupted?.completedAt);
+
+    const resumed = await waitForStatus(second, resumable.id, ['running']);
+    assertEquals(resumed.attempts, 2);
+    // The progress token belonged to the request that started the job
+    assertEquals(resumed.requestMetadata, {});
+
+    const cancelled = await second.cancelJob(resumable.id);
+    assertEquals(cancelled?.status, 'cancelled');
+  });
+
+  it('should renew the lease of a running job and release it on shutdown', async () => {
+    const manager = new WorkflowJobManager({
+      workflowRegistry,
+      jobStore,
+      logger: createMockLogger() as unknown as WorkflowDependencies['logger'],
+    }, { instanceId: 'instance-a', leaseMs: 30 });
+    const started = await manager.startJob(request('counting', { steps: 1, hold: true }));
+    assertEquals(started.ownerId, 'instance-a');
+
+    const leased = await waitForStatus(manager, started.id, ['running']);
+    const renewed = await waitForJob(
+      manager,
+      started.id,
+      (job) => job.leaseExpiresAt! > leased.leaseExpiresAt!,
+    );
+    assertEquals(renewed.ownerId, 'instance-a');
+
+    await manager.shutdown();
+    const stored = await jobStore.getJob(started.id);
+    assertEquals(stored?.status, 'running');
+    assert(Date.parse(stored!.leaseExpiresAt!) <= Date.now());
+  });
+
+  it('should leave jobs leased by another instance alone', async () => {
+    const now = new Date().toISOString();
+    const leased: WorkflowJob = {
+      id: 'leased',
+      workflowName: 'counting',
+      status: 'running',
+      parameters: { userId: 'alice', steps: 1 },
+      userId: 'alice',
+      requestId: 'req-leased',
+      attempts: 1,
+      ownerId: 'instance-b',
+      leaseExpiresAt: new Date(Date.now() + 60_000).toISOString(),
+      createdAt: now,
+      updatedAt: now,
+    };
+    await jobStore.saveJob(leased);
+
+    const manager = createManager();
+    assertEquals(await manager.recoverJobs(), { resumed: 0, interrupted: 0 });
+    assertEquals((await manager.cancelJob('leased'))?.status, 'running');
+    assertEquals(await jobStore.getJob('leased'), leased);
+
+    // Once the owner stops renewing the lease, the job is recovered
+    await jobStore.saveJob({ ...leased, leaseExpiresAt: now });
+    assertEquals(await manager.recoverJobs(), { resumed: 0, interrupted: 1 });
+    const interrupted = await jobStore.getJob('leased');
+    assertEquals(interrupted?.status, 'interrupted');
+    assert(interrupted?.ownerId !== 'instance-b');
+  });
+
+  it('should stop resuming a job after the maximum attempts', async () => {
+    const now = new Date().toISOString();
+    await jobStore.saveJob({
+      id: 'crashing',
+      workflowName: 'resumable_counting',
+      status: 'running',
+      parameters: { userId: 'alice', steps: 1 },
+      userId: 'alice',
+      requestId: 'req-crashing',
+      attempts: 3,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    assertEquals(await createManager().recoverJobs(), { resumed: 0, interrupted: 1 });
+    assert((await jobStore.getJob('crashing'))?.status === 'interrupted');
+  });
+});
@@ -0,0 +1,287 @@
+/**
+ * RESP Stand-In - Minimal in-process Redis-protocol server for tests
+ *
+ * Implements only the commands RespStorageBackend uses (strings with PX expiry,
+ * a lexicographic sorted set, INCR and WATCH/MULTI/EXEC), so the backend can be
+ * tested without a Redis installation.
+ */
+
+interface StandInValue {
+  data: string | Set<string>;
+  expiresAt?: number;
+}
+
+interface StandInConnection {
+  watched: Map<string, number>;
+  queued: string[][] | undefined;
+}
+
+type Reply = string | number | null | Error | Reply[];
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+/**
+ * Redis-protocol server backed by a Map
+ */
+export class RespStandIn {
+  private listener: Deno.Listener | undefined;
+  private values = new Map<string, StandInValue>();
+  // Bumped on every write so WATCH can detect changes
+  private revisions = new Map<string, number>();
+  private connections = new Set<Deno.Conn>();
+  private serving: Promise<void> | undefined;
+  private password: string | undefined;
+
+  constructor(options: { password?: string } = {}) {
+    this.password = options.password;
+  }
+
+  /**
+   * Start listening on a random local port and return the server URL
+   */
+  start(): string {
+    this.listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+    this.serving = this.acceptLoop(this.listener);
+    const { port } = this.listener.addr as Deno.NetAddr;
+    return `redis://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.listener?.close();
+    for (const conn of this.connections) {
+      try {
+        conn.close();
+      } catch {
+        // Already closed by the client
+      }
+    }
+    await this.serving;
+  }
+
+  /**
+   * Raw keys currently stored (for assertions)
+   */
+  keys(): string[] {
+    return [...this.values.keys()].filter((key) => this.lookup(key) !== undefined);
+  }
+
+  private async acceptLoop(listener: Deno.Listener): Promise<void> {
+    const handlers: Promise<void>[] = [];
+    try {
+      for await (const conn of listener) {
+        this.connections.add(conn);
+        handlers.push(this.serve(conn).finally(() => this.connections.delete(conn)));
+      }
+    } catch {
+      // Listener closed
+    }
+    await Promise.allSettled(handlers);
+  }
+
+  private async serve(conn: Deno.Conn): Promise<void> {
+    const state: StandInConnection = { watched: new Map(), queued: undefined };
+    let authenticated = !this.password;
+    let buffer = '';
+    const chunk = new Uint8Array(64 * 1024);
+
+    try {
+      while (true) {
+        const read = await conn.read(chunk);
+        if (read === null) return;
+        buffer += decoder.decode(chunk.subarray(0, read), { stream: true });
+
+        let parsed: { args: string[]; rest: string } | undefined;
+        while ((parsed = parseCommand(buffer))) {
+          buffer = parsed.rest;
+          const [name = '', ...args] = parsed.args;
+          const command = name.toUpperCase();
+
+          let reply: Reply;
+          if (command === 'AUTH') {
+            authenticated = args[args.length - 1] === this.password;
+            reply = authenticated ? 'OK' : new Error('WRONGPASS invalid password');
+          } else if (!authenticated) {
+            reply = new Error('NOAUTH Authentication required.');
+          } else {
+            reply = this.execute(state, command, args);
+          }
+          await conn.write(encoder.encode(encodeReply(reply)));
+        }
+      }
+    } catch {
+      // Connection closed
+    }
+  }
+
+  private execute(state: StandInConnection, command: string, args: string[]): Reply {
+    if (state.queued && !['EXEC', 'DISCARD', 'MULTI', 'WATCH'].includes(command)) {
+      state.queued.push([command, ...args]);
+      return 'QUEUED';
+    }
+
+    switch (command) {
+      case 'MULTI':
+        state.queued = [];
+        return 'OK';
+      case 'DISCARD':
+        state.queued = undefined;
+        state.watched.clear();
+        return 'OK';
+      case 'WATCH':
+        for (const key of args) {
+          state.watched.set(key, this.revisions.get(key) ?? 0);
+        }
+        return 'OK';
+      case 'UNWATCH':
+        state.watched.clear();
+        return 'OK';
+      case 'EXEC': {
+        const queued = state.queued ?? [];
+        const changed = [...state.watched].some(([key, revision]) =>
+          (this.revisions.get(key) ?? 0) !== revision
+        );
+        state.queued = undefined;
+        state.watched.clear();
+        if (changed) return null;
+        return queued.map(([name = '', ...queuedArgs]) => this.run(name, queuedArgs));
+      }
+      default:
+        return this.run(command, args);
+    }
+  }
+
+  private run(command: string, args: string[]): Reply {
+    switch (command) {
+      case 'PING':
+        return 'PONG';
+      case 'SELECT':
+        return 'OK';
+      case 'GET': {
+        const value = this.lookup(args[0]!);
+        return typeof value?.data === 'string' ? value.data : null;
+      }
+      case 'MGET':
+        return args.map((key) => {
+          const value = this.lookup(key);
+          return typeof value?.data === 'string' ? value.data : null;
+        });
+      case 'SET': {
+        const [key, data, option, ttl] = args as [string, string, string?, string?];
+        this.write(key, {
+          data,
+          ...(option?.toUpperCase() === 'PX' && { expiresAt: Date.now() + Number(ttl) }),
+        });
+        return 'OK';
+      }
+      case 'DEL':
+        return args.filter((key) => this.write(key, undefined)).length;
+      case 'INCR': {
+        const next = Number(this.lookup(args[0]!)?.data ?? 0) + 1;
+        this.write(args[0]!, { data: String(next) });
+        return next;
+      }
+      case 'ZADD': {
+        const [key, , member] = args as [string, string, string];
+        const members = this.sortedSet(key);
+        members.add(member);
+        this.write(key, { data: members });
+        return 1;
+      }
+      case 'ZREM': {
+        const [key, ...members] = args as [string, ...string[]];
+        const set = this.sortedSet(key);
+        const removed = members.filter((member) => set.delete(member)).length;
+        this.write(key, set.size > 0 ? { data: set } : undefined);
+        return removed;
+      }
+      case 'ZRANGEBYLEX':
+      case 'ZREVRANGEBYLEX': {
+        const reverse = command === 'ZREVRANGEBYLEX';
+        const [key, first, second] = args as [string, string, string];
+        const [min, max] = reverse ? [second, first] : [first, second];
+        const members = [...this.sortedSet(key)]
+          .filter((member) => aboveMin(member, min) && belowMax(member, max))
+          .sort();
+        return reverse ? members.reverse() : members;
+      }
+      default:
+        return new Error(`ERR unknown command '${command}'`);
+    }
+  }
+
+  private lookup(key: string): StandInValue | undefined {
+    const value = this.values.get(key);
+    if (value?.expiresAt !== undefined && value.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return undefined;
+    }
+    return value;
+  }
+
+  private write(key: string, value: StandInValue | undefined): boolean {
+    const existed = this.lookup(key) !== undefined;
+    if (value) {
+      this.values.set(key, value);
+    } else {
+      this.values.delete(key);
+    }
+    this.revisions.set(key, (this.revisions.get(key) ?? 0) + 1);
+    return existed;
+  }
+
+  private sortedSet(key: string): Set<string> {
+    const value = this.lookup(key);
+    return value?.data instanceof Set ? new Set(value.data) : new Set();
+  }
+}
+
+function aboveMin(member: string, min: string): boolean {
+  if (min === '-') return true;
+  return min.startsWith('[') ? member >= min.slice(1) : member > min.slice(1);
+}
+
+function belowMax(member: string, max: string): boolean {
+  if (max === '+') return true;
+  return max.startsWith('[') ? member <= max.slice(1) : member < max.slice(1);
+}
+
+/**
+ * Parse one RESP array command from the buffer (bulk string lengths are in bytes)
+ */
+function parseCommand(buffer: string): { args: string[]; rest: string } | undefined {
+  const bytes = encoder.encode(buffer);
+  let offset = 0;
+
+  const readLine = (): string | undefined => {
+    const end = bytes.indexOf(0x0d, offset);
+    if (end < 0 || bytes[end + 1] !== 0x0a) return undefined;
+    const line = decoder.decode(bytes.subarray(offset, end));
+    offset = end + 2;
+    return line;
+  };
+
+  const header = readLine();
+  if (!header?.startsWith('*')) return undefined;
+
+  const args: string[] = [];
+  for (let i = 0; i < Number(header.slice(1)); i++) {
+    const length = readLine();
+    if (length === undefined) return undefined;
+    const size = Number(length.slice(1));
+    if (offset + size + 2 > bytes.length) return undefined;
+    args.push(decoder.decode(bytes.subarray(offset, offset + size)));
+    offset += size + 2;
+  }
+
+  return { args, rest: decoder.decode(bytes.subarray(offset)) };
+}
+
+function encodeReply(reply: Reply): string {
+  if (reply === null) return '$-1\r\n';
+  if (reply instanceof Error) return `-${reply.message}\r\n`;
+  if (typeof reply === 'number') return `:${reply}\r\n`;
+  if (Array.isArray(reply)) return `*${reply.length}\r\n${reply.map(encodeReply).join('')}`;
+  if (reply === 'OK' || reply === 'QUEUED' || reply === 'PONG') return `+${reply}\r\n`;
+  return `$${encoder.encode(reply).length}\r\n${reply}\r\n`;
+}
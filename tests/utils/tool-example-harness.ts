@@ -0,0 +1,313 @@
+/**
+ * Tool Example Harness
+ * Runs the examples in ToolDefinition.examples as executable contracts
+ *
+ * Every example input is checked against the tool's inputSchema and then run
+ * through the MANAGED ToolRegistry pipeline with mock dependencies, so output
+ * schema checks and error handling apply as in a real server. The output is
+ * compared with expectedOutput using the example's match mode. Use it in a test
+ * so examples that drift from the tool's behaviour fail CI:
+ *
+ * ```typescript
+ * const report = await runToolExamples(myPlugin);
+ * assertToolExamples(report);
+ * ```
+ */
+
+import { AssertionError } from '@std/assert';
+import type { McpServer as SdkMcpServer } from 'mcp/server/mcp.js';
+import type { CallToolResult } from 'mcp/types.js';
+
+import { ToolRegistry } from '../../src/lib/tools/ToolRegistry.ts';
+import { ToolBase } from '../../src/lib/tools/ToolBase.ts';
+import {
+  type ToolExample,
+  type ToolExampleMatch,
+  ToolHandlerMode,
+  type ToolRegistration,
+} from '../../src/lib/types/BeyondMcpTypes.ts';
+import type { AppPlugin } from '../../src/lib/types/PluginTypes.ts';
+import { createMockErrorHandler, createMockLogger } from './test-helpers.ts';
+
+/**
+ * Tools whose examples can be run
+ */
+export type ToolExampleSource = ToolRegistry | AppPlugin | ToolBase | ToolRegistration[];
+
+export interface ToolExampleHarnessOptions {
+  /** Only run the examples of these tools */
+  tools?: string[];
+  /** Extra request fields passed to the handlers (e.g. sessionId) */
+  extra?: Record<string, unknown>;
+}
+
+/**
+ * Outcome of one tool example
+ */
+export interface ToolExampleResult {
+  tool: string;
+  example: string;
+  passed: boolean;
+  match: ToolExampleMatch | undefined; // undefined when the example has no expectedOutput
+  failures: string[];
+  output: string; // text content of the result
+  structuredContent?: unknown;
+  isError: boolean;
+  durationMs: number;
+}
+
+/**
+ * Outcome of all examples of a source
+ */
+export interface ToolExampleReport {
+  total: number;
+  passed: number;
+  failed: number;
+  results: ToolExampleResult[];
+  toolsWithoutExamples: string[];
+}
+
+type ManagedHandler = (args: unknown, extra: unknown) => Promise<CallToolResult>;
+
+/**
+ * Run every example of the given tools and report the outcome
+ */
+export async function runToolExamples(
+  source: ToolExampleSource,
+  options: ToolExampleHarnessOptions = {},
+): Promise<ToolExampleReport> {
+  const tools = getToolRegistrations(source)
+    .filter((tool) => !options.tools || options.tools.includes(tool.name));
+
+  // A fresh registry captures the MANAGED wrapper the SDK would call
+  const handlers = new Map<string, ManagedHandler>();
+  const sdkMcpServer = {
+    registerTool: (name: string, _config: unknown, handler: ManagedHandler) => {
+      handlers.set(name, handler);
+      return { remove: () => handlers.delete(name) };
+    },
+  };
+  const registry = new ToolRegistry({
+    logger: createMockLogger(),
+    errorHandler: createMockErrorHandler(),
+  });
+  registry.sdkMcpServer = sdkMcpServer as unknown as SdkMcpServer;
+
+  const results: ToolExampleResult[] = [];
+  const toolsWithoutExamples: string[] = [];
+
+  for (const tool of tools) {
+    registry.registerTool(tool.name, tool.definition, tool.handler, {
+      ...tool.options,
+      handlerMode: ToolHandlerMode.MANAGED,
+    });
+
+    const examples = tool.definition.examples ?? [];
+    if (examples.length === 0) {
+      toolsWithoutExamples.push(tool.name);
+      continue;
+    }
+
+    for (const [index, example] of examples.entries()) {
+      results.push(
+        await runToolExample(registry, handlers.get(tool.name)!, tool.name, example, {
+          requestId: `example-${tool.name}-${index + 1}`,
+          ...options.extra,
+        }),
+      );
+    }
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  return {
+    total: results.length,
+    passed,
+    failed: results.length - passed,
+    results,
+    toolsWithoutExamples,
+  };
+}
+
+/**
+ * Render a report as plain text, one line per example with the failures indented below
+ */
+export function formatToolExampleReport(report: ToolExampleReport): string {
+  const lines = [
+    `Tool examples: ${report.passed}/${report.total} passed, ${report.failed} failed`,
+  ];
+  for (const result of report.results) {
+    lines.push(
+      `${result.passed ? 'PASS' : 'FAIL'} ${result.tool} > ${result.example} (${
+        result.durationMs.toFixed(1)
+      }ms)`,
+    );
+    for (const failure of result.failures) {
+      lines.push(`  - ${failure}`);
+    }
+  }
+  if (report.toolsWithoutExamples.length > 0) {
+    lines.push(`Tools without examples: ${report.toolsWithoutExamples.join(', ')}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Throw an AssertionError listing the failed examples, if any
+ */
+export function assertToolExamples(report: ToolExampleReport): void {
+  if (report.failed > 0) {
+    throw new AssertionError(formatToolExampleReport(report));
+  }
+}
+
+async function runToolExample(
+  registry: ToolRegistry,
+  handler: ManagedHandler,
+  toolName: string,
+  example: ToolExample,
+  extra: Record<string, unknown>,
+): Promise<ToolExampleResult> {
+  const startTime = performance.now();
+  const match = example.expectedOutput === undefined ? undefined : example.match ?? 'exact';
+  const result: ToolExampleResult = {
+    tool: toolName,
+    example: example.name,
+    passed: false,
+    match,
+    failures: [],
+    output: '',
+    isError: false,
+    durationMs: 0,
+  };
+
+  const validation = await registry.validateToolInput(toolName, example.input);
+  if (!validation.success) {
+    result.failures.push(`Input does not match inputSchema: ${validation.error?.message}`);
+  } else {
+    const callResult = await handler(example.input, extra);
+    result.output = getTextContent(callResult);
+    result.isError = callResult.isError === true;
+    if (callResult.structuredContent !== undefined) {
+      result.structuredContent = callResult.structuredContent;
+    }
+
+    if (result.isError && !example.expectError) {
+      result.failures.push(`Tool returned an error: ${result.output}`);
+    } else if (!result.isError && example.expectError) {
+      result.failures.push('Expected an error result but the tool succeeded');
+    }
+
+    if (match && example.expectedOutput !== undefined) {
+      const mismatch = compareOutput(match, example.expectedOutput, result);
+      if (mismatch) result.failures.push(mismatch);
+    }
+  }
+
+  result.passed = result.failures.length === 0;
+  result.durationMs = performance.now() - startTime;
+  return result;
+}
+
+/**
+ * Compare a result with the expected output, returning a description of the mismatch
+ */
+function compareOutput(
+  match: ToolExampleMatch,
+  expected: string,
+  result: ToolExampleResult,
+): string | undefined {
+  switch (match) {
+    case 'exact':
+      return result.output === expected
+        ? undefined
+        : `Output ${JSON.stringify(result.output)} does not equal ${JSON.stringify(expected)}`;
+
+    case 'regex': {
+      let pattern: RegExp;
+      try {
+        pattern = new RegExp(expected);
+      } catch (error) {
+        return `expectedOutput is not a valid regular expression: ${(error as Error).message}`;
+      }
+      return pattern.test(result.output)
+        ? undefined
+        : `Output ${JSON.stringify(result.output)} does not match /${expected}/`;
+    }
+
+    case 'json': {
+      let expectedJson: unknown;
+      try {
+        expectedJson = JSON.parse(expected);
+      } catch {
+        return 'expectedOutput is not valid JSON';
+      }
+
+      let actual = result.structuredContent;
+      if (actual === undefined) {
+        try {
+          actual = JSON.parse(result.output);
+        } catch {
+          return 'Output has no structuredContent and its text content is not valid JSON';
+        }
+      }
+      return findJsonMismatch(expectedJson, actual, '$');
+    }
+  }
+}
+
+/**
+ * Find the first place where `expected` is not contained in `actual`
+ * Objects may have extra keys; arrays must have the same length
+ */
+function findJsonMismatch(expected: unknown, actual: unknown, path: string): string | undefined {
+  if (Array.isArray(expected)) {
+    if (!Array.isArray(actual)) return `${path}: expected an array`;
+    if (actual.length !== expected.length) {
+      return `${path}: expected ${expected.length} items, got ${actual.length}`;
+    }
+    for (const [index, item] of expected.entries()) {
+      const mismatch = findJsonMismatch(item, actual[index], `${path}[${index}]`);
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+
+  if (expected !== null && typeof expected === 'object') {
+    if (actual === null || typeof actual !== 'object' || Array.isArray(actual)) {
+      return `${path}: expected an object`;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      if (!(key in actual)) return `${path}.${key}: missing`;
+      const mismatch = findJsonMismatch(
+        value,
+        (actual as Record<string, unknown>)[key],
+        `${path}.${key}`,
+      );
+      if (mismatch) return mismatch;
+    }
+    return undefined;
+  }
+
+  return Object.is(expected, actual)
+    ? undefined
+    : `${path}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`;
+}
+
+function getTextContent(result: CallToolResult): string {
+  return (result.content ?? [])
+    .flatMap((block) => block.type === 'text' ? [block.text] : [])
+    .join('\n');
+}
+
+function getToolRegistrations(source: ToolExampleSource): ToolRegistration[] {
+  if (Array.isArray(source)) return source;
+  if (source instanceof ToolRegistry) {
+    return source.getTools().map((tool) => ({
+      name: tool.name,
+      definition: tool.definition,
+      handler: tool.handler,
+    }));
+  }
+  if (source instanceof ToolBase) return source.getTools();
+  return source.tools;
+}